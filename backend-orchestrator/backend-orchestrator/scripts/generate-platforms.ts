@@ -0,0 +1,67 @@
+// =============================================
+// DASHBOARD PLATFORMS GENERATOR
+// =============================================
+//
+// Writes the dashboard's platform list (src/lib/constants/platforms.generated.ts
+// at the repository root) from the tracking engines in the provider registry,
+// so registering an engine is the only place it has to be added.
+//
+// Usage: bun run generate:platforms          (rewrite the module)
+//        bun run generate:platforms --check  (exit 1 if it is out of date)
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import '../src/lib/ai-clients'; // Registers the providers
+import { listProviders } from '../src/lib/provider-registry';
+
+const OUTPUT = join(import.meta.dir, '../../../src/lib/constants/platforms.generated.ts');
+
+function render(): string {
+  const entries = listProviders({ tracking: true }).map((provider) => {
+    if (!provider.display) {
+      throw new Error(`Tracking provider ${provider.id} has no display colors in its registry definition`);
+    }
+    const fields = {
+      id: provider.id,
+      name: provider.name,
+      ...provider.display,
+      enabledByDefault: provider.enabledByDefault,
+    };
+    const lines = Object.entries(fields).map(([key, value]) => `    ${key}: ${JSON.stringify(value)},`);
+    return [`  ${provider.id}: {`, ...lines, '  },'].join('\n');
+  });
+
+  return [
+    '// Generated from the orchestrator provider registry by',
+    '// backend-orchestrator/scripts/generate-platforms.ts. Do not edit: register the',
+    '// engine in backend-orchestrator/src/lib/ai-clients.ts and run `bun run generate:platforms`.',
+    'export const PLATFORMS = {',
+    ...entries,
+    '} as const;',
+    '',
+  ].join('\n');
+}
+
+function main() {
+  const content = render();
+
+  if (process.argv.includes('--check')) {
+    let current = '';
+    try {
+      current = readFileSync(OUTPUT, 'utf8');
+    } catch {
+      // Missing file is reported as out of date below
+    }
+    if (current !== content) {
+      console.error(`${OUTPUT} is out of date. Run bun run generate:platforms`);
+      process.exit(1);
+    }
+    console.log('Dashboard platforms are up to date');
+    return;
+  }
+
+  writeFileSync(OUTPUT, content);
+  console.log(`Wrote ${OUTPUT}`);
+}
+
+main();
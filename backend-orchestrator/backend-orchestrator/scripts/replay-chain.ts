@@ -0,0 +1,300 @@
+// =============================================
+// REPLAY CHAIN CHECK
+// =============================================
+//
+// First checks a record-then-replay round trip of a provider call: AI_MODE=record
+// writes the payload to a temporary fixtures dir and AI_MODE=mock replays it
+// without touching the network.
+//
+// Then runs one tracked prompt through the real workflow handlers against a
+// local Supabase with the committed fixtures (AI_MODE=mock):
+//   process-prompt → brand/analyze-response → aggregate-project-stats
+//   sentiment/evaluate-single
+// and checks the rows each stage leaves behind: the ai_responses answer, its
+// citations, the brand and competitor mentions, the daily_brand_stats rows and
+// the brand evaluation.
+//
+// Usage: bun run test:replay (after `supabase start` and `supabase db reset`)
+// The seeded user, workspace and project are deleted at the end.
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { processPrompt } from '../src/inngest/functions/process-prompt';
+import { analyzeSingleResponse } from '../src/inngest/functions/analyze-single-response';
+import { aggregateProjectStats } from '../src/inngest/functions/aggregate-daily-stats';
+import { processSingleSentimentEvaluation } from '../src/inngest/functions/process-single-sentiment-evaluation';
+import { callAI } from '../src/lib/ai-clients';
+import { getFixtureKey, getFixturesDir, isMockMode } from '../src/lib/ai-fixtures';
+import { createSupabaseClient } from '../src/lib/utils';
+
+// Names used by the fixtures in fixtures/gemini
+const BRAND_NAME = 'Acme Analytics';
+const COMPETITOR_NAME = 'Globex Insights';
+const PROMPT = 'What are the best analytics tools for small teams?';
+const INDUSTRY = 'Analytics software';
+
+interface ReplayEvent {
+  name: string;
+  data: Record<string, unknown>;
+}
+
+type ReplayHandler = (ctx: {
+  event: ReplayEvent;
+  step: ReturnType<typeof createStep>;
+  attempt: number;
+  runId: string;
+}) => Promise<unknown>;
+
+/**
+ * Handler passed to inngest.createFunction
+ * The SDK keeps it on the function object; the dev server is not needed to run it
+ */
+function handlerOf(fn: unknown): ReplayHandler {
+  return (fn as { fn: ReplayHandler }).fn;
+}
+
+/**
+ * Step tools running each step inline
+ * Step results go through JSON like Inngest memoizes them; sent events are queued
+ */
+function createStep(queue: ReplayEvent[]) {
+  return {
+    run: async <T>(_id: string, fn: () => Promise<T> | T): Promise<T> => {
+      const result = await fn();
+      return result === undefined ? result : JSON.parse(JSON.stringify(result));
+    },
+    sendEvent: async (_id: string, events: ReplayEvent | ReplayEvent[]) => {
+      queue.push(...(Array.isArray(events) ? events : [events]));
+      return { ids: [] as string[] };
+    },
+  };
+}
+
+async function runHandler(fn: unknown, event: ReplayEvent, queue: ReplayEvent[]): Promise<unknown> {
+  return handlerOf(fn)({ event, step: createStep(queue), attempt: 0, runId: crypto.randomUUID() });
+}
+
+function check(condition: boolean, message: string): void {
+  if (!condition) throw new Error(`Replay check failed: ${message}`);
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Record a Gemini call against a stand-in API, then replay it in mock mode
+ * The stand-in answers with the committed payload plus a marker, so the replay
+ * can only match if it read the recorded file rather than default.json
+ */
+async function checkRecordReplay(): Promise<void> {
+  const committed = JSON.parse(readFileSync(join(getFixturesDir(), 'gemini', 'default.json'), 'utf-8'));
+  const payload = structuredClone(committed.response);
+  payload.candidates[0].content.parts[0].text += ' (recorded)';
+
+  const config = { apiKey: 'replay', model: 'gemini-2.5-flash-lite', useWebSearch: true };
+  const dir = mkdtempSync(join(tmpdir(), 'replay-fixtures-'));
+  const originalFetch = globalThis.fetch;
+  const originalDir = process.env.AI_FIXTURES_DIR;
+
+  try {
+    process.env.AI_FIXTURES_DIR = dir;
+    process.env.AI_MODE = 'record';
+    globalThis.fetch = (async () => Response.json(payload)) as unknown as typeof fetch;
+    const recorded = await callAI('gemini', PROMPT, config);
+
+    const key = getFixtureKey('gemini', config.model, PROMPT);
+    check(existsSync(join(dir, 'gemini', `${key}.json`)), 'record mode wrote the gemini payload to the fixtures dir');
+
+    process.env.AI_MODE = 'mock';
+    globalThis.fetch = (async () => {
+      throw new Error('mock mode called the network');
+    }) as unknown as typeof fetch;
+    const replayed = await callAI('gemini', PROMPT, config);
+
+    check(replayed.text === recorded.text && replayed.text.endsWith('(recorded)'), 'mock mode replays the recorded answer');
+    check(
+      replayed.citationsData?.length === 2 &&
+        JSON.stringify(replayed.citationsData) === JSON.stringify(recorded.citationsData),
+      'the replayed answer has the recorded citations'
+    );
+  } finally {
+    process.env.AI_MODE = 'mock';
+    globalThis.fetch = originalFetch;
+    if (originalDir === undefined) delete process.env.AI_FIXTURES_DIR;
+    else process.env.AI_FIXTURES_DIR = originalDir;
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  if (!isMockMode()) {
+    throw new Error('Run with AI_MODE=mock (bun run test:replay)');
+  }
+
+  // 0. Record → replay round trip (no database needed)
+  await checkRecordReplay();
+
+  // Seeds and deletes rows: never point it at a hosted project
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+  const { hostname } = new URL(supabaseUrl);
+  if (hostname !== 'localhost' && hostname !== '127.0.0.1') {
+    throw new Error(`SUPABASE_URL must point to a local Supabase, got ${supabaseUrl}`);
+  }
+
+  const supabase = createSupabaseClient();
+  const suffix = crypto.randomUUID().slice(0, 8);
+
+  // public.users is filled by the on_auth_user_created trigger
+  const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+    email: `replay-${suffix}@example.com`,
+    password: crypto.randomUUID(),
+    email_confirm: true,
+  });
+  if (authError || !authData.user) throw new Error(`Failed to create user: ${authError?.message}`);
+  const userId = authData.user.id;
+
+  try {
+    const { data: workspace, error: workspaceError } = await supabase
+      .from('workspaces')
+      .insert({ name: 'Replay', slug: `replay-${suffix}`, owner_id: userId })
+      .select('id')
+      .single();
+    if (workspaceError) throw new Error(`Failed to create workspace: ${workspaceError.message}`);
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .insert({
+        name: 'Replay',
+        slug: `replay-${suffix}`,
+        workspace_id: workspace.id,
+        brand_name: BRAND_NAME,
+        industry: INDUSTRY,
+        use_web_search: true,
+        samples_per_prompt: 1,
+      })
+      .select('id, name')
+      .single();
+    if (projectError) throw new Error(`Failed to create project: ${projectError.message}`);
+
+    const { data: competitor, error: competitorError } = await supabase
+      .from('competitors')
+      .insert({ project_id: project.id, name: COMPETITOR_NAME, domain: 'globex.example.com', is_active: true })
+      .select('id')
+      .single();
+    if (competitorError) throw new Error(`Failed to create competitor: ${competitorError.message}`);
+
+    // prompt_tracking.region_id is required
+    const { data: region, error: regionError } = await supabase
+      .from('regions')
+      .insert({ project_id: project.id, code: 'US', name: 'United States', is_active: true })
+      .select('id')
+      .single();
+    if (regionError) throw new Error(`Failed to create region: ${regionError.message}`);
+
+    const { data: prompt, error: promptError } = await supabase
+      .from('prompt_tracking')
+      .insert({ project_id: project.id, prompt: PROMPT, region_id: region.id })
+      .select('id')
+      .single();
+    if (promptError) throw new Error(`Failed to create prompt: ${promptError.message}`);
+
+    // 1. Prompt → response and citations
+    const queue: ReplayEvent[] = [];
+    await runHandler(processPrompt, {
+      name: 'analysis/process-prompt',
+      data: { prompt_tracking_id: prompt.id, project_id: project.id, platforms_to_process: ['gemini'] },
+    }, queue);
+
+    const { data: responses } = await supabase
+      .from('ai_responses')
+      .select('id, status, response_text')
+      .eq('project_id', project.id);
+    check(responses?.length === 1 && responses[0].status === 'success', 'process-prompt stored one successful gemini response');
+    const responseId = responses![0].id;
+
+    const { data: citations } = await supabase
+      .from('citations')
+      .select('domain, canonical_url')
+      .eq('ai_response_id', responseId);
+    check(citations?.length === 2, 'both grounding chunks were stored as citations');
+    check(
+      !!citations?.some((c) => c.canonical_url === 'https://example-reviews.com/analytics/best-tools'),
+      'citation redirects were resolved from redirects.json and canonicalized'
+    );
+
+    // 2. Brand analysis dispatched by process-prompt
+    const analysisEvents = queue.filter((e) => e.name === 'brand/analyze-response');
+    check(analysisEvents.length === 1, 'process-prompt dispatched brand analysis for the response');
+    for (const event of analysisEvents) {
+      await runHandler(analyzeSingleResponse, event, []);
+    }
+
+    const { data: mentions } = await supabase
+      .from('brand_mentions')
+      .select('brand_type, competitor_id, is_first_occurrence')
+      .eq('ai_response_id', responseId);
+    const clientMentions = mentions?.filter((m) => m.brand_type === 'client') || [];
+    const competitorMentions = mentions?.filter((m) => m.competitor_id === competitor.id) || [];
+    check(clientMentions.length === 2, `${BRAND_NAME} has a mention row per occurrence`);
+    check(competitorMentions.length === 2, `${COMPETITOR_NAME} has a mention row per occurrence`);
+    check(
+      clientMentions.filter((m) => m.is_first_occurrence).length === 1 &&
+        competitorMentions.filter((m) => m.is_first_occurrence).length === 1,
+      'only the first occurrence of each entity is flagged'
+    );
+
+    // 3. Daily aggregation for today (UTC), as aggregate-daily-stats dispatches it
+    const statDate = new Date().toISOString().split('T')[0];
+    await runHandler(aggregateProjectStats, {
+      name: 'stats/aggregate-project',
+      data: { project_id: project.id, project_name: project.name, stat_date: statDate },
+    }, []);
+
+    const { data: stats } = await supabase
+      .from('daily_brand_stats')
+      .select('entity_type, competitor_id, mentions_count, responses_analyzed')
+      .eq('project_id', project.id)
+      .eq('stat_date', statDate);
+    const brandStats = stats?.filter((s) => s.entity_type === 'brand') || [];
+    const competitorStats = stats?.filter((s) => s.competitor_id === competitor.id) || [];
+    check(brandStats.length > 0 && competitorStats.length > 0, 'daily_brand_stats has brand and competitor rows');
+    check(
+      brandStats.every((s) => s.mentions_count === 1) && competitorStats.every((s) => s.mentions_count === 1),
+      'mentions are counted once per response'
+    );
+
+    // 4. Sentiment evaluation, as schedule-sentiment-evaluation dispatches it for the brand
+    await runHandler(processSingleSentimentEvaluation, {
+      name: 'sentiment/evaluate-single',
+      data: {
+        project_id: project.id,
+        topic: INDUSTRY,
+        region_id: region.id,
+        entity_type: 'brand',
+        entity_name: BRAND_NAME,
+        competitor_id: null,
+      },
+    }, []);
+
+    const { data: evaluations } = await supabase
+      .from('brand_evaluations')
+      .select('sentiment_score, positive_theme_ids, natural_response')
+      .eq('project_id', project.id)
+      .eq('entity_type', 'brand');
+    check(
+      evaluations?.length === 1 && Number(evaluations[0].sentiment_score) === 0.6 && !!evaluations[0].natural_response,
+      'the brand evaluation stored the replayed sentiment'
+    );
+    check((evaluations?.[0]?.positive_theme_ids?.length || 0) > 0, 'strengths were stored as positive themes');
+
+    console.log('Replay chain passed');
+  } finally {
+    // Workspace, project and their rows cascade from the user
+    const { error } = await supabase.auth.admin.deleteUser(userId);
+    if (error) console.error(`Failed to clean up replay user ${userId}: ${error.message}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -10,6 +10,18 @@ import { aggregateDailyStats, aggregateProjectStats, backfillProjectStats } from
 import { analyzeBrandWebsite } from "./inngest/functions/analyze-brand-website";
 import { scheduleSentimentEvaluation } from "./inngest/functions/schedule-sentiment-evaluation";
 import { processSingleSentimentEvaluation } from "./inngest/functions/process-single-sentiment-evaluation";
+import { replayDeadLetters } from "./inngest/functions/replay-dead-letters";
+import { backfillCompetitorMentions } from "./inngest/functions/backfill-competitor-mentions";
+import { reanalyzeHistory } from "./inngest/functions/reanalyze-history";
+import { classifyCitationSources } from "./inngest/functions/classify-citation-sources";
+import { deliverWebhook } from "./inngest/functions/deliver-webhook";
+import { scheduleReports, generateScheduledReport } from "./inngest/functions/scheduled-reports";
+import { createSupabaseClient } from "./lib/utils";
+import { queueWebhookEvents } from "./lib/webhooks";
+import { generateProjectReportInsights } from "./lib/report-insights";
+import type { DetailedReportData, ReportPeriod } from "./lib/report-data";
+
+const REPORT_PERIODS: ReportPeriod[] = ["yesterday", "last-week", "last-month", "last-3-months"];
 
 // Create Inngest handler
 const handler = serve({
@@ -27,6 +39,13 @@ const handler = serve({
     analyzeBrandWebsite,
     scheduleSentimentEvaluation,
     processSingleSentimentEvaluation,
+    replayDeadLetters,
+    backfillCompetitorMentions,
+    reanalyzeHistory,
+    classifyCitationSources,
+    deliverWebhook,
+    scheduleReports,
+    generateScheduledReport,
   ],
 });
 
@@ -185,6 +204,173 @@ const app = new Elysia()
       return { success: false, error: error.message || "Unknown error" };
     }
   })
+  // Re-drive dead letters queued from the Failed Runs page
+  // This route must be defined BEFORE /api/inngest to avoid conflicts
+  .post("/replay-dead-letters", async ({ body, request }) => {
+    try {
+      const { dead_letter_ids } = (body && typeof body === 'object' ? body : await request.json()) as {
+        dead_letter_ids?: string[];
+      };
+
+      if (!Array.isArray(dead_letter_ids) || dead_letter_ids.length === 0) {
+        return { success: false, error: "Missing dead_letter_ids" };
+      }
+
+      const event = await inngest.send({
+        name: "dead-letters/replay",
+        data: { dead_letter_ids },
+      });
+
+      console.log(`[INFO] Replay triggered for ${dead_letter_ids.length} dead letters, event ID: ${event.ids[0]}`);
+      return { success: true, eventId: event.ids[0], message: "Dead letter replay triggered" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ERROR] Failed to trigger dead letter replay:`, message);
+      return { success: false, error: message || "Unknown error" };
+    }
+  })
+  // Backfill mentions of a competitor promoted from the discovered brands queue
+  // This route must be defined BEFORE /api/inngest to avoid conflicts
+  .post("/backfill-competitor-mentions", async ({ body, request }) => {
+    try {
+      const { project_id, competitor_id } = (body && typeof body === 'object' ? body : await request.json()) as {
+        project_id?: string;
+        competitor_id?: string;
+      };
+
+      if (!project_id || !competitor_id) {
+        return { success: false, error: "Missing project_id or competitor_id" };
+      }
+
+      const event = await inngest.send({
+        name: "competitor/backfill-mentions",
+        data: { project_id, competitor_id },
+      });
+
+      console.log(`[INFO] Mention backfill triggered for competitor ${competitor_id}, event ID: ${event.ids[0]}`);
+      return { success: true, eventId: event.ids[0], message: "Competitor mention backfill triggered" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ERROR] Failed to trigger competitor mention backfill:`, message);
+      return { success: false, error: message || "Unknown error" };
+    }
+  })
+  // Start a historical re-analysis job created by the dashboard
+  // This route must be defined BEFORE /api/inngest to avoid conflicts
+  .post("/reanalyze-history", async ({ body, request }) => {
+    try {
+      const { job_id } = (body && typeof body === 'object' ? body : await request.json()) as { job_id?: string };
+
+      if (!job_id) {
+        return { success: false, error: "Missing job_id" };
+      }
+
+      const event = await inngest.send({
+        name: "brand/reanalyze-history",
+        data: { job_id },
+      });
+
+      console.log(`[INFO] Historical re-analysis triggered for job ${job_id}, event ID: ${event.ids[0]}`);
+      return { success: true, eventId: event.ids[0], message: "Historical re-analysis triggered" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ERROR] Failed to trigger historical re-analysis:`, message);
+      return { success: false, error: message || "Unknown error" };
+    }
+  })
+  // Emit report.generated to workspace webhooks once the dashboard saved a report
+  // This route must be defined BEFORE /api/inngest to avoid conflicts
+  .post("/webhooks/report-generated", async ({ body, request }) => {
+    try {
+      const { report_id } = (body && typeof body === 'object' ? body : await request.json()) as { report_id?: string };
+
+      if (!report_id) {
+        return { success: false, error: "Missing report_id" };
+      }
+
+      // The payload is built from the stored report, never from the request
+      const supabase = createSupabaseClient();
+      const { data: report, error } = await supabase
+        .from("reports")
+        .select("id, project_id, period, topic_id, topic_name, created_by, created_at")
+        .eq("id", report_id)
+        .maybeSingle();
+
+      if (error || !report) {
+        return { success: false, error: error?.message || "Report not found" };
+      }
+
+      const { id, project_id, ...reportData } = report;
+      const events = await queueWebhookEvents(supabase, project_id, [
+        { type: "report.generated", data: { report_id: id, ...reportData } },
+      ]);
+
+      if (events.length > 0) {
+        await inngest.send(events);
+      }
+
+      console.log(`[INFO] Queued ${events.length} report.generated webhook deliveries for report ${report_id}`);
+      return { success: true, deliveries: events.length };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ERROR] Failed to emit report.generated:`, message);
+      return { success: false, error: message || "Unknown error" };
+    }
+  })
+  // Build and email a scheduled report now ("Send now" in the dashboard)
+  // This route must be defined BEFORE /api/inngest to avoid conflicts
+  .post("/reports/send-scheduled", async ({ body, request }) => {
+    try {
+      const { schedule_id } = (body && typeof body === 'object' ? body : await request.json()) as { schedule_id?: string };
+
+      if (!schedule_id) {
+        return { success: false, error: "Missing schedule_id" };
+      }
+
+      const event = await inngest.send({
+        name: "reports/generate",
+        data: { schedule_id },
+      });
+
+      console.log(`[INFO] Scheduled report triggered for schedule ${schedule_id}, event ID: ${event.ids[0]}`);
+      return { success: true, eventId: event.ids[0], message: "Scheduled report triggered" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ERROR] Failed to trigger scheduled report:`, message);
+      return { success: false, error: message || "Unknown error" };
+    }
+  })
+  // Write the insights of a report built in the dashboard (report builder and "Regenerate")
+  // This route must be defined BEFORE /api/inngest to avoid conflicts
+  .post("/reports/insights", async ({ body, request }) => {
+    try {
+      const { project_id, period, report_data, now } = (body && typeof body === 'object' ? body : await request.json()) as {
+        project_id?: string;
+        period?: ReportPeriod;
+        report_data?: DetailedReportData;
+        now?: string;
+      };
+
+      if (!project_id || !report_data || !period || !REPORT_PERIODS.includes(period)) {
+        return { success: false, error: "Missing project_id, report_data or a valid period" };
+      }
+
+      const insights = await generateProjectReportInsights(
+        createSupabaseClient(),
+        project_id,
+        period,
+        report_data,
+        now ? new Date(now) : new Date()
+      );
+
+      console.log(`[INFO] Generated ${insights.source} insights for project ${project_id}`);
+      return { success: true, insights };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ERROR] Failed to generate report insights:`, message);
+      return { success: false, error: message || "Unknown error" };
+    }
+  })
   .all("/api/inngest", async ({ request }) => {
     return handler(request);
   })
@@ -197,5 +383,5 @@ console.log(
   `🦊 Elysia is running at ${app.server?.hostname}:${app.server?.port}`
 );
 console.log(`📡 Inngest endpoint available at /api/inngest`);
-console.log(`✅ Functions registered: schedule-daily-analysis, process-single-prompt, test-function, manual-schedule-analysis, analyze-brands-batch, analyze-single-response, aggregate-daily-stats, aggregate-project-stats, backfill-project-stats, analyze-brand-website, schedule-sentiment-evaluation, process-single-sentiment-evaluation`);
+console.log(`✅ Functions registered: schedule-daily-analysis, process-single-prompt, test-function, manual-schedule-analysis, analyze-brands-batch, analyze-single-response, aggregate-daily-stats, aggregate-project-stats, backfill-project-stats, analyze-brand-website, schedule-sentiment-evaluation, process-single-sentiment-evaluation, replay-dead-letters, backfill-competitor-mentions, reanalyze-history, classify-citation-sources, deliver-webhook, schedule-reports, generate-scheduled-report`);
 console.log(`🔗 Endpoints available: /analyze-brand-website, /process-prompt`);
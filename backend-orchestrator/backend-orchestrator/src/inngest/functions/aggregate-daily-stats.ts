@@ -4,6 +4,8 @@
 
 import { inngest } from '../client';
 import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
+import { evaluateAlertRules, deliverAlerts } from '../../lib/alerts';
+import { queueWebhookEvents } from '../../lib/webhooks';
 
 interface DimensionCombination {
   platform: string;
@@ -103,7 +105,8 @@ export const aggregateDailyStats = inngest.createFunction(
 
 /**
  * Worker function to aggregate stats for a single project
- * Processes brand and competitor stats with dimension combinations
+ * Processes brand and competitor stats with dimension combinations, then
+ * evaluates the project's alert rules on the fresh stats
  */
 export const aggregateProjectStats = inngest.createFunction(
   {
@@ -240,11 +243,75 @@ export const aggregateProjectStats = inngest.createFunction(
       compFailed.push(...batchResult.failedDims);
     }
 
+    // Step 4: Refresh the citation graph authority score of cited domains
+    // Non-critical: a failure leaves yesterday's scores in place
+    const domainsScored = await step.run('compute-domain-authority', async () => {
+      const { data, error } = await supabase.rpc('compute_domain_authority', {
+        p_project_id: project_id,
+      });
+
+      if (error) {
+        logError('aggregate-project-stats', `Failed to compute domain authority for ${project_name}`, error);
+        return null;
+      }
+
+      return (data as number) || 0;
+    });
+
+    // Step 5: Evaluate alert rules on the fresh stats, then send what fired
+    // Non-critical: a failure never fails the aggregation
+    const alertIds = await step.run('evaluate-alerts', async () => {
+      try {
+        return await evaluateAlertRules(supabase, project_id, stat_date);
+      } catch (err) {
+        logError('aggregate-project-stats', `Failed to evaluate alerts for ${project_name}`, err);
+        return [];
+      }
+    });
+
+    const alertDelivery = alertIds.length > 0
+      ? await step.run('deliver-alerts', async () => {
+          try {
+            return await deliverAlerts(supabase, alertIds, project_name);
+          } catch (err) {
+            logError('aggregate-project-stats', `Failed to deliver alerts for ${project_name}`, err);
+            return null;
+          }
+        })
+      : null;
+
+    // Alerts reach webhooks as alert.fired deliveries of the workspace endpoints
+    const alertWebhookEvents = alertIds.length > 0
+      ? await step.run('queue-alert-webhooks', async () => {
+          const { data, error } = await supabase
+            .from('alerts')
+            .select('id, rule_id, rule_type, stat_date, severity, title, message, data, created_at')
+            .in('id', alertIds);
+
+          if (error) {
+            logError('aggregate-project-stats', `Failed to load alerts for webhooks of ${project_name}`, error);
+            return [];
+          }
+
+          return queueWebhookEvents(
+            supabase,
+            project_id,
+            (data || []).map(({ id, ...alert }) => ({ type: 'alert.fired' as const, data: { alert_id: id, ...alert } }))
+          );
+        })
+      : [];
+
+    if (alertWebhookEvents.length > 0) {
+      await step.sendEvent('send-alert-webhooks', alertWebhookEvents);
+    }
+
     logInfo('aggregate-project-stats', `Aggregation complete for ${project_name}`, {
       project_id,
       project_name,
       brandStats: brandResult,
       competitorStats: { success: compSuccess, fail: compFail },
+      domainsScored,
+      alertsFired: alertIds.length,
     });
 
     if (brandResult.fail > 0 || compFail > 0) {
@@ -259,12 +326,18 @@ export const aggregateProjectStats = inngest.createFunction(
       project_name,
       brandStats: brandResult,
       competitorStats: { success: compSuccess, fail: compFail },
+      domainsScored,
+      alertsFired: alertIds.length,
+      alertDelivery,
     };
   }
 );
 
 /**
  * Manual trigger function for backfilling stats with dimensions
+ * With `replace`, existing rows in the range are deleted first (the backfill adds
+ * to existing rows), so the range can be rebuilt after a historical re-analysis.
+ * `reanalysis_job_id` marks that job completed once the stats are rebuilt.
  */
 export const backfillProjectStats = inngest.createFunction(
   {
@@ -275,19 +348,39 @@ export const backfillProjectStats = inngest.createFunction(
   },
   { event: 'stats/backfill-project' },
   async ({ event, step }) => {
-    const { project_id, start_date, end_date } = event.data;
+    const { project_id, start_date, replace, reanalysis_job_id } = event.data;
     const supabase = createSupabaseClient();
 
+    const end_date = await step.run('resolve-end-date', async () =>
+      event.data.end_date || new Date(Date.now() - 86400000).toISOString().split('T')[0]
+    );
+
     logInfo('backfill-project-stats', `Starting backfill for project ${project_id}`, {
       start_date,
       end_date,
+      replace: !!replace,
     });
 
+    if (replace) {
+      await step.run('clear-range', async () => {
+        const { error } = await supabase
+          .from('daily_brand_stats')
+          .delete()
+          .eq('project_id', project_id)
+          .gte('stat_date', start_date)
+          .lte('stat_date', end_date);
+
+        if (error) {
+          throw new Error(`Failed to clear stats before backfill: ${error.message}`);
+        }
+      });
+    }
+
     const result = await step.run('run-backfill', async () => {
       const { data, error } = await supabase.rpc('backfill_daily_brand_stats_with_dimensions', {
         p_project_id: project_id,
         p_start_date: start_date,
-        p_end_date: end_date || new Date(Date.now() - 86400000).toISOString().split('T')[0],
+        p_end_date: end_date,
       });
 
       if (error) {
@@ -298,6 +391,15 @@ export const backfillProjectStats = inngest.createFunction(
       return { rowsCreated: data };
     });
 
+    if (reanalysis_job_id) {
+      await step.run('complete-reanalysis-job', async () => {
+        await supabase
+          .from('reanalysis_jobs')
+          .update({ status: 'completed', completed_at: new Date().toISOString() })
+          .eq('id', reanalysis_job_id);
+      });
+    }
+
     logInfo('backfill-project-stats', `Backfill complete for project ${project_id}`, result);
 
     return {
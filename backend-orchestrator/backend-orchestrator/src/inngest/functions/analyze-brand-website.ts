@@ -5,6 +5,7 @@
 import { inngest } from '../client';
 import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
 import { callGemini, getAPIKey } from '../../lib/ai-clients';
+import { withRateLimit, estimateTokens } from '../../lib/rate-limiter';
 
 /**
  * Prompt template for extracting AEO prompts (Phase 1) and sentiment topics (Phase 2) from a brand website
@@ -480,12 +481,15 @@ export const analyzeBrandWebsite = inngest.createFunction(
       });
 
       try {
-        const result = await callGemini(prompt, {
+        const geminiConfig = {
           apiKey: geminiApiKey,
           model: 'gemini-2.5-flash-lite',
           temperature: 0.3,
           maxTokens: Math.max(180000, totalPrompts * 200), // Increased from 80 to 150 tokens per prompt, minimum 150k
-        });
+        };
+        const result = await withRateLimit('gemini', geminiConfig.model, estimateTokens(prompt, geminiConfig.maxTokens), () =>
+          callGemini(prompt, geminiConfig)
+        );
 
         // Check if response might be truncated
         const mightBeTruncated = result.text.length > 0 && (
@@ -4,9 +4,14 @@
 
 import { inngest } from '../client';
 import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
-import { analyzeBrandMentions } from '../../lib/brand-analysis';
+import { analyzeBrandMentions, type EntityAliases } from '../../lib/brand-analysis';
 import { saveBrandAnalysis } from '../../lib/brand-storage';
 import { getAPIKey } from '../../lib/ai-clients';
+import { recordSpend } from '../../lib/budgets';
+import { recordDeadLetter, resolveDeadLetters, getBrandAnalysisDedupeKey } from '../../lib/dead-letters';
+import { queueWebhookEvents, type WebhookEvent } from '../../lib/webhooks';
+
+const RETRIES = 3;
 
 /**
  * Analyze a single AI response for brand mentions, sentiment, and attributes
@@ -19,24 +24,41 @@ export const analyzeSingleResponse = inngest.createFunction(
     concurrency: {
       limit: 5, // Matches Inngest plan limit
     },
-    retries: 3,
+    retries: RETRIES,
   },
   { event: 'brand/analyze-response' },
-  async ({ event, step }) => {
+  async ({ event, step, attempt, runId }) => {
     const { ai_response_id, project_id } = event.data;
     const supabase = createSupabaseClient();
 
+    // Dead-letter a failing step once its last retry fails (attempt is zero-indexed)
+    const deadLetterOnLastAttempt = async (stepName: string, error: unknown) => {
+      if (attempt < RETRIES) return;
+      await recordDeadLetter(supabase, {
+        projectId: project_id,
+        functionId: 'analyze-single-response',
+        eventName: 'brand/analyze-response',
+        eventData: { ai_response_id, project_id },
+        stepName,
+        error,
+        provider: 'gemini',
+        attempts: attempt + 1,
+        dedupeKey: getBrandAnalysisDedupeKey(ai_response_id),
+        aiResponseId: ai_response_id,
+      });
+    };
+
     logInfo('analyze-single-response', `Starting brand analysis for response ${ai_response_id}`);
 
     // 1. Fetch AI response and project data with retries for missing rows
     const responseData = await step.run('fetch-response-data', async () => {
       const MAX_ATTEMPTS = 2;
-      let responseMeta: { id: string; project_id: string; status: string } | null = null;
+      let responseMeta: { id: string; project_id: string; platform: string; status: string } | null = null;
 
       for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
         const { data: responseMetaArray, error: metaError } = await supabase
           .from('ai_responses')
-          .select('id, project_id, status')
+          .select('id, project_id, platform, status')
           .eq('id', ai_response_id)
           .limit(1);
 
@@ -90,7 +112,7 @@ export const analyzeSingleResponse = inngest.createFunction(
       // Use limit(1) instead of single() to avoid serialization problems
       const { data: projectArray, error: projectError } = await supabase
         .from('projects')
-        .select('id, brand_name, name')
+        .select('id, brand_name, brand_aliases, name')
         .eq('id', project_id)
         .limit(1);
 
@@ -107,7 +129,7 @@ export const analyzeSingleResponse = inngest.createFunction(
       // Get active competitors
       const { data: competitors, error: competitorsError } = await supabase
         .from('competitors')
-        .select('id, name')
+        .select('id, name, aliases')
         .eq('project_id', project_id)
         .eq('is_active', true);
 
@@ -154,6 +176,13 @@ export const analyzeSingleResponse = inngest.createFunction(
     const responseText = response.response_text!;
     const brandName = project.brand_name || project.name;
     const competitorNames = competitors.map((c: any) => c.name);
+    const brandAliases: string[] = project.brand_aliases || [];
+    const aliases: EntityAliases = {
+      brand: brandAliases,
+      competitors: Object.fromEntries(
+        competitors.map((c: { name: string; aliases: string[] | null }) => [c.name, c.aliases || []])
+      ),
+    };
 
     logInfo('analyze-single-response', 'Fetched response data', {
       aiResponseId: ai_response_id,
@@ -214,7 +243,8 @@ export const analyzeSingleResponse = inngest.createFunction(
             temperature: 0.3,
             maxTokens: 4000, // Gemini supports more tokens
             useWebSearch: false, // No web search needed for analyzing existing text
-          }
+          },
+          aliases
         );
 
         logInfo('analyze-single-response', 'Brand analysis completed', {
@@ -224,6 +254,17 @@ export const analyzeSingleResponse = inngest.createFunction(
           otherBrandsDetected: result.other_brands_detected.length,
         });
 
+        if (result.usage) {
+          await recordSpend(supabase, {
+            projectId: project_id,
+            platform: 'gemini',
+            source: 'brand_analysis',
+            tokens: result.usage.tokens_used,
+            cost: result.usage.cost,
+            idempotencyKey: `${runId}:analyze-brands`,
+          });
+        }
+
         return result;
       } catch (error: any) {
         logError('analyze-single-response', 'Brand analysis failed', {
@@ -240,6 +281,7 @@ export const analyzeSingleResponse = inngest.createFunction(
           })
           .eq('id', ai_response_id);
 
+        await deadLetterOnLastAttempt('analyze-brands', error);
         throw error;
       }
     });
@@ -253,7 +295,8 @@ export const analyzeSingleResponse = inngest.createFunction(
           project_id,
           brandName,
           responseText,
-          analysis
+          analysis,
+          brandAliases
         );
 
         logInfo('analyze-single-response', 'Brand analysis saved to database', {
@@ -272,12 +315,15 @@ export const analyzeSingleResponse = inngest.createFunction(
           })
           .eq('id', ai_response_id);
 
+        await resolveDeadLetters(supabase, getBrandAnalysisDedupeKey(ai_response_id));
+
         return result;
       } catch (error: any) {
         logError('analyze-single-response', 'Failed to save brand analysis', {
           error: error.message,
           aiResponseId: ai_response_id,
         });
+        await deadLetterOnLastAttempt('save-analysis', error);
         throw error;
       }
     });
@@ -350,13 +396,13 @@ export const analyzeSingleResponse = inngest.createFunction(
         logInfo('analyze-single-response', 'Checking incremental aggregation conditions', {
           aiResponseId: ai_response_id,
           mentionsSaved: saveResult.mentionsSaved,
-          clientBrandMentioned: analysis.client_brand_mentioned,
-          conditionMet: saveResult.mentionsSaved > 0 && analysis.client_brand_mentioned,
+          clientBrandMentioned: saveResult.clientMentioned,
+          conditionMet: saveResult.mentionsSaved > 0 && saveResult.clientMentioned,
         });
         
         // Aggregate brand stats incrementally if brand was mentioned
         // Use incremental function that only counts mentions for this specific ai_response_id
-        if (saveResult.mentionsSaved > 0 && analysis.client_brand_mentioned) {
+        if (saveResult.mentionsSaved > 0 && saveResult.clientMentioned) {
           const { error: brandAggError } = await supabase.rpc('aggregate_brand_stats_incremental', {
             p_project_id: project_id,
             p_ai_response_id: ai_response_id,
@@ -382,44 +428,40 @@ export const analyzeSingleResponse = inngest.createFunction(
             aiResponseId: ai_response_id,
             reason: !(saveResult.mentionsSaved > 0) ? 'no_mentions_saved' : 'brand_not_mentioned',
             mentionsSaved: saveResult.mentionsSaved,
-            clientBrandMentioned: analysis.client_brand_mentioned,
+            clientBrandMentioned: saveResult.clientMentioned,
           });
         }
         
         // Aggregate competitor stats incrementally for each mentioned competitor
         // Use incremental function that only counts mentions for this specific ai_response_id
-        if (analysis.mentioned_competitors.length > 0) {
-          for (const competitorName of analysis.mentioned_competitors) {
-            const competitor = competitors.find((c: any) => c.name === competitorName);
-            if (competitor) {
-              const { error: compAggError } = await supabase.rpc('aggregate_competitor_stats_incremental', {
-                p_project_id: project_id,
-                p_competitor_id: competitor.id,
-                p_ai_response_id: ai_response_id,
-                p_stat_date: todayStr,
-                p_platform: platform,
-                p_region_id: regionId || null,
-                p_topic_id: topicId,
-              });
-              
-              if (compAggError) {
-                logError('analyze-single-response', 'Failed to aggregate competitor stats incrementally', {
-                  error: compAggError,
-                  competitorId: competitor.id,
-                  competitorName,
-                });
-              } else {
-                logInfo('analyze-single-response', 'Incremental competitor stats aggregation completed', {
-                  aiResponseId: ai_response_id,
-                  competitorId: competitor.id,
-                  competitorName,
-                  platform,
-                  regionId,
-                  regionCode,
-                  topicId,
-                });
-              }
-            }
+        for (const competitorId of saveResult.mentionedCompetitorIds) {
+          const competitorName = competitors.find((c: any) => c.id === competitorId)?.name;
+          const { error: compAggError } = await supabase.rpc('aggregate_competitor_stats_incremental', {
+            p_project_id: project_id,
+            p_competitor_id: competitorId,
+            p_ai_response_id: ai_response_id,
+            p_stat_date: todayStr,
+            p_platform: platform,
+            p_region_id: regionId || null,
+            p_topic_id: topicId,
+          });
+          
+          if (compAggError) {
+            logError('analyze-single-response', 'Failed to aggregate competitor stats incrementally', {
+              error: compAggError,
+              competitorId,
+              competitorName,
+            });
+          } else {
+            logInfo('analyze-single-response', 'Incremental competitor stats aggregation completed', {
+              aiResponseId: ai_response_id,
+              competitorId,
+              competitorName,
+              platform,
+              regionId,
+              regionCode,
+              topicId,
+            });
           }
         }
         
@@ -434,6 +476,36 @@ export const analyzeSingleResponse = inngest.createFunction(
       }
     });
 
+    // 7. Webhooks: client brand mentioned, brands detected for the first time
+    const webhookEvents = await step.run('queue-webhooks', async () => {
+      const events: WebhookEvent[] = [];
+
+      if (saveResult.clientMentioned) {
+        events.push({
+          type: 'mention.detected',
+          data: {
+            ai_response_id,
+            platform: response.platform,
+            brand_name: brandName,
+            mentioned_competitor_ids: saveResult.mentionedCompetitorIds,
+          },
+        });
+      }
+
+      for (const discoveredBrand of saveResult.newPotentialCompetitors) {
+        events.push({
+          type: 'competitor.discovered',
+          data: { ai_response_id, platform: response.platform, brand_name: discoveredBrand },
+        });
+      }
+
+      return queueWebhookEvents(supabase, project_id, events);
+    });
+
+    if (webhookEvents.length > 0) {
+      await step.sendEvent('send-webhooks', webhookEvents);
+    }
+
     return {
       message: 'Brand analysis completed successfully',
       ai_response_id,
@@ -0,0 +1,192 @@
+// =============================================
+// BACKFILL COMPETITOR MENTIONS
+// =============================================
+// Runs when a discovered brand is promoted to a competitor. Stored responses
+// are scanned with the mention locator for the new competitor (name and
+// aliases), its mentions are saved and daily_brand_stats is updated so the
+// competitor has history from day one.
+
+import { inngest } from '../client';
+import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
+import { locateMentions } from '../../lib/mention-locator';
+
+const PAGE_SIZE = 200;
+
+interface StoredResponse {
+  id: string;
+  response_text: string;
+  created_at: string;
+  platform: string;
+  prompt_tracking: { region_id: string | null; topic_id: string | null } | { region_id: string | null; topic_id: string | null }[] | null;
+}
+
+/**
+ * Responses from today before the 4:30 AM UTC aggregation are counted by that
+ * run; everything else has to be added to daily_brand_stats here
+ */
+function shouldAggregate(createdAt: string, now: Date): boolean {
+  const cutoff = new Date(now);
+  cutoff.setUTCHours(4, 30, 0, 0);
+  const today = now.toISOString().split('T')[0];
+  return !(createdAt.startsWith(today) && now < cutoff);
+}
+
+export const backfillCompetitorMentions = inngest.createFunction(
+  {
+    id: 'backfill-competitor-mentions',
+    name: 'Backfill Competitor Mentions',
+    concurrency: { limit: 2 },
+    retries: 2,
+  },
+  { event: 'competitor/backfill-mentions' },
+  async ({ event, step }) => {
+    const { project_id, competitor_id } = event.data as { project_id: string; competitor_id: string };
+    const supabase = createSupabaseClient();
+
+    const competitor = await step.run('fetch-competitor', async () => {
+      const { data, error } = await supabase
+        .from('competitors')
+        .select('id, name, aliases')
+        .eq('id', competitor_id)
+        .eq('project_id', project_id)
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Competitor not found: ${error?.message || competitor_id}`);
+      }
+      return { id: data.id as string, name: data.name as string, aliases: (data.aliases || []) as string[] };
+    });
+
+    logInfo('backfill-competitor-mentions', `Starting backfill for ${competitor.name}`, {
+      projectId: project_id,
+      competitorId: competitor_id,
+    });
+
+    let page = 0;
+    let scanned = 0;
+    let mentionsSaved = 0;
+    let responsesMatched = 0;
+
+    while (true) {
+      const result = await step.run(`backfill-page-${page}`, async () => {
+        const { data, error } = await supabase
+          .from('ai_responses')
+          .select('id, response_text, created_at, platform, prompt_tracking(region_id, topic_id)')
+          .eq('project_id', project_id)
+          .eq('status', 'success')
+          .not('response_text', 'is', null)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Failed to fetch responses: ${error.message}`);
+        }
+
+        const responses = (data || []) as StoredResponse[];
+        if (responses.length === 0) {
+          return { scanned: 0, mentionsSaved: 0, responsesMatched: 0 };
+        }
+
+        // Skip responses that already have mentions of this competitor (re-runs)
+        const { data: existing } = await supabase
+          .from('brand_mentions')
+          .select('ai_response_id')
+          .eq('competitor_id', competitor.id)
+          .in('ai_response_id', responses.map((r) => r.id));
+        const alreadyDone = new Set((existing || []).map((m) => m.ai_response_id));
+
+        const now = new Date();
+        let pageMentions = 0;
+        let pageMatched = 0;
+
+        for (const response of responses) {
+          if (alreadyDone.has(response.id)) continue;
+
+          const located = locateMentions(response.response_text, [
+            {
+              brand_type: 'competitor',
+              entity_name: competitor.name,
+              competitor_id: competitor.id,
+              aliases: competitor.aliases,
+            },
+          ]);
+          if (located.length === 0) continue;
+
+          const { error: insertError } = await supabase.from('brand_mentions').insert(
+            located.map((mention, index) => ({
+              ai_response_id: response.id,
+              project_id,
+              brand_type: 'competitor',
+              competitor_id: competitor.id,
+              entity_name: competitor.name,
+              mentioned_text: mention.context,
+              start_index: mention.start_index,
+              end_index: mention.end_index,
+              confidence_score: 0.8, // Located without an LLM cross-check
+              is_first_occurrence: index === 0,
+              metadata: { source: 'backfill', matched_text: mention.matched_text, llm_agrees: false },
+            }))
+          );
+
+          if (insertError) {
+            logError('backfill-competitor-mentions', 'Failed to save mentions', {
+              aiResponseId: response.id,
+              error: insertError.message,
+            });
+            continue;
+          }
+
+          pageMentions += located.length;
+          pageMatched++;
+
+          if (!shouldAggregate(response.created_at, now)) continue;
+
+          const promptTracking = Array.isArray(response.prompt_tracking)
+            ? response.prompt_tracking[0]
+            : response.prompt_tracking;
+
+          const { error: aggError } = await supabase.rpc('aggregate_competitor_stats_incremental', {
+            p_project_id: project_id,
+            p_competitor_id: competitor.id,
+            p_ai_response_id: response.id,
+            p_stat_date: response.created_at.split('T')[0],
+            p_platform: response.platform,
+            p_region_id: promptTracking?.region_id || null,
+            p_topic_id: promptTracking?.topic_id || null,
+          });
+
+          if (aggError) {
+            logError('backfill-competitor-mentions', 'Failed to aggregate competitor stats', {
+              aiResponseId: response.id,
+              error: aggError.message,
+            });
+          }
+        }
+
+        return { scanned: responses.length, mentionsSaved: pageMentions, responsesMatched: pageMatched };
+      });
+
+      scanned += result.scanned;
+      mentionsSaved += result.mentionsSaved;
+      responsesMatched += result.responsesMatched;
+
+      if (result.scanned < PAGE_SIZE) break;
+      page++;
+    }
+
+    logInfo('backfill-competitor-mentions', `Backfill complete for ${competitor.name}`, {
+      scanned,
+      responsesMatched,
+      mentionsSaved,
+    });
+
+    return {
+      message: `Backfilled ${mentionsSaved} mentions of ${competitor.name}`,
+      competitor_id,
+      scanned,
+      responsesMatched,
+      mentionsSaved,
+    };
+  }
+);
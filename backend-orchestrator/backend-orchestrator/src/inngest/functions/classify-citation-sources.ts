@@ -0,0 +1,183 @@
+// =============================================
+// CLASSIFY CITATION SOURCES
+// =============================================
+// Fills in citations.source_category for citations saved before their domain was
+// known. Built-in rules and the domain_categories cache are applied first (free);
+// the remaining domains are classified by Gemini in batches, cached globally and
+// applied. Spend is recorded on the project whose citations needed the call.
+
+import { inngest } from '../client';
+import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
+import { getAPIKey } from '../../lib/ai-clients';
+import { recordSpend } from '../../lib/budgets';
+import {
+  classifyDomainByRules,
+  cacheDomainCategories,
+  classifyDomainsWithLLM,
+  type DomainToClassify,
+  type SourceCategory,
+} from '../../lib/source-classification';
+
+// Most cited unclassified domains handled per run
+const DOMAINS_PER_RUN = 300;
+// Domains per Gemini call
+const LLM_BATCH_SIZE = 40;
+
+interface UnclassifiedDomain {
+  project_id: string;
+  domain: string;
+  citations_count: number;
+  sample_url: string | null;
+  sample_text: string | null;
+}
+
+export const classifyCitationSources = inngest.createFunction(
+  {
+    id: 'classify-citation-sources',
+    name: 'Classify Citation Sources',
+    concurrency: { limit: 1 },
+    retries: 2,
+  },
+  { cron: '15 * * * *' }, // Hourly, after the scheduler tick
+  async ({ step, runId }) => {
+    const supabase = createSupabaseClient();
+
+    // 1. Domains that still have unclassified citations
+    const unclassified = await step.run('load-unclassified-domains', async () => {
+      const { data, error } = await supabase.rpc('get_unclassified_citation_domains', {
+        p_limit: DOMAINS_PER_RUN,
+      });
+
+      if (error) {
+        throw new Error(`Failed to load unclassified domains: ${error.message}`);
+      }
+      return (data || []) as UnclassifiedDomain[];
+    });
+
+    if (unclassified.length === 0) {
+      return { message: 'No unclassified citations', applied: 0, classifiedByLLM: 0 };
+    }
+
+    const domains = Array.from(new Set(unclassified.map((row) => row.domain)));
+
+    // 2. Apply overrides, brand/competitor sites, the cache and the built-in rules
+    const unknownDomains = await step.run('apply-known-categories', async () => {
+      const { data: cached, error } = await supabase
+        .from('domain_categories')
+        .select('domain')
+        .in('domain', domains);
+
+      if (error) {
+        throw new Error(`Failed to load domain categories: ${error.message}`);
+      }
+
+      const cachedDomains = new Set((cached || []).map((row) => row.domain));
+      const ruleCategories = new Map<string, SourceCategory>();
+      const unknown: string[] = [];
+
+      for (const domain of domains) {
+        if (cachedDomains.has(domain)) continue;
+        const category = classifyDomainByRules(domain);
+        if (category) {
+          ruleCategories.set(domain, category);
+        } else {
+          unknown.push(domain);
+        }
+      }
+
+      await cacheDomainCategories(supabase, ruleCategories, 'rule');
+
+      const { data: updated, error: applyError } = await supabase.rpc('apply_domain_categories', {
+        p_domains: domains,
+      });
+
+      if (applyError) {
+        throw new Error(`Failed to apply domain categories: ${applyError.message}`);
+      }
+
+      logInfo('classify-citation-sources', `Applied known categories to ${updated || 0} citations`, {
+        domains: domains.length,
+        ruleMatches: ruleCategories.size,
+        unknown: unknown.length,
+      });
+
+      return unknown;
+    });
+
+    const geminiApiKey = getAPIKey('gemini');
+    if (unknownDomains.length === 0 || !geminiApiKey) {
+      if (unknownDomains.length > 0) {
+        logError('classify-citation-sources', 'Missing GEMINI_API_KEY, leaving unknown domains unclassified', {
+          unknown: unknownDomains.length,
+        });
+      }
+      return { message: 'Applied known categories', domains: domains.length, classifiedByLLM: 0 };
+    }
+
+    // 3. Group unknown domains by the first (most cited) project that needs them
+    const unknownSet = new Set(unknownDomains);
+    const byProject = new Map<string, DomainToClassify[]>();
+    for (const row of unclassified) {
+      if (!unknownSet.has(row.domain)) continue;
+      unknownSet.delete(row.domain);
+      const list = byProject.get(row.project_id) || [];
+      list.push({ domain: row.domain, sampleUrl: row.sample_url, sampleText: row.sample_text });
+      byProject.set(row.project_id, list);
+    }
+
+    const batches: { projectId: string; domains: DomainToClassify[] }[] = [];
+    for (const [projectId, list] of byProject) {
+      for (let i = 0; i < list.length; i += LLM_BATCH_SIZE) {
+        batches.push({ projectId, domains: list.slice(i, i + LLM_BATCH_SIZE) });
+      }
+    }
+
+    // 4. Classify each batch with Gemini; each batch is one retryable step
+    let classifiedByLLM = 0;
+    let cost = 0;
+
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+      const result = await step.run(`classify-batch-${i}`, async () => {
+        const classification = await classifyDomainsWithLLM(batch.domains, geminiApiKey);
+
+        await recordSpend(supabase, {
+          projectId: batch.projectId,
+          platform: 'gemini',
+          source: 'other',
+          tokens: classification.tokens,
+          cost: classification.cost,
+          idempotencyKey: `${runId}:classify-batch-${i}`,
+        });
+
+        await cacheDomainCategories(supabase, classification.categories, 'llm', classification.model);
+
+        const batchDomains = Array.from(classification.categories.keys());
+        const { error } = await supabase.rpc('apply_domain_categories', {
+          p_domains: batchDomains,
+        });
+
+        if (error) {
+          throw new Error(`Failed to apply LLM categories: ${error.message}`);
+        }
+
+        return { classified: batchDomains.length, cost: classification.cost };
+      });
+
+      classifiedByLLM += result.classified;
+      cost += result.cost;
+    }
+
+    logInfo('classify-citation-sources', `Classified ${classifiedByLLM} domains with Gemini`, {
+      batches: batches.length,
+      cost,
+    });
+
+    return {
+      message: `Classified ${classifiedByLLM} domains`,
+      domains: domains.length,
+      classifiedByLLM,
+      cost,
+    };
+  }
+);
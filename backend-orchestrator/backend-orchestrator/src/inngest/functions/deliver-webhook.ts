@@ -0,0 +1,49 @@
+// =============================================
+// DELIVER WEBHOOK
+// =============================================
+// Sends one queued webhook delivery (webhook_deliveries) to its workspace
+// endpoint. Every attempt is recorded on the delivery; non-2xx answers and
+// network errors are retried with Inngest's backoff, and the delivery is marked
+// failed once retries are exhausted, or right away when the endpoint rejects it
+// with a 4xx, redirects, or isn't a public https URL.
+
+import { NonRetriableError } from 'inngest';
+import { inngest } from '../client';
+import { createSupabaseClient, logInfo } from '../../lib/utils';
+import { sendWebhookDelivery, markWebhookDeliveryFailed, PermanentWebhookError } from '../../lib/webhooks';
+
+export const deliverWebhook = inngest.createFunction(
+  {
+    id: 'deliver-webhook',
+    name: 'Deliver Webhook',
+    concurrency: { limit: 10 },
+    retries: 5,
+    onFailure: async ({ event, error }) => {
+      await markWebhookDeliveryFailed(
+        createSupabaseClient(),
+        event.data.event.data.delivery_id,
+        error.message
+      );
+    },
+  },
+  { event: 'webhooks/deliver' },
+  async ({ event, step }) => {
+    const { delivery_id } = event.data as { delivery_id: string };
+    const supabase = createSupabaseClient();
+
+    const status = await step.run('post-webhook', async () => {
+      try {
+        return await sendWebhookDelivery(supabase, delivery_id);
+      } catch (err) {
+        if (err instanceof PermanentWebhookError) {
+          throw new NonRetriableError(err.message);
+        }
+        throw err;
+      }
+    });
+
+    logInfo('deliver-webhook', `Webhook delivery ${delivery_id}: ${status}`);
+
+    return { delivery_id, status };
+  }
+);
@@ -4,8 +4,16 @@ import { callAI, getAPIKey } from "../../lib/ai-clients";
 // NOTE: citation-processing.ts removed - was inserting into legacy citations_detail table
 // import { triggerCitationProcessing } from "../../lib/citation-processing";
 import { saveCitations } from "../../lib/citation-storage";
-import { waitForRateLimit } from "../../lib/rate-limiter";
+import { withRateLimit, estimateTokens } from "../../lib/rate-limiter";
+import { getProvider, getProjectPlatforms } from "../../lib/provider-registry";
+import { recordSpend } from "../../lib/budgets";
+import { recordDeadLetter, resolveDeadLetters, getPromptDedupeKey, getPromptRunDedupeKey } from "../../lib/dead-letters";
+import { createAnalysisRuns, finishRunPrompt, getRunSummary } from "../../lib/analysis-runs";
+import { queueWebhookEvents, type WebhookEvent, type WebhookDeliverEvent } from "../../lib/webhooks";
 import type { AIProvider, AICompletionResult, AIClientConfig } from "../../lib/types";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const RETRIES = 3;
 
 /**
  * Call AI with automatic retry for rate limits
@@ -19,17 +27,10 @@ async function callAIWithRetry(
 ): Promise<AICompletionResult> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      // Wait for rate limit before calling AI
-      const waitTime = await waitForRateLimit(platform);
-      if (waitTime > 0 && attempt === 1) {
-        logInfo("process-prompt", `Waited ${Math.round(waitTime / 1000)}s for ${platform} rate limit`, {
-          platform,
-          attempt
-        });
-      }
-
-      // Call AI
-      return await callAI(platform, prompt, config);
+      // Call AI inside the shared RPM/TPM bucket for this platform and model
+      return await withRateLimit(platform, config.model, estimateTokens(prompt, config.maxTokens), () =>
+        callAI(platform, prompt, config)
+      );
     } catch (err: any) {
       const isRateLimit = err?.isRateLimit || err?.statusCode === 429;
       
@@ -46,7 +47,8 @@ async function callAIWithRetry(
         continue; // Retry
       }
       
-      // Re-throw if not rate limit or max retries reached
+      // Re-throw if not rate limit or max retries reached (attempts are kept for the dead letter)
+      if (err && typeof err === "object") err.attempts = attempt;
       throw err;
     }
   }
@@ -55,6 +57,17 @@ async function callAIWithRetry(
   throw new Error(`Failed to call ${platform} after ${maxRetries} attempts`);
 }
 
+/**
+ * analysis.batch_completed event for a run this prompt closed
+ */
+async function getBatchCompletedEvents(
+  supabase: SupabaseClient,
+  runId: string
+): Promise<WebhookEvent[]> {
+  const run = await getRunSummary(supabase, runId);
+  return run ? [{ type: "analysis.batch_completed", data: run }] : [];
+}
+
 export const processPrompt = inngest.createFunction(
   { 
     id: "process-single-prompt",
@@ -63,22 +76,55 @@ export const processPrompt = inngest.createFunction(
       limit: 5, // Restored to original for efficient parallel processing
     },
     // Automatic retries on failure
-    retries: 3
+    retries: RETRIES,
+    // Once every retry is exhausted, dead-letter the prompt and count it as failed in its run
+    // (ignored by the run when the prompt already finished, e.g. a later step failed)
+    onFailure: async ({ event, error, step }) => {
+      const supabase = createSupabaseClient();
+      const { run_id, project_id, prompt_tracking_id, platforms_to_process } = event.data.event.data;
+
+      await step.run("dead-letter", () =>
+        recordDeadLetter(supabase, {
+          projectId: project_id,
+          functionId: "process-single-prompt",
+          eventName: "analysis/process-prompt",
+          eventData: event.data.event.data,
+          stepName: "process-prompt",
+          error,
+          provider: platforms_to_process?.length === 1 ? platforms_to_process[0] : undefined,
+          attempts: RETRIES + 1,
+          dedupeKey: getPromptRunDedupeKey(prompt_tracking_id),
+          promptTrackingId: prompt_tracking_id,
+        })
+      );
+
+      const webhookEvents = await step.run("finish-run", async (): Promise<WebhookDeliverEvent[]> => {
+        const closed = await finishRunPrompt(supabase, run_id, prompt_tracking_id, true);
+        return closed ? queueWebhookEvents(supabase, project_id, await getBatchCompletedEvents(supabase, run_id)) : [];
+      });
+
+      if (webhookEvents.length > 0) {
+        await step.sendEvent("send-webhooks", webhookEvents);
+      }
+    },
   },
   { event: "analysis/process-prompt" },
-  async ({ event, step }) => {
+  async ({ event, step, runId: inngestRunId }) => {
     const { prompt_tracking_id, project_id } = event.data;
+    // Set by the scheduler when the project exceeded its AI budget with on_exceed = 'degrade'
+    const degraded = event.data.degraded === true;
     const supabase = createSupabaseClient();
 
     logInfo("process-prompt", `Processing prompt ${prompt_tracking_id} for project ${project_id}`);
 
     // 1. Fetch Prompt Data and Project Config
-    const { promptData, projectConfig } = await step.run("fetch-prompt-and-config", async () => {
+    const { promptData, projectConfig, projectPlatforms } = await step.run("fetch-prompt-and-config", async () => {
       // Fetch prompt data
       const { data: promptResult, error: promptError } = await supabase
         .from("prompt_tracking")
         .select(`
           prompt,
+          current_version_id,
           region_id,
           regions:region_id (
             code,
@@ -90,10 +136,10 @@ export const processPrompt = inngest.createFunction(
 
       if (promptError) throw new Error(`Prompt not found: ${promptError.message}`);
       
-      // Fetch project config (use_web_search flag)
+      // Fetch project config (use_web_search flag, samples per prompt)
       const { data: projectResult, error: projectError } = await supabase
         .from("projects")
-        .select("use_web_search")
+        .select("use_web_search, samples_per_prompt")
         .eq("id", project_id)
         .single();
 
@@ -101,15 +147,23 @@ export const processPrompt = inngest.createFunction(
         logInfo("process-prompt", `Could not fetch project config, using defaults: ${projectError.message}`);
       }
 
+      // Platforms enabled for this project (project_platforms, falling back to registry defaults)
+      const platformSettings = await getProjectPlatforms(supabase, project_id);
+
       return {
         promptData: promptResult,
+        // Degraded runs (budget exceeded) skip web search and take a single sample
         projectConfig: {
-          useWebSearch: projectResult?.use_web_search ?? true, // Default to true for backward compatibility
-        }
+          useWebSearch: degraded ? false : (projectResult?.use_web_search ?? true), // Default to true for backward compatibility
+          samplesPerPrompt: degraded ? 1 : (projectResult?.samples_per_prompt ?? 1),
+        },
+        projectPlatforms: platformSettings,
       };
     });
 
     const promptText = promptData.prompt;
+    // Version of the wording read above; responses keep it even if the prompt is edited mid-run
+    const promptVersionId: string | null = promptData.current_version_id ?? null;
     // Get region code from regions table, default to 'GLOBAL' if no region
     // Handle both array and object cases (Supabase may return array for joins)
     const regionsData = (promptData as any).regions;
@@ -118,15 +172,17 @@ export const processPrompt = inngest.createFunction(
       : (regionsData?.code || 'GLOBAL');
     
     // Log project config for debugging
-    logInfo("process-prompt", `Project config: useWebSearch=${projectConfig.useWebSearch}`, {
+    logInfo("process-prompt", `Project config: useWebSearch=${projectConfig.useWebSearch}, samplesPerPrompt=${projectConfig.samplesPerPrompt}, degraded=${degraded}`, {
       project_id,
-      useWebSearch: projectConfig.useWebSearch
+      useWebSearch: projectConfig.useWebSearch,
+      samplesPerPrompt: projectConfig.samplesPerPrompt,
+      degraded
     });
 
     // 2. Determine Platforms
-    // Use platforms_to_process from event if provided, otherwise use all available platforms
-    const platforms: AIProvider[] = ['openai', 'gemini' /*, 'claude' - disabled temporarily */, /* 'perplexity' - disabled temporarily */];
-    const allAvailablePlatforms = platforms.filter(p => getAPIKey(p) !== null);
+    // Use platforms_to_process from event if provided, otherwise use all platforms enabled for the project
+    const allAvailablePlatforms = projectPlatforms.map(p => p.platform);
+    const modelOverrides = new Map(projectPlatforms.map(p => [p.platform, p.model]));
     
     // If platforms_to_process is provided in event, use only those (filtered by availability)
     const requestedPlatforms = event.data.platforms_to_process as string[] | undefined;
@@ -143,6 +199,13 @@ export const processPrompt = inngest.createFunction(
     
     if (availablePlatforms.length === 0) {
       logInfo("process-prompt", "No platforms to process (all already completed or no API keys)");
+      const webhookEvents = await step.run("finish-run", async (): Promise<WebhookDeliverEvent[]> => {
+        const closed = await finishRunPrompt(supabase, event.data.run_id, prompt_tracking_id, false);
+        return closed ? queueWebhookEvents(supabase, project_id, await getBatchCompletedEvents(supabase, event.data.run_id)) : [];
+      });
+      if (webhookEvents.length > 0) {
+        await step.sendEvent("send-webhooks", webhookEvents);
+      }
       return { 
         message: "No platforms to process",
         results: []
@@ -150,12 +213,21 @@ export const processPrompt = inngest.createFunction(
     }
 
     // 3. Create Analysis Job Record
+    // Runs triggered directly (dashboard, /process-prompt) get their own manual run
+    const runId: string = event.data.run_id || await step.run("create-manual-run", async () => {
+      const runIds = await createAnalysisRuns(supabase, crypto.randomUUID(), "manual", [
+        { project_id, platforms_to_process: availablePlatforms },
+      ]);
+      return runIds[project_id];
+    });
+
     const job = await step.run("create-job-record", async () => {
       const { data, error } = await supabase
         .from("analysis_jobs")
         .insert({
           project_id,
           prompt_tracking_id,
+          run_id: runId,
           status: "running",
           total_platforms: availablePlatforms.length,
           completed_platforms: 0,
@@ -171,38 +243,14 @@ export const processPrompt = inngest.createFunction(
     });
 
     // 4. Run AI Analysis for Each Platform in PARALLEL
+    // Each platform answers the prompt samplesPerPrompt times a day; samples share a sample_group_id
     
     const results = await step.run("execute-ai-models", async () => {
-      // PARALLEL PROCESSING - All platforms processed simultaneously for efficiency
-      const platformPromises = availablePlatforms.map(async (platform) => {
+      const runSample = async (platform: AIProvider, sampleIndex: number, sampleGroupId: string) => {
+        let aiResponseId: string | null = null;
         try {
-          logInfo("process-prompt", `Starting ${platform}...`);
-          
-          // Double-check: Verify if already has successful response TODAY (race condition protection)
-          const startOfToday = new Date();
-          startOfToday.setHours(0, 0, 0, 0);
-          const endOfToday = new Date();
-          endOfToday.setHours(23, 59, 59, 999);
-          
-          const { data: existingResponse } = await supabase
-            .from("ai_responses")
-            .select("id")
-            .eq("prompt_tracking_id", prompt_tracking_id)
-            .eq("platform", platform)
-            .eq("status", "success")
-            .gte("created_at", startOfToday.toISOString())
-            .lte("created_at", endOfToday.toISOString())
-            .maybeSingle();
-
-          if (existingResponse) {
-            logInfo("process-prompt", `Skipping ${platform} - already has successful response today`, {
-              aiResponseId: existingResponse.id,
-              platform,
-              prompt_tracking_id
-            });
-            return { platform, status: "skipped", reason: "already_exists_today" };
-          }
-          
+          logInfo("process-prompt", `Starting ${platform} sample ${sampleIndex}/${projectConfig.samplesPerPrompt}...`);
+
           const { data: aiResponse, error: insertError } = await supabase
             .from("ai_responses")
             .insert({
@@ -211,35 +259,51 @@ export const processPrompt = inngest.createFunction(
               platform,
               model_version: "auto",
               prompt_text: promptText,
+              prompt_version_id: promptVersionId,
               status: "processing",
               brand_analysis_status: "pending",
+              sample_index: sampleIndex,
+              sample_group_id: sampleGroupId,
+              run_id: runId,
             })
             .select()
             .single();
 
           if (insertError) throw new Error(`Failed to create AI response: ${insertError.message}`);
+          aiResponseId = aiResponse.id;
 
           // Enrich prompt
           const enrichedPrompt = enrichPromptWithRegion(promptText, promptRegion);
           const apiKey = getAPIKey(platform);
           if (!apiKey) throw new Error(`Missing API key for ${platform}`);
+          const capabilities = getProvider(platform)?.capabilities;
 
           // Call AI with automatic retry for rate limits
-          // Pass useWebSearch flag only for OpenAI (Gemini always uses search)
           const result = await callAIWithRetry(
             platform,
             enrichedPrompt,
             {
               apiKey,
+              model: modelOverrides.get(platform) || undefined,
               temperature: 0.7,
               maxTokens: 2000,
-              region: promptRegion,
-              // Only pass useWebSearch for OpenAI - if project has use_web_search=false, OpenAI won't use web_search tool
-              useWebSearch: platform === 'openai' ? projectConfig.useWebSearch : undefined,
+              // Only providers that accept region hints natively receive the region
+              region: capabilities?.regionHints ? promptRegion : undefined,
+              // Only pass useWebSearch where it can be toggled - if project has use_web_search=false, the provider skips web search
+              useWebSearch: capabilities?.webSearchOptional ? projectConfig.useWebSearch : undefined,
             },
             3 // maxRetries
           );
 
+          await recordSpend(supabase, {
+            projectId: project_id,
+            platform,
+            source: "tracking",
+            tokens: result.tokens_used,
+            cost: result.cost,
+            idempotencyKey: `${inngestRunId}:execute-ai-models:${platform}:${sampleIndex}`,
+          });
+
           // Update Response
           const updateResult = await supabase
             .from("ai_responses")
@@ -264,8 +328,11 @@ export const processPrompt = inngest.createFunction(
             throw new Error(`Failed to update response: ${updateResult.error.message}`);
           }
           
-          logInfo("process-prompt", `${platform} saved successfully to ai_responses`, {
+          await resolveDeadLetters(supabase, getPromptDedupeKey(prompt_tracking_id, platform));
+
+          logInfo("process-prompt", `${platform} sample ${sampleIndex} saved successfully to ai_responses`, {
             aiResponseId: aiResponse.id,
+            sampleGroupId,
             model: result.model,
             tokensUsed: result.tokens_used
           });
@@ -326,7 +393,7 @@ export const processPrompt = inngest.createFunction(
           //   result.citations || []
           // );
 
-          return { platform, status: "success", aiResponseId: aiResponse.id };
+          return { platform, sampleIndex, status: "success", aiResponseId: aiResponse.id };
 
         } catch (err: any) {
           const errorMessage = err?.message || String(err);
@@ -350,34 +417,85 @@ export const processPrompt = inngest.createFunction(
             });
           }
           
-          try {
-          await supabase
-            .from("ai_responses")
-            .update({
-              status: "error",
-                brand_analysis_status: "error",
-                brand_analysis_error: errorMessage,
-                error_message: isRateLimit 
-                  ? `Rate limit exceeded. ${err?.quotaLimit || 'Quota exceeded'}. Will retry on next run.`
-                  : errorMessage,
-            })
-            .eq("prompt_tracking_id", prompt_tracking_id)
-            .eq("platform", platform)
-            .eq("status", "processing");
-          } catch (updateError: any) {
-            logError("process-prompt", `Failed to update error status for ${platform}`, updateError);
+          if (aiResponseId) {
+            try {
+              await supabase
+                .from("ai_responses")
+                .update({
+                  status: "error",
+                  brand_analysis_status: "error",
+                  brand_analysis_error: errorMessage,
+                  error_message: isRateLimit 
+                    ? `Rate limit exceeded. ${err?.quotaLimit || 'Quota exceeded'}. Will retry on next run.`
+                    : errorMessage,
+                })
+                .eq("id", aiResponseId);
+            } catch (updateError: any) {
+              logError("process-prompt", `Failed to update error status for ${platform}`, updateError);
+            }
           }
 
+          // Rate limits were retried above (up to 3 attempts), other errors fail on the first
+          // attempt: keep the event for this sample so it can be re-driven
+          await recordDeadLetter(supabase, {
+            projectId: project_id,
+            functionId: "process-single-prompt",
+            eventName: "analysis/process-prompt",
+            eventData: { prompt_tracking_id, project_id, platforms_to_process: [platform] },
+            stepName: "execute-ai-models",
+            error: err,
+            provider: platform,
+            attempts: err?.attempts || 1,
+            dedupeKey: getPromptDedupeKey(prompt_tracking_id, platform),
+            promptTrackingId: prompt_tracking_id,
+          });
+
           return { 
             platform, 
+            sampleIndex,
             status: "failed", 
             error: errorMessage,
             isRateLimit: isRateLimit || false
           };
         }
+      };
+
+      // PARALLEL PROCESSING - All platforms (and their samples) processed simultaneously for efficiency
+      const platformPromises = availablePlatforms.map(async (platform) => {
+        // Double-check: Count successful samples already stored in this run window (race condition protection)
+        // The scheduler passes window_start (start of the hour for hourly schedules); default is TODAY
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+        const windowStart = (event.data.window_start as string | undefined) || startOfToday.toISOString();
+
+        const { data: existingSamples } = await supabase
+          .from("ai_responses")
+          .select("id, sample_index, sample_group_id")
+          .eq("prompt_tracking_id", prompt_tracking_id)
+          .eq("platform", platform)
+          .eq("status", "success")
+          .gte("created_at", windowStart);
+
+        const completedSamples = existingSamples || [];
+        if (completedSamples.length >= projectConfig.samplesPerPrompt) {
+          logInfo("process-prompt", `Skipping ${platform} - already has ${completedSamples.length} successful samples in this run window`, {
+            aiResponseIds: completedSamples.map(s => s.id),
+            platform,
+            prompt_tracking_id
+          });
+          return [{ platform, status: "skipped", reason: "already_exists_today" }];
+        }
+
+        // Top up this window's group instead of starting a new one (e.g. after failed samples)
+        const sampleGroupId: string = completedSamples.find(s => s.sample_group_id)?.sample_group_id || crypto.randomUUID();
+        const completedIndexes = new Set(completedSamples.map(s => s.sample_index));
+        const pendingIndexes = Array.from({ length: projectConfig.samplesPerPrompt }, (_, i) => i + 1)
+          .filter(index => !completedIndexes.has(index));
+
+        return Promise.all(pendingIndexes.map(sampleIndex => runSample(platform, sampleIndex, sampleGroupId)));
       });
 
-      return await Promise.all(platformPromises);
+      return (await Promise.all(platformPromises)).flat();
     });
 
     // 4.5. Dispatch brand analysis events (outside of execute-ai-models step)
@@ -405,9 +523,14 @@ export const processPrompt = inngest.createFunction(
     }
 
     // 5. Update Job Status
-    await step.run("update-job-status", async () => {
-      const successCount = results.filter(r => r.status === "success").length;
-      const failureCount = results.filter(r => r.status === "failed").length;
+    const jobStatus = await step.run("update-job-status", async () => {
+      // A platform counts as completed when at least one of its samples succeeded
+      const succeededPlatforms = new Set(results.filter(r => r.status === "success").map(r => r.platform));
+      const failedPlatforms = new Set(
+        results.filter(r => r.status === "failed" && !succeededPlatforms.has(r.platform)).map(r => r.platform)
+      );
+      const successCount = succeededPlatforms.size;
+      const failureCount = failedPlatforms.size;
       const skippedCount = results.filter(r => r.status === "skipped").length;
       const jobStatus = failureCount === availablePlatforms.length ? "failed" : "completed";
 
@@ -420,10 +543,41 @@ export const processPrompt = inngest.createFunction(
           completed_at: new Date().toISOString(),
         })
         .eq("id", job.id);
+
+      const runClosed = await finishRunPrompt(supabase, runId, prompt_tracking_id, jobStatus === "failed");
+      await resolveDeadLetters(supabase, getPromptRunDedupeKey(prompt_tracking_id));
         
-      return { successCount, failureCount, skippedCount, jobStatus };
+      return { successCount, failureCount, skippedCount, jobStatus, runClosed };
+    });
+
+    // 6. Webhooks: every stored response, and the batch when this prompt closed its run
+    const webhookEvents = await step.run("queue-webhooks", async () => {
+      const events: WebhookEvent[] = results.flatMap((r) =>
+        r.status === "success" && "aiResponseId" in r && r.aiResponseId
+          ? [{
+              type: "response.stored" as const,
+              data: {
+                ai_response_id: r.aiResponseId,
+                prompt_tracking_id,
+                platform: r.platform,
+                sample_index: r.sampleIndex,
+                run_id: runId,
+              },
+            }]
+          : []
+      );
+
+      if (jobStatus.runClosed) {
+        events.push(...(await getBatchCompletedEvents(supabase, runId)));
+      }
+
+      return queueWebhookEvents(supabase, project_id, events);
     });
 
+    if (webhookEvents.length > 0) {
+      await step.sendEvent(`send-webhooks-${job.id}`, webhookEvents);
+    }
+
     return { 
       message: "Analysis completed", 
       results 
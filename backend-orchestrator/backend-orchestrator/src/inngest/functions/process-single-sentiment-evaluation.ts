@@ -14,6 +14,7 @@ import {
   buildSimplePrompt
 } from '../../lib/sentiment-evaluation-helpers';
 import { getThemesByProject, getOrCreateTheme } from '../../lib/theme-helpers';
+import { recordSpend } from '../../lib/budgets';
 
 export const processSingleSentimentEvaluation = inngest.createFunction(
   {
@@ -25,7 +26,7 @@ export const processSingleSentimentEvaluation = inngest.createFunction(
     retries: 2,
   },
   { event: 'sentiment/evaluate-single' },
-  async ({ event, step }) => {
+  async ({ event, step, runId }) => {
     const { project_id, topic, region_id, entity_type, entity_name, competitor_id } = event.data;
     const supabase = createSupabaseClient();
 
@@ -110,12 +111,24 @@ export const processSingleSentimentEvaluation = inngest.createFunction(
 
     // 6. Call Gemini to get evaluation
     const result = await step.run('call-gemini', async () => {
-      return await callGeminiWithRetry(prompt, {
+      const completion = await callGeminiWithRetry(prompt, {
         apiKey: geminiApiKey,
         model: 'gemini-2.5-flash-lite',
         temperature: 0.3,
         maxTokens: 2000,
+        fixture: 'sentiment-evaluation',
       });
+
+      await recordSpend(supabase, {
+        projectId: project_id,
+        platform: 'gemini',
+        source: 'sentiment',
+        tokens: completion.tokens_used,
+        cost: completion.cost,
+        idempotencyKey: `${runId}:call-gemini`,
+      });
+
+      return completion;
     });
 
     // 7. Parse evaluation response (now contains theme names)
@@ -0,0 +1,251 @@
+// =============================================
+// HISTORICAL RE-ANALYSIS
+// =============================================
+// Re-runs brand analysis over stored responses in a date range for the entities
+// of a reanalysis job (the brand and/or specific competitors). Their mentions and
+// sentiment rows are replaced, never duplicated, and daily_brand_stats for the
+// range is rebuilt through stats/backfill-project once every response is done.
+
+import { inngest } from '../client';
+import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
+import { analyzeBrandMentions, type EntityAliases } from '../../lib/brand-analysis';
+import { replaceBrandAnalysis, getActiveCompetitors, type EntitySelection } from '../../lib/brand-storage';
+import { getAPIKey } from '../../lib/ai-clients';
+import { recordSpend } from '../../lib/budgets';
+
+const PAGE_SIZE = 20;
+
+export const reanalyzeHistory = inngest.createFunction(
+  {
+    id: 'reanalyze-history',
+    name: 'Historical Re-analysis',
+    concurrency: { limit: 1 }, // One job at a time keeps Gemini calls within rate limits
+    retries: 2,
+    onFailure: async ({ event, error }) => {
+      await createSupabaseClient()
+        .from('reanalysis_jobs')
+        .update({
+          status: 'failed',
+          error_message: error.message?.slice(0, 500) || 'Re-analysis failed',
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', event.data.event.data.job_id);
+    },
+  },
+  { event: 'brand/reanalyze-history' },
+  async ({ event, step, runId }) => {
+    const { job_id } = event.data as { job_id: string };
+    const supabase = createSupabaseClient();
+
+    // 1. Load the job, the project's brand and its competitors
+    const setup = await step.run('load-job', async () => {
+      const { data: job, error: jobError } = await supabase
+        .from('reanalysis_jobs')
+        .select('id, project_id, start_date, end_date, include_brand, competitor_ids, status')
+        .eq('id', job_id)
+        .single();
+
+      if (jobError || !job) {
+        throw new Error(`Reanalysis job not found: ${jobError?.message || job_id}`);
+      }
+
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('brand_name, brand_aliases, name')
+        .eq('id', job.project_id)
+        .single();
+
+      if (projectError || !project) {
+        throw new Error(`Project not found: ${projectError?.message || job.project_id}`);
+      }
+
+      const competitors = await getActiveCompetitors(supabase, job.project_id);
+
+      // Count the responses up front so the dashboard can show progress
+      const { count, error: countError } = await supabase
+        .from('ai_responses')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', job.project_id)
+        .eq('status', 'success')
+        .not('response_text', 'is', null)
+        .gte('created_at', `${job.start_date}T00:00:00Z`)
+        .lte('created_at', `${job.end_date}T23:59:59.999Z`);
+
+      if (countError) {
+        throw new Error(`Failed to count responses: ${countError.message}`);
+      }
+
+      await supabase
+        .from('reanalysis_jobs')
+        .update({
+          status: 'running',
+          responses_total: count || 0,
+          responses_processed: 0,
+          responses_failed: 0,
+          cost: 0,
+          error_message: null,
+          started_at: new Date().toISOString(),
+        })
+        .eq('id', job_id);
+
+      return {
+        projectId: job.project_id as string,
+        startDate: job.start_date as string,
+        endDate: job.end_date as string,
+        selection: {
+          includeBrand: job.include_brand as boolean,
+          competitorIds: (job.competitor_ids || []) as string[],
+        } as EntitySelection,
+        brandName: (project.brand_name || project.name) as string,
+        brandAliases: (project.brand_aliases || []) as string[],
+        competitors,
+        total: count || 0,
+      };
+    });
+
+    const geminiApiKey = getAPIKey('gemini');
+    if (!geminiApiKey) {
+      throw new Error('Missing GEMINI_API_KEY, cannot re-analyze responses');
+    }
+
+    const { projectId, selection, brandName, brandAliases, competitors } = setup;
+    const aliases: EntityAliases = {
+      brand: brandAliases,
+      competitors: Object.fromEntries(competitors.map((c) => [c.name, c.aliases])),
+    };
+
+    logInfo('reanalyze-history', `Re-analyzing ${setup.total} responses`, {
+      jobId: job_id,
+      projectId,
+      startDate: setup.startDate,
+      endDate: setup.endDate,
+      includeBrand: selection.includeBrand,
+      competitorCount: selection.competitorIds.length,
+    });
+
+    // 2. Re-analyze page by page; each page is one retryable step
+    let page = 0;
+    let processed = 0;
+    let failed = 0;
+    let cost = 0;
+
+    while (true) {
+      const result = await step.run(`reanalyze-page-${page}`, async () => {
+        const { data: responses, error } = await supabase
+          .from('ai_responses')
+          .select('id, response_text')
+          .eq('project_id', projectId)
+          .eq('status', 'success')
+          .not('response_text', 'is', null)
+          .gte('created_at', `${setup.startDate}T00:00:00Z`)
+          .lte('created_at', `${setup.endDate}T23:59:59.999Z`)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Failed to fetch responses: ${error.message}`);
+        }
+
+        let pageFailed = 0;
+        let pageCost = 0;
+
+        for (const response of responses || []) {
+          try {
+            const analysis = await analyzeBrandMentions(
+              response.response_text,
+              brandName,
+              competitors.map((c) => c.name),
+              {
+                apiKey: geminiApiKey,
+                model: 'gemini-2.5-flash-lite',
+                temperature: 0.3,
+                maxTokens: 4000,
+                useWebSearch: false,
+              },
+              aliases
+            );
+
+            if (analysis.usage) {
+              pageCost += analysis.usage.cost || 0;
+              await recordSpend(supabase, {
+                projectId,
+                platform: 'gemini',
+                source: 'brand_analysis',
+                tokens: analysis.usage.tokens_used,
+                cost: analysis.usage.cost,
+                idempotencyKey: `${runId}:reanalyze-page-${page}:${response.id}`,
+              });
+            }
+
+            await replaceBrandAnalysis(
+              supabase,
+              response.id,
+              projectId,
+              brandName,
+              response.response_text,
+              analysis,
+              brandAliases,
+              competitors,
+              selection
+            );
+          } catch (error) {
+            // One bad response must not fail the whole job; it keeps its previous rows
+            pageFailed++;
+            logError('reanalyze-history', 'Failed to re-analyze response', {
+              jobId: job_id,
+              aiResponseId: response.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
+        const fetched = responses?.length || 0;
+        await supabase
+          .from('reanalysis_jobs')
+          .update({
+            responses_processed: processed + fetched - pageFailed,
+            responses_failed: failed + pageFailed,
+            cost: cost + pageCost,
+          })
+          .eq('id', job_id);
+
+        return { fetched, failed: pageFailed, cost: pageCost };
+      });
+
+      processed += result.fetched - result.failed;
+      failed += result.failed;
+      cost += result.cost;
+
+      if (result.fetched < PAGE_SIZE) break;
+      page++;
+    }
+
+    // 3. Rebuild daily_brand_stats for the range from the replaced mentions;
+    // backfill-project-stats marks the job completed when it is done
+    await step.run('mark-aggregating', async () => {
+      await supabase.from('reanalysis_jobs').update({ status: 'aggregating' }).eq('id', job_id);
+    });
+
+    await step.sendEvent('rebuild-daily-stats', {
+      name: 'stats/backfill-project',
+      data: {
+        project_id: projectId,
+        start_date: setup.startDate,
+        end_date: setup.endDate,
+        replace: true,
+        reanalysis_job_id: job_id,
+      },
+    });
+
+    logInfo('reanalyze-history', `Re-analysis complete for job ${job_id}`, { processed, failed, cost });
+
+    return {
+      message: `Re-analyzed ${processed} responses`,
+      job_id,
+      processed,
+      failed,
+      cost,
+    };
+  }
+);
@@ -0,0 +1,176 @@
+// =============================================
+// REPLAY DEAD LETTERS
+// =============================================
+// Re-drives dead letters queued from the Failed Runs page.
+// Units that already succeeded since they failed are resolved instead of
+// reprocessed; prompt failures are merged into one event per prompt.
+
+import { inngest } from '../client';
+import { createSupabaseClient, logInfo } from '../../lib/utils';
+import { createAnalysisRuns } from '../../lib/analysis-runs';
+
+interface QueuedDeadLetter {
+  id: string;
+  project_id: string;
+  event_name: string;
+  event_data: Record<string, unknown>;
+  provider: string | null;
+  prompt_tracking_id: string | null;
+  ai_response_id: string | null;
+  last_failed_at: string;
+  replay_count: number;
+}
+
+export const replayDeadLetters = inngest.createFunction(
+  {
+    id: 'replay-dead-letters',
+    name: 'Replay Dead Letters',
+  },
+  { event: 'dead-letters/replay' },
+  async ({ event, step }) => {
+    const { dead_letter_ids } = event.data as { dead_letter_ids: string[] };
+    const supabase = createSupabaseClient();
+
+    // 1. Load the rows an admin queued (status set by the dashboard)
+    const deadLetters = await step.run('fetch-queued-dead-letters', async () => {
+      const { data, error } = await supabase
+        .from('dead_letters')
+        .select('id, project_id, event_name, event_data, provider, prompt_tracking_id, ai_response_id, last_failed_at, replay_count')
+        .in('id', dead_letter_ids || [])
+        .eq('status', 'queued');
+
+      if (error) {
+        throw new Error(`Failed to fetch dead letters: ${error.message}`);
+      }
+      return (data || []) as QueuedDeadLetter[];
+    });
+
+    if (deadLetters.length === 0) {
+      return { message: 'No queued dead letters', replayed: 0, resolved: 0 };
+    }
+
+    // 2. Dedupe: skip units that are healthy again, merge prompt platforms per prompt
+    const plan = await step.run('dedupe-dead-letters', async () => {
+      const healthyIds: string[] = [];
+      const replayIds: string[] = [];
+      const promptEvents = new Map<string, { project_id: string; platforms: Set<string>; allPlatforms: boolean }>();
+      const brandEvents = new Map<string, string>(); // ai_response_id -> project_id
+
+      for (const letter of deadLetters) {
+        if (letter.event_name === 'brand/analyze-response' && letter.ai_response_id) {
+          const { data: response } = await supabase
+            .from('ai_responses')
+            .select('brand_analysis_status')
+            .eq('id', letter.ai_response_id)
+            .maybeSingle();
+
+          if (response?.brand_analysis_status === 'success') {
+            healthyIds.push(letter.id);
+          } else {
+            brandEvents.set(letter.ai_response_id, letter.project_id);
+            replayIds.push(letter.id);
+          }
+          continue;
+        }
+
+        if (letter.event_name === 'analysis/process-prompt' && letter.prompt_tracking_id) {
+          let successQuery = supabase
+            .from('ai_responses')
+            .select('id')
+            .eq('prompt_tracking_id', letter.prompt_tracking_id)
+            .eq('status', 'success')
+            .gte('created_at', letter.last_failed_at);
+          if (letter.provider) {
+            successQuery = successQuery.eq('platform', letter.provider);
+          }
+          const { data: successes } = await successQuery.limit(1);
+
+          if (successes && successes.length > 0) {
+            healthyIds.push(letter.id);
+          } else {
+            const entry = promptEvents.get(letter.prompt_tracking_id) || {
+              project_id: letter.project_id,
+              platforms: new Set<string>(),
+              allPlatforms: false,
+            };
+            if (letter.provider) entry.platforms.add(letter.provider);
+            else entry.allPlatforms = true;
+            promptEvents.set(letter.prompt_tracking_id, entry);
+            replayIds.push(letter.id);
+          }
+        }
+      }
+
+      const events = [
+        ...Array.from(promptEvents.entries()).map(([promptId, entry]) => ({
+          name: 'analysis/process-prompt',
+          data: {
+            prompt_tracking_id: promptId,
+            project_id: entry.project_id,
+            // No platform recorded = the whole prompt failed, let process-prompt pick the platforms
+            platforms_to_process: entry.allPlatforms ? undefined : Array.from(entry.platforms),
+          },
+        })),
+        ...Array.from(brandEvents.entries()).map(([aiResponseId, projectId]) => ({
+          name: 'brand/analyze-response',
+          data: { ai_response_id: aiResponseId, project_id: projectId },
+        })),
+      ];
+
+      return { healthyIds, replayIds, events };
+    });
+
+    // 3. Group re-driven prompts into one replay run per project
+    const promptEvents = plan.events.filter((e) => e.name === 'analysis/process-prompt');
+    const runIds = await step.run('create-replay-runs', async () => {
+      const batchId = crypto.randomUUID();
+      return createAnalysisRuns(
+        supabase,
+        batchId,
+        'replay',
+        promptEvents.map((e) => e.data as { project_id: string; platforms_to_process?: string[] })
+      );
+    });
+    const events = plan.events.map((e) =>
+      e.name === 'analysis/process-prompt'
+        ? { ...e, data: { ...e.data, run_id: runIds[e.data.project_id] } }
+        : e
+    );
+
+    // 4. Update statuses before re-sending, so a re-driven run that succeeds quickly
+    // resolves its dead letter instead of being overwritten as replayed
+    await step.run('mark-dead-letters', async () => {
+      const now = new Date().toISOString();
+
+      if (plan.healthyIds.length > 0) {
+        await supabase
+          .from('dead_letters')
+          .update({ status: 'resolved', resolved_at: now })
+          .in('id', plan.healthyIds)
+          .eq('status', 'queued');
+      }
+
+      for (const letter of deadLetters.filter((l) => plan.replayIds.includes(l.id))) {
+        await supabase
+          .from('dead_letters')
+          .update({ status: 'replayed', last_replayed_at: now, replay_count: letter.replay_count + 1 })
+          .eq('id', letter.id)
+          .eq('status', 'queued');
+      }
+    });
+
+    // 5. Re-send the events
+    if (events.length > 0) {
+      await step.sendEvent('redrive-dead-letters', events);
+    }
+
+    logInfo('replay-dead-letters', `Re-drove ${plan.replayIds.length} dead letters (${plan.events.length} events), resolved ${plan.healthyIds.length} already healthy`);
+
+    return {
+      message: 'Dead letters replayed',
+      replayed: plan.replayIds.length,
+      resolved: plan.healthyIds.length,
+      events_sent: plan.events.length,
+    };
+  }
+);
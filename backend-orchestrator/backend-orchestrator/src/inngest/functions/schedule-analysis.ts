@@ -1,18 +1,22 @@
 import { inngest } from "../client";
 import { createSupabaseClient, logInfo, logError } from "../../lib/utils";
-import { getAPIKey, getAvailableProviders } from "../../lib/ai-clients";
+import { getAvailableProviders } from "../../lib/ai-clients";
+import { getProjectPlatforms } from "../../lib/provider-registry";
+import { loadSchedules, resolveSchedule, isScheduleDue, getRunWindowStart } from "../../lib/schedules";
+import { getBudgetStatus, logBudgetStatus, getCheapestPlatform, type BudgetAction } from "../../lib/budgets";
+import { createAnalysisRuns } from "../../lib/analysis-runs";
 import type { AIProvider } from "../../lib/types";
 
 export const scheduleAnalysis = inngest.createFunction(
   { 
     id: "schedule-daily-analysis",
-    name: "Schedule Daily Analysis"
+    name: "Schedule Analysis"
   },
-  { cron: "0 1 * * *" }, // Runs at 1:00 AM daily
+  { cron: "0 * * * *" }, // Runs hourly; analysis_schedules decides which prompts are due
   async ({ step }) => {
     const supabase = createSupabaseClient();
     
-    logInfo("schedule-analysis", "Starting daily analysis trigger");
+    logInfo("schedule-analysis", "Starting scheduled analysis trigger");
 
     // 1. Fetch all active prompts
     // We use pagination to handle large numbers of prompts
@@ -49,14 +53,16 @@ export const scheduleAnalysis = inngest.createFunction(
       return { message: "No active prompts found" };
     }
 
-    // 2. Get available platforms
-    const availablePlatforms = getAvailableProviders();
-    logInfo("schedule-analysis", `Available platforms: ${availablePlatforms.join(', ')}`);
+    // 2. Get available platforms (each project narrows this down to its enabled platforms)
+    const availableProviders = getAvailableProviders();
+    logInfo("schedule-analysis", `Available platforms: ${availableProviders.join(', ')}`);
 
-    // 3. For each prompt, check which platforms already have successful responses TODAY
-    // Only send events for platforms that don't have successful responses today
-    const batchId = crypto.randomUUID();
-    const events = await step.run("check-existing-responses", async () => {
+    // 3. For each prompt that is due, check which platforms already have successful responses
+    // in the current run window (this hour for hourly schedules, today otherwise)
+    // Only send events for platforms that still need responses
+    // Generated inside a step so the id stays the same when Inngest replays the function
+    const batchId = await step.run("create-batch-id", async () => crypto.randomUUID());
+    const { events, scheduleIds } = await step.run("check-existing-responses", async () => {
       const eventsToSend: Array<{
         name: string;
         data: {
@@ -64,30 +70,77 @@ export const scheduleAnalysis = inngest.createFunction(
           project_id: string;
           platforms_to_process: string[];
           batch_id: string;
+          window_start: string;
+          degraded: boolean;
         };
       }> = [];
+      // analysis_schedules rows behind the events, marked once they are sent
+      const fannedOutSchedules = new Set<string>();
 
-      // Calculate start and end of today
-      const startOfToday = new Date();
-      startOfToday.setHours(0, 0, 0, 0);
-      const endOfToday = new Date();
-      endOfToday.setHours(23, 59, 59, 999);
+      const now = new Date();
+      const schedules = await loadSchedules(supabase);
+
+      // Enabled platforms per project (project_platforms or registry defaults)
+      const platformsByProject = new Map<string, AIProvider[]>();
+      // Samples each platform must answer per prompt and run window
+      const samplesByProject = new Map<string, number>();
+      // Budget action per project (skip or degrade once the monthly AI budget is exceeded)
+      const budgetByProject = new Map<string, BudgetAction>();
 
       for (const prompt of prompts) {
-        // Check which platforms already have successful responses today
+        // Skip prompts whose schedule is paused or not due at this tick
+        const schedule = resolveSchedule(schedules, prompt.project_id, prompt.id);
+        if (!isScheduleDue(schedule, now)) {
+          continue;
+        }
+        const windowStart = getRunWindowStart(schedule, now).toISOString();
+
+        if (!platformsByProject.has(prompt.project_id)) {
+          const settings = await getProjectPlatforms(supabase, prompt.project_id);
+          platformsByProject.set(prompt.project_id, settings.map((s) => s.platform));
+
+          const { data: project } = await supabase
+            .from("projects")
+            .select("samples_per_prompt")
+            .eq("id", prompt.project_id)
+            .single();
+          samplesByProject.set(prompt.project_id, project?.samples_per_prompt ?? 1);
+
+          const budget = await getBudgetStatus(supabase, prompt.project_id, now);
+          logBudgetStatus("schedule-analysis", prompt.project_id, budget);
+          budgetByProject.set(prompt.project_id, budget.action);
+        }
+
+        const budgetAction = budgetByProject.get(prompt.project_id)!;
+        if (budgetAction === "skip") {
+          continue;
+        }
+        const degraded = budgetAction === "degrade";
+        // Degraded runs answer each prompt once
+        const samplesPerPrompt = degraded ? 1 : samplesByProject.get(prompt.project_id)!;
+
+        // Schedules can narrow the project's enabled platforms
+        const scheduledPlatforms = schedule.platforms
+          ? platformsByProject.get(prompt.project_id)!.filter((p) => schedule.platforms!.includes(p))
+          : platformsByProject.get(prompt.project_id)!;
+        // Degraded runs only use the cheapest platform
+        const cheapestPlatform = degraded ? getCheapestPlatform(scheduledPlatforms) : null;
+        const availablePlatforms = cheapestPlatform ? [cheapestPlatform] : scheduledPlatforms;
+
+        // Check which platforms already have successful responses in this run window
         const { data: todayResponses, error: responseError } = await supabase
           .from("ai_responses")
           .select("platform")
           .eq("prompt_tracking_id", prompt.id)
           .eq("status", "success")
-          .gte("created_at", startOfToday.toISOString())
-          .lte("created_at", endOfToday.toISOString());
+          .gte("created_at", windowStart);
 
         if (responseError) {
           logError("schedule-analysis", `Failed to check existing responses for prompt ${prompt.id}`, responseError);
           // Continue processing - better to process than skip
           const platformsToProcess = availablePlatforms;
           if (platformsToProcess.length > 0) {
+            if (schedule.id) fannedOutSchedules.add(schedule.id);
             eventsToSend.push({
               name: "analysis/process-prompt",
               data: {
@@ -95,14 +148,21 @@ export const scheduleAnalysis = inngest.createFunction(
                 project_id: prompt.project_id,
                 platforms_to_process: platformsToProcess,
                 batch_id: batchId,
+                window_start: windowStart,
+                degraded,
               },
             });
           }
           continue;
         }
 
+        // A platform is done once it has all of its samples for this run window
+        const successCounts = new Map<string, number>();
+        (todayResponses || []).forEach((r) => {
+          successCounts.set(r.platform, (successCounts.get(r.platform) || 0) + 1);
+        });
         const successfulPlatforms = new Set(
-          (todayResponses || []).map((r) => r.platform)
+          availablePlatforms.filter((p) => (successCounts.get(p) || 0) >= samplesPerPrompt)
         );
         const platformsToProcess = availablePlatforms.filter(
           (p) => !successfulPlatforms.has(p)
@@ -110,6 +170,7 @@ export const scheduleAnalysis = inngest.createFunction(
 
         // Only send event if there are platforms to process
         if (platformsToProcess.length > 0) {
+          if (schedule.id) fannedOutSchedules.add(schedule.id);
           eventsToSend.push({
       name: "analysis/process-prompt",
       data: {
@@ -117,37 +178,61 @@ export const scheduleAnalysis = inngest.createFunction(
               project_id: prompt.project_id,
               platforms_to_process: platformsToProcess,
         batch_id: batchId,
+              window_start: windowStart,
+              degraded,
       },
           });
 
-          logInfo("schedule-analysis", `Prompt ${prompt.id}: processing ${platformsToProcess.join(', ')}, skipping ${Array.from(successfulPlatforms).join(', ')} (already successful today)`);
+          logInfo("schedule-analysis", `Prompt ${prompt.id}: processing ${platformsToProcess.join(', ')}, skipping ${Array.from(successfulPlatforms).join(', ')} (already successful in ${schedule.frequency} window)`);
         } else {
-          logInfo("schedule-analysis", `Prompt ${prompt.id}: all platforms already have successful responses today, skipping`);
+          logInfo("schedule-analysis", `Prompt ${prompt.id}: all platforms already have successful responses in ${schedule.frequency} window, skipping`);
         }
       }
 
-      return eventsToSend;
+      return { events: eventsToSend, scheduleIds: Array.from(fannedOutSchedules) };
     });
 
     if (events.length === 0) {
       return { 
-        message: "All prompts already have successful responses for all platforms today",
+        message: "No prompts due, or all due prompts already have successful responses",
         batch_id: batchId 
       };
     }
 
-    // 4. Send events in batches
+    // 4. Create one run per project so the Runs page can follow the batch
+    const runIds = await step.run("create-analysis-runs", async () => {
+      return createAnalysisRuns(supabase, batchId, "scheduled", events.map((e) => e.data));
+    });
+    const eventsWithRuns = events.map((e) => ({
+      ...e,
+      data: { ...e.data, run_id: runIds[e.data.project_id] },
+    }));
+
+    // 5. Send events in batches
     const BATCH_SIZE = 1000;
     let eventsSent = 0;
 
-    for (let i = 0; i < events.length; i += BATCH_SIZE) {
-      const chunk = events.slice(i, i + BATCH_SIZE);
+    for (let i = 0; i < eventsWithRuns.length; i += BATCH_SIZE) {
+      const chunk = eventsWithRuns.slice(i, i + BATCH_SIZE);
       await step.sendEvent("trigger-prompt-processing", chunk);
       eventsSent += chunk.length;
     }
 
     logInfo("schedule-analysis", `Scheduled ${eventsSent} events for analysis`);
 
+    // 6. Record when each schedule was last fanned out (projects on DEFAULT_SCHEDULE have no row)
+    await step.run("mark-schedules", async () => {
+      if (scheduleIds.length === 0) return;
+      const { error } = await supabase
+        .from("analysis_schedules")
+        .update({ last_scheduled_at: new Date().toISOString() })
+        .in("id", scheduleIds);
+
+      if (error) {
+        logError("schedule-analysis", "Failed to update last_scheduled_at", error);
+      }
+    });
+
     return { 
       message: `Scheduled ${eventsSent} prompts for analysis`,
       batch_id: batchId,
@@ -6,6 +6,7 @@
 
 import { inngest } from '../client';
 import { createSupabaseClient, logInfo, logError } from '../../lib/utils';
+import { getBudgetStatus, logBudgetStatus } from '../../lib/budgets';
 
 export const scheduleSentimentEvaluation = inngest.createFunction(
   {
@@ -68,6 +69,13 @@ export const scheduleSentimentEvaluation = inngest.createFunction(
           continue;
         }
 
+        // Monthly AI budget: skip the project, or evaluate the brand only when degraded
+        const budget = await getBudgetStatus(supabase, project.id);
+        logBudgetStatus('schedule-sentiment-evaluation', project.id, budget);
+        if (budget.action === 'skip') {
+          continue;
+        }
+
         // Get active competitors for this project
         const { data: competitors, error: competitorsError } = await supabase
           .from('competitors')
@@ -79,7 +87,7 @@ export const scheduleSentimentEvaluation = inngest.createFunction(
           logError('schedule-sentiment-evaluation', `Failed to fetch competitors for project ${project.id}`, competitorsError);
         }
 
-        const activeCompetitors = competitors || [];
+        const activeCompetitors = budget.action === 'degrade' ? [] : competitors || [];
 
         // Get distinct region_ids from prompt_tracking for this project
         const { data: regionsData, error: regionsError } = await supabase
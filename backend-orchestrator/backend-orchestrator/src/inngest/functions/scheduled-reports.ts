@@ -0,0 +1,97 @@
+// =============================================
+// SCHEDULED REPORTS
+// =============================================
+// schedule-reports ticks hourly and sends reports/generate for every due
+// report_schedules row. generate-scheduled-report builds the detailed report
+// server-side, saves it in reports, emails the rendered PDF to the schedule's
+// recipients and emits report.generated to workspace webhooks.
+
+import { inngest } from '../client';
+import { createSupabaseClient, logInfo } from '../../lib/utils';
+import { queueWebhookEvents } from '../../lib/webhooks';
+import {
+  claimDueReportSchedules,
+  buildScheduledReport,
+  emailScheduledReport,
+  recordReportScheduleRun,
+} from '../../lib/report-schedules';
+
+export const scheduleReports = inngest.createFunction(
+  {
+    id: 'schedule-reports',
+    name: 'Schedule Reports',
+  },
+  { cron: '0 * * * *' }, // Runs hourly; report_schedules decides which reports are due
+  async ({ step }) => {
+    const scheduleIds = await step.run('claim-due-schedules', async () =>
+      claimDueReportSchedules(createSupabaseClient(), new Date())
+    );
+
+    if (scheduleIds.length === 0) {
+      return { message: 'No report schedules due' };
+    }
+
+    await step.sendEvent(
+      'trigger-report-generation',
+      scheduleIds.map((schedule_id) => ({ name: 'reports/generate', data: { schedule_id } }))
+    );
+
+    logInfo('schedule-reports', `Queued ${scheduleIds.length} scheduled reports`);
+    return { scheduled: scheduleIds.length };
+  }
+);
+
+export const generateScheduledReport = inngest.createFunction(
+  {
+    id: 'generate-scheduled-report',
+    name: 'Generate Scheduled Report',
+    concurrency: { limit: 2 },
+    retries: 2,
+    onFailure: async ({ event, error }) => {
+      await recordReportScheduleRun(createSupabaseClient(), event.data.event.data.schedule_id, {
+        status: 'failed',
+        error: error.message,
+      });
+    },
+  },
+  { event: 'reports/generate' },
+  async ({ event, step, runId }) => {
+    const { schedule_id } = event.data as { schedule_id: string };
+    const supabase = createSupabaseClient();
+
+    const report = await step.run('build-report', async () =>
+      buildScheduledReport(supabase, schedule_id, `${runId}:build-report`)
+    );
+
+    if (!report) {
+      return { schedule_id, message: 'Schedule no longer exists' };
+    }
+
+    // Retried on its own, so a failed send doesn't rebuild the report
+    const emailResult = await step.run('email-report', async () => emailScheduledReport(supabase, report));
+
+    await step.run('record-run', async () =>
+      recordReportScheduleRun(supabase, schedule_id, { status: emailResult, reportId: report.report_id })
+    );
+
+    const webhookEvents = await step.run('queue-webhooks', async () => {
+      const { data } = await supabase
+        .from('reports')
+        .select('period, topic_id, topic_name, created_by, created_at')
+        .eq('id', report.report_id)
+        .single();
+
+      return queueWebhookEvents(supabase, report.project_id, [
+        { type: 'report.generated', data: { report_id: report.report_id, schedule_id, ...data } },
+      ]);
+    });
+
+    if (webhookEvents.length > 0) {
+      await step.sendEvent('send-webhooks', webhookEvents);
+    }
+
+    logInfo('generate-scheduled-report', `Report ${report.report_id} for schedule ${schedule_id}: ${emailResult}`);
+
+    return { schedule_id, report_id: report.report_id, email: emailResult };
+  }
+);
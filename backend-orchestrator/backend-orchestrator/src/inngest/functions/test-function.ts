@@ -1,5 +1,6 @@
 import { inngest } from "../client";
 import { createSupabaseClient, logInfo, logError } from "../../lib/utils";
+import { createAnalysisRuns } from "../../lib/analysis-runs";
 
 // Test function that can be manually invoked
 export const testFunction = inngest.createFunction(
@@ -84,8 +85,11 @@ export const manualScheduleAnalysis = inngest.createFunction(
       return { message: "No active prompts found" };
     }
 
-    // 2. Send events to Inngest to process each prompt
-    const batchId = crypto.randomUUID();
+    // 2. Send events to Inngest to process each prompt, one manual run per project
+    const batchId = await step.run("create-batch-id", async () => crypto.randomUUID());
+    const runIds = await step.run("create-analysis-runs", async () => {
+      return createAnalysisRuns(supabase, batchId, "manual", prompts);
+    });
     
     const events = prompts.map((p) => ({
       name: "analysis/process-prompt",
@@ -93,6 +97,7 @@ export const manualScheduleAnalysis = inngest.createFunction(
         prompt_tracking_id: p.id,
         project_id: p.project_id,
         batch_id: batchId,
+        run_id: runIds[p.project_id],
       },
     }));
 
@@ -2,9 +2,40 @@
 // AI CLIENTS FOR MULTIPLE PROVIDERS
 // =============================================
 
-import type { AIProvider, AICompletionResult, AIClientConfig } from './types';
+import type { AIProvider, AICompletionResult, AIClientConfig, CitationData } from './types';
 import { calculateCost, logError, logInfo } from './utils';
-import { extractGeminiCitations, extractOpenAICitations, transformGeminiUriToUrl } from './citation-extraction';
+import {
+  extractClaudeCitations,
+  extractGeminiCitations,
+  extractOpenAICitations,
+  extractPerplexityCitations,
+  getClaudeResponseText,
+  transformGeminiUriToUrl,
+} from './citation-extraction';
+import { callGroq } from './groq-client';
+import { withFixture } from './ai-fixtures';
+import { registerProvider, getProvider, getProviderAPIKey, listProviders } from './provider-registry';
+
+// =============================================
+// PROVIDER ERRORS
+// =============================================
+
+type ProviderError = Error & { statusCode: number; isRateLimit?: boolean; retryAfter?: number };
+
+/**
+ * Error for a failed provider response carrying its HTTP status, so 429s are
+ * flagged as rate limits and retried by process-prompt (Retry-After when sent)
+ */
+function createProviderError(provider: string, status: number, headers: Headers, body: string): ProviderError {
+  const error = new Error(`${provider} API error: ${body}`) as ProviderError;
+  error.statusCode = status;
+  if (status === 429) {
+    const retryAfterSeconds = parseInt(headers.get('retry-after') || '', 10);
+    error.isRateLimit = true;
+    error.retryAfter = Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : 60000;
+  }
+  return error;
+}
 
 // =============================================
 // OPENAI CLIENT
@@ -39,25 +70,32 @@ export async function callOpenAI(
     
     // Only add web_search tool if enabled
     if (useWebSearch) {
-      responseBody.tools = [{ type: 'web_search' }];
+      // Region hint: bias web search results towards the prompt's country
+      const webSearchTool: Record<string, unknown> = { type: 'web_search' };
+      if (config.region && config.region !== 'GLOBAL') {
+        webSearchTool.user_location = { type: 'approximate', country: config.region };
+      }
+      responseBody.tools = [webSearchTool];
       responseBody.tool_choice = 'required';
     }
 
-    const response = await fetch('https://api.openai.com/v1/responses', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify(responseBody),
-    });
+    const data = await withFixture('openai', model, cappedPrompt, async () => {
+      const response = await fetch('https://api.openai.com/v1/responses', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify(responseBody),
+      });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${error}`);
-    }
+      if (!response.ok) {
+        const error = await response.text();
+        throw createProviderError('OpenAI', response.status, response.headers, error);
+      }
 
-    const data = await response.json();
+      return response.json();
+    }, config.fixture);
     const executionTime = Date.now() - startTime;
 
     // Log raw JSON response for debugging (visible in Railway logs)
@@ -154,56 +192,58 @@ export async function callGemini(
       requestBody.tools = [{ google_search: {} }];
     }
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${config.apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorData;
-      try {
-        errorData = JSON.parse(errorText);
-      } catch {
-        errorData = { error: { message: errorText } };
-      }
+    const data = await withFixture('gemini', model, prompt, async () => {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${config.apiKey}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorData;
+        try {
+          errorData = JSON.parse(errorText);
+        } catch {
+          errorData = { error: { message: errorText } };
+        }
 
-      // Handle rate limiting (429)
-      if (response.status === 429) {
-        const errorDetails = errorData.error?.details || [];
-        // Find RetryInfo in the details array
-        const retryInfo = errorDetails.find((d: any) => d['@type']?.includes('RetryInfo'));
-        const quotaInfo = errorDetails.find((d: any) => d['@type']?.includes('QuotaFailure'));
+        // Handle rate limiting (429)
+        if (response.status === 429) {
+          const errorDetails = errorData.error?.details || [];
+          // Find RetryInfo in the details array
+          const retryInfo = errorDetails.find((d: any) => d['@type']?.includes('RetryInfo'));
+          const quotaInfo = errorDetails.find((d: any) => d['@type']?.includes('QuotaFailure'));
         
-        const retryDelaySeconds = retryInfo?.retryDelay 
-          ? parseInt(retryInfo.retryDelay.replace('s', ''))
-          : 60; // Default 60 seconds if not specified
-
-        logError('Gemini', `Rate limit exceeded (429). Retry after ${retryDelaySeconds}s`, {
-          quotaInfo: quotaInfo?.violations || [],
-          retryDelaySeconds,
-          quotaLimit: '10 requests per minute per model'
-        });
+          const retryDelaySeconds = retryInfo?.retryDelay 
+            ? parseInt(retryInfo.retryDelay.replace('s', ''))
+            : 60; // Default 60 seconds if not specified
+
+          logError('Gemini', `Rate limit exceeded (429). Retry after ${retryDelaySeconds}s`, {
+            quotaInfo: quotaInfo?.violations || [],
+            retryDelaySeconds,
+            quotaLimit: '10 requests per minute per model'
+          });
         
-        // Throw a special error that can be caught and handled gracefully
-        const rateLimitError: any = new Error(`Gemini rate limit exceeded. Quota: 10 req/min. Retry after ${retryDelaySeconds}s`);
-        rateLimitError.statusCode = 429;
-        rateLimitError.retryAfter = retryDelaySeconds * 1000;
-        rateLimitError.isRateLimit = true;
-        rateLimitError.quotaLimit = '10 requests per minute per model';
-        throw rateLimitError;
-      }
+          // Throw a special error that can be caught and handled gracefully
+          const rateLimitError: any = new Error(`Gemini rate limit exceeded. Quota: 10 req/min. Retry after ${retryDelaySeconds}s`);
+          rateLimitError.statusCode = 429;
+          rateLimitError.retryAfter = retryDelaySeconds * 1000;
+          rateLimitError.isRateLimit = true;
+          rateLimitError.quotaLimit = '10 requests per minute per model';
+          throw rateLimitError;
+        }
 
-      throw new Error(`Gemini API error: ${errorText}`);
-    }
+        throw new Error(`Gemini API error: ${errorText}`);
+      }
 
-    const data = await response.json();
+      return response.json();
+    }, config.fixture);
     const executionTime = Date.now() - startTime;
 
     // Log raw JSON response for debugging (visible in Railway logs)
@@ -358,44 +398,79 @@ export async function callClaude(
   const startTime = Date.now();
   const model = config.model || 'claude-haiku-4-5-20251001'; // Updated model name based on provided code, verify if correct for actual usage
 
+  // Determine if web_search should be used (default: true, same as OpenAI)
+  const useWebSearch = config.useWebSearch !== false;
+
   try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: config.maxTokens || 2000,
-        temperature: config.temperature || 0.7,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
-    });
+    const requestBody: Record<string, unknown> = {
+      model,
+      max_tokens: config.maxTokens || 2000,
+      temperature: config.temperature || 0.7,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+    };
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Claude API error: ${error}`);
+    // Server-side web search tool (results come back as web_search_tool_result blocks)
+    if (useWebSearch) {
+      const webSearchTool: Record<string, unknown> = {
+        type: 'web_search_20250305',
+        name: 'web_search',
+        max_uses: 5,
+      };
+      if (config.region && config.region !== 'GLOBAL') {
+        webSearchTool.user_location = { type: 'approximate', country: config.region };
+      }
+      requestBody.tools = [webSearchTool];
     }
 
-    const data = await response.json();
+    const data = await withFixture('claude', model, prompt, async () => {
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': config.apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw createProviderError('Claude', response.status, response.headers, error);
+      }
+
+      return response.json();
+    }, config.fixture);
     const executionTime = Date.now() - startTime;
     const tokensUsed = (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0);
 
-    logInfo('Claude', `Completion successful. Tokens: ${tokensUsed}, Time: ${executionTime}ms`);
+    // With web search the answer is split across several text blocks
+    const responseText = getClaudeResponseText(data);
+
+    // Extract structured citations
+    let citationsData: CitationData[] | undefined;
+    try {
+      citationsData = extractClaudeCitations(data);
+    } catch (error) {
+      logError('Claude', 'Failed to extract citations', error);
+      citationsData = undefined;
+    }
+
+    logInfo('Claude', `Completion successful. Tokens: ${tokensUsed}, Structured Citations: ${citationsData?.length || 0}, WebSearch: ${useWebSearch}, Time: ${executionTime}ms`);
 
     return {
-      text: data.content?.[0]?.text || '',
+      text: responseText,
       tokens_used: tokensUsed,
       model,
       cost: calculateCost('claude', tokensUsed),
       execution_time_ms: executionTime,
+      citations: citationsData?.map(c => c.url).filter((url): url is string => !!url),
+      citationsData: citationsData && citationsData.length > 0 ? citationsData : undefined,
+      has_web_search: useWebSearch && !!citationsData && citationsData.length > 0,
     };
   } catch (error) {
     logError('Claude', 'API call failed', error);
@@ -415,46 +490,59 @@ export async function callPerplexity(
   const model = config.model || 'sonar-pro';
 
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: config.temperature || 0.7,
-        max_tokens: config.maxTokens || 2000,
-        return_citations: true,
-        search_domain_filter: [],
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Perplexity API error: ${error}`);
-    }
+    const data = await withFixture('perplexity', model, prompt, async () => {
+      const response = await fetch('https://api.perplexity.ai/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          temperature: config.temperature || 0.7,
+          max_tokens: config.maxTokens || 2000,
+          return_citations: true,
+          search_domain_filter: [],
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw createProviderError('Perplexity', response.status, response.headers, error);
+      }
 
-    const data = await response.json();
+      return response.json();
+    }, config.fixture);
     const executionTime = Date.now() - startTime;
     const tokensUsed = data.usage?.total_tokens || 0;
     const citations = data.citations || [];
+    const responseText = data.choices[0]?.message?.content || '';
+
+    // Extract structured citations ([n] markers -> citations/search_results)
+    let citationsData: CitationData[] | undefined;
+    try {
+      citationsData = extractPerplexityCitations(data, responseText);
+    } catch (error) {
+      logError('Perplexity', 'Failed to extract citations', error);
+      citationsData = undefined;
+    }
     
-    logInfo('Perplexity', `Completion successful. Tokens: ${tokensUsed}, Citations: ${citations.length}, Time: ${executionTime}ms`);
+    logInfo('Perplexity', `Completion successful. Tokens: ${tokensUsed}, Citations: ${citations.length}, Structured Citations: ${citationsData?.length || 0}, Time: ${executionTime}ms`);
 
     return {
-      text: data.choices[0]?.message?.content || '',
+      text: responseText,
       tokens_used: tokensUsed,
       model,
       cost: calculateCost('perplexity', tokensUsed),
       execution_time_ms: executionTime,
       citations,
+      citationsData: citationsData && citationsData.length > 0 ? citationsData : undefined,
       has_web_search: true,
     };
   } catch (error) {
@@ -463,6 +551,81 @@ export async function callPerplexity(
   }
 }
 
+// =============================================
+// PROVIDER REGISTRATION
+// =============================================
+
+registerProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  defaultModel: 'gpt-4.1-mini',
+  envKey: 'OPENAI_API_KEY',
+  costPer1K: 0.002,
+  rateLimit: { rpm: 5000, tpm: 450000 },
+  capabilities: { webSearch: true, webSearchOptional: true, grounding: true, regionHints: true },
+  tracking: true,
+  enabledByDefault: true,
+  display: { color: '#10b981', rgb: '16, 185, 129', bgColor: 'bg-emerald-500', textColor: 'text-emerald-600' },
+  call: callOpenAI,
+});
+
+registerProvider({
+  id: 'gemini',
+  name: 'Gemini',
+  defaultModel: 'gemini-2.5-flash-lite',
+  envKey: 'GEMINI_API_KEY',
+  costPer1K: 0.001,
+  // Gemini 2.5 Flash-Lite: 4,000 RPM / 4M TPM (kept below for safety margin)
+  rateLimit: { rpm: 3800, tpm: 3500000 },
+  capabilities: { webSearch: true, webSearchOptional: false, grounding: true, regionHints: false },
+  tracking: true,
+  enabledByDefault: true,
+  display: { color: '#3b82f6', rgb: '59, 130, 246', bgColor: 'bg-blue-500', textColor: 'text-blue-600' },
+  call: callGemini,
+});
+
+registerProvider({
+  id: 'claude',
+  name: 'Claude',
+  defaultModel: 'claude-haiku-4-5-20251001',
+  envKey: 'CLAUDE_API_KEY',
+  costPer1K: 0.003,
+  rateLimit: { rpm: 50, tpm: 30000 }, // Claude Tier 1
+  capabilities: { webSearch: true, webSearchOptional: true, grounding: true, regionHints: true },
+  tracking: true,
+  enabledByDefault: true,
+  display: { color: '#f97316', rgb: '249, 115, 22', bgColor: 'bg-orange-500', textColor: 'text-orange-600' },
+  call: callClaude,
+});
+
+registerProvider({
+  id: 'perplexity',
+  name: 'Perplexity',
+  defaultModel: 'sonar-pro',
+  envKey: 'PERPLEXITY_API_KEY',
+  costPer1K: 0.0015,
+  rateLimit: { rpm: 50 }, // Perplexity Tier 0
+  capabilities: { webSearch: true, webSearchOptional: false, grounding: true, regionHints: false },
+  tracking: true,
+  enabledByDefault: true,
+  display: { color: '#a855f7', rgb: '168, 85, 247', bgColor: 'bg-purple-500', textColor: 'text-purple-600' },
+  call: callPerplexity,
+});
+
+registerProvider({
+  id: 'groq',
+  name: 'Groq',
+  defaultModel: 'openai/gpt-oss-20b',
+  envKey: 'GROQ_API_KEY',
+  costPer1K: 0.00027,
+  // Paid tier 1K RPM / 250K TPM (kept below for safety margin)
+  rateLimit: { rpm: 950, tpm: 240000 },
+  capabilities: { webSearch: false, webSearchOptional: false, grounding: false, regionHints: false },
+  tracking: false, // Brand analysis only
+  enabledByDefault: false,
+  call: (prompt, config) => callGroq(prompt, config),
+});
+
 // =============================================
 // UNIFIED AI CALLER
 // =============================================
@@ -472,18 +635,11 @@ export async function callAI(
   prompt: string,
   config: AIClientConfig
 ): Promise<AICompletionResult> {
-  switch (provider) {
-    case 'openai':
-      return callOpenAI(prompt, config);
-    case 'gemini':
-      return callGemini(prompt, config);
-    case 'claude':
-      return callClaude(prompt, config);
-    case 'perplexity':
-      return callPerplexity(prompt, config);
-    default:
-      throw new Error(`Unsupported AI provider: ${provider}`);
+  const definition = getProvider(provider);
+  if (!definition) {
+    throw new Error(`Unsupported AI provider: ${provider}`);
   }
+  return definition.call(prompt, config);
 }
 
 // =============================================
@@ -491,20 +647,7 @@ export async function callAI(
 // =============================================
 
 export function getAPIKey(provider: AIProvider): string | null {
-  const keyMap: Record<AIProvider, string> = {
-    openai: process.env.OPENAI_API_KEY ?? '',
-    gemini: process.env.GEMINI_API_KEY ?? '',
-    claude: process.env.CLAUDE_API_KEY ?? '',
-    perplexity: process.env.PERPLEXITY_API_KEY ?? '',
-    groq: process.env.GROQ_API_KEY ?? '', // For brand analysis
-  };
-
-  const key = keyMap[provider];
-  if (!key) {
-    return null;
-  }
-
-  return key;
+  return getProviderAPIKey(provider);
 }
 
 // =============================================
@@ -512,7 +655,7 @@ export function getAPIKey(provider: AIProvider): string | null {
 // =============================================
 
 export function getAvailableProviders(): AIProvider[] {
-  const providers: AIProvider[] = ['openai', 'gemini', 'claude', 'perplexity'];
-  return providers.filter(provider => getAPIKey(provider) !== null);
+  return listProviders({ tracking: true })
+    .map(provider => provider.id)
+    .filter(provider => getAPIKey(provider) !== null);
 }
-
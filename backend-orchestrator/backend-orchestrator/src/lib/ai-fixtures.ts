@@ -0,0 +1,139 @@
+// =============================================
+// AI FIXTURES (MOCK & RECORD MODES)
+// =============================================
+// AI_MODE selects how provider clients reach the network:
+//   live   (default) - call the real APIs
+//   record - call the real APIs and write every raw payload to AI_FIXTURES_DIR
+//   mock   - never call the APIs, replay recorded raw payloads instead
+// Replayed payloads go through the same parsing code as live responses, so
+// text, citations and grounding metadata come out exactly as in production.
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { logError, logInfo } from './utils';
+
+export type AIMode = 'live' | 'record' | 'mock';
+
+interface FixtureFile {
+  provider: string;
+  model: string;
+  prompt: string;
+  recorded_at: string;
+  response: unknown; // Raw JSON body returned by the provider API
+}
+
+// =============================================
+// CONFIGURATION
+// =============================================
+
+export function getAIMode(): AIMode {
+  const mode = (process.env.AI_MODE || 'live').toLowerCase();
+  if (mode === 'record' || mode === 'mock') return mode;
+  return 'live';
+}
+
+export function isMockMode(): boolean {
+  return getAIMode() === 'mock';
+}
+
+export function getFixturesDir(): string {
+  return process.env.AI_FIXTURES_DIR || join(process.cwd(), 'fixtures');
+}
+
+/**
+ * Deterministic fixture key for a provider call
+ * Same provider + model + prompt always maps to the same file
+ */
+export function getFixtureKey(provider: string, model: string, prompt: string): string {
+  return createHash('sha256')
+    .update(`${provider}\n${model}\n${prompt}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+// =============================================
+// LOAD / SAVE
+// =============================================
+
+function readFixture(path: string): FixtureFile | null {
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf-8')) as FixtureFile;
+}
+
+/**
+ * Load the recorded payload for a call
+ * Falls back to <provider>/<fallback>.json (a fixture shaped for the prompt
+ * type, e.g. brand-analysis) and then <provider>/default.json when the exact
+ * prompt was never recorded
+ */
+function loadFixture(provider: string, model: string, prompt: string, fallback?: string): unknown {
+  const dir = join(getFixturesDir(), provider);
+  const key = getFixtureKey(provider, model, prompt);
+
+  const fixture =
+    readFixture(join(dir, `${key}.json`)) ||
+    (fallback ? readFixture(join(dir, `${fallback}.json`)) : null) ||
+    readFixture(join(dir, 'default.json'));
+  if (!fixture) {
+    throw new Error(
+      `No ${provider} fixture for key ${key} in ${dir}. Record one with AI_MODE=record or add ${provider}/default.json`
+    );
+  }
+
+  logInfo('ai-fixtures', `Replaying ${provider} fixture`, { key, model });
+  return fixture.response;
+}
+
+function saveFixture(provider: string, model: string, prompt: string, response: unknown): void {
+  const dir = join(getFixturesDir(), provider);
+  const key = getFixtureKey(provider, model, prompt);
+  mkdirSync(dir, { recursive: true });
+
+  const fixture: FixtureFile = {
+    provider,
+    model,
+    prompt,
+    recorded_at: new Date().toISOString(),
+    response,
+  };
+  writeFileSync(join(dir, `${key}.json`), JSON.stringify(fixture, null, 2));
+
+  logInfo('ai-fixtures', `Recorded ${provider} fixture`, { key, model });
+}
+
+// =============================================
+// CALL WRAPPER
+// =============================================
+
+/**
+ * Run a provider request according to AI_MODE
+ * fetchRaw performs the real HTTP call and returns the parsed JSON body;
+ * fallback names the fixture mock mode replays for unrecorded prompts
+ */
+export async function withFixture<T>(
+  provider: string,
+  model: string,
+  prompt: string,
+  fetchRaw: () => Promise<T>,
+  fallback?: string
+): Promise<T> {
+  const mode = getAIMode();
+
+  if (mode === 'mock') {
+    return loadFixture(provider, model, prompt, fallback) as T;
+  }
+
+  const data = await fetchRaw();
+
+  if (mode === 'record') {
+    try {
+      saveFixture(provider, model, prompt, data);
+    } catch (error) {
+      // Recording must never break a live run
+      logError('ai-fixtures', `Failed to record ${provider} fixture`, error);
+    }
+  }
+
+  return data;
+}
@@ -0,0 +1,617 @@
+// =============================================
+// ALERTS
+// =============================================
+// Evaluates project alert rules (alert_rules) once the daily stats of a project
+// are aggregated, over daily_brand_stats, brand_evaluations and
+// potential_competitors. Every firing is stored in alerts, which is the in-app
+// history, and then sent by email when the rule has recipients. Webhooks get
+// alerts as alert.fired events of the workspace endpoints (see webhooks.ts).
+// A subject (platform, competitor, topic, discovered brand) fires at most once
+// per rule and day, and not at all while a member has snoozed it.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendEmail, type EmailResult } from './email';
+import { getProjectBranding } from './branding';
+import { logInfo, logError } from './utils';
+
+// Days averaged for metric_drop, and how many of them need data
+const TRAILING_DAYS = 7;
+const MIN_TRAILING_DAYS = 3;
+const STATS_PAGE_SIZE = 1000;
+
+// =============================================
+// TYPES
+// =============================================
+
+export type AlertRuleType =
+  | 'share_below'
+  | 'metric_drop'
+  | 'competitor_overtake'
+  | 'negative_sentiment'
+  | 'new_competitor';
+
+export type AlertMetric = 'mentions' | 'mention_share' | 'citations';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertDeliveryResult = EmailResult | 'failed';
+
+export interface AlertRule {
+  id: string;
+  project_id: string;
+  name: string;
+  rule_type: AlertRuleType;
+  metric: AlertMetric;
+  threshold: number | null;
+  platform: string | null;
+  topic_id: string | null;
+  competitor_id: string | null;
+  sentiment_topic: string | null;
+}
+
+interface AlertCandidate {
+  subject_key: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+interface StatTotalRow {
+  stat_date: string;
+  platform: string | null;
+  entity_type: 'brand' | 'competitor';
+  competitor_id: string | null;
+  entity_name: string;
+  mentions: number;
+  citations: number;
+}
+
+interface DayTotals {
+  brandMentions: number;
+  brandCitations: number;
+  competitorMentions: number;
+  competitors: Map<string, { name: string; mentions: number }>;
+}
+
+// =============================================
+// HELPERS
+// =============================================
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function scopeLabel(platform: string | null): string {
+  return platform ? `on ${platform}` : 'across platforms';
+}
+
+function mentionShare(totals: DayTotals): number | null {
+  const total = totals.brandMentions + totals.competitorMentions;
+  return total > 0 ? (totals.brandMentions / total) * 100 : null;
+}
+
+function metricValue(totals: DayTotals, metric: AlertMetric): number | null {
+  if (metric === 'mention_share') return mentionShare(totals);
+  if (metric === 'citations') return totals.brandCitations;
+  return totals.brandMentions;
+}
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  mentions: 'Mentions',
+  mention_share: 'Mention share',
+  citations: 'Citations',
+};
+
+/**
+ * Daily totals of the brand and its competitors over TRAILING_DAYS + 1 days,
+ * summed over regions and topics (or for one topic)
+ */
+async function loadStatTotals(
+  supabase: SupabaseClient,
+  projectId: string,
+  statDate: string,
+  topicId: string | null
+): Promise<StatTotalRow[]> {
+  const rows: StatTotalRow[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .rpc('get_alert_stat_totals', {
+        p_project_id: projectId,
+        p_from_date: addDays(statDate, -TRAILING_DAYS),
+        p_to_date: statDate,
+        p_topic_id: topicId,
+      })
+      .range(page * STATS_PAGE_SIZE, (page + 1) * STATS_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load stats: ${error.message}`);
+    }
+
+    const pageRows = (data || []) as StatTotalRow[];
+    rows.push(
+      ...pageRows.map((row) => ({
+        ...row,
+        mentions: Number(row.mentions) || 0,
+        citations: Number(row.citations) || 0,
+      }))
+    );
+
+    if (pageRows.length < STATS_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+function totalsByDay(rows: StatTotalRow[], platform: string | null): Map<string, DayTotals> {
+  const days = new Map<string, DayTotals>();
+
+  for (const row of rows) {
+    if (platform && row.platform !== platform) continue;
+
+    const totals = days.get(row.stat_date) || {
+      brandMentions: 0,
+      brandCitations: 0,
+      competitorMentions: 0,
+      competitors: new Map(),
+    };
+
+    if (row.entity_type === 'brand') {
+      totals.brandMentions += row.mentions;
+      totals.brandCitations += row.citations;
+    } else if (row.competitor_id) {
+      totals.competitorMentions += row.mentions;
+      const competitor = totals.competitors.get(row.competitor_id) || { name: row.entity_name, mentions: 0 };
+      competitor.mentions += row.mentions;
+      totals.competitors.set(row.competitor_id, competitor);
+    }
+
+    days.set(row.stat_date, totals);
+  }
+
+  return days;
+}
+
+function getBrandName(rows: StatTotalRow[]): string {
+  return rows.find((row) => row.entity_type === 'brand')?.entity_name || 'Your brand';
+}
+
+// =============================================
+// RULE EVALUATORS
+// =============================================
+
+function evaluateShareBelow(rule: AlertRule, rows: StatTotalRow[], statDate: string): AlertCandidate[] {
+  const today = totalsByDay(rows, rule.platform).get(statDate);
+  const share = today ? mentionShare(today) : null;
+  const threshold = Number(rule.threshold);
+
+  if (!today || share === null || share >= threshold) return [];
+
+  return [
+    {
+      subject_key: `platform:${rule.platform || 'all'}`,
+      severity: share < threshold / 2 ? 'critical' : 'warning',
+      title: `Mention share ${formatNumber(share)}% is below ${formatNumber(threshold)}%`,
+      message: `${getBrandName(rows)} had ${today.brandMentions} of ${today.brandMentions + today.competitorMentions} brand mentions ${scopeLabel(rule.platform)} on ${statDate}.`,
+      data: {
+        share,
+        threshold,
+        platform: rule.platform,
+        brand_mentions: today.brandMentions,
+        competitor_mentions: today.competitorMentions,
+      },
+    },
+  ];
+}
+
+function evaluateMetricDrop(rule: AlertRule, rows: StatTotalRow[], statDate: string): AlertCandidate[] {
+  const days = totalsByDay(rows, rule.platform);
+  const today = days.get(statDate);
+  if (!today) return [];
+
+  const current = metricValue(today, rule.metric);
+  if (current === null) return [];
+
+  // Days without any stats (no analysis ran) are left out of the mean
+  const history: number[] = [];
+  for (let offset = 1; offset <= TRAILING_DAYS; offset++) {
+    const totals = days.get(addDays(statDate, -offset));
+    const value = totals ? metricValue(totals, rule.metric) : null;
+    if (value !== null) history.push(value);
+  }
+
+  if (history.length < MIN_TRAILING_DAYS) return [];
+
+  const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+  if (mean <= 0) return [];
+
+  const dropPercent = ((mean - current) / mean) * 100;
+  const threshold = Number(rule.threshold);
+  if (dropPercent <= threshold) return [];
+
+  const unit = rule.metric === 'mention_share' ? '%' : '';
+  return [
+    {
+      subject_key: `platform:${rule.platform || 'all'}`,
+      severity: dropPercent >= threshold * 2 ? 'critical' : 'warning',
+      title: `${METRIC_LABELS[rule.metric]} down ${formatNumber(dropPercent)}% vs the 7-day average`,
+      message: `${METRIC_LABELS[rule.metric]} ${scopeLabel(rule.platform)} were ${formatNumber(current)}${unit} on ${statDate}, against a trailing average of ${formatNumber(mean)}${unit} over ${history.length} days.`,
+      data: {
+        metric: rule.metric,
+        value: current,
+        trailing_mean: mean,
+        trailing_days: history.length,
+        drop_percent: dropPercent,
+        threshold,
+        platform: rule.platform,
+      },
+    },
+  ];
+}
+
+function evaluateCompetitorOvertake(rule: AlertRule, rows: StatTotalRow[], statDate: string): AlertCandidate[] {
+  const platforms = rule.platform
+    ? [rule.platform]
+    : Array.from(
+        new Set(
+          rows
+            .filter((row) => row.stat_date === statDate && row.platform)
+            .map((row) => row.platform as string)
+        )
+      );
+
+  const candidates: AlertCandidate[] = [];
+
+  for (const platform of platforms) {
+    const days = totalsByDay(rows, platform);
+    const today = days.get(statDate);
+    // Compare with the last earlier day that has stats on this platform
+    const previousDate = Array.from(days.keys())
+      .filter((date) => date < statDate)
+      .sort()
+      .pop();
+    const previous = previousDate ? days.get(previousDate) : undefined;
+
+    if (!today || !previous) continue;
+
+    for (const [competitorId, competitor] of today.competitors) {
+      if (rule.competitor_id && competitorId !== rule.competitor_id) continue;
+
+      const previousMentions = previous.competitors.get(competitorId)?.mentions || 0;
+      if (competitor.mentions <= today.brandMentions || previousMentions > previous.brandMentions) continue;
+
+      candidates.push({
+        subject_key: `platform:${platform}:competitor:${competitorId}`,
+        severity: 'warning',
+        title: `${competitor.name} overtook ${getBrandName(rows)} on ${platform}`,
+        message: `${competitor.name} had ${competitor.mentions} mentions on ${platform} on ${statDate}, against ${today.brandMentions} for ${getBrandName(rows)} (${previousMentions} vs ${previous.brandMentions} on ${previousDate}).`,
+        data: {
+          platform,
+          competitor_id: competitorId,
+          competitor_name: competitor.name,
+          competitor_mentions: competitor.mentions,
+          brand_mentions: today.brandMentions,
+          previous_date: previousDate,
+          previous_competitor_mentions: previousMentions,
+          previous_brand_mentions: previous.brandMentions,
+        },
+      });
+    }
+  }
+
+  return candidates;
+}
+
+async function evaluateNegativeSentiment(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  statDate: string
+): Promise<AlertCandidate[]> {
+  let query = supabase
+    .from('brand_evaluations')
+    .select('topic, sentiment_score, created_at')
+    .eq('project_id', rule.project_id)
+    .eq('entity_type', 'brand')
+    .not('sentiment_score', 'is', null)
+    .gte('created_at', `${addDays(statDate, -TRAILING_DAYS)}T00:00:00Z`)
+    .lt('created_at', `${addDays(statDate, 1)}T00:00:00Z`);
+
+  if (rule.sentiment_topic) {
+    query = query.eq('topic', rule.sentiment_topic);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load brand evaluations: ${error.message}`);
+  }
+
+  // Scores of the stat date vs the trailing days, per topic
+  const topics = new Map<string, { today: number[]; previous: number[] }>();
+  for (const evaluation of data || []) {
+    const scores = topics.get(evaluation.topic) || { today: [], previous: [] };
+    const isToday = String(evaluation.created_at).startsWith(statDate);
+    (isToday ? scores.today : scores.previous).push(Number(evaluation.sentiment_score));
+    topics.set(evaluation.topic, scores);
+  }
+
+  const cutoff = rule.threshold === null ? 0 : Number(rule.threshold);
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const candidates: AlertCandidate[] = [];
+
+  for (const [topic, scores] of topics) {
+    if (scores.today.length === 0 || scores.previous.length === 0) continue;
+
+    const todayAverage = average(scores.today);
+    const previousAverage = average(scores.previous);
+    if (todayAverage >= cutoff || previousAverage < cutoff) continue;
+
+    candidates.push({
+      subject_key: `topic:${topic}`,
+      severity: todayAverage <= -0.5 ? 'critical' : 'warning',
+      title: `Sentiment turned negative on "${topic}"`,
+      message: `Average sentiment on "${topic}" was ${todayAverage.toFixed(2)} on ${statDate}, down from ${previousAverage.toFixed(2)} over the previous ${TRAILING_DAYS} days.`,
+      data: {
+        topic,
+        sentiment: todayAverage,
+        previous_sentiment: previousAverage,
+        cutoff,
+        evaluations: scores.today.length,
+      },
+    });
+  }
+
+  return candidates;
+}
+
+async function evaluateNewCompetitor(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  statDate: string
+): Promise<AlertCandidate[]> {
+  // From the start of the previous day, so brands found after yesterday's run are included
+  const { data, error } = await supabase
+    .from('potential_competitors')
+    .select('id, brand_name, context, mention_count, first_detected_at')
+    .eq('project_id', rule.project_id)
+    .eq('status', 'pending')
+    .gte('first_detected_at', `${addDays(statDate, -1)}T00:00:00Z`)
+    .lt('first_detected_at', `${addDays(statDate, 1)}T00:00:00Z`);
+
+  if (error) {
+    throw new Error(`Failed to load potential competitors: ${error.message}`);
+  }
+
+  return (data || []).map((brand) => ({
+    subject_key: `brand:${brand.id}`,
+    severity: 'info' as const,
+    title: `New competitor detected: ${brand.brand_name}`,
+    message: brand.context
+      ? `${brand.brand_name} appeared in AI answers for the first time: "${brand.context}"`
+      : `${brand.brand_name} appeared in AI answers for the first time.`,
+    data: {
+      potential_competitor_id: brand.id,
+      brand_name: brand.brand_name,
+      mention_count: brand.mention_count,
+      first_detected_at: brand.first_detected_at,
+    },
+  }));
+}
+
+// =============================================
+// EVALUATION
+// =============================================
+
+/**
+ * Drop subjects that are snoozed, and for new_competitor, brands already alerted
+ */
+async function filterSuppressed(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  candidates: AlertCandidate[]
+): Promise<AlertCandidate[]> {
+  if (candidates.length === 0) return [];
+
+  let query = supabase
+    .from('alerts')
+    .select('subject_key')
+    .eq('rule_id', rule.id)
+    .in('subject_key', candidates.map((candidate) => candidate.subject_key));
+
+  if (rule.rule_type !== 'new_competitor') {
+    query = query.gt('snoozed_until', new Date().toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to check snoozed alerts: ${error.message}`);
+  }
+
+  const suppressed = new Set((data || []).map((row) => row.subject_key as string));
+  return candidates.filter((candidate) => !suppressed.has(candidate.subject_key));
+}
+
+/**
+ * Evaluate the project's active alert rules for a stat date and store what fired
+ * Re-running for the same date doesn't fire again; returns the ids of new alerts
+ * A rule that fails to evaluate is logged and skipped
+ */
+export async function evaluateAlertRules(
+  supabase: SupabaseClient,
+  projectId: string,
+  statDate: string
+): Promise<string[]> {
+  const { data: rules, error } = await supabase
+    .from('alert_rules')
+    .select('id, project_id, name, rule_type, metric, threshold, platform, topic_id, competitor_id, sentiment_topic')
+    .eq('project_id', projectId)
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load alert rules: ${error.message}`);
+  }
+
+  if (!rules || rules.length === 0) return [];
+
+  // Stats are loaded once per topic scope and shared by the rules using it
+  const statsByTopic = new Map<string, Promise<StatTotalRow[]>>();
+  const getStats = (topicId: string | null) => {
+    const key = topicId || 'all';
+    if (!statsByTopic.has(key)) {
+      statsByTopic.set(key, loadStatTotals(supabase, projectId, statDate, topicId));
+    }
+    return statsByTopic.get(key)!;
+  };
+
+  const firedIds: string[] = [];
+
+  for (const rule of rules as AlertRule[]) {
+    try {
+      let candidates: AlertCandidate[];
+      switch (rule.rule_type) {
+        case 'share_below':
+          candidates = evaluateShareBelow(rule, await getStats(rule.topic_id), statDate);
+          break;
+        case 'metric_drop':
+          candidates = evaluateMetricDrop(rule, await getStats(rule.topic_id), statDate);
+          break;
+        case 'competitor_overtake':
+          candidates = evaluateCompetitorOvertake(rule, await getStats(rule.topic_id), statDate);
+          break;
+        case 'negative_sentiment':
+          candidates = await evaluateNegativeSentiment(supabase, rule, statDate);
+          break;
+        case 'new_competitor':
+          candidates = await evaluateNewCompetitor(supabase, rule, statDate);
+          break;
+        default:
+          candidates = [];
+      }
+
+      candidates = await filterSuppressed(supabase, rule, candidates);
+      if (candidates.length === 0) continue;
+
+      // Existing (rule, date, subject) rows are left alone, so only new alerts come back
+      const { data: inserted, error: insertError } = await supabase
+        .from('alerts')
+        .upsert(
+          candidates.map((candidate) => ({
+            project_id: projectId,
+            rule_id: rule.id,
+            rule_type: rule.rule_type,
+            stat_date: statDate,
+            ...candidate,
+          })),
+          { onConflict: 'rule_id,stat_date,subject_key', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (insertError) {
+        throw new Error(`Failed to store alerts: ${insertError.message}`);
+      }
+
+      firedIds.push(...(inserted || []).map((row) => row.id as string));
+    } catch (err) {
+      logError('alerts', `Failed to evaluate alert rule "${rule.name}"`, err);
+    }
+  }
+
+  logInfo('alerts', `Evaluated ${rules.length} alert rules`, { projectId, statDate, fired: firedIds.length });
+
+  return firedIds;
+}
+
+// =============================================
+// DELIVERY
+// =============================================
+
+interface AlertToDeliver {
+  id: string;
+  project_id: string;
+  rule_id: string | null;
+  rule_type: AlertRuleType;
+  stat_date: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  delivery: Record<string, AlertDeliveryResult>;
+  created_at: string;
+  alert_rules: { email_recipients: string[] } | null;
+}
+
+function buildAlertEmailText(alert: AlertToDeliver, projectName: string): string {
+  const lines = [alert.title, '', alert.message, '', `Project: ${projectName}`, `Date: ${alert.stat_date}`];
+  if (process.env.DASHBOARD_URL) {
+    lines.push('', `Acknowledge or snooze it in the dashboard: ${process.env.DASHBOARD_URL}/dashboard/alerts`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Send alerts by email as configured on their rules and record the result per
+ * channel in alerts.delivery. Alerts already delivered are skipped,
+ * so a retried step doesn't send twice. Never throws for a failed channel.
+ */
+export async function deliverAlerts(
+  supabase: SupabaseClient,
+  alertIds: string[],
+  projectName: string
+): Promise<{ sent: number; failed: number }> {
+  if (alertIds.length === 0) return { sent: 0, failed: 0 };
+
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('id, project_id, rule_id, rule_type, stat_date, severity, title, message, data, delivery, created_at, alert_rules(email_recipients)')
+    .in('id', alertIds);
+
+  if (error) {
+    throw new Error(`Failed to load alerts to deliver: ${error.message}`);
+  }
+
+  let sent = 0;
+  let failed = 0;
+  const senderNames = new Map<string, string | null>();
+
+  for (const alert of (data || []) as unknown as AlertToDeliver[]) {
+    if (Object.keys(alert.delivery || {}).length > 0) continue;
+
+    const recipients = alert.alert_rules?.email_recipients || [];
+    const delivery: Record<string, AlertDeliveryResult> = {};
+
+    if (recipients.length > 0) {
+      try {
+        if (!senderNames.has(alert.project_id)) {
+          senderNames.set(alert.project_id, (await getProjectBranding(supabase, alert.project_id)).sender_name);
+        }
+        delivery.email = await sendEmail({
+          to: recipients,
+          subject: `[${projectName}] ${alert.title}`,
+          text: buildAlertEmailText(alert, projectName),
+          fromName: senderNames.get(alert.project_id) || undefined,
+        });
+      } catch (err) {
+        delivery.email = 'failed';
+        logError('alerts', `Failed to email alert ${alert.id}`, err);
+      }
+    }
+
+    if (Object.keys(delivery).length === 0) continue;
+
+    sent += Object.values(delivery).filter((result) => result === 'sent').length;
+    failed += Object.values(delivery).filter((result) => result === 'failed').length;
+
+    const { error: updateError } = await supabase.from('alerts').update({ delivery }).eq('id', alert.id);
+    if (updateError) {
+      logError('alerts', `Failed to record delivery of alert ${alert.id}`, updateError);
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,112 @@
+// =============================================
+// ANALYSIS RUNS
+// =============================================
+// Every batch of analysis/process-prompt events belongs to one run per project.
+// The trigger creates the runs before fanning out; process-prompt stamps run_id
+// on its job and responses and reports each prompt as finished.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logError } from './utils';
+
+export type RunTrigger = 'scheduled' | 'manual' | 'replay';
+
+export interface RunPrompt {
+  project_id: string;
+  platforms_to_process?: string[];
+}
+
+/**
+ * Create one run per project for a batch of prompts
+ * Returns the run id per project id (existing runs for the batch are reused)
+ */
+export async function createAnalysisRuns(
+  supabase: SupabaseClient,
+  batchId: string,
+  trigger: RunTrigger,
+  prompts: RunPrompt[]
+): Promise<Record<string, string>> {
+  const byProject = new Map<string, { prompts: number; platforms: Record<string, number> }>();
+
+  for (const prompt of prompts) {
+    const entry = byProject.get(prompt.project_id) || { prompts: 0, platforms: {} };
+    entry.prompts += 1;
+    for (const platform of prompt.platforms_to_process || []) {
+      entry.platforms[platform] = (entry.platforms[platform] || 0) + 1;
+    }
+    byProject.set(prompt.project_id, entry);
+  }
+
+  if (byProject.size === 0) return {};
+
+  const { data, error } = await supabase
+    .from('analysis_runs')
+    .upsert(
+      Array.from(byProject.entries()).map(([projectId, entry]) => ({
+        project_id: projectId,
+        batch_id: batchId,
+        trigger,
+        prompts_queued: entry.prompts,
+        platform_counts: entry.platforms,
+      })),
+      { onConflict: 'batch_id,project_id' }
+    )
+    .select('id, project_id');
+
+  if (error) {
+    throw new Error(`Failed to create analysis runs: ${error.message}`);
+  }
+
+  return Object.fromEntries((data || []).map((run) => [run.project_id, run.id]));
+}
+
+/**
+ * Count a prompt of a run as finished; the run closes once all its prompts have
+ * A prompt is only counted once per run, later calls for it are ignored
+ * Returns true for the call that closed the run (emits analysis.batch_completed)
+ * Never throws - run bookkeeping must not fail the analysis itself
+ */
+export async function finishRunPrompt(
+  supabase: SupabaseClient,
+  runId: string | undefined,
+  promptTrackingId: string,
+  failed: boolean
+): Promise<boolean> {
+  if (!runId) return false;
+
+  const { data, error } = await supabase.rpc('finish_analysis_run_prompt', {
+    p_run_id: runId,
+    p_prompt_tracking_id: promptTrackingId,
+    p_failed: failed,
+  });
+
+  if (error) {
+    logError('analysis-runs', `Failed to update run ${runId}`, { error: error.message });
+    return false;
+  }
+
+  return data === true;
+}
+
+/**
+ * Webhook payload of a closed run (analysis.batch_completed)
+ */
+export async function getRunSummary(
+  supabase: SupabaseClient,
+  runId: string
+): Promise<Record<string, unknown> | null> {
+  const { data, error } = await supabase
+    .from('analysis_runs')
+    .select('id, batch_id, trigger, status, prompts_queued, prompts_completed, prompts_failed, platform_counts, started_at, completed_at')
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) {
+    logError('analysis-runs', `Failed to load run ${runId}`, { error: error.message });
+    return null;
+  }
+
+  if (!data) return null;
+
+  const { id, ...run } = data;
+  return { run_id: id, ...run };
+}
@@ -3,20 +3,33 @@
 // =============================================
 
 import { callGemini, getAPIKey } from './ai-clients';
-import { waitForRateLimit } from './rate-limiter';
-import type { BrandAnalysisResult, AIClientConfig } from './types';
+import { withRateLimit, estimateTokens } from './rate-limiter';
+import type { BrandAnalysisResult, AIClientConfig, EntityRanking } from './types';
 import { logError, logInfo } from './utils';
 
+/**
+ * Other names of the client brand and of each competitor (keyed by competitor name)
+ */
+export interface EntityAliases {
+  brand: string[];
+  competitors: Record<string, string[]>;
+}
+
+function withAliases(name: string, aliases: string[] | undefined): string {
+  return aliases && aliases.length > 0 ? `${name} (also known as: ${aliases.join(', ')})` : name;
+}
+
 /**
  * Build the brand analysis prompt with dynamic parameters
  */
 function buildBrandAnalysisPrompt(
   responseText: string,
   brandName: string,
-  competitorList: string[]
+  competitorList: string[],
+  aliases?: EntityAliases
 ): string {
   const competitorsListText = competitorList.length > 0
-    ? competitorList.join(', ')
+    ? competitorList.map((name) => withAliases(name, aliases?.competitors[name])).join(', ')
     : '(no competitors defined)';
 
   return `You are a JSON output assistant. You MUST respond with valid JSON only, no other text. Do not include markdown code blocks or any explanatory text.
@@ -48,7 +61,14 @@ Return ONLY a valid JSON object in this exact structure:
       "negative": []
     }
   ],
-  "other_brands_detected": []
+  "other_brands_detected": [],
+  "entity_rankings": [
+    {
+      "entity": "",
+      "position": 1,
+      "is_recommended": false
+    }
+  ]
 }
 
 Role:
@@ -69,9 +89,12 @@ Return true or false.
 2. Identify which competitors from the client's predefined competitor list are mentioned.
 Return an array of competitor names that appear in the answer.
 
+Names listed as "also known as" (spelling variants, misspellings, sub-brands, product names, domains) refer to the same brand.
+Always report the client's brand and competitors by their name from the CLIENT DATA section, never by an alias.
+
 3. Identify ALL other brand names mentioned in the text, excluding:
-- the client's brand
-- brands in the predefined competitor list
+- the client's brand (including its aliases)
+- brands in the predefined competitor list (including their aliases)
 
 Return them exactly as they appear.
 
@@ -169,13 +192,29 @@ Attributes are descriptive qualities, strengths, weaknesses, or perceptions assi
 
 -----------------------------------------
 
+RANKING
+
+-----------------------------------------
+
+15. If the answer presents options as a ranked or ordered list (numbered list, "top 5", "best options", ordered headings), return in entity_rankings the 1-based position of the client's brand and of each predefined competitor that appears in that list.
+
+Use the order of the list as written. If the answer contains several lists, use the main list that answers the question.
+
+16. Set is_recommended to true only for entities the answer explicitly recommends or names as the best choice (e.g. "our top pick", "we recommend", "the best option is").
+
+17. Use null as the position for an entity that is recommended but not part of a ranked list. Leave out entities that are neither ranked nor recommended.
+
+Report entities by their name from the CLIENT DATA section. If the answer has no ranked list and no explicit recommendation, return an empty entity_rankings array.
+
+-----------------------------------------
+
 CLIENT DATA
 
 -----------------------------------------
 
 Client's brand:
 
-${brandName}
+${withAliases(brandName, aliases?.brand)}
 
 Client's predefined competitor list:
 
@@ -246,6 +285,16 @@ function parseBrandAnalysisResponse(jsonText: string): BrandAnalysisResult {
       other_brands_detected: Array.isArray(parsed.other_brands_detected)
         ? parsed.other_brands_detected
         : [],
+      entity_rankings: Array.isArray(parsed.entity_rankings)
+        ? parsed.entity_rankings
+            .filter((er) => typeof er?.entity === 'string' && er.entity.trim().length > 0)
+            .map((er): EntityRanking => ({
+              entity: er.entity,
+              position: Number.isInteger(er.position) && (er.position ?? 0) > 0 ? er.position : null,
+              is_recommended: er.is_recommended === true,
+            }))
+            .filter((er) => er.position !== null || er.is_recommended)
+        : [],
     };
   } catch (error: any) {
     logError('brand-analysis', 'Failed to parse JSON response', {
@@ -258,12 +307,14 @@ function parseBrandAnalysisResponse(jsonText: string): BrandAnalysisResult {
 
 /**
  * Analyze brand mentions, sentiment, and attributes in an AI response
+ * Throws when Gemini fails or returns unparseable JSON
  */
 export async function analyzeBrandMentions(
   responseText: string,
   brandName: string,
   competitorList: string[],
-  config?: Partial<AIClientConfig>
+  config?: Partial<AIClientConfig>,
+  aliases?: EntityAliases
 ): Promise<BrandAnalysisResult> {
   try {
     logInfo('brand-analysis', 'Starting brand analysis', {
@@ -278,11 +329,8 @@ export async function analyzeBrandMentions(
       throw new Error('Missing GEMINI_API_KEY environment variable');
     }
 
-    // Apply rate limiting before calling Gemini
-    await waitForRateLimit('gemini');
-
     // Build prompt
-    const prompt = buildBrandAnalysisPrompt(responseText, brandName, competitorList);
+    const prompt = buildBrandAnalysisPrompt(responseText, brandName, competitorList, aliases);
 
     // Call Gemini (without web search for brand analysis - we're analyzing existing text)
     const geminiConfig: AIClientConfig = {
@@ -291,6 +339,7 @@ export async function analyzeBrandMentions(
       temperature: config?.temperature ?? 0.2, // Very low temperature for consistent JSON
       maxTokens: config?.maxTokens ?? 4000, // Gemini supports more tokens than Groq in JSON mode
       useWebSearch: false, // No web search needed - we're analyzing text we already have
+      fixture: 'brand-analysis',
     };
 
     logInfo('brand-analysis', 'Calling Gemini API', {
@@ -298,7 +347,10 @@ export async function analyzeBrandMentions(
       promptLength: prompt.length,
     });
 
-    const result = await callGemini(prompt, geminiConfig);
+    // Rate limited through the shared RPM/TPM bucket
+    const result = await withRateLimit('gemini', geminiConfig.model, estimateTokens(prompt, geminiConfig.maxTokens), () =>
+      callGemini(prompt, geminiConfig)
+    );
 
     logInfo('brand-analysis', 'Gemini response received', {
       responseLength: result.text.length,
@@ -312,10 +364,18 @@ export async function analyzeBrandMentions(
       clientBrandMentioned: analysis.client_brand_mentioned,
       competitorsMentioned: analysis.mentioned_competitors.length,
       otherBrandsDetected: analysis.other_brands_detected.length,
+      rankedEntities: analysis.entity_rankings.length,
       sentiment: analysis.client_brand_sentiment,
     });
 
-    return analysis;
+    return {
+      ...analysis,
+      usage: {
+        model: result.model,
+        tokens_used: result.tokens_used,
+        cost: result.cost,
+      },
+    };
   } catch (error: any) {
     logError('brand-analysis', 'Brand analysis failed', {
       error: error.message,
@@ -330,21 +390,9 @@ export async function analyzeBrandMentions(
       });
     }
     
-    // Return default/empty result on error
-    return {
-      client_brand_mentioned: false,
-      mentioned_competitors: [],
-      client_brand_sentiment: 'not_mentioned',
-      client_brand_sentiment_rating: 0,
-      client_brand_sentiment_ratio: 0,
-      competitor_sentiments: [],
-      client_brand_attributes: {
-        positive: [],
-        negative: [],
-      },
-      competitor_attributes: [],
-      other_brands_detected: [],
-    };
+    // Re-throw so the caller retries and, once retries are exhausted, dead-letters the response
+    // (an empty result would be saved as a successful "not mentioned" analysis)
+    throw error;
   }
 }
 
@@ -10,9 +10,175 @@ import type {
   PotentialCompetitorData,
 } from './types';
 import { logInfo, logError } from './utils';
+import { locateMentions, normalizeEntityName } from './mention-locator';
+
+export interface ActiveCompetitor {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+// Entities a historical re-analysis replaces; everything else on the response is left as is
+export interface EntitySelection {
+  includeBrand: boolean;
+  competitorIds: string[];
+}
+
+type EntityFilter = (brandType: 'client' | 'competitor', competitorId?: string | null) => boolean;
+
+function selectionFilter(selection: EntitySelection): EntityFilter {
+  return (brandType, competitorId) =>
+    brandType === 'client' ? selection.includeBrand : !!competitorId && selection.competitorIds.includes(competitorId);
+}
+
+export interface SavedMentions {
+  saved: number;
+  clientMentioned: boolean;
+  competitorIds: string[]; // Competitors with at least one saved mention
+}
+
+/**
+ * Resolve a name from the LLM output (canonical name or any alias) to a competitor
+ */
+export function resolveCompetitor(name: string, competitors: ActiveCompetitor[]): ActiveCompetitor | null {
+  const normalized = normalizeEntityName(name);
+  if (!normalized) return null;
+
+  return (
+    competitors.find((c) =>
+      [c.name, ...c.aliases].some((candidate) => normalizeEntityName(candidate) === normalized)
+    ) || null
+  );
+}
+
+function isBrandName(name: string, brandName: string, brandAliases: string[]): boolean {
+  const normalized = normalizeEntityName(name);
+  return [brandName, ...brandAliases].some((candidate) => normalizeEntityName(candidate) === normalized);
+}
+
+/**
+ * Build the brand_mentions rows of a response
+ * One row per occurrence found by the mention locator, with exact offsets and
+ * surrounding context. The LLM analysis is a cross-check: entities it reports
+ * that the locator can't find (e.g. paraphrased names) get a single row without
+ * offsets and a lower confidence.
+ * Ranking position and recommendation are per entity and repeated on each of
+ * its rows; the earliest located occurrence is flagged as the first mention.
+ * Each entity's first row is flagged as its first occurrence, which counts
+ * responses mentioning the entity rather than occurrences.
+ * With `include`, only the matching entities' rows are built.
+ */
+function buildBrandMentionRecords(
+  aiResponseId: string,
+  projectId: string,
+  responseText: string,
+  brandName: string,
+  analysis: BrandAnalysisResult,
+  competitors: ActiveCompetitor[],
+  brandAliases: string[],
+  include?: EntityFilter
+): { records: Record<string, unknown>[]; clientMentioned: boolean; competitorIds: string[] } {
+  const located = locateMentions(responseText, [
+    { brand_type: 'client', entity_name: brandName, aliases: brandAliases },
+    ...competitors.map((c) => ({
+      brand_type: 'competitor' as const,
+      entity_name: c.name,
+      competitor_id: c.id,
+      aliases: c.aliases,
+    })),
+  ]);
+
+  const llmCompetitors = new Set(analysis.mentioned_competitors.map((name) => name.toLowerCase()));
+  const llmMentioned = (brandType: 'client' | 'competitor', entityName: string) =>
+    brandType === 'client' ? analysis.client_brand_mentioned : llmCompetitors.has(entityName.toLowerCase());
+
+  // Rankings are keyed by canonical entity name (resolved in saveBrandAnalysis)
+  const rankings = new Map(analysis.entity_rankings.map((r) => [r.entity.toLowerCase(), r]));
+  const rankingFields = (entityName: string) => {
+    const ranking = rankings.get(entityName.toLowerCase());
+    return { ranking_position: ranking?.position ?? null, is_recommended: ranking?.is_recommended ?? false };
+  };
+
+  // located is in text order, so the first row is the first tracked entity in the answer
+  const seenEntities = new Set<string>();
+  const mentions: BrandMentionData[] = located.map((mention, index) => {
+    const llmAgrees = llmMentioned(mention.brand_type, mention.entity_name);
+    const entityKey = `${mention.brand_type}:${mention.entity_name.toLowerCase()}`;
+    const isFirstOccurrence = !seenEntities.has(entityKey);
+    seenEntities.add(entityKey);
+    return {
+      brand_type: mention.brand_type,
+      competitor_id: mention.competitor_id,
+      entity_name: mention.entity_name,
+      mentioned_text: mention.context,
+      start_index: mention.start_index,
+      end_index: mention.end_index,
+      confidence_score: llmAgrees ? 1.0 : 0.8,
+      ...rankingFields(mention.entity_name),
+      is_first_mention: index === 0,
+      is_first_occurrence: isFirstOccurrence,
+      metadata: { source: 'locator', matched_text: mention.matched_text, llm_agrees: llmAgrees },
+    };
+  });
+
+  // Cross-check: mentions only the LLM saw
+  const llmOnly = [
+    ...(analysis.client_brand_mentioned ? [{ brand_type: 'client' as const, entity_name: brandName, competitor_id: undefined }] : []),
+    ...competitors
+      .filter((c) => llmCompetitors.has(c.name.toLowerCase()))
+      .map((c) => ({ brand_type: 'competitor' as const, entity_name: c.name, competitor_id: c.id })),
+  ].filter((entity) => !seenEntities.has(`${entity.brand_type}:${entity.entity_name.toLowerCase()}`));
+
+  for (const entity of llmOnly) {
+    mentions.push({
+      ...entity,
+      mentioned_text: responseText.substring(0, 500), // No exact position, first 500 chars as context
+      confidence_score: 0.5,
+      ...rankingFields(entity.entity_name),
+      is_first_occurrence: true,
+      metadata: { source: 'llm', llm_agrees: true },
+    });
+  }
+
+  const locatorOnly = mentions.filter((m) => m.metadata?.llm_agrees === false);
+  if (locatorOnly.length > 0 || llmOnly.length > 0) {
+    logInfo('brand-storage', 'Mention locator and LLM analysis disagree', {
+      aiResponseId,
+      locatorOnly: Array.from(new Set(locatorOnly.map((m) => m.entity_name))),
+      llmOnly: llmOnly.map((m) => m.entity_name),
+    });
+  }
+
+  // Filter after first-mention flags are set, so they still reflect every tracked entity
+  const toSave = include ? mentions.filter((m) => include(m.brand_type, m.competitor_id)) : mentions;
+
+  const records = toSave.map((mention) => ({
+    ai_response_id: aiResponseId,
+    project_id: projectId,
+    brand_type: mention.brand_type,
+    competitor_id: mention.competitor_id || null,
+    entity_name: mention.entity_name,
+    mentioned_text: mention.mentioned_text,
+    start_index: mention.start_index ?? null,
+    end_index: mention.end_index ?? null,
+    confidence_score: mention.confidence_score,
+    ranking_position: mention.ranking_position ?? null,
+    is_recommended: mention.is_recommended ?? false,
+    is_first_mention: mention.is_first_mention ?? false,
+    is_first_occurrence: mention.is_first_occurrence ?? true,
+    metadata: mention.metadata || {},
+  }));
+
+  return {
+    records,
+    clientMentioned: toSave.some((m) => m.brand_type === 'client'),
+    competitorIds: Array.from(new Set(toSave.filter((m) => m.competitor_id).map((m) => m.competitor_id!))),
+  };
+}
 
 /**
- * Save brand mentions to the brand_mentions table
+ * Save brand mentions to the brand_mentions table (see buildBrandMentionRecords)
+ * With `include`, only the matching entities' rows are saved.
  */
 export async function saveBrandMentions(
   supabase: SupabaseClient,
@@ -21,57 +187,29 @@ export async function saveBrandMentions(
   responseText: string,
   brandName: string,
   analysis: BrandAnalysisResult,
-  competitorMap: Map<string, string> // Map competitor name -> competitor_id
-): Promise<number> {
-  try {
-    const mentions: BrandMentionData[] = [];
-
-    // Add client brand mention if mentioned
-    if (analysis.client_brand_mentioned) {
-      // We'll use a simple approach: mark the entire response as context
-      mentions.push({
-        brand_type: 'client',
-        entity_name: brandName, // Use actual brand name
-        mentioned_text: responseText.substring(0, 500), // First 500 chars as context
-        confidence_score: 1.0,
-        metadata: {},
-      });
-    }
+  competitors: ActiveCompetitor[],
+  brandAliases: string[] = [],
+  include?: EntityFilter
+): Promise<SavedMentions> {
+  const noMentions: SavedMentions = { saved: 0, clientMentioned: false, competitorIds: [] };
 
-    // Add competitor mentions
-    for (const competitorName of analysis.mentioned_competitors) {
-      const competitorId = competitorMap.get(competitorName);
-      if (competitorId) {
-        mentions.push({
-          brand_type: 'competitor',
-          competitor_id: competitorId,
-          entity_name: competitorName,
-          mentioned_text: responseText.substring(0, 500), // First 500 chars as context
-          confidence_score: 1.0,
-          metadata: {},
-        });
-      }
-    }
+  try {
+    const { records, clientMentioned, competitorIds } = buildBrandMentionRecords(
+      aiResponseId,
+      projectId,
+      responseText,
+      brandName,
+      analysis,
+      competitors,
+      brandAliases,
+      include
+    );
 
-    if (mentions.length === 0) {
+    if (records.length === 0) {
       logInfo('brand-storage', 'No brand mentions to save');
-      return 0;
+      return noMentions;
     }
 
-    // Prepare records for insertion
-    const records = mentions.map((mention) => ({
-      ai_response_id: aiResponseId,
-      project_id: projectId,
-      brand_type: mention.brand_type,
-      competitor_id: mention.competitor_id || null,
-      entity_name: mention.entity_name,
-      mentioned_text: mention.mentioned_text,
-      start_index: mention.start_index ?? null,
-      end_index: mention.end_index ?? null,
-      confidence_score: mention.confidence_score,
-      metadata: mention.metadata || {},
-    }));
-
     const { data, error } = await supabase
       .from('brand_mentions')
       .insert(records)
@@ -84,91 +222,119 @@ export async function saveBrandMentions(
 
     logInfo('brand-storage', `Saved ${data?.length || 0} brand mentions`, {
       aiResponseId,
-      mentionsCount: mentions.length,
+      mentionsCount: records.length,
     });
 
-    return data?.length || 0;
+    return { saved: data?.length || 0, clientMentioned, competitorIds };
   } catch (error: any) {
     logError('brand-storage', 'Error saving brand mentions', error);
-    return 0;
+    return noMentions;
   }
 }
 
 /**
- * Save brand sentiment and attributes to the brand_sentiment_attributes table
+ * Build the brand_sentiment_attributes rows of a response: the client brand if
+ * mentioned, and every known competitor the analysis rated
+ * With `include`, only the matching entities' rows are built.
  */
-export async function saveSentimentAttributes(
-  supabase: SupabaseClient,
+function buildSentimentAttributeRecords(
   aiResponseId: string,
   projectId: string,
   responseText: string,
   brandName: string,
   analysis: BrandAnalysisResult,
-  competitorMap: Map<string, string> // Map competitor name -> competitor_id
-): Promise<number> {
-  try {
-    const attributes: BrandSentimentAttributesData[] = [];
+  competitorMap: Map<string, string>, // Map competitor name -> competitor_id
+  include?: EntityFilter
+): Record<string, unknown>[] {
+  const attributes: BrandSentimentAttributesData[] = [];
+
+  // Add client brand sentiment/attributes if mentioned
+  if (analysis.client_brand_mentioned) {
+    attributes.push({
+      brand_type: 'client',
+      entity_name: brandName,
+      sentiment: analysis.client_brand_sentiment,
+      sentiment_rating: analysis.client_brand_sentiment_rating,
+      sentiment_ratio: analysis.client_brand_sentiment_ratio,
+      positive_attributes: analysis.client_brand_attributes.positive,
+      negative_attributes: analysis.client_brand_attributes.negative,
+      analyzed_text: responseText,
+      metadata: {},
+    });
+  }
+
+  // Add competitor sentiments/attributes
+  for (const competitorSentiment of analysis.competitor_sentiments) {
+    const competitorId = competitorMap.get(competitorSentiment.competitor);
+    if (competitorId) {
+      // Find attributes for this competitor
+      const competitorAttr = analysis.competitor_attributes.find(
+        (ca) => ca.competitor === competitorSentiment.competitor
+      );
 
-    // Add client brand sentiment/attributes if mentioned
-    if (analysis.client_brand_mentioned) {
       attributes.push({
-        brand_type: 'client',
-        entity_name: brandName,
-        sentiment: analysis.client_brand_sentiment,
-        sentiment_rating: analysis.client_brand_sentiment_rating,
-        sentiment_ratio: analysis.client_brand_sentiment_ratio,
-        positive_attributes: analysis.client_brand_attributes.positive,
-        negative_attributes: analysis.client_brand_attributes.negative,
+        brand_type: 'competitor',
+        competitor_id: competitorId,
+        entity_name: competitorSentiment.competitor,
+        sentiment: competitorSentiment.sentiment,
+        sentiment_rating: competitorSentiment.sentiment_rating,
+        sentiment_ratio: competitorSentiment.sentiment_ratio,
+        positive_attributes: competitorAttr?.positive || [],
+        negative_attributes: competitorAttr?.negative || [],
         analyzed_text: responseText,
         metadata: {},
       });
     }
+  }
 
-    // Add competitor sentiments/attributes
-    for (const competitorSentiment of analysis.competitor_sentiments) {
-      const competitorId = competitorMap.get(competitorSentiment.competitor);
-      if (competitorId) {
-        // Find attributes for this competitor
-        const competitorAttr = analysis.competitor_attributes.find(
-          (ca) => ca.competitor === competitorSentiment.competitor
-        );
-
-        attributes.push({
-          brand_type: 'competitor',
-          competitor_id: competitorId,
-          entity_name: competitorSentiment.competitor,
-          sentiment: competitorSentiment.sentiment,
-          sentiment_rating: competitorSentiment.sentiment_rating,
-          sentiment_ratio: competitorSentiment.sentiment_ratio,
-          positive_attributes: competitorAttr?.positive || [],
-          negative_attributes: competitorAttr?.negative || [],
-          analyzed_text: responseText,
-          metadata: {},
-        });
-      }
-    }
+  const toSave = include ? attributes.filter((a) => include(a.brand_type, a.competitor_id)) : attributes;
+
+  return toSave.map((attr) => ({
+    ai_response_id: aiResponseId,
+    project_id: projectId,
+    brand_type: attr.brand_type,
+    competitor_id: attr.competitor_id || null,
+    entity_name: attr.entity_name,
+    sentiment: attr.sentiment,
+    sentiment_rating: attr.sentiment_rating,
+    sentiment_ratio: attr.sentiment_ratio,
+    positive_attributes: attr.positive_attributes,
+    negative_attributes: attr.negative_attributes,
+    analyzed_text: attr.analyzed_text,
+    metadata: attr.metadata || {},
+  }));
+}
+
+/**
+ * Save brand sentiment and attributes to the brand_sentiment_attributes table
+ * With `include`, only the matching entities' rows are saved.
+ */
+export async function saveSentimentAttributes(
+  supabase: SupabaseClient,
+  aiResponseId: string,
+  projectId: string,
+  responseText: string,
+  brandName: string,
+  analysis: BrandAnalysisResult,
+  competitorMap: Map<string, string>, // Map competitor name -> competitor_id
+  include?: EntityFilter
+): Promise<number> {
+  try {
+    const records = buildSentimentAttributeRecords(
+      aiResponseId,
+      projectId,
+      responseText,
+      brandName,
+      analysis,
+      competitorMap,
+      include
+    );
 
-    if (attributes.length === 0) {
+    if (records.length === 0) {
       logInfo('brand-storage', 'No sentiment attributes to save');
       return 0;
     }
 
-    // Prepare records for insertion
-    const records = attributes.map((attr) => ({
-      ai_response_id: aiResponseId,
-      project_id: projectId,
-      brand_type: attr.brand_type,
-      competitor_id: attr.competitor_id || null,
-      entity_name: attr.entity_name,
-      sentiment: attr.sentiment,
-      sentiment_rating: attr.sentiment_rating,
-      sentiment_ratio: attr.sentiment_ratio,
-      positive_attributes: attr.positive_attributes,
-      negative_attributes: attr.negative_attributes,
-      analyzed_text: attr.analyzed_text,
-      metadata: attr.metadata || {},
-    }));
-
     const { data, error } = await supabase
       .from('brand_sentiment_attributes')
       .insert(records)
@@ -181,7 +347,7 @@ export async function saveSentimentAttributes(
 
     logInfo('brand-storage', `Saved ${data?.length || 0} sentiment attributes`, {
       aiResponseId,
-      attributesCount: attributes.length,
+      attributesCount: records.length,
     });
 
     return data?.length || 0;
@@ -193,6 +359,9 @@ export async function saveSentimentAttributes(
 
 /**
  * Save or update potential competitors in the potential_competitors table
+ * Names are matched against each brand's name and merged variant names.
+ * Brands that were dismissed or promoted in the review queue are skipped.
+ * Returns how many were saved and the names detected for the first time.
  */
 export async function savePotentialCompetitors(
   supabase: SupabaseClient,
@@ -200,14 +369,33 @@ export async function savePotentialCompetitors(
   aiResponseId: string,
   responseText: string,
   otherBrands: string[]
-): Promise<number> {
+): Promise<{ saved: number; discovered: string[] }> {
   try {
     if (!otherBrands || otherBrands.length === 0) {
       logInfo('brand-storage', 'No potential competitors to save');
-      return 0;
+      return { saved: 0, discovered: [] };
     }
 
+    const { data: known, error: selectError } = await supabase
+      .from('potential_competitors')
+      .select('id, brand_name, aliases, status, mention_count')
+      .eq('project_id', projectId);
+
+    if (selectError) {
+      logError('brand-storage', 'Error loading potential competitors', selectError);
+      return { saved: 0, discovered: [] };
+    }
+
+    const findKnown = (name: string) => {
+      const normalized = normalizeEntityName(name);
+      return (known || []).find((pc) =>
+        [pc.brand_name, ...(pc.aliases || [])].some((candidate) => normalizeEntityName(candidate) === normalized)
+      );
+    };
+
     let savedCount = 0;
+    const discovered: string[] = [];
+    const seen = new Set<string>(); // One detection per brand and response
 
     for (const brandName of otherBrands) {
       if (!brandName || brandName.trim().length === 0) {
@@ -215,22 +403,21 @@ export async function savePotentialCompetitors(
       }
 
       const trimmedBrandName = brandName.trim();
+      const existing = findKnown(trimmedBrandName);
 
-      // Check if this potential competitor already exists
-      const { data: existing, error: selectError } = await supabase
-        .from('potential_competitors')
-        .select('id, mention_count')
-        .eq('project_id', projectId)
-        .eq('brand_name', trimmedBrandName)
-        .single();
-
-      if (selectError && selectError.code !== 'PGRST116') {
-        // PGRST116 = no rows returned, which is fine
-        logError('brand-storage', 'Error checking existing potential competitor', selectError);
+      if (existing && existing.status !== 'pending') {
+        logInfo('brand-storage', 'Skipping reviewed potential competitor', {
+          brandName: trimmedBrandName,
+          status: existing.status,
+        });
         continue;
       }
 
+      let potentialCompetitorId: string;
+
       if (existing) {
+        if (seen.has(existing.id)) continue;
+
         // Update existing: increment mention count and update last_detected_at
         const { error: updateError } = await supabase
           .from('potential_competitors')
@@ -246,14 +433,15 @@ export async function savePotentialCompetitors(
           continue;
         }
 
-        savedCount++;
+        existing.mention_count = (existing.mention_count || 1) + 1;
+        potentialCompetitorId = existing.id;
         logInfo('brand-storage', 'Updated potential competitor', {
           brandName: trimmedBrandName,
-          mentionCount: (existing.mention_count || 1) + 1,
+          mentionCount: existing.mention_count,
         });
       } else {
         // Insert new potential competitor
-        const { error: insertError } = await supabase
+        const { data: inserted, error: insertError } = await supabase
           .from('potential_competitors')
           .insert({
             project_id: projectId,
@@ -264,18 +452,39 @@ export async function savePotentialCompetitors(
             first_detected_at: new Date().toISOString(),
             last_detected_at: new Date().toISOString(),
             metadata: {},
-          });
+          })
+          .select('id, brand_name, aliases, status, mention_count')
+          .single();
 
-        if (insertError) {
+        if (insertError || !inserted) {
           logError('brand-storage', 'Error inserting potential competitor', insertError);
           continue;
         }
 
-        savedCount++;
+        known?.push(inserted);
+        discovered.push(inserted.brand_name);
+        potentialCompetitorId = inserted.id;
         logInfo('brand-storage', 'Inserted new potential competitor', {
           brandName: trimmedBrandName,
         });
       }
+
+      seen.add(potentialCompetitorId);
+      savedCount++;
+
+      // Detections drive growth and domain inference in the review queue
+      const { error: detectionError } = await supabase
+        .from('potential_competitor_detections')
+        .insert({
+          potential_competitor_id: potentialCompetitorId,
+          project_id: projectId,
+          ai_response_id: aiResponseId,
+          detected_name: trimmedBrandName,
+        });
+
+      if (detectionError) {
+        logError('brand-storage', 'Error saving potential competitor detection', detectionError);
+      }
     }
 
     logInfo('brand-storage', `Saved/updated ${savedCount} potential competitors`, {
@@ -283,53 +492,111 @@ export async function savePotentialCompetitors(
       totalBrands: otherBrands.length,
     });
 
-    return savedCount;
+    return { saved: savedCount, discovered };
   } catch (error: any) {
     logError('brand-storage', 'Error saving potential competitors', error);
-    return 0;
+    return { saved: 0, discovered: [] };
   }
 }
 
 /**
- * Get competitor map (name -> id) for a project
+ * Get active competitors (id and name) for a project
  */
-export async function getCompetitorMap(
+export async function getActiveCompetitors(
   supabase: SupabaseClient,
   projectId: string
-): Promise<Map<string, string>> {
-  const competitorMap = new Map<string, string>();
-
+): Promise<ActiveCompetitor[]> {
   try {
     const { data: competitors, error } = await supabase
       .from('competitors')
-      .select('id, name')
+      .select('id, name, aliases')
       .eq('project_id', projectId)
       .eq('is_active', true);
 
     if (error) {
       logError('brand-storage', 'Failed to fetch competitors', error);
-      return competitorMap;
+      return [];
     }
 
-    if (competitors) {
-      for (const competitor of competitors) {
-        competitorMap.set(competitor.name.toLowerCase(), competitor.id);
-        competitorMap.set(competitor.name, competitor.id); // Also add exact match
-      }
-    }
-
-    logInfo('brand-storage', `Loaded ${competitorMap.size / 2} competitors for project`, {
+    logInfo('brand-storage', `Loaded ${competitors?.length || 0} competitors for project`, {
       projectId,
     });
+
+    return (competitors || []).map((c) => ({ ...c, aliases: c.aliases || [] }));
   } catch (error: any) {
-    logError('brand-storage', 'Error building competitor map', error);
+    logError('brand-storage', 'Error fetching competitors', error);
+    return [];
   }
+}
 
+/**
+ * Get competitor map (name -> id) for a project
+ */
+export async function getCompetitorMap(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<Map<string, string>> {
+  return buildCompetitorMap(await getActiveCompetitors(supabase, projectId));
+}
+
+function buildCompetitorMap(competitors: ActiveCompetitor[]): Map<string, string> {
+  const competitorMap = new Map<string, string>();
+  for (const competitor of competitors) {
+    competitorMap.set(competitor.name.toLowerCase(), competitor.id);
+    competitorMap.set(competitor.name, competitor.id); // Also add exact match
+  }
   return competitorMap;
 }
 
+/**
+ * Resolve competitor names (or aliases) and ranked entities in the LLM output
+ * to canonical brand and competitor names
+ */
+function resolveAnalysisEntities(
+  analysis: BrandAnalysisResult,
+  brandName: string,
+  brandAliases: string[],
+  competitors: ActiveCompetitor[]
+): BrandAnalysisResult {
+  const mentionedCompetitors = Array.from(
+    new Set(
+      analysis.mentioned_competitors
+        .map((name) => resolveCompetitor(name, competitors)?.name)
+        .filter((name): name is string => !!name)
+    )
+  );
+
+  const resolvedCompetitorSentiments = analysis.competitor_sentiments.flatMap((cs) => {
+    const competitor = resolveCompetitor(cs.competitor, competitors);
+    return competitor ? [{ ...cs, competitor: competitor.name }] : [];
+  });
+
+  const resolvedCompetitorAttributes = analysis.competitor_attributes.flatMap((ca) => {
+    const competitor = resolveCompetitor(ca.competitor, competitors);
+    return competitor ? [{ ...ca, competitor: competitor.name }] : [];
+  });
+
+  const resolvedRankings = analysis.entity_rankings.flatMap((ranking) => {
+    if (isBrandName(ranking.entity, brandName, brandAliases)) {
+      return [{ ...ranking, entity: brandName }];
+    }
+    const competitor = resolveCompetitor(ranking.entity, competitors);
+    return competitor ? [{ ...ranking, entity: competitor.name }] : [];
+  });
+
+  return {
+    ...analysis,
+    mentioned_competitors: mentionedCompetitors,
+    competitor_sentiments: resolvedCompetitorSentiments,
+    competitor_attributes: resolvedCompetitorAttributes,
+    entity_rankings: resolvedRankings,
+  };
+}
+
 /**
  * Save all brand analysis results to database
+ * Competitor names from the LLM are resolved to competitor ids through their
+ * canonical name or any alias
  */
 export async function saveBrandAnalysis(
   supabase: SupabaseClient,
@@ -337,66 +604,33 @@ export async function saveBrandAnalysis(
   projectId: string,
   brandName: string,
   responseText: string,
-  analysis: BrandAnalysisResult
+  analysis: BrandAnalysisResult,
+  brandAliases: string[] = []
 ): Promise<{
   mentionsSaved: number;
+  clientMentioned: boolean;
+  mentionedCompetitorIds: string[];
   sentimentSaved: number;
   potentialCompetitorsSaved: number;
+  newPotentialCompetitors: string[];
 }> {
   try {
-    // Get competitor map
-    const competitorMap = await getCompetitorMap(supabase, projectId);
-
-    // Normalize competitor names in analysis to match database (case-insensitive)
-    const normalizedMentions = analysis.mentioned_competitors.map((name) => {
-      // Try to find matching competitor ID by name (case-insensitive)
-      for (const [key, id] of competitorMap.entries()) {
-        if (key.toLowerCase() === name.toLowerCase()) {
-          return { name: key, id };
-        }
-      }
-      return { name, id: null };
-    });
+    // Get competitors and the name -> id map used by sentiment storage
+    const competitors = await getActiveCompetitors(supabase, projectId);
+    const competitorMap = buildCompetitorMap(competitors);
 
-    // Update competitor map with normalized names from analysis
-    for (const { name, id } of normalizedMentions) {
-      if (id) {
-        competitorMap.set(name.toLowerCase(), id);
-        competitorMap.set(name, id);
-      }
-    }
-
-    // Also normalize competitor sentiments and attributes
-    const normalizedCompetitorSentiments = analysis.competitor_sentiments.map((cs) => {
-      for (const [key, id] of competitorMap.entries()) {
-        if (key.toLowerCase() === cs.competitor.toLowerCase()) {
-          return { ...cs, competitor: key, competitorId: id };
-        }
-      }
-      return { ...cs, competitorId: null };
-    });
-
-    const normalizedCompetitorAttributes = analysis.competitor_attributes.map((ca) => {
-      for (const [key, id] of competitorMap.entries()) {
-        if (key.toLowerCase() === ca.competitor.toLowerCase()) {
-          return { ...ca, competitor: key, competitorId: id };
-        }
-      }
-      return { ...ca, competitorId: null };
-    });
+    const resolved = resolveAnalysisEntities(analysis, brandName, brandAliases, competitors);
 
     // Save brand mentions
-    const mentionsSaved = await saveBrandMentions(
+    const mentions = await saveBrandMentions(
       supabase,
       aiResponseId,
       projectId,
       responseText,
       brandName,
-      {
-        ...analysis,
-        mentioned_competitors: normalizedMentions.filter((m) => m.id).map((m) => m.name),
-      },
-      competitorMap
+      resolved,
+      competitors,
+      brandAliases
     );
 
     // Save sentiment attributes
@@ -406,39 +640,96 @@ export async function saveBrandAnalysis(
       projectId,
       responseText,
       brandName,
-      {
-        ...analysis,
-        competitor_sentiments: normalizedCompetitorSentiments
-          .filter((cs) => cs.competitorId)
-          .map(({ competitorId, ...rest }) => rest),
-        competitor_attributes: normalizedCompetitorAttributes
-          .filter((ca) => ca.competitorId)
-          .map(({ competitorId, ...rest }) => rest),
-      },
+      resolved,
       competitorMap
     );
 
-    // Save potential competitors
-    const potentialCompetitorsSaved = await savePotentialCompetitors(
+    // Save potential competitors (brands that are really the client or a known competitor under an alias are skipped)
+    const potentialCompetitors = await savePotentialCompetitors(
       supabase,
       projectId,
       aiResponseId,
       responseText,
-      analysis.other_brands_detected
+      analysis.other_brands_detected.filter(
+        (name) => !resolveCompetitor(name, competitors) && !isBrandName(name, brandName, brandAliases)
+      )
     );
 
     return {
-      mentionsSaved,
+      mentionsSaved: mentions.saved,
+      clientMentioned: mentions.clientMentioned,
+      mentionedCompetitorIds: mentions.competitorIds,
       sentimentSaved,
-      potentialCompetitorsSaved,
+      potentialCompetitorsSaved: potentialCompetitors.saved,
+      newPotentialCompetitors: potentialCompetitors.discovered,
     };
   } catch (error: any) {
     logError('brand-storage', 'Error saving brand analysis', error);
     return {
       mentionsSaved: 0,
+      clientMentioned: false,
+      mentionedCompetitorIds: [],
       sentimentSaved: 0,
       potentialCompetitorsSaved: 0,
+      newPotentialCompetitors: [],
     };
   }
 }
 
+/**
+ * Replace the analysis of the selected entities on one response (historical re-analysis)
+ * Their brand_mentions and brand_sentiment_attributes rows are deleted and saved
+ * again from the new analysis in one transaction (replace_brand_analysis), so a
+ * failure keeps the previous rows and re-running is idempotent. Other
+ * entities' rows and potential competitors are left untouched. Throws on failure.
+ */
+export async function replaceBrandAnalysis(
+  supabase: SupabaseClient,
+  aiResponseId: string,
+  projectId: string,
+  brandName: string,
+  responseText: string,
+  analysis: BrandAnalysisResult,
+  brandAliases: string[],
+  competitors: ActiveCompetitor[],
+  selection: EntitySelection
+): Promise<{ mentionsSaved: number; sentimentSaved: number }> {
+  const resolved = resolveAnalysisEntities(analysis, brandName, brandAliases, competitors);
+  const include = selectionFilter(selection);
+
+  const mentions = buildBrandMentionRecords(
+    aiResponseId,
+    projectId,
+    responseText,
+    brandName,
+    resolved,
+    competitors,
+    brandAliases,
+    include
+  );
+
+  const attributes = buildSentimentAttributeRecords(
+    aiResponseId,
+    projectId,
+    responseText,
+    brandName,
+    resolved,
+    buildCompetitorMap(competitors),
+    include
+  );
+
+  const { data, error } = await supabase.rpc('replace_brand_analysis', {
+    p_ai_response_id: aiResponseId,
+    p_include_brand: selection.includeBrand,
+    p_competitor_ids: selection.competitorIds,
+    p_mentions: mentions.records,
+    p_attributes: attributes,
+  });
+
+  if (error) {
+    throw new Error(`Failed to replace brand analysis: ${error.message}`);
+  }
+
+  const saved = data as { mentions_saved: number; sentiment_saved: number } | null;
+  return { mentionsSaved: saved?.mentions_saved ?? 0, sentimentSaved: saved?.sentiment_saved ?? 0 };
+}
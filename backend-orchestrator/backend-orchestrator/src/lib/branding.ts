@@ -0,0 +1,108 @@
+// =============================================
+// BRANDING
+// =============================================
+// White-label branding of a workspace (workspace_branding), applied to
+// scheduled report PDFs and outbound emails. Metric ids match REPORT_METRICS
+// in the dashboard (src/lib/constants/branding.ts); keep them in sync.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { requestPublicUrl } from './outbound-urls';
+import { logError } from './utils';
+
+export type PdfColor = [number, number, number]; // 0-255 RGB
+export type ReportMetric = 'visibility' | 'share_of_voice' | 'sentiment' | 'attributes' | 'new_competitors';
+
+export interface WorkspaceBranding {
+  logo_url: string | null;
+  primary_color: string | null;
+  secondary_color: string | null;
+  cover_title: string | null;
+  cover_subtitle: string | null;
+  footer_text: string | null;
+  sender_name: string | null;
+  hidden_platforms: string[];
+  hidden_metrics: ReportMetric[];
+}
+
+export const DEFAULT_BRANDING: WorkspaceBranding = {
+  logo_url: null,
+  primary_color: null,
+  secondary_color: null,
+  cover_title: null,
+  cover_subtitle: null,
+  footer_text: null,
+  sender_name: null,
+  hidden_platforms: [],
+  hidden_metrics: [],
+};
+
+const LOGO_TIMEOUT_MS = 10000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+
+/**
+ * Branding of the workspace a project belongs to (defaults when unbranded)
+ */
+export async function getProjectBranding(supabase: SupabaseClient, projectId: string): Promise<WorkspaceBranding> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('workspace_id')
+    .eq('id', projectId)
+    .single();
+
+  if (projectError) {
+    throw new Error(`Failed to fetch project: ${projectError.message}`);
+  }
+
+  const { data, error } = await supabase
+    .from('workspace_branding')
+    .select('logo_url, primary_color, secondary_color, cover_title, cover_subtitle, footer_text, sender_name, hidden_platforms, hidden_metrics')
+    .eq('workspace_id', project.workspace_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch workspace branding: ${error.message}`);
+  }
+
+  return (data as WorkspaceBranding | null) || DEFAULT_BRANDING;
+}
+
+/**
+ * "#rrggbb" as a PDF color, or the fallback when unset
+ */
+export function parseHexColor(value: string | null, fallback: PdfColor): PdfColor {
+  const match = value?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return fallback;
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
+
+/**
+ * Download a logo for embedding in PDFs
+ * Logo URLs are workspace-configured, so they must be public (see outbound-urls.ts).
+ * Returns null (and logs) when it can't be fetched or isn't a PNG or JPEG,
+ * so a broken logo never blocks a report
+ */
+export async function fetchBrandingLogo(url: string | null): Promise<Buffer | null> {
+  if (!url) return null;
+
+  try {
+    const response = await requestPublicUrl(url, { timeoutMs: LOGO_TIMEOUT_MS, maxResponseBytes: MAX_LOGO_BYTES });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Logo returned ${response.status}`);
+    }
+
+    const bytes = response.body;
+
+    const isImage = [PNG_SIGNATURE, JPEG_SIGNATURE].some((signature) =>
+      signature.every((byte, index) => bytes[index] === byte)
+    );
+    if (!isImage) {
+      throw new Error('Logo is not a PNG or a JPEG');
+    }
+    return bytes;
+  } catch (error) {
+    logError('branding', `Failed to load logo ${url}`, error);
+    return null;
+  }
+}
@@ -0,0 +1,201 @@
+// =============================================
+// AI SPEND & BUDGETS
+// =============================================
+// Every AI call is added to ai_spend_ledger (per project, platform, source and day).
+// Monthly budgets in ai_budgets (workspace-wide or per project) are checked by the
+// schedulers: past the warning threshold they only log, past the limit they skip
+// the project or run a degraded analysis.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIProvider } from './types';
+import { logInfo, logError } from './utils';
+import { getProvider } from './provider-registry';
+
+export type SpendSource = 'tracking' | 'brand_analysis' | 'sentiment' | 'other';
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export type BudgetAction = 'none' | 'degrade' | 'skip';
+
+export interface BudgetStatus {
+  state: BudgetState;
+  action: BudgetAction;
+  spent: number; // USD month-to-date for the budget that triggered the state
+  limit: number | null; // null = no budget configured
+  scope: 'workspace' | 'project' | null;
+}
+
+interface BudgetRow {
+  project_id: string | null;
+  monthly_limit: number;
+  warning_threshold: number;
+  on_exceed: 'degrade' | 'skip';
+}
+
+const NO_BUDGET: BudgetStatus = { state: 'ok', action: 'none', spent: 0, limit: null, scope: null };
+
+// =============================================
+// LEDGER
+// =============================================
+
+/**
+ * Add one AI call to today's ledger row
+ * idempotencyKey (Inngest run id + step + call) makes a retried step count its
+ * calls once; calls without a key are always added
+ * Never throws - spend tracking must not fail the analysis itself
+ */
+export async function recordSpend(
+  supabase: SupabaseClient,
+  entry: {
+    projectId: string;
+    platform: string;
+    source: SpendSource;
+    tokens: number;
+    cost: number;
+    idempotencyKey?: string;
+  }
+): Promise<void> {
+  const { error } = await supabase.rpc('record_ai_spend', {
+    p_project_id: entry.projectId,
+    p_platform: entry.platform,
+    p_source: entry.source,
+    p_tokens: entry.tokens || 0,
+    p_cost: entry.cost || 0,
+    p_idempotency_key: entry.idempotencyKey ?? null,
+  });
+
+  if (error) {
+    logError('budgets', `Failed to record ${entry.source} spend for ${entry.platform}`, {
+      projectId: entry.projectId,
+      error: error.message,
+    });
+  }
+}
+
+// =============================================
+// BUDGET CHECK
+// =============================================
+
+function startOfMonth(now: Date): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+async function sumSpend(
+  supabase: SupabaseClient,
+  column: 'workspace_id' | 'project_id',
+  id: string,
+  fromDate: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('ai_spend_ledger')
+    .select('cost')
+    .eq(column, id)
+    .gte('spend_date', fromDate);
+
+  if (error) {
+    throw new Error(`Failed to fetch AI spend: ${error.message}`);
+  }
+
+  return (data || []).reduce((sum, row) => sum + Number(row.cost || 0), 0);
+}
+
+function evaluateBudget(budget: BudgetRow, spent: number, scope: 'workspace' | 'project'): BudgetStatus {
+  const limit = Number(budget.monthly_limit);
+  if (spent >= limit) {
+    return { state: 'exceeded', action: budget.on_exceed, spent, limit, scope };
+  }
+  if (spent >= limit * Number(budget.warning_threshold)) {
+    return { state: 'warning', action: 'none', spent, limit, scope };
+  }
+  return { state: 'ok', action: 'none', spent, limit, scope };
+}
+
+const SEVERITY: Record<BudgetAction, number> = { none: 0, degrade: 1, skip: 2 };
+const STATE_SEVERITY: Record<BudgetState, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+/**
+ * Month-to-date budget status for a project
+ * Checks both the project budget and its workspace budget; the stricter one wins.
+ * Errors resolve to "no budget" so a broken ledger never stops analysis.
+ */
+export async function getBudgetStatus(
+  supabase: SupabaseClient,
+  projectId: string,
+  now: Date = new Date()
+): Promise<BudgetStatus> {
+  try {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('workspace_id')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project?.workspace_id) {
+      return NO_BUDGET;
+    }
+
+    const { data: budgets, error } = await supabase
+      .from('ai_budgets')
+      .select('project_id, monthly_limit, warning_threshold, on_exceed')
+      .eq('workspace_id', project.workspace_id)
+      .or(`project_id.is.null,project_id.eq.${projectId}`);
+
+    if (error) {
+      throw new Error(`Failed to fetch AI budgets: ${error.message}`);
+    }
+    if (!budgets || budgets.length === 0) {
+      return NO_BUDGET;
+    }
+
+    const fromDate = startOfMonth(now);
+    const statuses: BudgetStatus[] = [];
+
+    for (const budget of budgets as BudgetRow[]) {
+      if (budget.project_id) {
+        const spent = await sumSpend(supabase, 'project_id', projectId, fromDate);
+        statuses.push(evaluateBudget(budget, spent, 'project'));
+      } else {
+        const spent = await sumSpend(supabase, 'workspace_id', project.workspace_id, fromDate);
+        statuses.push(evaluateBudget(budget, spent, 'workspace'));
+      }
+    }
+
+    return statuses.reduce((worst, status) => {
+      if (SEVERITY[status.action] !== SEVERITY[worst.action]) {
+        return SEVERITY[status.action] > SEVERITY[worst.action] ? status : worst;
+      }
+      return STATE_SEVERITY[status.state] > STATE_SEVERITY[worst.state] ? status : worst;
+    });
+  } catch (error) {
+    logError('budgets', `Budget check failed for project ${projectId}, continuing without budget`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NO_BUDGET;
+  }
+}
+
+/**
+ * Log a budget warning or hard stop (no-op when the project is within budget)
+ */
+export function logBudgetStatus(functionName: string, projectId: string, status: BudgetStatus): void {
+  if (status.state === 'ok') return;
+
+  const spent = `$${status.spent.toFixed(2)} of $${(status.limit ?? 0).toFixed(2)}`;
+  if (status.state === 'warning') {
+    logInfo(functionName, `Project ${projectId} is approaching its ${status.scope} AI budget (${spent})`);
+  } else {
+    logError(functionName, `Project ${projectId} exceeded its ${status.scope} AI budget (${spent}), action: ${status.action}`);
+  }
+}
+
+/**
+ * Degraded runs keep only the cheapest platform (provider registry costPer1K)
+ */
+export function getCheapestPlatform(platforms: AIProvider[]): AIProvider | null {
+  if (platforms.length === 0) return null;
+  return platforms.reduce((cheapest, platform) =>
+    (getProvider(platform)?.costPer1K ?? Infinity) < (getProvider(cheapest)?.costPer1K ?? Infinity)
+      ? platform
+      : cheapest
+  );
+}
@@ -2,7 +2,7 @@
 // CITATION EXTRACTION FROM AI API RESPONSES
 // =============================================
 
-import type { CitationData } from './types';
+import type { CitationData, ClaudeCitationResponse, PerplexityCitationResponse } from './types';
 import { logInfo, logError } from './utils';
 
 // =============================================
@@ -475,3 +475,211 @@ export function extractOpenAICitations(openaiResponse: any, responseText: string
   }
 }
 
+
+// =============================================
+// PERPLEXITY CITATION EXTRACTION
+// =============================================
+
+/**
+ * Extract structured citations from Perplexity API response
+ * Perplexity returns the sources as `citations` (URLs) and `search_results`
+ * ({ title, url, date }) and references them in the text with [n] markers.
+ * One row is created per marker, covering the sentence the marker closes.
+ * Sources never referenced in the text are kept as rows without indices.
+ *
+ * @param perplexityResponse - Raw response from Perplexity API
+ * @param responseText - The text content of the response
+ * @returns Array of CitationData objects
+ */
+export function extractPerplexityCitations(perplexityResponse: PerplexityCitationResponse, responseText: string): CitationData[] {
+  const citations: CitationData[] = [];
+
+  try {
+    const searchResults = perplexityResponse.search_results || [];
+    const citationUrls = perplexityResponse.citations || [];
+
+    // search_results is the richer format; fall back to plain citation URLs
+    const sources = searchResults.length > 0
+      ? searchResults
+      : citationUrls.map(url => ({ url, title: undefined, date: undefined }));
+
+    if (sources.length === 0) {
+      logInfo('citation-extraction', 'No citations or search_results found in Perplexity response');
+      return citations;
+    }
+
+    const referenced = new Set<number>();
+    const markerRegex = /\[(\d+)\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = markerRegex.exec(responseText)) !== null) {
+      const sourceIndex = parseInt(match[1], 10) - 1; // Markers are 1-based
+      const source = sources[sourceIndex];
+      if (!source?.url) continue;
+
+      // Segment: from the previous sentence boundary up to the marker
+      const endIndex = match.index;
+      const before = responseText.substring(0, endIndex);
+      const boundary = Math.max(
+        before.lastIndexOf('. '),
+        before.lastIndexOf('\n'),
+        before.lastIndexOf('! '),
+        before.lastIndexOf('? ')
+      );
+      let startIndex = boundary === -1 ? 0 : boundary + 1;
+      // Skip adjacent markers ("...text[1][2]") and whitespace
+      const segment = responseText.substring(startIndex, endIndex);
+      const leading = segment.match(/^(\s|\[\d+\])*/)?.[0].length || 0;
+      startIndex += leading;
+
+      referenced.add(sourceIndex);
+      citations.push({
+        url: source.url,
+        domain: extractDomainFromTitleOrUrl(source.title, source.url) || undefined,
+        start_index: startIndex,
+        end_index: endIndex,
+        text: responseText.substring(startIndex, endIndex).replace(/(\[\d+\])+$/, '').trim() || undefined,
+        metadata: {
+          title: source.title || undefined,
+          date: source.date || undefined,
+          source_index: sourceIndex,
+          platform: 'perplexity',
+        },
+      });
+    }
+
+    sources.forEach((source, sourceIndex) => {
+      if (referenced.has(sourceIndex) || !source.url) return;
+      citations.push({
+        url: source.url,
+        domain: extractDomainFromTitleOrUrl(source.title, source.url) || undefined,
+        metadata: {
+          title: source.title || undefined,
+          date: source.date || undefined,
+          source_index: sourceIndex,
+          platform: 'perplexity',
+          referenced_in_text: false,
+        },
+      });
+    });
+
+    logInfo('citation-extraction', `Extracted ${citations.length} citations from Perplexity response`, {
+      sources: sources.length,
+      referencedSources: referenced.size,
+    });
+    return citations;
+
+  } catch (error) {
+    logError('citation-extraction', 'Failed to extract Perplexity citations', error);
+    return citations;
+  }
+}
+
+// =============================================
+// CLAUDE CITATION EXTRACTION
+// =============================================
+
+/**
+ * Join the text blocks of a Claude Messages API response
+ * Citations are attached per text block, so blocks are concatenated as-is to
+ * keep the offsets computed in extractClaudeCitations valid.
+ */
+export function getClaudeResponseText(claudeResponse: ClaudeCitationResponse): string {
+  const blocks = claudeResponse.content || [];
+  return blocks
+    .map(block => (block.type === 'text' ? block.text || '' : ''))
+    .join('');
+}
+
+/**
+ * Extract structured citations from Claude API response (web_search tool)
+ * Text blocks carry `citations` of type web_search_result_location; each one
+ * becomes a row spanning its text block. Search results that were retrieved
+ * but never cited are kept as rows without indices.
+ *
+ * @param claudeResponse - Raw response from Claude Messages API
+ * @returns Array of CitationData objects
+ */
+export function extractClaudeCitations(claudeResponse: ClaudeCitationResponse): CitationData[] {
+  const citations: CitationData[] = [];
+
+  try {
+    const blocks = claudeResponse.content || [];
+
+    // Web search queries issued by the model (server_tool_use blocks)
+    const webSearchQueries: string[] = [];
+    for (const block of blocks) {
+      if (block.type === 'server_tool_use' && block.name === 'web_search' && block.input?.query) {
+        webSearchQueries.push(block.input.query);
+      }
+    }
+
+    // Retrieved results, used for titles/page age and uncited sources
+    const searchResults = new Map<string, { title?: string; page_age?: string }>();
+    for (const block of blocks) {
+      if (block.type !== 'web_search_tool_result' || !Array.isArray(block.content)) continue;
+      for (const result of block.content) {
+        if (result.type === 'web_search_result' && result.url) {
+          searchResults.set(result.url, { title: result.title, page_age: result.page_age });
+        }
+      }
+    }
+
+    const cited = new Set<string>();
+    let offset = 0;
+
+    for (const block of blocks) {
+      if (block.type !== 'text') continue;
+      const text: string = block.text || '';
+      const startIndex = offset;
+      const endIndex = offset + text.length;
+      offset = endIndex;
+
+      for (const citation of block.citations || []) {
+        if (citation.type !== 'web_search_result_location' || !citation.url) continue;
+
+        cited.add(citation.url);
+        citations.push({
+          url: citation.url,
+          domain: extractDomainFromTitleOrUrl(citation.title, citation.url) || undefined,
+          start_index: startIndex,
+          end_index: endIndex,
+          text: text.trim() || undefined,
+          web_search_query: webSearchQueries[0] || undefined,
+          metadata: {
+            title: citation.title || searchResults.get(citation.url)?.title || undefined,
+            cited_text: citation.cited_text || undefined,
+            page_age: searchResults.get(citation.url)?.page_age || undefined,
+            platform: 'claude',
+          },
+        });
+      }
+    }
+
+    searchResults.forEach((result, url) => {
+      if (cited.has(url)) return;
+      citations.push({
+        url,
+        domain: extractDomainFromTitleOrUrl(result.title, url) || undefined,
+        web_search_query: webSearchQueries[0] || undefined,
+        metadata: {
+          title: result.title || undefined,
+          page_age: result.page_age || undefined,
+          platform: 'claude',
+          referenced_in_text: false,
+        },
+      });
+    });
+
+    logInfo('citation-extraction', `Extracted ${citations.length} citations from Claude response`, {
+      searchResults: searchResults.size,
+      citedSources: cited.size,
+      webSearchQueries: webSearchQueries.length,
+    });
+    return citations;
+
+  } catch (error) {
+    logError('citation-extraction', 'Failed to extract Claude citations', error);
+    return citations;
+  }
+}
@@ -5,6 +5,14 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { CitationData } from './types';
 import { logInfo, logError } from './utils';
+import {
+  getKnownCategories,
+  resolveSourceCategory,
+  classifyDomainByRules,
+  cacheDomainCategories,
+  type SourceCategory,
+} from './source-classification';
+import { canonicalizeCitations } from './url-canonicalization';
 
 // =============================================
 // TYPES
@@ -27,6 +35,7 @@ interface DeduplicatedCitation {
   web_search_query: string | null;
   uri: string;
   url: string;
+  canonical_url: string | null;
   domain: string | null;
   text_fragments: string[];
   start_indices: number[];
@@ -106,7 +115,8 @@ function normalizeUri(urlOrUri: string | null | undefined): string | null {
 // =============================================
 
 /**
- * Deduplicate citations by URI, combining text fragments from duplicates
+ * Deduplicate citations by canonical URL (or normalized URI when the URL couldn't
+ * be canonicalized), combining text fragments from duplicates
  * @param citations - Array of citation data
  * @returns Array of deduplicated citations with combined text
  */
@@ -114,7 +124,7 @@ function deduplicateCitations(citations: CitationData[]): DeduplicatedCitation[]
   const uriMap = new Map<string, DeduplicatedCitation>();
   
   for (const citation of citations) {
-    const normalizedUri = normalizeUri(citation.url || citation.uri);
+    const normalizedUri = citation.canonical_url || normalizeUri(citation.url || citation.uri);
     if (!normalizedUri) continue;
     
     if (uriMap.has(normalizedUri)) {
@@ -142,6 +152,7 @@ function deduplicateCitations(citations: CitationData[]): DeduplicatedCitation[]
         web_search_query: citation.web_search_query || null,
         uri: citation.uri || citation.url || '',
         url: citation.url || citation.uri || '',
+        canonical_url: citation.canonical_url || null,
         domain: citation.domain || null,
         text_fragments: citation.text ? [citation.text] : [],
         start_indices: citation.start_index != null ? [citation.start_index] : [],
@@ -295,10 +306,13 @@ export async function saveCitations(
       return 0;
     }
 
-    // Deduplicate citations by URI (combines text fragments from same source)
-    const deduplicatedCitations = deduplicateCitations(validCitations);
+    // Resolve redirects and canonicalize URLs (tracking params, host, trailing slash)
+    const canonicalCitations = await canonicalizeCitations(validCitations);
+
+    // Deduplicate citations by canonical URL (combines text fragments from same page)
+    const deduplicatedCitations = deduplicateCitations(canonicalCitations);
     
-    logInfo('citation-storage', `Deduplicated: ${validCitations.length} -> ${deduplicatedCitations.length} unique URIs`);
+    logInfo('citation-storage', `Deduplicated: ${validCitations.length} -> ${deduplicatedCitations.length} unique pages`);
 
     // Get classification context (brand domain and competitors)
     const { brandDomain, competitors } = await getClassificationContext(supabase, projectId);
@@ -308,6 +322,14 @@ export async function saveCitations(
       competitorsCount: competitors.length
     });
 
+    // Source type context: project overrides and the global domain category cache
+    const citationDomains = Array.from(new Set(
+      deduplicatedCitations
+        .map(citation => normalizeDomain(citation.domain || citation.url || citation.uri))
+        .filter((domain): domain is string => !!domain)
+    ));
+    const knownCategories = await getKnownCategories(supabase, projectId, citationDomains);
+
     // Prepare records for insertion with classification
     const records = deduplicatedCitations.map(citation => {
       // Classify the citation based on domain
@@ -317,6 +339,10 @@ export async function saveCitations(
         competitors
       );
       
+      // Source type; unknown domains stay NULL for classify-citation-sources
+      const sourceDomain = normalizeDomain(citation.domain || citation.url || citation.uri);
+      const sourceCategory = resolveSourceCategory(sourceDomain, classification.type, knownCategories);
+
       // Combine text fragments with separator
       const combinedText = citation.text_fragments.length > 0
         ? citation.text_fragments.join(' [...] ')
@@ -328,6 +354,7 @@ export async function saveCitations(
         web_search_query: citation.web_search_query || null,
         uri: citation.uri || null,
         url: citation.url || null,
+        canonical_url: citation.canonical_url,
         domain: citation.domain || null,
         // Use first indices
         start_index: citation.start_indices[0] ?? null,
@@ -346,14 +373,26 @@ export async function saveCitations(
         // Classification fields
         citation_type: classification.type,
         competitor_id: classification.competitorId,
+        source_category: sourceCategory,
       };
     });
 
+    // Cache domains first recognized by the built-in rules
+    const ruleCategories = new Map<string, SourceCategory>();
+    for (const domain of citationDomains) {
+      const category = classifyDomainByRules(domain);
+      if (category && !knownCategories.cached.has(domain)) {
+        ruleCategories.set(domain, category);
+      }
+    }
+    await cacheDomainCategories(supabase, ruleCategories, 'rule');
+
     // Log classification summary
     const classificationSummary = {
       brand: records.filter(r => r.citation_type === 'brand').length,
       competitor: records.filter(r => r.citation_type === 'competitor').length,
       other: records.filter(r => r.citation_type === 'other').length,
+      unclassifiedSources: records.filter(r => r.source_category === null).length,
     };
     
     logInfo('citation-storage', `Prepared ${records.length} records for insertion`, {
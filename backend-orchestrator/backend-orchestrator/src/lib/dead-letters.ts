@@ -0,0 +1,150 @@
+// =============================================
+// DEAD-LETTER QUEUE
+// =============================================
+// Runs that exhausted their retries are stored in dead_letters with the event
+// needed to re-drive them. One active row per dedupe key: repeated failures of
+// the same prompt/platform (or AI response) update it, and a later successful
+// run resolves it.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logInfo, logError } from './utils';
+
+export type DeadLetterErrorClass =
+  | 'rate_limit'
+  | 'timeout'
+  | 'auth'
+  | 'provider_error'
+  | 'invalid_response'
+  | 'database'
+  | 'unknown';
+
+export interface DeadLetterEntry {
+  projectId: string;
+  functionId: string;
+  eventName: string;
+  eventData: Record<string, unknown>;
+  stepName: string;
+  error: unknown;
+  provider?: string;
+  attempts: number;
+  dedupeKey: string;
+  promptTrackingId?: string;
+  aiResponseId?: string;
+}
+
+const ACTIVE_STATUSES = ['open', 'queued', 'replayed'];
+
+export function getPromptDedupeKey(promptTrackingId: string, platform: string): string {
+  return `prompt:${promptTrackingId}:${platform}`;
+}
+
+// Whole prompt runs that failed outside a single platform's sample
+export function getPromptRunDedupeKey(promptTrackingId: string): string {
+  return `prompt:${promptTrackingId}`;
+}
+
+export function getBrandAnalysisDedupeKey(aiResponseId: string): string {
+  return `brand:${aiResponseId}`;
+}
+
+/**
+ * Group errors by cause for the Failed Runs page
+ */
+export function classifyError(error: unknown): DeadLetterErrorClass {
+  const err = (error || {}) as { message?: string; name?: string; statusCode?: number; isRateLimit?: boolean };
+  const message = (err.message || String(error)).toLowerCase();
+  const status = err.statusCode;
+
+  if (err.isRateLimit || status === 429 || message.includes('rate limit') || message.includes('quota')) {
+    return 'rate_limit';
+  }
+  if (err.name === 'AbortError' || message.includes('timeout') || message.includes('timed out')) {
+    return 'timeout';
+  }
+  if (status === 401 || status === 403 || message.includes('api key') || message.includes('unauthorized')) {
+    return 'auth';
+  }
+  if ((status && status >= 500) || message.includes('api error') || message.includes('overloaded')) {
+    return 'provider_error';
+  }
+  if (message.includes('parse') || message.includes('json') || message.includes('empty response')) {
+    return 'invalid_response';
+  }
+  if (message.includes('failed to update') || message.includes('failed to create') || message.includes('failed to save')) {
+    return 'database';
+  }
+  return 'unknown';
+}
+
+/**
+ * Store (or update) the dead letter for a failing unit
+ * Never throws - dead-lettering must not mask the original failure
+ */
+export async function recordDeadLetter(supabase: SupabaseClient, entry: DeadLetterEntry): Promise<void> {
+  const errorMessage = (entry.error instanceof Error ? entry.error.message : String(entry.error)).slice(0, 1000);
+  const values = {
+    function_id: entry.functionId,
+    event_name: entry.eventName,
+    event_data: entry.eventData,
+    step_name: entry.stepName,
+    error_class: classifyError(entry.error),
+    error_message: errorMessage,
+    provider: entry.provider || null,
+    last_failed_at: new Date().toISOString(),
+  };
+
+  try {
+    const { data: existing } = await supabase
+      .from('dead_letters')
+      .select('id, attempt_count, failure_count')
+      .eq('dedupe_key', entry.dedupeKey)
+      .in('status', ACTIVE_STATUSES)
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase
+          .from('dead_letters')
+          .update({
+            ...values,
+            status: 'open',
+            attempt_count: existing.attempt_count + entry.attempts,
+            failure_count: existing.failure_count + 1,
+          })
+          .eq('id', existing.id)
+      : await supabase.from('dead_letters').insert({
+          ...values,
+          project_id: entry.projectId,
+          dedupe_key: entry.dedupeKey,
+          attempt_count: entry.attempts,
+          prompt_tracking_id: entry.promptTrackingId || null,
+          ai_response_id: entry.aiResponseId || null,
+        });
+
+    if (error) throw new Error(error.message);
+
+    logInfo('dead-letters', `Dead-lettered ${entry.functionId}/${entry.stepName} (${values.error_class})`, {
+      dedupeKey: entry.dedupeKey,
+      provider: entry.provider,
+      attempts: entry.attempts,
+    });
+  } catch (error) {
+    logError('dead-letters', `Failed to record dead letter ${entry.dedupeKey}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Mark the active dead letter for a unit as resolved after a successful run
+ */
+export async function resolveDeadLetters(supabase: SupabaseClient, dedupeKey: string): Promise<void> {
+  const { error } = await supabase
+    .from('dead_letters')
+    .update({ status: 'resolved', resolved_at: new Date().toISOString() })
+    .eq('dedupe_key', dedupeKey)
+    .in('status', ACTIVE_STATUSES);
+
+  if (error) {
+    logError('dead-letters', `Failed to resolve dead letters for ${dedupeKey}`, { error: error.message });
+  }
+}
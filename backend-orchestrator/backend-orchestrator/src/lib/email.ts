@@ -0,0 +1,164 @@
+// =============================================
+// EMAIL
+// =============================================
+// Outbound email through a pluggable transport:
+//   - resend: Resend HTTP API (RESEND_API_KEY)
+//   - smtp: any SMTP server (SMTP_HOST), e.g. a local Mailpit catcher in development
+// EMAIL_TRANSPORT picks one; without it SMTP is used when SMTP_HOST is set and
+// Resend when RESEND_API_KEY is. Sending is optional: without a transport or
+// EMAIL_FROM, emails are skipped and logged. In AI_MODE=mock Resend is skipped
+// too so offline runs never reach real inboxes; point SMTP at a catcher instead.
+
+import nodemailer from 'nodemailer';
+import { isMockMode } from './ai-fixtures';
+import { logInfo } from './utils';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+const SEND_TIMEOUT_MS = 10000;
+const SMTP_TIMEOUT_MS = 15000;
+const LOCAL_SMTP_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+export interface EmailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+  fromName?: string; // Display name in front of EMAIL_FROM's address (workspace branding)
+}
+
+export type EmailResult = 'sent' | 'skipped';
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage, from: string): Promise<void>;
+}
+
+// =============================================
+// TRANSPORTS
+// =============================================
+
+const resendTransport: EmailTransport = {
+  name: 'resend',
+  async send(message, from) {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: Buffer.from(attachment.content).toString('base64'),
+          content_type: attachment.contentType,
+        })),
+      }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email provider returned ${response.status}: ${await response.text()}`);
+    }
+  },
+};
+
+/**
+ * Credentials only go over TLS: implicit (SMTP_SECURE) or STARTTLS, which
+ * becomes mandatory when authenticating. Local catchers and an explicit
+ * SMTP_ALLOW_INSECURE_AUTH=true are the exceptions.
+ */
+const smtpTransport: EmailTransport = {
+  name: 'smtp',
+  async send(message, from) {
+    const host = process.env.SMTP_HOST || 'localhost';
+    const user = process.env.SMTP_USER;
+    const secure = process.env.SMTP_SECURE === 'true';
+    const allowInsecureAuth = LOCAL_SMTP_HOSTS.includes(host) || process.env.SMTP_ALLOW_INSECURE_AUTH === 'true';
+
+    const transporter = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 1025,
+      secure,
+      requireTLS: Boolean(user) && !secure && !allowInsecureAuth,
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD || '' } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+
+    try {
+      await transporter.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: Buffer.from(attachment.content),
+          contentType: attachment.contentType,
+        })),
+      });
+    } finally {
+      transporter.close();
+    }
+  },
+};
+
+/**
+ * Transport for the current environment, or null when email isn't configured
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (!process.env.EMAIL_FROM) return null;
+
+  const transport =
+    process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : process.env.RESEND_API_KEY ? 'resend' : null);
+
+  if (transport === 'smtp') return smtpTransport;
+  if (transport === 'resend' && process.env.RESEND_API_KEY && !isMockMode()) return resendTransport;
+  return null;
+}
+
+export function isEmailConfigured(): boolean {
+  return getEmailTransport() !== null;
+}
+
+/**
+ * EMAIL_FROM with its display name replaced by fromName when given
+ */
+function buildFromAddress(from: string, fromName?: string): string {
+  const name = fromName?.replace(/[<>"\r\n]/g, '').trim();
+  if (!name) return from;
+
+  const match = from.match(/<([^>]+)>/);
+  return `"${name}" <${(match ? match[1] : from).trim()}>`;
+}
+
+/**
+ * Send an email, or skip it when email isn't configured
+ * Throws when the transport rejects the message
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailResult> {
+  if (message.to.length === 0) return 'skipped';
+
+  const transport = getEmailTransport();
+  if (!transport) {
+    logInfo('email', `Email not configured, skipping "${message.subject}"`, { to: message.to });
+    return 'skipped';
+  }
+
+  await transport.send(message, buildFromAddress(process.env.EMAIL_FROM as string, message.fromName));
+  return 'sent';
+}
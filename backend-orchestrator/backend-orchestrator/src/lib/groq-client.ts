@@ -3,7 +3,7 @@
 // =============================================
 
 import { logError, logInfo } from './utils';
-import { waitForRateLimit } from './rate-limiter';
+import { withFixture } from './ai-fixtures';
 
 export interface GroqConfig {
   apiKey: string;
@@ -32,14 +32,7 @@ export async function callGroq(
   const model = config.model || 'openai/gpt-oss-20b';
 
   try {
-    // Apply rate limiting BEFORE making the API call
-    const waitTime = await waitForRateLimit('groq');
-    if (waitTime > 0) {
-      logInfo('groq-client', `Waited ${Math.round(waitTime / 1000)}s for Groq rate limit`, {
-        model,
-        waitTime
-      });
-    }
+    // Rate limiting happens in the caller (withRateLimit), like every other provider
 
     // Cap prompt length to avoid excessive token usage
     const MAX_PROMPT_CHARS = 8000;
@@ -49,58 +42,60 @@ export async function callGroq(
         : prompt;
 
     // Groq uses OpenAI-compatible Chat Completions API
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: cappedPrompt,
-          },
-        ],
-        temperature: config.temperature ?? 0.2, // Very low temperature for consistent JSON
-        max_tokens: config.maxTokens ?? 2500, // More tokens for complex responses
-        response_format: { type: 'json_object' }, // Force JSON response for structured output
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorData;
-      try {
-        errorData = JSON.parse(errorText);
-      } catch {
-        errorData = { error: { message: errorText } };
-      }
+    const data = await withFixture('groq', model, cappedPrompt, async () => {
+      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: cappedPrompt,
+            },
+          ],
+          temperature: config.temperature ?? 0.2, // Very low temperature for consistent JSON
+          max_tokens: config.maxTokens ?? 2500, // More tokens for complex responses
+          response_format: { type: 'json_object' }, // Force JSON response for structured output
+        }),
+      });
 
-      // Handle rate limiting (429)
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        const retryDelaySeconds = retryAfter ? parseInt(retryAfter) : 60;
-
-        logError('Groq', `Rate limit exceeded (429). Retry after ${retryDelaySeconds}s`, {
-          retryAfter,
-          retryDelaySeconds,
-        });
-
-        const rateLimitError: any = new Error(
-          `Groq rate limit exceeded. Retry after ${retryDelaySeconds}s`
-        );
-        rateLimitError.statusCode = 429;
-        rateLimitError.retryAfter = retryDelaySeconds * 1000;
-        rateLimitError.isRateLimit = true;
-        throw rateLimitError;
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorData;
+        try {
+          errorData = JSON.parse(errorText);
+        } catch {
+          errorData = { error: { message: errorText } };
+        }
+
+        // Handle rate limiting (429)
+        if (response.status === 429) {
+          const retryAfter = response.headers.get('Retry-After');
+          const retryDelaySeconds = retryAfter ? parseInt(retryAfter) : 60;
+
+          logError('Groq', `Rate limit exceeded (429). Retry after ${retryDelaySeconds}s`, {
+            retryAfter,
+            retryDelaySeconds,
+          });
+
+          const rateLimitError: any = new Error(
+            `Groq rate limit exceeded. Retry after ${retryDelaySeconds}s`
+          );
+          rateLimitError.statusCode = 429;
+          rateLimitError.retryAfter = retryDelaySeconds * 1000;
+          rateLimitError.isRateLimit = true;
+          throw rateLimitError;
+        }
+
+        throw new Error(`Groq API error: ${errorText}`);
       }
 
-      throw new Error(`Groq API error: ${errorText}`);
-    }
-
-    const data = await response.json();
+      return response.json();
+    });
     const executionTime = Date.now() - startTime;
 
     // Extract response text
@@ -0,0 +1,171 @@
+// =============================================
+// MENTION LOCATOR
+// =============================================
+// Finds every occurrence of the client brand and its competitors in a response
+// with exact character offsets. Matching ignores case and accents, treats
+// spaces and hyphens inside a name as interchangeable, stops at word
+// boundaries (so possessives like "Nike's" still match "Nike") and widens a
+// match to the surrounding **bold** or [link](url) markdown so the dashboard
+// can highlight it.
+
+export interface MentionEntity {
+  brand_type: 'client' | 'competitor';
+  entity_name: string;
+  competitor_id?: string;
+  aliases?: string[]; // Extra names matched as the same entity
+}
+
+export interface LocatedMention {
+  brand_type: 'client' | 'competitor';
+  entity_name: string;
+  competitor_id?: string;
+  start_index: number; // Offset in the original response text (inclusive)
+  end_index: number; // Offset in the original response text (exclusive)
+  matched_text: string; // Text that matched, including widened markdown
+  context: string; // Surrounding text for the mention
+}
+
+const CONTEXT_CHARS = 150;
+
+/**
+ * Lowercase, strip accents and unify apostrophes, keeping a map from each
+ * normalized character back to its offset in the original text
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const folded = text[i]
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[\u2018\u2019\u02bc]/g, "'")
+      .toLowerCase();
+
+    for (const char of folded) {
+      normalized += char;
+      offsets.push(i);
+    }
+  }
+
+  return { normalized, offsets };
+}
+
+function normalizeName(name: string): string {
+  return normalizeWithOffsets(name.trim()).normalized;
+}
+
+/**
+ * Comparable form of an entity name or alias ("Coca-Cola", "coca cola" and
+ * "Cóca Cola" all give "coca cola")
+ */
+export function normalizeEntityName(name: string): string {
+  return normalizeName(name).split(/[\s-]+/).filter(Boolean).join(' ');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex for a normalized name: whitespace and hyphens are interchangeable,
+ * and the match must not be part of a longer word
+ */
+function buildNamePattern(normalizedName: string): RegExp {
+  const body = normalizedName
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(escapeRegExp)
+    .join('[\\s-]+');
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+/**
+ * Widen a match to the bold or link markdown wrapping exactly this name
+ */
+function widenToMarkdown(text: string, start: number, end: number): { start: number; end: number } {
+  // **Brand**
+  if (text.slice(start - 2, start) === '**' && text.slice(end, end + 2) === '**') {
+    return { start: start - 2, end: end + 2 };
+  }
+
+  // [Brand](https://...)
+  if (text[start - 1] === '[' && text.slice(end, end + 2) === '](') {
+    const close = text.indexOf(')', end + 2);
+    if (close !== -1 && !text.slice(end + 2, close).includes('\n')) {
+      return { start: start - 1, end: close + 1 };
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * Text around a mention, cut at word boundaries
+ */
+function buildContext(text: string, start: number, end: number): string {
+  let from = Math.max(0, start - CONTEXT_CHARS);
+  let to = Math.min(text.length, end + CONTEXT_CHARS);
+
+  if (from > 0) {
+    const space = text.indexOf(' ', from);
+    if (space !== -1 && space < start) from = space + 1;
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(' ', to);
+    if (space > end) to = space;
+  }
+
+  return `${from > 0 ? '…' : ''}${text.slice(from, to).trim()}${to < text.length ? '…' : ''}`;
+}
+
+/**
+ * Locate every mention of the given entities in the response text
+ * Overlapping matches keep the longest name (e.g. "Apple Music" over "Apple")
+ */
+export function locateMentions(responseText: string, entities: MentionEntity[]): LocatedMention[] {
+  if (!responseText) return [];
+
+  const { normalized, offsets } = normalizeWithOffsets(responseText);
+  const candidates: LocatedMention[] = [];
+
+  for (const entity of entities) {
+    const names = Array.from(
+      new Set([entity.entity_name, ...(entity.aliases || [])].map(normalizeName).filter((n) => n.length > 0))
+    );
+
+    for (const name of names) {
+      const pattern = buildNamePattern(name);
+      for (const match of normalized.matchAll(pattern)) {
+        const normStart = match.index!;
+        const normEnd = normStart + match[0].length;
+        const rawStart = offsets[normStart];
+        const rawEnd = offsets[normEnd - 1] + 1;
+        const { start, end } = widenToMarkdown(responseText, rawStart, rawEnd);
+
+        candidates.push({
+          brand_type: entity.brand_type,
+          entity_name: entity.entity_name,
+          competitor_id: entity.competitor_id,
+          start_index: start,
+          end_index: end,
+          matched_text: responseText.slice(start, end),
+          context: buildContext(responseText, start, end),
+        });
+      }
+    }
+  }
+
+  // Longest match wins where names overlap, then keep text order
+  candidates.sort((a, b) => (b.end_index - b.start_index) - (a.end_index - a.start_index));
+  const kept: LocatedMention[] = [];
+  for (const candidate of candidates) {
+    const overlaps = kept.some(
+      (m) => candidate.start_index < m.end_index && m.start_index < candidate.end_index
+    );
+    if (!overlaps) kept.push(candidate);
+  }
+
+  return kept.sort((a, b) => a.start_index - b.start_index);
+}
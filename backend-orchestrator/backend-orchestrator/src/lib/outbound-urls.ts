@@ -0,0 +1,183 @@
+// =============================================
+// OUTBOUND URLS
+// =============================================
+// URLs configured by workspaces (webhook endpoints, branding logos) are
+// requested from inside our network, so they may only reach the public
+// internet: https, a host that isn't internal by name, and only public
+// addresses when resolved. Requests go
+// through requestPublicUrl, which connects to the address that was checked (a
+// second DNS lookup could rebind the host to an internal one) and doesn't
+// follow redirects, so a public URL can't bounce to an internal one.
+// Keep in sync with the dashboard's check (src/lib/outbound-urls.ts).
+
+import { lookup } from 'dns/promises';
+import { request } from 'https';
+import { isIP, type LookupFunction } from 'net';
+
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * Error for URLs that point at our own network; retrying won't help
+ */
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.').map(Number);
+  return parts.length === 4 && parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)
+    ? parts
+    : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata (169.254.169.254)
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on
+ * the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+  // IPv4-mapped (::ffff:10.0.0.1) addresses reach the IPv4 host
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  return (
+    ipv6 === '::' ||
+    ipv6 === '::1' ||
+    ipv6.startsWith('::ffff:') || // mapped, hex form
+    /^f[cd]/.test(ipv6) || // unique local (fc00::/7), includes AWS metadata fd00:ec2::254
+    /^fe[89ab]/.test(ipv6) || // link-local (fe80::/10)
+    ipv6.startsWith('ff') // multicast
+  );
+}
+
+/**
+ * Check that a URL is https and only resolves to public addresses
+ * Throws UnsafeUrlError otherwise; returns the URL and the addresses checked.
+ */
+async function resolvePublicUrl(rawUrl: string): Promise<{ url: URL; addresses: string[] }> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UnsafeUrlError('Invalid URL');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new UnsafeUrlError('URL must use https');
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || INTERNAL_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    throw new UnsafeUrlError(`${host} is an internal host`);
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new UnsafeUrlError(`Could not resolve ${host}`);
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(`${host} resolves to a private or reserved address`);
+  }
+
+  return { url, addresses };
+}
+
+/**
+ * Check that a URL is https and only resolves to public addresses
+ * Throws UnsafeUrlError otherwise.
+ */
+export async function assertPublicUrl(rawUrl: string): Promise<URL> {
+  return (await resolvePublicUrl(rawUrl)).url;
+}
+
+export interface PublicUrlRequest {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  maxResponseBytes?: number; // Larger responses fail the request
+}
+
+export interface PublicUrlResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: Buffer;
+}
+
+/**
+ * Send a request to a public https URL (see assertPublicUrl)
+ * The connection is pinned to the checked address and redirects are returned
+ * as-is (3xx status), never followed.
+ */
+export async function requestPublicUrl(rawUrl: string, options: PublicUrlRequest): Promise<PublicUrlResponse> {
+  const { url, addresses } = await resolvePublicUrl(rawUrl);
+  const address = addresses[0];
+  const family = isIP(address);
+
+  // Resolve the host to the checked address only (TLS still verifies the hostname)
+  const pinnedLookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+
+  return new Promise<PublicUrlResponse>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: options.method || 'GET',
+        headers: options.headers,
+        lookup: pinnedLookup,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (options.maxResponseBytes !== undefined && size > options.maxResponseBytes) {
+            req.destroy(new Error(`Response is larger than ${options.maxResponseBytes} bytes`));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks) }));
+        res.on('error', reject);
+      }
+    );
+
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
@@ -0,0 +1,117 @@
+// =============================================
+// AI PROVIDER REGISTRY
+// =============================================
+// Every engine (OpenAI, Gemini, Claude, Perplexity, Groq, ...) registers a
+// single definition here. Rate limits, cost, capabilities and the call itself
+// are read from the registry, so adding an engine only means registering it.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIProvider, AICompletionResult, AIClientConfig } from './types';
+import { isMockMode } from './ai-fixtures';
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface ProviderCapabilities {
+  webSearch: boolean; // Provider can browse the web while answering
+  webSearchOptional: boolean; // Web search can be turned off per project (projects.use_web_search)
+  grounding: boolean; // Returns structured citations (citationsData) for the answer
+  regionHints: boolean; // Accepts config.region natively (besides prompt enrichment)
+}
+
+// Dashboard colors, written to src/lib/constants/platforms.generated.ts by scripts/generate-platforms.ts
+export interface ProviderDisplay {
+  color: string; // Hex color for charts
+  rgb: string; // Same color as "r, g, b" for rgba() intensity scales
+  bgColor: string; // Tailwind background class
+  textColor: string; // Tailwind text class
+}
+
+export interface ProviderDefinition {
+  id: AIProvider;
+  name: string;
+  defaultModel: string;
+  envKey: string; // Environment variable holding the API key
+  costPer1K: number; // Estimated USD per 1K tokens
+  rateLimit: { rpm: number; tpm?: number };
+  capabilities: ProviderCapabilities;
+  tracking: boolean; // Used to answer tracked prompts (false = analysis-only engine)
+  enabledByDefault: boolean; // Enabled for projects without project_platforms rows
+  display?: ProviderDisplay; // Required for tracking engines, shown in the dashboard
+  call: (prompt: string, config: AIClientConfig) => Promise<AICompletionResult>;
+}
+
+export interface ProjectPlatformSetting {
+  platform: AIProvider;
+  model: string | null;
+}
+
+// =============================================
+// REGISTRY
+// =============================================
+
+const registry = new Map<AIProvider, ProviderDefinition>();
+
+export function registerProvider(definition: ProviderDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function getProvider(id: AIProvider): ProviderDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listProviders(options?: { tracking?: boolean }): ProviderDefinition[] {
+  const providers = Array.from(registry.values());
+  if (options?.tracking === undefined) return providers;
+  return providers.filter(p => p.tracking === options.tracking);
+}
+
+export function isRegisteredProvider(id: string): id is AIProvider {
+  return registry.has(id as AIProvider);
+}
+
+/**
+ * Read the API key for a provider from its configured environment variable
+ * In AI_MODE=mock every provider is available without a real key
+ */
+export function getProviderAPIKey(id: AIProvider): string | null {
+  const provider = registry.get(id);
+  if (!provider) return null;
+  if (isMockMode()) return process.env[provider.envKey] || 'mock';
+  return process.env[provider.envKey] || null;
+}
+
+// =============================================
+// PER-PROJECT PLATFORMS
+// =============================================
+
+/**
+ * Get the tracking platforms enabled for a project
+ * Reads project_platforms; projects without rows fall back to the providers
+ * registered with enabledByDefault. Platforms without an API key are dropped.
+ */
+export async function getProjectPlatforms(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<ProjectPlatformSetting[]> {
+  const { data, error } = await supabase
+    .from('project_platforms')
+    .select('platform, is_enabled, model')
+    .eq('project_id', projectId);
+
+  const rows: Array<{ platform: string; is_enabled: boolean; model: string | null }> =
+    error ? [] : data || [];
+  const configured = new Map(rows.map(row => [row.platform, row]));
+
+  return listProviders({ tracking: true })
+    .filter(provider => {
+      const row = configured.get(provider.id);
+      return row ? row.is_enabled : provider.enabledByDefault;
+    })
+    .filter(provider => getProviderAPIKey(provider.id) !== null)
+    .map(provider => ({
+      platform: provider.id,
+      model: configured.get(provider.id)?.model || null,
+    }));
+}
@@ -1,116 +1,235 @@
 // =============================================
 // RATE LIMITER FOR AI PLATFORMS
 // =============================================
+// Token buckets per provider/model covering requests per minute (RPM) and
+// tokens per minute (TPM). Buckets live in Postgres (rate_limit_buckets) so
+// every orchestrator replica and Inngest worker shares them; an in-memory
+// bucket with the same semantics is used locally and as a fallback.
+//
+// Every AI call goes through withRateLimit(): it reserves an estimate of the
+// tokens up front and reconciles it with the call's actual tokens_used.
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { AIProvider } from './types';
-import { logInfo, logError } from './utils';
-
-// Rate limits per platform (requests per minute)
-// Based on official API documentation
-export const RATE_LIMITS: Record<AIProvider, { rpm: number; tpm?: number }> = {
-  openai: { 
-    rpm: 5000, // OpenA
-    tpm: 450000 // Token limit varies by model
-  },
-  gemini: { 
-    rpm: 3800, // Gemini 2.5 Flash-Lite: 4,000 RPM limit (using 3,800 for safety margin)
-    tpm: 3500000 // 4M TPM limit (using 3.5M for safety margin)
-  },
-  claude: { 
-    rpm: 50, // Claude Tier 1: 50 RPM
-    tpm: 30000
-  },
-  perplexity: { 
-    rpm: 50, // Perplexity Tier 0: 50 RPM for most models
-    tpm: undefined
-  },
-  groq: {
-    rpm: 950, // Conservador: 950 RPM (límite paid tier 1K, margen de seguridad ~5%)
-    tpm: 240000 // Conservador: 240K TPM (límite paid tier 250K, margen de seguridad)
-  },
-};
-
-// Track request timestamps per platform (in-memory)
-// Note: This works per instance. For distributed systems, use Redis/DB
-const requestTimestamps: Record<AIProvider, number[]> = {
-  openai: [],
-  gemini: [],
-  claude: [],
-  perplexity: [],
-  groq: [],
-};
-
-// Clean up old timestamps (older than 1 minute)
-function cleanupOldTimestamps(platform: AIProvider) {
-  const now = Date.now();
-  const oneMinuteAgo = now - 60000;
-  
-  requestTimestamps[platform] = requestTimestamps[platform].filter(
-    timestamp => timestamp > oneMinuteAgo
-  );
+import { createSupabaseClient, logInfo, logError } from './utils';
+import { getProvider } from './provider-registry';
+import { isMockMode } from './ai-fixtures';
+
+export type RateLimiterBackend = 'postgres' | 'memory';
+
+export interface RateLimitReservation {
+  provider: AIProvider;
+  model: string;
+  tokens: number; // Reserved TPM tokens (0 when the provider has no TPM limit)
+  waitedMs: number;
+  backend: RateLimiterBackend;
+}
+
+// Rate limits per platform (requests and tokens per minute) come from the provider registry
+// Based on official API documentation; see ai-clients.ts for each provider's limits
+export function getRateLimit(platform: AIProvider): { rpm: number; tpm?: number } {
+  return getProvider(platform)?.rateLimit ?? { rpm: 60 };
 }
 
 /**
- * Wait if necessary to respect rate limits
- * Returns the delay in milliseconds that was applied (if any)
+ * RATE_LIMITER_BACKEND=postgres|memory
+ * Defaults to postgres, except in AI_MODE=mock where no provider is called
  */
-export async function waitForRateLimit(platform: AIProvider): Promise<number> {
-  cleanupOldTimestamps(platform);
-  
-  const limits = RATE_LIMITS[platform];
-  const currentRequests = requestTimestamps[platform].length;
-  
-  // Note: Minimum delay logic for Gemini was removed as it's no longer needed
-  // with the correct model configuration (gemini-2.0-flash-exp handles rate limits well)
-  
-  // If we're under the limit, add this request and proceed
-  if (currentRequests < limits.rpm) {
-    requestTimestamps[platform].push(Date.now());
-    return 0;
+export function getRateLimiterBackend(): RateLimiterBackend {
+  const configured = process.env.RATE_LIMITER_BACKEND?.toLowerCase();
+  if (configured === 'memory' || configured === 'postgres') return configured;
+  return isMockMode() ? 'memory' : 'postgres';
+}
+
+/**
+ * Rough token estimate for a reservation: prompt (~4 chars per token) plus the completion budget
+ */
+export function estimateTokens(prompt: string, maxTokens?: number): number {
+  return Math.ceil(prompt.length / 4) + (maxTokens ?? 1000);
+}
+
+// =============================================
+// IN-MEMORY BUCKETS (local stand-in)
+// =============================================
+
+interface MemoryBucket {
+  requests: number;
+  tokens: number | null;
+  refilledAt: number;
+}
+
+// Same semantics as acquire_rate_limit() in Postgres, but per process
+const memoryBuckets = new Map<string, MemoryBucket>();
+
+function acquireMemory(key: string, rpm: number, tpm: number | undefined, tokens: number): number {
+  const now = Date.now();
+  const bucket = memoryBuckets.get(key) || { requests: rpm, tokens: tpm ?? null, refilledAt: now };
+
+  const elapsedSeconds = Math.max(0, (now - bucket.refilledAt) / 1000);
+  let requests = Math.min(rpm, bucket.requests + (elapsedSeconds * rpm) / 60);
+  let available = tpm ? Math.min(tpm, (bucket.tokens ?? tpm) + (elapsedSeconds * tpm) / 60) : null;
+  const needed = tpm ? Math.min(Math.max(tokens, 0), tpm) : 0;
+
+  let waitMs = 0;
+  if (requests < 1) {
+    waitMs = ((1 - requests) * 60000) / rpm;
   }
-  
-  // We're at the limit, calculate how long to wait
-  const oldestRequest = Math.min(...requestTimestamps[platform]);
-  const timeSinceOldest = Date.now() - oldestRequest;
-  const waitTime = Math.max(0, 60000 - timeSinceOldest + 1000); // Add 1 second buffer
-  
-  if (waitTime > 0) {
-    logInfo('rate-limiter', `Rate limit reached for ${platform}. Waiting ${Math.round(waitTime / 1000)}s`, {
-      platform,
-      currentRequests,
-      limit: limits.rpm,
-      waitTimeMs: waitTime,
-      oldestRequestAge: Math.round(timeSinceOldest / 1000)
-    });
-    
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    
-    // Clean up and add this request after waiting
-    cleanupOldTimestamps(platform);
-    requestTimestamps[platform].push(Date.now());
-    
-    return waitTime;
+  if (tpm && available !== null && available < needed) {
+    waitMs = Math.max(waitMs, ((needed - available) * 60000) / tpm);
   }
-  
-  // Shouldn't reach here, but just in case
-  requestTimestamps[platform].push(Date.now());
-  return 0;
+
+  if (waitMs === 0) {
+    requests -= 1;
+    if (available !== null) available -= needed;
+  }
+
+  memoryBuckets.set(key, { requests, tokens: available, refilledAt: now });
+  return Math.ceil(waitMs);
 }
 
+function reconcileMemory(key: string, tpm: number | undefined, reserved: number, actual: number): void {
+  const bucket = memoryBuckets.get(key);
+  if (!bucket || !tpm || bucket.tokens === null) return;
+  bucket.tokens = Math.min(tpm, bucket.tokens + (reserved - actual));
+}
+
+// =============================================
+// POSTGRES BUCKETS (shared across replicas)
+// =============================================
+
+let sharedClient: SupabaseClient | null = null;
+
+function getSharedClient(): SupabaseClient {
+  if (!sharedClient) {
+    sharedClient = createSupabaseClient();
+  }
+  return sharedClient;
+}
+
+async function acquirePostgres(
+  provider: AIProvider,
+  model: string,
+  rpm: number,
+  tpm: number | undefined,
+  tokens: number
+): Promise<number> {
+  const { data, error } = await getSharedClient().rpc('acquire_rate_limit', {
+    p_provider: provider,
+    p_model: model,
+    p_rpm: rpm,
+    p_tpm: tpm ?? null,
+    p_tokens: tokens,
+  });
+
+  if (error) {
+    throw new Error(`acquire_rate_limit failed: ${error.message}`);
+  }
+  return Number(data) || 0;
+}
+
+// =============================================
+// PUBLIC API
+// =============================================
+
 /**
- * Get current request count for a platform in the last minute
+ * Wait until the provider/model bucket has one request and `estimatedTokens` available, then take them
+ * Falls back to the in-memory bucket when Postgres is unavailable
  */
-export function getCurrentRequestCount(platform: AIProvider): number {
-  cleanupOldTimestamps(platform);
-  return requestTimestamps[platform].length;
+export async function acquireRateLimit(
+  provider: AIProvider,
+  model: string,
+  estimatedTokens: number
+): Promise<RateLimitReservation> {
+  const { rpm, tpm } = getRateLimit(provider);
+  const key = `${provider}:${model}`;
+  const tokens = tpm ? Math.min(estimatedTokens, tpm) : 0;
+  let backend = getRateLimiterBackend();
+  let waitedMs = 0;
+
+  for (;;) {
+    let waitMs: number;
+    if (backend === 'postgres') {
+      try {
+        waitMs = await acquirePostgres(provider, model, rpm, tpm, tokens);
+      } catch (error) {
+        logError('rate-limiter', `Shared rate limiter unavailable for ${key}, using in-memory bucket`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        backend = 'memory';
+        continue;
+      }
+    } else {
+      waitMs = acquireMemory(key, rpm, tpm, tokens);
+    }
+
+    if (waitMs === 0) {
+      return { provider, model, tokens, waitedMs, backend };
+    }
+
+    // Jitter so replicas waiting on the same bucket don't retry in lockstep
+    const delay = waitMs + Math.floor(Math.random() * 250);
+    logInfo('rate-limiter', `Rate limit reached for ${key}. Waiting ${Math.round(delay / 1000)}s`, {
+      provider,
+      model,
+      backend,
+      rpm,
+      tpm,
+      reservedTokens: tokens,
+      waitTimeMs: delay,
+    });
+    await new Promise(resolve => setTimeout(resolve, delay));
+    waitedMs += delay;
+  }
 }
 
 /**
- * Get remaining requests available for a platform in the current window
+ * Replace a reservation's estimate with the tokens the call actually used
+ * Never throws - a failed reconciliation only leaves the estimate in place
  */
-export function getRemainingRequests(platform: AIProvider): number {
-  const limits = RATE_LIMITS[platform];
-  const current = getCurrentRequestCount(platform);
-  return Math.max(0, limits.rpm - current);
+export async function reconcileRateLimit(
+  reservation: RateLimitReservation,
+  actualTokens: number
+): Promise<void> {
+  const { tpm } = getRateLimit(reservation.provider);
+  if (!tpm || reservation.tokens === actualTokens) return;
+
+  const actual = Math.max(0, actualTokens || 0);
+  if (reservation.backend === 'memory') {
+    reconcileMemory(`${reservation.provider}:${reservation.model}`, tpm, reservation.tokens, actual);
+    return;
+  }
+
+  const { error } = await getSharedClient().rpc('reconcile_rate_limit', {
+    p_provider: reservation.provider,
+    p_model: reservation.model,
+    p_reserved: reservation.tokens,
+    p_actual: actual,
+  });
+
+  if (error) {
+    logError('rate-limiter', `Failed to reconcile tokens for ${reservation.provider}:${reservation.model}`, {
+      error: error.message,
+    });
+  }
 }
 
+/**
+ * Run an AI call inside the provider/model bucket
+ * Failed calls keep their reservation (a 429 means the bucket was already short)
+ */
+export async function withRateLimit<T extends { tokens_used: number }>(
+  provider: AIProvider,
+  model: string | undefined,
+  estimatedTokens: number,
+  call: () => Promise<T>
+): Promise<T> {
+  const reservation = await acquireRateLimit(
+    provider,
+    model || getProvider(provider)?.defaultModel || 'default',
+    estimatedTokens
+  );
+
+  const result = await call();
+  await reconcileRateLimit(reservation, result.tokens_used);
+  return result;
+}
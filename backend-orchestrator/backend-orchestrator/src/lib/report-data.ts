@@ -0,0 +1,431 @@
+// =============================================
+// REPORT DATA
+// =============================================
+// Server-side build of the detailed report stored in reports.report_data.
+// Mirrors getDetailedReportData in the dashboard (src/lib/queries/detailed-report.ts)
+// so reports built by schedules render the same on the report page; keep the
+// two in sync.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ReportPeriod = 'yesterday' | 'last-week' | 'last-month' | 'last-3-months';
+
+export interface CompetitorMetric {
+  id: string;
+  name: string;
+  domain?: string;
+  value: number;
+  percentageChange: number;
+  previousValue: number;
+}
+
+export interface ReportSectionData {
+  topCompetitors: CompetitorMetric[];
+  brandValue: number;
+  brandPercentageChange: number;
+}
+
+export interface NewCompetitor {
+  id: string;
+  name: string;
+  domain: string;
+  mentions: number;
+  firstMentionDate: string;
+  platforms: string[];
+  created_at: string;
+}
+
+export interface DetailedReportData {
+  visibilityScore: ReportSectionData;
+  shareOfVoice: ReportSectionData;
+  sentiment: ReportSectionData;
+  newCompetitors: NewCompetitor[];
+}
+
+interface DateRange {
+  from: Date;
+  to: Date;
+  previousFrom: Date;
+  previousTo: Date;
+}
+
+const PERIOD_DAYS: Record<ReportPeriod, number> = {
+  'yesterday': 1,
+  'last-week': 7,
+  'last-month': 30,
+  'last-3-months': 90,
+};
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+}
+
+function daysAgo(now: Date, days: number): Date {
+  const result = new Date(now);
+  result.setDate(result.getDate() - days);
+  return result;
+}
+
+/**
+ * Current and previous window of a period (same boundaries as the dashboard)
+ */
+export function getReportDateRange(period: ReportPeriod, now: Date = new Date()): DateRange {
+  const days = PERIOD_DAYS[period];
+  return {
+    from: startOfDay(daysAgo(now, days)),
+    to: endOfDay(now),
+    previousFrom: startOfDay(daysAgo(now, days * 2)),
+    previousTo: endOfDay(daysAgo(now, days + 1)),
+  };
+}
+
+function percentageChange(current: number, previous: number, baseline: number = 0): number {
+  if (previous > 0) return ((current - previous) / previous) * 100;
+  return current > baseline ? 100 : 0;
+}
+
+// =============================================
+// SECTIONS
+// =============================================
+
+interface CompetitorCitationRow {
+  competitor_id: string;
+  competitors: { name: string; domain?: string };
+}
+
+interface SentimentRow {
+  sentiment_rating: number;
+  competitor_id?: string;
+  competitors?: { name: string; domain?: string };
+}
+
+/**
+ * Select rows that belong to an AI response (citations, sentiment), leaving out
+ * responses of hidden engines
+ */
+function selectResponseRows(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  hiddenPlatforms: string[],
+  options?: { count: 'exact'; head: boolean }
+) {
+  if (hiddenPlatforms.length === 0) {
+    return supabase.from(table).select(columns, options);
+  }
+
+  return supabase
+    .from(table)
+    .select(`${columns}, ai_responses!inner(platform)`, options)
+    .not('ai_responses.platform', 'in', `(${hiddenPlatforms.join(',')})`);
+}
+
+async function countBrandCitations(
+  supabase: SupabaseClient,
+  projectId: string,
+  from: Date,
+  to: Date,
+  hiddenPlatforms: string[]
+) {
+  const { count } = await selectResponseRows(supabase, 'citations', '*', hiddenPlatforms, { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString());
+  return count || 0;
+}
+
+async function fetchCompetitorCitations(
+  supabase: SupabaseClient,
+  projectId: string,
+  from: Date,
+  to: Date,
+  hiddenPlatforms: string[]
+): Promise<CompetitorCitationRow[]> {
+  const { data } = await selectResponseRows(
+    supabase,
+    'competitor_citations',
+    'competitor_id, competitors!inner(name, domain)',
+    hiddenPlatforms
+  )
+    .eq('project_id', projectId)
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString())
+    .limit(50000);
+  return (data || []) as unknown as CompetitorCitationRow[];
+}
+
+function countByCompetitor(rows: CompetitorCitationRow[]) {
+  const counts: Record<string, { count: number; name: string; domain?: string }> = {};
+  rows.forEach((row) => {
+    if (!counts[row.competitor_id]) {
+      counts[row.competitor_id] = { count: 0, name: row.competitors.name, domain: row.competitors.domain };
+    }
+    counts[row.competitor_id].count++;
+  });
+  return counts;
+}
+
+/**
+ * Visibility Score: total citations
+ */
+async function getVisibilityScore(
+  supabase: SupabaseClient,
+  projectId: string,
+  range: DateRange,
+  hiddenPlatforms: string[]
+): Promise<ReportSectionData> {
+  const [brandCurrent, brandPrevious, current, previous] = await Promise.all([
+    countBrandCitations(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    countBrandCitations(supabase, projectId, range.previousFrom, range.previousTo, hiddenPlatforms),
+    fetchCompetitorCitations(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    fetchCompetitorCitations(supabase, projectId, range.previousFrom, range.previousTo, hiddenPlatforms),
+  ]);
+
+  const previousCounts = countByCompetitor(previous);
+  const topCompetitors: CompetitorMetric[] = Object.entries(countByCompetitor(current))
+    .map(([id, data]) => {
+      const previousValue = previousCounts[id]?.count || 0;
+      return {
+        id,
+        name: data.name,
+        domain: data.domain,
+        value: data.count,
+        percentageChange: percentageChange(data.count, previousValue),
+        previousValue,
+      };
+    })
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 10);
+
+  return {
+    topCompetitors,
+    brandValue: brandCurrent,
+    brandPercentageChange: percentageChange(brandCurrent, brandPrevious),
+  };
+}
+
+/**
+ * Share of Voice: percentage of all citations
+ */
+async function getShareOfVoiceData(
+  supabase: SupabaseClient,
+  projectId: string,
+  range: DateRange,
+  hiddenPlatforms: string[]
+): Promise<ReportSectionData> {
+  const [brandCurrent, brandPrevious, current, previous] = await Promise.all([
+    countBrandCitations(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    countBrandCitations(supabase, projectId, range.previousFrom, range.previousTo, hiddenPlatforms),
+    fetchCompetitorCitations(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    fetchCompetitorCitations(supabase, projectId, range.previousFrom, range.previousTo, hiddenPlatforms),
+  ]);
+
+  const totalCurrent = brandCurrent + current.length;
+  const totalPrevious = brandPrevious + previous.length;
+  const brandValue = totalCurrent > 0 ? (brandCurrent / totalCurrent) * 100 : 0;
+  const brandPreviousValue = totalPrevious > 0 ? (brandPrevious / totalPrevious) * 100 : 0;
+
+  const previousCounts = countByCompetitor(previous);
+  const topCompetitors: CompetitorMetric[] = Object.entries(countByCompetitor(current))
+    .map(([id, data]) => {
+      const currentPercentage = totalCurrent > 0 ? (data.count / totalCurrent) * 100 : 0;
+      const previousPercentage = totalPrevious > 0 ? ((previousCounts[id]?.count || 0) / totalPrevious) * 100 : 0;
+      return {
+        id,
+        name: data.name,
+        domain: data.domain,
+        value: currentPercentage,
+        percentageChange: percentageChange(currentPercentage, previousPercentage),
+        previousValue: previousPercentage,
+      };
+    })
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 10);
+
+  return {
+    topCompetitors,
+    brandValue,
+    brandPercentageChange: percentageChange(brandValue, brandPreviousValue),
+  };
+}
+
+/**
+ * Sentiment: average brand_sentiment_attributes rating, -1..1 normalized to 0..1
+ */
+async function getSentimentData(
+  supabase: SupabaseClient,
+  projectId: string,
+  range: DateRange,
+  hiddenPlatforms: string[]
+): Promise<ReportSectionData> {
+  const fetchRatings = async (brandType: 'client' | 'competitor', from: Date, to: Date, withCompetitor: boolean) => {
+    let query = selectResponseRows(
+      supabase,
+      'brand_sentiment_attributes',
+      withCompetitor ? 'sentiment_rating, competitor_id, competitors!inner(name, domain)' : 'sentiment_rating, competitor_id',
+      hiddenPlatforms
+    )
+      .eq('project_id', projectId)
+      .eq('brand_type', brandType)
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .limit(10000);
+    if (brandType === 'competitor') {
+      query = query.not('competitor_id', 'is', null);
+    }
+    const { data } = await query;
+    return (data || []) as unknown as SentimentRow[];
+  };
+
+  const [brandCurrent, brandPrevious, competitorCurrent, competitorPrevious] = await Promise.all([
+    fetchRatings('client', range.from, range.to, false),
+    fetchRatings('client', range.previousFrom, range.previousTo, false),
+    fetchRatings('competitor', range.from, range.to, true),
+    fetchRatings('competitor', range.previousFrom, range.previousTo, false),
+  ]);
+
+  // Default to neutral (0.5) without ratings
+  const average = (rows: SentimentRow[]) =>
+    rows.length > 0 ? rows.reduce((sum, row) => sum + (row.sentiment_rating + 1) / 2, 0) / rows.length : 0.5;
+
+  const groupByCompetitor = (rows: SentimentRow[]) => {
+    const groups: Record<string, { rows: SentimentRow[]; name: string; domain?: string }> = {};
+    rows.forEach((row) => {
+      const id = row.competitor_id as string;
+      if (!groups[id]) {
+        groups[id] = { rows: [], name: row.competitors?.name || '', domain: row.competitors?.domain };
+      }
+      groups[id].rows.push(row);
+    });
+    return groups;
+  };
+
+  const brandCurrentAvg = average(brandCurrent);
+  const brandPreviousAvg = average(brandPrevious);
+  const previousGroups = groupByCompetitor(competitorPrevious);
+
+  const topCompetitors: CompetitorMetric[] = Object.entries(groupByCompetitor(competitorCurrent))
+    .map(([id, group]) => {
+      const currentAvg = average(group.rows);
+      const previousAvg = average(previousGroups[id]?.rows || []);
+      return {
+        id,
+        name: group.name,
+        domain: group.domain,
+        value: currentAvg * 100,
+        percentageChange: percentageChange(currentAvg, previousAvg, 0.5),
+        previousValue: previousAvg * 100,
+      };
+    })
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 10);
+
+  return {
+    topCompetitors,
+    brandValue: brandCurrentAvg * 100,
+    brandPercentageChange: percentageChange(brandCurrentAvg, brandPreviousAvg, 0.5),
+  };
+}
+
+/**
+ * Tracked competitors that appeared in AI responses during the period
+ */
+async function getNewCompetitors(
+  supabase: SupabaseClient,
+  projectId: string,
+  range: DateRange,
+  hiddenPlatforms: string[]
+): Promise<NewCompetitor[]> {
+  const { data: competitors, error: competitorsError } = await supabase
+    .from('competitors')
+    .select('id, name, domain, created_at')
+    .eq('project_id', projectId)
+    .eq('is_active', true);
+
+  if (competitorsError || !competitors || competitors.length === 0) {
+    return [];
+  }
+
+  let citationsQuery = supabase
+    .from('competitor_citations')
+    .select('competitor_id, created_at, ai_responses!inner(platform)')
+    .eq('project_id', projectId)
+    .gte('created_at', range.from.toISOString())
+    .lte('created_at', range.to.toISOString());
+  if (hiddenPlatforms.length > 0) {
+    citationsQuery = citationsQuery.not('ai_responses.platform', 'in', `(${hiddenPlatforms.join(',')})`);
+  }
+
+  const { data: citations, error: citationsError } = await citationsQuery.limit(50000);
+
+  if (citationsError || !citations) {
+    return [];
+  }
+
+  const stats = new Map<string, { mentions: number; firstMention: Date | null; platforms: Set<string> }>();
+  for (const competitor of competitors) {
+    stats.set(competitor.id, { mentions: 0, firstMention: null, platforms: new Set() });
+  }
+
+  for (const citation of citations as unknown as Array<{ competitor_id: string; created_at: string; ai_responses: { platform: string } | null }>) {
+    const stat = stats.get(citation.competitor_id);
+    if (!stat) continue;
+
+    stat.mentions++;
+    const mentionDate = new Date(citation.created_at);
+    if (!stat.firstMention || mentionDate < stat.firstMention) {
+      stat.firstMention = mentionDate;
+    }
+    if (citation.ai_responses?.platform) {
+      stat.platforms.add(citation.ai_responses.platform);
+    }
+  }
+
+  return competitors
+    .map((competitor) => ({ competitor, stat: stats.get(competitor.id)! }))
+    .filter(({ stat }) => stat.mentions > 0)
+    .map(({ competitor, stat }) => ({
+      id: competitor.id,
+      name: competitor.name,
+      domain: competitor.domain,
+      mentions: stat.mentions,
+      firstMentionDate: (stat.firstMention || new Date()).toISOString(),
+      platforms: Array.from(stat.platforms),
+      created_at: competitor.created_at,
+    }))
+    .sort((a, b) => {
+      if (b.mentions !== a.mentions) return b.mentions - a.mentions;
+      return new Date(b.firstMentionDate).getTime() - new Date(a.firstMentionDate).getTime();
+    });
+}
+
+/**
+ * Complete detailed report data for a project and period
+ * Responses of hiddenPlatforms (workspace branding) are left out
+ */
+export async function buildDetailedReportData(
+  supabase: SupabaseClient,
+  projectId: string,
+  period: ReportPeriod,
+  hiddenPlatforms: string[] = [],
+  now: Date = new Date()
+): Promise<DetailedReportData> {
+  const range = getReportDateRange(period, now);
+
+  const [visibilityScore, shareOfVoice, sentiment, newCompetitors] = await Promise.all([
+    getVisibilityScore(supabase, projectId, range, hiddenPlatforms),
+    getShareOfVoiceData(supabase, projectId, range, hiddenPlatforms),
+    getSentimentData(supabase, projectId, range, hiddenPlatforms),
+    getNewCompetitors(supabase, projectId, range, hiddenPlatforms),
+  ]);
+
+  return { visibilityScore, shareOfVoice, sentiment, newCompetitors };
+}
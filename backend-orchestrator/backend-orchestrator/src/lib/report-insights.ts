@@ -0,0 +1,702 @@
+// =============================================
+// REPORT INSIGHTS
+// =============================================
+// Grounded insights for reports built by schedules and, through
+// POST /reports/insights, by the dashboard. The report data and its context
+// (trend, engines, cited sources, sentiment themes) are numbered as facts F1,
+// F2... An OpenAI model writes the narrative and recommended actions citing
+// them as [F3], and the answer is discarded for templates when a number can't
+// be traced back to a cited fact. Model calls are added to the AI spend ledger
+// and skipped (templates) once the project is over its AI budget.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isMockMode } from './ai-fixtures';
+import { getProjectBranding } from './branding';
+import { getBudgetStatus, logBudgetStatus, recordSpend } from './budgets';
+import { getProvider } from './provider-registry';
+import { getReportDateRange, type DetailedReportData, type ReportPeriod, type ReportSectionData } from './report-data';
+import {
+  buildReportInsights,
+  getReportPeriodLabel,
+  isReportLocale,
+  type ReportInsights,
+  type ReportLocale,
+} from './report-rendering';
+import type { AIProvider } from './types';
+import { calculateCost, logError } from './utils';
+
+// A figure of the report data that insight text cites as [F1], [F2]...
+export interface InsightFact {
+  id: string;
+  group: 'visibility' | 'share_of_voice' | 'sentiment' | 'trend' | 'platforms' | 'sources' | 'themes' | 'new_competitors';
+  label: string;
+  value: string;
+}
+
+interface InsightContext {
+  trend: {
+    firstHalf: number; // Brand mentions in the first half of the period
+    secondHalf: number;
+    peak: { date: string; mentions: number } | null;
+  };
+  platforms: Array<{ platform: string; mentions: number; share: number }>; // Brand mentions by engine
+  topSources: Array<{ domain: string; citations: number }>;
+  themes: Array<{ name: string; type: 'positive' | 'negative'; current: number; previous: number }>;
+}
+
+interface GeneratedInsights {
+  visibility: string;
+  shareOfVoice: string;
+  sentiment: string;
+  recommendations: string[];
+}
+
+const TOP_SOURCES = 5;
+const TOP_THEMES = 5;
+const TOP_COMPETITOR_FACTS = 3;
+const MAX_RECOMMENDATIONS = 4;
+const MAX_ROWS = 50000;
+
+const DEFAULT_MODEL = 'gpt-4.1-mini';
+const REQUEST_TIMEOUT_MS = 45000;
+
+const LANGUAGE_NAMES: Record<ReportLocale, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
+
+/**
+ * Local yyyy-mm-dd, as stored in daily_brand_stats.stat_date
+ */
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// =============================================
+// CONTEXT
+// =============================================
+
+async function getBrandTrendAndPlatforms(
+  supabase: SupabaseClient,
+  projectId: string,
+  from: Date,
+  to: Date,
+  hiddenPlatforms: string[]
+): Promise<Pick<InsightContext, 'trend' | 'platforms'>> {
+  let query = supabase
+    .from('daily_brand_stats')
+    .select('stat_date, platform, mentions_count')
+    .eq('project_id', projectId)
+    .eq('entity_type', 'brand')
+    .gte('stat_date', toDateKey(from))
+    .lte('stat_date', toDateKey(to));
+  if (hiddenPlatforms.length > 0) {
+    query = query.not('platform', 'in', `(${hiddenPlatforms.join(',')})`);
+  }
+
+  const { data, error } = await query.order('stat_date', { ascending: true }).limit(MAX_ROWS);
+  if (error) {
+    throw new Error(`Failed to fetch brand stats: ${error.message}`);
+  }
+
+  const byDate = new Map<string, number>();
+  const byPlatform = new Map<string, number>();
+  ((data || []) as Array<{ stat_date: string; platform: string; mentions_count: number | null }>).forEach((row) => {
+    const mentions = row.mentions_count || 0;
+    byDate.set(row.stat_date, (byDate.get(row.stat_date) || 0) + mentions);
+    byPlatform.set(row.platform, (byPlatform.get(row.platform) || 0) + mentions);
+  });
+
+  // Halves by calendar day, so quiet days still count towards their half
+  const midpoint = toDateKey(new Date((from.getTime() + to.getTime()) / 2));
+  let firstHalf = 0;
+  let secondHalf = 0;
+  let peak: InsightContext['trend']['peak'] = null;
+  byDate.forEach((mentions, date) => {
+    if (date < midpoint) firstHalf += mentions;
+    else secondHalf += mentions;
+    if (mentions > 0 && (!peak || mentions > peak.mentions)) peak = { date, mentions };
+  });
+
+  const total = Array.from(byPlatform.values()).reduce((sum, mentions) => sum + mentions, 0);
+  const platforms = Array.from(byPlatform.entries())
+    .filter(([, mentions]) => mentions > 0)
+    .map(([platform, mentions]) => ({
+      platform,
+      mentions,
+      share: total > 0 ? Math.round((mentions / total) * 1000) / 10 : 0,
+    }))
+    .sort((a, b) => b.mentions - a.mentions);
+
+  return { trend: { firstHalf, secondHalf, peak }, platforms };
+}
+
+async function getTopSources(
+  supabase: SupabaseClient,
+  projectId: string,
+  from: Date,
+  to: Date,
+  hiddenPlatforms: string[]
+): Promise<InsightContext['topSources']> {
+  let query = supabase
+    .from('citations')
+    .select(hiddenPlatforms.length > 0 ? 'domain, ai_responses!inner(platform)' : 'domain')
+    .eq('project_id', projectId)
+    .not('domain', 'is', null)
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString());
+  if (hiddenPlatforms.length > 0) {
+    query = query.not('ai_responses.platform', 'in', `(${hiddenPlatforms.join(',')})`);
+  }
+
+  const { data, error } = await query.limit(MAX_ROWS);
+  if (error) {
+    throw new Error(`Failed to fetch citations: ${error.message}`);
+  }
+
+  const counts = new Map<string, number>();
+  ((data || []) as unknown as Array<{ domain: string | null }>).forEach((row) => {
+    if (row.domain) counts.set(row.domain, (counts.get(row.domain) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .map(([domain, citations]) => ({ domain, citations }))
+    .sort((a, b) => b.citations - a.citations)
+    .slice(0, TOP_SOURCES);
+}
+
+async function countThemes(
+  supabase: SupabaseClient,
+  projectId: string,
+  from: Date,
+  to: Date,
+  hiddenPlatforms: string[]
+): Promise<Map<string, number>> {
+  let query = supabase
+    .from('brand_evaluations')
+    .select('positive_theme_ids, negative_theme_ids')
+    .eq('project_id', projectId)
+    .eq('entity_type', 'brand')
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString());
+  if (hiddenPlatforms.length > 0) {
+    query = query.not('platform', 'in', `(${hiddenPlatforms.join(',')})`);
+  }
+
+  const { data, error } = await query.limit(MAX_ROWS);
+  if (error) {
+    throw new Error(`Failed to fetch brand evaluations: ${error.message}`);
+  }
+
+  const counts = new Map<string, number>();
+  ((data || []) as Array<{ positive_theme_ids: string[] | null; negative_theme_ids: string[] | null }>).forEach((row) => {
+    [...(row.positive_theme_ids || []), ...(row.negative_theme_ids || [])].forEach((id) =>
+      counts.set(id, (counts.get(id) || 0) + 1)
+    );
+  });
+  return counts;
+}
+
+async function getThemeChanges(
+  supabase: SupabaseClient,
+  projectId: string,
+  range: ReturnType<typeof getReportDateRange>,
+  hiddenPlatforms: string[]
+): Promise<InsightContext['themes']> {
+  const [current, previous] = await Promise.all([
+    countThemes(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    countThemes(supabase, projectId, range.previousFrom, range.previousTo, hiddenPlatforms),
+  ]);
+
+  // Biggest movers first
+  const themeIds = Array.from(new Set([...current.keys(), ...previous.keys()]))
+    .sort(
+      (a, b) =>
+        Math.abs((current.get(b) || 0) - (previous.get(b) || 0)) -
+        Math.abs((current.get(a) || 0) - (previous.get(a) || 0))
+    )
+    .slice(0, TOP_THEMES);
+
+  if (themeIds.length === 0) return [];
+
+  const { data: themes } = await supabase
+    .from('sentiment_themes')
+    .select('id, name, type')
+    .eq('project_id', projectId)
+    .in('id', themeIds);
+
+  const themeMap = new Map((themes || []).map((theme) => [theme.id as string, theme]));
+  return themeIds.flatMap((id) => {
+    const theme = themeMap.get(id);
+    if (!theme) return [];
+    return [
+      {
+        name: theme.name as string,
+        type: theme.type as 'positive' | 'negative',
+        current: current.get(id) || 0,
+        previous: previous.get(id) || 0,
+      },
+    ];
+  });
+}
+
+/**
+ * Trends, engine split, top cited sources and theme changes of a report's period
+ */
+async function getInsightContext(
+  supabase: SupabaseClient,
+  projectId: string,
+  period: ReportPeriod,
+  hiddenPlatforms: string[],
+  now: Date
+): Promise<InsightContext> {
+  const range = getReportDateRange(period, now);
+
+  const [brandStats, topSources, themes] = await Promise.all([
+    getBrandTrendAndPlatforms(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    getTopSources(supabase, projectId, range.from, range.to, hiddenPlatforms),
+    getThemeChanges(supabase, projectId, range, hiddenPlatforms),
+  ]);
+
+  return { ...brandStats, topSources, themes };
+}
+
+// =============================================
+// FACTS
+// =============================================
+
+const FACT_LABELS: Record<
+  ReportLocale,
+  {
+    sections: Record<'visibility' | 'share_of_voice' | 'sentiment', string>;
+    change: string;
+    firstHalf: string;
+    secondHalf: string;
+    peak: string;
+    platform: (name: string) => string;
+    source: (domain: string) => string;
+    theme: (name: string, type: 'positive' | 'negative') => string;
+    themeValue: (current: string, previous: string) => string;
+    newCompetitors: string;
+    topNewCompetitor: (name: string) => string;
+  }
+> = {
+  en: {
+    sections: { visibility: 'mentions', share_of_voice: 'share of voice', sentiment: 'sentiment score' },
+    change: 'change vs previous period',
+    firstHalf: 'Brand mentions, first half of the period',
+    secondHalf: 'Brand mentions, second half of the period',
+    peak: 'Day with most brand mentions',
+    platform: (name) => `Brand mentions on ${name} (share of brand mentions)`,
+    source: (domain) => `Citations of ${domain} in AI responses`,
+    theme: (name, type) => `${type === 'positive' ? 'Strength' : 'Weakness'} theme "${name}", brand evaluations`,
+    themeValue: (current, previous) => `${current} (previous period: ${previous})`,
+    newCompetitors: 'Tracked competitors that appeared in AI responses',
+    topNewCompetitor: (name) => `Mentions of ${name}`,
+  },
+  es: {
+    sections: { visibility: 'menciones', share_of_voice: 'cuota de voz', sentiment: 'puntuación de sentimiento' },
+    change: 'cambio frente al periodo anterior',
+    firstHalf: 'Menciones de la marca, primera mitad del periodo',
+    secondHalf: 'Menciones de la marca, segunda mitad del periodo',
+    peak: 'Día con más menciones de la marca',
+    platform: (name) => `Menciones de la marca en ${name} (cuota de las menciones de la marca)`,
+    source: (domain) => `Citas de ${domain} en respuestas de IA`,
+    theme: (name, type) => `Tema de ${type === 'positive' ? 'fortaleza' : 'debilidad'} "${name}", evaluaciones de la marca`,
+    themeValue: (current, previous) => `${current} (periodo anterior: ${previous})`,
+    newCompetitors: 'Competidores seguidos que aparecieron en respuestas de IA',
+    topNewCompetitor: (name) => `Menciones de ${name}`,
+  },
+};
+
+function platformName(platform: string): string {
+  return getProvider(platform as AIProvider)?.name || platform.charAt(0).toUpperCase() + platform.slice(1);
+}
+
+/**
+ * Number the facts of a report: its three sections, then the insight context
+ */
+function buildInsightFacts(
+  data: DetailedReportData,
+  context: InsightContext,
+  brandName: string,
+  language: ReportLocale
+): InsightFact[] {
+  const labels = FACT_LABELS[language];
+  const facts: InsightFact[] = [];
+  const add = (group: InsightFact['group'], label: string, value: string) => {
+    facts.push({ id: `F${facts.length + 1}`, group, label, value });
+  };
+
+  const integer = (value: number) => Math.round(value).toLocaleString(language);
+  const decimal = (value: number) =>
+    value.toLocaleString(language, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  const change = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}${decimal(Math.abs(value))}%`;
+
+  const addSection = (group: 'visibility' | 'share_of_voice' | 'sentiment', section: ReportSectionData) => {
+    const formatValue =
+      group === 'visibility' ? integer : group === 'share_of_voice' ? (v: number) => `${decimal(v)}%` : (v: number) => `${decimal(v)}/100`;
+    const name = labels.sections[group];
+
+    add(group, `${brandName}, ${name}`, formatValue(section.brandValue));
+    add(group, `${brandName}, ${name}, ${labels.change}`, change(section.brandPercentageChange));
+    section.topCompetitors.slice(0, TOP_COMPETITOR_FACTS).forEach((competitor) => {
+      add(group, `${competitor.name}, ${name}`, formatValue(competitor.value));
+      add(group, `${competitor.name}, ${name}, ${labels.change}`, change(competitor.percentageChange));
+    });
+  };
+
+  addSection('visibility', data.visibilityScore);
+  addSection('share_of_voice', data.shareOfVoice);
+  addSection('sentiment', data.sentiment);
+
+  if (context.trend.firstHalf + context.trend.secondHalf > 0) {
+    add('trend', labels.firstHalf, integer(context.trend.firstHalf));
+    add('trend', labels.secondHalf, integer(context.trend.secondHalf));
+  }
+  if (context.trend.peak) {
+    const day = new Date(`${context.trend.peak.date}T00:00:00`).toLocaleDateString(language, {
+      month: 'long',
+      day: 'numeric',
+    });
+    add('trend', labels.peak, `${day}: ${integer(context.trend.peak.mentions)}`);
+  }
+
+  context.platforms.forEach((platform) => {
+    add('platforms', labels.platform(platformName(platform.platform)), `${integer(platform.mentions)} (${decimal(platform.share)}%)`);
+  });
+
+  context.topSources.forEach((source) => {
+    add('sources', labels.source(source.domain), integer(source.citations));
+  });
+
+  context.themes.forEach((theme) => {
+    add('themes', labels.theme(theme.name, theme.type), labels.themeValue(integer(theme.current), integer(theme.previous)));
+  });
+
+  if (data.newCompetitors.length > 0) {
+    add('new_competitors', labels.newCompetitors, integer(data.newCompetitors.length));
+    const top = data.newCompetitors[0];
+    add('new_competitors', labels.topNewCompetitor(top.name), integer(top.mentions));
+  }
+
+  return facts;
+}
+
+// =============================================
+// CITATION CHECKS
+// =============================================
+// A sentence passes when every number in it appears in one of the facts it
+// cites (or in a name, like a brand called "3M"), and every cited fact exists.
+
+const CITATION_PATTERN = /\[(F\d+)\]/g;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+function numbersIn(text: string): string[] {
+  return text.match(NUMBER_PATTERN) || [];
+}
+
+/**
+ * Problems with a generated text's citations; empty when it is grounded
+ */
+function findCitationProblems(text: string, facts: InsightFact[]): string[] {
+  const factsById = new Map(facts.map((fact) => [fact.id, fact]));
+  const namedNumbers = new Set(facts.flatMap((fact) => numbersIn(fact.label)));
+  const problems: string[] = [];
+
+  text.split(/(?<=[.!?])\s+/).forEach((sentence) => {
+    const cited = Array.from(sentence.matchAll(CITATION_PATTERN), (match) => match[1]);
+    const unknown = cited.filter((id) => !factsById.has(id));
+    if (unknown.length > 0) {
+      problems.push(`Unknown facts ${unknown.join(', ')} in "${sentence}"`);
+      return;
+    }
+
+    const citedNumbers = new Set(
+      cited.flatMap((id) => {
+        const fact = factsById.get(id);
+        return fact ? numbersIn(`${fact.label} ${fact.value}`) : [];
+      })
+    );
+    const uncited = numbersIn(sentence.replace(CITATION_PATTERN, '')).filter(
+      (number) => !citedNumbers.has(number) && !namedNumbers.has(number)
+    );
+    if (uncited.length > 0) {
+      problems.push(`Numbers ${uncited.join(', ')} not found in the cited facts of "${sentence}"`);
+    }
+  });
+
+  return problems;
+}
+
+// =============================================
+// MODEL
+// =============================================
+
+function buildInstructions(brandName: string, periodLabel: string, language: ReportLocale): string {
+  return [
+    `You are a brand analyst writing the insights of a report on how AI engines (ChatGPT, Gemini, Perplexity...) mention ${brandName} during ${periodLabel}.`,
+    `Write in ${LANGUAGE_NAMES[language]}.`,
+    'Use only the numbered facts you are given. Never estimate, round, add up or compute new figures.',
+    'Copy every number exactly as it is written in a fact, and end each sentence containing a number with the ids of the facts it comes from, e.g. [F3] or [F3][F7].',
+    'Explain what changed and why it matters, connecting sections with the trend, engines, sources and themes when the facts allow it.',
+    `Then give 2 to ${MAX_RECOMMENDATIONS} concrete recommended actions, each grounded in cited facts.`,
+    'Answer with a JSON object: {"visibility": string, "shareOfVoice": string, "sentiment": string, "recommendations": string[]}. Each section is 2 to 4 sentences.',
+  ].join('\n');
+}
+
+function parseInsights(text: string): GeneratedInsights | null {
+  try {
+    const parsed = JSON.parse(text);
+    const sections = [parsed.visibility, parsed.shareOfVoice, parsed.sentiment];
+    if (sections.some((section) => typeof section !== 'string' || !section.trim())) return null;
+    if (!Array.isArray(parsed.recommendations)) return null;
+
+    return {
+      visibility: parsed.visibility.trim(),
+      shareOfVoice: parsed.shareOfVoice.trim(),
+      sentiment: parsed.sentiment.trim(),
+      recommendations: parsed.recommendations
+        .filter((item: unknown): item is string => typeof item === 'string' && item.trim().length > 0)
+        .map((item: string) => item.trim())
+        .slice(0, MAX_RECOMMENDATIONS),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Model-written insights citing the given facts, or null when no key is
+ * configured, AI_MODE=mock, the project is over its AI budget, the request
+ * fails or the text isn't grounded
+ */
+async function generateModelInsights(
+  supabase: SupabaseClient,
+  projectId: string,
+  facts: InsightFact[],
+  brandName: string,
+  periodLabel: string,
+  language: ReportLocale,
+  spendKey?: string
+): Promise<GeneratedInsights | null> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey || isMockMode() || facts.length === 0) return null;
+
+  // Past the budget limit (degrade or skip) the templates cost nothing
+  const budget = await getBudgetStatus(supabase, projectId);
+  logBudgetStatus('report-insights', projectId, budget);
+  if (budget.action !== 'none') return null;
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/responses', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: process.env.INSIGHTS_MODEL || DEFAULT_MODEL,
+        instructions: buildInstructions(brandName, periodLabel, language),
+        input: facts.map((fact) => `[${fact.id}] (${fact.group}) ${fact.label}: ${fact.value}`).join('\n'),
+        text: { format: { type: 'json_object' } },
+        temperature: 0.2,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      logError('report-insights', `Insights model returned ${response.status}`, await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    const tokens: number = data.usage?.total_tokens || 0;
+    await recordSpend(supabase, {
+      projectId,
+      platform: 'openai',
+      source: 'other',
+      tokens,
+      cost: calculateCost('openai', tokens),
+      idempotencyKey: spendKey,
+    });
+
+    // Responses API: the first output_text of the message output item
+    const outputText: string | undefined = (data.output || [])
+      .flatMap((item: { type: string; content?: Array<{ type: string; text?: string }> }) =>
+        item.type === 'message' ? item.content || [] : []
+      )
+      .find((content: { type: string; text?: string }) => content.type === 'output_text')?.text;
+
+    const insights = outputText ? parseInsights(outputText) : null;
+    if (!insights) {
+      logError('report-insights', 'Insights model returned an invalid answer');
+      return null;
+    }
+
+    const problems = [
+      insights.visibility,
+      insights.shareOfVoice,
+      insights.sentiment,
+      ...insights.recommendations,
+    ].flatMap((text) => findCitationProblems(text, facts));
+    if (problems.length > 0) {
+      logError('report-insights', 'Generated insights are not grounded in the report data', problems);
+      return null;
+    }
+
+    return insights;
+  } catch (error) {
+    logError('report-insights', 'Failed to generate model insights', error);
+    return null;
+  }
+}
+
+// =============================================
+// TEMPLATE RECOMMENDATIONS
+// =============================================
+
+/**
+ * Rule-based recommended actions: lost mentions, the Share of Voice leader,
+ * the most cited source and the fastest-growing weakness
+ */
+function templateRecommendations(
+  data: DetailedReportData,
+  context: InsightContext,
+  brandName: string,
+  language: ReportLocale
+): string[] {
+  const fixed = (value: number) => value.toLocaleString(language, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  const es = language === 'es';
+  const recommendations: string[] = [];
+
+  const mentionsChange = data.visibilityScore.brandPercentageChange;
+  if (mentionsChange < 0) {
+    recommendations.push(
+      es
+        ? `Revisa los prompts en los que ${brandName} perdió presencia: sus menciones cayeron un ${fixed(Math.abs(mentionsChange))}%.`
+        : `Review the prompts where ${brandName} lost ground: its mentions fell ${fixed(Math.abs(mentionsChange))}%.`
+    );
+  } else if (mentionsChange > 0) {
+    recommendations.push(
+      es
+        ? `Refuerza el contenido que impulsó el aumento del ${fixed(mentionsChange)}% en las menciones de ${brandName}.`
+        : `Double down on the content behind the ${fixed(mentionsChange)}% rise in ${brandName}'s mentions.`
+    );
+  }
+
+  const leader = data.shareOfVoice.topCompetitors[0];
+  if (leader && leader.value > data.shareOfVoice.brandValue) {
+    recommendations.push(
+      es
+        ? `Reduce la distancia con ${leader.name}, que tiene el ${fixed(leader.value)}% de la cuota de voz frente al ${fixed(data.shareOfVoice.brandValue)}% de ${brandName}.`
+        : `Close the gap with ${leader.name}, which holds ${fixed(leader.value)}% of Share of Voice against ${brandName}'s ${fixed(data.shareOfVoice.brandValue)}%.`
+    );
+  }
+
+  const source = context.topSources[0];
+  if (source) {
+    recommendations.push(
+      es
+        ? `Consigue presencia de ${brandName} en ${source.domain}, la fuente más citada por los motores de IA (${source.citations.toLocaleString('es')} citas).`
+        : `Get ${brandName} featured on ${source.domain}, the source AI engines cited most (${source.citations.toLocaleString('en')} citations).`
+    );
+  }
+
+  const weakness = context.themes
+    .filter((theme) => theme.type === 'negative' && theme.current > theme.previous)
+    .sort((a, b) => b.current - b.previous - (a.current - a.previous))[0];
+  if (weakness) {
+    recommendations.push(
+      es
+        ? `Responde a las críticas sobre "${weakness.name}": aparecieron en ${weakness.current} evaluaciones, frente a ${weakness.previous} en el periodo anterior.`
+        : `Address concerns about "${weakness.name}": raised in ${weakness.current} evaluations, up from ${weakness.previous} in the previous period.`
+    );
+  }
+
+  return recommendations.slice(0, MAX_RECOMMENDATIONS);
+}
+
+// =============================================
+// GENERATION
+// =============================================
+
+/**
+ * Insights of a detailed report: model-written narrative and recommended
+ * actions citing the report's facts, or templates when no model key is
+ * configured or the text isn't grounded. `now` is the moment the report's
+ * period is counted back from; `spendKey` dedupes the model call's spend when
+ * the calling step is retried.
+ */
+export async function generateReportInsights(
+  supabase: SupabaseClient,
+  projectId: string,
+  period: ReportPeriod,
+  data: DetailedReportData,
+  brandName: string,
+  language: ReportLocale,
+  hiddenPlatforms: string[],
+  options: { now?: Date; spendKey?: string } = {}
+): Promise<ReportInsights> {
+  const now = options.now || new Date();
+  const context = await getInsightContext(supabase, projectId, period, hiddenPlatforms, now);
+  const facts = buildInsightFacts(data, context, brandName, language);
+  const generated = await generateModelInsights(
+    supabase,
+    projectId,
+    facts,
+    brandName,
+    getReportPeriodLabel(period, language),
+    language,
+    options.spendKey
+  );
+
+  if (generated) {
+    return { ...generated, facts, source: 'llm', language, generatedAt: new Date().toISOString() };
+  }
+
+  return {
+    ...buildReportInsights(data, brandName, period, language),
+    recommendations: templateRecommendations(data, context, brandName, language),
+    facts,
+    source: 'template',
+    language,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Insights of a report built in the dashboard: in the project's language and
+ * without the engines its workspace hides
+ */
+export async function generateProjectReportInsights(
+  supabase: SupabaseClient,
+  projectId: string,
+  period: ReportPeriod,
+  data: DetailedReportData,
+  now: Date = new Date()
+): Promise<ReportInsights> {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('brand_name, name, language')
+    .eq('id', projectId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch project: ${error.message}`);
+  }
+
+  const branding = await getProjectBranding(supabase, projectId);
+  return generateReportInsights(
+    supabase,
+    projectId,
+    period,
+    data,
+    project.brand_name || project.name || 'Your Brand',
+    isReportLocale(project.language) ? project.language : 'en',
+    branding.hidden_platforms,
+    { now }
+  );
+}
@@ -0,0 +1,582 @@
+// =============================================
+// REPORT RENDERING
+// =============================================
+// Localized insights, PDF and email for detailed reports built by schedules
+// (see report-data.ts). The insight templates match templateSectionInsight in
+// the dashboard and are the fallback of the grounded insights (see
+// report-insights.ts), so scheduled and hand-made reports read the same. The
+// workspace's white-label branding (see branding.ts) sets colors, logo, cover,
+// footer text and sender name, and hides metrics and engine names.
+
+import PDFDocument from 'pdfkit';
+import type { DetailedReportData, ReportPeriod, ReportSectionData } from './report-data';
+import type { EmailMessage } from './email';
+import type { InsightFact } from './report-insights';
+import { DEFAULT_BRANDING, parseHexColor, type PdfColor, type ReportMetric, type WorkspaceBranding } from './branding';
+import { logError } from './utils';
+
+export type ReportLocale = 'en' | 'es';
+
+export interface ReportInsights {
+  visibility: string;
+  shareOfVoice: string;
+  sentiment: string;
+  recommendations?: string[];
+  facts?: InsightFact[]; // Facts the texts cite as [F1]
+  source?: 'llm' | 'template';
+  language?: ReportLocale;
+  generatedAt?: string;
+}
+
+export interface RenderableReport {
+  id: string;
+  brandName: string;
+  period: ReportPeriod;
+  topicName: string | null;
+  createdAt: string;
+  timezone: string;
+  locale: ReportLocale;
+  data: DetailedReportData;
+  insights: ReportInsights;
+  branding?: WorkspaceBranding;
+  logo?: Buffer | null; // branding.logo_url image (PNG or JPEG)
+}
+
+type SectionKey = 'visibility' | 'shareOfVoice' | 'sentiment';
+type PdfFont = 'regular' | 'bold';
+
+const SECTION_METRICS: Record<SectionKey, ReportMetric> = {
+  visibility: 'visibility',
+  shareOfVoice: 'share_of_voice',
+  sentiment: 'sentiment',
+};
+
+interface ReportStrings {
+  title: string;
+  periods: Record<ReportPeriod, string>;
+  periodLabels: Record<ReportPeriod, string>; // Used inside sentences
+  allTopics: string;
+  topic: string;
+  sections: Record<SectionKey, string>;
+  competitor: string;
+  value: string;
+  change: string;
+  vsPrevious: string;
+  noCompetitors: string;
+  recommendations: string;
+  trackedCompetitors: string;
+  noTrackedCompetitors: string;
+  mentions: string;
+  generated: string;
+  page: string;
+  emailIntro: (brandName: string, periodLabel: string) => string;
+  emailLink: string;
+  emailAttachment: string;
+}
+
+const STRINGS: Record<ReportLocale, ReportStrings> = {
+  en: {
+    title: 'AI Visibility Report',
+    periods: {
+      'yesterday': 'Yesterday',
+      'last-week': 'Last week',
+      'last-month': 'Last month',
+      'last-3-months': 'Last 3 months',
+    },
+    periodLabels: {
+      'yesterday': 'yesterday',
+      'last-week': 'the last week',
+      'last-month': 'the last month',
+      'last-3-months': 'the last 3 months',
+    },
+    allTopics: 'All topics',
+    topic: 'Topic',
+    sections: { visibility: 'Visibility Score', shareOfVoice: 'Share of Voice', sentiment: 'Sentiment' },
+    competitor: 'Competitor',
+    value: 'Value',
+    change: 'Change',
+    vsPrevious: 'vs previous period',
+    noCompetitors: 'No competitor data for this period.',
+    recommendations: 'Recommended Actions',
+    trackedCompetitors: 'Tracked competitors in AI responses',
+    noTrackedCompetitors: 'No tracked competitor appeared in AI responses during this period.',
+    mentions: 'mentions',
+    generated: 'Generated',
+    page: 'Page',
+    emailIntro: (brandName, periodLabel) => `Here is the AI visibility report of ${brandName} for ${periodLabel}.`,
+    emailLink: 'Open it in the dashboard',
+    emailAttachment: 'The full report is attached as a PDF.',
+  },
+  es: {
+    title: 'Informe de visibilidad en IA',
+    periods: {
+      'yesterday': 'Ayer',
+      'last-week': 'Última semana',
+      'last-month': 'Último mes',
+      'last-3-months': 'Últimos 3 meses',
+    },
+    periodLabels: {
+      'yesterday': 'ayer',
+      'last-week': 'la última semana',
+      'last-month': 'el último mes',
+      'last-3-months': 'los últimos 3 meses',
+    },
+    allTopics: 'Todos los temas',
+    topic: 'Tema',
+    sections: { visibility: 'Puntuación de visibilidad', shareOfVoice: 'Cuota de voz', sentiment: 'Sentimiento' },
+    competitor: 'Competidor',
+    value: 'Valor',
+    change: 'Cambio',
+    vsPrevious: 'frente al periodo anterior',
+    noCompetitors: 'No hay datos de competidores en este periodo.',
+    recommendations: 'Acciones recomendadas',
+    trackedCompetitors: 'Competidores seguidos en respuestas de IA',
+    noTrackedCompetitors: 'Ningún competidor seguido apareció en respuestas de IA durante este periodo.',
+    mentions: 'menciones',
+    generated: 'Generado',
+    page: 'Página',
+    emailIntro: (brandName, periodLabel) => `Este es el informe de visibilidad en IA de ${brandName} para ${periodLabel}.`,
+    emailLink: 'Ábrelo en el panel',
+    emailAttachment: 'El informe completo va adjunto en PDF.',
+  },
+};
+
+// =============================================
+// FORMATTING
+// =============================================
+
+function formatSectionValue(section: SectionKey, value: number, locale: ReportLocale): string {
+  if (section === 'visibility') {
+    return Math.round(value).toLocaleString(locale);
+  }
+  const formatted = value.toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  return section === 'shareOfVoice' ? `${formatted}%` : `${formatted}/100`;
+}
+
+function formatChange(change: number, locale: ReportLocale): string {
+  const formatted = Math.abs(change).toLocaleString(locale, { maximumFractionDigits: 1 });
+  return `${change > 0 ? '+' : change < 0 ? '-' : ''}${formatted}%`;
+}
+
+// The PDF has no hover to reveal cited facts, so [F1] markers are dropped
+function stripCitations(text: string): string {
+  return text.replace(/\s?\[F\d+\]/g, '');
+}
+
+function formatDate(date: Date, locale: ReportLocale, timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: timezone }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(date);
+  }
+}
+
+/**
+ * Days covered by a report, shown like the dashboard: ending the day before it was created
+ */
+export function formatReportDateRange(report: Pick<RenderableReport, 'period' | 'createdAt' | 'locale' | 'timezone'>): string {
+  const days = { 'yesterday': 1, 'last-week': 7, 'last-month': 30, 'last-3-months': 90 }[report.period];
+  const to = new Date(report.createdAt);
+  to.setDate(to.getDate() - 1);
+  const from = new Date(to);
+  from.setDate(from.getDate() - (days - 1));
+
+  const toLabel = formatDate(to, report.locale, report.timezone);
+  return days === 1 ? toLabel : `${formatDate(from, report.locale, report.timezone)} – ${toLabel}`;
+}
+
+// =============================================
+// INSIGHTS
+// =============================================
+
+function sectionInsight(section: SectionKey, data: ReportSectionData, brandName: string, periodLabel: string, locale: ReportLocale): string {
+  const fixed = (value: number) => value.toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  const top = data.topCompetitors[0];
+  const change = fixed(Math.abs(data.brandPercentageChange));
+  const direction = data.brandPercentageChange > 0 ? 1 : data.brandPercentageChange < 0 ? -1 : 0;
+
+  if (locale === 'es') {
+    const changeLabel = direction > 0 ? 'aumentó' : direction < 0 ? 'disminuyó' : 'se mantuvo estable';
+    switch (section) {
+      case 'visibility':
+        return `Durante ${periodLabel}, ${brandName} registró ${data.brandValue.toLocaleString('es')} menciones; la cifra ${changeLabel} un ${change}% respecto al periodo anterior. ${top ? `${top.name} lideró el ranking con ${top.value.toLocaleString('es')} menciones.` : ''} La visibilidad del sector muestra una actividad constante.`;
+      case 'shareOfVoice':
+        return `${brandName} representó el ${fixed(data.brandValue)}% de la cuota de voz total, que ${changeLabel} ${change} puntos porcentuales. ${top ? `${top.name} mantiene el ${fixed(top.value)}% del mercado.` : ''} El reparto muestra una competencia activa en el sector.`;
+      case 'sentiment':
+        return `El sentimiento medio hacia ${brandName} fue de ${fixed(data.brandValue)}/100 y ${changeLabel} un ${change}% respecto al periodo anterior. ${top ? `${top.name} registró ${fixed(top.value)} puntos de sentimiento.` : ''} Las percepciones del sector se mantienen relativamente estables.`;
+    }
+  }
+
+  const changeLabel = direction > 0 ? 'increased' : direction < 0 ? 'decreased' : 'remained stable';
+  switch (section) {
+    case 'visibility':
+      return `During ${periodLabel}, ${brandName} registered ${data.brandValue.toLocaleString('en')} mentions, ${changeLabel} by ${change}% compared to the previous period. ${top ? `${top.name} led the ranking with ${top.value.toLocaleString('en')} mentions.` : ''} Overall sector visibility shows consistent activity.`;
+    case 'shareOfVoice':
+      return `${brandName} represented ${fixed(data.brandValue)}% of total Share of Voice, ${changeLabel} by ${change} percentage points. ${top ? `${top.name} maintains ${fixed(top.value)}% of the market.` : ''} Share distribution shows active competition in the sector.`;
+    case 'sentiment':
+      return `Average sentiment towards ${brandName} was ${fixed(data.brandValue)}/100, ${changeLabel} by ${change}% compared to the previous period. ${top ? `${top.name} registered ${fixed(top.value)} sentiment points.` : ''} Sector perceptions maintain relative stability.`;
+  }
+}
+
+/**
+ * Whether a project language has report translations
+ */
+export function isReportLocale(value: unknown): value is ReportLocale {
+  return typeof value === 'string' && Object.keys(STRINGS).includes(value);
+}
+
+/**
+ * Period of a report as written inside sentences ("the last week")
+ */
+export function getReportPeriodLabel(period: ReportPeriod, locale: ReportLocale): string {
+  return STRINGS[locale].periodLabels[period];
+}
+
+/**
+ * Template insights of the three sections
+ */
+export function buildReportInsights(
+  data: DetailedReportData,
+  brandName: string,
+  period: ReportPeriod,
+  locale: ReportLocale
+): ReportInsights {
+  const periodLabel = STRINGS[locale].periodLabels[period];
+  return {
+    visibility: sectionInsight('visibility', data.visibilityScore, brandName, periodLabel, locale),
+    shareOfVoice: sectionInsight('shareOfVoice', data.shareOfVoice, brandName, periodLabel, locale),
+    sentiment: sectionInsight('sentiment', data.sentiment, brandName, periodLabel, locale),
+  };
+}
+
+// =============================================
+// PDF
+// =============================================
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const FOOTER_SPACE = 56;
+const COLORS: Record<'primary' | 'text' | 'muted' | 'border' | 'bar' | 'brandBar' | 'up' | 'down' | 'white', PdfColor> = {
+  primary: [79, 70, 229],
+  text: [17, 24, 39],
+  muted: [107, 114, 128],
+  border: [229, 231, 235],
+  bar: [203, 213, 225],
+  brandBar: [129, 140, 248],
+  up: [22, 163, 74],
+  down: [220, 38, 38],
+  white: [255, 255, 255],
+};
+
+const FONTS: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+/**
+ * Render a report as an A4 PDF
+ * Coordinates are in points from the top-left corner and text is placed by
+ * its baseline.
+ */
+export async function renderReportPdf(report: RenderableReport): Promise<Uint8Array> {
+  const strings = STRINGS[report.locale];
+  const branding = report.branding || DEFAULT_BRANDING;
+  const primary = parseHexColor(branding.primary_color, COLORS.primary);
+  const secondary = parseHexColor(branding.secondary_color, COLORS.primary);
+  const brandBar = branding.primary_color ? primary : COLORS.brandBar;
+  const isVisible = (metric: ReportMetric) => !branding.hidden_metrics.includes(metric);
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 0,
+    autoFirstPage: false,
+    bufferPages: true, // Footers are drawn once the page count is known
+    info: { Title: `${report.brandName} - ${strings.title}`, Producer: 'GEO Orchestrator' },
+  });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const rendered = new Promise<Uint8Array>((resolve, reject) => {
+    doc.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    doc.on('error', reject);
+  });
+
+  const text = (x: number, y: number, value: string, options: { size?: number; font?: PdfFont; color?: PdfColor } = {}) => {
+    const { size = 10, font = 'regular', color = COLORS.text } = options;
+    doc.font(FONTS[font]).fontSize(size).fillColor(color).text(value, x, y, { lineBreak: false, baseline: 'alphabetic' });
+  };
+  const rect = (x: number, y: number, width: number, height: number, color: PdfColor) => {
+    doc.rect(x, y, width, height).fill(color);
+  };
+  const drawLine = (x1: number, y1: number, x2: number, y2: number, color: PdfColor) => {
+    doc.moveTo(x1, y1).lineTo(x2, y2).lineWidth(0.5).stroke(color);
+  };
+  const textWidth = (value: string, size: number, font: PdfFont = 'regular') =>
+    doc.font(FONTS[font]).fontSize(size).widthOfString(value);
+
+  // Split text into lines that fit maxWidth
+  const wrapText = (value: string, maxWidth: number, size: number, font: PdfFont = 'regular') => {
+    const lines: string[] = [];
+    for (const paragraph of value.split('\n')) {
+      let current = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && textWidth(candidate, size, font) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      lines.push(current);
+    }
+    return lines;
+  };
+
+  // A logo pdfkit can't read is left out rather than failing the report
+  const drawLogo = (x: number, y: number, maxWidth: number, maxHeight: number, align?: 'right') => {
+    if (!report.logo) return;
+    try {
+      doc.image(report.logo, x, y, { fit: [maxWidth, maxHeight], align });
+    } catch (error) {
+      logError('report-rendering', 'Failed to draw branding logo', error);
+    }
+  };
+
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const dateLine = `${formatReportDateRange(report)} · ${strings.topic}: ${report.topicName || strings.allTopics}`;
+  let y = 0;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - FOOTER_SPACE) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Custom cover on its own page
+  const hasCover = Boolean(branding.cover_title);
+  if (branding.cover_title) {
+    doc.addPage();
+    rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, primary);
+    drawLogo(MARGIN, MARGIN + 12, 220, 72);
+
+    y = PAGE_HEIGHT * 0.42;
+    for (const line of wrapText(branding.cover_title, contentWidth, 30, 'bold')) {
+      text(MARGIN, y, line, { size: 30, font: 'bold', color: COLORS.white });
+      y += 38;
+    }
+    if (branding.cover_subtitle) {
+      y += 4;
+      for (const line of wrapText(branding.cover_subtitle, contentWidth, 14)) {
+        text(MARGIN, y, line, { size: 14, color: COLORS.white });
+        y += 20;
+      }
+    }
+    rect(MARGIN, y + 4, 48, 4, secondary);
+
+    text(MARGIN, PAGE_HEIGHT - 112, report.brandName, { size: 13, font: 'bold', color: COLORS.white });
+    text(MARGIN, PAGE_HEIGHT - 94, `${strings.title} · ${strings.periods[report.period]}`, { size: 11, color: COLORS.white });
+    text(MARGIN, PAGE_HEIGHT - 78, dateLine, { size: 10, color: COLORS.white });
+  }
+
+  // Header band, with the logo when there is no cover
+  doc.addPage();
+  rect(0, 0, PAGE_WIDTH, 104, primary);
+  if (branding.secondary_color) {
+    rect(0, 104, PAGE_WIDTH, 4, secondary);
+  }
+  if (!hasCover) {
+    drawLogo(PAGE_WIDTH - MARGIN - 140, 24, 140, 56, 'right');
+  }
+  text(MARGIN, 44, report.brandName, { size: 22, font: 'bold', color: COLORS.white });
+  text(MARGIN, 66, `${strings.title} · ${strings.periods[report.period]}`, { size: 12, color: COLORS.white });
+  text(MARGIN, 86, dateLine, { size: 10, color: COLORS.white });
+  y = 140;
+
+  const sections: Array<{ key: SectionKey; data: ReportSectionData }> = (
+    [
+      { key: 'visibility', data: report.data.visibilityScore },
+      { key: 'shareOfVoice', data: report.data.shareOfVoice },
+      { key: 'sentiment', data: report.data.sentiment },
+    ] as Array<{ key: SectionKey; data: ReportSectionData }>
+  ).filter(({ key }) => isVisible(SECTION_METRICS[key]));
+
+  for (const { key, data } of sections) {
+    const insightLines = wrapText(stripCitations(report.insights[key]), contentWidth, 10);
+    ensureSpace(90 + insightLines.length * 14);
+
+    text(MARGIN, y, strings.sections[key], { size: 15, font: 'bold' });
+    y += 30;
+
+    const value = formatSectionValue(key, data.brandValue, report.locale);
+    text(MARGIN, y, value, { size: 24, font: 'bold', color: primary });
+    const change = data.brandPercentageChange;
+    text(
+      MARGIN + textWidth(value, 24, 'bold') + 12,
+      y,
+      `${formatChange(change, report.locale)} ${strings.vsPrevious}`,
+      { size: 10, color: change > 0 ? COLORS.up : change < 0 ? COLORS.down : COLORS.muted }
+    );
+    y += 22;
+
+    for (const line of insightLines) {
+      text(MARGIN, y, line, { size: 10, color: COLORS.muted });
+      y += 14;
+    }
+    y += 10;
+
+    if (data.topCompetitors.length === 0) {
+      text(MARGIN, y, strings.noCompetitors, { size: 10, color: COLORS.muted });
+      y += 34;
+      continue;
+    }
+
+    // Competitor table with bars relative to the largest value (brand included)
+    const nameWidth = 150;
+    const barX = MARGIN + nameWidth;
+    const barMaxWidth = contentWidth - nameWidth - 130;
+    const valueX = barX + barMaxWidth + 10;
+    const changeX = PAGE_WIDTH - MARGIN - 50;
+    const maxValue = Math.max(data.brandValue, ...data.topCompetitors.map((c) => c.value), 1);
+
+    ensureSpace(40);
+    text(MARGIN, y, strings.competitor, { size: 9, font: 'bold', color: COLORS.muted });
+    text(valueX, y, strings.value, { size: 9, font: 'bold', color: COLORS.muted });
+    text(changeX, y, strings.change, { size: 9, font: 'bold', color: COLORS.muted });
+    y += 6;
+    drawLine(MARGIN, y, PAGE_WIDTH - MARGIN, y, COLORS.border);
+    y += 14;
+
+    const rows = [
+      { name: report.brandName, value: data.brandValue, change: data.brandPercentageChange, isBrand: true },
+      ...data.topCompetitors.map((c) => ({ name: c.name, value: c.value, change: c.percentageChange, isBrand: false })),
+    ];
+
+    for (const row of rows) {
+      ensureSpace(18);
+      const name = row.name.length > 28 ? `${row.name.slice(0, 27)}…` : row.name;
+      text(MARGIN, y, name, { size: 9, font: row.isBrand ? 'bold' : 'regular' });
+      rect(barX, y - 8, Math.max((row.value / maxValue) * barMaxWidth, 1), 9, row.isBrand ? brandBar : COLORS.bar);
+      text(valueX, y, formatSectionValue(key, row.value, report.locale), { size: 9 });
+      text(changeX, y, formatChange(row.change, report.locale), {
+        size: 9,
+        color: row.change > 0 ? COLORS.up : row.change < 0 ? COLORS.down : COLORS.muted,
+      });
+      y += 18;
+    }
+    y += 24;
+  }
+
+  const recommendations = report.insights.recommendations || [];
+  if (recommendations.length > 0) {
+    ensureSpace(60);
+    text(MARGIN, y, strings.recommendations, { size: 15, font: 'bold' });
+    y += 26;
+
+    recommendations.forEach((recommendation, index) => {
+      const lines = wrapText(stripCitations(recommendation), contentWidth - 20, 10);
+      ensureSpace(lines.length * 14 + 8);
+      text(MARGIN, y, `${index + 1}.`, { size: 10, font: 'bold', color: primary });
+      for (const line of lines) {
+        text(MARGIN + 20, y, line, { size: 10 });
+        y += 14;
+      }
+      y += 8;
+    });
+    y += 16;
+  }
+
+  // Tracked competitors that showed up in AI answers
+  if (isVisible('new_competitors')) {
+    ensureSpace(60);
+    text(MARGIN, y, strings.trackedCompetitors, { size: 15, font: 'bold' });
+    y += 26;
+
+    if (report.data.newCompetitors.length === 0) {
+      text(MARGIN, y, strings.noTrackedCompetitors, { size: 10, color: COLORS.muted });
+    } else {
+      for (const competitor of report.data.newCompetitors.slice(0, 25)) {
+        const platforms = competitor.platforms.filter((platform) => !branding.hidden_platforms.includes(platform));
+        ensureSpace(18);
+        text(MARGIN, y, competitor.name, { size: 10, font: 'bold' });
+        text(
+          MARGIN + 170,
+          y,
+          [`${competitor.mentions.toLocaleString(report.locale)} ${strings.mentions}`, platforms.join(', ')]
+            .filter(Boolean)
+            .join(' · '),
+          { size: 9, color: COLORS.muted }
+        );
+        y += 18;
+      }
+    }
+    y += 24;
+  }
+
+  // Footer / disclaimer after the content
+  if (branding.footer_text) {
+    const footerLines = wrapText(branding.footer_text, contentWidth, 8);
+    ensureSpace(footerLines.length * 11 + 16);
+    drawLine(MARGIN, y, PAGE_WIDTH - MARGIN, y, COLORS.border);
+    y += 16;
+    for (const line of footerLines) {
+      text(MARGIN, y, line, { size: 8, color: COLORS.muted });
+      y += 11;
+    }
+  }
+
+  // Footers once the page count is known (the cover has none)
+  const generatedAt = `${strings.generated} ${formatDate(new Date(), report.locale, report.timezone)}`;
+  const pageCount = doc.bufferedPageRange().count;
+  for (let page = hasCover ? 1 : 0; page < pageCount; page++) {
+    doc.switchToPage(page);
+    const footer = `${strings.page} ${page + 1} / ${pageCount}`;
+    text(MARGIN, PAGE_HEIGHT - 28, generatedAt, { size: 8, color: COLORS.muted });
+    text(PAGE_WIDTH - MARGIN - textWidth(footer, 8), PAGE_HEIGHT - 28, footer, { size: 8, color: COLORS.muted });
+  }
+
+  doc.end();
+  return rendered;
+}
+
+// =============================================
+// EMAIL
+// =============================================
+
+/**
+ * Email carrying the rendered PDF
+ */
+export function buildReportEmail(report: RenderableReport, recipients: string[], pdf: Uint8Array): EmailMessage {
+  const strings = STRINGS[report.locale];
+  const dateRange = formatReportDateRange(report);
+
+  const lines = [
+    strings.emailIntro(report.brandName, strings.periodLabels[report.period]),
+    '',
+    `${strings.topic}: ${report.topicName || strings.allTopics}`,
+    dateRange,
+    '',
+    strings.emailAttachment,
+  ];
+  if (process.env.DASHBOARD_URL) {
+    lines.push('', `${strings.emailLink}: ${process.env.DASHBOARD_URL}/dashboard/reports/${report.id}`);
+  }
+  if (report.branding?.footer_text) {
+    lines.push('', '--', report.branding.footer_text);
+  }
+
+  const fileDate = report.createdAt.slice(0, 10);
+  const fileBrand = report.brandName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+
+  return {
+    to: recipients,
+    subject: `[${report.brandName}] ${strings.title} · ${dateRange}`,
+    text: lines.join('\n'),
+    fromName: report.branding?.sender_name || undefined,
+    attachments: [
+      {
+        filename: `${fileBrand}-${report.period}-${fileDate}.pdf`,
+        content: pdf,
+        contentType: 'application/pdf',
+      },
+    ],
+  };
+}
@@ -0,0 +1,267 @@
+// =============================================
+// REPORT SCHEDULES
+// =============================================
+// Recurring detailed reports stored in report_schedules. schedule-reports ticks
+// hourly and sends reports/generate for every due schedule (the dashboard's
+// "Send now" sends it directly); generate-scheduled-report builds the report,
+// and its grounded insights (see report-insights.ts), saves it in reports,
+// renders the PDF and emails it to the recipients, all with the workspace's
+// white-label branding.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLocalTime } from './schedules';
+import { buildDetailedReportData, type DetailedReportData, type ReportPeriod } from './report-data';
+import { buildReportEmail, renderReportPdf, type ReportInsights, type ReportLocale } from './report-rendering';
+import { generateReportInsights } from './report-insights';
+import { sendEmail, type EmailResult } from './email';
+import { fetchBrandingLogo, getProjectBranding } from './branding';
+
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'paused';
+export type ReportScheduleStatus = 'sent' | 'skipped' | 'failed';
+
+export interface ReportSchedule {
+  id: string;
+  project_id: string;
+  period: ReportPeriod;
+  topic_id: string | null;
+  recipients: string[];
+  frequency: ReportScheduleFrequency;
+  hour_of_day: number;
+  day_of_week: number; // 0 = Sunday
+  day_of_month: number;
+  timezone: string;
+  locale: ReportLocale;
+  last_run_at: string | null;
+  created_by: string;
+}
+
+export interface ScheduledReport {
+  report_id: string;
+  schedule_id: string;
+  project_id: string;
+}
+
+const SCHEDULE_COLUMNS =
+  'id, project_id, period, topic_id, recipients, frequency, hour_of_day, day_of_week, day_of_month, timezone, locale, last_run_at, created_by';
+
+// A schedule claimed less than this long ago is not due again (cron replays)
+const MIN_RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+// =============================================
+// DUE CHECK
+// =============================================
+
+/**
+ * Whether a schedule should send at this (hourly) tick
+ */
+export function isReportScheduleDue(schedule: ReportSchedule, now: Date): boolean {
+  if (schedule.frequency === 'paused') return false;
+  if (schedule.last_run_at && now.getTime() - new Date(schedule.last_run_at).getTime() < MIN_RUN_INTERVAL_MS) {
+    return false;
+  }
+
+  const local = getLocalTime(now, schedule.timezone);
+  if (local.hour !== schedule.hour_of_day) return false;
+  if (schedule.frequency === 'weekly') return local.weekday === schedule.day_of_week;
+  if (schedule.frequency === 'monthly') return local.day === schedule.day_of_month;
+  return true;
+}
+
+/**
+ * Due schedules, marked as run so the next tick doesn't pick them again
+ */
+export async function claimDueReportSchedules(supabase: SupabaseClient, now: Date): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .neq('frequency', 'paused');
+
+  if (error) {
+    throw new Error(`Failed to fetch report schedules: ${error.message}`);
+  }
+
+  const due = ((data || []) as ReportSchedule[]).filter((schedule) => isReportScheduleDue(schedule, now));
+  if (due.length === 0) return [];
+
+  const { error: claimError } = await supabase
+    .from('report_schedules')
+    .update({ last_run_at: now.toISOString() })
+    .in('id', due.map((schedule) => schedule.id));
+
+  if (claimError) {
+    throw new Error(`Failed to claim report schedules: ${claimError.message}`);
+  }
+
+  return due.map((schedule) => schedule.id);
+}
+
+// =============================================
+// GENERATION
+// =============================================
+
+async function loadSchedule(supabase: SupabaseClient, scheduleId: string): Promise<ReportSchedule | null> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .eq('id', scheduleId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch report schedule: ${error.message}`);
+  }
+  return data as ReportSchedule | null;
+}
+
+async function loadBrandName(supabase: SupabaseClient, projectId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('brand_name, name')
+    .eq('id', projectId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch project: ${error.message}`);
+  }
+  return data.brand_name || data.name || 'Your Brand';
+}
+
+/**
+ * Build a schedule's report and save it in reports
+ * Returns null when the schedule was deleted in the meantime; spendKey is
+ * passed to the insights model call's spend record
+ */
+export async function buildScheduledReport(
+  supabase: SupabaseClient,
+  scheduleId: string,
+  spendKey?: string
+): Promise<ScheduledReport | null> {
+  const schedule = await loadSchedule(supabase, scheduleId);
+  if (!schedule) return null;
+
+  const brandName = await loadBrandName(supabase, schedule.project_id);
+
+  let topicName: string | null = null;
+  if (schedule.topic_id) {
+    const { data: topic } = await supabase.from('topics').select('name').eq('id', schedule.topic_id).maybeSingle();
+    topicName = topic?.name || null;
+  }
+
+  const branding = await getProjectBranding(supabase, schedule.project_id);
+  const data = await buildDetailedReportData(supabase, schedule.project_id, schedule.period, branding.hidden_platforms);
+  const values = {
+    project_id: schedule.project_id,
+    period: schedule.period,
+    topic_id: schedule.topic_id,
+    topic_name: topicName,
+    created_by: schedule.created_by,
+    schedule_id: schedule.id,
+    report_data: data,
+    insights: await generateReportInsights(
+      supabase,
+      schedule.project_id,
+      schedule.period,
+      data,
+      brandName,
+      schedule.locale,
+      branding.hidden_platforms,
+      { spendKey }
+    ),
+  };
+
+  const { data: report, error } = await supabase.from('reports').insert(values).select('id').single();
+
+  if (!error) {
+    return { report_id: report.id, schedule_id: schedule.id, project_id: schedule.project_id };
+  }
+
+  // One report per project, period, topic and day: refresh today's instead
+  if (error.code !== '23505') {
+    throw new Error(`Failed to save report: ${error.message}`);
+  }
+
+  const todayStart = new Date();
+  todayStart.setUTCHours(0, 0, 0, 0);
+
+  let existingQuery = supabase
+    .from('reports')
+    .select('id')
+    .eq('project_id', schedule.project_id)
+    .eq('period', schedule.period)
+    .gte('created_at', todayStart.toISOString());
+  existingQuery = schedule.topic_id
+    ? existingQuery.eq('topic_id', schedule.topic_id)
+    : existingQuery.is('topic_id', null);
+
+  const { data: existing, error: existingError } = await existingQuery.limit(1).maybeSingle();
+  if (existingError || !existing) {
+    throw new Error(`Failed to save report: ${existingError?.message || error.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('reports')
+    .update({ report_data: values.report_data, insights: values.insights, topic_name: topicName, schedule_id: schedule.id })
+    .eq('id', existing.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update report: ${updateError.message}`);
+  }
+
+  return { report_id: existing.id, schedule_id: schedule.id, project_id: schedule.project_id };
+}
+
+/**
+ * Render a saved report as PDF and email it to the schedule's recipients
+ */
+export async function emailScheduledReport(supabase: SupabaseClient, scheduled: ScheduledReport): Promise<EmailResult> {
+  const schedule = await loadSchedule(supabase, scheduled.schedule_id);
+  if (!schedule) return 'skipped';
+
+  const { data: report, error } = await supabase
+    .from('reports')
+    .select('id, period, topic_name, created_at, report_data, insights')
+    .eq('id', scheduled.report_id)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch report: ${error.message}`);
+  }
+
+  const branding = await getProjectBranding(supabase, schedule.project_id);
+  const renderable = {
+    id: report.id,
+    brandName: await loadBrandName(supabase, schedule.project_id),
+    period: report.period as ReportPeriod,
+    topicName: report.topic_name,
+    createdAt: report.created_at,
+    timezone: schedule.timezone,
+    locale: schedule.locale,
+    data: report.report_data as DetailedReportData,
+    insights: report.insights as ReportInsights,
+    branding,
+    logo: await fetchBrandingLogo(branding.logo_url),
+  };
+
+  return sendEmail(buildReportEmail(renderable, schedule.recipients, await renderReportPdf(renderable)));
+}
+
+/**
+ * Store the outcome of a run on the schedule (shown in the dashboard)
+ */
+export async function recordReportScheduleRun(
+  supabase: SupabaseClient,
+  scheduleId: string,
+  result: { status: ReportScheduleStatus; reportId?: string | null; error?: string | null }
+): Promise<void> {
+  const values: Record<string, unknown> = {
+    last_status: result.status,
+    last_error: result.error ? result.error.slice(0, 1000) : null,
+  };
+  if (result.reportId) {
+    values.last_report_id = result.reportId;
+  }
+
+  const { error } = await supabase.from('report_schedules').update(values).eq('id', scheduleId);
+  if (error) {
+    throw new Error(`Failed to record report schedule run: ${error.message}`);
+  }
+}
@@ -0,0 +1,145 @@
+// =============================================
+// ANALYSIS SCHEDULES
+// =============================================
+// Per-project (and optional per-prompt) schedules stored in analysis_schedules.
+// The scheduler ticks hourly and asks isScheduleDue() for every prompt.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIProvider } from './types';
+
+export type ScheduleFrequency = 'hourly' | 'daily' | 'weekly' | 'paused';
+
+export interface AnalysisSchedule {
+  id: string | null; // null = DEFAULT_SCHEDULE, no analysis_schedules row
+  project_id: string;
+  prompt_tracking_id: string | null;
+  frequency: ScheduleFrequency;
+  hour_of_day: number;
+  day_of_week: number; // 0 = Sunday
+  timezone: string;
+  platforms: AIProvider[] | null; // null = every platform enabled for the project
+}
+
+// Used for projects without an analysis_schedules row (previous global cron: 1:00 AM UTC)
+export const DEFAULT_SCHEDULE: Omit<AnalysisSchedule, 'id' | 'project_id' | 'prompt_tracking_id'> = {
+  frequency: 'daily',
+  hour_of_day: 1,
+  day_of_week: 1,
+  timezone: 'UTC',
+  platforms: null,
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// =============================================
+// LOADING
+// =============================================
+
+export interface ScheduleLookup {
+  byProject: Map<string, AnalysisSchedule>;
+  byPrompt: Map<string, AnalysisSchedule>;
+}
+
+/**
+ * Load every schedule once per scheduler run
+ */
+export async function loadSchedules(supabase: SupabaseClient): Promise<ScheduleLookup> {
+  const { data, error } = await supabase
+    .from('analysis_schedules')
+    .select('id, project_id, prompt_tracking_id, frequency, hour_of_day, day_of_week, timezone, platforms');
+
+  if (error) {
+    throw new Error(`Failed to fetch analysis schedules: ${error.message}`);
+  }
+
+  const byProject = new Map<string, AnalysisSchedule>();
+  const byPrompt = new Map<string, AnalysisSchedule>();
+
+  for (const row of (data || []) as AnalysisSchedule[]) {
+    if (row.prompt_tracking_id) {
+      byPrompt.set(row.prompt_tracking_id, row);
+    } else {
+      byProject.set(row.project_id, row);
+    }
+  }
+
+  return { byProject, byPrompt };
+}
+
+/**
+ * Prompt override > project default > DEFAULT_SCHEDULE
+ */
+export function resolveSchedule(
+  lookup: ScheduleLookup,
+  projectId: string,
+  promptId: string
+): AnalysisSchedule {
+  return (
+    lookup.byPrompt.get(promptId) ||
+    lookup.byProject.get(projectId) || {
+      ...DEFAULT_SCHEDULE,
+      id: null,
+      project_id: projectId,
+      prompt_tracking_id: null,
+    }
+  );
+}
+
+// =============================================
+// DUE CHECK
+// =============================================
+
+/**
+ * Local hour, minute, weekday and day of month for a timezone (falls back to UTC for invalid zones)
+ */
+export function getLocalTime(
+  now: Date,
+  timezone: string
+): { hour: number; minute: number; weekday: number; day: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+      weekday: 'short',
+      day: 'numeric',
+    }).formatToParts(now);
+  } catch {
+    return { hour: now.getUTCHours(), minute: now.getUTCMinutes(), weekday: now.getUTCDay(), day: now.getUTCDate() };
+  }
+
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? now.getUTCHours());
+  const minute = Number(parts.find(p => p.type === 'minute')?.value ?? now.getUTCMinutes());
+  const weekday = WEEKDAYS.indexOf(parts.find(p => p.type === 'weekday')?.value || '');
+  const day = Number(parts.find(p => p.type === 'day')?.value ?? now.getUTCDate());
+  return { hour, minute, weekday: weekday >= 0 ? weekday : now.getUTCDay(), day };
+}
+
+/**
+ * Whether a schedule should run at this (hourly) tick
+ */
+export function isScheduleDue(schedule: AnalysisSchedule, now: Date): boolean {
+  if (schedule.frequency === 'paused') return false;
+  if (schedule.frequency === 'hourly') return true;
+
+  const local = getLocalTime(now, schedule.timezone);
+  if (local.hour !== schedule.hour_of_day) return false;
+  if (schedule.frequency === 'weekly') return local.weekday === schedule.day_of_week;
+  return true;
+}
+
+/**
+ * Start of the window in which a prompt counts as already answered
+ * Hourly schedules run once per hour, every other frequency once per day,
+ * both in the schedule's timezone (not the server's).
+ */
+export function getRunWindowStart(schedule: AnalysisSchedule, now: Date): Date {
+  const local = getLocalTime(now, schedule.timezone);
+  const elapsedMinutes = schedule.frequency === 'hourly' ? local.minute : local.hour * 60 + local.minute;
+
+  const start = new Date(now);
+  start.setUTCSeconds(0, 0);
+  return new Date(start.getTime() - elapsedMinutes * 60 * 1000);
+}
@@ -1,5 +1,5 @@
 import { callGemini } from './ai-clients';
-import { waitForRateLimit } from './rate-limiter';
+import { withRateLimit, estimateTokens } from './rate-limiter';
 import { logInfo } from './utils';
 import type { AICompletionResult, AIClientConfig } from './types';
 import { validateThemeName } from './theme-helpers';
@@ -15,14 +15,10 @@ export async function callGeminiWithRetry(
 ): Promise<AICompletionResult> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      // Wait for rate limit before calling Gemini
-      const waitTime = await waitForRateLimit('gemini');
-      if (waitTime > 0 && attempt === 1) {
-        logInfo('sentiment-evaluation', `Waited ${Math.round(waitTime / 1000)}s for Gemini rate limit`);
-      }
-      
-      // Call Gemini
-      return await callGemini(prompt, config);
+      // Call Gemini inside the shared RPM/TPM bucket
+      return await withRateLimit('gemini', config.model, estimateTokens(prompt, config.maxTokens), () =>
+        callGemini(prompt, config)
+      );
     } catch (err: any) {
       const isRateLimit = err?.isRateLimit || err?.statusCode === 429;
       
@@ -0,0 +1,357 @@
+// =============================================
+// SOURCE CLASSIFICATION
+// =============================================
+// Labels cited domains by source type for outreach planning. Built-in rules cover
+// well-known domains and TLDs; unknown domains are classified in batches by
+// Gemini (classify-citation-sources). Results are cached globally in
+// domain_categories, while project admins can override them per project in
+// domain_category_overrides.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { callGemini } from './ai-clients';
+import { withRateLimit, estimateTokens } from './rate-limiter';
+import { logError } from './utils';
+
+// =============================================
+// TYPES
+// =============================================
+
+export type SourceCategory =
+  | 'review_site'
+  | 'marketplace'
+  | 'news'
+  | 'forum'
+  | 'wikipedia'
+  | 'social'
+  | 'government'
+  | 'affiliate_blog'
+  | 'corporate'
+  | 'other';
+
+export const SOURCE_CATEGORIES: SourceCategory[] = [
+  'review_site',
+  'marketplace',
+  'news',
+  'forum',
+  'wikipedia',
+  'social',
+  'government',
+  'affiliate_blog',
+  'corporate',
+  'other',
+];
+
+export interface DomainToClassify {
+  domain: string;
+  sampleUrl: string | null;
+  sampleText: string | null;
+}
+
+export interface KnownCategories {
+  overrides: Map<string, SourceCategory>; // Project admin overrides
+  cached: Map<string, SourceCategory>; // Global rule/LLM cache
+}
+
+export interface LLMClassificationResult {
+  categories: Map<string, SourceCategory>;
+  model: string;
+  tokens: number;
+  cost: number;
+}
+
+// =============================================
+// BUILT-IN RULES
+// =============================================
+
+// Matched against the domain and its parent domains (news.bbc.co.uk -> bbc.co.uk)
+const KNOWN_DOMAINS: Record<string, SourceCategory> = {
+  // Wikipedia
+  'wikipedia.org': 'wikipedia',
+  'wikimedia.org': 'wikipedia',
+  'wikidata.org': 'wikipedia',
+
+  // Forums & UGC
+  'reddit.com': 'forum',
+  'quora.com': 'forum',
+  'stackoverflow.com': 'forum',
+  'stackexchange.com': 'forum',
+  'news.ycombinator.com': 'forum',
+  'medium.com': 'forum',
+  'substack.com': 'forum',
+  'forocoches.com': 'forum',
+
+  // Social networks
+  'facebook.com': 'social',
+  'instagram.com': 'social',
+  'x.com': 'social',
+  'twitter.com': 'social',
+  'linkedin.com': 'social',
+  'youtube.com': 'social',
+  'tiktok.com': 'social',
+  'pinterest.com': 'social',
+  'threads.net': 'social',
+
+  // Review sites
+  'trustpilot.com': 'review_site',
+  'g2.com': 'review_site',
+  'capterra.com': 'review_site',
+  'getapp.com': 'review_site',
+  'softwareadvice.com': 'review_site',
+  'trustradius.com': 'review_site',
+  'yelp.com': 'review_site',
+  'tripadvisor.com': 'review_site',
+  'glassdoor.com': 'review_site',
+  'sitejabber.com': 'review_site',
+  'consumerreports.org': 'review_site',
+  'rtings.com': 'review_site',
+  'ocu.org': 'review_site',
+
+  // Marketplaces
+  'ebay.com': 'marketplace',
+  'etsy.com': 'marketplace',
+  'aliexpress.com': 'marketplace',
+  'walmart.com': 'marketplace',
+  'bestbuy.com': 'marketplace',
+  'target.com': 'marketplace',
+  'temu.com': 'marketplace',
+  'shein.com': 'marketplace',
+  'rakuten.com': 'marketplace',
+  'elcorteingles.es': 'marketplace',
+  'pccomponentes.com': 'marketplace',
+
+  // News & media
+  'nytimes.com': 'news',
+  'washingtonpost.com': 'news',
+  'wsj.com': 'news',
+  'reuters.com': 'news',
+  'apnews.com': 'news',
+  'bloomberg.com': 'news',
+  'cnn.com': 'news',
+  'cnbc.com': 'news',
+  'bbc.com': 'news',
+  'bbc.co.uk': 'news',
+  'theguardian.com': 'news',
+  'ft.com': 'news',
+  'economist.com': 'news',
+  'forbes.com': 'news',
+  'businessinsider.com': 'news',
+  'techcrunch.com': 'news',
+  'theverge.com': 'news',
+  'wired.com': 'news',
+  'time.com': 'news',
+  'usatoday.com': 'news',
+  'elpais.com': 'news',
+  'elmundo.es': 'news',
+  'lavanguardia.com': 'news',
+  'expansion.com': 'news',
+  'abc.es': 'news',
+  '20minutos.es': 'news',
+  'lemonde.fr': 'news',
+
+  // Affiliate & comparison blogs
+  'nerdwallet.com': 'affiliate_blog',
+  'bankrate.com': 'affiliate_blog',
+  'techradar.com': 'affiliate_blog',
+  'tomsguide.com': 'affiliate_blog',
+  'pcmag.com': 'affiliate_blog',
+};
+
+// Brands with one storefront per country (amazon.es, mercadolibre.com.mx)
+const MARKETPLACE_PATTERN = /^(amazon|ebay|mercadolibre|mercadolivre|zalando|allegro|otto)\.[a-z.]+$/;
+
+// Government TLDs: .gov, .gov.uk, .gob.es, .gouv.fr, .gc.ca, .europa.eu, .mil
+const GOVERNMENT_PATTERN = /(^|\.)(gov|gob|gouv|gv|mil)(\.[a-z]{2})?$|\.gc\.ca$|(^|\.)europa\.eu$|\.admin\.ch$/;
+
+/**
+ * Classify a normalized domain with the built-in rules
+ * @returns The category, or null when the domain is unknown
+ */
+export function classifyDomainByRules(domain: string): SourceCategory | null {
+  if (GOVERNMENT_PATTERN.test(domain)) return 'government';
+  if (MARKETPLACE_PATTERN.test(domain)) return 'marketplace';
+
+  // Walk up the parent domains: es.wikipedia.org -> wikipedia.org
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (KNOWN_DOMAINS[candidate]) return KNOWN_DOMAINS[candidate];
+  }
+
+  return null;
+}
+
+// =============================================
+// CACHE & OVERRIDES
+// =============================================
+
+/**
+ * Load the project's overrides and the globally cached categories of a set of
+ * normalized domains
+ */
+export async function getKnownCategories(
+  supabase: SupabaseClient,
+  projectId: string,
+  domains: string[]
+): Promise<KnownCategories> {
+  const known: KnownCategories = { overrides: new Map(), cached: new Map() };
+  if (domains.length === 0) return known;
+
+  const [cacheResult, overrideResult] = await Promise.all([
+    supabase.from('domain_categories').select('domain, category').in('domain', domains),
+    supabase
+      .from('domain_category_overrides')
+      .select('domain, category')
+      .eq('project_id', projectId)
+      .in('domain', domains),
+  ]);
+
+  if (cacheResult.error) {
+    logError('source-classification', 'Failed to load domain categories', cacheResult.error);
+  }
+  if (overrideResult.error) {
+    logError('source-classification', 'Failed to load domain category overrides', overrideResult.error);
+  }
+
+  for (const row of cacheResult.data || []) known.cached.set(row.domain, row.category as SourceCategory);
+  for (const row of overrideResult.data || []) known.overrides.set(row.domain, row.category as SourceCategory);
+
+  return known;
+}
+
+/**
+ * Resolve the category of one citation, with the same precedence as the
+ * apply_domain_categories RPC: override, brand/competitor site, cache, rules
+ * @returns The category, or null when the domain needs LLM classification
+ */
+export function resolveSourceCategory(
+  domain: string | null,
+  citationType: 'brand' | 'competitor' | 'other',
+  known: KnownCategories
+): SourceCategory | null {
+  if (domain && known.overrides.has(domain)) return known.overrides.get(domain)!;
+  if (citationType !== 'other') return 'corporate';
+  if (!domain) return null;
+  return known.cached.get(domain) || classifyDomainByRules(domain);
+}
+
+/**
+ * Cache rule or LLM categories globally
+ * Never throws - a failed cache write only means the domain is classified again
+ */
+export async function cacheDomainCategories(
+  supabase: SupabaseClient,
+  categories: Map<string, SourceCategory>,
+  origin: 'rule' | 'llm',
+  model: string | null = null
+): Promise<void> {
+  if (categories.size === 0) return;
+
+  const classifiedAt = new Date().toISOString();
+  const { error } = await supabase.from('domain_categories').upsert(
+    Array.from(categories.entries()).map(([domain, category]) => ({
+      domain,
+      category,
+      origin,
+      model,
+      classified_at: classifiedAt,
+    })),
+    { onConflict: 'domain' }
+  );
+
+  if (error) {
+    logError('source-classification', `Failed to cache ${origin} domain categories`, error);
+  }
+}
+
+// =============================================
+// LLM CLASSIFICATION
+// =============================================
+
+const CATEGORY_DEFINITIONS = `- review_site: user or expert review and rating platforms (Trustpilot, G2, Yelp)
+- marketplace: sites where third parties sell products (Amazon, eBay, Etsy)
+- news: news outlets, magazines and trade press
+- forum: forums, Q&A and user-generated content (Reddit, Quora, community sites, personal blogs on platforms)
+- wikipedia: Wikipedia and other wikis
+- social: social networks and video platforms
+- government: government, public administration and regulators
+- affiliate_blog: blogs and comparison sites that rank or review products to earn affiliate commissions ("best X of 2025")
+- corporate: a company's or brand's own website, including its blog and docs
+- other: anything else (education, tools, directories, unknown)`;
+
+function buildClassificationPrompt(domains: DomainToClassify[]): string {
+  const list = domains
+    .map((d) => {
+      const context = [d.sampleUrl ? `url: ${d.sampleUrl}` : null, d.sampleText ? `cited text: ${d.sampleText}` : null]
+        .filter(Boolean)
+        .join(' | ');
+      return `- ${d.domain}${context ? ` (${context})` : ''}`;
+    })
+    .join('\n');
+
+  return `Classify each website domain below by source type. These domains were cited as sources by AI assistants.
+
+Categories:
+${CATEGORY_DEFINITIONS}
+
+Domains:
+${list}
+
+Respond ONLY with a JSON object mapping every domain to one category key, for example:
+{"example.com": "news", "shop.example.org": "marketplace"}`;
+}
+
+/**
+ * Classify unknown domains with Gemini
+ * Domains missing from the answer or with an invalid category fall back to 'other'
+ * Throws when Gemini fails or returns unparseable JSON
+ */
+export async function classifyDomainsWithLLM(
+  domains: DomainToClassify[],
+  apiKey: string
+): Promise<LLMClassificationResult> {
+  const prompt = buildClassificationPrompt(domains);
+  const config = {
+    apiKey,
+    model: 'gemini-2.5-flash-lite',
+    temperature: 0.1,
+    maxTokens: 2000,
+    useWebSearch: false,
+    fixture: 'source-classification',
+  };
+
+  const result = await withRateLimit('gemini', config.model, estimateTokens(prompt, config.maxTokens), () =>
+    callGemini(prompt, config)
+  );
+
+  const jsonMatch = result.text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Source classification returned no JSON object');
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    throw new Error(`Failed to parse source classification JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const answers = new Map<string, string>(
+    Object.entries(parsed).map(([domain, category]) => [domain.toLowerCase().replace(/^www\./, ''), String(category)])
+  );
+
+  const categories = new Map<string, SourceCategory>();
+  for (const { domain } of domains) {
+    const answer = answers.get(domain);
+    categories.set(
+      domain,
+      answer && SOURCE_CATEGORIES.includes(answer as SourceCategory) ? (answer as SourceCategory) : 'other'
+    );
+  }
+
+  return {
+    categories,
+    model: result.model,
+    tokens: result.tokens_used,
+    cost: result.cost,
+  };
+}
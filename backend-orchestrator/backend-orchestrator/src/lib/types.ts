@@ -101,6 +101,7 @@ export interface AIClientConfig {
   maxTokens?: number;
   region?: string; // Optional region for regional context
   useWebSearch?: boolean; // If false, OpenAI will not use web_search tool (for sector rankings)
+  fixture?: string; // AI_MODE=mock fixture for unrecorded prompts (<provider>/<fixture>.json)
 }
 
 export interface AICompletionResult {
@@ -158,6 +159,7 @@ export interface CitationData {
   web_search_query?: string; // Web search query used (from Gemini webSearchQueries)
   uri?: string; // Original URI from Vertex (Gemini) or similar
   url?: string; // Real URL after transforming URI if needed
+  canonical_url?: string; // url after redirect resolution and canonicalization (url-canonicalization.ts)
   domain?: string; // Domain extracted from title (Gemini) or URL
   start_index?: number; // Start index of cited text fragment
   end_index?: number; // End index of cited text fragment
@@ -197,6 +199,51 @@ export interface OpenAICitation {
   title?: string;
 }
 
+/**
+ * Perplexity chat completion fields used for citation extraction
+ */
+export interface PerplexityCitationResponse {
+  citations?: string[];
+  search_results?: Array<{
+    title?: string;
+    url?: string;
+    date?: string;
+  }>;
+}
+
+/**
+ * Claude Messages API content blocks used for citation extraction (web_search tool)
+ */
+export type ClaudeContentBlock =
+  | {
+      type: 'text';
+      text?: string;
+      citations?: Array<{
+        type: string;
+        url?: string;
+        title?: string;
+        cited_text?: string;
+      }>;
+    }
+  | {
+      type: 'server_tool_use';
+      name?: string;
+      input?: { query?: string };
+    }
+  | {
+      type: 'web_search_tool_result';
+      content?: Array<{
+        type: string;
+        url?: string;
+        title?: string;
+        page_age?: string;
+      }> | { type: string; error_code?: string };
+    };
+
+export interface ClaudeCitationResponse {
+  content?: ClaudeContentBlock[];
+}
+
 // =============================================
 // BRAND ANALYSIS TYPES
 // =============================================
@@ -217,6 +264,19 @@ export interface BrandAnalysisResult {
   };
   competitor_attributes: CompetitorAttributes[];
   other_brands_detected: string[];
+  entity_rankings: EntityRanking[]; // Client brand and competitors placed in a ranked list or recommended
+  usage?: {
+    // Gemini call behind this analysis (recorded in ai_spend_ledger)
+    model: string;
+    tokens_used: number;
+    cost: number;
+  };
+}
+
+export interface EntityRanking {
+  entity: string; // Client brand or competitor name
+  position: number | null; // 1-based position in the ranked list, null when not ranked
+  is_recommended: boolean; // The answer explicitly recommends this entity
 }
 
 export interface CompetitorSentiment {
@@ -243,6 +303,10 @@ export interface BrandMentionData {
   start_index?: number;
   end_index?: number;
   confidence_score: number;
+  ranking_position?: number | null;
+  is_recommended?: boolean;
+  is_first_mention?: boolean;
+  is_first_occurrence?: boolean;
   metadata?: Record<string, any>;
 }
 
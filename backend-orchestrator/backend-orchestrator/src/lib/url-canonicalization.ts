@@ -0,0 +1,236 @@
+// =============================================
+// URL CANONICALIZATION
+// =============================================
+// Gives every citation a canonical_url so page-level queries count a page once,
+// whatever tracking params, host spelling or redirect it was cited through:
+//   1. Resolve redirects: Gemini's vertexaisearch grounding redirects are followed
+//      over the network (one request, no body); wrapper links that carry the target
+//      in a query param (google.com/url?q=...) are unwrapped locally
+//   2. Canonicalize: https, lowercase host without www. or default port, no
+//      fragment, no tracking params, sorted query, no trailing slash
+// canonicalize_url() in SQL applies step 2 with the same rules to backfill rows.
+//
+// Redirect lookups follow AI_MODE like the provider clients: mock reads the stub
+// at AI_FIXTURES_DIR/redirects.json instead of the network, record writes every
+// resolved redirect to it.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { CitationData } from './types';
+import { getAIMode, getFixturesDir } from './ai-fixtures';
+import { extractDomainFromTitleOrUrl } from './citation-extraction';
+import { logInfo, logError } from './utils';
+
+// Redirect requests per batch and per-request timeout
+const RESOLVE_CONCURRENCY = 5;
+const RESOLVE_TIMEOUT_MS = 5000;
+
+// =============================================
+// CANONICAL FORM
+// =============================================
+
+// Query params that only identify the referrer or campaign
+const TRACKING_PARAM_PATTERN =
+  /^(utm_.+|gclid|gclsrc|dclid|gbraid|wbraid|fbclid|msclkid|yclid|twclid|ttclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|__hstc|__hssc|__hsfp|hsctatracking|ref|ref_src|ref_url|referrer|srsltid|spm|scid|si|trk|trkcampaign|sr_share|oly_anon_id|oly_enc_id|vero_id|wickedid|s_kwcid|ef_id|mkt_tok)$/i;
+
+/**
+ * Canonical form of a URL, or null when it can't be parsed
+ * https://WWW.Example.com:443/Docs/?utm_source=openai&b=2&a=1#intro -> https://example.com/Docs?a=1&b=2
+ */
+export function canonicalizeUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+
+  let parsed: URL;
+  try {
+    const trimmed = url.trim();
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  // URL already lowercases the host and drops the scheme's default port
+  const host = parsed.hostname.replace(/^www\./, '');
+  const port = parsed.port && parsed.port !== '80' && parsed.port !== '443' ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  // Raw key=value pairs, sorted by code unit (COLLATE "C" in SQL) without re-encoding
+  const params = parsed.search
+    .slice(1)
+    .split('&')
+    .filter((param) => {
+      const key = param.split('=')[0];
+      return key !== '' && !TRACKING_PARAM_PATTERN.test(key);
+    })
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = params.length > 0 ? `?${params.join('&')}` : '';
+
+  return `https://${host}${port}${path}${query}`;
+}
+
+// =============================================
+// REDIRECT RESOLUTION
+// =============================================
+
+// Redirect services that are followed over the network
+const NETWORK_REDIRECT_PATTERN = /^https?:\/\/vertexaisearch\.cloud\.google\.com\/grounding-api-redirect\//i;
+
+// Wrapper links carrying the target URL in a query param
+const WRAPPER_PARAMS: { pattern: RegExp; param: string }[] = [
+  { pattern: /^https?:\/\/(www\.)?google\.[a-z.]+\/url\?/i, param: 'q' },
+  { pattern: /^https?:\/\/l\.facebook\.com\/l\.php\?/i, param: 'u' },
+  { pattern: /^https?:\/\/(www\.)?linkedin\.com\/redir\/redirect\?/i, param: 'url' },
+];
+
+/**
+ * Whether a URL is a redirect that resolveRedirect can try to follow
+ */
+export function isResolvableRedirect(url: string | null | undefined): boolean {
+  if (!url) return false;
+  return NETWORK_REDIRECT_PATTERN.test(url) || WRAPPER_PARAMS.some(({ pattern }) => pattern.test(url));
+}
+
+// Resolved targets for this process, so a source cited twice is requested once
+const resolvedCache = new Map<string, string | null>();
+const RESOLVED_CACHE_LIMIT = 5000;
+
+// Stub for mock/record mode: { "<redirect url>": "<target url>" }
+let redirectStub: Record<string, string> | null = null;
+
+function getRedirectStubPath(): string {
+  return join(getFixturesDir(), 'redirects.json');
+}
+
+function loadRedirectStub(): Record<string, string> {
+  if (redirectStub) return redirectStub;
+  const path = getRedirectStubPath();
+  redirectStub = existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as Record<string, string>) : {};
+  return redirectStub;
+}
+
+function recordRedirect(url: string, target: string): void {
+  try {
+    const stub = loadRedirectStub();
+    stub[url] = target;
+    mkdirSync(getFixturesDir(), { recursive: true });
+    writeFileSync(getRedirectStubPath(), JSON.stringify(stub, null, 2));
+  } catch (error) {
+    // Recording must never break a live run
+    logError('url-canonicalization', 'Failed to record redirect', error);
+  }
+}
+
+async function fetchRedirectTarget(url: string): Promise<string | null> {
+  // HEAD first; some redirect services only answer GET
+  for (const method of ['HEAD', 'GET']) {
+    const response = await fetch(url, {
+      method,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+    });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      return new URL(location, url).toString();
+    }
+    if (response.status !== 405) return null;
+  }
+  return null;
+}
+
+/**
+ * Target of a redirect URL, or null when it isn't a known redirect or can't be
+ * resolved (network error, timeout, no Location header, missing stub entry)
+ * Never throws
+ */
+export async function resolveRedirect(url: string): Promise<string | null> {
+  if (resolvedCache.has(url)) return resolvedCache.get(url)!;
+
+  let target: string | null = null;
+
+  const wrapper = WRAPPER_PARAMS.find(({ pattern }) => pattern.test(url));
+  if (wrapper) {
+    try {
+      target = new URL(url).searchParams.get(wrapper.param);
+    } catch {
+      target = null;
+    }
+  } else if (NETWORK_REDIRECT_PATTERN.test(url)) {
+    const mode = getAIMode();
+    if (mode === 'mock') {
+      target = loadRedirectStub()[url] || null;
+    } else {
+      try {
+        target = await fetchRedirectTarget(url);
+      } catch (error) {
+        logError('url-canonicalization', 'Failed to resolve redirect', {
+          url,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      if (target && mode === 'record') recordRedirect(url, target);
+    }
+  }
+
+  if (resolvedCache.size >= RESOLVED_CACHE_LIMIT) resolvedCache.clear();
+  resolvedCache.set(url, target);
+  return target;
+}
+
+// =============================================
+// CITATIONS
+// =============================================
+
+/**
+ * Resolve redirects and set canonical_url on each citation
+ * A resolved redirect replaces the url and domain guessed from the source title;
+ * citations that can't be resolved keep them and are canonicalized as they are
+ */
+export async function canonicalizeCitations(citations: CitationData[]): Promise<CitationData[]> {
+  const redirects = Array.from(
+    new Set(
+      citations
+        .flatMap((citation) => [citation.uri, citation.url])
+        .filter((url): url is string => isResolvableRedirect(url))
+    )
+  );
+
+  const targets = new Map<string, string | null>();
+  for (let i = 0; i < redirects.length; i += RESOLVE_CONCURRENCY) {
+    await Promise.all(
+      redirects.slice(i, i + RESOLVE_CONCURRENCY).map(async (url) => {
+        targets.set(url, await resolveRedirect(url));
+      })
+    );
+  }
+
+  let resolved = 0;
+  const canonicalized = citations.map((citation) => {
+    const redirect = [citation.uri, citation.url].find((url) => isResolvableRedirect(url));
+    const target = redirect ? targets.get(redirect) : null;
+
+    if (target) {
+      resolved++;
+      return {
+        ...citation,
+        url: target,
+        domain: extractDomainFromTitleOrUrl(undefined, target) || citation.domain,
+        canonical_url: canonicalizeUrl(target) || undefined,
+        metadata: { ...citation.metadata, resolved_from: redirect },
+      };
+    }
+
+    // An unresolved redirect is not a page; fall back to the title-based url
+    const pageUrl = isResolvableRedirect(citation.url) ? undefined : citation.url;
+    return {
+      ...citation,
+      canonical_url: canonicalizeUrl(pageUrl) || undefined,
+    };
+  });
+
+  if (redirects.length > 0) {
+    logInfo('url-canonicalization', `Resolved ${resolved} of ${redirects.length} redirect URLs`);
+  }
+
+  return canonicalized;
+}
@@ -3,6 +3,8 @@
 // =============================================
 
 import { createClient } from '@supabase/supabase-js';
+import { getProvider } from './provider-registry';
+import type { AIProvider } from './types';
 
 // =============================================
 // SUPABASE CLIENT
@@ -58,15 +60,8 @@ export function logError(context: string, message: string, error?: any) {
 // =============================================
 
 export function calculateCost(provider: string, tokens: number): number {
-  // Simplified cost calculation (per 1K tokens)
-  const costPer1K: Record<string, number> = {
-    openai: 0.002, // GPT-4 Turbo pricing
-    gemini: 0.001, // Gemini Pro pricing
-    claude: 0.003, // Claude 3 pricing
-    perplexity: 0.0015, // Perplexity pricing
-  };
-
-  const rate = costPer1K[provider] || 0.002;
+  // Simplified cost calculation (per 1K tokens), rates come from the provider registry
+  const rate = getProvider(provider as AIProvider)?.costPer1K ?? 0.002;
   return (tokens / 1000) * rate;
 }
 
@@ -0,0 +1,286 @@
+// =============================================
+// WEBHOOKS
+// =============================================
+// Outbound webhooks configured per workspace (webhook_endpoints). Functions call
+// queueWebhookEvents, which stores one pending webhook_deliveries row per
+// subscribed endpoint and returns the webhooks/deliver events to send; the
+// deliver-webhook function POSTs each delivery and Inngest retries failures.
+//
+// Every request is signed with the endpoint secret:
+//   X-Webhook-Timestamp: unix seconds
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+// Receivers recompute the HMAC and reject old timestamps to prevent replays.
+//
+// Endpoints must be public https URLs (see outbound-urls.ts), checked again on
+// every attempt and connected to at the checked address; redirects are not followed.
+
+import { createHmac } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isMockMode } from './ai-fixtures';
+import { requestPublicUrl, UnsafeUrlError } from './outbound-urls';
+import { logInfo, logError } from './utils';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// Keep in sync with the CHECK on webhook_endpoints.events and the dashboard (src/lib/constants/webhooks.ts)
+export const WEBHOOK_EVENT_TYPES = [
+  'analysis.batch_completed',
+  'response.stored',
+  'mention.detected',
+  'competitor.discovered',
+  'report.generated',
+  'alert.fired',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed' | 'skipped';
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDeliverEvent {
+  name: 'webhooks/deliver';
+  data: { delivery_id: string };
+}
+
+/**
+ * Error for deliveries a retry can't fix: 3xx, 4xx other than 408/429, or an
+ * endpoint URL that isn't public
+ */
+export class PermanentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentWebhookError';
+  }
+}
+
+/**
+ * Signature sent in X-Webhook-Signature
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Store one pending delivery per active endpoint of the project's workspace
+ * subscribed to each event, and return the events that deliver them.
+ * Never throws - webhooks must not fail the pipeline that emits them.
+ */
+export async function queueWebhookEvents(
+  supabase: SupabaseClient,
+  projectId: string,
+  events: WebhookEvent[]
+): Promise<WebhookDeliverEvent[]> {
+  if (events.length === 0) return [];
+
+  try {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('workspace_id')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      logError('webhooks', `Failed to load workspace of project ${projectId}`, projectError);
+      return [];
+    }
+
+    const { data: endpoints, error: endpointsError } = await supabase
+      .from('webhook_endpoints')
+      .select('id, events')
+      .eq('workspace_id', project.workspace_id)
+      .eq('is_active', true);
+
+    if (endpointsError) {
+      logError('webhooks', 'Failed to load webhook endpoints', endpointsError);
+      return [];
+    }
+
+    if (!endpoints || endpoints.length === 0) return [];
+
+    const rows = [];
+    for (const event of events) {
+      const subscribed = endpoints.filter((endpoint) => (endpoint.events as string[]).includes(event.type));
+      if (subscribed.length === 0) continue;
+
+      const eventId = crypto.randomUUID();
+      const payload = {
+        id: eventId,
+        type: event.type,
+        created_at: new Date().toISOString(),
+        workspace_id: project.workspace_id,
+        project_id: projectId,
+        data: event.data,
+      };
+
+      for (const endpoint of subscribed) {
+        rows.push({
+          endpoint_id: endpoint.id,
+          workspace_id: project.workspace_id,
+          project_id: projectId,
+          event_id: eventId,
+          event_type: event.type,
+          payload,
+        });
+      }
+    }
+
+    if (rows.length === 0) return [];
+
+    const { data: deliveries, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(rows)
+      .select('id');
+
+    if (insertError) {
+      logError('webhooks', 'Failed to queue webhook deliveries', insertError);
+      return [];
+    }
+
+    logInfo('webhooks', `Queued ${rows.length} webhook deliveries`, {
+      projectId,
+      events: events.map((event) => event.type),
+    });
+
+    return (deliveries || []).map((delivery) => ({
+      name: 'webhooks/deliver' as const,
+      data: { delivery_id: delivery.id },
+    }));
+  } catch (err) {
+    logError('webhooks', 'Failed to queue webhook events', err);
+    return [];
+  }
+}
+
+interface DeliveryToSend {
+  id: string;
+  event_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  webhook_endpoints: { url: string; secret: string; is_active: boolean } | null;
+}
+
+/**
+ * POST one delivery to its endpoint and record the attempt
+ * Throws when the endpoint didn't answer 2xx so Inngest retries; a
+ * PermanentWebhookError means retrying won't help. Deliveries that are no longer
+ * pending (already sent, or a retried step) are left as they are.
+ */
+export async function sendWebhookDelivery(
+  supabase: SupabaseClient,
+  deliveryId: string
+): Promise<WebhookDeliveryStatus> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, event_id, event_type, payload, status, attempt_count, webhook_endpoints(url, secret, is_active)')
+    .eq('id', deliveryId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load webhook delivery: ${error.message}`);
+  }
+
+  const delivery = data as unknown as DeliveryToSend | null;
+  if (!delivery) {
+    logInfo('webhooks', `Webhook delivery ${deliveryId} not found, skipping`);
+    return 'skipped';
+  }
+
+  if (delivery.status !== 'pending') return delivery.status;
+
+  const endpoint = delivery.webhook_endpoints;
+  if (!endpoint?.is_active || isMockMode()) {
+    const reason = isMockMode() ? 'Skipped in mock mode' : 'Endpoint disabled';
+    await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'skipped', error: reason })
+      .eq('id', deliveryId);
+    logInfo('webhooks', `${reason}, skipping delivery ${deliveryId}`);
+    return 'skipped';
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attemptedAt = new Date().toISOString();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let failure: string | null = null;
+  let unsafeUrl = false;
+
+  try {
+    const response = await requestPublicUrl(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.event_id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+    });
+
+    responseStatus = response.status;
+    responseBody = response.body.toString('utf8').slice(0, MAX_RESPONSE_BODY_LENGTH);
+    if (response.status >= 300 && response.status < 400) {
+      failure = `Endpoint redirected with ${response.status}; webhooks don't follow redirects`;
+    } else if (response.status < 200 || response.status >= 300) {
+      failure = `Endpoint returned ${response.status}`;
+    }
+  } catch (err) {
+    failure = err instanceof Error ? err.message : String(err);
+    unsafeUrl = err instanceof UnsafeUrlError;
+  }
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      attempt_count: delivery.attempt_count + 1,
+      last_attempt_at: attemptedAt,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error: failure,
+      ...(failure ? {} : { status: 'succeeded', delivered_at: new Date().toISOString() }),
+    })
+    .eq('id', deliveryId);
+
+  if (updateError) {
+    logError('webhooks', `Failed to record attempt of delivery ${deliveryId}`, updateError);
+  }
+
+  if (failure) {
+    const permanent =
+      unsafeUrl ||
+      (responseStatus !== null && responseStatus >= 300 && responseStatus < 500 && ![408, 429].includes(responseStatus));
+    throw permanent ? new PermanentWebhookError(failure) : new Error(failure);
+  }
+
+  return 'succeeded';
+}
+
+/**
+ * Mark a delivery as failed once its retries are exhausted
+ */
+export async function markWebhookDeliveryFailed(
+  supabase: SupabaseClient,
+  deliveryId: string,
+  errorMessage: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'failed', error: errorMessage })
+    .eq('id', deliveryId)
+    .eq('status', 'pending');
+
+  if (error) {
+    logError('webhooks', `Failed to mark delivery ${deliveryId} as failed`, error);
+  }
+}
@@ -0,0 +1,26 @@
+import { PageHeader } from "@/components/dashboard/page-header";
+import { AlertsInbox } from "@/components/alerts/alerts-inbox";
+import { AlertRulesManager } from "@/components/alerts/alert-rules-manager";
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/auth";
+
+export default async function AlertsPage() {
+  const user = await getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Alerts"
+        description="Drops in visibility, sentiment and citations, competitor moves and new competitors"
+      />
+
+      <AlertsInbox />
+
+      <AlertRulesManager />
+    </div>
+  );
+}
@@ -8,6 +8,10 @@ import { StatCard } from "@/components/dashboard/stat-card";
 import { CitationsEvolutionChart } from "@/components/citations/citations-evolution-chart";
 import { MostCitedDomainsTable } from "@/components/citations/most-cited-domains-table";
 import { CitationSourcesTable } from "@/components/citations/citation-sources-table";
+import { CitationDRBreakdown } from "@/components/citations/citation-dr-breakdown";
+import { DomainRatingImport } from "@/components/citations/domain-rating-import";
+import { CitationSourceCategories } from "@/components/citations/citation-source-categories";
+import { SourceCategoryOverrides } from "@/components/citations/source-category-overrides";
 import { MarketShareDistribution } from "@/components/share-of-voice/market-share-distribution";
 import { ShareEvolutionChart } from "@/components/share-of-voice/share-evolution-chart";
 // import { MomentumMatrix } from "@/components/share-of-voice/momentum-matrix";
@@ -17,6 +21,8 @@ import {
   getCitationsData,
   getCitationsEvolution,
   getMostCitedDomains,
+  getCitationDRBreakdown,
+  getCitationSourceCategories,
   getCitationSources,
   getCitationsTrends,
   getCitationsShareEvolution,
@@ -33,6 +39,11 @@ export default function CitationsPage() {
   const [quickMetrics, setQuickMetrics] = useState<any>(null);
   const [citationsRanking, setCitationsRanking] = useState<any>(null);
   const [mostCitedDomains, setMostCitedDomains] = useState<any[]>([]);
+  const [drBreakdown, setDrBreakdown] = useState<{
+    breakdown: { high: number; medium: number; low: number; unverified: number };
+    yourDomainRating: number | null;
+  }>({ breakdown: { high: 0, medium: 0, low: 0, unverified: 0 }, yourDomainRating: null });
+  const [sourceCategories, setSourceCategories] = useState<Awaited<ReturnType<typeof getCitationSourceCategories>>>([]);
   const [citationSources, setCitationSources] = useState<any[]>([]);
   const [citationSourcesTotal, setCitationSourcesTotal] = useState(0);
   const [citationSourcesPage, setCitationSourcesPage] = useState(1);
@@ -189,6 +200,30 @@ export default function CitationsPage() {
           });
           setMostCitedDomains([]); // Set empty array on error
         });
+
+      getCitationDRBreakdown(selectedProjectId, {
+        fromDate: dateRange.from,
+        toDate: dateRange.to,
+        platform,
+        region,
+        topicId,
+      })
+        .then(setDrBreakdown)
+        .catch((error) => {
+          console.error("Error loading citation DR breakdown:", error);
+        });
+
+      getCitationSourceCategories(selectedProjectId, {
+        fromDate: dateRange.from,
+        toDate: dateRange.to,
+        platform,
+        region,
+        topicId,
+      })
+        .then(setSourceCategories)
+        .catch((error) => {
+          console.error("Error loading citation source categories:", error);
+        });
     } catch (error) {
       console.error("Error loading citation data:", error);
       setIsLoadingCharts(false);
@@ -505,10 +540,29 @@ export default function CitationsPage() {
         {/* <CompetitiveGapTracker entities={filteredEntities.allEntities} isLoading={isLoadingCharts} metricLabel="citations" /> */}
           </>
 
-      {/* Most Cited Domains */}
-      <MostCitedDomainsTable 
-        data={mostCitedDomains}
-        infoTooltip="Ranking of which domains AI platforms cite most frequently. These are the websites that AI models trust as authoritative sources."
+      {/* Most Cited Domains + Authority Breakdown */}
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <MostCitedDomainsTable 
+            data={mostCitedDomains}
+            infoTooltip="Ranking of which domains AI platforms cite most frequently. DR is the imported third-party rating when available, otherwise a score from how widely your tracked AI answers cite the domain. Type is the kind of site (review site, marketplace, news...)."
+          />
+        </div>
+        <CitationDRBreakdown
+          data={drBreakdown.breakdown}
+          yourDomainRating={drBreakdown.yourDomainRating}
+          action={selectedProjectId && <DomainRatingImport projectId={selectedProjectId} onChanged={loadData} />}
+        />
+      </div>
+
+      {/* Citation Source Types */}
+      <CitationSourceCategories
+        data={sourceCategories}
+        action={
+          selectedProjectId && (
+            <SourceCategoryOverrides projectId={selectedProjectId} domains={mostCitedDomains} onChanged={loadData} />
+          )
+        }
       />
 
       {/* Citation Sources - Individual URLs */}
@@ -5,7 +5,7 @@ import { PageHeader } from "@/components/dashboard/page-header";
 import { useProject } from "@/contexts/project-context";
 import { useSearchParams } from "next/navigation";
 import { Suspense } from "react";
-import { Bot, Users2, MessageSquare, Tag, Globe } from "lucide-react";
+import { Bot, Users2, MessageSquare, Tag, Globe, Cpu, CalendarClock } from "lucide-react";
 
 // Import existing components
 import { ResponsesTable } from "@/components/responses/responses-table";
@@ -13,6 +13,8 @@ import { CompetitorsManager } from "@/components/competitors/competitors-manager
 import { PromptsManager } from "@/components/prompts/prompts-manager";
 import { TopicsManager } from "@/components/topics/topics-manager";
 import { RegionsManager } from "@/components/regions/regions-manager";
+import { PlatformsManager } from "@/components/platforms/platforms-manager";
+import { ScheduleManager } from "@/components/schedules/schedule-manager";
 
 function ConfigurationContent() {
   const { selectedProjectId } = useProject();
@@ -31,11 +33,11 @@ function ConfigurationContent() {
     <div className="space-y-6">
       <PageHeader 
         title="Data Management"
-        description="Manage your project's AI responses, competitors, prompts, topics, and regions"
+        description="Manage your project's AI responses, competitors, prompts, topics, regions, AI engines, and analysis schedule"
       />
 
       <Tabs defaultValue={defaultTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
+        <TabsList className="grid w-full grid-cols-7 lg:w-auto lg:inline-grid">
           <TabsTrigger value="responses" className="flex items-center gap-2">
             <Bot className="h-4 w-4" />
             <span className="hidden sm:inline">AI Responses</span>
@@ -58,6 +60,14 @@ function ConfigurationContent() {
             <Globe className="h-4 w-4" />
             <span>Regions</span>
           </TabsTrigger>
+          <TabsTrigger value="engines" className="flex items-center gap-2">
+            <Cpu className="h-4 w-4" />
+            <span>Engines</span>
+          </TabsTrigger>
+          <TabsTrigger value="schedule" className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            <span>Schedule</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="responses" className="space-y-4">
@@ -79,6 +89,14 @@ function ConfigurationContent() {
         <TabsContent value="regions" className="space-y-4">
           <RegionsManager />
         </TabsContent>
+
+        <TabsContent value="engines" className="space-y-4">
+          <PlatformsManager />
+        </TabsContent>
+
+        <TabsContent value="schedule" className="space-y-4">
+          <ScheduleManager />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,23 @@
+import { PageHeader } from "@/components/dashboard/page-header";
+import { FailedRunsConsole } from "@/components/failures/failed-runs-console";
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/auth";
+
+export default async function FailedRunsPage() {
+  const user = await getUser();
+  
+  if (!user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader 
+        title="Failed Runs"
+        description="Prompt runs and brand analyses that exhausted their retries, grouped by cause"
+      />
+
+      <FailedRunsConsole />
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { PageHeader } from "@/components/dashboard/page-header";
 import { FiltersToolbar } from "@/components/dashboard/filters-toolbar";
 import { useProject } from "@/contexts/project-context";
 import { getCurrentWeekDateRange } from "@/lib/utils/date-helpers";
+import { PLATFORM_IDS, mapPlatforms } from "@/lib/constants/platforms";
 
 // Components
 import { PlatformCard } from "@/components/platforms/platform-card";
@@ -15,6 +16,7 @@ import { PlatformPerformanceHeatmap } from "@/components/platforms/platform-perf
 import { PlatformGapAnalysis } from "@/components/platforms/platform-gap-analysis";
 import { PlatformMomentum } from "@/components/platforms/platform-momentum";
 import { PlatformInsights } from "@/components/platforms/platform-insights";
+import { PlatformCitationSources } from "@/components/platforms/platform-citation-sources";
 import { WelcomeTip } from "@/components/dashboard/welcome-tip";
 
 // Queries
@@ -23,6 +25,7 @@ import {
   getPlatformEvolution,
   getPlatformEntityBreakdown,
   getPlatformMomentum,
+  getPlatformCitationSources,
   getPlatformBaseData,
 } from "@/lib/queries/platform-breakdown";
 
@@ -34,6 +37,11 @@ type DateRangeValue = {
 // Default date range: current week (Monday to today)
 const defaultDateRange: DateRangeValue = getCurrentWeekDateRange();
 
+// Placeholders while analysis data loads
+const emptyEntityBreakdown = mapPlatforms(() => ({ entities: [], totalMentions: 0 }));
+const emptyMomentum = mapPlatforms(() => []);
+const emptyCitationSources = mapPlatforms(() => ({ domains: [], categories: [] }));
+
 export default function PlatformsPage() {
   const { selectedProjectId } = useProject();
   
@@ -50,6 +58,7 @@ export default function PlatformsPage() {
   const [evolutionData, setEvolutionData] = useState<Awaited<ReturnType<typeof getPlatformEvolution>>>([]);
   const [entityBreakdown, setEntityBreakdown] = useState<Awaited<ReturnType<typeof getPlatformEntityBreakdown>> | null>(null);
   const [momentumData, setMomentumData] = useState<Awaited<ReturnType<typeof getPlatformMomentum>> | null>(null);
+  const [citationSources, setCitationSources] = useState<Awaited<ReturnType<typeof getPlatformCitationSources>> | null>(null);
 
   // Load data with phased loading
   const loadData = useCallback(async () => {
@@ -87,10 +96,12 @@ export default function PlatformsPage() {
       Promise.all([
         getPlatformEntityBreakdown(selectedProjectId, dateRange.from, dateRange.to, region, topicId, baseData),
         getPlatformMomentum(selectedProjectId, dateRange.from, dateRange.to, region, topicId, baseData),
+        getPlatformCitationSources(selectedProjectId, 10, dateRange.from, dateRange.to, region, topicId),
       ])
-        .then(([breakdown, momentum]) => {
+        .then(([breakdown, momentum, sources]) => {
           setEntityBreakdown(breakdown);
           setMomentumData(momentum);
+          setCitationSources(sources);
           setIsLoadingAnalysis(false);
         })
         .catch((error) => {
@@ -161,14 +172,15 @@ export default function PlatformsPage() {
       </WelcomeTip>
 
       {/* Section 1: Platform Overview Cards */}
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
         {overviewData?.platforms.map((platform) => (
           <PlatformCard key={platform.id} platform={platform} isLoading={isLoading} />
         ))}
         {!overviewData && isLoading && (
           <>
-            <PlatformCard platform={{} as any} isLoading={true} />
-            <PlatformCard platform={{} as any} isLoading={true} />
+            {PLATFORM_IDS.map((id) => (
+              <PlatformCard key={id} platform={{} as any} isLoading={true} />
+            ))}
           </>
         )}
       </div>
@@ -187,51 +199,30 @@ export default function PlatformsPage() {
       <DailyPlatformBattle data={evolutionData} isLoading={isLoadingCharts || !evolutionData.length} />
 
       {/* Section 5: Platform Performance Heatmap */}
-      {entityBreakdown ? (
-        <PlatformPerformanceHeatmap
-          openaiData={entityBreakdown.openai}
-          geminiData={entityBreakdown.gemini}
-          isLoading={isLoadingAnalysis}
-        />
-      ) : (
-        <PlatformPerformanceHeatmap
-          openaiData={{ entities: [], totalMentions: 0 }}
-          geminiData={{ entities: [], totalMentions: 0 }}
-          isLoading={isLoadingAnalysis}
-        />
-      )}
+      <PlatformPerformanceHeatmap
+        data={entityBreakdown ?? emptyEntityBreakdown}
+        isLoading={isLoadingAnalysis}
+      />
 
       {/* Section 6: Platform Momentum Comparison */}
-      {momentumData ? (
-        <PlatformMomentum
-          openaiData={momentumData.openai}
-          geminiData={momentumData.gemini}
-          isLoading={isLoadingAnalysis}
-        />
-      ) : (
-        <PlatformMomentum
-          openaiData={[]}
-          geminiData={[]}
-          isLoading={isLoadingAnalysis}
-        />
-      )}
+      <PlatformMomentum
+        data={momentumData ?? emptyMomentum}
+        isLoading={isLoadingAnalysis}
+      />
 
       {/* Section 7: Platform Gap Analysis */}
-      {entityBreakdown ? (
-        <PlatformGapAnalysis
-          openaiData={entityBreakdown.openai}
-          geminiData={entityBreakdown.gemini}
-          isLoading={isLoadingAnalysis}
-        />
-      ) : (
-        <PlatformGapAnalysis
-          openaiData={{ entities: [], totalMentions: 0 }}
-          geminiData={{ entities: [], totalMentions: 0 }}
-          isLoading={isLoadingAnalysis}
-        />
-      )}
+      <PlatformGapAnalysis
+        data={entityBreakdown ?? emptyEntityBreakdown}
+        isLoading={isLoadingAnalysis}
+      />
+
+      {/* Section 8: Citation Sources by Platform */}
+      <PlatformCitationSources
+        data={citationSources ?? emptyCitationSources}
+        isLoading={isLoadingAnalysis}
+      />
 
-      {/* Section 8: Platform Insights */}
+      {/* Section 9: Platform Insights */}
       {overviewData ? (
         <PlatformInsights platforms={overviewData.platforms} isLoading={false} />
       ) : (
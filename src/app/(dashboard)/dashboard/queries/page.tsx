@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from "react";
 import { Search, Hash, Globe, Ruler } from "lucide-react";
 import { StatCard } from "@/components/dashboard/stat-card";
 import { getCurrentWeekDateRange } from "@/lib/utils/date-helpers";
+import { mapPlatforms, type PlatformId } from "@/lib/constants/platforms";
 import { PageHeader } from "@/components/dashboard/page-header";
 import { FiltersToolbar } from "@/components/dashboard/filters-toolbar";
 import { useProject } from "@/contexts/project-context";
@@ -67,30 +68,21 @@ export default function QueriesPage() {
       .sort((a, b) => b.value - a.value);
   };
 
-  const mergePlatformDistribution = (results: Array<{ openai: Array<{ query: string; count: number }>; gemini: Array<{ query: string; count: number }> }>): { openai: Array<{ query: string; count: number }>; gemini: Array<{ query: string; count: number }> } => {
-    const openaiMap = new Map<string, number>();
-    const geminiMap = new Map<string, number>();
+  const mergePlatformDistribution = (results: Array<Record<PlatformId, Array<{ query: string; count: number }>>>): Record<PlatformId, Array<{ query: string; count: number }>> => {
+    return mapPlatforms((platform) => {
+      const queryMap = new Map<string, number>();
 
-    results.forEach((result) => {
-      result.openai.forEach((item) => {
-        openaiMap.set(item.query, (openaiMap.get(item.query) || 0) + item.count);
-      });
-      result.gemini.forEach((item) => {
-        geminiMap.set(item.query, (geminiMap.get(item.query) || 0) + item.count);
+      results.forEach((result) => {
+        result[platform].forEach((item) => {
+          queryMap.set(item.query, (queryMap.get(item.query) || 0) + item.count);
+        });
       });
-    });
 
-    const openai = Array.from(openaiMap.entries())
-      .map(([query, count]) => ({ query, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
-
-    const gemini = Array.from(geminiMap.entries())
-      .map(([query, count]) => ({ query, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
-
-    return { openai, gemini };
+      return Array.from(queryMap.entries())
+        .map(([query, count]) => ({ query, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 10);
+    });
   };
 
 
@@ -391,8 +383,7 @@ export default function QueriesPage() {
 
       {/* Section 3: Platform Distribution */}
       <QueryPlatformDistribution
-        openaiData={platformDistribution?.openai || []}
-        geminiData={platformDistribution?.gemini || []}
+        data={platformDistribution ?? mapPlatforms(() => [])}
         isLoading={isLoadingCharts}
       />
 
@@ -4,16 +4,17 @@ import { useState, useEffect, useRef } from "react";
 import { useProject } from "@/contexts/project-context";
 import { useParams, useRouter } from "next/navigation";
 import { PageHeader } from "@/components/dashboard/page-header";
-import { ReportSection } from "@/components/reports/report-section";
-import { NewCompetitorsSection } from "@/components/reports/new-competitors-section";
-import { AttributesSection } from "@/components/reports/attributes-section";
+import { ReportDocument, type ReportInsights } from "@/components/reports/report-document";
+import { ShareLinkDialog } from "@/components/share/share-link-dialog";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Loader2, Share2, Download, Check } from "lucide-react";
+import { ArrowLeft, Loader2, Download, RefreshCw } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { createClient } from "@/lib/supabase/client";
 import { toast } from "sonner";
 import { format, subDays, startOfDay, endOfDay } from "date-fns";
 import type { ReportPeriod } from "@/components/reports/period-selector";
+import { getProjectBranding, type WorkspaceBranding } from "@/lib/actions/branding";
+import { regenerateReportInsights } from "@/lib/actions/insights";
 
 /**
  * Calculate the actual date range for a report based on when it was created and its period
@@ -78,18 +79,15 @@ export default function ReportDetailPage() {
 
   const [isLoading, setIsLoading] = useState(true);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
-  const [copied, setCopied] = useState(false);
   const [reportData, setReportData] = useState<any>(null);
-  const [insights, setInsights] = useState<{
-    visibility: string;
-    shareOfVoice: string;
-    sentiment: string;
-  } | null>(null);
+  const [insights, setInsights] = useState<ReportInsights | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
   const [brandName, setBrandName] = useState("");
   const [selectedPeriod, setSelectedPeriod] = useState<ReportPeriod | null>(null);
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [topics, setTopics] = useState<Array<{ id: string; name: string; color?: string }>>([]);
   const [reportCreatedAt, setReportCreatedAt] = useState<string | null>(null);
+  const [branding, setBranding] = useState<WorkspaceBranding | null>(null);
 
   useEffect(() => {
     if (!reportId || !selectedProjectId) return;
@@ -137,6 +135,10 @@ export default function ReportDetailPage() {
         if (topicsData) {
           setTopics(topicsData);
         }
+
+        // White-label branding of the workspace
+        const brandingResult = await getProjectBranding(selectedProjectId);
+        setBranding(brandingResult.data);
       } catch (error) {
         console.error("Error loading report:", error);
         toast.error("Error loading report");
@@ -149,18 +151,21 @@ export default function ReportDetailPage() {
     loadReport();
   }, [reportId, selectedProjectId, router]);
 
-  const handleShareReport = async () => {
+  const handleRegenerateInsights = async () => {
+    setIsRegenerating(true);
     try {
-      const shareUrl = `${window.location.origin}/dashboard/reports/${reportId}`;
-
-      // Copy to clipboard directly
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      toast.success("Report link copied to clipboard");
-      setTimeout(() => setCopied(false), 2000);
-    } catch (error: any) {
-      console.error("Error copying link:", error);
-      toast.error("Failed to copy link");
+      const result = await regenerateReportInsights(reportId);
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to regenerate insights");
+        return;
+      }
+      setInsights(result.data);
+      toast.success("Insights regenerated");
+    } catch (error) {
+      console.error("Error regenerating insights:", error);
+      toast.error("Failed to regenerate insights");
+    } finally {
+      setIsRegenerating(false);
     }
   };
 
@@ -259,16 +264,18 @@ export default function ReportDetailPage() {
           <Button
             variant="outline"
             size="sm"
-            onClick={handleShareReport}
+            onClick={handleRegenerateInsights}
+            disabled={isRegenerating}
             className="gap-2"
-            title="Share Report"
+            title="Regenerate insights"
           >
-            {copied ? (
-              <Check className="h-4 w-4" />
-            ) : (
-              <Share2 className="h-4 w-4" />
-            )}
+            <RefreshCw className={isRegenerating ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
           </Button>
+          <ShareLinkDialog
+            projectId={selectedProjectId}
+            target={{ resource_type: "report", report_id: reportId }}
+            defaultName={`${brandName} report`}
+          />
           <Button
             variant="outline"
             size="sm"
@@ -286,81 +293,16 @@ export default function ReportDetailPage() {
         </div>
       </div>
 
-      <Card 
-        ref={reportRef} 
-        className="border-0 shadow-lg bg-gradient-to-br from-background via-background to-muted/20 overflow-hidden"
-      >
-        {/* Report Header */}
-        <div className="border-b bg-muted/30 px-8 py-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <h2 className="text-2xl font-bold tracking-tight">{brandName}</h2>
-              <p className="text-sm text-muted-foreground mt-1">
-                {reportCreatedAt && selectedPeriod
-                  ? formatDateRange(reportCreatedAt, selectedPeriod)
-                  : "Report"}
-                {selectedTopic && topics.find(t => t.id === selectedTopic) && (
-                  <span className="ml-2">
-                    • {topics.find(t => t.id === selectedTopic)?.name}
-                  </span>
-                )}
-              </p>
-            </div>
-            <div className="text-right">
-              <p className="text-xs text-muted-foreground">Generated</p>
-              <p className="text-sm font-medium">
-                {reportCreatedAt
-                  ? format(new Date(reportCreatedAt), "MMM dd, yyyy")
-                  : "Unknown"}
-              </p>
-            </div>
-          </div>
-        </div>
-
-        {/* Report Content */}
-        <div className="p-8 space-y-8">
-          {/* Section 1: Visibility Score */}
-          <ReportSection
-            title="Visibility Score"
-            data={reportData.visibilityScore}
-            brandName={brandName}
-            insight={insights?.visibility || "Generating insights..."}
-            isLoading={!insights}
-          />
-
-          {/* Section 2: Share of Voice */}
-          <ReportSection
-            title="Share of Voice"
-            data={reportData.shareOfVoice}
-            brandName={brandName}
-            insight={insights?.shareOfVoice || "Generating insights..."}
-            isLoading={!insights}
-          />
-
-          {/* Section 3: Sentiment */}
-          <ReportSection
-            title="Sentiment"
-            data={reportData.sentiment}
-            brandName={brandName}
-            insight={insights?.sentiment || "Generating insights..."}
-            isLoading={!insights}
-          />
-
-          {/* Section 4: Attributes */}
-          <AttributesSection
-            competitors={[]}
-            brandName={brandName}
-            isLoading={false}
-          />
-
-          {/* Section 5: New Competitors on Radar */}
-          <NewCompetitorsSection
-            competitors={reportData.newCompetitors || []}
-            brandName={brandName}
-            isLoading={false}
-          />
-        </div>
-      </Card>
+      <ReportDocument
+        ref={reportRef}
+        brandName={brandName}
+        dateRange={reportCreatedAt && selectedPeriod ? formatDateRange(reportCreatedAt, selectedPeriod) : "Report"}
+        topicName={selectedTopic ? topics.find((t) => t.id === selectedTopic)?.name || null : null}
+        generatedAt={reportCreatedAt ? format(new Date(reportCreatedAt), "MMM dd, yyyy") : "Unknown"}
+        data={reportData}
+        insights={insights}
+        branding={branding}
+      />
     </div>
   );
 }
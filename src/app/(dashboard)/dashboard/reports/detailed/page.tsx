@@ -6,15 +6,17 @@ import { usePathname, useRouter } from "next/navigation";
 import { PageHeader } from "@/components/dashboard/page-header";
 import { PeriodSelector, type ReportPeriod } from "@/components/reports/period-selector";
 import { TopicSelector, type TopicSelection } from "@/components/reports/topic-selector";
-import { ReportSection } from "@/components/reports/report-section";
-import { NewCompetitorsSection } from "@/components/reports/new-competitors-section";
-import { AttributesSection } from "@/components/reports/attributes-section";
+import { ReportDocument, type ReportInsights } from "@/components/reports/report-document";
 import { ReportsList, type SavedReport } from "@/components/reports/reports-list";
+import { ReportSchedules } from "@/components/reports/report-schedules";
+import { ShareLinkDialog } from "@/components/share/share-link-dialog";
 import { getDetailedReportData } from "@/lib/queries/detailed-report";
-import { generateSectionInsights } from "@/lib/actions/insights";
+import { generateReportInsights } from "@/lib/actions/insights";
+import { notifyReportGenerated } from "@/lib/actions/webhooks";
 import { getProjectTopics } from "@/lib/actions/topics";
+import { getProjectBranding, type WorkspaceBranding } from "@/lib/actions/branding";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Loader2, Share2, Download, Check, Plus } from "lucide-react";
+import { ArrowLeft, Loader2, Download, Plus } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { createClient } from "@/lib/supabase/client";
 import { toast } from "sonner";
@@ -98,15 +100,11 @@ export default function DetailedReportPage() {
   const [isLoadingTopics, setIsLoadingTopics] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
-  const [copied, setCopied] = useState(false);
   const [reportData, setReportData] = useState<any>(null);
-  const [insights, setInsights] = useState<{
-    visibility: string;
-    shareOfVoice: string;
-    sentiment: string;
-  } | null>(null);
+  const [insights, setInsights] = useState<ReportInsights | null>(null);
   const [brandName, setBrandName] = useState("");
   const [reportCreatedAt, setReportCreatedAt] = useState<string | null>(null);
+  const [branding, setBranding] = useState<WorkspaceBranding | null>(null);
 
   // Fetch brand name, topics, and reports
   useEffect(() => {
@@ -125,6 +123,13 @@ export default function DetailedReportPage() {
       };
       fetchBrandName();
 
+      // White-label branding of the workspace
+      const fetchBranding = async () => {
+        const result = await getProjectBranding(selectedProjectId);
+        setBranding(result.data);
+      };
+      fetchBranding();
+
       // Fetch topics
       const fetchTopics = async () => {
         setIsLoadingTopics(true);
@@ -198,19 +203,14 @@ export default function DetailedReportPage() {
 
       setReportData(data);
 
-      // Generate insights for each section
-      const periodLabel = PERIOD_LABELS[selectedPeriod];
-      const [visibilityInsight, sovInsight, sentimentInsight] = await Promise.all([
-        generateSectionInsights("visibility", data.visibilityScore, brandName, periodLabel),
-        generateSectionInsights("share-of-voice", data.shareOfVoice, brandName, periodLabel),
-        generateSectionInsights("sentiment", data.sentiment, brandName, periodLabel),
-      ]);
-
-      const generatedInsights = {
-        visibility: visibilityInsight,
-        shareOfVoice: sovInsight,
-        sentiment: sentimentInsight,
-      };
+      // Insights in the project's language, grounded in the report data
+      const insightsResult = await generateReportInsights(selectedProjectId, selectedPeriod, data);
+      if (insightsResult.error || !insightsResult.data) {
+        toast.error(insightsResult.error || "Unable to generate insights");
+        setIsLoading(false);
+        return;
+      }
+      const generatedInsights = insightsResult.data;
 
       setInsights(generatedInsights);
 
@@ -242,6 +242,9 @@ export default function DetailedReportPage() {
             setViewMode("view");
             toast.success("Report generated successfully");
           } else if (savedReport) {
+            // Workspace webhooks subscribed to report.generated (doesn't block the report)
+            notifyReportGenerated(savedReport.id);
+
             // Set the report ID so we can share it
             setSelectedReportId(savedReport.id);
             setReportCreatedAt(savedReport.created_at);
@@ -355,28 +358,6 @@ export default function DetailedReportPage() {
     }
   };
 
-  const handleShareReport = async () => {
-    if (!selectedReportId) {
-      toast.error("Report not yet saved. Please wait...");
-      return;
-    }
-
-    try {
-      // Build the shareable URL with the report ID
-      const baseUrl = window.location.origin;
-      const shareUrl = `${baseUrl}/dashboard/reports/${selectedReportId}`;
-
-      // Copy to clipboard directly
-      await navigator.clipboard.writeText(shareUrl);
-      setCopied(true);
-      toast.success("Report link copied to clipboard");
-      setTimeout(() => setCopied(false), 2000);
-    } catch (error: any) {
-      console.error("Error copying link:", error);
-      toast.error("Failed to copy link");
-    }
-  };
-
   const handleDownloadPDF = async () => {
     if (!reportRef.current) return;
 
@@ -453,6 +434,7 @@ export default function DetailedReportPage() {
           onDeleteReport={handleDeleteReport}
           isLoading={isLoadingReports}
         />
+        {selectedProjectId && <ReportSchedules projectId={selectedProjectId} topics={topics} />}
       </div>
     );
   }
@@ -560,19 +542,12 @@ export default function DetailedReportPage() {
         </Button>
 
         <div className="flex items-center gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleShareReport}
-            className="gap-2"
-            title="Share Report"
-          >
-            {copied ? (
-              <Check className="h-4 w-4" />
-            ) : (
-              <Share2 className="h-4 w-4" />
-            )}
-          </Button>
+          {/* Enabled once the generated report is saved */}
+          <ShareLinkDialog
+            projectId={selectedProjectId}
+            target={selectedReportId ? { resource_type: "report", report_id: selectedReportId } : null}
+            defaultName={`${brandName} report`}
+          />
           <Button
             variant="outline"
             size="sm"
@@ -598,85 +573,28 @@ export default function DetailedReportPage() {
           </div>
         </Card>
       ) : (
-        <Card 
-          ref={reportRef} 
-          className="border-0 shadow-lg bg-gradient-to-br from-background via-background to-muted/20 overflow-hidden"
-        >
-          {/* Report Header */}
-          <div className="border-b bg-muted/30 px-8 py-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <h2 className="text-2xl font-bold tracking-tight">{brandName}</h2>
-                <p className="text-sm text-muted-foreground mt-1">
-                  {reportCreatedAt && selectedPeriod
-                    ? formatDateRange(reportCreatedAt, selectedPeriod)
-                    : PERIOD_LABELS[selectedPeriod]}
-                  {selectedTopic && topics.find(t => t.id === selectedTopic) && (
-                    <span className="ml-2">
-                      • {topics.find(t => t.id === selectedTopic)?.name}
-                    </span>
-                  )}
-                </p>
-              </div>
-              <div className="text-right">
-                <p className="text-xs text-muted-foreground">Generated</p>
-                <p className="text-sm font-medium">
-                  {reportCreatedAt
-                    ? format(new Date(reportCreatedAt), "MMM dd, yyyy")
-                    : new Date().toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      })}
-                </p>
-              </div>
-            </div>
-          </div>
-
-          {/* Report Content */}
-          <div className="p-8 space-y-8">
-            {/* Section 1: Visibility Score */}
-            <ReportSection
-              title="Visibility Score"
-              data={reportData.visibilityScore}
-              brandName={brandName}
-              insight={insights?.visibility || "Generating insights..."}
-              isLoading={!insights}
-            />
-
-            {/* Section 2: Share of Voice */}
-            <ReportSection
-              title="Share of Voice"
-              data={reportData.shareOfVoice}
-              brandName={brandName}
-              insight={insights?.shareOfVoice || "Generating insights..."}
-              isLoading={!insights}
-            />
-
-            {/* Section 3: Sentiment */}
-            <ReportSection
-              title="Sentiment"
-              data={reportData.sentiment}
-              brandName={brandName}
-              insight={insights?.sentiment || "Generating insights..."}
-              isLoading={!insights}
-            />
-
-            {/* Section 4: Attributes */}
-            <AttributesSection
-              competitors={[]}
-              brandName={brandName}
-              isLoading={false}
-            />
-
-            {/* Section 5: New Competitors on Radar */}
-            <NewCompetitorsSection
-              competitors={reportData.newCompetitors || []}
-              brandName={brandName}
-              isLoading={false}
-            />
-          </div>
-        </Card>
+        <ReportDocument
+          ref={reportRef}
+          brandName={brandName}
+          dateRange={
+            reportCreatedAt && selectedPeriod
+              ? formatDateRange(reportCreatedAt, selectedPeriod)
+              : PERIOD_LABELS[selectedPeriod]
+          }
+          topicName={selectedTopic ? topics.find((t) => t.id === selectedTopic)?.name || null : null}
+          generatedAt={
+            reportCreatedAt
+              ? format(new Date(reportCreatedAt), "MMM dd, yyyy")
+              : new Date().toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                })
+          }
+          data={reportData}
+          insights={insights}
+          branding={branding}
+        />
       )}
     </div>
   );
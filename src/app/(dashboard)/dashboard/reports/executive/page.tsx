@@ -4,6 +4,8 @@ import { useState, useEffect } from "react";
 import { useProject } from "@/contexts/project-context";
 import { PageHeader } from "@/components/dashboard/page-header";
 import { FiltersToolbar } from "@/components/dashboard/filters-toolbar";
+import { ShareLinkDialog } from "@/components/share/share-link-dialog";
+import { toShareViewFilters } from "@/lib/share/filters";
 import { DateRangeValue } from "@/components/ui/date-range-picker";
 import { getCurrentWeekDateRange } from "@/lib/utils/date-helpers";
 
@@ -185,6 +187,9 @@ export default function ExecutiveOverviewPage() {
     }
   };
 
+  // Current filters, frozen into view share links
+  const shareFilters = toShareViewFilters({ dateRange, platform, region, topicId });
+
   // No early return - use skeleton loaders instead
 
   return (
@@ -207,6 +212,13 @@ export default function ExecutiveOverviewPage() {
         platform={platform}
         region={region}
         topicId={topicId}
+        actions={
+          <ShareLinkDialog
+            projectId={selectedProjectId}
+            target={shareFilters ? { resource_type: "dashboard_view", view: "visibility", filters: shareFilters } : null}
+            defaultName="Executive overview"
+          />
+        }
         onApply={handleFiltersChange}
         className="mt-0"
       />
@@ -0,0 +1,23 @@
+import { PageHeader } from "@/components/dashboard/page-header";
+import { RunDetail } from "@/components/runs/run-detail";
+
+interface RunDetailPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function RunDetailPage({ params }: RunDetailPageProps) {
+  const { id } = await params;
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Run Details"
+        description="Progress, cost and responses of this analysis run"
+      />
+
+      <RunDetail runId={id} />
+    </div>
+  );
+}
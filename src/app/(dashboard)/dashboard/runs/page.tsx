@@ -0,0 +1,23 @@
+import { PageHeader } from "@/components/dashboard/page-header";
+import { RunsList } from "@/components/runs/runs-list";
+import { redirect } from "next/navigation";
+import { getUser } from "@/lib/auth";
+
+export default async function RunsPage() {
+  const user = await getUser();
+  
+  if (!user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader 
+        title="Runs"
+        description="Scheduled and manual analysis batches with live progress per platform"
+      />
+
+      <RunsList />
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useState, useEffect } from "react";
 import { useProject } from "@/contexts/project-context";
 import { PageHeader } from "@/components/dashboard/page-header";
 import { FiltersToolbar } from "@/components/dashboard/filters-toolbar";
+import { ShareLinkDialog } from "@/components/share/share-link-dialog";
+import { toShareViewFilters } from "@/lib/share/filters";
 import { DateRangeValue } from "@/components/ui/date-range-picker";
 import { differenceInDays, subDays } from "date-fns";
 import { toast } from "sonner";
@@ -268,6 +270,9 @@ export default function SentimentPage() {
     loadCompetitorTrends(competitorId);
   };
 
+  // Current filters, frozen into view share links
+  const shareFilters = toShareViewFilters({ dateRange, platform, region });
+
   return (
     <div className="space-y-6">
       <PageHeader
@@ -283,6 +288,13 @@ export default function SentimentPage() {
         sentimentTheme={selectedTopic}
         hideTopicFilter={true}
         showSentimentThemeFilter={true}
+        actions={
+          <ShareLinkDialog
+            projectId={selectedProjectId}
+            target={shareFilters ? { resource_type: "dashboard_view", view: "sentiment", filters: shareFilters } : null}
+            defaultName="Sentiment"
+          />
+        }
         onApply={handleFiltersChange}
       />
 
@@ -1,12 +1,14 @@
 "use client";
 
 import { useEffect, useState, useRef, useCallback, useMemo } from "react";
-import { TrendingUp, Users, Trophy, MessageSquare } from "lucide-react";
+import { TrendingUp, Users, Trophy, MessageSquare, Percent } from "lucide-react";
 import { StatCard } from "@/components/dashboard/stat-card";
 import { getCurrentWeekDateRange } from "@/lib/utils/date-helpers";
 import { PageHeader } from "@/components/dashboard/page-header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { FiltersToolbar } from "@/components/dashboard/filters-toolbar";
+import { ShareLinkDialog } from "@/components/share/share-link-dialog";
+import { toShareViewFilters } from "@/lib/share/filters";
 import { useProject } from "@/contexts/project-context";
 import {
   getShareOfVoice,
@@ -24,6 +26,8 @@ import { WelcomeTip } from "@/components/dashboard/welcome-tip";
 // import { CompetitiveGapTracker } from "@/components/share-of-voice/competitive-gap-tracker";
 import { DateRangeValue } from "@/components/ui/date-range-picker";
 import { type SentimentFilterOptions } from "@/lib/queries/sentiment-analysis";
+import { PLATFORMS, PLATFORM_IDS } from "@/lib/constants/platforms";
+import { formatMentionRate, type MentionRate } from "@/lib/utils/mention-rate";
 
 
 export default function ShareOfVoicePage() {
@@ -321,6 +325,9 @@ export default function ShareOfVoicePage() {
     }
   };
 
+  // Current filters, frozen into view share links
+  const shareFilters = toShareViewFilters({ dateRange, platform, region, topicId });
+
   // Eliminado early return - ahora mostramos skeleton loaders en cada sección
   return (
     <div className="space-y-6">
@@ -334,14 +341,22 @@ export default function ShareOfVoicePage() {
         platform={platform}
         region={region}
         topicId={topicId}
+        actions={
+          <ShareLinkDialog
+            projectId={selectedProjectId}
+            target={shareFilters ? { resource_type: "dashboard_view", view: "share_of_voice", filters: shareFilters } : null}
+            defaultName="Share of voice"
+          />
+        }
         onApply={handleFiltersChange} 
       />
 
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         {isLoading || !sovData ? (
           <>
             <StatCard title="" value="" description="" icon={Trophy} isLoading={true} />
+            <StatCard title="" value="" description="" icon={Percent} isLoading={true} />
             <StatCard title="" value="" description="" icon={MessageSquare} isLoading={true} />
             <StatCard title="" value="" description="" icon={TrendingUp} isLoading={true} />
             <StatCard title="" value="" description="" icon={Users} isLoading={true} />
@@ -363,6 +378,19 @@ export default function ShareOfVoicePage() {
               : undefined
           }
         />
+        <StatCard
+          title="Mention Rate"
+          value={`${Math.round((sovData.brand.mentionRate?.overall.rate || 0) * 100)}%`}
+          description={sovData.brand.mentionRate ? formatMentionRate(sovData.brand.mentionRate.overall) : "No analyzed samples"}
+          icon={Percent}
+              tooltip={`Share of analyzed AI answers that mention your brand. ${PLATFORM_IDS
+                .filter((id) => sovData.brand.mentionRate?.byPlatform[id])
+                .map((id) => {
+                  const rate: MentionRate = sovData.brand.mentionRate.byPlatform[id];
+                  return `${PLATFORMS[id].name}: ${rate.mentioned}/${rate.samples}`;
+                })
+                .join(", ")}`}
+        />
         <StatCard
           title="Total Mentions"
           value={sovData.totalMentions.toLocaleString()}
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+// Public: the document describes the API, it doesn't need a key
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
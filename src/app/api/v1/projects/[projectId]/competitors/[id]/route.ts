@@ -0,0 +1,7 @@
+import { projectResourceRoutes, competitorsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(competitorsResource);
+
+export const GET = routes.get;
+export const PATCH = routes.update;
+export const DELETE = routes.remove;
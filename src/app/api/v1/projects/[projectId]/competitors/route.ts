@@ -0,0 +1,6 @@
+import { projectResourceRoutes, competitorsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(competitorsResource);
+
+export const GET = routes.list;
+export const POST = routes.create;
@@ -0,0 +1,7 @@
+import { projectResourceRoutes, promptsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(promptsResource);
+
+export const GET = routes.get;
+export const PATCH = routes.update;
+export const DELETE = routes.remove;
@@ -0,0 +1,6 @@
+import { projectResourceRoutes, promptsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(promptsResource);
+
+export const GET = routes.list;
+export const POST = routes.create;
@@ -0,0 +1,7 @@
+import { projectResourceRoutes, regionsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(regionsResource);
+
+export const GET = routes.get;
+export const PATCH = routes.update;
+export const DELETE = routes.remove;
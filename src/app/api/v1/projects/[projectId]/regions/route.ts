@@ -0,0 +1,6 @@
+import { projectResourceRoutes, regionsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(regionsResource);
+
+export const GET = routes.list;
+export const POST = routes.create;
@@ -0,0 +1,11 @@
+import { withApiKey } from "@/lib/api/auth";
+import { getAIResponse } from "@/lib/api/ai-responses";
+import { apiJson } from "@/lib/api/http";
+import { getWorkspaceProject } from "@/lib/api/projects";
+
+type Params = { projectId: string; responseId: string };
+
+export const GET = withApiKey<Params>("responses:read", async (_request, ctx, { projectId, responseId }) => {
+  await getWorkspaceProject(ctx, projectId);
+  return apiJson({ data: await getAIResponse(ctx, projectId, responseId) });
+});
@@ -0,0 +1,14 @@
+import { withApiKey } from "@/lib/api/auth";
+import { listAIResponses } from "@/lib/api/ai-responses";
+import { parseApiFilters } from "@/lib/api/filters";
+import { apiJson, paginated, parsePagination } from "@/lib/api/http";
+import { getWorkspaceProject } from "@/lib/api/projects";
+
+export const GET = withApiKey<{ projectId: string }>("responses:read", async (request, ctx, { projectId }) => {
+  await getWorkspaceProject(ctx, projectId);
+  const pagination = parsePagination(request.nextUrl.searchParams);
+  const filters = await parseApiFilters(ctx, projectId, request.nextUrl.searchParams);
+
+  const { data, total } = await listAIResponses(ctx, projectId, filters, pagination);
+  return apiJson(paginated(data, total, pagination));
+});
@@ -0,0 +1,19 @@
+import { withApiKey } from "@/lib/api/auth";
+import { apiJson, readJsonBody } from "@/lib/api/http";
+import { deleteProject, getWorkspaceProject, updateProject, updateProjectSchema } from "@/lib/api/projects";
+
+type Params = { projectId: string };
+
+export const GET = withApiKey<Params>("projects:read", async (_request, ctx, { projectId }) => {
+  return apiJson({ data: await getWorkspaceProject(ctx, projectId) });
+});
+
+export const PATCH = withApiKey<Params>("projects:write", async (request, ctx, { projectId }) => {
+  const input = await readJsonBody(request, updateProjectSchema);
+  return apiJson({ data: await updateProject(ctx, projectId, input) });
+});
+
+export const DELETE = withApiKey<Params>("projects:write", async (_request, ctx, { projectId }) => {
+  await deleteProject(ctx, projectId);
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,12 @@
+import { withApiKey } from "@/lib/api/auth";
+import { describeFilters, parseApiFilters } from "@/lib/api/filters";
+import { apiJson } from "@/lib/api/http";
+import { getWorkspaceProject } from "@/lib/api/projects";
+import { getDailyStatsSeries } from "@/lib/api/stats";
+
+export const GET = withApiKey<{ projectId: string }>("stats:read", async (request, ctx, { projectId }) => {
+  await getWorkspaceProject(ctx, projectId);
+  const filters = await parseApiFilters(ctx, projectId, request.nextUrl.searchParams);
+
+  return apiJson({ filters: describeFilters(filters), data: await getDailyStatsSeries(ctx, projectId, filters) });
+});
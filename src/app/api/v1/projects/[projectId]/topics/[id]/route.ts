@@ -0,0 +1,7 @@
+import { projectResourceRoutes, topicsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(topicsResource);
+
+export const GET = routes.get;
+export const PATCH = routes.update;
+export const DELETE = routes.remove;
@@ -0,0 +1,6 @@
+import { projectResourceRoutes, topicsResource } from "@/lib/api/resources";
+
+const routes = projectResourceRoutes(topicsResource);
+
+export const GET = routes.list;
+export const POST = routes.create;
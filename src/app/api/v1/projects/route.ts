@@ -0,0 +1,12 @@
+import { withApiKey } from "@/lib/api/auth";
+import { apiJson, readJsonBody } from "@/lib/api/http";
+import { createProject, createProjectSchema, listProjects } from "@/lib/api/projects";
+
+export const GET = withApiKey("projects:read", async (_request, ctx) => {
+  return apiJson({ data: await listProjects(ctx) });
+});
+
+export const POST = withApiKey("projects:write", async (request, ctx) => {
+  const input = await readJsonBody(request, createProjectSchema);
+  return apiJson({ data: await createProject(ctx, input) }, 201);
+});
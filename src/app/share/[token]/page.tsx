@@ -0,0 +1,179 @@
+import type { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import { format, subDays, startOfDay, endOfDay } from "date-fns";
+import { Link2Off } from "lucide-react";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ReportDocument } from "@/components/reports/report-document";
+import { SharedDashboardView } from "@/components/share/shared-dashboard-view";
+import { SharePasswordForm } from "@/components/share/share-password-form";
+import type { ReportPeriod } from "@/components/reports/period-selector";
+import {
+  getPublicShareLink,
+  getSharedDashboardView,
+  getSharedReport,
+  recordShareLinkAccess,
+} from "@/lib/share/public";
+import { getShareAccessCookie, hasShareAccess } from "@/lib/share/tokens";
+
+// Links can be revoked at any time and every open is logged
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Shared report",
+  robots: { index: false, follow: false },
+};
+
+interface SharePageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * Calculate the actual date range for a report based on when it was created and its period
+ */
+function getReportDateRange(createdAt: string, period: ReportPeriod): { from: Date; to: Date } {
+  const createdDate = new Date(createdAt);
+  const reportEndDate = endOfDay(subDays(createdDate, 1)); // Report ends the day before creation
+
+  let reportStartDate: Date;
+
+  switch (period) {
+    case "yesterday":
+      reportStartDate = startOfDay(reportEndDate);
+      break;
+    case "last-week":
+      reportStartDate = startOfDay(subDays(reportEndDate, 6)); // 7 days total (including end date)
+      break;
+    case "last-month":
+      reportStartDate = startOfDay(subDays(reportEndDate, 29)); // 30 days total
+      break;
+    case "last-3-months":
+      reportStartDate = startOfDay(subDays(reportEndDate, 89)); // 90 days total
+      break;
+    default:
+      reportStartDate = startOfDay(reportEndDate);
+  }
+
+  return { from: reportStartDate, to: reportEndDate };
+}
+
+/**
+ * Format date range for display
+ */
+function formatDateRange(createdAt: string, period: ReportPeriod): string {
+  const { from, to } = getReportDateRange(createdAt, period);
+
+  if (period === "yesterday") {
+    return format(from, "MMM dd, yyyy");
+  }
+
+  if (from.getMonth() === to.getMonth() && from.getFullYear() === to.getFullYear()) {
+    return `${format(from, "MMM dd")} - ${format(to, "dd, yyyy")}`;
+  }
+
+  if (from.getFullYear() === to.getFullYear()) {
+    return `${format(from, "MMM dd")} - ${format(to, "MMM dd, yyyy")}`;
+  }
+
+  return `${format(from, "MMM dd, yyyy")} - ${format(to, "MMM dd, yyyy")}`;
+}
+
+function SharePageShell({ children, expiresAt }: { children: React.ReactNode; expiresAt?: string }) {
+  return (
+    <div className="min-h-screen bg-muted/20">
+      <main className="mx-auto flex max-w-5xl flex-col gap-6 px-4 py-8">
+        {children}
+        {expiresAt && (
+          <p className="text-center text-xs text-muted-foreground">
+            Read-only shared page · available until {format(new Date(expiresAt), "MMM d, yyyy")}
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function UnavailableShare() {
+  return (
+    <SharePageShell>
+      <Card className="mx-auto mt-24 w-full max-w-md">
+        <CardHeader className="text-center">
+          <Link2Off className="mx-auto h-10 w-10 text-muted-foreground" />
+          <CardTitle className="mt-4">Link unavailable</CardTitle>
+          <CardDescription>
+            This link has expired or was revoked. Ask the person who shared it for a new one.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    </SharePageShell>
+  );
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+
+  const link = await getPublicShareLink(token);
+  if (!link) {
+    return <UnavailableShare />;
+  }
+
+  if (link.password_hash) {
+    const cookie = getShareAccessCookie(link.id, token, link.password_hash);
+    const cookieStore = await cookies();
+    if (!hasShareAccess(cookieStore.get(cookie.name)?.value, cookie.value)) {
+      return (
+        <SharePageShell>
+          <div className="mt-24 flex justify-center">
+            <SharePasswordForm token={token} />
+          </div>
+        </SharePageShell>
+      );
+    }
+  }
+
+  if (link.resource_type === "report") {
+    const report = await getSharedReport(link);
+    if (!report) {
+      return <UnavailableShare />;
+    }
+
+    await recordVisit(link.id);
+
+    return (
+      <SharePageShell expiresAt={link.expires_at}>
+        <ReportDocument
+          brandName={report.brandName}
+          dateRange={formatDateRange(report.createdAt, report.period as ReportPeriod)}
+          topicName={report.topicName}
+          generatedAt={format(new Date(report.createdAt), "MMM dd, yyyy")}
+          data={report.data}
+          insights={report.insights}
+          branding={report.branding}
+        />
+      </SharePageShell>
+    );
+  }
+
+  const view = await getSharedDashboardView(link);
+  if (!view) {
+    return <UnavailableShare />;
+  }
+
+  await recordVisit(link.id);
+
+  return (
+    <SharePageShell expiresAt={link.expires_at}>
+      <SharedDashboardView data={view} />
+    </SharePageShell>
+  );
+}
+
+async function recordVisit(linkId: string) {
+  const requestHeaders = await headers();
+  await recordShareLinkAccess(linkId, "viewed", {
+    ip: requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || null,
+    userAgent: requestHeaders.get("user-agent"),
+    referrer: requestHeaders.get("referer"),
+  });
+}
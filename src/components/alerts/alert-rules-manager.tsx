@@ -0,0 +1,485 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import Link from "next/link";
+import { Loader2, Mail, Pencil, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import {
+  ALERT_METRICS,
+  ALERT_METRIC_IDS,
+  ALERT_RULE_TYPES,
+  ALERT_RULE_TYPE_IDS,
+  isAlertMetric,
+  isAlertRuleType,
+  type AlertMetric,
+  type AlertRuleType,
+} from "@/lib/constants/alerts";
+import { PLATFORM_IDS, getPlatformConfig } from "@/lib/constants/platforms";
+import {
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  toggleAlertRule,
+  deleteAlertRule,
+  type AlertRule,
+  type AlertRuleInput,
+} from "@/lib/actions/alerts";
+import { getProjectTopics } from "@/lib/actions/topics";
+import { getProjectCompetitors } from "@/lib/actions/competitors";
+import { getProjectDetails } from "@/lib/actions/project";
+
+// Select value for "no filter" (Select items can't have an empty value)
+const ANY = "any";
+
+interface RuleOptions {
+  topics: { id: string; name: string }[];
+  competitors: { id: string; name: string }[];
+  sentimentTopics: string[]; // projects.extracted_topics, the topics brand sentiment is evaluated on
+}
+
+export function AlertRulesManager() {
+  const { selectedProjectId } = useProject();
+  const [rules, setRules] = useState<AlertRule[] | null>(null);
+  const [options, setOptions] = useState<RuleOptions>({ topics: [], competitors: [], sentimentTopics: [] });
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<AlertRule | null>(null);
+
+  const loadRules = async () => {
+    if (!selectedProjectId) return;
+    const result = await getAlertRules(selectedProjectId);
+    if (result.error) {
+      toast.error("Failed to load alert rules", { description: result.error });
+      setRules([]);
+      return;
+    }
+    setRules(result.data);
+  };
+
+  const loadOptions = async () => {
+    if (!selectedProjectId) return;
+    const [topicsResult, competitorsResult, projectResult] = await Promise.all([
+      getProjectTopics(selectedProjectId),
+      getProjectCompetitors(selectedProjectId),
+      getProjectDetails(selectedProjectId),
+    ]);
+    setOptions({
+      topics: (topicsResult.data || []).map((t: { id: string; name: string }) => ({ id: t.id, name: t.name })),
+      competitors: (competitorsResult.data || []).map((c) => ({ id: c.id, name: c.name })),
+      sentimentTopics: (projectResult.data?.extracted_topics as string[] | null) || [],
+    });
+  };
+
+  useEffect(() => {
+    loadRules();
+    loadOptions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId]);
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditingRule(rule);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = () => {
+    setIsDialogOpen(false);
+    loadRules();
+  };
+
+  const handleToggle = async (rule: AlertRule, isActive: boolean) => {
+    const result = await toggleAlertRule(rule.id, isActive);
+    if (result.error) {
+      toast.error("Failed to update alert rule", { description: result.error });
+      return;
+    }
+    loadRules();
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    const result = await deleteAlertRule(ruleToDelete.id);
+    setRuleToDelete(null);
+
+    if (result.error) {
+      toast.error("Failed to delete alert rule", { description: result.error });
+      return;
+    }
+
+    toast.success("Alert rule deleted");
+    loadRules();
+  };
+
+  const describeScope = (rule: AlertRule) => {
+    const parts: string[] = [];
+    if (rule.rule_type === "metric_drop") parts.push(ALERT_METRICS[rule.metric].name);
+    if (rule.threshold !== null) {
+      parts.push(rule.rule_type === "negative_sentiment" ? `below ${rule.threshold}` : `${rule.threshold}%`);
+    }
+    if (rule.platform) parts.push(getPlatformConfig(rule.platform).name);
+    if (rule.topic_id) parts.push(options.topics.find((t) => t.id === rule.topic_id)?.name || "Topic");
+    if (rule.competitor_id) parts.push(options.competitors.find((c) => c.id === rule.competitor_id)?.name || "Competitor");
+    if (rule.sentiment_topic) parts.push(rule.sentiment_topic);
+    return parts.join(" · ");
+  };
+
+  if (!selectedProjectId) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Alert Rules</CardTitle>
+            <CardDescription>
+              What to watch and who to tell. Only project admins can change rules.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rules === null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No alert rules yet. Add one to be told when visibility, sentiment or citations change.
+          </p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-4 p-3">
+                <Switch checked={rule.is_active} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{rule.name}</div>
+                  <div className="text-sm text-muted-foreground truncate">
+                    {ALERT_RULE_TYPES[rule.rule_type].name}
+                    {describeScope(rule) && ` · ${describeScope(rule)}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  {rule.email_recipients.length > 0 && (
+                    <span className="flex items-center gap-1 text-xs" title={rule.email_recipients.join(", ")}>
+                      <Mail className="h-3.5 w-3.5" />
+                      {rule.email_recipients.length}
+                    </span>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => openDialog(rule)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setRuleToDelete(rule)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          {/* Mounted on open so the form starts from the rule being edited */}
+          {isDialogOpen && (
+            <AlertRuleForm
+              projectId={selectedProjectId}
+              rule={editingRule}
+              options={options}
+              onClose={() => setIsDialogOpen(false)}
+              onSaved={handleSaved}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete alert rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{ruleToDelete?.name}&quot; will stop alerting. Alerts it already raised stay in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface AlertRuleFormProps {
+  projectId: string;
+  rule: AlertRule | null; // null creates a new rule
+  options: RuleOptions;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function AlertRuleForm({ projectId, rule, options, onClose, onSaved }: AlertRuleFormProps) {
+  const [name, setName] = useState(rule?.name || "");
+  const [ruleType, setRuleType] = useState<AlertRuleType>(rule?.rule_type || "share_below");
+  const [metric, setMetric] = useState<AlertMetric>(rule?.metric || "mentions");
+  const [threshold, setThreshold] = useState(rule?.threshold !== null && rule?.threshold !== undefined ? String(rule.threshold) : "");
+  const [platform, setPlatform] = useState(rule?.platform || ANY);
+  const [topicId, setTopicId] = useState(rule?.topic_id || ANY);
+  const [competitorId, setCompetitorId] = useState(rule?.competitor_id || ANY);
+  const [sentimentTopic, setSentimentTopic] = useState(rule?.sentiment_topic || ANY);
+  const [emails, setEmails] = useState(rule?.email_recipients.join(", ") || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const typeConfig = ALERT_RULE_TYPES[ruleType];
+  const usesStats = ruleType === "share_below" || ruleType === "metric_drop" || ruleType === "competitor_overtake";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: AlertRuleInput = {
+      name: name.trim() || typeConfig.name,
+      rule_type: ruleType,
+      metric,
+      threshold: threshold.trim() === "" ? null : Number(threshold),
+      platform: platform === ANY ? null : platform,
+      topic_id: topicId === ANY ? null : topicId,
+      competitor_id: competitorId === ANY ? null : competitorId,
+      sentiment_topic: sentimentTopic === ANY ? null : sentimentTopic,
+      email_recipients: emails.split(/[\s,;]+/).filter(Boolean),
+      is_active: rule?.is_active ?? true,
+    };
+
+    setIsSaving(true);
+    const result = rule ? await updateAlertRule(rule.id, input) : await createAlertRule(projectId, input);
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error("Failed to save alert rule", { description: result.error });
+      return;
+    }
+
+    toast.success(rule ? "Alert rule updated" : "Alert rule created");
+    onSaved();
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>{rule ? "Edit Alert Rule" : "New Alert Rule"}</DialogTitle>
+        <DialogDescription>
+          Rules are checked every day after the stats are aggregated. Alerts always appear in the
+          dashboard; add recipients to also be notified by email.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid gap-2">
+          <Label htmlFor="alert-rule-type">Alert when</Label>
+          <Select value={ruleType} onValueChange={(value) => isAlertRuleType(value) && setRuleType(value)}>
+            <SelectTrigger id="alert-rule-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALERT_RULE_TYPE_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {ALERT_RULE_TYPES[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{typeConfig.description}</p>
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="alert-rule-name">Name</Label>
+          <Input
+            id="alert-rule-name"
+            placeholder={typeConfig.name}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        {ruleType === "metric_drop" && (
+          <div className="grid gap-2">
+            <Label htmlFor="alert-rule-metric">Metric</Label>
+            <Select value={metric} onValueChange={(value) => isAlertMetric(value) && setMetric(value)}>
+              <SelectTrigger id="alert-rule-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALERT_METRIC_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {ALERT_METRICS[id].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {typeConfig.thresholdLabel && (
+          <div className="grid gap-2">
+            <Label htmlFor="alert-rule-threshold">{typeConfig.thresholdLabel}</Label>
+            <Input
+              id="alert-rule-threshold"
+              type="number"
+              step="any"
+              placeholder={ruleType === "negative_sentiment" ? "0" : undefined}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+        )}
+
+        {usesStats && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Platform</Label>
+              <Select value={platform} onValueChange={setPlatform}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>
+                    {ruleType === "competitor_overtake" ? "Each platform" : "All platforms"}
+                  </SelectItem>
+                  {PLATFORM_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {getPlatformConfig(id).name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Topic</Label>
+              <Select value={topicId} onValueChange={setTopicId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All topics</SelectItem>
+                  {options.topics.map((topic) => (
+                    <SelectItem key={topic.id} value={topic.id}>
+                      {topic.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {ruleType === "competitor_overtake" && (
+          <div className="grid gap-2">
+            <Label>Competitor</Label>
+            <Select value={competitorId} onValueChange={setCompetitorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any competitor</SelectItem>
+                {options.competitors.map((competitor) => (
+                  <SelectItem key={competitor.id} value={competitor.id}>
+                    {competitor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {ruleType === "negative_sentiment" && (
+          <div className="grid gap-2">
+            <Label>Sentiment topic</Label>
+            <Select value={sentimentTopic} onValueChange={setSentimentTopic}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any topic</SelectItem>
+                {options.sentimentTopics.map((topic) => (
+                  <SelectItem key={topic} value={topic}>
+                    {topic}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <Label htmlFor="alert-rule-emails">Email recipients</Label>
+          <Textarea
+            id="alert-rule-emails"
+            placeholder="alice@example.com, bob@example.com"
+            rows={2}
+            value={emails}
+            onChange={(e) => setEmails(e.target.value)}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          To receive alerts by webhook, subscribe a workspace endpoint to <code>alert.fired</code> in{" "}
+          <Link href="/dashboard/settings?tab=webhooks" className="underline underline-offset-2">
+            Settings &rsaquo; Webhooks
+          </Link>
+          .
+        </p>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {rule ? "Save" : "Create Rule"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import { format } from "date-fns";
+import { BellOff, Check, CheckCircle2, FolderOpen, Mail } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { cn } from "@/lib/utils";
+import { ALERT_RULE_TYPES, ALERT_SEVERITIES } from "@/lib/constants/alerts";
+import { getAlerts, acknowledgeAlerts, snoozeAlert, type Alert } from "@/lib/actions/alerts";
+
+const SNOOZE_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "1 week" },
+  { days: 30, label: "30 days" },
+];
+
+const DELIVERY_ICONS = {
+  email: Mail,
+};
+
+export function AlertsInbox() {
+  const { selectedProjectId } = useProject();
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+
+  const loadAlerts = async () => {
+    if (!selectedProjectId) return;
+    try {
+      const result = await getAlerts(selectedProjectId, showHistory);
+      if (result.error) {
+        toast.error("Failed to load alerts", { description: result.error });
+      } else {
+        setAlerts(result.data || []);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAlerts();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId, showHistory]);
+
+  const handleAcknowledge = async (alertIds: string[]) => {
+    setActingId(alertIds.length === 1 ? alertIds[0] : "all");
+    const result = await acknowledgeAlerts(alertIds);
+    setActingId(null);
+
+    if (result.error) {
+      toast.error("Failed to acknowledge", { description: result.error });
+      return;
+    }
+
+    toast.success(alertIds.length === 1 ? "Alert acknowledged" : `${alertIds.length} alerts acknowledged`);
+    loadAlerts();
+  };
+
+  const handleSnooze = async (alert: Alert, days: number, label: string) => {
+    setActingId(alert.id);
+    const result = await snoozeAlert(alert.id, days);
+    setActingId(null);
+
+    if (result.error) {
+      toast.error("Failed to snooze", { description: result.error });
+      return;
+    }
+
+    toast.success(`Snoozed for ${label}`, {
+      description: "This rule won't alert again for the same subject until then.",
+    });
+    loadAlerts();
+  };
+
+  if (!selectedProjectId) {
+    return (
+      <EmptyState
+        icon={FolderOpen}
+        title="No project selected"
+        description="Select a project to see its alerts."
+      />
+    );
+  }
+
+  const openIds = alerts.filter((alert) => alert.status === "open").map((alert) => alert.id);
+  const isSnoozed = (alert: Alert) => !!alert.snoozed_until && new Date(alert.snoozed_until) > new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Alerts</CardTitle>
+            <CardDescription>Checked every day after the stats are aggregated</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="show-alert-history" checked={showHistory} onCheckedChange={setShowHistory} />
+              <Label htmlFor="show-alert-history">Show acknowledged and snoozed</Label>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => handleAcknowledge(openIds)}
+              disabled={openIds.length === 0 || actingId !== null}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Acknowledge all
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <EmptyState
+            icon={CheckCircle2}
+            title="No open alerts"
+            description="Nothing crossed your alert rules. New alerts show up here and are sent to the rule's email and to workspace webhooks."
+          />
+        ) : (
+          <div className="divide-y rounded-md border">
+            {alerts.map((alert) => {
+              const severity = ALERT_SEVERITIES[alert.severity];
+              const closed = alert.status !== "open" || isSnoozed(alert);
+
+              return (
+                <div key={alert.id} className={cn("flex items-start gap-4 p-4", closed && "opacity-60")}>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className={cn("border-0", severity.badgeClass)}>
+                        {severity.name}
+                      </Badge>
+                      <span className="font-medium">{alert.title}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{alert.message}</p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      <span>{format(new Date(`${alert.stat_date}T00:00:00`), "MMM d, yyyy")}</span>
+                      <span>{alert.rule_name || ALERT_RULE_TYPES[alert.rule_type]?.name || "Deleted rule"}</span>
+                      {Object.entries(alert.delivery || {}).map(([channel, result]) => {
+                        const Icon = DELIVERY_ICONS[channel as keyof typeof DELIVERY_ICONS] || Mail;
+                        return (
+                          <span
+                            key={channel}
+                            className={cn("flex items-center gap-1", result === "failed" && "text-destructive")}
+                          >
+                            <Icon className="h-3 w-3" />
+                            {result}
+                          </span>
+                        );
+                      })}
+                      {alert.status === "acknowledged" && alert.acknowledged_at && (
+                        <span>Acknowledged {format(new Date(alert.acknowledged_at), "MMM d, HH:mm")}</span>
+                      )}
+                      {isSnoozed(alert) && (
+                        <span>Snoozed until {format(new Date(alert.snoozed_until!), "MMM d, HH:mm")}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={actingId !== null}>
+                          <BellOff className="mr-2 h-4 w-4" />
+                          Snooze
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {SNOOZE_OPTIONS.map((option) => (
+                          <DropdownMenuItem
+                            key={option.days}
+                            onClick={() => handleSnooze(alert, option.days, option.label)}
+                          >
+                            {option.label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    {alert.status === "open" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAcknowledge([alert.id])}
+                        disabled={actingId !== null}
+                      >
+                        <Check className="mr-2 h-4 w-4" />
+                        Acknowledge
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,8 @@ interface DRBreakdownData {
 
 interface CitationDRBreakdownProps {
   data: DRBreakdownData;
+  yourDomainRating?: number | null; // Authority of the project's own domain, null until scored
+  action?: React.ReactNode; // Rendered in the header, e.g. the DR import button
 }
 
 const TIERS = [
@@ -61,7 +63,7 @@ const TIERS = [
   },
 ];
 
-export function CitationDRBreakdown({ data }: CitationDRBreakdownProps) {
+export function CitationDRBreakdown({ data, yourDomainRating, action }: CitationDRBreakdownProps) {
   const total = data.high + data.medium + data.low + data.unverified;
 
   const breakdown = TIERS.map((tier) => {
@@ -81,12 +83,23 @@ export function CitationDRBreakdown({ data }: CitationDRBreakdownProps) {
   return (
     <Card className="border-border/50 h-full flex flex-col">
       <CardHeader className="pb-3">
-        <CardTitle className="text-lg">Citation DR Breakdown</CardTitle>
-        <p className="text-sm text-muted-foreground">
-          Distribution by source authority level
-        </p>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">Citation DR Breakdown</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Distribution by source authority level
+            </p>
+          </div>
+          {action}
+        </div>
       </CardHeader>
       <CardContent className="flex-1 flex flex-col min-h-0">
+        {total === 0 && (
+          <div className="flex-1 flex items-center justify-center min-h-[280px] text-sm text-muted-foreground">
+            No citations in this period
+          </div>
+        )}
+
         {/* Vertical Bar Chart */}
         <div className="flex-1 flex items-end justify-between gap-3 min-h-[280px] pb-2">
           {sortedBreakdown.map((tier) => {
@@ -156,6 +169,14 @@ export function CitationDRBreakdown({ data }: CitationDRBreakdownProps) {
             <span className="text-sm text-muted-foreground">Total Citations</span>
             <span className="text-lg font-bold">{total}</span>
           </div>
+          {yourDomainRating !== undefined && (
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-sm text-muted-foreground">Your Domain Rating</span>
+              <span className="text-sm font-semibold">
+                {yourDomainRating === null ? "Not scored yet" : yourDomainRating}
+              </span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
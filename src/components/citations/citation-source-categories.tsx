@@ -0,0 +1,78 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getSourceCategoryConfig } from "@/lib/constants/source-categories";
+
+interface SourceCategoryData {
+  category: string; // Source category or "unclassified"
+  citations: number;
+  domains: number;
+  percentage: number; // Share of citations, 0-100
+}
+
+interface CitationSourceCategoriesProps {
+  data: SourceCategoryData[];
+  action?: React.ReactNode; // Rendered in the header, e.g. the overrides button
+}
+
+export function CitationSourceCategories({ data, action }: CitationSourceCategoriesProps) {
+  const total = data.reduce((sum, item) => sum + item.citations, 0);
+  const maxPercentage = Math.max(...data.map((item) => item.percentage), 1);
+
+  return (
+    <Card className="border-border/50 h-full flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">Citation Source Types</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Which kinds of sites AI answers rely on
+            </p>
+          </div>
+          {action}
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1 flex flex-col min-h-0">
+        {total === 0 ? (
+          <div className="flex-1 flex items-center justify-center min-h-[200px] text-sm text-muted-foreground">
+            No citations in this period
+          </div>
+        ) : (
+          <div className="space-y-3 pb-4">
+            {data.map((item) => {
+              const config = getSourceCategoryConfig(item.category);
+              return (
+                <div key={item.category} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: config.color }} />
+                      <span className="font-medium">{config.name}</span>
+                    </span>
+                    <span className="text-muted-foreground tabular-nums">
+                      {item.citations} · {item.domains} {item.domains === 1 ? "domain" : "domains"} ·{" "}
+                      <span className="font-semibold text-foreground">{item.percentage.toFixed(1)}%</span>
+                    </span>
+                  </div>
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full transition-all duration-700 ease-out"
+                      style={{ width: `${(item.percentage / maxPercentage) * 100}%`, backgroundColor: config.color }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Total Summary */}
+        <div className="pt-4 mt-auto border-t">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Total Citations</span>
+            <span className="text-lg font-bold">{total}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
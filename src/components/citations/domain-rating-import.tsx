@@ -0,0 +1,249 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Loader2, RefreshCw, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import {
+  getDomainAuthoritySummary,
+  importDomainRatings,
+  clearImportedDomainRatings,
+  recomputeDomainAuthority,
+  type DomainAuthoritySummary,
+} from "@/lib/actions/domain-authority";
+
+interface DomainRatingImportProps {
+  projectId: string;
+  onChanged?: () => void; // Called after scores change so the page can reload
+}
+
+export function DomainRatingImport({ projectId, onChanged }: DomainRatingImportProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+        <Upload className="mr-2 h-4 w-4" />
+        Import DR
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          {/* Mounted on open so the summary and form start fresh */}
+          {isDialogOpen && (
+            <DomainRatingImportForm
+              projectId={projectId}
+              onCancel={() => setIsDialogOpen(false)}
+              onChanged={() => onChanged?.()}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface DomainRatingImportFormProps {
+  projectId: string;
+  onCancel: () => void;
+  onChanged: () => void;
+}
+
+function DomainRatingImportForm({ projectId, onCancel, onChanged }: DomainRatingImportFormProps) {
+  const [summary, setSummary] = useState<DomainAuthoritySummary | null>(null);
+  const [csvText, setCsvText] = useState("");
+  const [source, setSource] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const loadSummary = async () => {
+    const result = await getDomainAuthoritySummary(projectId);
+    if (result.error) {
+      toast.error("Failed to load domain ratings", { description: result.error });
+      return;
+    }
+    setSummary(result.data);
+  };
+
+  useEffect(() => {
+    loadSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const result = await importDomainRatings(projectId, csvText, source);
+    setIsImporting(false);
+
+    if (result.error || !result.data) {
+      toast.error("Failed to import domain ratings", { description: result.error || undefined });
+      return;
+    }
+
+    toast.success(`Imported ${result.data.imported} domain ratings`, {
+      description: result.data.skipped > 0 ? `${result.data.skipped} invalid lines were skipped.` : undefined,
+    });
+    setCsvText("");
+    loadSummary();
+    onChanged();
+  };
+
+  const handleRecompute = async () => {
+    setIsRecomputing(true);
+    const result = await recomputeDomainAuthority(projectId);
+    setIsRecomputing(false);
+
+    if (result.error || !result.data) {
+      toast.error("Failed to recompute authority scores", { description: result.error || undefined });
+      return;
+    }
+
+    toast.success(`Scored ${result.data.scored} cited domains`);
+    loadSummary();
+    onChanged();
+  };
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    const result = await clearImportedDomainRatings(projectId);
+    setIsClearing(false);
+
+    if (result.error) {
+      toast.error("Failed to clear imported ratings", { description: result.error });
+      return;
+    }
+
+    toast.success("Imported ratings cleared", {
+      description: "The internal citation score is used for every domain again.",
+    });
+    loadSummary();
+    onChanged();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Domain Authority</DialogTitle>
+        <DialogDescription>
+          Every cited domain gets an internal score from your citation data: how many platforms,
+          prompts, regions and days cite it, and how many tracked brands it cites. Import DR values
+          from a third-party tool to use them instead.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="rounded-md bg-muted p-3 text-sm">
+          {summary === null ? (
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading...
+            </span>
+          ) : (
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div>
+                  <span className="font-medium">{summary.scored}</span> domains scored internally
+                  {summary.lastComputedAt && (
+                    <span className="text-muted-foreground">
+                      {" "}· updated {format(new Date(summary.lastComputedAt), "MMM d, HH:mm")}
+                    </span>
+                  )}
+                </div>
+                <div>
+                  <span className="font-medium">{summary.imported}</span> imported ratings
+                  {summary.lastImportedAt && (
+                    <span className="text-muted-foreground">
+                      {" "}· last import {format(new Date(summary.lastImportedAt), "MMM d, yyyy")}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={handleRecompute} disabled={isRecomputing}>
+                {isRecomputing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Recompute
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="dr-import-file">CSV file</Label>
+          <Input
+            id="dr-import-file"
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="dr-import-csv">Or paste rows</Label>
+          <Textarea
+            id="dr-import-csv"
+            rows={6}
+            className="font-mono text-xs"
+            placeholder={"domain,rating,source\nforbes.com,94,ahrefs\nwirecutter.com,88"}
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            One domain per line with a rating from 0 to 100. The optional third column overrides the source below.
+          </p>
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="dr-import-source">Source</Label>
+          <Input
+            id="dr-import-source"
+            placeholder="e.g. ahrefs"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="sm:justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={handleClear}
+          disabled={isClearing || !summary || summary.imported === 0}
+        >
+          {isClearing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Clear Imported
+        </Button>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Close
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={isImporting || csvText.trim() === ""}>
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
@@ -11,12 +11,15 @@ import {
 } from "@/components/ui/table";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { Info } from "lucide-react";
+import { getSourceCategoryConfig } from "@/lib/constants/source-categories";
 interface DomainData {
   domain: string;
   type: string;
   citations: number; // Total citations from this domain
   platforms?: string[]; // AI platforms that cited this domain
   changePercent?: number; // Trend
+  domainRating?: number | null; // Authority score 0-100, null until scored
+  sourceCategory?: string | null; // Source type, null until classified
 }
 
 interface MostCitedDomainsTableProps {
@@ -24,6 +27,12 @@ interface MostCitedDomainsTableProps {
   infoTooltip?: string;
 }
 
+const getDRColor = (rating: number) => {
+  if (rating >= 80) return "text-green-600 font-semibold";
+  if (rating >= 60) return "text-blue-600 font-medium";
+  if (rating >= 40) return "text-orange-500";
+  return "text-gray-500";
+};
 
 export function MostCitedDomainsTable({ data, infoTooltip }: MostCitedDomainsTableProps) {
   return (
@@ -55,14 +64,16 @@ export function MostCitedDomainsTable({ data, infoTooltip }: MostCitedDomainsTab
               <TableRow>
                 <TableHead className="w-[50px] px-5">#</TableHead>
                 <TableHead className="px-5">Domain</TableHead>
+                <TableHead className="px-5">Type</TableHead>
                 <TableHead className="text-center px-5">Platforms</TableHead>
+                <TableHead className="text-center px-5">DR</TableHead>
                 <TableHead className="text-right px-5">Citations</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {data.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={4} className="text-center py-8 px-6 text-muted-foreground">
+                  <TableCell colSpan={6} className="text-center py-8 px-6 text-muted-foreground">
                     <div className="flex flex-col items-center gap-2">
                       <p>No citation domains available yet</p>
                     </div>
@@ -75,11 +86,25 @@ export function MostCitedDomainsTable({ data, infoTooltip }: MostCitedDomainsTab
                     <TableCell className="font-mono text-sm px-6">
                       {domain.domain}
                     </TableCell>
+                    <TableCell className="px-6">
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${getSourceCategoryConfig(domain.sourceCategory).badgeClass}`}
+                      >
+                        {getSourceCategoryConfig(domain.sourceCategory).name}
+                      </span>
+                    </TableCell>
                     <TableCell className="text-center px-6">
                       <span className="text-xs text-muted-foreground">
                         {domain.platforms?.length || 0} platform{domain.platforms?.length !== 1 ? "s" : ""}
                       </span>
                     </TableCell>
+                    <TableCell className="text-center px-6">
+                      {domain.domainRating === null || domain.domainRating === undefined ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <span className={getDRColor(domain.domainRating)}>{domain.domainRating}</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right font-semibold px-6">
                       {domain.citations}
                     </TableCell>
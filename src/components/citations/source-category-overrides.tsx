@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Plus, RotateCcw, Tags } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import {
+  SOURCE_CATEGORIES,
+  SOURCE_CATEGORY_IDS,
+  isSourceCategory,
+  type SourceCategory,
+} from "@/lib/constants/source-categories";
+import {
+  getDomainCategoryOverrides,
+  setDomainCategoryOverride,
+  removeDomainCategoryOverride,
+  type DomainCategoryOverride,
+} from "@/lib/actions/source-categories";
+
+interface CitedDomain {
+  domain: string;
+  sourceCategory?: string | null; // Current category, null until classified
+}
+
+interface SourceCategoryOverridesProps {
+  projectId: string;
+  domains: CitedDomain[]; // Most cited domains, listed for quick correction
+  onChanged?: () => void; // Called after a category changes so the page can reload
+}
+
+export function SourceCategoryOverrides({ projectId, domains, onChanged }: SourceCategoryOverridesProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+        <Tags className="mr-2 h-4 w-4" />
+        Edit Types
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          {/* Mounted on open so the overrides are reloaded */}
+          {isDialogOpen && (
+            <SourceCategoryOverridesForm
+              projectId={projectId}
+              domains={domains}
+              onClose={() => setIsDialogOpen(false)}
+              onChanged={() => onChanged?.()}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface SourceCategoryOverridesFormProps {
+  projectId: string;
+  domains: CitedDomain[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+function SourceCategoryOverridesForm({ projectId, domains, onClose, onChanged }: SourceCategoryOverridesFormProps) {
+  const [overrides, setOverrides] = useState<DomainCategoryOverride[] | null>(null);
+  const [savingDomain, setSavingDomain] = useState<string | null>(null);
+  const [newDomain, setNewDomain] = useState("");
+  const [newCategory, setNewCategory] = useState<SourceCategory>("review_site");
+
+  const loadOverrides = async () => {
+    const result = await getDomainCategoryOverrides(projectId);
+    if (result.error) {
+      toast.error("Failed to load source type overrides", { description: result.error });
+      setOverrides([]);
+      return;
+    }
+    setOverrides(result.data);
+  };
+
+  useEffect(() => {
+    loadOverrides();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const handleSet = async (domain: string, category: SourceCategory) => {
+    setSavingDomain(domain);
+    const result = await setDomainCategoryOverride(projectId, domain, category);
+    setSavingDomain(null);
+
+    if (result.error || !result.data) {
+      toast.error("Failed to update source type", { description: result.error || undefined });
+      return false;
+    }
+
+    toast.success(`${result.data.domain} is now ${SOURCE_CATEGORIES[category].name}`);
+    loadOverrides();
+    onChanged();
+    return true;
+  };
+
+  const handleReset = async (domain: string) => {
+    setSavingDomain(domain);
+    const result = await removeDomainCategoryOverride(projectId, domain);
+    setSavingDomain(null);
+
+    if (result.error) {
+      toast.error("Failed to reset source type", { description: result.error });
+      return;
+    }
+
+    toast.success(`${domain} uses the automatic source type again`);
+    loadOverrides();
+    onChanged();
+  };
+
+  const handleAdd = async () => {
+    if (await handleSet(newDomain.trim(), newCategory)) {
+      setNewDomain("");
+    }
+  };
+
+  // Overridden domains first, then the most cited ones that aren't overridden
+  const overrideByDomain = new Map((overrides || []).map((o) => [o.domain, o.category]));
+  const rows = [
+    ...(overrides || []).map((o) => ({ domain: o.domain, category: o.category as string | null, overridden: true })),
+    ...domains
+      .filter((d) => !overrideByDomain.has(d.domain.replace(/^www\./, "")))
+      .map((d) => ({ domain: d.domain, category: d.sourceCategory ?? null, overridden: false })),
+  ];
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Source Types</DialogTitle>
+        <DialogDescription>
+          Cited domains are classified automatically from known sites and, for the rest, by an AI
+          model. Correct a domain here to override it for this project; existing citations are
+          updated right away. Only project admins can change source types.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="example.com"
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+          />
+          <Select value={newCategory} onValueChange={(value) => isSourceCategory(value) && setNewCategory(value)}>
+            <SelectTrigger className="w-[200px] shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SOURCE_CATEGORY_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {SOURCE_CATEGORIES[id].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="icon"
+            className="shrink-0"
+            onClick={handleAdd}
+            disabled={newDomain.trim() === "" || savingDomain !== null}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="max-h-[360px] overflow-y-auto rounded-md border divide-y">
+          {overrides === null ? (
+            <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="p-3 text-sm text-muted-foreground">No cited domains in this period</div>
+          ) : (
+            rows.map((row) => (
+              <div key={row.domain} className="flex items-center gap-2 px-3 py-2">
+                <span className="flex-1 min-w-0 truncate font-mono text-sm">{row.domain}</span>
+                {savingDomain === row.domain && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                <Select
+                  value={row.category && isSourceCategory(row.category) ? row.category : undefined}
+                  onValueChange={(value) => isSourceCategory(value) && handleSet(row.domain, value)}
+                  disabled={savingDomain !== null}
+                >
+                  <SelectTrigger className="w-[200px] shrink-0">
+                    <SelectValue placeholder="Unclassified" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SOURCE_CATEGORY_IDS.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {SOURCE_CATEGORIES[id].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  title="Use the automatic source type"
+                  onClick={() => handleReset(row.domain)}
+                  disabled={!row.overridden || savingDomain !== null}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
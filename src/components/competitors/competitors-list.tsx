@@ -14,7 +14,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { ExternalLink, Trash2, Globe } from "lucide-react";
+import { ExternalLink, Trash2, Globe, Tags } from "lucide-react";
 import type { Competitor } from "./competitors-manager";
 import { getCountryByCode } from "@/lib/countries";
 
@@ -23,6 +23,7 @@ interface CompetitorsListProps {
   onToggleActive: (id: string) => void;
   onDelete: (id: string) => void;
   onUpdateColor: (id: string, color: string) => void;
+  onEditAliases: (id: string) => void;
 }
 
 export function CompetitorsList({
@@ -30,6 +31,7 @@ export function CompetitorsList({
   onToggleActive,
   onDelete,
   onUpdateColor,
+  onEditAliases,
 }: CompetitorsListProps) {
   return (
     <div className="space-y-4">
@@ -103,6 +105,15 @@ export function CompetitorsList({
                   <span>{getCountryByCode(competitor.region)?.name || "All countries"}</span>
                 </span>
               </div>
+              {competitor.aliases.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {competitor.aliases.map((alias) => (
+                    <Badge key={alias} variant="outline" className="font-normal">
+                      {alias}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -118,6 +129,11 @@ export function CompetitorsList({
               />
             </div>
 
+            <Button variant="outline" size="sm" onClick={() => onEditAliases(competitor.id)}>
+              <Tags className="mr-2 h-4 w-4" />
+              Aliases
+            </Button>
+
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button variant="ghost" size="icon">
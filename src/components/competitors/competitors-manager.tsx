@@ -4,9 +4,13 @@ import { useState, useEffect } from "react";
 import { useProject } from "@/contexts/project-context";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Plus, Tags } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { AddCompetitorDialog } from "./add-competitor-dialog";
 import { CompetitorsList } from "./competitors-list";
+import { EditAliasesDialog } from "./edit-aliases-dialog";
+import { PotentialCompetitorsReview } from "./potential-competitors-review";
+import { ReanalysisPanel } from "./reanalysis-panel";
 import { EmptyState } from "@/components/dashboard/empty-state";
 import {
   getProjectCompetitors,
@@ -14,8 +18,10 @@ import {
   toggleCompetitorActive,
   deleteCompetitor,
   updateCompetitor,
+  updateCompetitorAliases,
   type Competitor as DBCompetitor,
 } from "@/lib/actions/competitors";
+import { getProjectDetails, updateBrandAliases } from "@/lib/actions/project";
 import { toast } from "sonner";
 
 export interface Competitor {
@@ -25,22 +31,42 @@ export interface Competitor {
   region: string;
   favicon?: string;
   color?: string;
+  aliases: string[];
   isActive: boolean;
   createdAt: string;
 }
 
+// Entity whose aliases are being edited; a null id is the project's own brand
+interface AliasTarget {
+  id: string | null;
+  name: string;
+  aliases: string[];
+}
+
 export function CompetitorsManager() {
   const { selectedProjectId } = useProject();
   const [competitors, setCompetitors] = useState<Competitor[]>([]);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [brand, setBrand] = useState<{ name: string; aliases: string[] } | null>(null);
+  const [aliasTarget, setAliasTarget] = useState<AliasTarget | null>(null);
 
   const loadCompetitors = async () => {
     if (!selectedProjectId) return;
     
     setIsLoading(true);
-    const result = await getProjectCompetitors(selectedProjectId);
-    
+    const [result, projectResult] = await Promise.all([
+      getProjectCompetitors(selectedProjectId),
+      getProjectDetails(selectedProjectId),
+    ]);
+
+    if (projectResult.data) {
+      setBrand({
+        name: projectResult.data.brand_name,
+        aliases: projectResult.data.brand_aliases || [],
+      });
+    }
+
     if (result.error) {
       toast.error("Failed to load competitors");
       setIsLoading(false);
@@ -55,6 +81,7 @@ export function CompetitorsManager() {
       region: c.region,
       favicon: c.favicon,
       color: c.color || "#3B82F6",
+      aliases: c.aliases || [],
       isActive: c.is_active,
       createdAt: c.created_at,
     }));
@@ -68,7 +95,7 @@ export function CompetitorsManager() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedProjectId]);
 
-  const handleAddCompetitor = async (competitor: Omit<Competitor, "id" | "createdAt" | "isActive">) => {
+  const handleAddCompetitor = async (competitor: Omit<Competitor, "id" | "createdAt" | "isActive" | "aliases">) => {
     if (!selectedProjectId) return;
 
     const result = await createCompetitor({
@@ -133,6 +160,31 @@ export function CompetitorsManager() {
     toast.success("Color updated successfully");
   };
 
+  const handleEditCompetitorAliases = (id: string) => {
+    const competitor = competitors.find((c) => c.id === id);
+    if (!competitor) return;
+    setAliasTarget({ id, name: competitor.name, aliases: competitor.aliases });
+  };
+
+  const handleSaveAliases = async (aliases: string[]) => {
+    if (!aliasTarget || !selectedProjectId) return;
+
+    const result = aliasTarget.id
+      ? await updateCompetitorAliases(aliasTarget.id, aliases)
+      : await updateBrandAliases(selectedProjectId, aliases);
+
+    if (result.error) {
+      toast.error("Failed to update aliases");
+      return;
+    }
+
+    toast.success("Aliases updated", {
+      description: "New aliases apply to responses analyzed from now on. Re-analyze history to apply them to past responses.",
+    });
+    setAliasTarget(null);
+    loadCompetitors();
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -147,6 +199,42 @@ export function CompetitorsManager() {
 
   return (
     <>
+      {brand && (
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Your Brand</CardTitle>
+                <CardDescription>
+                  Other names of {brand.name} that should count as a mention of your brand
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setAliasTarget({ id: null, name: brand.name, aliases: brand.aliases })}
+              >
+                <Tags className="mr-2 h-4 w-4" />
+                Edit Aliases
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">{brand.name}</span>
+              {brand.aliases.length === 0 ? (
+                <span className="text-sm text-muted-foreground">No aliases yet</span>
+              ) : (
+                brand.aliases.map((alias) => (
+                  <Badge key={alias} variant="outline" className="font-normal">
+                    {alias}
+                  </Badge>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -179,6 +267,7 @@ export function CompetitorsManager() {
               onToggleActive={handleToggleActive}
               onDelete={handleDeleteCompetitor}
               onUpdateColor={handleUpdateColor}
+              onEditAliases={handleEditCompetitorAliases}
             />
           )}
         </CardContent>
@@ -189,6 +278,21 @@ export function CompetitorsManager() {
         onOpenChange={setIsAddDialogOpen}
         onAdd={handleAddCompetitor}
       />
+
+      <EditAliasesDialog
+        open={aliasTarget !== null}
+        onOpenChange={(open) => !open && setAliasTarget(null)}
+        entityName={aliasTarget?.name || ""}
+        aliases={aliasTarget?.aliases || []}
+        onSave={handleSaveAliases}
+      />
+
+      <PotentialCompetitorsReview
+        usedColors={competitors.map((c) => c.color || "#3B82F6")}
+        onPromoted={loadCompetitors}
+      />
+
+      {brand && <ReanalysisPanel brandName={brand.name} competitors={competitors} />}
     </>
   );
 }
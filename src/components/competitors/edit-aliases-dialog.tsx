@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, X } from "lucide-react";
+import { normalizeAliases } from "@/lib/utils";
+
+interface EditAliasesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityName: string;
+  aliases: string[];
+  onSave: (aliases: string[]) => Promise<void>;
+}
+
+export function EditAliasesDialog({
+  open,
+  onOpenChange,
+  entityName,
+  aliases,
+  onSave,
+}: EditAliasesDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        {/* Mounted on open so the form starts from the saved aliases */}
+        {open && (
+          <AliasesForm
+            entityName={entityName}
+            initialAliases={aliases}
+            onCancel={() => onOpenChange(false)}
+            onSave={onSave}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AliasesFormProps {
+  entityName: string;
+  initialAliases: string[];
+  onCancel: () => void;
+  onSave: (aliases: string[]) => Promise<void>;
+}
+
+function AliasesForm({ entityName, initialAliases, onCancel, onSave }: AliasesFormProps) {
+  const [aliases, setAliases] = useState<string[]>(initialAliases);
+  const [input, setInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Merges the comma-separated input into the list, skipping the entity's own name
+  const mergeInput = (list: string[]) =>
+    normalizeAliases([...list, ...input.split(",")]).filter(
+      (alias) => alias.toLowerCase() !== entityName.toLowerCase()
+    );
+
+  const addAliases = () => {
+    setAliases(mergeInput(aliases));
+    setInput("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addAliases();
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(mergeInput(aliases));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Aliases for {entityName}</DialogTitle>
+        <DialogDescription>
+          Other names that count as a mention of {entityName}: spelling variants, common misspellings,
+          sub-brands, product names or domains. Matching ignores case and accents.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid gap-2">
+          <Label htmlFor="alias">Add alias</Label>
+          <div className="flex gap-2">
+            <Input
+              id="alias"
+              placeholder="e.g., Coke, cocacola.com"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="flex-1"
+            />
+            <Button type="button" variant="outline" onClick={addAliases} disabled={!input.trim()}>
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Press Enter or type a comma to add an alias.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {aliases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No aliases yet.</p>
+          ) : (
+            aliases.map((alias) => (
+              <Badge key={alias} variant="secondary" className="gap-1 pr-1">
+                {alias}
+                <button
+                  type="button"
+                  onClick={() => setAliases((prev) => prev.filter((a) => a !== alias))}
+                  className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                  aria-label={`Remove alias ${alias}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Aliases
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,498 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import { format } from "date-fns";
+import { ArrowUpRight, Combine, EyeOff, Loader2, Radar, RotateCcw, TrendingDown, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CountrySelect } from "@/components/ui/country-select";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { toast } from "sonner";
+import {
+  getPotentialCompetitors,
+  mergePotentialCompetitors,
+  dismissPotentialCompetitors,
+  restorePotentialCompetitor,
+  getPotentialCompetitorDomains,
+  promotePotentialCompetitor,
+  type PotentialCompetitor,
+  type DomainSuggestion,
+} from "@/lib/actions/potential-competitors";
+import { generateRandomColor } from "@/lib/utils";
+
+type QueueView = "pending" | "dismissed";
+type QueueSort = "frequency" | "growth";
+
+// Week-over-week change in detections; brands new this week count as +100%
+function weeklyGrowth(brand: PotentialCompetitor): number {
+  if (brand.previous_mentions === 0) {
+    return brand.recent_mentions > 0 ? 1 : 0;
+  }
+  return (brand.recent_mentions - brand.previous_mentions) / brand.previous_mentions;
+}
+
+function sortQueue(brands: PotentialCompetitor[], sort: QueueSort): PotentialCompetitor[] {
+  return [...brands].sort((a, b) =>
+    sort === "growth"
+      ? weeklyGrowth(b) - weeklyGrowth(a) || b.recent_mentions - a.recent_mentions
+      : b.mention_count - a.mention_count
+  );
+}
+
+interface PotentialCompetitorsReviewProps {
+  usedColors: string[]; // Colors of existing competitors, avoided for suggestions
+  onPromoted: () => void;
+}
+
+export function PotentialCompetitorsReview({ usedColors, onPromoted }: PotentialCompetitorsReviewProps) {
+  const { selectedProjectId } = useProject();
+  const [brands, setBrands] = useState<PotentialCompetitor[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [view, setView] = useState<QueueView>("pending");
+  const [sort, setSort] = useState<QueueSort>("frequency");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false);
+  const [promoteTarget, setPromoteTarget] = useState<PotentialCompetitor | null>(null);
+
+  const loadBrands = async () => {
+    if (!selectedProjectId) return;
+    try {
+      const result = await getPotentialCompetitors(selectedProjectId);
+      if (result.error) {
+        toast.error("Failed to load discovered brands", { description: result.error });
+      } else {
+        setBrands(result.data || []);
+        setSelectedIds(new Set());
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBrands();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId]);
+
+  const visible = sortQueue(brands.filter((b) => b.status === view), sort);
+  const selected = visible.filter((b) => selectedIds.has(b.id));
+  const dismissedCount = brands.filter((b) => b.status === "dismissed").length;
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const changeView = (next: QueueView) => {
+    setView(next);
+    setSelectedIds(new Set());
+  };
+
+  const handleMerge = async () => {
+    // Keep the most mentioned name; the others become its aliases
+    const [target, ...sources] = [...selected].sort((a, b) => b.mention_count - a.mention_count);
+    setIsActing(true);
+    const result = await mergePotentialCompetitors(target.id, sources.map((s) => s.id));
+    setIsActing(false);
+
+    if (result.error) {
+      toast.error("Failed to merge brands", { description: result.error });
+      return;
+    }
+
+    toast.success(`Merged ${result.data?.merged} brands into ${target.brand_name}`);
+    loadBrands();
+  };
+
+  const handleDismiss = async () => {
+    setIsActing(true);
+    const result = await dismissPotentialCompetitors(selected.map((b) => b.id));
+    setIsActing(false);
+
+    if (result.error) {
+      toast.error("Failed to dismiss brands", { description: result.error });
+      return;
+    }
+
+    toast.success(`Dismissed ${selected.length} brands`, {
+      description: "Future analyses will no longer track them.",
+    });
+    loadBrands();
+  };
+
+  const handleRestore = async (brand: PotentialCompetitor) => {
+    const result = await restorePotentialCompetitor(brand.id);
+
+    if (result.error) {
+      toast.error("Failed to restore brand", { description: result.error });
+      return;
+    }
+
+    toast.success(`${brand.brand_name} is back in the review queue`);
+    loadBrands();
+  };
+
+  const handlePromoted = () => {
+    setPromoteTarget(null);
+    loadBrands();
+    onPromoted();
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Discovered Brands</CardTitle>
+            <CardDescription>
+              Brands that AI responses mention but you don&apos;t track yet. Promote the relevant ones,
+              merge name variants and dismiss the rest.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={view === "pending" ? "default" : "outline"}
+              size="sm"
+              onClick={() => changeView("pending")}
+            >
+              To review
+            </Button>
+            <Button
+              variant={view === "dismissed" ? "default" : "outline"}
+              size="sm"
+              onClick={() => changeView("dismissed")}
+            >
+              Dismissed ({dismissedCount})
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visible.length === 0 ? (
+          <EmptyState
+            icon={Radar}
+            title={view === "pending" ? "Nothing to review" : "No dismissed brands"}
+            description={
+              view === "pending"
+                ? "New brands detected in AI responses will show up here"
+                : "Brands you dismiss are listed here and ignored by future analyses"
+            }
+          />
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                Sort by
+                <Button
+                  variant={sort === "frequency" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setSort("frequency")}
+                >
+                  Mentions
+                </Button>
+                <Button
+                  variant={sort === "growth" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setSort("growth")}
+                >
+                  Growth
+                </Button>
+              </div>
+              {view === "pending" && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selected.length < 2 || isActing}
+                    onClick={handleMerge}
+                  >
+                    <Combine className="mr-2 h-4 w-4" />
+                    Merge ({selected.length})
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selected.length === 0 || isActing}
+                    onClick={handleDismiss}
+                  >
+                    <EyeOff className="mr-2 h-4 w-4" />
+                    Dismiss ({selected.length})
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {view === "pending" && <TableHead className="w-10" />}
+                  <TableHead>Brand</TableHead>
+                  <TableHead className="text-right">Mentions</TableHead>
+                  <TableHead className="text-right">Last 7 days</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead className="w-32" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((brand) => {
+                  const growth = weeklyGrowth(brand);
+                  return (
+                    <TableRow key={brand.id}>
+                      {view === "pending" && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(brand.id)}
+                            onCheckedChange={(checked) => toggle(brand.id, checked === true)}
+                            aria-label={`Select ${brand.brand_name}`}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <div className="font-medium">{brand.brand_name}</div>
+                        {brand.aliases.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {brand.aliases.map((alias) => (
+                              <Badge key={alias} variant="outline" className="font-normal">
+                                {alias}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {brand.context && (
+                          <p className="mt-1 line-clamp-1 text-xs text-muted-foreground">{brand.context}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{brand.mention_count}</TableCell>
+                      <TableCell className="text-right">
+                        <span className="inline-flex items-center gap-1">
+                          {brand.recent_mentions}
+                          {growth > 0 && <TrendingUp className="h-3 w-3 text-green-600" />}
+                          {growth < 0 && <TrendingDown className="h-3 w-3 text-red-600" />}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {brand.last_detected_at ? format(new Date(brand.last_detected_at), "MMM d, yyyy") : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {view === "pending" ? (
+                          <Button size="sm" onClick={() => setPromoteTarget(brand)}>
+                            <ArrowUpRight className="mr-1 h-4 w-4" />
+                            Promote
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => handleRestore(brand)}>
+                            <RotateCcw className="mr-1 h-4 w-4" />
+                            Restore
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={promoteTarget !== null} onOpenChange={(open) => !open && setPromoteTarget(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          {/* Mounted on open so the form starts from the selected brand */}
+          {promoteTarget && (
+            <PromoteForm
+              brand={promoteTarget}
+              initialColor={generateRandomColor(new Set(usedColors))}
+              onCancel={() => setPromoteTarget(null)}
+              onPromoted={handlePromoted}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface PromoteFormProps {
+  brand: PotentialCompetitor;
+  initialColor: string;
+  onCancel: () => void;
+  onPromoted: () => void;
+}
+
+function PromoteForm({ brand, initialColor, onCancel, onPromoted }: PromoteFormProps) {
+  const [name, setName] = useState(brand.brand_name);
+  const [domain, setDomain] = useState("");
+  const [region, setRegion] = useState("GLOBAL");
+  const [color, setColor] = useState(initialColor);
+  const [backfill, setBackfill] = useState(true);
+  const [suggestions, setSuggestions] = useState<DomainSuggestion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSuggestions = async () => {
+    const result = await getPotentialCompetitorDomains(brand.id);
+    const found = result.data || [];
+    setSuggestions(found);
+    // Prefill with the most cited matching domain
+    if (found.length > 0) {
+      setDomain((current) => current || found[0].domain);
+    }
+  };
+
+  useEffect(() => {
+    loadSuggestions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [brand.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !domain.trim()) return;
+
+    const cleanDomain = domain
+      .replace(/^https?:\/\//, "")
+      .replace(/\/$/, "")
+      .split("/")[0];
+
+    setIsSaving(true);
+    const result = await promotePotentialCompetitor(brand.id, {
+      name,
+      domain: cleanDomain,
+      region,
+      color,
+      backfill,
+    });
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error("Failed to promote brand", { description: result.error });
+      return;
+    }
+
+    if (result.data?.backfillError) {
+      toast.warning(`${name} added to competitors`, {
+        description: `Historical mentions could not be backfilled: ${result.data.backfillError}`,
+      });
+    } else {
+      toast.success(`${name} added to competitors`, {
+        description: backfill ? "Past responses are being scanned for its mentions." : undefined,
+      });
+    }
+    onPromoted();
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>Promote {brand.brand_name}</DialogTitle>
+        <DialogDescription>
+          Track this brand as a competitor. Merged name variants are kept as its aliases.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid gap-2">
+          <Label htmlFor="promote-name">Competitor Name</Label>
+          <Input id="promote-name" value={name} onChange={(e) => setName(e.target.value)} required />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="promote-domain">Domain</Label>
+          <Input
+            id="promote-domain"
+            placeholder="e.g., competitor.com"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            required
+          />
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-muted-foreground">Cited in its responses:</span>
+              {suggestions.map((suggestion) => (
+                <Badge
+                  key={suggestion.domain}
+                  variant={suggestion.domain === domain ? "default" : "outline"}
+                  className="cursor-pointer font-normal"
+                  onClick={() => setDomain(suggestion.domain)}
+                >
+                  {suggestion.domain} ({suggestion.count})
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Country/Region</Label>
+          <CountrySelect value={region} onValueChange={setRegion} placeholder="Select country..." />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="promote-color">Color</Label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              id="promote-color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="h-10 w-10 cursor-pointer rounded-md border"
+            />
+            <span className="text-sm text-muted-foreground">{color}</span>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="promote-backfill"
+            checked={backfill}
+            onCheckedChange={(checked) => setBackfill(checked === true)}
+          />
+          <div className="grid gap-1">
+            <Label htmlFor="promote-backfill">Backfill historical mentions</Label>
+            <p className="text-xs text-muted-foreground">
+              Scan responses already collected so this competitor&apos;s charts include past data.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || !name.trim() || !domain.trim()}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Promote to Competitor
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import {
+  getReanalysisJobs,
+  estimateReanalysis,
+  startReanalysis,
+  type ReanalysisJob,
+  type ReanalysisEstimate,
+  type ReanalysisStatus,
+} from "@/lib/actions/reanalysis";
+
+// Refresh interval while a job is running
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_CONFIG: Record<ReanalysisStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  queued: { label: "Queued", variant: "outline" },
+  running: { label: "Re-analyzing", variant: "outline" },
+  aggregating: { label: "Rebuilding stats", variant: "outline" },
+  completed: { label: "Completed", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+const ACTIVE_STATUSES: ReanalysisStatus[] = ["queued", "running", "aggregating"];
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+interface ReanalysisPanelProps {
+  brandName: string;
+  competitors: { id: string; name: string; isActive: boolean }[];
+}
+
+export function ReanalysisPanel({ brandName, competitors }: ReanalysisPanelProps) {
+  const { selectedProjectId } = useProject();
+  const [jobs, setJobs] = useState<ReanalysisJob[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadJobs = async () => {
+    if (!selectedProjectId) return;
+    const result = await getReanalysisJobs(selectedProjectId);
+    if (result.error) {
+      toast.error("Failed to load re-analysis jobs", { description: result.error });
+      return;
+    }
+    setJobs(result.data || []);
+  };
+
+  useEffect(() => {
+    loadJobs();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId]);
+
+  // Poll while a job is still running
+  const hasActiveJob = jobs.some((job) => ACTIVE_STATUSES.includes(job.status));
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const interval = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasActiveJob, selectedProjectId]);
+
+  const competitorNames = new Map(competitors.map((c) => [c.id, c.name]));
+  const describeEntities = (job: ReanalysisJob) =>
+    [
+      ...(job.include_brand ? [brandName] : []),
+      ...job.competitor_ids.map((id) => competitorNames.get(id) || "Removed competitor"),
+    ].join(", ");
+
+  const handleStarted = () => {
+    setIsDialogOpen(false);
+    loadJobs();
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Historical Re-analysis</CardTitle>
+            <CardDescription>
+              Re-run brand analysis on past responses after adding a competitor or changing aliases,
+              so charts include their history instead of starting today.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setIsDialogOpen(true)} disabled={hasActiveJob}>
+            <History className="mr-2 h-4 w-4" />
+            Re-analyze History
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No re-analysis has been run for this project yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {jobs.map((job) => {
+              const status = STATUS_CONFIG[job.status];
+              const finished = job.responses_processed + job.responses_failed;
+              const progress = job.responses_total > 0 ? (finished / job.responses_total) * 100 : 0;
+
+              return (
+                <div key={job.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium">
+                        {format(new Date(`${job.start_date}T00:00:00`), "MMM d")} –{" "}
+                        {format(new Date(`${job.end_date}T00:00:00`), "MMM d, yyyy")}
+                      </span>
+                      <span className="text-muted-foreground"> · {describeEntities(job)}</span>
+                    </div>
+                    <Badge variant={status.variant} className="gap-1">
+                      {ACTIVE_STATUSES.includes(job.status) && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {status.label}
+                    </Badge>
+                  </div>
+                  {job.status !== "completed" && job.status !== "failed" && <Progress value={progress} />}
+                  <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                    <span>
+                      {finished} / {job.responses_total} responses
+                      {job.responses_failed > 0 && ` (${job.responses_failed} failed)`}
+                    </span>
+                    <span>
+                      Cost {formatCost(job.cost)}
+                      {job.estimated_cost !== null && ` of ~${formatCost(job.estimated_cost)} estimated`}
+                    </span>
+                    {job.error_message && <span className="text-destructive">{job.error_message}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          {/* Mounted on open so the form starts from the default range */}
+          {isDialogOpen && selectedProjectId && (
+            <ReanalysisForm
+              projectId={selectedProjectId}
+              brandName={brandName}
+              competitors={competitors.filter((c) => c.isActive)}
+              onCancel={() => setIsDialogOpen(false)}
+              onStarted={handleStarted}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface ReanalysisFormProps {
+  projectId: string;
+  brandName: string;
+  competitors: { id: string; name: string }[];
+  onCancel: () => void;
+  onStarted: () => void;
+}
+
+function ReanalysisForm({ projectId, brandName, competitors, onCancel, onStarted }: ReanalysisFormProps) {
+  // Defaults to the last 30 days up to yesterday (today's stats are still being built)
+  const [maxDate] = useState(() => toDateInput(new Date(Date.now() - 86400000)));
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date(Date.now() - 30 * 86400000)));
+  const [endDate, setEndDate] = useState(maxDate);
+  const [includeBrand, setIncludeBrand] = useState(false);
+  const [competitorIds, setCompetitorIds] = useState<Set<string>>(new Set());
+  const [estimate, setEstimate] = useState<ReanalysisEstimate | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const isRangeValid = !!startDate && !!endDate && startDate <= endDate && endDate <= maxDate;
+
+  const loadEstimate = async () => {
+    if (!isRangeValid) return;
+    const result = await estimateReanalysis(projectId, startDate, endDate);
+    setEstimate(result.data);
+  };
+
+  useEffect(() => {
+    loadEstimate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [startDate, endDate]);
+
+  const toggleCompetitor = (id: string, checked: boolean) => {
+    const next = new Set(competitorIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setCompetitorIds(next);
+  };
+
+  const hasEntities = includeBrand || competitorIds.size > 0;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    const result = await startReanalysis(projectId, {
+      startDate,
+      endDate,
+      includeBrand,
+      competitorIds: Array.from(competitorIds),
+    });
+    setIsStarting(false);
+
+    if (result.error) {
+      toast.error("Failed to start re-analysis", { description: result.error });
+      return;
+    }
+
+    toast.success("Re-analysis started", {
+      description: "Stats for the range are rebuilt automatically when it finishes.",
+    });
+    onStarted();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Re-analyze History</DialogTitle>
+        <DialogDescription>
+          Stored responses in the range are analyzed again for the selected entities. Their existing
+          mentions and sentiment are replaced, so running it twice never duplicates data.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="reanalysis-start">From</Label>
+            <Input
+              id="reanalysis-start"
+              type="date"
+              value={startDate}
+              max={endDate || maxDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="reanalysis-end">To</Label>
+            <Input
+              id="reanalysis-end"
+              type="date"
+              value={endDate}
+              min={startDate}
+              max={maxDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Entities</Label>
+          <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="reanalysis-brand"
+                checked={includeBrand}
+                onCheckedChange={(checked) => setIncludeBrand(checked === true)}
+              />
+              <Label htmlFor="reanalysis-brand" className="font-normal">
+                {brandName} <span className="text-muted-foreground">(your brand)</span>
+              </Label>
+            </div>
+            {competitors.map((competitor) => (
+              <div key={competitor.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`reanalysis-${competitor.id}`}
+                  checked={competitorIds.has(competitor.id)}
+                  onCheckedChange={(checked) => toggleCompetitor(competitor.id, checked === true)}
+                />
+                <Label htmlFor={`reanalysis-${competitor.id}`} className="font-normal">
+                  {competitor.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="rounded-md bg-muted p-3 text-sm">
+          {!isRangeValid ? (
+            <span className="text-muted-foreground">Pick a range that ends yesterday at the latest.</span>
+          ) : estimate === null ? (
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Estimating...
+            </span>
+          ) : (
+            <div className="space-y-1">
+              <div>
+                <span className="font-medium">{estimate.responses}</span> responses to re-analyze
+              </div>
+              <div className="text-muted-foreground">
+                {estimate.estimatedCost === null
+                  ? "No brand analysis spend recorded yet, so the cost can't be estimated."
+                  : `Estimated cost ~${formatCost(estimate.estimatedCost)} (${formatCost(estimate.costPerResponse || 0)} per response, last 30 days)`}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleStart}
+          disabled={isStarting || !hasEntities || !isRangeValid || !estimate || estimate.responses === 0}
+        >
+          {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Start Re-analysis
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -16,6 +16,9 @@ import {
   Sparkles,
   HelpCircle,
   User,
+  AlertOctagon,
+  History,
+  Bell,
 } from "lucide-react";
 import {
   Sidebar,
@@ -33,6 +36,7 @@ import {
 import { cn } from "@/lib/utils";
 import Image from "next/image";
 import { useProject } from "@/contexts/project-context";
+import { getOpenAlertCount } from "@/lib/actions/alerts";
 
 // Dashboard items
 const dashboardItems = [
@@ -46,6 +50,11 @@ const dashboardItems = [
     href: "/dashboard/reports/detailed",
     icon: BookOpen,
   },
+  {
+    title: "Alerts",
+    href: "/dashboard/alerts",
+    icon: Bell,
+  },
 ];
 
 // Visibility items
@@ -82,12 +91,24 @@ const visibilityItems = [
   },
 ];
 
-// Configuration item
-const configurationItem = {
-  title: "Data Management",
-  href: "/dashboard/configuration",
-  icon: Settings,
-};
+// Configuration items
+const configurationItems = [
+  {
+    title: "Data Management",
+    href: "/dashboard/configuration",
+    icon: Settings,
+  },
+  {
+    title: "Runs",
+    href: "/dashboard/runs",
+    icon: History,
+  },
+  {
+    title: "Failed Runs",
+    href: "/dashboard/failures",
+    icon: AlertOctagon,
+  },
+];
 
 // Opportunities items
 const opportunitiesItems = [
@@ -130,6 +151,13 @@ export function AppSidebar({ user, workspaces }: AppSidebarProps) {
     .flatMap((w) => w.projects)
     .find((p) => p.id === selectedProjectId);
 
+  // Open alerts badge, refreshed on navigation so acknowledging clears it
+  const [openAlertCount, setOpenAlertCount] = useState(0);
+  useEffect(() => {
+    if (!selectedProjectId) return;
+    getOpenAlertCount(selectedProjectId).then((result) => setOpenAlertCount(result.data));
+  }, [selectedProjectId, pathname]);
+
   return (
     <Sidebar 
       collapsible="icon" 
@@ -164,6 +192,11 @@ export function AppSidebar({ user, workspaces }: AppSidebarProps) {
                           isActive ? "text-[#6366F1]" : "text-gray-400"
                         )} />
                         <span>{item.title}</span>
+                        {item.href === "/dashboard/alerts" && openAlertCount > 0 && (
+                          <span className="ml-auto rounded-full bg-[#6366F1] px-1.5 text-[10px] font-medium leading-4 text-white">
+                            {openAlertCount}
+                          </span>
+                        )}
                       </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
@@ -217,26 +250,32 @@ export function AppSidebar({ user, workspaces }: AppSidebarProps) {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu className="space-y-0.5">
-              <SidebarMenuItem>
-                <SidebarMenuButton 
-                  asChild 
-                  isActive={pathname.startsWith("/dashboard/configuration")}
-                  className={cn(
-                    "rounded-md px-2 py-1.5 transition-all duration-150 text-sm",
-                    pathname.startsWith("/dashboard/configuration")
-                      ? "bg-gray-100 text-gray-900 font-medium border-l-2 border-[#6366F1]" 
-                      : "text-gray-600 hover:bg-gray-50 hover:text-gray-900"
-                  )}
-                >
-                  <Link href={configurationItem.href} className="flex items-center gap-2.5">
-                    <configurationItem.icon className={cn(
-                      "h-4 w-4",
-                      pathname.startsWith("/dashboard/configuration") ? "text-[#6366F1]" : "text-gray-400"
-                    )} />
-                    <span>{configurationItem.title}</span>
-                  </Link>
-                </SidebarMenuButton>
-              </SidebarMenuItem>
+              {configurationItems.map((item) => {
+                const Icon = item.icon;
+                const isActive = pathname.startsWith(item.href);
+                return (
+                  <SidebarMenuItem key={item.href}>
+                    <SidebarMenuButton 
+                      asChild 
+                      isActive={isActive}
+                      className={cn(
+                        "rounded-md px-2 py-1.5 transition-all duration-150 text-sm",
+                        isActive
+                          ? "bg-gray-100 text-gray-900 font-medium border-l-2 border-[#6366F1]" 
+                          : "text-gray-600 hover:bg-gray-50 hover:text-gray-900"
+                      )}
+                    >
+                      <Link href={item.href} className="flex items-center gap-2.5">
+                        <Icon className={cn(
+                          "h-4 w-4",
+                          isActive ? "text-[#6366F1]" : "text-gray-400"
+                        )} />
+                        <span>{item.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                );
+              })}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
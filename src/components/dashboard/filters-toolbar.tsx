@@ -20,6 +20,7 @@ import { getCurrentWeekDateRange } from "@/lib/utils/date-helpers";
 import { getProjectTopics } from "@/lib/actions/topics";
 import { getProjectTopics as getBrandEvaluationTopics } from "@/lib/queries/brand-evaluations";
 import { Calendar, MapPin, Layers, Tag, FilterX } from "lucide-react";
+import { PLATFORMS, PLATFORM_IDS } from "@/lib/constants/platforms";
 
 interface FiltersToolbarProps {
 	className?: string;
@@ -33,6 +34,7 @@ interface FiltersToolbarProps {
 	showSentimentThemeFilter?: boolean;
 	showEntityFilter?: boolean;
 	selectedEntities?: EntityFilterValue;
+	actions?: React.ReactNode; // Rendered after the filters, e.g. a share button
 	onApply?: (filters: { 
 		region: string; 
 		dateRange: DateRangeValue;
@@ -55,6 +57,7 @@ export function FiltersToolbar({
 	showSentimentThemeFilter = false,
 	showEntityFilter = false,
 	selectedEntities: controlledSelectedEntities,
+	actions,
 	onApply 
 }: FiltersToolbarProps) {
 	const { selectedProjectId } = useProject();
@@ -290,8 +293,9 @@ export function FiltersToolbar({
 								<SelectGroup>
 									<SelectLabel>Platform</SelectLabel>
 									<SelectItem value="all">All Channels</SelectItem>
-									<SelectItem value="openai">OpenAI</SelectItem>
-									<SelectItem value="gemini">Gemini</SelectItem>
+									{PLATFORM_IDS.map((id) => (
+										<SelectItem key={id} value={id}>{PLATFORMS[id].name}</SelectItem>
+									))}
 								</SelectGroup>
 							</SelectContent>
 						</Select>
@@ -369,13 +373,18 @@ export function FiltersToolbar({
 					)}
 				</div>
 
-				{hasActiveFilters && (
+				{(hasActiveFilters || actions) && (
 					<div className="flex items-center gap-2">
-						<Separator className="hidden h-6 md:block" orientation="vertical" />
-						<Button variant="ghost" size="sm" onClick={resetFilters} className="gap-2">
-							<FilterX className="h-4 w-4" />
-							Reset
-						</Button>
+						{hasActiveFilters && (
+							<>
+								<Separator className="hidden h-6 md:block" orientation="vertical" />
+								<Button variant="ghost" size="sm" onClick={resetFilters} className="gap-2">
+									<FilterX className="h-4 w-4" />
+									Reset
+								</Button>
+							</>
+						)}
+						{actions}
 					</div>
 				)}
 			</div>
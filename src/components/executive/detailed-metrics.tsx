@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { TrendingUp, TrendingDown, Minus, Crown, ChevronDown, Smile, Meh, Frown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { CompetitiveBattlefieldData } from "@/lib/queries/executive-overview";
+import { formatAveragePosition } from "@/lib/utils/ranking-metrics";
 
 type EntitySentimentData = Array<{
   entityName: string;
@@ -160,6 +161,9 @@ export function DetailedMetrics({ battlefieldData, entitySentiments, isLoading }
                 <th className="text-left py-3 px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider w-64">
                   MARKET SHARE
                 </th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                  AVG POSITION
+                </th>
                 <th className="text-left py-3 px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
                   GROWTH (YOY)
                 </th>
@@ -244,6 +248,12 @@ export function DetailedMetrics({ battlefieldData, entitySentiments, isLoading }
                           >
                             {entity.mentionsShare.toFixed(1)}%
                           </span>
+                          <span
+                            className="text-xs text-muted-foreground"
+                            title="Share of voice weighted by position in ranked answers"
+                          >
+                            {entity.weightedShare.toFixed(1)}% weighted
+                          </span>
                         </div>
                         <div className="h-1.5 w-full bg-muted rounded-full overflow-hidden">
                           <div
@@ -257,6 +267,21 @@ export function DetailedMetrics({ battlefieldData, entitySentiments, isLoading }
                       </div>
                     </td>
 
+                    {/* AVG POSITION */}
+                    <td className="py-4 pl-2 pr-4">
+                      <div className="space-y-0.5">
+                        <span className="text-sm font-semibold">
+                          {formatAveragePosition(entity.ranking.averagePosition)}
+                        </span>
+                        {entity.ranking.responses > 0 && (
+                          <p className="text-xs text-muted-foreground whitespace-nowrap">
+                            {Math.round(entity.ranking.top3Rate * 100)}% top 3 ·{" "}
+                            {Math.round(entity.ranking.firstMentionRate * 100)}% first
+                          </p>
+                        )}
+                      </div>
+                    </td>
+
                     {/* GROWTH (YOY) */}
                     <td className="py-4 pl-2 pr-4">
                       <Badge
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import { format } from "date-fns";
+import { AlertOctagon, FolderOpen, RotateCcw, EyeOff, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { WelcomeTip } from "@/components/dashboard/welcome-tip";
+import {
+  getDeadLetters,
+  replayDeadLetters,
+  ignoreDeadLetters,
+  type DeadLetter,
+  type DeadLetterStatus,
+} from "@/lib/actions/dead-letters";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+
+const ERROR_CLASS_LABELS: Record<string, string> = {
+  rate_limit: "Rate limited",
+  timeout: "Timeout",
+  auth: "Authentication",
+  provider_error: "Provider error",
+  invalid_response: "Invalid response",
+  database: "Database",
+  unknown: "Unknown error",
+};
+
+const FUNCTION_LABELS: Record<string, string> = {
+  "process-single-prompt": "Prompt run",
+  "analyze-single-response": "Brand analysis",
+};
+
+const STATUS_VARIANTS: Record<DeadLetterStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  open: "destructive",
+  queued: "outline",
+  replayed: "secondary",
+  resolved: "default",
+  ignored: "outline",
+};
+
+type FailureGroup = {
+  key: string;
+  errorClass: string;
+  functionId: string;
+  stepName: string;
+  provider: string | null;
+  letters: DeadLetter[];
+};
+
+// Failures grouped by cause: error class + step + provider
+function groupByCause(letters: DeadLetter[]): FailureGroup[] {
+  const groups = new Map<string, FailureGroup>();
+  for (const letter of letters) {
+    const key = [letter.error_class, letter.function_id, letter.step_name, letter.provider || ""].join("|");
+    const group = groups.get(key) || {
+      key,
+      errorClass: letter.error_class,
+      functionId: letter.function_id,
+      stepName: letter.step_name,
+      provider: letter.provider,
+      letters: [],
+    };
+    group.letters.push(letter);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.letters.length - a.letters.length);
+}
+
+export function FailedRunsConsole() {
+  const { selectedProjectId } = useProject();
+  const [letters, setLetters] = useState<DeadLetter[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showClosed, setShowClosed] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false);
+
+  const loadDeadLetters = async () => {
+    if (!selectedProjectId) return;
+    try {
+      const result = await getDeadLetters(selectedProjectId, showClosed);
+      if (result.error) {
+        toast.error("Failed to load failed runs", { description: result.error });
+      } else {
+        setLetters(result.data || []);
+        setSelectedIds(new Set());
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDeadLetters();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId, showClosed]);
+
+  const toggle = (ids: string[], checked: boolean) => {
+    const next = new Set(selectedIds);
+    ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+    setSelectedIds(next);
+  };
+
+  const handleReplay = async () => {
+    setIsActing(true);
+    const result = await replayDeadLetters(Array.from(selectedIds));
+    setIsActing(false);
+
+    if (result.error) {
+      toast.error("Failed to replay", { description: result.error });
+      return;
+    }
+
+    toast.success(`Queued ${result.data?.queued} failed runs for replay`, {
+      description: "Runs that already succeeded since are resolved without reprocessing.",
+    });
+    loadDeadLetters();
+  };
+
+  const handleIgnore = async () => {
+    setIsActing(true);
+    const result = await ignoreDeadLetters(Array.from(selectedIds));
+    setIsActing(false);
+
+    if (result.error) {
+      toast.error("Failed to dismiss", { description: result.error });
+      return;
+    }
+
+    toast.success("Failed runs dismissed");
+    loadDeadLetters();
+  };
+
+  if (!selectedProjectId) {
+    return (
+      <EmptyState
+        icon={FolderOpen}
+        title="No project selected"
+        description="Select a project to see its failed runs."
+      />
+    );
+  }
+
+  const groups = groupByCause(letters);
+  const replayable = (letter: DeadLetter) => letter.status === "open" || letter.status === "replayed";
+
+  return (
+    <div className="space-y-6">
+      <WelcomeTip id="failed-runs">
+        Prompt runs and brand analyses that failed after all retries end up here, grouped by cause.
+        Select failures and replay them once the cause is fixed; anything that already succeeded since is skipped.
+      </WelcomeTip>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch id="show-closed" checked={showClosed} onCheckedChange={setShowClosed} />
+          <Label htmlFor="show-closed">Show resolved and dismissed</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleIgnore} disabled={isActing || selectedIds.size === 0}>
+            <EyeOff className="mr-2 h-4 w-4" />
+            Dismiss
+          </Button>
+          <Button onClick={handleReplay} disabled={isActing || selectedIds.size === 0}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Replay selected ({selectedIds.size})
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent" />
+        </div>
+      ) : groups.length === 0 ? (
+        <EmptyState
+          icon={CheckCircle2}
+          title="No failed runs"
+          description="Every prompt run and brand analysis in this project completed successfully."
+        />
+      ) : (
+        groups.map((group) => {
+          const groupIds = group.letters.filter(replayable).map((l) => l.id);
+          const allSelected = groupIds.length > 0 && groupIds.every((id) => selectedIds.has(id));
+
+          return (
+            <Card key={group.key}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      checked={allSelected}
+                      disabled={groupIds.length === 0}
+                      onCheckedChange={(checked) => toggle(groupIds, checked === true)}
+                    />
+                    <div>
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        <AlertOctagon className="h-4 w-4 text-destructive" />
+                        {ERROR_CLASS_LABELS[group.errorClass] || group.errorClass}
+                        {group.provider && (
+                          <Badge variant="outline" style={{ borderColor: getPlatformConfig(group.provider).color }}>
+                            {getPlatformConfig(group.provider).name}
+                          </Badge>
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        {FUNCTION_LABELS[group.functionId] || group.functionId} · step {group.stepName}
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <Badge variant="secondary">{group.letters.length}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]" />
+                      <TableHead>Prompt / response</TableHead>
+                      <TableHead>Last error</TableHead>
+                      <TableHead className="text-right">Attempts</TableHead>
+                      <TableHead>Last failed</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.letters.map((letter) => (
+                      <TableRow key={letter.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(letter.id)}
+                            disabled={!replayable(letter)}
+                            onCheckedChange={(checked) => toggle([letter.id], checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-[280px] truncate">
+                          {letter.prompt || (letter.ai_response_id ? `Response ${letter.ai_response_id.slice(0, 8)}` : "-")}
+                        </TableCell>
+                        <TableCell className="max-w-[320px] truncate text-muted-foreground" title={letter.error_message || ""}>
+                          {letter.error_message || "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {letter.attempt_count}
+                          {letter.failure_count > 1 && (
+                            <span className="text-muted-foreground"> ({letter.failure_count} runs)</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(letter.last_failed_at), "MMM d, HH:mm")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[letter.status]}>
+                            {letter.status}
+                            {letter.replay_count > 0 && ` ×${letter.replay_count}`}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -12,16 +12,14 @@ import {
   CartesianGrid,
   Legend,
 } from "recharts";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
 
 interface DailyPlatformBattleProps {
   data: Array<{
     date: string;
     fullDate: string;
-    openai: number;
-    gemini: number;
     total: number;
-  }>;
+  } & Record<PlatformId, number>>;
   isLoading?: boolean;
 }
 
@@ -65,15 +63,20 @@ export function DailyPlatformBattle({ data, isLoading }: DailyPlatformBattleProp
   }
 
   // Transform data to percentages
-  const percentageData = data.map((d) => ({
-    date: d.date,
-    fullDate: d.fullDate,
-    openai: d.total > 0 ? Number(((d.openai / d.total) * 100).toFixed(1)) : 50,
-    gemini: d.total > 0 ? Number(((d.gemini / d.total) * 100).toFixed(1)) : 50,
-    openaiMentions: d.openai,
-    geminiMentions: d.gemini,
-    total: d.total,
-  }));
+  // Days without mentions are split evenly between platforms
+  const evenShare = Number((100 / PLATFORM_IDS.length).toFixed(1));
+  const percentageData = data.map((d) => {
+    const point: Record<string, string | number> = {
+      date: d.date,
+      fullDate: d.fullDate,
+      total: d.total,
+    };
+    PLATFORM_IDS.forEach((id) => {
+      point[id] = d.total > 0 ? Number(((d[id] / d.total) * 100).toFixed(1)) : evenShare;
+      point[`${id}Mentions`] = d[id];
+    });
+    return point;
+  });
 
   // Custom tooltip
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -83,26 +86,18 @@ export function DailyPlatformBattle({ data, isLoading }: DailyPlatformBattleProp
         <div className="bg-background/95 backdrop-blur-sm border rounded-lg p-3 shadow-xl">
           <p className="font-medium text-sm mb-2">{label}</p>
           <div className="space-y-1.5">
-            <div className="flex items-center justify-between gap-4 text-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: PLATFORMS.openai.color }} />
-                <span>OpenAI</span>
+            {PLATFORM_IDS.map((id) => (
+              <div key={id} className="flex items-center justify-between gap-4 text-sm">
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: PLATFORMS[id].color }} />
+                  <span>{PLATFORMS[id].name}</span>
+                </div>
+                <div className="text-right">
+                  <span className="font-semibold">{data[id]}%</span>
+                  <span className="text-muted-foreground ml-1">({data[`${id}Mentions`]})</span>
+                </div>
               </div>
-              <div className="text-right">
-                <span className="font-semibold">{data.openai}%</span>
-                <span className="text-muted-foreground ml-1">({data.openaiMentions})</span>
-              </div>
-            </div>
-            <div className="flex items-center justify-between gap-4 text-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: PLATFORMS.gemini.color }} />
-                <span>Gemini</span>
-              </div>
-              <div className="text-right">
-                <span className="font-semibold">{data.gemini}%</span>
-                <span className="text-muted-foreground ml-1">({data.geminiMentions})</span>
-              </div>
-            </div>
+            ))}
           </div>
         </div>
       );
@@ -143,24 +138,18 @@ export function DailyPlatformBattle({ data, isLoading }: DailyPlatformBattleProp
                   <span className="text-sm font-medium">{value}</span>
                 )}
               />
-              <Area
-                type="monotone"
-                dataKey="openai"
-                name="OpenAI"
-                stackId="1"
-                stroke={PLATFORMS.openai.color}
-                fill={PLATFORMS.openai.color}
-                fillOpacity={0.8}
-              />
-              <Area
-                type="monotone"
-                dataKey="gemini"
-                name="Gemini"
-                stackId="1"
-                stroke={PLATFORMS.gemini.color}
-                fill={PLATFORMS.gemini.color}
-                fillOpacity={0.8}
-              />
+              {PLATFORM_IDS.map((id) => (
+                <Area
+                  key={id}
+                  type="monotone"
+                  dataKey={id}
+                  name={PLATFORMS[id].name}
+                  stackId="1"
+                  stroke={PLATFORMS[id].color}
+                  fill={PLATFORMS[id].color}
+                  fillOpacity={0.8}
+                />
+              ))}
             </AreaChart>
           </ResponsiveContainer>
         </div>
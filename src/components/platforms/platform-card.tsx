@@ -1,8 +1,9 @@
 "use client";
 
 import { Card, CardContent } from "@/components/ui/card";
-import { TrendingUp, TrendingDown, MessageSquare, Sparkles } from "lucide-react";
+import { TrendingUp, TrendingDown } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
 interface PlatformCardProps {
   platform: {
@@ -19,11 +20,6 @@ interface PlatformCardProps {
   isLoading?: boolean;
 }
 
-const PLATFORM_ICONS: Record<string, typeof MessageSquare> = {
-  openai: MessageSquare,
-  gemini: Sparkles,
-};
-
 export function PlatformCard({ platform, isLoading }: PlatformCardProps) {
   if (isLoading) {
     return (
@@ -51,7 +47,6 @@ export function PlatformCard({ platform, isLoading }: PlatformCardProps) {
     );
   }
 
-  const Icon = PLATFORM_ICONS[platform.id] || MessageSquare;
 
   return (
     <Card className="overflow-hidden hover:shadow-md transition-shadow">
@@ -70,7 +65,7 @@ export function PlatformCard({ platform, isLoading }: PlatformCardProps) {
               platform.bgColor
             )}
           >
-            <Icon className="h-5 w-5 text-white" />
+            <PlatformIcon platform={platform.id} className="h-5 w-5 text-white" />
           </div>
           <div>
             <h3 className={cn("text-lg font-semibold", platform.textColor)}>
@@ -2,21 +2,33 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { BrandLogo } from "@/components/ui/brand-logo";
-import { Link2, MessageSquare, Sparkles } from "lucide-react";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { Link2 } from "lucide-react";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
+import { getSourceCategoryConfig } from "@/lib/constants/source-categories";
 
 interface DomainData {
   domain: string;
   count: number;
+  category: string | null; // Source category, null until classified
+}
+
+interface CategoryData {
+  category: string; // Source category or "unclassified"
+  count: number;
+}
+
+interface PlatformSourcesData {
+  domains: DomainData[];
+  categories: CategoryData[];
 }
 
 interface PlatformCitationSourcesProps {
-  openaiData: DomainData[];
-  geminiData: DomainData[];
+  data: Record<PlatformId, PlatformSourcesData>;
   isLoading?: boolean;
 }
 
-export function PlatformCitationSources({ openaiData, geminiData, isLoading }: PlatformCitationSourcesProps) {
+export function PlatformCitationSources({ data, isLoading }: PlatformCitationSourcesProps) {
   if (isLoading) {
     return (
       <Card>
@@ -25,7 +37,7 @@ export function PlatformCitationSources({ openaiData, geminiData, isLoading }: P
             <Link2 className="h-5 w-5 text-muted-foreground" />
             Citation Sources by Platform
           </CardTitle>
-          <CardDescription>Top cited domains per platform</CardDescription>
+          <CardDescription>Top cited domains and source types per platform</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="h-[200px] flex items-center justify-center">
@@ -36,7 +48,7 @@ export function PlatformCitationSources({ openaiData, geminiData, isLoading }: P
     );
   }
 
-  const hasData = openaiData.length > 0 || geminiData.length > 0;
+  const hasData = PLATFORM_IDS.some((id) => (data[id]?.domains.length || 0) > 0);
 
   if (!hasData) {
     return (
@@ -46,7 +58,7 @@ export function PlatformCitationSources({ openaiData, geminiData, isLoading }: P
             <Link2 className="h-5 w-5 text-muted-foreground" />
             Citation Sources by Platform
           </CardTitle>
-          <CardDescription>Top cited domains per platform</CardDescription>
+          <CardDescription>Top cited domains and source types per platform</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="h-[100px] flex items-center justify-center text-muted-foreground">
@@ -57,26 +69,53 @@ export function PlatformCitationSources({ openaiData, geminiData, isLoading }: P
     );
   }
 
-  const renderDomainList = (domains: DomainData[], platform: "openai" | "gemini") => {
+  const renderDomainList = ({ domains, categories }: PlatformSourcesData, platform: PlatformId) => {
     const maxCount = Math.max(...domains.map((d) => d.count), 1);
+    const totalCitations = categories.reduce((sum, c) => sum + c.count, 0);
     const config = PLATFORMS[platform];
 
     return (
-      <div className="space-y-2">
+      <div key={platform} className="space-y-2">
         <div className="flex items-center gap-2 mb-3">
-          {platform === "openai" ? (
-            <MessageSquare className="h-4 w-4" style={{ color: config.color }} />
-          ) : (
-            <Sparkles className="h-4 w-4" style={{ color: config.color }} />
-          )}
+          <PlatformIcon platform={platform} className="h-4 w-4" style={{ color: config.color }} />
           <span className="font-medium text-sm" style={{ color: config.color }}>
             {config.name}
           </span>
           <span className="text-xs text-muted-foreground">
-            ({domains.reduce((sum, d) => sum + d.count, 0)} citations)
+            ({totalCitations} citations)
           </span>
         </div>
 
+        {/* Source category mix */}
+        {totalCitations > 0 && (
+          <div className="mb-3 space-y-1.5">
+            <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+              {categories.map((c) => {
+                const categoryConfig = getSourceCategoryConfig(c.category);
+                return (
+                  <div
+                    key={c.category}
+                    className="h-full"
+                    title={`${categoryConfig.name}: ${c.count}`}
+                    style={{ width: `${(c.count / totalCitations) * 100}%`, backgroundColor: categoryConfig.color }}
+                  />
+                );
+              })}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {categories.slice(0, 4).map((c) => {
+                const categoryConfig = getSourceCategoryConfig(c.category);
+                return (
+                  <span key={c.category} className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: categoryConfig.color }} />
+                    {categoryConfig.name} {Math.round((c.count / totalCitations) * 100)}%
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {domains.length === 0 ? (
           <p className="text-sm text-muted-foreground py-4 text-center">No citations</p>
         ) : (
@@ -87,8 +126,14 @@ export function PlatformCitationSources({ openaiData, geminiData, isLoading }: P
                 <span className="text-xs text-muted-foreground w-4">{index + 1}</span>
                 <BrandLogo domain={domain.domain} name={domain.domain} size={16} />
                 <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center mb-1">
                     <span className="text-xs truncate">{domain.domain}</span>
+                    {domain.category && (
+                      <span className={`text-[10px] px-1.5 rounded ml-2 shrink-0 ${getSourceCategoryConfig(domain.category).badgeClass}`}>
+                        {getSourceCategoryConfig(domain.category).name}
+                      </span>
+                    )}
+                    <span className="flex-1" />
                     <span className="text-xs font-semibold tabular-nums ml-2">{domain.count}</span>
                   </div>
                   <div className="h-1 bg-muted rounded-full overflow-hidden">
@@ -117,8 +162,7 @@ export function PlatformCitationSources({ openaiData, geminiData, isLoading }: P
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {renderDomainList(openaiData, "openai")}
-          {renderDomainList(geminiData, "gemini")}
+          {PLATFORM_IDS.map((id) => renderDomainList(data[id] || { domains: [], categories: [] }, id))}
         </div>
       </CardContent>
     </Card>
@@ -12,16 +12,14 @@ import {
   CartesianGrid,
   Legend,
 } from "recharts";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
 
 interface PlatformEvolutionChartProps {
   data: Array<{
     date: string;
     fullDate: string;
-    openai: number;
-    gemini: number;
     total: number;
-  }>;
+  } & Record<PlatformId, number>>;
   isLoading?: boolean;
 }
 
@@ -34,7 +32,7 @@ export function PlatformEvolutionChart({ data, isLoading }: PlatformEvolutionCha
             <TrendingUp className="h-5 w-5 text-muted-foreground" />
             Performance Evolution by Platform
           </CardTitle>
-          <CardDescription>Daily mentions comparison: OpenAI vs Gemini</CardDescription>
+          <CardDescription>Daily mentions comparison across AI platforms</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="h-[300px] flex items-center justify-center">
@@ -53,7 +51,7 @@ export function PlatformEvolutionChart({ data, isLoading }: PlatformEvolutionCha
             <TrendingUp className="h-5 w-5 text-muted-foreground" />
             Performance Evolution by Platform
           </CardTitle>
-          <CardDescription>Daily mentions comparison: OpenAI vs Gemini</CardDescription>
+          <CardDescription>Daily mentions comparison across AI platforms</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="h-[300px] flex items-center justify-center text-muted-foreground">
@@ -93,21 +91,19 @@ export function PlatformEvolutionChart({ data, isLoading }: PlatformEvolutionCha
           <TrendingUp className="h-5 w-5 text-muted-foreground" />
           Performance Evolution by Platform
         </CardTitle>
-        <CardDescription>Daily mentions comparison: OpenAI vs Gemini</CardDescription>
+        <CardDescription>Daily mentions comparison across AI platforms</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="h-[300px] w-full">
           <ResponsiveContainer width="100%" height="100%">
             <AreaChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
               <defs>
-                <linearGradient id="colorOpenai" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={PLATFORMS.openai.color} stopOpacity={0.3} />
-                  <stop offset="95%" stopColor={PLATFORMS.openai.color} stopOpacity={0.05} />
-                </linearGradient>
-                <linearGradient id="colorGemini" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={PLATFORMS.gemini.color} stopOpacity={0.3} />
-                  <stop offset="95%" stopColor={PLATFORMS.gemini.color} stopOpacity={0.05} />
-                </linearGradient>
+                {PLATFORM_IDS.map((id) => (
+                  <linearGradient key={id} id={`color-${id}`} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={PLATFORMS[id].color} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={PLATFORMS[id].color} stopOpacity={0.05} />
+                  </linearGradient>
+                ))}
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
               <XAxis
@@ -129,22 +125,17 @@ export function PlatformEvolutionChart({ data, isLoading }: PlatformEvolutionCha
                   <span className="text-sm font-medium">{value}</span>
                 )}
               />
-              <Area
-                type="monotone"
-                dataKey="openai"
-                name="OpenAI"
-                stroke={PLATFORMS.openai.color}
-                strokeWidth={2}
-                fill="url(#colorOpenai)"
-              />
-              <Area
-                type="monotone"
-                dataKey="gemini"
-                name="Gemini"
-                stroke={PLATFORMS.gemini.color}
-                strokeWidth={2}
-                fill="url(#colorGemini)"
-              />
+              {PLATFORM_IDS.map((id) => (
+                <Area
+                  key={id}
+                  type="monotone"
+                  dataKey={id}
+                  name={PLATFORMS[id].name}
+                  stroke={PLATFORMS[id].color}
+                  strokeWidth={2}
+                  fill={`url(#color-${id})`}
+                />
+              ))}
             </AreaChart>
           </ResponsiveContainer>
         </div>
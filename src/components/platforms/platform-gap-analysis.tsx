@@ -2,9 +2,9 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { BrandLogo } from "@/components/ui/brand-logo";
-import { ArrowRightLeft, MessageSquare, Sparkles, TrendingUp, TrendingDown } from "lucide-react";
-import { cn } from "@/lib/utils";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { ArrowRightLeft, TrendingUp } from "lucide-react";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
 interface Entity {
   id: string;
@@ -16,12 +16,11 @@ interface Entity {
 }
 
 interface PlatformGapAnalysisProps {
-  openaiData: { entities: Entity[]; totalMentions: number };
-  geminiData: { entities: Entity[]; totalMentions: number };
+  data: Record<PlatformId, { entities: Entity[]; totalMentions: number }>;
   isLoading?: boolean;
 }
 
-export function PlatformGapAnalysis({ openaiData, geminiData, isLoading }: PlatformGapAnalysisProps) {
+export function PlatformGapAnalysis({ data, isLoading }: PlatformGapAnalysisProps) {
   if (isLoading) {
     return (
       <Card>
@@ -42,10 +41,13 @@ export function PlatformGapAnalysis({ openaiData, geminiData, isLoading }: Platf
   }
 
   // Find brand in each platform
-  const brandOpenai = openaiData.entities.find((e) => e.isBrand);
-  const brandGemini = geminiData.entities.find((e) => e.isBrand);
+  const brandByPlatform = PLATFORM_IDS.map((id) => ({
+    id,
+    brand: data[id]?.entities.find((e) => e.isBrand),
+  }));
+  const anyBrand = brandByPlatform.find(({ brand }) => brand)?.brand;
 
-  if (!brandOpenai && !brandGemini) {
+  if (!anyBrand) {
     return (
       <Card>
         <CardHeader className="pb-3">
@@ -64,11 +66,13 @@ export function PlatformGapAnalysis({ openaiData, geminiData, isLoading }: Platf
     );
   }
 
-  const openaiShare = brandOpenai?.percentage || 0;
-  const geminiShare = brandGemini?.percentage || 0;
-  const gap = openaiShare - geminiShare;
-  const strongerPlatform = gap > 0 ? "openai" : gap < 0 ? "gemini" : "equal";
-  const maxShare = Math.max(openaiShare, geminiShare, 50);
+  const shares = brandByPlatform
+    .map(({ id, brand }) => ({ id, share: brand?.percentage || 0 }))
+    .sort((a, b) => b.share - a.share);
+  const strongest = shares[0];
+  const weakest = shares[shares.length - 1];
+  const gap = strongest.share - weakest.share;
+  const maxShare = Math.max(strongest.share, 50);
 
   return (
     <Card>
@@ -81,12 +85,15 @@ export function PlatformGapAnalysis({ openaiData, geminiData, isLoading }: Platf
             </CardTitle>
             <CardDescription>Your market share comparison across platforms</CardDescription>
           </div>
-          {strongerPlatform !== "equal" && (
-            <div className={cn(
-              "px-3 py-1.5 rounded-lg text-xs font-medium",
-              strongerPlatform === "openai" ? "bg-emerald-500/10 text-emerald-600" : "bg-blue-500/10 text-blue-600"
-            )}>
-              Stronger on {strongerPlatform === "openai" ? "OpenAI" : "Gemini"}
+          {gap > 0 && (
+            <div
+              className="px-3 py-1.5 rounded-lg text-xs font-medium"
+              style={{
+                backgroundColor: `rgba(${PLATFORMS[strongest.id].rgb}, 0.1)`,
+                color: PLATFORMS[strongest.id].color,
+              }}
+            >
+              Stronger on {PLATFORMS[strongest.id].name}
             </div>
           )}
         </div>
@@ -95,93 +102,67 @@ export function PlatformGapAnalysis({ openaiData, geminiData, isLoading }: Platf
         {/* Brand info */}
         <div className="flex items-center gap-3 pb-4 border-b">
           <BrandLogo 
-            domain={brandOpenai?.domain || brandGemini?.domain || ""} 
-            name={brandOpenai?.name || brandGemini?.name || "Your Brand"} 
+            domain={anyBrand.domain || ""} 
+            name={anyBrand.name || "Your Brand"} 
             size={32} 
           />
           <div>
-            <p className="font-semibold">{brandOpenai?.name || brandGemini?.name || "Your Brand"}</p>
+            <p className="font-semibold">{anyBrand.name || "Your Brand"}</p>
             <p className="text-sm text-muted-foreground">Your brand performance by platform</p>
           </div>
         </div>
 
         {/* Comparison bars */}
         <div className="space-y-4">
-          {/* OpenAI */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <div className="flex items-center gap-2">
-                <MessageSquare className="h-4 w-4" style={{ color: PLATFORMS.openai.color }} />
-                <span className="font-medium">OpenAI</span>
+          {PLATFORM_IDS.map((id) => {
+            const share = shares.find((s) => s.id === id)?.share || 0;
+            return (
+              <div key={id} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <PlatformIcon platform={id} className="h-4 w-4" style={{ color: PLATFORMS[id].color }} />
+                    <span className="font-medium">{PLATFORMS[id].name}</span>
+                  </div>
+                  <span className="font-bold text-lg tabular-nums" style={{ color: PLATFORMS[id].color }}>
+                    {share.toFixed(1)}%
+                  </span>
+                </div>
+                <div className="h-4 w-full bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full transition-all duration-500"
+                    style={{ 
+                      width: `${(share / maxShare) * 100}%`,
+                      backgroundColor: PLATFORMS[id].color
+                    }}
+                  />
+                </div>
               </div>
-              <span className="font-bold text-lg tabular-nums" style={{ color: PLATFORMS.openai.color }}>
-                {openaiShare.toFixed(1)}%
-              </span>
-            </div>
-            <div className="h-4 w-full bg-muted rounded-full overflow-hidden">
-              <div
-                className="h-full rounded-full transition-all duration-500"
-                style={{ 
-                  width: `${(openaiShare / maxShare) * 100}%`,
-                  backgroundColor: PLATFORMS.openai.color
-                }}
-              />
-            </div>
-          </div>
-
-          {/* Gemini */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <div className="flex items-center gap-2">
-                <Sparkles className="h-4 w-4" style={{ color: PLATFORMS.gemini.color }} />
-                <span className="font-medium">Gemini</span>
-              </div>
-              <span className="font-bold text-lg tabular-nums" style={{ color: PLATFORMS.gemini.color }}>
-                {geminiShare.toFixed(1)}%
-              </span>
-            </div>
-            <div className="h-4 w-full bg-muted rounded-full overflow-hidden">
-              <div
-                className="h-full rounded-full transition-all duration-500"
-                style={{ 
-                  width: `${(geminiShare / maxShare) * 100}%`,
-                  backgroundColor: PLATFORMS.gemini.color
-                }}
-              />
-            </div>
-          </div>
+            );
+          })}
         </div>
 
         {/* Gap indicator */}
         <div className="pt-4 border-t">
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">Platform Gap</span>
-            <div className={cn(
-              "flex items-center gap-2 font-semibold",
-              gap > 0 ? "text-emerald-600" : gap < 0 ? "text-blue-600" : "text-muted-foreground"
-            )}>
+            <div
+              className="flex items-center gap-2 font-semibold"
+              style={gap > 0 ? { color: PLATFORMS[strongest.id].color } : undefined}
+            >
               {gap > 0 ? (
                 <>
                   <TrendingUp className="h-4 w-4" />
-                  <span>+{gap.toFixed(1)}% on OpenAI</span>
-                </>
-              ) : gap < 0 ? (
-                <>
-                  <TrendingUp className="h-4 w-4" />
-                  <span>+{Math.abs(gap).toFixed(1)}% on Gemini</span>
+                  <span>+{gap.toFixed(1)}% on {PLATFORMS[strongest.id].name}</span>
                 </>
               ) : (
-                <span>Equal performance</span>
+                <span className="text-muted-foreground">Equal performance</span>
               )}
             </div>
           </div>
           
-          {Math.abs(gap) > 5 && (
+          {gap > 5 && (
             <p className="mt-2 text-xs text-muted-foreground">
-              {gap > 0 
-                ? "Consider optimizing your content strategy for Gemini to close the gap."
-                : "Consider optimizing your content strategy for OpenAI to close the gap."
-              }
+              Consider optimizing your content strategy for {PLATFORMS[weakest.id].name} to close the gap.
             </p>
           )}
         </div>
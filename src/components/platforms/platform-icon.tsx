@@ -0,0 +1,21 @@
+import type { CSSProperties } from "react";
+import { Bot, MessageSquare, Search, Sparkles, type LucideIcon } from "lucide-react";
+import type { PlatformId } from "@/lib/constants/platforms";
+
+const PLATFORM_ICONS: Record<PlatformId, LucideIcon> = {
+  openai: MessageSquare,
+  gemini: Sparkles,
+  claude: Bot,
+  perplexity: Search,
+};
+
+interface PlatformIconProps {
+  platform: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export function PlatformIcon({ platform, className, style }: PlatformIconProps) {
+  const Icon = PLATFORM_ICONS[platform as PlatformId] || MessageSquare;
+  return <Icon className={className} style={style} />;
+}
@@ -107,12 +107,12 @@ export function PlatformInsights({ platforms, isLoading }: PlatformInsightsProps
   }
 
   // Equal performance
-  if (platforms.length === 2 && Math.abs(platforms[0].share - platforms[1].share) < 5) {
+  if (platforms.length >= 2 && bestPlatform && worstPlatform && bestPlatform.share - worstPlatform.share < 5) {
     insights.push({
       type: "info",
       icon: Target,
       title: "Balanced platform presence",
-      description: "Your performance is similar across both platforms. Consider platform-specific optimizations to gain an edge.",
+      description: "Your performance is similar across all platforms. Consider platform-specific optimizations to gain an edge.",
     });
   }
 
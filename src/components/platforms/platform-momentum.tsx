@@ -2,9 +2,10 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { BrandLogo } from "@/components/ui/brand-logo";
-import { Rocket, TrendingUp, TrendingDown, ArrowRight, MessageSquare, Sparkles } from "lucide-react";
+import { Rocket, TrendingUp, TrendingDown } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
 interface Entity {
   id: string;
@@ -17,8 +18,7 @@ interface Entity {
 }
 
 interface PlatformMomentumProps {
-  openaiData: Entity[];
-  geminiData: Entity[];
+  data: Record<PlatformId, Entity[]>;
   isLoading?: boolean;
 }
 
@@ -64,11 +64,10 @@ function PlatformSection({
   platform, 
   entities 
 }: { 
-  platform: "openai" | "gemini"; 
+  platform: PlatformId; 
   entities: Entity[];
 }) {
   const config = PLATFORMS[platform];
-  const Icon = platform === "openai" ? MessageSquare : Sparkles;
 
   // Classify entities into quadrants
   const medianShare = entities.length > 0 
@@ -84,7 +83,7 @@ function PlatformSection({
     <div>
       {/* Platform header */}
       <div className="flex items-center gap-2 mb-3">
-        <Icon className="h-4 w-4" style={{ color: config.color }} />
+        <PlatformIcon platform={platform} className="h-4 w-4" style={{ color: config.color }} />
         <span className="font-medium" style={{ color: config.color }}>{config.name}</span>
       </div>
 
@@ -119,7 +118,7 @@ function PlatformSection({
   );
 }
 
-export function PlatformMomentum({ openaiData, geminiData, isLoading }: PlatformMomentumProps) {
+export function PlatformMomentum({ data, isLoading }: PlatformMomentumProps) {
   if (isLoading) {
     return (
       <Card>
@@ -139,7 +138,7 @@ export function PlatformMomentum({ openaiData, geminiData, isLoading }: Platform
     );
   }
 
-  const hasData = openaiData.length > 0 || geminiData.length > 0;
+  const hasData = PLATFORM_IDS.some((id) => (data[id]?.length || 0) > 0);
 
   if (!hasData) {
     return (
@@ -161,8 +160,11 @@ export function PlatformMomentum({ openaiData, geminiData, isLoading }: Platform
   }
 
   // Find brand in each platform for summary
-  const brandOpenai = openaiData.find(e => e.isBrand);
-  const brandGemini = geminiData.find(e => e.isBrand);
+  const brandByPlatform = PLATFORM_IDS.map((id) => ({
+    id,
+    brand: data[id]?.find(e => e.isBrand),
+  }));
+  const anyBrand = brandByPlatform.find(({ brand }) => brand)?.brand;
 
   return (
     <Card>
@@ -175,61 +177,48 @@ export function PlatformMomentum({ openaiData, geminiData, isLoading }: Platform
       </CardHeader>
       <CardContent>
         {/* Brand summary */}
-        {(brandOpenai || brandGemini) && (
-          <div className="mb-6 p-4 rounded-lg bg-muted/50 flex items-center justify-between">
+        {anyBrand && (
+          <div className="mb-6 p-4 rounded-lg bg-muted/50 flex flex-wrap items-center justify-between gap-4">
             <div className="flex items-center gap-3">
               <BrandLogo 
-                domain={brandOpenai?.domain || brandGemini?.domain || ""} 
-                name={brandOpenai?.name || brandGemini?.name || "Your Brand"} 
+                domain={anyBrand.domain || ""} 
+                name={anyBrand.name || "Your Brand"} 
                 size={28} 
               />
               <div>
-                <p className="font-medium">{brandOpenai?.name || brandGemini?.name || "Your Brand"}</p>
+                <p className="font-medium">{anyBrand.name || "Your Brand"}</p>
                 <p className="text-xs text-muted-foreground">Your position across platforms</p>
               </div>
             </div>
             <div className="flex items-center gap-6">
-              {/* OpenAI stats */}
-              <div className="text-center">
-                <div className="flex items-center gap-1 text-sm" style={{ color: PLATFORMS.openai.color }}>
-                  <MessageSquare className="h-3 w-3" />
-                  <span className="font-medium">OpenAI</span>
-                </div>
-                <p className="text-lg font-bold tabular-nums">{brandOpenai?.percentage || 0}%</p>
-                <p className={cn(
-                  "text-xs flex items-center justify-center gap-0.5",
-                  (brandOpenai?.trend || 0) > 0 ? "text-emerald-600" : (brandOpenai?.trend || 0) < 0 ? "text-rose-600" : "text-muted-foreground"
-                )}>
-                  {(brandOpenai?.trend || 0) > 0 ? <TrendingUp className="h-3 w-3" /> : (brandOpenai?.trend || 0) < 0 ? <TrendingDown className="h-3 w-3" /> : null}
-                  {(brandOpenai?.trend || 0) > 0 ? "+" : ""}{brandOpenai?.trend || 0}%
-                </p>
-              </div>
-
-              <ArrowRight className="h-4 w-4 text-muted-foreground" />
-
-              {/* Gemini stats */}
-              <div className="text-center">
-                <div className="flex items-center gap-1 text-sm" style={{ color: PLATFORMS.gemini.color }}>
-                  <Sparkles className="h-3 w-3" />
-                  <span className="font-medium">Gemini</span>
-                </div>
-                <p className="text-lg font-bold tabular-nums">{brandGemini?.percentage || 0}%</p>
-                <p className={cn(
-                  "text-xs flex items-center justify-center gap-0.5",
-                  (brandGemini?.trend || 0) > 0 ? "text-emerald-600" : (brandGemini?.trend || 0) < 0 ? "text-rose-600" : "text-muted-foreground"
-                )}>
-                  {(brandGemini?.trend || 0) > 0 ? <TrendingUp className="h-3 w-3" /> : (brandGemini?.trend || 0) < 0 ? <TrendingDown className="h-3 w-3" /> : null}
-                  {(brandGemini?.trend || 0) > 0 ? "+" : ""}{brandGemini?.trend || 0}%
-                </p>
-              </div>
+              {brandByPlatform.map(({ id, brand }) => {
+                const trend = brand?.trend || 0;
+                return (
+                  <div key={id} className="text-center">
+                    <div className="flex items-center gap-1 text-sm" style={{ color: PLATFORMS[id].color }}>
+                      <PlatformIcon platform={id} className="h-3 w-3" />
+                      <span className="font-medium">{PLATFORMS[id].name}</span>
+                    </div>
+                    <p className="text-lg font-bold tabular-nums">{brand?.percentage || 0}%</p>
+                    <p className={cn(
+                      "text-xs flex items-center justify-center gap-0.5",
+                      trend > 0 ? "text-emerald-600" : trend < 0 ? "text-rose-600" : "text-muted-foreground"
+                    )}>
+                      {trend > 0 ? <TrendingUp className="h-3 w-3" /> : trend < 0 ? <TrendingDown className="h-3 w-3" /> : null}
+                      {trend > 0 ? "+" : ""}{trend}%
+                    </p>
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
 
         {/* Side by side platform comparison */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <PlatformSection platform="openai" entities={openaiData} />
-          <PlatformSection platform="gemini" entities={geminiData} />
+          {PLATFORM_IDS.map((id) => (
+            <PlatformSection key={id} platform={id} entities={data[id] || []} />
+          ))}
         </div>
 
         {/* Legend */}
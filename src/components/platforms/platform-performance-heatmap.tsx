@@ -2,9 +2,10 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { BrandLogo } from "@/components/ui/brand-logo";
-import { Grid3X3, MessageSquare, Sparkles } from "lucide-react";
+import { Grid3X3 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { PLATFORMS, PLATFORM_IDS, mapPlatforms, type PlatformId } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
 interface Entity {
   id: string;
@@ -16,12 +17,11 @@ interface Entity {
 }
 
 interface PlatformPerformanceHeatmapProps {
-  openaiData: { entities: Entity[]; totalMentions: number };
-  geminiData: { entities: Entity[]; totalMentions: number };
+  data: Record<PlatformId, { entities: Entity[]; totalMentions: number }>;
   isLoading?: boolean;
 }
 
-export function PlatformPerformanceHeatmap({ openaiData, geminiData, isLoading }: PlatformPerformanceHeatmapProps) {
+export function PlatformPerformanceHeatmap({ data, isLoading }: PlatformPerformanceHeatmapProps) {
   if (isLoading) {
     return (
       <Card>
@@ -41,37 +41,29 @@ export function PlatformPerformanceHeatmap({ openaiData, geminiData, isLoading }
     );
   }
 
-  // Get all unique entities from both platforms
-  const entityMap = new Map<string, { name: string; domain: string; isBrand: boolean; openai: number; gemini: number }>();
+  // Get all unique entities across platforms
+  const entityMap = new Map<string, { name: string; domain: string; isBrand: boolean; mentions: Record<PlatformId, number> }>();
 
-  openaiData.entities.forEach((e) => {
-    entityMap.set(e.id, {
-      name: e.name,
-      domain: e.domain,
-      isBrand: e.isBrand,
-      openai: e.mentions,
-      gemini: 0,
-    });
-  });
-
-  geminiData.entities.forEach((e) => {
-    const existing = entityMap.get(e.id);
-    if (existing) {
-      existing.gemini = e.mentions;
-    } else {
-      entityMap.set(e.id, {
+  PLATFORM_IDS.forEach((platform) => {
+    data[platform]?.entities.forEach((e) => {
+      const existing = entityMap.get(e.id) || {
         name: e.name,
         domain: e.domain,
         isBrand: e.isBrand,
-        openai: 0,
-        gemini: e.mentions,
-      });
-    }
+        mentions: mapPlatforms(() => 0),
+      };
+      existing.mentions[platform] = e.mentions;
+      entityMap.set(e.id, existing);
+    });
   });
 
   // Convert to array and sort by total mentions
   const entities = Array.from(entityMap.entries())
-    .map(([id, data]) => ({ id, ...data, total: data.openai + data.gemini }))
+    .map(([id, entity]) => ({
+      id,
+      ...entity,
+      total: Object.values(entity.mentions).reduce((sum, count) => sum + count, 0),
+    }))
     .sort((a, b) => {
       // Brand first, then by total
       if (a.isBrand && !b.isBrand) return -1;
@@ -81,17 +73,18 @@ export function PlatformPerformanceHeatmap({ openaiData, geminiData, isLoading }
 
   // Find max for color intensity
   const maxMentions = Math.max(
-    ...entities.map((e) => Math.max(e.openai, e.gemini)),
+    ...entities.map((e) => Math.max(...Object.values(e.mentions))),
     1
   );
 
   // Get color intensity based on value
-  const getIntensity = (value: number, platform: "openai" | "gemini") => {
+  const getIntensity = (value: number, platform: PlatformId) => {
     const intensity = value / maxMentions;
-    const baseColor = platform === "openai" ? "16, 185, 129" : "59, 130, 246"; // emerald : blue RGB
-    return `rgba(${baseColor}, ${Math.max(0.1, intensity * 0.8)})`;
+    return `rgba(${PLATFORMS[platform].rgb}, ${Math.max(0.1, intensity * 0.8)})`;
   };
 
+  const gridTemplateColumns = `1fr repeat(${PLATFORM_IDS.length}, 120px)`;
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -103,22 +96,20 @@ export function PlatformPerformanceHeatmap({ openaiData, geminiData, isLoading }
       </CardHeader>
       <CardContent>
         {/* Header row */}
-        <div className="grid grid-cols-[1fr,120px,120px] gap-2 mb-2">
+        <div className="grid gap-2 mb-2" style={{ gridTemplateColumns }}>
           <div className="text-xs font-medium text-muted-foreground px-2">Entity</div>
-          <div className="flex items-center justify-center gap-1 text-xs font-medium" style={{ color: PLATFORMS.openai.color }}>
-            <MessageSquare className="h-3 w-3" />
-            OpenAI
-          </div>
-          <div className="flex items-center justify-center gap-1 text-xs font-medium" style={{ color: PLATFORMS.gemini.color }}>
-            <Sparkles className="h-3 w-3" />
-            Gemini
-          </div>
+          {PLATFORM_IDS.map((id) => (
+            <div key={id} className="flex items-center justify-center gap-1 text-xs font-medium" style={{ color: PLATFORMS[id].color }}>
+              <PlatformIcon platform={id} className="h-3 w-3" />
+              {PLATFORMS[id].name}
+            </div>
+          ))}
         </div>
 
         {/* Data rows */}
         <div className="space-y-1">
           {entities.slice(0, 10).map((entity) => (
-            <div key={entity.id} className="grid grid-cols-[1fr,120px,120px] gap-2">
+            <div key={entity.id} className="grid gap-2" style={{ gridTemplateColumns }}>
               {/* Entity name */}
               <div className="flex items-center gap-2 px-2 py-2">
                 <BrandLogo domain={entity.domain || entity.name} name={entity.name} size={18} />
@@ -132,21 +123,15 @@ export function PlatformPerformanceHeatmap({ openaiData, geminiData, isLoading }
                 )}
               </div>
 
-              {/* OpenAI cell */}
-              <div
-                className="flex items-center justify-center py-2 rounded-md text-sm font-semibold tabular-nums transition-colors"
-                style={{ backgroundColor: getIntensity(entity.openai, "openai") }}
-              >
-                {entity.openai.toLocaleString()}
-              </div>
-
-              {/* Gemini cell */}
-              <div
-                className="flex items-center justify-center py-2 rounded-md text-sm font-semibold tabular-nums transition-colors"
-                style={{ backgroundColor: getIntensity(entity.gemini, "gemini") }}
-              >
-                {entity.gemini.toLocaleString()}
-              </div>
+              {PLATFORM_IDS.map((id) => (
+                <div
+                  key={id}
+                  className="flex items-center justify-center py-2 rounded-md text-sm font-semibold tabular-nums transition-colors"
+                  style={{ backgroundColor: getIntensity(entity.mentions[id], id) }}
+                >
+                  {entity.mentions[id].toLocaleString()}
+                </div>
+              ))}
             </div>
           ))}
         </div>
@@ -154,15 +139,13 @@ export function PlatformPerformanceHeatmap({ openaiData, geminiData, isLoading }
         {/* Footer */}
         <div className="mt-4 pt-3 border-t flex items-center justify-between text-xs text-muted-foreground">
           <span>Showing top {Math.min(entities.length, 10)} entities</span>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-1">
-              <div className="w-8 h-2 rounded" style={{ background: `linear-gradient(to right, rgba(16,185,129,0.1), rgba(16,185,129,0.8))` }} />
-              <span>OpenAI intensity</span>
-            </div>
-            <div className="flex items-center gap-1">
-              <div className="w-8 h-2 rounded" style={{ background: `linear-gradient(to right, rgba(59,130,246,0.1), rgba(59,130,246,0.8))` }} />
-              <span>Gemini intensity</span>
-            </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {PLATFORM_IDS.map((id) => (
+              <div key={id} className="flex items-center gap-1">
+                <div className="w-8 h-2 rounded" style={{ background: `linear-gradient(to right, rgba(${PLATFORMS[id].rgb},0.1), rgba(${PLATFORMS[id].rgb},0.8))` }} />
+                <span>{PLATFORMS[id].name} intensity</span>
+              </div>
+            ))}
           </div>
         </div>
       </CardContent>
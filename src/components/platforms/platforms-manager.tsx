@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import { Cpu, FolderOpen } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { WelcomeTip } from "@/components/dashboard/welcome-tip";
+import {
+  getProjectPlatforms,
+  getSamplesPerPrompt,
+  updateProjectPlatform,
+  updateSamplesPerPrompt,
+  type ProjectPlatform,
+} from "@/lib/actions/platforms";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+
+export function PlatformsManager() {
+  const { selectedProjectId } = useProject();
+  const [platforms, setPlatforms] = useState<ProjectPlatform[]>([]);
+  const [samplesPerPrompt, setSamplesPerPrompt] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPlatforms = async () => {
+    if (!selectedProjectId) return;
+    setIsLoading(true);
+    try {
+      const [result, samplesResult] = await Promise.all([
+        getProjectPlatforms(selectedProjectId),
+        getSamplesPerPrompt(selectedProjectId),
+      ]);
+      if (result.data) {
+        setPlatforms(result.data);
+      }
+      if (samplesResult.data) {
+        setSamplesPerPrompt(samplesResult.data);
+      }
+    } catch {
+      toast.error("Failed to load AI engines");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPlatforms();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId]);
+
+  const savePlatform = async (platform: ProjectPlatform, changes: Partial<ProjectPlatform>) => {
+    if (!selectedProjectId) return;
+    const updated = { ...platform, ...changes, is_default: false };
+    try {
+      // Optimistic update
+      setPlatforms(platforms.map(p => p.platform === platform.platform ? updated : p));
+
+      const result = await updateProjectPlatform(selectedProjectId, platform.platform, {
+        is_enabled: updated.is_enabled,
+        model: updated.model,
+      });
+      if (result.error) throw new Error(result.error);
+      toast.success(`${getPlatformConfig(platform.platform).name} updated successfully`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update AI engine");
+      loadPlatforms(); // Revert on error
+    }
+  };
+
+  const saveSamplesPerPrompt = async (value: number) => {
+    if (!selectedProjectId) return;
+    const previous = samplesPerPrompt;
+    try {
+      // Optimistic update
+      setSamplesPerPrompt(value);
+
+      const result = await updateSamplesPerPrompt(selectedProjectId, value);
+      if (result.error) throw new Error(result.error);
+      toast.success("Samples per prompt updated successfully");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update samples per prompt");
+      setSamplesPerPrompt(previous); // Revert on error
+    }
+  };
+
+  if (!selectedProjectId) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <EmptyState
+            icon={FolderOpen}
+            title="No Project Selected"
+            description="Please select a project to manage AI engines"
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <WelcomeTip id="platforms">
+        Choose which AI engines answer your tracked prompts for this project. Disabled engines
+        are skipped in the next daily run; historical data stays available in every chart.
+      </WelcomeTip>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Engines</CardTitle>
+          <CardDescription>
+            Enable or disable engines per project and optionally pin a specific model.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading AI engines...
+            </div>
+          ) : platforms.length === 0 ? (
+            <EmptyState
+              icon={Cpu}
+              title="No AI engines available"
+              description="No engines are configured for tracking."
+            />
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Engine</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {platforms.map((platform) => {
+                    const config = getPlatformConfig(platform.platform);
+                    return (
+                      <TableRow key={platform.platform}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: config.color }} />
+                            <span className="font-medium">{config.name}</span>
+                            {platform.is_default && (
+                              <Badge variant="secondary" className="rounded-full text-xs">
+                                Default
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-8 max-w-xs font-mono text-xs"
+                            placeholder="Provider default"
+                            defaultValue={platform.model || ""}
+                            onBlur={(e) => {
+                              const model = e.target.value.trim() || null;
+                              if (model !== platform.model) {
+                                savePlatform(platform, { model });
+                              }
+                            }}
+                          />
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <Switch
+                            checked={platform.is_enabled}
+                            onCheckedChange={(checked) => savePlatform(platform, { is_enabled: checked })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Samples per Prompt</CardTitle>
+          <CardDescription>
+            AI engines answer the same prompt differently each time. Asking several times per day
+            reports brand mentions as a rate (e.g. mentioned in 7/10 samples) instead of a single answer.
+            Each sample is billed as a separate AI call.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={String(samplesPerPrompt)}
+            onValueChange={(value) => saveSamplesPerPrompt(Number(value))}
+            disabled={isLoading}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 10 }, (_, i) => i + 1).map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 1 ? "1 sample (single answer)" : `${count} samples`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,15 @@
 "use client";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tag, MessageSquare, Sparkles } from "lucide-react";
-import { cn } from "@/lib/utils";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { Tag } from "lucide-react";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
-interface TopicData {
+type TopicData = {
   id: string;
   name: string;
-  openai: number;
-  gemini: number;
   total: number;
-}
+} & Record<PlatformId, number>;
 
 interface TopicPerformanceByPlatformProps {
   data: TopicData[];
@@ -60,22 +58,22 @@ export function TopicPerformanceByPlatform({ data, isLoading }: TopicPerformance
   }
 
   // Find max for color intensity
-  const maxMentions = Math.max(...data.map((t) => Math.max(t.openai, t.gemini)), 1);
+  const maxMentions = Math.max(...data.map((t) => Math.max(...PLATFORM_IDS.map((id) => t[id]))), 1);
 
   // Get color intensity
-  const getIntensity = (value: number, platform: "openai" | "gemini") => {
+  const getIntensity = (value: number, platform: PlatformId) => {
     const intensity = value / maxMentions;
-    const baseColor = platform === "openai" ? "16, 185, 129" : "59, 130, 246";
-    return `rgba(${baseColor}, ${Math.max(0.1, intensity * 0.8)})`;
+    return `rgba(${PLATFORMS[platform].rgb}, ${Math.max(0.1, intensity * 0.8)})`;
   };
 
-  // Find best platform for each topic
-  const getBestPlatform = (topic: TopicData) => {
-    if (topic.openai > topic.gemini) return "openai";
-    if (topic.gemini > topic.openai) return "gemini";
-    return "equal";
+  // Find best platform for each topic (null when tied)
+  const getBestPlatform = (topic: TopicData): PlatformId | null => {
+    const sorted = [...PLATFORM_IDS].sort((a, b) => topic[b] - topic[a]);
+    return topic[sorted[0]] > topic[sorted[1]] ? sorted[0] : null;
   };
 
+  const gridTemplateColumns = `1fr repeat(${PLATFORM_IDS.length}, 100px) 80px`;
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -87,16 +85,14 @@ export function TopicPerformanceByPlatform({ data, isLoading }: TopicPerformance
       </CardHeader>
       <CardContent>
         {/* Header row */}
-        <div className="grid grid-cols-[1fr,100px,100px,80px] gap-2 mb-2 pb-2 border-b">
+        <div className="grid gap-2 mb-2 pb-2 border-b" style={{ gridTemplateColumns }}>
           <div className="text-xs font-medium text-muted-foreground">Topic</div>
-          <div className="flex items-center justify-center gap-1 text-xs font-medium" style={{ color: PLATFORMS.openai.color }}>
-            <MessageSquare className="h-3 w-3" />
-            OpenAI
-          </div>
-          <div className="flex items-center justify-center gap-1 text-xs font-medium" style={{ color: PLATFORMS.gemini.color }}>
-            <Sparkles className="h-3 w-3" />
-            Gemini
-          </div>
+          {PLATFORM_IDS.map((id) => (
+            <div key={id} className="flex items-center justify-center gap-1 text-xs font-medium" style={{ color: PLATFORMS[id].color }}>
+              <PlatformIcon platform={id} className="h-3 w-3" />
+              {PLATFORMS[id].name}
+            </div>
+          ))}
           <div className="text-xs font-medium text-muted-foreground text-center">Best</div>
         </div>
 
@@ -105,41 +101,35 @@ export function TopicPerformanceByPlatform({ data, isLoading }: TopicPerformance
           {data.map((topic) => {
             const bestPlatform = getBestPlatform(topic);
             return (
-              <div key={topic.id} className="grid grid-cols-[1fr,100px,100px,80px] gap-2 py-1.5">
+              <div key={topic.id} className="grid gap-2 py-1.5" style={{ gridTemplateColumns }}>
                 {/* Topic name */}
                 <div className="flex items-center">
                   <span className="text-sm truncate">{topic.name}</span>
                 </div>
 
-                {/* OpenAI cell */}
-                <div
-                  className="flex items-center justify-center py-1.5 rounded text-sm font-semibold tabular-nums"
-                  style={{ backgroundColor: getIntensity(topic.openai, "openai") }}
-                >
-                  {topic.openai.toLocaleString()}
-                </div>
-
-                {/* Gemini cell */}
-                <div
-                  className="flex items-center justify-center py-1.5 rounded text-sm font-semibold tabular-nums"
-                  style={{ backgroundColor: getIntensity(topic.gemini, "gemini") }}
-                >
-                  {topic.gemini.toLocaleString()}
-                </div>
+                {PLATFORM_IDS.map((id) => (
+                  <div
+                    key={id}
+                    className="flex items-center justify-center py-1.5 rounded text-sm font-semibold tabular-nums"
+                    style={{ backgroundColor: getIntensity(topic[id], id) }}
+                  >
+                    {topic[id].toLocaleString()}
+                  </div>
+                ))}
 
                 {/* Best platform indicator */}
                 <div className="flex items-center justify-center">
-                  {bestPlatform === "openai" && (
-                    <div className="px-2 py-0.5 rounded text-[10px] font-medium bg-emerald-500/10 text-emerald-600">
-                      OpenAI
+                  {bestPlatform ? (
+                    <div
+                      className="px-2 py-0.5 rounded text-[10px] font-medium"
+                      style={{
+                        backgroundColor: `rgba(${PLATFORMS[bestPlatform].rgb}, 0.1)`,
+                        color: PLATFORMS[bestPlatform].color,
+                      }}
+                    >
+                      {PLATFORMS[bestPlatform].name}
                     </div>
-                  )}
-                  {bestPlatform === "gemini" && (
-                    <div className="px-2 py-0.5 rounded text-[10px] font-medium bg-blue-500/10 text-blue-600">
-                      Gemini
-                    </div>
-                  )}
-                  {bestPlatform === "equal" && (
+                  ) : (
                     <div className="px-2 py-0.5 rounded text-[10px] font-medium bg-muted text-muted-foreground">
                       Equal
                     </div>
@@ -153,13 +143,12 @@ export function TopicPerformanceByPlatform({ data, isLoading }: TopicPerformance
         {/* Summary */}
         <div className="mt-4 pt-3 border-t flex items-center justify-between text-xs text-muted-foreground">
           <span>{data.length} topics analyzed</span>
-          <div className="flex items-center gap-3">
-            <span>
-              OpenAI leads: {data.filter((t) => t.openai > t.gemini).length}
-            </span>
-            <span>
-              Gemini leads: {data.filter((t) => t.gemini > t.openai).length}
-            </span>
+          <div className="flex flex-wrap items-center gap-3">
+            {PLATFORM_IDS.map((id) => (
+              <span key={id}>
+                {PLATFORMS[id].name} leads: {data.filter((t) => getBestPlatform(t) === id).length}
+              </span>
+            ))}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,351 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { diffWords } from "@/lib/utils/text-diff";
+import { getPromptVersions, revertPromptVersion, type PromptVersion } from "@/lib/actions/prompt";
+import { getPromptVersionTrend, type PromptVersionTrendPoint } from "@/lib/queries/prompt-versions";
+
+type TrendMode = "merge" | "split";
+
+const VERSION_COLORS = ["#3b82f6", "#10b981", "#f97316", "#a855f7", "#ef4444", "#14b8a6", "#eab308"];
+
+// Series key for responses that couldn't be matched to a version
+const UNVERSIONED = "unversioned";
+
+interface PromptHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  prompt: { id: string; prompt: string };
+  onReverted: () => void;
+}
+
+function mentionRate(mentioned: number, responses: number) {
+  return responses > 0 ? Math.round((mentioned / responses) * 1000) / 10 : null;
+}
+
+export function PromptHistoryDialog({ open, onOpenChange, prompt, onReverted }: PromptHistoryDialogProps) {
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [trend, setTrend] = useState<PromptVersionTrendPoint[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [mode, setMode] = useState<TrendMode>("split");
+  const [revertTarget, setRevertTarget] = useState<PromptVersion | null>(null);
+  const [isReverting, setIsReverting] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadHistory = async () => {
+    try {
+      const [versionsResult, trendData] = await Promise.all([
+        getPromptVersions(prompt.id),
+        getPromptVersionTrend(prompt.id),
+      ]);
+
+      if (versionsResult.error) {
+        toast.error("Failed to load prompt history", { description: versionsResult.error });
+      } else {
+        const data = versionsResult.data || [];
+        setVersions(data);
+        setSelectedVersionId((current) => current ?? data.find((v) => v.is_current)?.id ?? data[0]?.id ?? null);
+      }
+      setTrend(trendData);
+    } catch {
+      toast.error("Failed to load prompt history");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prompt.id]);
+
+  const versionNumbers = useMemo(
+    () => new Map(versions.map((version) => [version.id, version.version_number])),
+    [versions]
+  );
+
+  const selectedVersion = versions.find((version) => version.id === selectedVersionId) || null;
+  const previousVersion = selectedVersion
+    ? versions.find((version) => version.version_number === selectedVersion.version_number - 1) || null
+    : null;
+
+  const seriesKeys = useMemo(() => {
+    const keys = new Set(trend.map((point) => point.version_id || UNVERSIONED));
+    return Array.from(keys).sort((a, b) => (versionNumbers.get(a) || 0) - (versionNumbers.get(b) || 0));
+  }, [trend, versionNumbers]);
+
+  const seriesLabel = (key: string) =>
+    key === UNVERSIONED ? "Unversioned" : `v${versionNumbers.get(key) ?? "?"}`;
+
+  // One row per day: the merged rate, or one rate per version
+  const chartData = useMemo(() => {
+    const byDate = new Map<string, { totals: { responses: number; mentioned: number }; versions: Record<string, { responses: number; mentioned: number }> }>();
+
+    trend.forEach((point) => {
+      let day = byDate.get(point.date);
+      if (!day) {
+        day = { totals: { responses: 0, mentioned: 0 }, versions: {} };
+        byDate.set(point.date, day);
+      }
+      const key = point.version_id || UNVERSIONED;
+      const entry = day.versions[key] || { responses: 0, mentioned: 0 };
+      entry.responses += point.responses;
+      entry.mentioned += point.mentioned;
+      day.versions[key] = entry;
+      day.totals.responses += point.responses;
+      day.totals.mentioned += point.mentioned;
+    });
+
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => {
+        const row: Record<string, string | number | null> = { date: format(new Date(`${date}T00:00:00`), "MMM d") };
+        if (mode === "merge") {
+          row.all = mentionRate(day.totals.mentioned, day.totals.responses);
+        } else {
+          Object.entries(day.versions).forEach(([key, entry]) => {
+            row[key] = mentionRate(entry.mentioned, entry.responses);
+          });
+        }
+        return row;
+      });
+  }, [trend, mode]);
+
+  const handleRevert = async () => {
+    if (!revertTarget) return;
+    const target = revertTarget;
+    setRevertTarget(null);
+
+    setIsReverting(true);
+    const result = await revertPromptVersion(prompt.id, target.id);
+    setIsReverting(false);
+
+    if (result.error) {
+      toast.error("Failed to revert prompt", { description: result.error });
+      return;
+    }
+
+    toast.success(`Restored the wording of v${target.version_number}`, {
+      description: "It was saved as a new version; earlier answers keep their original version.",
+    });
+    setSelectedVersionId(null);
+    loadHistory();
+    onReverted();
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Prompt History
+            </DialogTitle>
+            <DialogDescription>
+              Every wording of this prompt is kept as a version, and each AI answer is linked to the version it
+              answered.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Mention rate trend */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <h4 className="text-sm font-medium">Brand mention rate</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Share of answers mentioning your brand, last 90 days
+                    </p>
+                  </div>
+                  <Tabs value={mode} onValueChange={(value) => setMode(value as TrendMode)}>
+                    <TabsList>
+                      <TabsTrigger value="split">Split by version</TabsTrigger>
+                      <TabsTrigger value="merge">Merge versions</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
+
+                {chartData.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-muted-foreground">No answers in the last 90 days.</p>
+                ) : (
+                  <ResponsiveContainer width="100%" height={240}>
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis dataKey="date" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                      <YAxis
+                        domain={[0, 100]}
+                        className="text-xs"
+                        tick={{ fill: "hsl(var(--muted-foreground))" }}
+                        tickFormatter={(value) => `${value}%`}
+                      />
+                      <Tooltip formatter={(value) => `${value}%`} />
+                      <Legend />
+                      {mode === "merge" ? (
+                        <Line
+                          type="monotone"
+                          dataKey="all"
+                          name="All versions"
+                          stroke={VERSION_COLORS[0]}
+                          strokeWidth={2}
+                          dot={{ r: 3 }}
+                          connectNulls
+                        />
+                      ) : (
+                        seriesKeys.map((key, index) => (
+                          <Line
+                            key={key}
+                            type="monotone"
+                            dataKey={key}
+                            name={seriesLabel(key)}
+                            stroke={VERSION_COLORS[index % VERSION_COLORS.length]}
+                            strokeWidth={2}
+                            dot={{ r: 3 }}
+                          />
+                        ))
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-[240px_1fr]">
+                {/* Version timeline */}
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Versions</h4>
+                  <div className="space-y-1">
+                    {versions.map((version) => (
+                      <button
+                        key={version.id}
+                        type="button"
+                        onClick={() => setSelectedVersionId(version.id)}
+                        className={cn(
+                          "w-full rounded-md border px-3 py-2 text-left transition-colors",
+                          version.id === selectedVersionId ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                        )}
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">v{version.version_number}</span>
+                          {version.is_current && (
+                            <Badge variant="secondary" className="h-5 text-[10px]">
+                              Current
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(version.created_at), "MMM d, yyyy HH:mm")}
+                          {version.restored_from_version_id &&
+                            ` · restored v${versionNumbers.get(version.restored_from_version_id) ?? "?"}`}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Diff of the selected version against the one before it */}
+                <div className="space-y-2">
+                  {selectedVersion && (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <h4 className="text-sm font-medium">
+                          {previousVersion
+                            ? `Changes in v${selectedVersion.version_number} (from v${previousVersion.version_number})`
+                            : `v${selectedVersion.version_number} (original wording)`}
+                        </h4>
+                        {!selectedVersion.is_current && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isReverting}
+                            onClick={() => setRevertTarget(selectedVersion)}
+                          >
+                            {isReverting ? (
+                              <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                            ) : (
+                              <RotateCcw className="mr-2 h-3.5 w-3.5" />
+                            )}
+                            Revert to this wording
+                          </Button>
+                        )}
+                      </div>
+                      <div className="rounded-md border bg-muted/30 p-3 text-sm leading-relaxed whitespace-pre-wrap">
+                        {previousVersion
+                          ? diffWords(previousVersion.prompt, selectedVersion.prompt).map((part, index) => (
+                              <span
+                                key={index}
+                                className={cn(
+                                  part.type === "added" && "rounded bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200",
+                                  part.type === "removed" && "rounded bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200"
+                                )}
+                              >
+                                {part.value}
+                              </span>
+                            ))
+                          : selectedVersion.prompt}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!revertTarget} onOpenChange={(isOpen) => !isOpen && setRevertTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert to v{revertTarget?.version_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The prompt goes back to this wording from the next analysis on. It is saved as a new version, so
+              answers to the current wording stay in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevert}>Revert</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -4,9 +4,10 @@ import { useState, useMemo } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import { Edit2, Trash2, ChevronRight, Tag } from "lucide-react";
+import { Edit2, Trash2, ChevronRight, Tag, History } from "lucide-react";
 import { deletePrompt, togglePromptActive, updatePrompt } from "@/lib/actions/prompt";
 import { EditPromptDialog } from "./edit-prompt-dialog";
+import { PromptHistoryDialog } from "./prompt-history-dialog";
 import { PromptCategorySelector } from "./prompt-category-selector";
 import { getCountryByCode } from "@/lib/countries";
 import { cn } from "@/lib/utils";
@@ -29,6 +30,7 @@ interface PromptsListProps {
 
 export function PromptsList({ prompts, projectId, onUpdate }: PromptsListProps) {
   const [editingPrompt, setEditingPrompt] = useState<any>(null);
+  const [historyPrompt, setHistoryPrompt] = useState<{ id: string; prompt: string } | null>(null);
   const [deletingPromptId, setDeletingPromptId] = useState<string | null>(null);
   const [loading, setLoading] = useState<string | null>(null);
   const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
@@ -191,6 +193,19 @@ export function PromptsList({ prompts, projectId, onUpdate }: PromptsListProps)
                         </div>
 
                         <div className="flex items-center gap-1 opacity-100 lg:opacity-0 lg:group-hover/item:opacity-100 transition-opacity">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Version history"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setHistoryPrompt(prompt);
+                            }}
+                          >
+                            <History className="h-3.5 w-3.5 text-muted-foreground" />
+                          </Button>
+
                           <Button
                             variant="ghost"
                             size="icon"
@@ -239,6 +254,15 @@ export function PromptsList({ prompts, projectId, onUpdate }: PromptsListProps)
         />
       )}
 
+      {historyPrompt && (
+        <PromptHistoryDialog
+          open={!!historyPrompt}
+          onOpenChange={(open) => !open && setHistoryPrompt(null)}
+          prompt={historyPrompt}
+          onReverted={onUpdate}
+        />
+      )}
+
       <AlertDialog open={!!deletingPromptId} onOpenChange={(open) => !open && setDeletingPromptId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -2,7 +2,9 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Zap, MessageSquare, Sparkles, Calendar } from "lucide-react";
+import { Zap, Calendar } from "lucide-react";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 import { cn } from "@/lib/utils";
 
 interface EmergingQuery {
@@ -17,11 +19,6 @@ interface EmergingQueriesTimelineProps {
   isLoading?: boolean;
 }
 
-const PLATFORM_ICONS: Record<string, typeof MessageSquare> = {
-  openai: MessageSquare,
-  gemini: Sparkles,
-};
-
 export function EmergingQueriesTimeline({ data, isLoading }: EmergingQueriesTimelineProps) {
   if (isLoading) {
     return (
@@ -110,16 +107,13 @@ export function EmergingQueriesTimeline({ data, isLoading }: EmergingQueriesTime
                       <span>•</span>
                       <span>{item.count} occurrences</span>
                     </div>
-                    <div className="flex items-center gap-2 mt-2">
-                      {item.platforms.slice(0, 2).map((platform) => {
-                        const Icon = PLATFORM_ICONS[platform] || MessageSquare;
-                        return (
-                          <Badge key={platform} variant="secondary" className="text-[10px] px-1.5 py-0">
-                            <Icon className="h-2.5 w-2.5 mr-0.5" />
-                            {platform === "openai" ? "OpenAI" : platform === "gemini" ? "Gemini" : platform}
-                          </Badge>
-                        );
-                      })}
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      {item.platforms.map((platform) => (
+                        <Badge key={platform} variant="secondary" className="text-[10px] px-1.5 py-0">
+                          <PlatformIcon platform={platform} className="h-2.5 w-2.5 mr-0.5" />
+                          {getPlatformConfig(platform).name}
+                        </Badge>
+                      ))}
                     </div>
                   </div>
                   <div className="flex-shrink-0">
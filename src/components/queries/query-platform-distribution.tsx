@@ -1,8 +1,9 @@
 "use client";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { MessageSquare, Sparkles, BarChart3 } from "lucide-react";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { BarChart3 } from "lucide-react";
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
 interface QueryData {
   query: string;
@@ -10,8 +11,7 @@ interface QueryData {
 }
 
 interface QueryPlatformDistributionProps {
-  openaiData: QueryData[];
-  geminiData: QueryData[];
+  data: Record<PlatformId, QueryData[]>;
   isLoading?: boolean;
 }
 
@@ -20,17 +20,16 @@ function PlatformColumn({
   data, 
   maxCount 
 }: { 
-  platform: "openai" | "gemini"; 
+  platform: PlatformId; 
   data: QueryData[]; 
   maxCount: number;
 }) {
   const config = PLATFORMS[platform];
-  const Icon = platform === "openai" ? MessageSquare : Sparkles;
 
   return (
     <div>
       <div className="flex items-center gap-2 mb-4">
-        <Icon className="h-5 w-5" style={{ color: config.color }} />
+        <PlatformIcon platform={platform} className="h-5 w-5" style={{ color: config.color }} />
         <span className="font-semibold" style={{ color: config.color }}>{config.name}</span>
         <span className="text-xs text-muted-foreground">
           ({data.reduce((sum, d) => sum + d.count, 0)} total)
@@ -66,7 +65,7 @@ function PlatformColumn({
   );
 }
 
-export function QueryPlatformDistribution({ openaiData, geminiData, isLoading }: QueryPlatformDistributionProps) {
+export function QueryPlatformDistribution({ data, isLoading }: QueryPlatformDistributionProps) {
   if (isLoading) {
     return (
       <Card>
@@ -87,7 +86,7 @@ export function QueryPlatformDistribution({ openaiData, geminiData, isLoading }:
   }
 
   // Find max count for scaling bars
-  const allCounts = [...openaiData.map((d) => d.count), ...geminiData.map((d) => d.count)];
+  const allCounts = PLATFORM_IDS.flatMap((id) => (data[id] || []).map((d) => d.count));
   const maxCount = Math.max(...allCounts, 1);
 
   return (
@@ -101,8 +100,9 @@ export function QueryPlatformDistribution({ openaiData, geminiData, isLoading }:
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          <PlatformColumn platform="openai" data={openaiData} maxCount={maxCount} />
-          <PlatformColumn platform="gemini" data={geminiData} maxCount={maxCount} />
+          {PLATFORM_IDS.map((id) => (
+            <PlatformColumn key={id} platform={id} data={data[id] || []} maxCount={maxCount} />
+          ))}
         </div>
       </CardContent>
     </Card>
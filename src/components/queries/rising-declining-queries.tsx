@@ -2,7 +2,9 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { TrendingUp, TrendingDown, ArrowUpRight, ArrowDownRight, MessageSquare, Sparkles } from "lucide-react";
+import { TrendingUp, TrendingDown, ArrowUpRight, ArrowDownRight } from "lucide-react";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 import { cn } from "@/lib/utils";
 
 interface QueryTrend {
@@ -20,11 +22,6 @@ interface RisingDecliningQueriesProps {
   isLoading?: boolean;
 }
 
-const PLATFORM_ICONS: Record<string, typeof MessageSquare> = {
-  openai: MessageSquare,
-  gemini: Sparkles,
-};
-
 function TrendCard({ 
   item, 
   type 
@@ -50,16 +47,13 @@ function TrendCard({
           <p className="font-medium text-sm truncate" title={item.query}>
             {item.query.length > 45 ? item.query.substring(0, 45) + "..." : item.query}
           </p>
-          <div className="flex items-center gap-2 mt-2">
-            {item.platforms.slice(0, 2).map((platform) => {
-              const PlatformIcon = PLATFORM_ICONS[platform] || MessageSquare;
-              return (
-                <Badge key={platform} variant="secondary" className="text-[10px] px-1.5 py-0">
-                  <PlatformIcon className="h-2.5 w-2.5 mr-0.5" />
-                  {platform === "openai" ? "OpenAI" : platform === "gemini" ? "Gemini" : platform}
-                </Badge>
-              );
-            })}
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            {item.platforms.map((platform) => (
+              <Badge key={platform} variant="secondary" className="text-[10px] px-1.5 py-0">
+                <PlatformIcon platform={platform} className="h-2.5 w-2.5 mr-0.5" />
+                {getPlatformConfig(platform).name}
+              </Badge>
+            ))}
           </div>
         </div>
         <div className="text-right flex-shrink-0">
@@ -4,7 +4,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { BrandLogo } from "@/components/ui/brand-logo";
-import { Search, MessageSquare, Sparkles } from "lucide-react";
+import { Search } from "lucide-react";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+import { PlatformIcon } from "@/components/platforms/platform-icon";
 
 interface TopQueryData {
   query: string;
@@ -21,11 +23,8 @@ interface TopQueriesTableProps {
 const PLATFORM_COLORS: Record<string, string> = {
   openai: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
   gemini: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
-};
-
-const PLATFORM_ICONS: Record<string, typeof MessageSquare> = {
-  openai: MessageSquare,
-  gemini: Sparkles,
+  claude: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400",
+  perplexity: "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400",
 };
 
 export function TopQueriesTable({ data, isLoading }: TopQueriesTableProps) {
@@ -110,19 +109,16 @@ export function TopQueriesTable({ data, isLoading }: TopQueriesTableProps) {
                   </TableCell>
                   <TableCell>
                     <div className="flex flex-wrap gap-1">
-                      {item.platforms.map((platform) => {
-                        const Icon = PLATFORM_ICONS[platform] || MessageSquare;
-                        return (
-                          <Badge
-                            key={platform}
-                            variant="secondary"
-                            className={`text-[10px] px-1.5 py-0 ${PLATFORM_COLORS[platform] || ""}`}
-                          >
-                            <Icon className="h-2.5 w-2.5 mr-0.5" />
-                            {platform === "openai" ? "OpenAI" : platform === "gemini" ? "Gemini" : platform}
-                          </Badge>
-                        );
-                      })}
+                      {item.platforms.map((platform) => (
+                        <Badge
+                          key={platform}
+                          variant="secondary"
+                          className={`text-[10px] px-1.5 py-0 ${PLATFORM_COLORS[platform] || ""}`}
+                        >
+                          <PlatformIcon platform={platform} className="h-2.5 w-2.5 mr-0.5" />
+                          {getPlatformConfig(platform).name}
+                        </Badge>
+                      ))}
                     </div>
                   </TableCell>
                   <TableCell>
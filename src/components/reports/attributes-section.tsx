@@ -17,6 +17,7 @@ interface AttributesSectionProps {
   competitors?: CompetitorAttribute[];
   brandName: string;
   isLoading?: boolean;
+  hiddenPlatforms?: string[]; // Engines hidden by the workspace branding
 }
 
 const platformColors: Record<string, string> = {
@@ -37,6 +38,7 @@ export function AttributesSection({
   competitors,
   brandName,
   isLoading = false,
+  hiddenPlatforms = [],
 }: AttributesSectionProps) {
   // HARDCODED DATA FOR VISUAL PREVIEW
   const hardcodedCompetitors: CompetitorAttribute[] = [
@@ -77,7 +79,8 @@ export function AttributesSection({
     },
   ];
 
-  const displayCompetitors = hardcodedCompetitors; // Use hardcoded data for preview
+  // Use hardcoded data for preview
+  const displayCompetitors = hardcodedCompetitors.filter((c) => !hiddenPlatforms.includes(c.platform));
 
   // Calculate summary statistics
   const totalPositive = displayCompetitors.reduce(
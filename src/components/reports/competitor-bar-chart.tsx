@@ -20,6 +20,7 @@ interface CompetitorBarChartProps {
   brandName: string;
   isLoading?: boolean;
   valueFormat?: "number" | "percentage" | "decimal";
+  brandColor?: string;
 }
 
 const COLORS = [
@@ -41,6 +42,7 @@ export function CompetitorBarChart({
   brandName,
   isLoading = false,
   valueFormat = "number",
+  brandColor = "#3b82f6",
 }: CompetitorBarChartProps) {
   if (isLoading) {
     return (
@@ -133,7 +135,7 @@ export function CompetitorBarChart({
               key={`cell-${index}`}
               fill={
                 entry.isBrand
-                  ? "#3b82f6"
+                  ? brandColor
                   : COLORS[index % COLORS.length]
               }
               opacity={entry.isBrand ? 1 : 0.8}
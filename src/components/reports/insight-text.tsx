@@ -0,0 +1,38 @@
+"use client";
+
+import type { InsightFact } from "./report-document";
+
+interface InsightTextProps {
+  text: string;
+  facts?: InsightFact[];
+}
+
+/**
+ * Insight text with its [F1] citations shown as numbered references that
+ * reveal the cited figure on hover
+ */
+export function InsightText({ text, facts }: InsightTextProps) {
+  if (!facts || facts.length === 0) return <>{text}</>;
+
+  const factsById = new Map(facts.map((fact) => [fact.id, fact]));
+
+  // Splitting on a capturing group leaves the fact ids at odd indexes
+  return (
+    <>
+      {text.split(/\s?\[(F\d+)\]/).map((part, index) => {
+        if (index % 2 === 0) return part;
+        const fact = factsById.get(part);
+        if (!fact) return null;
+        return (
+          <sup
+            key={index}
+            title={`${fact.label}: ${fact.value}`}
+            className="ml-0.5 cursor-help font-medium text-primary"
+          >
+            {part.slice(1)}
+          </sup>
+        );
+      })}
+    </>
+  );
+}
@@ -19,6 +19,7 @@ interface NewCompetitorsSectionProps {
   competitors?: MentionedCompetitor[];
   brandName: string;
   isLoading?: boolean;
+  hiddenPlatforms?: string[]; // Engines hidden by the workspace branding
 }
 
 const platformColors: Record<string, string> = {
@@ -39,6 +40,7 @@ export function NewCompetitorsSection({
   competitors,
   brandName,
   isLoading = false,
+  hiddenPlatforms = [],
 }: NewCompetitorsSectionProps) {
   // HARDCODED DATA FOR VISUAL PREVIEW
   const hardcodedCompetitors: MentionedCompetitor[] = [
@@ -101,7 +103,8 @@ export function NewCompetitorsSection({
     },
   ];
 
-  const displayCompetitors = hardcodedCompetitors; // Use hardcoded data for preview
+  // Use hardcoded data for preview
+  const displayCompetitors = hardcodedCompetitors.filter((c) => !hiddenPlatforms.includes(c.platform));
 
   if (isLoading) {
     return (
@@ -0,0 +1,233 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { ReportSection } from "@/components/reports/report-section";
+import { NewCompetitorsSection } from "@/components/reports/new-competitors-section";
+import { AttributesSection } from "@/components/reports/attributes-section";
+import { InsightText } from "@/components/reports/insight-text";
+import { DEFAULT_BRAND_COLORS, type ReportMetric } from "@/lib/constants/branding";
+import type { DetailedReportData } from "@/lib/queries/detailed-report";
+import type { WorkspaceBranding } from "@/lib/actions/branding";
+
+// A figure of the report data that insight text cites as [F1], [F2]...
+export interface InsightFact {
+  id: string;
+  group: "visibility" | "share_of_voice" | "sentiment" | "trend" | "platforms" | "sources" | "themes" | "new_competitors";
+  label: string;
+  value: string;
+}
+
+export interface ReportInsights {
+  visibility: string;
+  shareOfVoice: string;
+  sentiment: string;
+  // Absent on reports saved before generated insights
+  recommendations?: string[];
+  facts?: InsightFact[];
+  source?: "llm" | "template";
+  language?: "en" | "es";
+  generatedAt?: string;
+}
+
+interface ReportDocumentProps {
+  ref?: React.Ref<HTMLDivElement>; // Element exported to PDF
+  brandName: string;
+  dateRange: string;
+  topicName: string | null;
+  generatedAt: string;
+  data: DetailedReportData;
+  insights: ReportInsights | null;
+  branding: WorkspaceBranding | null; // null = unbranded
+}
+
+function BrandingLogo({ url, className }: { url: string; className?: string }) {
+  return (
+    // Logos are hosted anywhere, so next/image's remotePatterns can't list them
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={url} alt="" crossOrigin="anonymous" className={className} />
+  );
+}
+
+function RecommendationsSection({
+  recommendations,
+  facts,
+  generated,
+}: {
+  recommendations: string[];
+  facts?: InsightFact[];
+  generated: boolean;
+}) {
+  return (
+    <Card className="w-full border-0 shadow-sm">
+      <CardContent className="p-8 space-y-4">
+        <h3 className="text-2xl font-semibold tracking-tight">Recommended Actions</h3>
+        <ol className="list-decimal space-y-2 pl-5 text-sm leading-relaxed text-muted-foreground">
+          {recommendations.map((recommendation, index) => (
+            <li key={index}>
+              <InsightText text={recommendation} facts={facts} />
+            </li>
+          ))}
+        </ol>
+        {generated && (
+          <p className="text-xs text-muted-foreground">
+            Written by AI from this report&apos;s data. Hover a reference to see the figure it comes from.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A detailed report as shown in the dashboard and exported to PDF, with the
+ * workspace's white-label branding applied
+ */
+export function ReportDocument({
+  ref,
+  brandName,
+  dateRange,
+  topicName,
+  generatedAt,
+  data,
+  insights,
+  branding,
+}: ReportDocumentProps) {
+  const primaryColor = branding?.primary_color || DEFAULT_BRAND_COLORS.primary;
+  const secondaryColor = branding?.secondary_color || DEFAULT_BRAND_COLORS.secondary;
+  const hiddenMetrics: ReportMetric[] = branding?.hidden_metrics || [];
+  const hiddenPlatforms = branding?.hidden_platforms || [];
+  const isVisible = (metric: ReportMetric) => !hiddenMetrics.includes(metric);
+
+  return (
+    <Card
+      ref={ref}
+      className="border-0 shadow-lg bg-gradient-to-br from-background via-background to-muted/20 overflow-hidden"
+    >
+      {/* Custom cover, on its own page in the PDF */}
+      {branding?.cover_title && (
+        <>
+          <div
+            className="flex min-h-[420px] flex-col justify-between px-8 py-10 text-white"
+            style={{ backgroundColor: primaryColor }}
+          >
+            {branding.logo_url ? (
+              <BrandingLogo url={branding.logo_url} className="h-12 w-auto max-w-[220px] object-contain" />
+            ) : (
+              <div />
+            )}
+            <div className="space-y-3">
+              <h1 className="text-4xl font-bold tracking-tight">{branding.cover_title}</h1>
+              {branding.cover_subtitle && <p className="text-lg opacity-90">{branding.cover_subtitle}</p>}
+              <div className="h-1 w-16 rounded-full" style={{ backgroundColor: secondaryColor }} />
+            </div>
+            <div className="text-sm opacity-90">
+              <p className="font-semibold">{brandName}</p>
+              <p>
+                {dateRange}
+                {topicName && <span className="ml-2">• {topicName}</span>}
+              </p>
+            </div>
+          </div>
+          <div className="html2pdf__page-break" />
+        </>
+      )}
+
+      {/* Report Header */}
+      <div
+        className="border-b bg-muted/30 px-8 py-6"
+        style={branding?.primary_color ? { borderTop: `4px solid ${primaryColor}` } : undefined}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            {branding?.logo_url && !branding.cover_title && (
+              <BrandingLogo url={branding.logo_url} className="h-10 w-auto max-w-[160px] object-contain" />
+            )}
+            <div>
+              <h2 className="text-2xl font-bold tracking-tight">{brandName}</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                {dateRange}
+                {topicName && <span className="ml-2">• {topicName}</span>}
+              </p>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-muted-foreground">Generated</p>
+            <p className="text-sm font-medium">{generatedAt}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Report Content */}
+      <div className="p-8 space-y-8">
+        {isVisible("visibility") && (
+          <ReportSection
+            title="Visibility Score"
+            data={data.visibilityScore}
+            brandName={brandName}
+            insight={insights?.visibility || "Generating insights..."}
+            isLoading={!insights}
+            facts={insights?.facts}
+            brandColor={primaryColor}
+          />
+        )}
+
+        {isVisible("share_of_voice") && (
+          <ReportSection
+            title="Share of Voice"
+            data={data.shareOfVoice}
+            brandName={brandName}
+            insight={insights?.shareOfVoice || "Generating insights..."}
+            isLoading={!insights}
+            facts={insights?.facts}
+            brandColor={primaryColor}
+          />
+        )}
+
+        {isVisible("sentiment") && (
+          <ReportSection
+            title="Sentiment"
+            data={data.sentiment}
+            brandName={brandName}
+            insight={insights?.sentiment || "Generating insights..."}
+            isLoading={!insights}
+            facts={insights?.facts}
+            brandColor={primaryColor}
+          />
+        )}
+
+        {insights?.recommendations && insights.recommendations.length > 0 && (
+          <RecommendationsSection
+            recommendations={insights.recommendations}
+            facts={insights.facts}
+            generated={insights.source === "llm"}
+          />
+        )}
+
+        {isVisible("attributes") && (
+          <AttributesSection
+            competitors={[]}
+            brandName={brandName}
+            isLoading={false}
+            hiddenPlatforms={hiddenPlatforms}
+          />
+        )}
+
+        {isVisible("new_competitors") && (
+          <NewCompetitorsSection
+            competitors={[]}
+            brandName={brandName}
+            isLoading={false}
+            hiddenPlatforms={hiddenPlatforms}
+          />
+        )}
+      </div>
+
+      {/* Footer / disclaimer */}
+      {branding?.footer_text && (
+        <div className="border-t px-8 py-4 text-xs leading-relaxed text-muted-foreground whitespace-pre-line">
+          {branding.footer_text}
+        </div>
+      )}
+    </Card>
+  );
+}
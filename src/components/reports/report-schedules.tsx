@@ -0,0 +1,536 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Mail, Pencil, Plus, Send, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { ReportPeriod } from "@/components/reports/period-selector";
+import {
+  REPORT_LOCALES,
+  REPORT_LOCALE_IDS,
+  REPORT_SCHEDULE_FREQUENCIES,
+  REPORT_SCHEDULE_FREQUENCY_IDS,
+  REPORT_SCHEDULE_STATUSES,
+  isReportLocale,
+  isReportScheduleFrequency,
+} from "@/lib/constants/report-schedules";
+import {
+  getReportSchedules,
+  saveReportSchedule,
+  deleteReportSchedule,
+  sendReportScheduleNow,
+  type ReportSchedule,
+  type ReportScheduleInput,
+} from "@/lib/actions/report-schedules";
+
+// Select value for "all topics" (Select items can't have an empty value)
+const ALL_TOPICS = "all";
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  yesterday: "Yesterday",
+  "last-week": "Last Week",
+  "last-month": "Last Month",
+  "last-3-months": "Last 3 Months",
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const TIMEZONES = (() => {
+  try {
+    return Intl.supportedValuesOf("timeZone");
+  } catch {
+    return ["UTC"];
+  }
+})();
+
+const DEFAULT_INPUT: ReportScheduleInput = {
+  period: "last-week",
+  topic_id: null,
+  recipients: [],
+  frequency: "weekly",
+  hour_of_day: 8,
+  day_of_week: 1,
+  day_of_month: 1,
+  timezone: "UTC",
+  locale: "en",
+};
+
+function toInput(schedule: ReportSchedule): ReportScheduleInput {
+  return {
+    period: schedule.period,
+    topic_id: schedule.topic_id,
+    recipients: schedule.recipients,
+    frequency: schedule.frequency,
+    hour_of_day: schedule.hour_of_day,
+    day_of_week: schedule.day_of_week,
+    day_of_month: schedule.day_of_month,
+    timezone: schedule.timezone,
+    locale: schedule.locale,
+  };
+}
+
+function describeSchedule(schedule: ReportScheduleInput): string {
+  const hour = `${String(schedule.hour_of_day).padStart(2, "0")}:00`;
+  switch (schedule.frequency) {
+    case "daily":
+      return `Daily at ${hour} (${schedule.timezone})`;
+    case "weekly":
+      return `${WEEKDAYS[schedule.day_of_week]}s at ${hour} (${schedule.timezone})`;
+    case "monthly":
+      return `Monthly on day ${schedule.day_of_month} at ${hour} (${schedule.timezone})`;
+    default:
+      return "Paused";
+  }
+}
+
+interface ReportSchedulesProps {
+  projectId: string;
+  topics: { id: string; name: string }[];
+}
+
+export function ReportSchedules({ projectId, topics }: ReportSchedulesProps) {
+  const [schedules, setSchedules] = useState<ReportSchedule[] | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [scheduleToDelete, setScheduleToDelete] = useState<ReportSchedule | null>(null);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const loadSchedules = async () => {
+    const result = await getReportSchedules(projectId);
+    if (result.error) {
+      toast.error("Failed to load report schedules", { description: result.error });
+      setSchedules([]);
+      return;
+    }
+    setSchedules(result.data);
+  };
+
+  useEffect(() => {
+    loadSchedules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const openDialog = (schedule: ReportSchedule | null) => {
+    setEditingSchedule(schedule);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = () => {
+    setIsDialogOpen(false);
+    loadSchedules();
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setSendingId(schedule.id);
+    const result = await sendReportScheduleNow(schedule.id);
+    setSendingId(null);
+
+    if (result.error) {
+      toast.error("Failed to send report", { description: result.error });
+      return;
+    }
+
+    toast.success("Report on its way", {
+      description: `It will be emailed to ${schedule.recipients.length} recipient(s) in a minute or two.`,
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!scheduleToDelete) return;
+    const result = await deleteReportSchedule(scheduleToDelete.id);
+    setScheduleToDelete(null);
+
+    if (result.error) {
+      toast.error("Failed to delete report schedule", { description: result.error });
+      return;
+    }
+
+    toast.success("Report schedule deleted");
+    loadSchedules();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Scheduled Reports</CardTitle>
+            <CardDescription>
+              Generate a report on a schedule and email it as a PDF. Only project admins can change schedules.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {schedules === null ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No scheduled reports yet. Add one to have a report emailed to your team every week or month.
+          </p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {schedules.map((schedule) => {
+              const status = schedule.last_status ? REPORT_SCHEDULE_STATUSES[schedule.last_status] : null;
+              return (
+                <div key={schedule.id} className="flex items-center gap-4 p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">
+                      {PERIOD_LABELS[schedule.period]}
+                      {" · "}
+                      {schedule.topic_name || "All topics"}
+                      {" · "}
+                      {REPORT_LOCALES[schedule.locale].name}
+                    </div>
+                    <div className="text-sm text-muted-foreground truncate">{describeSchedule(schedule)}</div>
+                  </div>
+                  {status && schedule.last_run_at && (
+                    <Badge
+                      variant="outline"
+                      className={cn("border-transparent", status.badgeClass)}
+                      title={schedule.last_error || new Date(schedule.last_run_at).toLocaleString()}
+                    >
+                      {status.name}
+                    </Badge>
+                  )}
+                  <span
+                    className="flex items-center gap-1 text-xs text-muted-foreground"
+                    title={schedule.recipients.join(", ")}
+                  >
+                    <Mail className="h-3.5 w-3.5" />
+                    {schedule.recipients.length}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Send now"
+                    disabled={sendingId === schedule.id}
+                    onClick={() => handleSendNow(schedule)}
+                  >
+                    {sendingId === schedule.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(schedule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setScheduleToDelete(schedule)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          {/* Mounted on open so the form starts from the schedule being edited */}
+          {isDialogOpen && (
+            <ReportScheduleForm
+              projectId={projectId}
+              schedule={editingSchedule}
+              topics={topics}
+              onClose={() => setIsDialogOpen(false)}
+              onSaved={handleSaved}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete report schedule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Recipients will stop receiving this report. Reports it already generated stay in the list.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface ReportScheduleFormProps {
+  projectId: string;
+  schedule: ReportSchedule | null; // null creates a new schedule
+  topics: { id: string; name: string }[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function ReportScheduleForm({ projectId, schedule, topics, onClose, onSaved }: ReportScheduleFormProps) {
+  const [value, setValue] = useState<ReportScheduleInput>(schedule ? toInput(schedule) : DEFAULT_INPUT);
+  const [emails, setEmails] = useState(schedule?.recipients.join(", ") || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showTime = value.frequency !== "paused";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    const result = await saveReportSchedule(projectId, schedule?.id || null, {
+      ...value,
+      recipients: emails.split(/[\s,;]+/).filter(Boolean),
+    });
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error("Failed to save report schedule", { description: result.error });
+      return;
+    }
+
+    toast.success(schedule ? "Report schedule updated" : "Report schedule created");
+    onSaved();
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>{schedule ? "Edit Report Schedule" : "New Report Schedule"}</DialogTitle>
+        <DialogDescription>
+          The report is generated on the server and emailed as a PDF. It is also saved to your reports.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label>Period</Label>
+            <Select
+              value={value.period}
+              onValueChange={(period) => setValue({ ...value, period: period as ReportPeriod })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map((period) => (
+                  <SelectItem key={period} value={period}>
+                    {PERIOD_LABELS[period]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Topic</Label>
+            <Select
+              value={value.topic_id || ALL_TOPICS}
+              onValueChange={(topicId) => setValue({ ...value, topic_id: topicId === ALL_TOPICS ? null : topicId })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TOPICS}>All topics</SelectItem>
+                {topics.map((topic) => (
+                  <SelectItem key={topic.id} value={topic.id}>
+                    {topic.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label>Frequency</Label>
+            <Select
+              value={value.frequency}
+              onValueChange={(frequency) =>
+                isReportScheduleFrequency(frequency) && setValue({ ...value, frequency })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_SCHEDULE_FREQUENCY_IDS.map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {REPORT_SCHEDULE_FREQUENCIES[frequency].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Language</Label>
+            <Select
+              value={value.locale}
+              onValueChange={(locale) => isReportLocale(locale) && setValue({ ...value, locale })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_LOCALE_IDS.map((locale) => (
+                  <SelectItem key={locale} value={locale}>
+                    {REPORT_LOCALES[locale].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {showTime && (
+          <div className="grid grid-cols-3 gap-4">
+            {value.frequency === "weekly" && (
+              <div className="grid gap-2">
+                <Label>Day</Label>
+                <Select
+                  value={String(value.day_of_week)}
+                  onValueChange={(day) => setValue({ ...value, day_of_week: Number(day) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {value.frequency === "monthly" && (
+              <div className="grid gap-2">
+                <Label>Day of month</Label>
+                <Select
+                  value={String(value.day_of_month)}
+                  onValueChange={(day) => setValue({ ...value, day_of_month: Number(day) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 28 }, (_, index) => (
+                      <SelectItem key={index + 1} value={String(index + 1)}>
+                        {index + 1}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label>Time</Label>
+              <Select
+                value={String(value.hour_of_day)}
+                onValueChange={(hour) => setValue({ ...value, hour_of_day: Number(hour) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {`${String(hour).padStart(2, "0")}:00`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Timezone</Label>
+              <Select value={value.timezone} onValueChange={(timezone) => setValue({ ...value, timezone })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONES.map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>
+                      {timezone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <Label htmlFor="report-schedule-emails">Recipients</Label>
+          <Textarea
+            id="report-schedule-emails"
+            placeholder="alice@example.com, bob@example.com"
+            rows={2}
+            value={emails}
+            onChange={(e) => setEmails(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">{REPORT_SCHEDULE_FREQUENCIES[value.frequency].description}</p>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {schedule ? "Save" : "Create Schedule"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
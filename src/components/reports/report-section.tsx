@@ -5,6 +5,8 @@ import { CompetitorBarChart } from "./competitor-bar-chart";
 import { TrendingUp, TrendingDown, Minus } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { CompetitorMetric, ReportSectionData } from "@/lib/queries/detailed-report";
+import type { InsightFact } from "./report-document";
+import { InsightText } from "./insight-text";
 
 interface ReportSectionProps {
   title: string;
@@ -13,6 +15,8 @@ interface ReportSectionProps {
   insight: string;
   isLoading?: boolean;
   valueFormat?: "number" | "percentage" | "decimal";
+  brandColor?: string; // Brand bar color, the workspace branding's primary color
+  facts?: InsightFact[]; // Facts the insight cites as [F1]
 }
 
 export function ReportSection({
@@ -22,6 +26,8 @@ export function ReportSection({
   insight,
   isLoading = false,
   valueFormat,
+  brandColor,
+  facts,
 }: ReportSectionProps) {
   const brandChange = data.brandPercentageChange;
   const ChangeIcon = brandChange > 0 ? TrendingUp : brandChange < 0 ? TrendingDown : Minus;
@@ -64,7 +70,7 @@ export function ReportSection({
                 </div>
                 <div className="pt-2">
                 <p className="text-sm leading-relaxed text-muted-foreground whitespace-pre-line">
-                  {insight || "Generating insights..."}
+                  <InsightText text={insight || "Generating insights..."} facts={facts} />
                 </p>
                 </div>
               </div>
@@ -80,6 +86,7 @@ export function ReportSection({
                 brandName={brandName}
                 isLoading={isLoading}
                 valueFormat={detectedFormat}
+                brandColor={brandColor}
               />
             </div>
           </div>
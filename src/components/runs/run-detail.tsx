@@ -0,0 +1,218 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { ListChecks, Timer, Coins, Hash } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { StatCard } from "@/components/dashboard/stat-card";
+import {
+  getAnalysisRun,
+  getAnalysisRunResponses,
+  type AnalysisRun,
+  type AnalysisRunResponse,
+} from "@/lib/actions/analysis-runs";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+import { RunStatusBadge, TRIGGER_LABELS, formatRunDuration, formatRunCost } from "./run-status";
+
+// Refresh interval while the run is executing
+const POLL_INTERVAL_MS = 5000;
+
+const RESPONSE_STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  success: "default",
+  error: "destructive",
+  processing: "outline",
+};
+
+interface RunDetailProps {
+  runId: string;
+}
+
+export function RunDetail({ runId }: RunDetailProps) {
+  const router = useRouter();
+  const [run, setRun] = useState<AnalysisRun | null>(null);
+  const [responses, setResponses] = useState<AnalysisRunResponse[]>([]);
+  const [now, setNow] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  // Polls repeat failures: toast the first one only, until a load succeeds
+  const loadFailed = useRef(false);
+
+  const loadRun = async () => {
+    try {
+      const [runResult, responsesResult] = await Promise.all([
+        getAnalysisRun(runId),
+        getAnalysisRunResponses(runId),
+      ]);
+
+      if (runResult.error || responsesResult.error) {
+        if (!loadFailed.current) {
+          toast.error("Failed to load run", { description: runResult.error || responsesResult.error || undefined });
+        }
+        loadFailed.current = true;
+        return;
+      }
+
+      loadFailed.current = false;
+      setRun(runResult.data);
+      setResponses(responsesResult.data || []);
+      setNow(Date.now());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRun();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runId]);
+
+  // Poll until the run finishes
+  const isRunning = run?.status === "running";
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(loadRun, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRunning, runId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!run) {
+    return <p className="text-sm text-muted-foreground">This run could not be found.</p>;
+  }
+
+  const finished = run.prompts_completed + run.prompts_failed;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        <RunStatusBadge status={run.status} />
+        <Badge variant="outline">{TRIGGER_LABELS[run.trigger]}</Badge>
+        <span>Started {format(new Date(run.started_at), "MMM d, yyyy HH:mm")}</span>
+        {run.completed_at && <span>· Finished {format(new Date(run.completed_at), "MMM d, yyyy HH:mm")}</span>}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <StatCard
+          title="Prompts"
+          value={`${finished}/${run.prompts_queued}`}
+          description={run.prompts_failed > 0 ? `${run.prompts_failed} failed` : "No failures"}
+          icon={ListChecks}
+        />
+        <StatCard title="Duration" value={formatRunDuration(run, now)} icon={Timer} />
+        <StatCard title="Tokens" value={run.tokens_used.toLocaleString()} icon={Hash} />
+        <StatCard title="Cost" value={formatRunCost(run.cost)} description="Prompt answers only" icon={Coins} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Platforms</CardTitle>
+          <CardDescription>Prompts answered per platform{isRunning && " (updating live)"}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Platform</TableHead>
+                <TableHead className="w-[240px]">Progress</TableHead>
+                <TableHead className="text-right">Queued</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+                <TableHead className="text-right">In flight</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {run.platforms.map((platform) => {
+                const config = getPlatformConfig(platform.platform);
+                const done = platform.completed + platform.failed;
+                return (
+                  <TableRow key={platform.platform}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: config.color }} />
+                        {config.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={platform.queued > 0 ? (done / platform.queued) * 100 : 0} className="h-2" />
+                    </TableCell>
+                    <TableCell className="text-right">{platform.queued}</TableCell>
+                    <TableCell className="text-right">{platform.completed}</TableCell>
+                    <TableCell className="text-right">
+                      {platform.failed > 0 ? <span className="text-destructive">{platform.failed}</span> : 0}
+                    </TableCell>
+                    <TableCell className="text-right">{platform.processing}</TableCell>
+                    <TableCell className="text-right">{platform.tokens_used.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatRunCost(platform.cost)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Responses</CardTitle>
+          <CardDescription>{responses.length} responses produced by this run</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prompt</TableHead>
+                <TableHead>Platform</TableHead>
+                <TableHead className="text-right">Sample</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {responses.map((response) => (
+                <TableRow
+                  key={response.id}
+                  className="cursor-pointer"
+                  onClick={() => router.push(`/dashboard/responses/${response.id}`)}
+                >
+                  <TableCell className="max-w-[360px]">
+                    <p className="truncate">{response.prompt_text}</p>
+                    {response.error_message && (
+                      <p className="truncate text-xs text-destructive" title={response.error_message}>
+                        {response.error_message}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{getPlatformConfig(response.platform).name}</TableCell>
+                  <TableCell className="text-right">{response.sample_index ?? "-"}</TableCell>
+                  <TableCell>
+                    <Badge variant={RESPONSE_STATUS_VARIANTS[response.status] || "outline"}>{response.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{response.tokens_used?.toLocaleString() ?? "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {response.execution_time_ms != null ? `${(response.execution_time_ms / 1000).toFixed(1)}s` : "-"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(response.created_at), "HH:mm:ss")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { AnalysisRun, AnalysisRunStatus, AnalysisRunTrigger } from "@/lib/actions/analysis-runs";
+
+const STATUS_CONFIG: Record<AnalysisRunStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  running: { label: "Running", variant: "outline" },
+  completed: { label: "Completed", variant: "default" },
+  completed_with_errors: { label: "Completed with errors", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+export const TRIGGER_LABELS: Record<AnalysisRunTrigger, string> = {
+  scheduled: "Scheduled",
+  manual: "Manual",
+  replay: "Replay",
+};
+
+export function RunStatusBadge({ status }: { status: AnalysisRunStatus }) {
+  const config = STATUS_CONFIG[status];
+  return (
+    <Badge variant={config.variant} className="gap-1">
+      {status === "running" && <Loader2 className="h-3 w-3 animate-spin" />}
+      {config.label}
+    </Badge>
+  );
+}
+
+/**
+ * Run duration, up to `now` while the run is still going
+ */
+export function formatRunDuration(run: Pick<AnalysisRun, "started_at" | "completed_at">, now: number): string {
+  const end = run.completed_at ? new Date(run.completed_at).getTime() : now;
+  const seconds = Math.max(0, Math.round((end - new Date(run.started_at).getTime()) / 1000));
+
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function formatRunCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { FolderOpen, History } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { useProject } from "@/contexts/project-context";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { getAnalysisRuns, type AnalysisRun } from "@/lib/actions/analysis-runs";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+import { RunStatusBadge, TRIGGER_LABELS, formatRunDuration, formatRunCost } from "./run-status";
+
+// Refresh interval while a run is executing
+const POLL_INTERVAL_MS = 5000;
+
+export function RunsList() {
+  const router = useRouter();
+  const { selectedProjectId } = useProject();
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [now, setNow] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  // Polls repeat failures: toast the first one only, until a load succeeds
+  const loadFailed = useRef(false);
+
+  const loadRuns = async () => {
+    if (!selectedProjectId) return;
+    try {
+      const result = await getAnalysisRuns(selectedProjectId);
+      if (result.error) {
+        if (!loadFailed.current) {
+          toast.error("Failed to load runs", { description: result.error });
+        }
+        loadFailed.current = true;
+      } else {
+        loadFailed.current = false;
+        setRuns(result.data || []);
+        setNow(Date.now());
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRuns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId]);
+
+  // Poll while any run is still executing
+  const hasRunningRuns = runs.some((run) => run.status === "running");
+  useEffect(() => {
+    if (!hasRunningRuns) return;
+    const interval = setInterval(loadRuns, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasRunningRuns, selectedProjectId]);
+
+  if (!selectedProjectId) {
+    return (
+      <EmptyState
+        icon={FolderOpen}
+        title="No project selected"
+        description="Select a project to see its analysis runs."
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <EmptyState
+        icon={History}
+        title="No runs yet"
+        description="Runs appear here once the scheduler or a manual trigger sends prompts for analysis."
+      />
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Runs</CardTitle>
+        <CardDescription>
+          {hasRunningRuns
+            ? "A run is in progress; this list refreshes automatically."
+            : "Latest scheduled, manual and replay runs for this project."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[180px]">Prompts</TableHead>
+              <TableHead>Platforms</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead className="text-right">Tokens</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map((run) => {
+              const finished = run.prompts_completed + run.prompts_failed;
+              const progress = run.prompts_queued > 0 ? (finished / run.prompts_queued) * 100 : 100;
+
+              return (
+                <TableRow
+                  key={run.id}
+                  className="cursor-pointer"
+                  onClick={() => router.push(`/dashboard/runs/${run.id}`)}
+                >
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(run.started_at), "MMM d, HH:mm")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{TRIGGER_LABELS[run.trigger]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <RunStatusBadge status={run.status} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Progress value={progress} className="h-2" />
+                      <p className="text-xs text-muted-foreground">
+                        {finished}/{run.prompts_queued}
+                        {run.prompts_failed > 0 && (
+                          <span className="text-destructive"> · {run.prompts_failed} failed</span>
+                        )}
+                      </p>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {run.platforms.map((platform) => (
+                        <Badge
+                          key={platform.platform}
+                          variant="outline"
+                          className="font-normal"
+                          style={{ borderColor: getPlatformConfig(platform.platform).color }}
+                        >
+                          {getPlatformConfig(platform.platform).name} {platform.completed}/{platform.queued}
+                          {platform.failed > 0 && <span className="text-destructive ml-1">({platform.failed} failed)</span>}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{formatRunDuration(run, now)}</TableCell>
+                  <TableCell className="text-right">{run.tokens_used.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatRunCost(run.cost)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
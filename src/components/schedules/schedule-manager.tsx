@@ -0,0 +1,422 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useProject } from "@/contexts/project-context";
+import { CalendarClock, FolderOpen, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { WelcomeTip } from "@/components/dashboard/welcome-tip";
+import {
+  getAnalysisSchedules,
+  saveAnalysisSchedule,
+  deleteAnalysisSchedule,
+  type AnalysisSchedule,
+  type AnalysisScheduleInput,
+  type ScheduleFrequency,
+} from "@/lib/actions/schedules";
+import { getProjectPrompts } from "@/lib/actions/prompt";
+import { PLATFORMS, PLATFORM_IDS } from "@/lib/constants/platforms";
+
+const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  hourly: "Every hour",
+  daily: "Daily",
+  weekly: "Weekly",
+  paused: "Paused",
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const TIMEZONES = (() => {
+  try {
+    return Intl.supportedValuesOf("timeZone");
+  } catch {
+    return ["UTC"];
+  }
+})();
+
+const DEFAULT_INPUT: AnalysisScheduleInput = {
+  frequency: "daily",
+  hour_of_day: 1,
+  day_of_week: 1,
+  timezone: "UTC",
+  platforms: null,
+};
+
+function toInput(schedule: AnalysisSchedule): AnalysisScheduleInput {
+  return {
+    frequency: schedule.frequency,
+    hour_of_day: schedule.hour_of_day,
+    day_of_week: schedule.day_of_week,
+    timezone: schedule.timezone,
+    platforms: schedule.platforms,
+  };
+}
+
+function describeSchedule(schedule: AnalysisScheduleInput): string {
+  const hour = `${String(schedule.hour_of_day).padStart(2, "0")}:00`;
+  switch (schedule.frequency) {
+    case "hourly":
+      return "Every hour";
+    case "daily":
+      return `Daily at ${hour} (${schedule.timezone})`;
+    case "weekly":
+      return `${WEEKDAYS[schedule.day_of_week]}s at ${hour} (${schedule.timezone})`;
+    default:
+      return "Paused";
+  }
+}
+
+interface ScheduleFieldsProps {
+  value: AnalysisScheduleInput;
+  onChange: (value: AnalysisScheduleInput) => void;
+}
+
+function ScheduleFields({ value, onChange }: ScheduleFieldsProps) {
+  const showTime = value.frequency === "daily" || value.frequency === "weekly";
+  const selectedPlatforms = value.platforms || [];
+
+  const togglePlatform = (platform: string, checked: boolean) => {
+    const platforms = checked
+      ? [...selectedPlatforms, platform]
+      : selectedPlatforms.filter((p) => p !== platform);
+    onChange({ ...value, platforms: platforms.length > 0 ? platforms : null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <div className="space-y-2">
+          <Label>Frequency</Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency) => onChange({ ...value, frequency: frequency as ScheduleFrequency })}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FREQUENCY_LABELS) as ScheduleFrequency[]).map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {FREQUENCY_LABELS[frequency]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.frequency === "weekly" && (
+          <div className="space-y-2">
+            <Label>Day</Label>
+            <Select
+              value={String(value.day_of_week)}
+              onValueChange={(day) => onChange({ ...value, day_of_week: Number(day) })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAYS.map((day, index) => (
+                  <SelectItem key={day} value={String(index)}>
+                    {day}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {showTime && (
+          <>
+            <div className="space-y-2">
+              <Label>Time</Label>
+              <Select
+                value={String(value.hour_of_day)}
+                onValueChange={(hour) => onChange({ ...value, hour_of_day: Number(hour) })}
+              >
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {`${String(hour).padStart(2, "0")}:00`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Select
+                value={value.timezone}
+                onValueChange={(timezone) => onChange({ ...value, timezone })}
+              >
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONES.map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>
+                      {timezone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {value.frequency !== "paused" && (
+        <div className="space-y-2">
+          <Label>Engines</Label>
+          <div className="flex flex-wrap gap-4">
+            {PLATFORM_IDS.map((platform) => (
+              <label key={platform} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selectedPlatforms.includes(platform)}
+                  onCheckedChange={(checked) => togglePlatform(platform, checked === true)}
+                />
+                {PLATFORMS[platform].name}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave all unchecked to run every engine enabled in the Engines tab.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ScheduleManager() {
+  const { selectedProjectId } = useProject();
+  const [projectSchedule, setProjectSchedule] = useState<AnalysisScheduleInput>(DEFAULT_INPUT);
+  const [isDefault, setIsDefault] = useState(true);
+  const [overrides, setOverrides] = useState<AnalysisSchedule[]>([]);
+  const [prompts, setPrompts] = useState<{ id: string; prompt: string }[]>([]);
+  const [overridePromptId, setOverridePromptId] = useState<string>("");
+  const [overrideSchedule, setOverrideSchedule] = useState<AnalysisScheduleInput>(DEFAULT_INPUT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSchedules = async () => {
+    if (!selectedProjectId) return;
+    setIsLoading(true);
+    try {
+      const [schedulesResult, promptsResult] = await Promise.all([
+        getAnalysisSchedules(selectedProjectId),
+        getProjectPrompts(selectedProjectId),
+      ]);
+      if (schedulesResult.data) {
+        setProjectSchedule(toInput(schedulesResult.data.project));
+        setIsDefault(!schedulesResult.data.project.id);
+        setOverrides(schedulesResult.data.overrides);
+      }
+      if (promptsResult.data) {
+        setPrompts(promptsResult.data.map((p: { id: string; prompt: string }) => ({ id: p.id, prompt: p.prompt })));
+      }
+    } catch {
+      toast.error("Failed to load schedules");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProjectId]);
+
+  const handleSaveProject = async () => {
+    if (!selectedProjectId) return;
+    setIsSaving(true);
+    try {
+      const result = await saveAnalysisSchedule(selectedProjectId, null, projectSchedule);
+      if (result.error) throw new Error(result.error);
+      setIsDefault(false);
+      toast.success("Schedule updated successfully");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddOverride = async () => {
+    if (!selectedProjectId || !overridePromptId) return;
+    setIsSaving(true);
+    try {
+      const result = await saveAnalysisSchedule(selectedProjectId, overridePromptId, overrideSchedule);
+      if (result.error) throw new Error(result.error);
+      toast.success("Prompt schedule saved successfully");
+      setOverridePromptId("");
+      setOverrideSchedule(DEFAULT_INPUT);
+      loadSchedules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save prompt schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteOverride = async (schedule: AnalysisSchedule) => {
+    if (!schedule.id) return;
+    try {
+      const result = await deleteAnalysisSchedule(schedule.id);
+      if (result.error) throw new Error(result.error);
+      setOverrides(overrides.filter((o) => o.id !== schedule.id));
+      toast.success("Prompt schedule removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove prompt schedule");
+    }
+  };
+
+  if (!selectedProjectId) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <EmptyState
+            icon={FolderOpen}
+            title="No Project Selected"
+            description="Please select a project to manage its analysis schedule"
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const overriddenPromptIds = new Set(overrides.map((o) => o.prompt_tracking_id));
+  const availablePrompts = prompts.filter((p) => !overriddenPromptIds.has(p.id));
+
+  return (
+    <div className="space-y-6">
+      <WelcomeTip id="schedules">
+        Decide how often your prompts are sent to AI engines. Run hourly during a launch, weekly to
+        save cost, or pause a project entirely. Individual prompts can override the project schedule.
+      </WelcomeTip>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Project Schedule
+            {isDefault && (
+              <Badge variant="secondary" className="rounded-full text-xs">
+                Default
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>{describeSchedule(projectSchedule)}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading schedule...
+            </div>
+          ) : (
+            <>
+              <ScheduleFields value={projectSchedule} onChange={setProjectSchedule} />
+              <Button onClick={handleSaveProject} disabled={isSaving}>
+                Save Schedule
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Prompt Overrides</CardTitle>
+          <CardDescription>
+            Prompts with their own schedule ignore the project schedule.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!isLoading && overrides.length === 0 ? (
+            <EmptyState
+              icon={CalendarClock}
+              title="No prompt overrides"
+              description="All prompts follow the project schedule."
+            />
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Prompt</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Engines</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.map((schedule) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell className="max-w-md truncate">{schedule.prompt || "Unknown prompt"}</TableCell>
+                      <TableCell>{describeSchedule(schedule)}</TableCell>
+                      <TableCell>
+                        {schedule.platforms
+                          ? schedule.platforms.map((p) => PLATFORMS[p as keyof typeof PLATFORMS]?.name || p).join(", ")
+                          : "All enabled"}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteOverride(schedule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="space-y-2">
+              <Label>Prompt</Label>
+              <Select value={overridePromptId} onValueChange={setOverridePromptId}>
+                <SelectTrigger className="w-full max-w-xl">
+                  <SelectValue placeholder="Select a prompt" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePrompts.map((prompt) => (
+                    <SelectItem key={prompt.id} value={prompt.id}>
+                      {prompt.prompt.length > 80 ? `${prompt.prompt.slice(0, 80)}...` : prompt.prompt}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ScheduleFields value={overrideSchedule} onChange={setOverrideSchedule} />
+            <Button onClick={handleAddOverride} disabled={isSaving || !overridePromptId}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Override
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
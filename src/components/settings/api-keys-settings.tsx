@@ -0,0 +1,401 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Check, Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { cn } from "@/lib/utils";
+import { getUserWorkspacesWithProjects } from "@/lib/queries/workspace";
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_IDS,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  type ApiKeyScope,
+} from "@/lib/constants/api-keys";
+import { getApiKeys, createApiKey, revokeApiKey, type ApiKey } from "@/lib/actions/api-keys";
+
+type Workspace = {
+  id: string;
+  name: string;
+};
+
+function getKeyStatus(apiKey: ApiKey) {
+  if (apiKey.revoked_at) {
+    return { name: "Revoked", badgeClass: "bg-muted text-muted-foreground" };
+  }
+  if (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date()) {
+    return { name: "Expired", badgeClass: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" };
+  }
+  return { name: "Active", badgeClass: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" };
+}
+
+export function ApiKeysSettings() {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadApiKeys = async () => {
+    try {
+      const workspaces = (await getUserWorkspacesWithProjects()) as Workspace[];
+      const current = workspaces[0] || null;
+      setWorkspace(current);
+      if (!current) return;
+
+      const result = await getApiKeys(current.id);
+      if (result.error) {
+        toast.error("Failed to load API keys", { description: result.error });
+        return;
+      }
+      setApiKeys(result.data || []);
+    } catch {
+      toast.error("Failed to load API keys");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  const handleRevoke = async () => {
+    if (!keyToRevoke) return;
+    const apiKey = keyToRevoke;
+    setKeyToRevoke(null);
+
+    const result = await revokeApiKey(apiKey.id);
+    if (result.error) {
+      toast.error("Failed to revoke API key", { description: result.error });
+      return;
+    }
+
+    toast.success("API key revoked");
+    loadApiKeys();
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!workspace) {
+    return (
+      <EmptyState
+        icon={KeyRound}
+        title="No workspace"
+        description="Create a workspace to access its data through the API."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>API Keys</CardTitle>
+              <CardDescription>
+                Keys for the REST API give access to every project in {workspace.name}. Only workspace admins can
+                manage them.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Key
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {apiKeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No API keys yet. Create one to pull projects, responses and metrics into your BI tools.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead className="text-right">Limit</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.map((apiKey) => {
+                  const status = getKeyStatus(apiKey);
+                  return (
+                    <TableRow key={apiKey.id}>
+                      <TableCell className="font-medium">{apiKey.name}</TableCell>
+                      <TableCell>
+                        <code className="rounded bg-muted px-2 py-1 text-xs">{apiKey.key_prefix}…</code>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="font-mono text-xs">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-right">{apiKey.rate_limit_per_minute}/min</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {apiKey.last_used_at ? format(new Date(apiKey.last_used_at), "MMM d, HH:mm") : "Never"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={cn("border-0", status.badgeClass)}
+                          title={apiKey.expires_at ? `Expires ${format(new Date(apiKey.expires_at), "MMM d, yyyy")}` : undefined}
+                        >
+                          {status.name}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!apiKey.revoked_at && (
+                          <Button variant="ghost" size="sm" onClick={() => setKeyToRevoke(apiKey)}>
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="rounded-md bg-muted/50 p-3 text-sm text-muted-foreground">
+            Send the key as <code>Authorization: Bearer &lt;key&gt;</code> to <code>/api/v1</code>. The endpoints are
+            described in the{" "}
+            <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">
+              OpenAPI document
+            </a>
+            ; every response reports the key&apos;s remaining requests in <code>X-RateLimit-*</code> headers.
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          {/* Mounted on open so the form and the revealed key start empty */}
+          {isDialogOpen && (
+            <ApiKeyForm
+              workspaceId={workspace.id}
+              onClose={() => setIsDialogOpen(false)}
+              onCreated={loadApiKeys}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!keyToRevoke} onOpenChange={(open) => !open && setKeyToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests made with {keyToRevoke?.name} ({keyToRevoke?.key_prefix}…) are rejected immediately. This
+              can&apos;t be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface ApiKeyFormProps {
+  workspaceId: string;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+function ApiKeyForm({ workspaceId, onClose, onCreated }: ApiKeyFormProps) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["projects:read", "responses:read", "stats:read"]);
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_API_KEY_RATE_LIMIT));
+  const [expiresOn, setExpiresOn] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    const result = await createApiKey(workspaceId, {
+      name,
+      scopes,
+      rate_limit_per_minute: Number(rateLimit),
+      // End of the chosen day, in the user's timezone
+      expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+    });
+    setIsSaving(false);
+
+    if (result.error || !result.data) {
+      toast.error("Failed to create API key", { description: result.error || undefined });
+      return;
+    }
+
+    setCreatedKey(result.data.key);
+    onCreated();
+  };
+
+  const copyKey = () => {
+    if (!createdKey) return;
+    navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (createdKey) {
+    return (
+      <div>
+        <DialogHeader>
+          <DialogTitle>API Key Created</DialogTitle>
+          <DialogDescription>
+            Copy the key now. Only its hash is stored, so it can&apos;t be shown again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 py-4">
+          <code className="flex-1 break-all rounded bg-muted px-3 py-2 text-sm">{createdKey}</code>
+          <Button variant="outline" size="icon" onClick={copyKey}>
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>New API Key</DialogTitle>
+        <DialogDescription>
+          The key can read or change every project in the workspace, within the scopes you select.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid gap-2">
+          <Label htmlFor="api-key-name">Name</Label>
+          <Input
+            id="api-key-name"
+            placeholder="BI dashboard"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Scopes</Label>
+          <div className="space-y-3 rounded-md border p-3">
+            {API_KEY_SCOPE_IDS.map((scope) => (
+              <div key={scope} className="flex items-start gap-3">
+                <Checkbox
+                  id={`api-key-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <div className="grid gap-0.5">
+                  <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                    {API_KEY_SCOPES[scope].name} <span className="font-mono text-xs text-muted-foreground">{scope}</span>
+                  </Label>
+                  <p className="text-xs text-muted-foreground">{API_KEY_SCOPES[scope].description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="api-key-rate-limit">Requests per minute</Label>
+            <Input
+              id="api-key-rate-limit"
+              type="number"
+              min={1}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="api-key-expires">Expires on</Label>
+            <Input
+              id="api-key-expires"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || !name.trim() || scopes.length === 0}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Create
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
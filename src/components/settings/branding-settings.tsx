@@ -0,0 +1,326 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Palette } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { getUserWorkspacesWithProjects } from "@/lib/queries/workspace";
+import { PLATFORMS, PLATFORM_IDS } from "@/lib/constants/platforms";
+import {
+  DEFAULT_BRAND_COLORS,
+  HEX_COLOR_PATTERN,
+  REPORT_METRICS,
+  REPORT_METRIC_IDS,
+  type ReportMetric,
+} from "@/lib/constants/branding";
+import {
+  getWorkspaceBranding,
+  saveWorkspaceBranding,
+  type WorkspaceBranding,
+  type WorkspaceBrandingInput,
+} from "@/lib/actions/branding";
+
+type Workspace = {
+  id: string;
+  name: string;
+};
+
+const EMPTY_BRANDING: WorkspaceBrandingInput = {
+  logo_url: null,
+  primary_color: null,
+  secondary_color: null,
+  cover_title: null,
+  cover_subtitle: null,
+  footer_text: null,
+  sender_name: null,
+  hidden_platforms: [],
+  hidden_metrics: [],
+};
+
+function toInput(branding: WorkspaceBranding | null): WorkspaceBrandingInput {
+  if (!branding) return EMPTY_BRANDING;
+  return {
+    logo_url: branding.logo_url,
+    primary_color: branding.primary_color,
+    secondary_color: branding.secondary_color,
+    cover_title: branding.cover_title,
+    cover_subtitle: branding.cover_subtitle,
+    footer_text: branding.footer_text,
+    sender_name: branding.sender_name,
+    hidden_platforms: branding.hidden_platforms,
+    hidden_metrics: branding.hidden_metrics,
+  };
+}
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string | null;
+  fallback: string;
+  onChange: (value: string | null) => void;
+}
+
+function ColorField({ id, label, value, fallback, onChange }: ColorFieldProps) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          aria-label={label}
+          className="h-9 w-12 cursor-pointer rounded-md border bg-transparent p-1"
+          value={value && HEX_COLOR_PATTERN.test(value) ? value : fallback}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <Input
+          id={id}
+          placeholder={fallback}
+          className="w-[120px] font-mono"
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function BrandingSettings() {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [value, setValue] = useState<WorkspaceBrandingInput>(EMPTY_BRANDING);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadBranding = async () => {
+    try {
+      const workspaces = (await getUserWorkspacesWithProjects()) as Workspace[];
+      const current = workspaces[0] || null;
+      setWorkspace(current);
+      if (!current) return;
+
+      const result = await getWorkspaceBranding(current.id);
+      if (result.error) {
+        toast.error("Failed to load branding", { description: result.error });
+        return;
+      }
+      setValue(toInput(result.data));
+      setUpdatedAt(result.data?.updated_at || null);
+    } catch {
+      toast.error("Failed to load branding");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBranding();
+  }, []);
+
+  const toggleHiddenPlatform = (platform: string, hidden: boolean) => {
+    setValue({
+      ...value,
+      hidden_platforms: hidden
+        ? [...value.hidden_platforms, platform]
+        : value.hidden_platforms.filter((p) => p !== platform),
+    });
+  };
+
+  const toggleHiddenMetric = (metric: ReportMetric, hidden: boolean) => {
+    setValue({
+      ...value,
+      hidden_metrics: hidden ? [...value.hidden_metrics, metric] : value.hidden_metrics.filter((m) => m !== metric),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspace) return;
+
+    setIsSaving(true);
+    const result = await saveWorkspaceBranding(workspace.id, value);
+    setIsSaving(false);
+
+    if (result.error || !result.data) {
+      toast.error("Failed to save branding", { description: result.error || undefined });
+      return;
+    }
+
+    setValue(toInput(result.data));
+    setUpdatedAt(result.data.updated_at);
+    toast.success("Branding saved", { description: "New reports and emails use it right away." });
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!workspace) {
+    return (
+      <EmptyState
+        icon={Palette}
+        title="No workspace"
+        description="Create a workspace to brand its reports."
+      />
+    );
+  }
+
+  const setText = (field: "logo_url" | "cover_title" | "cover_subtitle" | "footer_text" | "sender_name", text: string) =>
+    setValue({ ...value, [field]: text || null });
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>White-label Branding</CardTitle>
+          <CardDescription>
+            Brand the reports, shared links and emails of {workspace.name} for your clients. Leave a field empty
+            to use the default. Only workspace admins can change branding.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-2">
+            <Label htmlFor="branding-logo">Logo URL</Label>
+            <div className="flex items-center gap-4">
+              <Input
+                id="branding-logo"
+                placeholder="https://agency.example.com/logo.png"
+                value={value.logo_url || ""}
+                onChange={(e) => setText("logo_url", e.target.value)}
+              />
+              {value.logo_url && (
+                <div className="flex h-10 w-32 shrink-0 items-center justify-center rounded-md border bg-muted p-1">
+                  {/* Logos are hosted anywhere, so next/image's remotePatterns can't list them */}
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={value.logo_url} alt="Logo preview" className="max-h-full max-w-full object-contain" />
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">PNG or JPEG. Shown on reports and embedded in emailed PDFs.</p>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <ColorField
+              id="branding-primary"
+              label="Primary color"
+              value={value.primary_color}
+              fallback={DEFAULT_BRAND_COLORS.primary}
+              onChange={(color) => setValue({ ...value, primary_color: color })}
+            />
+            <ColorField
+              id="branding-secondary"
+              label="Secondary color"
+              value={value.secondary_color}
+              fallback={DEFAULT_BRAND_COLORS.secondary}
+              onChange={(color) => setValue({ ...value, secondary_color: color })}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="branding-cover-title">Report cover title</Label>
+              <Input
+                id="branding-cover-title"
+                placeholder="AI Search Performance Review"
+                maxLength={120}
+                value={value.cover_title || ""}
+                onChange={(e) => setText("cover_title", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="branding-cover-subtitle">Cover subtitle</Label>
+              <Input
+                id="branding-cover-subtitle"
+                placeholder="Prepared by Acme Agency"
+                maxLength={240}
+                value={value.cover_subtitle || ""}
+                onChange={(e) => setText("cover_subtitle", e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="-mt-4 text-xs text-muted-foreground">
+            With a cover title, reports open with a cover page in your colors.
+          </p>
+
+          <div className="grid gap-2">
+            <Label htmlFor="branding-footer">Footer / disclaimer</Label>
+            <Textarea
+              id="branding-footer"
+              placeholder="Confidential. Prepared for the exclusive use of our client."
+              rows={3}
+              maxLength={1000}
+              value={value.footer_text || ""}
+              onChange={(e) => setText("footer_text", e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="branding-sender">Email sender name</Label>
+            <Input
+              id="branding-sender"
+              placeholder="Acme Agency Reports"
+              className="max-w-sm"
+              maxLength={80}
+              value={value.sender_name || ""}
+              onChange={(e) => setText("sender_name", e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Name shown as the sender of scheduled reports and alert emails.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Hidden in Reports</CardTitle>
+          <CardDescription>
+            Leave out engines and metrics your client contracts don&apos;t include. Hidden engines&apos; answers are
+            not counted in reports and their names are not shown.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 sm:grid-cols-2">
+          <div className="space-y-3">
+            <Label>Engines</Label>
+            {PLATFORM_IDS.map((platform) => (
+              <label key={platform} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.hidden_platforms.includes(platform)}
+                  onCheckedChange={(checked) => toggleHiddenPlatform(platform, checked === true)}
+                />
+                Hide {PLATFORMS[platform].name}
+              </label>
+            ))}
+          </div>
+          <div className="space-y-3">
+            <Label>Metrics</Label>
+            {REPORT_METRIC_IDS.map((metric) => (
+              <label key={metric} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.hidden_metrics.includes(metric)}
+                  onCheckedChange={(checked) => toggleHiddenMetric(metric, checked === true)}
+                />
+                Hide {REPORT_METRICS[metric].name}
+              </label>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-end gap-4">
+        {updatedAt && (
+          <span className="text-xs text-muted-foreground">Last saved {new Date(updatedAt).toLocaleString()}</span>
+        )}
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Branding
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -15,9 +15,17 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { getUserWorkspacesWithProjects } from "@/lib/queries/workspace";
 import { createProject } from "@/lib/actions/workspace";
 import { updateProject as updateProjectDetails, deleteProject } from "@/lib/actions/project";
+import { REPORT_LOCALES, REPORT_LOCALE_IDS } from "@/lib/constants/report-schedules";
 import { CreateProjectWizard } from "@/components/projects/create-project-wizard";
 import { useRouter } from "next/navigation";
 
@@ -34,6 +42,7 @@ export function ProjectsSettings() {
   const [editProjectName, setEditProjectName] = useState("");
   const [editProjectUrl, setEditProjectUrl] = useState("");
   const [editProjectColor, setEditProjectColor] = useState("#3B82F6");
+  const [editProjectLanguage, setEditProjectLanguage] = useState("en");
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
 
@@ -69,6 +78,7 @@ export function ProjectsSettings() {
       name: editProjectName,
       client_url: editProjectUrl || undefined,
       color: editProjectColor,
+      language: editProjectLanguage,
     });
 
     setActionLoading(false);
@@ -83,6 +93,7 @@ export function ProjectsSettings() {
     setEditProjectName("");
     setEditProjectUrl("");
     setEditProjectColor("#3B82F6");
+    setEditProjectLanguage("en");
     loadData();
     router.refresh();
   };
@@ -112,6 +123,7 @@ export function ProjectsSettings() {
     setSelectedProject(project);
     setEditProjectName(project.name);
     setEditProjectUrl(project.client_url || "");
+    setEditProjectLanguage(project.language || "en");
     setError(null);
     setIsEditOpen(true);
   };
@@ -266,6 +278,24 @@ export function ProjectsSettings() {
                 Choose a color to represent this brand in charts and visualizations
               </p>
             </div>
+            <div className="space-y-2">
+              <Label>Report Language</Label>
+              <Select value={editProjectLanguage} onValueChange={setEditProjectLanguage} disabled={actionLoading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_LOCALE_IDS.map((locale) => (
+                    <SelectItem key={locale} value={locale}>
+                      {REPORT_LOCALES[locale].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Language the insights and recommended actions of this project&apos;s reports are written in
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -4,6 +4,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ProjectsSettings } from "./projects-settings";
 import { TeamSettings } from "./team-settings";
 import { ProfileSettings } from "./profile-settings";
+import { UsageSettings } from "./usage-settings";
+import { WebhooksSettings } from "./webhooks-settings";
+import { ApiKeysSettings } from "./api-keys-settings";
+import { BrandingSettings } from "./branding-settings";
 import { WelcomeTip } from "@/components/dashboard/welcome-tip";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
@@ -22,7 +26,7 @@ export function SettingsTabs({ user, defaultTab = "projects" }: SettingsTabsProp
     <div className="space-y-6">
       {/* Welcome Tip */}
       <WelcomeTip id="settings">
-        Configure your workspace: manage projects, invite team members, and update your profile. 
+        Configure your workspace: manage projects, invite team members, set AI budgets, and update your profile. 
         Each project can have its own brand settings, competitors, and tracking configuration.
       </WelcomeTip>
 
@@ -30,6 +34,10 @@ export function SettingsTabs({ user, defaultTab = "projects" }: SettingsTabsProp
       <TabsList>
         <TabsTrigger value="projects">Projects</TabsTrigger>
         <TabsTrigger value="team">Team</TabsTrigger>
+        <TabsTrigger value="usage">Usage</TabsTrigger>
+        <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+        <TabsTrigger value="api-keys">API Keys</TabsTrigger>
+        <TabsTrigger value="branding">Branding</TabsTrigger>
         <TabsTrigger value="profile">Profile</TabsTrigger>
       </TabsList>
 
@@ -41,6 +49,22 @@ export function SettingsTabs({ user, defaultTab = "projects" }: SettingsTabsProp
         <TeamSettings />
       </TabsContent>
 
+      <TabsContent value="usage" className="space-y-4">
+        <UsageSettings />
+      </TabsContent>
+
+      <TabsContent value="webhooks" className="space-y-4">
+        <WebhooksSettings />
+      </TabsContent>
+
+      <TabsContent value="api-keys" className="space-y-4">
+        <ApiKeysSettings />
+      </TabsContent>
+
+      <TabsContent value="branding" className="space-y-4">
+        <BrandingSettings />
+      </TabsContent>
+
       <TabsContent value="profile" className="space-y-4">
         <ProfileSettings user={user} />
       </TabsContent>
@@ -0,0 +1,531 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertTriangle, Trash2, Wallet } from "lucide-react";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { getUserWorkspacesWithProjects } from "@/lib/queries/workspace";
+import {
+  getAIBudgets,
+  getAISpend,
+  saveAIBudget,
+  deleteAIBudget,
+  type AIBudget,
+  type AIBudgetInput,
+  type AISpendRow,
+  type BudgetOnExceed,
+} from "@/lib/actions/budgets";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+
+type Workspace = {
+  id: string;
+  name: string;
+  projects: { id: string; name: string }[];
+};
+
+type BudgetState = "ok" | "warning" | "exceeded";
+
+const SOURCES: { id: AISpendRow["source"]; label: string; color: string }[] = [
+  { id: "tracking", label: "Prompt tracking", color: "#3b82f6" },
+  { id: "brand_analysis", label: "Brand analysis", color: "#10b981" },
+  { id: "sentiment", label: "Sentiment", color: "#f97316" },
+  { id: "other", label: "Other", color: "#6b7280" },
+];
+
+const ON_EXCEED_LABELS: Record<BudgetOnExceed, string> = {
+  degrade: "Degrade (cheapest engine, no web search)",
+  skip: "Skip scheduled runs",
+};
+
+const THRESHOLDS = [0.5, 0.7, 0.8, 0.9, 1];
+
+const DEFAULT_INPUT: AIBudgetInput = {
+  monthly_limit: 50,
+  warning_threshold: 0.8,
+  on_exceed: "degrade",
+};
+
+function formatUSD(value: number) {
+  return `$${value.toFixed(value >= 100 ? 0 : 2)}`;
+}
+
+function getMonthStart() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+function getBudgetState(spent: number, budget: AIBudget | undefined): BudgetState {
+  if (!budget) return "ok";
+  if (spent >= budget.monthly_limit) return "exceeded";
+  if (spent >= budget.monthly_limit * budget.warning_threshold) return "warning";
+  return "ok";
+}
+
+function BudgetStateBadge({ state }: { state: BudgetState }) {
+  if (state === "exceeded") {
+    return <Badge variant="destructive">Exceeded</Badge>;
+  }
+  if (state === "warning") {
+    return (
+      <Badge variant="outline" className="border-amber-500 text-amber-600">
+        Warning
+      </Badge>
+    );
+  }
+  return <Badge variant="secondary">Within budget</Badge>;
+}
+
+interface BudgetFormProps {
+  budget: AIBudget | undefined;
+  isSaving: boolean;
+  onSave: (input: AIBudgetInput) => void;
+  onDelete: () => void;
+}
+
+function BudgetForm({ budget, isSaving, onSave, onDelete }: BudgetFormProps) {
+  const [input, setInput] = useState<AIBudgetInput>(
+    budget
+      ? {
+          monthly_limit: budget.monthly_limit,
+          warning_threshold: budget.warning_threshold,
+          on_exceed: budget.on_exceed,
+        }
+      : DEFAULT_INPUT
+  );
+
+  return (
+    <div className="grid gap-4 md:grid-cols-4 items-end">
+      <div className="space-y-2">
+        <Label>Monthly limit (USD)</Label>
+        <Input
+          type="number"
+          min={0}
+          step="1"
+          value={input.monthly_limit}
+          onChange={(e) => setInput({ ...input, monthly_limit: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Warn at</Label>
+        <Select
+          value={String(input.warning_threshold)}
+          onValueChange={(value) => setInput({ ...input, warning_threshold: Number(value) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {THRESHOLDS.map((t) => (
+              <SelectItem key={t} value={String(t)}>
+                {Math.round(t * 100)}% of limit
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>When exceeded</Label>
+        <Select
+          value={input.on_exceed}
+          onValueChange={(value) => setInput({ ...input, on_exceed: value as BudgetOnExceed })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ON_EXCEED_LABELS) as BudgetOnExceed[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {ON_EXCEED_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={() => onSave(input)} disabled={isSaving}>
+          {budget ? "Update" : "Set budget"}
+        </Button>
+        {budget && (
+          <Button variant="ghost" size="icon" onClick={onDelete} disabled={isSaving}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function UsageSettings() {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [budgets, setBudgets] = useState<AIBudget[]>([]);
+  const [spend, setSpend] = useState<AISpendRow[]>([]);
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reloads after saving keep the current view instead of flashing the loader
+  const loadUsage = async () => {
+    try {
+      const workspaces = (await getUserWorkspacesWithProjects()) as Workspace[];
+      const current = workspaces[0] || null;
+      setWorkspace(current);
+      if (!current) return;
+
+      const [budgetsResult, spendResult] = await Promise.all([
+        getAIBudgets(current.id),
+        getAISpend(current.id, getMonthStart()),
+      ]);
+
+      if (budgetsResult.error) {
+        toast.error("Failed to load budgets", { description: budgetsResult.error });
+      } else {
+        setBudgets(budgetsResult.data || []);
+      }
+
+      if (spendResult.error) {
+        toast.error("Failed to load AI spend", { description: spendResult.error });
+      } else {
+        setSpend(spendResult.data || []);
+      }
+    } catch {
+      toast.error("Failed to load usage");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const handleSave = async (projectId: string | null, input: AIBudgetInput) => {
+    if (!workspace) return;
+
+    setIsSaving(true);
+    const result = await saveAIBudget(workspace.id, projectId, input);
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error("Failed to save budget", { description: result.error });
+      return;
+    }
+
+    toast.success("Budget saved");
+    setEditingProjectId(null);
+    loadUsage();
+  };
+
+  const handleDelete = async (budget: AIBudget) => {
+    setIsSaving(true);
+    const result = await deleteAIBudget(budget.id);
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error("Failed to remove budget", { description: result.error });
+      return;
+    }
+
+    toast.success("Budget removed");
+    setEditingProjectId(null);
+    loadUsage();
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!workspace) {
+    return (
+      <EmptyState
+        icon={Wallet}
+        title="No workspace"
+        description="Create a workspace to track AI spend and budgets."
+      />
+    );
+  }
+
+  const workspaceBudget = budgets.find((b) => !b.project_id);
+  const monthSpend = spend.reduce((sum, row) => sum + row.cost, 0);
+  const monthCalls = spend.reduce((sum, row) => sum + row.calls_count, 0);
+  const workspaceState = getBudgetState(monthSpend, workspaceBudget);
+
+  // Daily spend by source plus the running month-to-date total
+  const days = Array.from(new Set(spend.map((row) => row.spend_date))).sort();
+  const chartData = days.map((day) => {
+    const point: Record<string, number | string> = { date: day.slice(5) };
+    for (const source of SOURCES) {
+      point[source.id] = spend
+        .filter((row) => row.spend_date === day && row.source === source.id)
+        .reduce((sum, row) => sum + row.cost, 0);
+    }
+    point.cumulative = Number(
+      spend.filter((row) => row.spend_date <= day).reduce((sum, row) => sum + row.cost, 0).toFixed(4)
+    );
+    return point;
+  });
+
+  const byPlatform = new Map<string, { calls: number; tokens: number; cost: number }>();
+  for (const row of spend) {
+    const entry = byPlatform.get(row.platform) || { calls: 0, tokens: 0, cost: 0 };
+    entry.calls += row.calls_count;
+    entry.tokens += row.tokens_used;
+    entry.cost += row.cost;
+    byPlatform.set(row.platform, entry);
+  }
+
+  const projectSpend = (projectId: string) =>
+    spend.filter((row) => row.project_id === projectId).reduce((sum, row) => sum + row.cost, 0);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>AI Spend This Month</CardTitle>
+              <CardDescription>
+                Estimated cost of every AI call in {workspace.name}: prompt tracking, brand analysis and sentiment
+              </CardDescription>
+            </div>
+            {workspaceBudget && <BudgetStateBadge state={workspaceState} />}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-baseline gap-2">
+            <span className="text-3xl font-bold">{formatUSD(monthSpend)}</span>
+            {workspaceBudget && (
+              <span className="text-muted-foreground">of {formatUSD(workspaceBudget.monthly_limit)}</span>
+            )}
+            <span className="text-sm text-muted-foreground ml-auto">{monthCalls.toLocaleString()} AI calls</span>
+          </div>
+          {workspaceBudget && (
+            <Progress
+              value={Math.min(100, workspaceBudget.monthly_limit > 0 ? (monthSpend / workspaceBudget.monthly_limit) * 100 : 100)}
+            />
+          )}
+          {workspaceState === "exceeded" && workspaceBudget && (
+            <div className="flex items-center gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {workspaceBudget.on_exceed === "skip"
+                ? "Budget exceeded: scheduled analyses are paused until next month."
+                : "Budget exceeded: scheduled analyses run in degraded mode until next month."}
+            </div>
+          )}
+
+          <div className="h-[260px]">
+            {chartData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} vertical={false} />
+                  <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={11} tickLine={false} axisLine={false} />
+                  <YAxis
+                    yAxisId="daily"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={11}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => `$${value}`}
+                  />
+                  <YAxis
+                    yAxisId="total"
+                    orientation="right"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={11}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => `$${value}`}
+                  />
+                  <Tooltip formatter={(value: number) => formatUSD(value)} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {SOURCES.map((source) => (
+                    <Bar
+                      key={source.id}
+                      yAxisId="daily"
+                      dataKey={source.id}
+                      name={source.label}
+                      stackId="spend"
+                      fill={source.color}
+                    />
+                  ))}
+                  <Line
+                    yAxisId="total"
+                    type="monotone"
+                    dataKey="cumulative"
+                    name="Month to date"
+                    stroke="hsl(var(--foreground))"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  {workspaceBudget && (
+                    <ReferenceLine
+                      yAxisId="total"
+                      y={workspaceBudget.monthly_limit}
+                      stroke="#ef4444"
+                      strokeDasharray="4 4"
+                      label={{ value: "Budget", fontSize: 11, fill: "#ef4444" }}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-muted-foreground">
+                <span>No AI spend recorded this month</span>
+              </div>
+            )}
+          </div>
+
+          {byPlatform.size > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Engine</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Array.from(byPlatform.entries())
+                  .sort((a, b) => b[1].cost - a[1].cost)
+                  .map(([platform, entry]) => (
+                    <TableRow key={platform}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 w-2 rounded-full" style={{ backgroundColor: getPlatformConfig(platform).color }} />
+                          {getPlatformConfig(platform).name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{entry.calls.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{entry.tokens.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatUSD(entry.cost)}</TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace Budget</CardTitle>
+          <CardDescription>
+            Monthly limit for all projects. A warning is logged past the threshold; past the limit, scheduled
+            analyses either run degraded (cheapest engine, one sample, no web search, brand-only sentiment) or are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BudgetForm
+            key={workspaceBudget?.id || "new"}
+            budget={workspaceBudget}
+            isSaving={isSaving}
+            onSave={(input) => handleSave(null, input)}
+            onDelete={() => workspaceBudget && handleDelete(workspaceBudget)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Project Budgets</CardTitle>
+          <CardDescription>
+            Optional per-project limits. The stricter of the project and workspace budget applies.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {workspace.projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No projects in this workspace yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">This month</TableHead>
+                  <TableHead className="text-right">Budget</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[100px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workspace.projects.map((project) => {
+                  const budget = budgets.find((b) => b.project_id === project.id);
+                  const spent = projectSpend(project.id);
+                  return (
+                    <TableRow key={project.id}>
+                      <TableCell className="font-medium">{project.name}</TableCell>
+                      <TableCell className="text-right">{formatUSD(spent)}</TableCell>
+                      <TableCell className="text-right">
+                        {budget ? formatUSD(budget.monthly_limit) : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell>{budget && <BudgetStateBadge state={getBudgetState(spent, budget)} />}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingProjectId(editingProjectId === project.id ? null : project.id)}
+                        >
+                          {budget ? "Edit" : "Set"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {editingProjectId && (
+            <div className="rounded-md border p-4 space-y-3">
+              <p className="text-sm font-medium">
+                {workspace.projects.find((p) => p.id === editingProjectId)?.name}
+              </p>
+              <BudgetForm
+                key={editingProjectId}
+                budget={budgets.find((b) => b.project_id === editingProjectId)}
+                isSaving={isSaving}
+                onSave={(input) => handleSave(editingProjectId, input)}
+                onDelete={() => {
+                  const budget = budgets.find((b) => b.project_id === editingProjectId);
+                  if (budget) handleDelete(budget);
+                }}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,514 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Check, Copy, Eye, EyeOff, Loader2, Pencil, Plus, RefreshCw, Trash2, Webhook } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { EmptyState } from "@/components/dashboard/empty-state";
+import { cn } from "@/lib/utils";
+import { getUserWorkspacesWithProjects } from "@/lib/queries/workspace";
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from "@/lib/constants/webhooks";
+import {
+  getWebhookEndpoints,
+  getWebhookDeliveries,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  toggleWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@/lib/actions/webhooks";
+
+// Select value for "every endpoint" (Select items can't have an empty value)
+const ALL_ENDPOINTS = "all";
+
+type Workspace = {
+  id: string;
+  name: string;
+};
+
+type PendingAction = { type: "delete" | "rotate"; endpoint: WebhookEndpoint };
+
+function SecretField({ secret }: { secret: string }) {
+  const [isVisible, setIsVisible] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const copySecret = () => {
+    navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <code className="rounded bg-muted px-2 py-1 text-xs">
+        {isVisible ? secret : `${secret.slice(0, 6)}${"•".repeat(16)}`}
+      </code>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsVisible(!isVisible)}>
+        {isVisible ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={copySecret}>
+        {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </Button>
+    </div>
+  );
+}
+
+export function WebhooksSettings() {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveryFilter, setDeliveryFilter] = useState(ALL_ENDPOINTS);
+  const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadDeliveries = async (workspaceId: string, endpointFilter: string) => {
+    const result = await getWebhookDeliveries(
+      workspaceId,
+      endpointFilter === ALL_ENDPOINTS ? undefined : endpointFilter
+    );
+    if (result.error) {
+      toast.error("Failed to load deliveries", { description: result.error });
+      return;
+    }
+    setDeliveries(result.data || []);
+  };
+
+  // Reloads after saving keep the current view instead of flashing the loader
+  const loadWebhooks = async () => {
+    try {
+      const workspaces = (await getUserWorkspacesWithProjects()) as Workspace[];
+      const current = workspaces[0] || null;
+      setWorkspace(current);
+      if (!current) return;
+
+      const endpointsResult = await getWebhookEndpoints(current.id);
+      if (endpointsResult.error) {
+        toast.error("Failed to load webhooks", { description: endpointsResult.error });
+      } else {
+        setEndpoints(endpointsResult.data || []);
+      }
+
+      await loadDeliveries(current.id, deliveryFilter);
+    } catch {
+      toast.error("Failed to load webhooks");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWebhooks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleFilterChange = (value: string) => {
+    setDeliveryFilter(value);
+    if (workspace) loadDeliveries(workspace.id, value);
+  };
+
+  const openDialog = (endpoint: WebhookEndpoint | null) => {
+    setEditingEndpoint(endpoint);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = () => {
+    setIsDialogOpen(false);
+    loadWebhooks();
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    const result = await toggleWebhookEndpoint(endpoint.id, isActive);
+    if (result.error) {
+      toast.error("Failed to update webhook", { description: result.error });
+      return;
+    }
+    loadWebhooks();
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    const { type, endpoint } = pendingAction;
+    setPendingAction(null);
+
+    if (type === "rotate") {
+      const result = await rotateWebhookSecret(endpoint.id);
+      if (result.error) {
+        toast.error("Failed to rotate secret", { description: result.error });
+        return;
+      }
+      toast.success("Signing secret rotated", { description: "Update the secret on your receiver." });
+    } else {
+      const result = await deleteWebhookEndpoint(endpoint.id);
+      if (result.error) {
+        toast.error("Failed to delete webhook", { description: result.error });
+        return;
+      }
+      toast.success("Webhook deleted");
+      if (deliveryFilter === endpoint.id) setDeliveryFilter(ALL_ENDPOINTS);
+    }
+
+    loadWebhooks();
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!workspace) {
+    return (
+      <EmptyState
+        icon={Webhook}
+        title="No workspace"
+        description="Create a workspace to send events to your own tools."
+      />
+    );
+  }
+
+  const endpointUrl = (endpointId: string) => endpoints.find((e) => e.id === endpointId)?.url || "Deleted endpoint";
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Webhooks</CardTitle>
+              <CardDescription>
+                POST pipeline and metric events of every project in {workspace.name} to your own endpoints.
+                Only workspace admins can manage webhooks.
+              </CardDescription>
+            </div>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Endpoint
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {endpoints.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No endpoints yet. Add one to be notified when analyses finish, your brand is mentioned or alerts fire.
+            </p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {endpoints.map((endpoint) => (
+                <div key={endpoint.id} className="flex items-start gap-4 p-3">
+                  <Switch
+                    className="mt-1"
+                    checked={endpoint.is_active}
+                    onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div>
+                      <div className="font-medium truncate">{endpoint.url}</div>
+                      {endpoint.description && (
+                        <div className="text-sm text-muted-foreground truncate">{endpoint.description}</div>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="secondary" className="font-mono text-xs">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                    <SecretField secret={endpoint.secret} />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Rotate signing secret"
+                    onClick={() => setPendingAction({ type: "rotate", endpoint })}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(endpoint)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setPendingAction({ type: "delete", endpoint })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="rounded-md bg-muted/50 p-3 text-sm text-muted-foreground">
+            Each request carries <code>X-Webhook-Timestamp</code> and{" "}
+            <code>X-Webhook-Signature: sha256=&lt;hex&gt;</code>, the HMAC-SHA256 of{" "}
+            <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> with the endpoint secret. Answer with a 2xx status; other
+            answers and timeouts are retried up to 5 times with backoff.
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Recent Deliveries</CardTitle>
+              <CardDescription>The last 100 events sent, with their attempts and last response</CardDescription>
+            </div>
+            <Select value={deliveryFilter} onValueChange={handleFilterChange}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ENDPOINTS}>All endpoints</SelectItem>
+                {endpoints.map((endpoint) => (
+                  <SelectItem key={endpoint.id} value={endpoint.id}>
+                    {endpoint.url}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Last response</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => {
+                  const status = WEBHOOK_DELIVERY_STATUSES[delivery.status];
+                  return (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {format(new Date(delivery.created_at), "MMM d, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell title={WEBHOOK_EVENTS[delivery.event_type]?.name}>
+                        <span className="font-mono text-xs">{delivery.event_type}</span>
+                      </TableCell>
+                      <TableCell className="max-w-[220px] truncate">{endpointUrl(delivery.endpoint_id)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn("border-0", status.badgeClass)}>
+                          {status.name}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{delivery.attempt_count}</TableCell>
+                      <TableCell
+                        className="max-w-[260px] truncate text-muted-foreground"
+                        title={delivery.response_body || delivery.error || undefined}
+                      >
+                        {delivery.response_status ? `${delivery.response_status} ` : ""}
+                        {delivery.error || ""}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          {/* Mounted on open so the form starts from the endpoint being edited */}
+          {isDialogOpen && (
+            <WebhookEndpointForm
+              workspaceId={workspace.id}
+              endpoint={editingEndpoint}
+              onClose={() => setIsDialogOpen(false)}
+              onSaved={handleSaved}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "rotate" ? "Rotate signing secret?" : "Delete webhook?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "rotate"
+                ? "The current secret stops working immediately. Deliveries are signed with the new one, so update your receiver right away."
+                : `${pendingAction?.endpoint.url} will stop receiving events and its delivery log is deleted.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {pendingAction?.type === "rotate" ? "Rotate" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface WebhookEndpointFormProps {
+  workspaceId: string;
+  endpoint: WebhookEndpoint | null; // null creates a new endpoint
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function WebhookEndpointForm({ workspaceId, endpoint, onClose, onSaved }: WebhookEndpointFormProps) {
+  const [url, setUrl] = useState(endpoint?.url || "");
+  const [description, setDescription] = useState(endpoint?.description || "");
+  const [events, setEvents] = useState<WebhookEventType[]>(endpoint?.events || WEBHOOK_EVENT_TYPES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(checked ? [...events, event] : events.filter((e) => e !== event));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = {
+      url,
+      description,
+      events,
+      is_active: endpoint?.is_active ?? true,
+    };
+
+    setIsSaving(true);
+    const result = endpoint
+      ? await updateWebhookEndpoint(endpoint.id, input)
+      : await createWebhookEndpoint(workspaceId, input);
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error("Failed to save webhook", { description: result.error });
+      return;
+    }
+
+    toast.success(endpoint ? "Webhook updated" : "Webhook created", {
+      description: endpoint ? undefined : "Copy its signing secret to verify deliveries.",
+    });
+    onSaved();
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>{endpoint ? "Edit Webhook" : "New Webhook"}</DialogTitle>
+        <DialogDescription>
+          Events of every project in the workspace are sent as JSON POST requests signed with a secret
+          generated for this endpoint.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid gap-2">
+          <Label htmlFor="webhook-url">Endpoint URL</Label>
+          <Input
+            id="webhook-url"
+            placeholder="https://example.com/webhooks/geo"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="webhook-description">Description</Label>
+          <Input
+            id="webhook-description"
+            placeholder="Optional"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Events</Label>
+          <div className="space-y-3 rounded-md border p-3">
+            {WEBHOOK_EVENT_TYPES.map((event) => (
+              <div key={event} className="flex items-start gap-3">
+                <Checkbox
+                  id={`webhook-event-${event}`}
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                />
+                <div className="grid gap-0.5">
+                  <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                    {WEBHOOK_EVENTS[event].name} <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                  </Label>
+                  <p className="text-xs text-muted-foreground">{WEBHOOK_EVENTS[event].description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || events.length === 0}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {endpoint ? "Save" : "Create"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,377 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Check, Copy, Eye, Loader2, Lock, Share2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_SHARE_LINK_EXPIRY_DAYS,
+  MIN_SHARE_LINK_PASSWORD_LENGTH,
+  SHARE_LINK_EXPIRY_OPTIONS,
+  SHARE_LINK_STATUSES,
+  SHARE_VIEWS,
+  getShareLinkStatus,
+} from "@/lib/constants/share-links";
+import {
+  createShareLink,
+  getShareLinkAccesses,
+  getShareLinks,
+  revokeShareLink,
+  type ShareLink,
+  type ShareLinkAccess,
+  type ShareLinkTarget,
+} from "@/lib/actions/share-links";
+
+interface ShareLinkDialogProps {
+  projectId: string | null;
+  target: ShareLinkTarget | null; // null while the resource isn't loaded
+  defaultName: string;
+}
+
+function describeLink(link: ShareLink) {
+  if (link.resource_type === "report" || !link.view || !("from" in link.filters)) {
+    return "Saved report";
+  }
+  const range = `${format(new Date(`${link.filters.from}T00:00:00`), "MMM d")} - ${format(
+    new Date(`${link.filters.to}T00:00:00`),
+    "MMM d, yyyy"
+  )}`;
+  return `${SHARE_VIEWS[link.view].name} · ${range}`;
+}
+
+/**
+ * Share button opening the public links of a report or dashboard view
+ */
+export function ShareLinkDialog({ projectId, target, defaultName }: ShareLinkDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        disabled={!projectId || !target}
+        className="gap-2"
+        title="Share"
+      >
+        <Share2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+          {/* Mounted on open so the form and the revealed link start empty */}
+          {isOpen && projectId && target && (
+            <ShareLinkManager projectId={projectId} target={target} defaultName={defaultName} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface ShareLinkManagerProps {
+  projectId: string;
+  target: ShareLinkTarget;
+  defaultName: string;
+}
+
+function ShareLinkManager({ projectId, target, defaultName }: ShareLinkManagerProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState(defaultName);
+  const [expiresInDays, setExpiresInDays] = useState(String(DEFAULT_SHARE_LINK_EXPIRY_DAYS));
+  const [password, setPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [linkToRevoke, setLinkToRevoke] = useState<ShareLink | null>(null);
+  const [activityLinkId, setActivityLinkId] = useState<string | null>(null);
+  const [accesses, setAccesses] = useState<ShareLinkAccess[]>([]);
+
+  const loadLinks = async () => {
+    try {
+      const result = await getShareLinks(
+        projectId,
+        target.resource_type === "report" ? { report_id: target.report_id } : { view: target.view }
+      );
+      if (result.error) {
+        toast.error("Failed to load share links", { description: result.error });
+        return;
+      }
+      setLinks(result.data || []);
+    } catch {
+      toast.error("Failed to load share links");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLinks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    const result = await createShareLink(projectId, target, {
+      name,
+      expires_in_days: Number(expiresInDays),
+      password: password || null,
+    });
+    setIsSaving(false);
+
+    if (result.error || !result.data) {
+      toast.error("Failed to create share link", { description: result.error || undefined });
+      return;
+    }
+
+    setCreatedUrl(`${window.location.origin}/share/${result.data.token}`);
+    setPassword("");
+    loadLinks();
+  };
+
+  const copyUrl = async () => {
+    if (!createdUrl) return;
+    await navigator.clipboard.writeText(createdUrl);
+    setCopied(true);
+    toast.success("Link copied to clipboard");
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const toggleActivity = async (link: ShareLink) => {
+    if (activityLinkId === link.id) {
+      setActivityLinkId(null);
+      return;
+    }
+
+    const result = await getShareLinkAccesses(link.id);
+    if (result.error) {
+      toast.error("Failed to load activity", { description: result.error });
+      return;
+    }
+    setAccesses(result.data || []);
+    setActivityLinkId(link.id);
+  };
+
+  const handleRevoke = async () => {
+    if (!linkToRevoke) return;
+    const link = linkToRevoke;
+    setLinkToRevoke(null);
+
+    const result = await revokeShareLink(link.id);
+    if (result.error) {
+      toast.error("Failed to revoke link", { description: result.error });
+      return;
+    }
+
+    toast.success("Link revoked");
+    loadLinks();
+  };
+
+  return (
+    <div className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>Share</DialogTitle>
+        <DialogDescription>
+          {target.resource_type === "report"
+            ? "Anyone with the link can read this report without signing in, until it expires or is revoked."
+            : "Anyone with the link can read this view, with the current filters, without signing in."}
+        </DialogDescription>
+      </DialogHeader>
+
+      {createdUrl ? (
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-sm font-medium">Link created</p>
+          <p className="text-xs text-muted-foreground">
+            Copy it now. Only its hash is stored, so it can&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded bg-muted px-3 py-2 text-xs">{createdUrl}</code>
+            <Button variant="outline" size="icon" onClick={copyUrl}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setCreatedUrl(null)}>
+            Create another link
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleCreate} className="grid gap-4 rounded-md border p-3">
+          <div className="grid gap-2">
+            <Label htmlFor="share-link-name">Name</Label>
+            <Input
+              id="share-link-name"
+              placeholder="Q3 review for Acme"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.days} value={String(option.days)}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="share-link-password">Password (optional)</Label>
+              <Input
+                id="share-link-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder={`At least ${MIN_SHARE_LINK_PASSWORD_LENGTH} characters`}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create link
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <Separator />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Links</p>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No links yet.</p>
+        ) : (
+          links.map((link) => {
+            const status = SHARE_LINK_STATUSES[getShareLinkStatus(link)];
+            return (
+              <div key={link.id} className="rounded-md border p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{link.name}</span>
+                      <Badge variant="outline" className={cn("border-0", status.badgeClass)}>
+                        {status.name}
+                      </Badge>
+                      {link.has_password && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Lock className="h-3 w-3" />
+                          Password
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      <code>{link.token_prefix}…</code> · {describeLink(link)} · expires{" "}
+                      {format(new Date(link.expires_at), "MMM d, yyyy")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Opened {link.access_count} {link.access_count === 1 ? "time" : "times"}
+                      {link.last_accessed_at &&
+                        `, last on ${format(new Date(link.last_accessed_at), "MMM d, HH:mm")}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => toggleActivity(link)} title="Activity">
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    {!link.revoked_at && (
+                      <Button variant="ghost" size="sm" onClick={() => setLinkToRevoke(link)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {activityLinkId === link.id && (
+                  <div className="mt-3 space-y-1 border-t pt-2">
+                    {accesses.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Nobody has opened this link yet.</p>
+                    ) : (
+                      accesses.map((access) => (
+                        <div key={access.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className={access.outcome === "password_failed" ? "text-destructive" : undefined}>
+                            {access.outcome === "viewed" ? "Opened" : "Wrong password"}
+                          </span>
+                          <span className="truncate text-muted-foreground" title={access.user_agent || undefined}>
+                            {access.referrer || "Direct"}
+                          </span>
+                          <span className="whitespace-nowrap text-muted-foreground">
+                            {format(new Date(access.accessed_at), "MMM d, HH:mm")}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <AlertDialog open={!!linkToRevoke} onOpenChange={(open) => !open && setLinkToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke share link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {linkToRevoke?.name} ({linkToRevoke?.token_prefix}…) stops opening immediately. This can&apos;t be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
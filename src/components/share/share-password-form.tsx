@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { unlockShareLink } from "@/lib/actions/share-links";
+
+export function SharePasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsChecking(true);
+    setError(null);
+    const result = await unlockShareLink(token, password);
+
+    if (result.error) {
+      setError(result.error);
+      setIsChecking(false);
+      return;
+    }
+
+    // The unlock cookie is set; render the shared page server-side
+    router.refresh();
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <Lock className="mx-auto h-10 w-10 text-muted-foreground" />
+        <CardTitle className="mt-4">Password required</CardTitle>
+        <CardDescription>Enter the password you were given to open this page.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+          <Input
+            type="password"
+            autoComplete="current-password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <Button type="submit" className="w-full" disabled={isChecking || !password}>
+            {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Open
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DEFAULT_BRAND_COLORS } from "@/lib/constants/branding";
+import { getPlatformConfig } from "@/lib/constants/platforms";
+import { SHARE_VIEWS } from "@/lib/constants/share-links";
+import type { SharedDashboardView as SharedDashboardViewData } from "@/lib/share/public";
+
+// Competitor colors; the brand uses the workspace's primary color
+const COLORS = ["#f43f5e", "#f59e0b", "#10b981", "#8b5cf6", "#06b6d4"];
+
+const MAX_CHART_COMPETITORS = 5;
+
+const VALUE_UNITS = {
+  visibility: { label: "Mentions", suffix: "" },
+  share_of_voice: { label: "Share of voice", suffix: "%" },
+  sentiment: { label: "Sentiment score", suffix: "/100" },
+} as const;
+
+function formatFilters({ filters, topicName }: SharedDashboardViewData) {
+  const from = new Date(`${filters.from}T00:00:00`);
+  const to = new Date(`${filters.to}T00:00:00`);
+  return [
+    `${format(from, "MMM dd, yyyy")} - ${format(to, "MMM dd, yyyy")}`,
+    filters.platform ? getPlatformConfig(filters.platform).name : "All platforms",
+    filters.region || "Global",
+    topicName || "All topics",
+  ].join(" · ");
+}
+
+/**
+ * Read-only dashboard view opened from a public share link
+ */
+export function SharedDashboardView({ data }: { data: SharedDashboardViewData }) {
+  const view = SHARE_VIEWS[data.view];
+  const unit = VALUE_UNITS[data.view];
+  const primaryColor = data.branding?.primary_color || DEFAULT_BRAND_COLORS.primary;
+  const brand = data.entities.find((entity) => entity.isBrand);
+  const chartEntities = [
+    ...(brand ? [brand] : []),
+    ...data.entities.filter((entity) => !entity.isBrand).slice(0, MAX_CHART_COMPETITORS),
+  ];
+  const colorOf = (index: number) => (chartEntities[index].isBrand ? primaryColor : COLORS[index % COLORS.length]);
+  const formatValue = (value: number | null) => (value === null ? "—" : `${value.toLocaleString()}${unit.suffix}`);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-t-4" style={{ borderTopColor: primaryColor }}>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl">
+                {data.brandName} · {view.name}
+              </CardTitle>
+              <CardDescription>{formatFilters(data)}</CardDescription>
+            </div>
+            {data.branding?.logo_url && (
+              // Logos are hosted anywhere, so next/image's remotePatterns can't list them
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={data.branding.logo_url} alt="" className="h-10 w-auto max-w-[180px] object-contain" />
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">{unit.label}</p>
+          <p className="text-3xl font-bold" style={{ color: primaryColor }}>
+            {formatValue(brand?.value ?? null)}
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">{view.description}</p>
+        </CardContent>
+      </Card>
+
+      {data.series.length === 0 ? (
+        <Card className="p-8 text-center text-sm text-muted-foreground">No data for this period.</Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{unit.label} over time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data.series} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                    <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={11} tickLine={false} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" fontSize={11} tickLine={false} axisLine={false} />
+                    <Tooltip />
+                    {chartEntities.map((entity, index) => (
+                      <Line
+                        key={entity.id}
+                        type="monotone"
+                        dataKey={entity.id}
+                        name={entity.name}
+                        stroke={colorOf(index)}
+                        strokeWidth={entity.isBrand ? 3 : 2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Ranking</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Brand</TableHead>
+                    <TableHead className="text-right">{unit.label}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...data.entities]
+                    .sort((a, b) => (b.value ?? -1) - (a.value ?? -1))
+                    .map((entity, index) => (
+                      <TableRow key={entity.id} className={entity.isBrand ? "font-semibold" : undefined}>
+                        <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                        <TableCell>{entity.name}</TableCell>
+                        <TableCell className="text-right">{formatValue(entity.value)}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {data.branding?.footer_text && (
+        <p className="text-center text-xs text-muted-foreground">{data.branding.footer_text}</p>
+      )}
+    </div>
+  );
+}
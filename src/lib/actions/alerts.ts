@@ -0,0 +1,399 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import {
+  isAlertMetric,
+  isAlertRuleType,
+  type AlertMetric,
+  type AlertRuleType,
+  type AlertSeverity,
+} from "@/lib/constants/alerts";
+
+export type AlertRule = {
+  id: string;
+  project_id: string;
+  name: string;
+  rule_type: AlertRuleType;
+  metric: AlertMetric;
+  threshold: number | null;
+  platform: string | null;
+  topic_id: string | null;
+  competitor_id: string | null;
+  sentiment_topic: string | null;
+  email_recipients: string[];
+  is_active: boolean;
+  created_at: string;
+};
+
+export type AlertRuleInput = {
+  name: string;
+  rule_type: AlertRuleType;
+  metric?: AlertMetric;
+  threshold?: number | null;
+  platform?: string | null;
+  topic_id?: string | null;
+  competitor_id?: string | null;
+  sentiment_topic?: string | null;
+  email_recipients?: string[];
+  is_active?: boolean;
+};
+
+export type AlertStatus = "open" | "acknowledged";
+
+export type Alert = {
+  id: string;
+  rule_id: string | null;
+  rule_type: AlertRuleType;
+  stat_date: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  status: AlertStatus;
+  acknowledged_at: string | null;
+  snoozed_until: string | null;
+  delivery: Record<string, "sent" | "skipped" | "failed">;
+  created_at: string;
+  rule_name: string | null; // null when the rule was deleted
+};
+
+const RULE_COLUMNS =
+  "id, project_id, name, rule_type, metric, threshold, platform, topic_id, competitor_id, sentiment_topic, email_recipients, is_active, created_at";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Longest snooze offered in the dashboard
+const MAX_SNOOZE_DAYS = 30;
+
+/**
+ * Validate a rule and keep only the fields its type uses
+ */
+function buildRuleRecord(input: AlertRuleInput): { error: string | null; record: Record<string, unknown> | null } {
+  const name = input.name.trim();
+  if (!name) {
+    return { error: "Name is required", record: null };
+  }
+
+  if (!isAlertRuleType(input.rule_type)) {
+    return { error: "Invalid alert type", record: null };
+  }
+
+  const metric = input.metric || "mentions";
+  if (!isAlertMetric(metric)) {
+    return { error: "Invalid metric", record: null };
+  }
+
+  const threshold = input.threshold ?? null;
+  if (input.rule_type === "share_below" || input.rule_type === "metric_drop") {
+    if (threshold === null || !(threshold > 0 && threshold <= 100)) {
+      return { error: "Threshold must be a percentage between 0 and 100", record: null };
+    }
+  } else if (input.rule_type === "negative_sentiment" && threshold !== null && !(threshold >= -1 && threshold <= 1)) {
+    return { error: "Sentiment threshold must be between -1 and 1", record: null };
+  }
+
+  const emailRecipients = (input.email_recipients || []).map((email) => email.trim().toLowerCase()).filter(Boolean);
+  const invalidEmail = emailRecipients.find((email) => !EMAIL_PATTERN.test(email));
+  if (invalidEmail) {
+    return { error: `Invalid email address: ${invalidEmail}`, record: null };
+  }
+
+  const usesStats = ["share_below", "metric_drop", "competitor_overtake"].includes(input.rule_type);
+
+  return {
+    error: null,
+    record: {
+      name,
+      rule_type: input.rule_type,
+      metric: input.rule_type === "metric_drop" ? metric : "mentions",
+      threshold: input.rule_type === "competitor_overtake" || input.rule_type === "new_competitor" ? null : threshold,
+      platform: usesStats ? input.platform || null : null,
+      topic_id: usesStats ? input.topic_id || null : null,
+      competitor_id: input.rule_type === "competitor_overtake" ? input.competitor_id || null : null,
+      sentiment_topic: input.rule_type === "negative_sentiment" ? input.sentiment_topic || null : null,
+      email_recipients: Array.from(new Set(emailRecipients)),
+      is_active: input.is_active ?? true,
+    },
+  };
+}
+
+/**
+ * Get the project's alert rules
+ */
+export async function getAlertRules(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .select(RULE_COLUMNS)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as AlertRule[] };
+}
+
+/**
+ * Create an alert rule
+ * Only project admins can manage rules (RLS), since they send email
+ */
+export async function createAlertRule(projectId: string, input: AlertRuleInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { error: validationError, record } = buildRuleRecord(input);
+  if (validationError || !record) {
+    return { error: validationError, data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .insert({ ...record, project_id: projectId, created_by: user.id })
+    .select(RULE_COLUMNS)
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: "Only project admins can manage alert rules", data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/alerts");
+  return { error: null, data: data as AlertRule };
+}
+
+/**
+ * Update an alert rule
+ */
+export async function updateAlertRule(ruleId: string, input: AlertRuleInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { error: validationError, record } = buildRuleRecord(input);
+  if (validationError || !record) {
+    return { error: validationError, data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .update(record)
+    .eq("id", ruleId)
+    .select(RULE_COLUMNS);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: "Only project admins can manage alert rules", data: null };
+  }
+
+  revalidatePath("/dashboard/alerts");
+  return { error: null, data: data[0] as AlertRule };
+}
+
+/**
+ * Pause or resume an alert rule
+ */
+export async function toggleAlertRule(ruleId: string, isActive: boolean) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .update({ is_active: isActive })
+    .eq("id", ruleId)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: "Only project admins can manage alert rules", success: false };
+  }
+
+  revalidatePath("/dashboard/alerts");
+  return { error: null, success: true };
+}
+
+/**
+ * Delete an alert rule; its alerts stay in the history
+ */
+export async function deleteAlertRule(ruleId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .delete()
+    .eq("id", ruleId)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: "Only project admins can manage alert rules", success: false };
+  }
+
+  revalidatePath("/dashboard/alerts");
+  return { error: null, success: true };
+}
+
+/**
+ * Get the project's alerts, newest first
+ * Without includeHistory only open alerts that aren't snoozed are returned
+ */
+export async function getAlerts(projectId: string, includeHistory = false) {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from("alerts")
+    .select(`
+      id,
+      rule_id,
+      rule_type,
+      stat_date,
+      severity,
+      title,
+      message,
+      data,
+      status,
+      acknowledged_at,
+      snoozed_until,
+      delivery,
+      created_at,
+      alert_rules (
+        name
+      )
+    `)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  if (!includeHistory) {
+    query = query
+      .eq("status", "open")
+      .or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  type AlertRow = Omit<Alert, "rule_name"> & { alert_rules: { name: string } | null };
+  const alerts: Alert[] = ((data || []) as unknown as AlertRow[]).map(({ alert_rules, ...alert }) => ({
+    ...alert,
+    rule_name: alert_rules?.name ?? null,
+  }));
+
+  return { error: null, data: alerts };
+}
+
+/**
+ * Number of open alerts that aren't snoozed, for the sidebar badge
+ */
+export async function getOpenAlertCount(projectId: string) {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from("alerts")
+    .select("id", { count: "exact", head: true })
+    .eq("project_id", projectId)
+    .eq("status", "open")
+    .or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`);
+
+  if (error) {
+    return { error: error.message, data: 0 };
+  }
+
+  return { error: null, data: count || 0 };
+}
+
+/**
+ * Acknowledge alerts
+ */
+export async function acknowledgeAlerts(alertIds: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  if (alertIds.length === 0) {
+    return { error: null, success: true };
+  }
+
+  const { error } = await supabase
+    .from("alerts")
+    .update({
+      status: "acknowledged",
+      acknowledged_at: new Date().toISOString(),
+      acknowledged_by: user.id,
+    })
+    .in("id", alertIds)
+    .eq("status", "open");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/alerts");
+  return { error: null, success: true };
+}
+
+/**
+ * Snooze an alert: it leaves the inbox, and its rule doesn't fire again for the
+ * same subject (platform, competitor, topic) until the snooze ends
+ */
+export async function snoozeAlert(alertId: string, days: number) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SNOOZE_DAYS) {
+    return { error: `Snooze between 1 and ${MAX_SNOOZE_DAYS} days`, success: false };
+  }
+
+  const snoozedUntil = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { error } = await supabase
+    .from("alerts")
+    .update({ snoozed_until: snoozedUntil })
+    .eq("id", alertId);
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/alerts");
+  return { error: null, success: true };
+}
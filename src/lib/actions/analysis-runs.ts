@@ -0,0 +1,188 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type AnalysisRunStatus = "running" | "completed" | "completed_with_errors" | "failed";
+
+export type AnalysisRunTrigger = "scheduled" | "manual" | "replay";
+
+export interface AnalysisRunPlatform {
+  platform: string;
+  queued: number; // Prompts queued for this platform
+  completed: number; // Prompts with at least one successful sample
+  failed: number; // Prompts whose samples all failed
+  processing: number; // Samples still in flight
+  tokens_used: number;
+  cost: number;
+}
+
+export interface AnalysisRun {
+  id: string;
+  batch_id: string;
+  trigger: AnalysisRunTrigger;
+  status: AnalysisRunStatus;
+  prompts_queued: number;
+  prompts_completed: number;
+  prompts_failed: number;
+  started_at: string;
+  completed_at: string | null;
+  platforms: AnalysisRunPlatform[];
+  tokens_used: number;
+  cost: number;
+}
+
+export interface AnalysisRunResponse {
+  id: string;
+  prompt_text: string;
+  platform: string;
+  model_version: string;
+  status: string;
+  sample_index: number | null;
+  tokens_used: number | null;
+  cost: number | null;
+  execution_time_ms: number | null;
+  error_message: string | null;
+  created_at: string;
+}
+
+type AnalysisRunRow = Omit<AnalysisRun, "platforms" | "tokens_used" | "cost"> & {
+  platform_counts: Record<string, number> | null;
+};
+
+type PlatformStatsRow = {
+  run_id: string;
+  platform: string;
+  prompts_succeeded: number;
+  prompts_failed: number;
+  responses_processing: number;
+  tokens_used: number;
+  cost: number;
+};
+
+const RUN_COLUMNS =
+  "id, batch_id, trigger, status, prompts_queued, prompts_completed, prompts_failed, platform_counts, started_at, completed_at";
+
+function buildRun(row: AnalysisRunRow, stats: PlatformStatsRow[]): AnalysisRun {
+  const { platform_counts, ...run } = row;
+  const counts = platform_counts || {};
+  const platformIds = Array.from(new Set([...Object.keys(counts), ...stats.map((s) => s.platform)]));
+
+  const platforms = platformIds.map((platform) => {
+    const stat = stats.find((s) => s.platform === platform);
+    const completed = Number(stat?.prompts_succeeded || 0);
+    const failed = Number(stat?.prompts_failed || 0);
+    return {
+      platform,
+      // Manual batches don't know their platforms up front; fall back to what has been seen
+      queued: Math.max(counts[platform] || 0, completed + failed),
+      completed,
+      failed,
+      processing: Number(stat?.responses_processing || 0),
+      tokens_used: Number(stat?.tokens_used || 0),
+      cost: Number(stat?.cost || 0),
+    };
+  });
+
+  return {
+    ...run,
+    platforms: platforms.sort((a, b) => a.platform.localeCompare(b.platform)),
+    tokens_used: platforms.reduce((sum, p) => sum + p.tokens_used, 0),
+    cost: platforms.reduce((sum, p) => sum + p.cost, 0),
+  };
+}
+
+async function getPlatformStats(runIds: string[]) {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("get_analysis_run_platform_stats", {
+    p_run_ids: runIds,
+  });
+
+  return { error, data: (data || []) as PlatformStatsRow[] };
+}
+
+// =============================================
+// QUERIES
+// =============================================
+
+/**
+ * Get the latest analysis runs for a project with per-platform progress
+ */
+export async function getAnalysisRuns(projectId: string, limit = 30) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("analysis_runs")
+    .select(RUN_COLUMNS)
+    .eq("project_id", projectId)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const rows = (data || []) as AnalysisRunRow[];
+  if (rows.length === 0) {
+    return { error: null, data: [] as AnalysisRun[] };
+  }
+
+  const stats = await getPlatformStats(rows.map((r) => r.id));
+  if (stats.error) {
+    return { error: stats.error.message, data: null };
+  }
+
+  return {
+    error: null,
+    data: rows.map((row) => buildRun(row, stats.data.filter((s) => s.run_id === row.id))),
+  };
+}
+
+/**
+ * Get a single analysis run with per-platform progress
+ */
+export async function getAnalysisRun(runId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("analysis_runs")
+    .select(RUN_COLUMNS)
+    .eq("id", runId)
+    .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const stats = await getPlatformStats([runId]);
+  if (stats.error) {
+    return { error: stats.error.message, data: null };
+  }
+
+  return { error: null, data: buildRun(data as AnalysisRunRow, stats.data) };
+}
+
+/**
+ * Get the responses produced by a run (drill-down)
+ */
+export async function getAnalysisRunResponses(runId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("ai_responses")
+    .select(
+      "id, prompt_text, platform, model_version, status, sample_index, tokens_used, cost, execution_time_ms, error_message, created_at"
+    )
+    .eq("run_id", runId)
+    .order("created_at", { ascending: true })
+    .limit(1000);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as AnalysisRunResponse[] };
+}
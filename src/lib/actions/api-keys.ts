@@ -0,0 +1,144 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { generateApiKey } from "@/lib/api/auth";
+import { isApiKeyScope, MAX_API_KEY_RATE_LIMIT, type ApiKeyScope } from "@/lib/constants/api-keys";
+
+export type ApiKey = {
+  id: string;
+  workspace_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+export type ApiKeyInput = {
+  name: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  expires_at?: string | null;
+};
+
+const API_KEY_COLUMNS =
+  "id, workspace_id, name, key_prefix, scopes, rate_limit_per_minute, last_used_at, expires_at, revoked_at, created_at";
+
+const ADMIN_ONLY_ERROR = "Only workspace admins can manage API keys";
+
+/**
+ * Get the workspace's API keys, newest first (admins only)
+ */
+export async function getApiKeys(workspaceId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as ApiKey[] };
+}
+
+/**
+ * Create an API key; the plain key is only returned here, the database keeps its hash
+ */
+export async function createApiKey(workspaceId: string, input: ApiKeyInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const name = input.name.trim();
+  if (!name) {
+    return { error: "Name is required", data: null };
+  }
+
+  const scopes = Array.from(new Set(input.scopes));
+  if (scopes.length === 0) {
+    return { error: "Select at least one scope", data: null };
+  }
+
+  const invalidScope = scopes.find((scope) => !isApiKeyScope(scope));
+  if (invalidScope) {
+    return { error: `Unknown scope: ${invalidScope}`, data: null };
+  }
+
+  if (
+    !Number.isInteger(input.rate_limit_per_minute) ||
+    input.rate_limit_per_minute < 1 ||
+    input.rate_limit_per_minute > MAX_API_KEY_RATE_LIMIT
+  ) {
+    return { error: `Rate limit must be between 1 and ${MAX_API_KEY_RATE_LIMIT} requests per minute`, data: null };
+  }
+
+  if (input.expires_at && new Date(input.expires_at) <= new Date()) {
+    return { error: "Expiration date must be in the future", data: null };
+  }
+
+  const { key, keyPrefix, keyHash } = generateApiKey();
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      workspace_id: workspaceId,
+      name,
+      key_prefix: keyPrefix,
+      key_hash: keyHash,
+      scopes,
+      rate_limit_per_minute: input.rate_limit_per_minute,
+      expires_at: input.expires_at || null,
+      created_by: user.id,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: ADMIN_ONLY_ERROR, data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, data: { apiKey: data as ApiKey, key } };
+}
+
+/**
+ * Revoke an API key; requests made with it are rejected immediately
+ */
+export async function revokeApiKey(keyId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", keyId)
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: ADMIN_ONLY_ERROR, success: false };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, success: true };
+}
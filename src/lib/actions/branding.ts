@@ -0,0 +1,167 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { HEX_COLOR_PATTERN, isReportMetric, type ReportMetric } from "@/lib/constants/branding";
+import { isPlatformId } from "@/lib/constants/platforms";
+import { getUnsafeUrlReason } from "@/lib/outbound-urls";
+
+export type WorkspaceBranding = {
+  workspace_id: string;
+  logo_url: string | null;
+  primary_color: string | null;
+  secondary_color: string | null;
+  cover_title: string | null;
+  cover_subtitle: string | null;
+  footer_text: string | null;
+  sender_name: string | null;
+  hidden_platforms: string[];
+  hidden_metrics: ReportMetric[];
+  updated_at: string | null;
+};
+
+export type WorkspaceBrandingInput = Omit<WorkspaceBranding, "workspace_id" | "updated_at">;
+
+const BRANDING_COLUMNS =
+  "workspace_id, logo_url, primary_color, secondary_color, cover_title, cover_subtitle, footer_text, sender_name, hidden_platforms, hidden_metrics, updated_at";
+
+// Same limits as the CHECK constraints on workspace_branding
+const TEXT_LIMITS = {
+  cover_title: 120,
+  cover_subtitle: 240,
+  footer_text: 1000,
+  sender_name: 80,
+} as const;
+
+/**
+ * Validate branding and turn blank fields into NULL (product default)
+ */
+async function buildBrandingRecord(
+  input: WorkspaceBrandingInput
+): Promise<{ error: string | null; record: Record<string, unknown> | null }> {
+  // The orchestrator downloads the logo for PDFs, so it must be a public URL
+  const logoUrl = input.logo_url?.trim() || null;
+  const unsafeReason = logoUrl ? await getUnsafeUrlReason(logoUrl) : null;
+  if (unsafeReason) {
+    return { error: `Logo URL: ${unsafeReason}`, record: null };
+  }
+
+  for (const [field, label] of [["primary_color", "Primary color"], ["secondary_color", "Secondary color"]] as const) {
+    const color = input[field]?.trim();
+    if (color && !HEX_COLOR_PATTERN.test(color)) {
+      return { error: `${label} must be a hex color like #1d4ed8`, record: null };
+    }
+  }
+
+  const texts: Record<string, string | null> = {};
+  for (const [field, limit] of Object.entries(TEXT_LIMITS) as Array<[keyof typeof TEXT_LIMITS, number]>) {
+    const value = input[field]?.trim() || null;
+    if (value && value.length > limit) {
+      return { error: `${field.replace("_", " ")} can be at most ${limit} characters`, record: null };
+    }
+    texts[field] = value;
+  }
+
+  // Sender names end up in the From header
+  if (texts.sender_name && /[<>"\r\n]/.test(texts.sender_name)) {
+    return { error: "Sender name can't contain <, > or quotes", record: null };
+  }
+
+  const invalidPlatform = input.hidden_platforms.find((platform) => !isPlatformId(platform));
+  if (invalidPlatform) {
+    return { error: `Unknown engine: ${invalidPlatform}`, record: null };
+  }
+
+  const invalidMetric = input.hidden_metrics.find((metric) => !isReportMetric(metric));
+  if (invalidMetric) {
+    return { error: `Unknown metric: ${invalidMetric}`, record: null };
+  }
+
+  return {
+    error: null,
+    record: {
+      logo_url: logoUrl,
+      primary_color: input.primary_color?.trim().toLowerCase() || null,
+      secondary_color: input.secondary_color?.trim().toLowerCase() || null,
+      ...texts,
+      hidden_platforms: Array.from(new Set(input.hidden_platforms)),
+      hidden_metrics: Array.from(new Set(input.hidden_metrics)),
+    },
+  };
+}
+
+/**
+ * Get a workspace's branding (null = unbranded)
+ */
+export async function getWorkspaceBranding(workspaceId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("workspace_branding")
+    .select(BRANDING_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: data as WorkspaceBranding | null };
+}
+
+/**
+ * Get the branding of the workspace a project belongs to (null = unbranded)
+ */
+export async function getProjectBranding(projectId: string) {
+  const supabase = await createClient();
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("workspace_id")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    return { error: projectError?.message || "Project not found", data: null };
+  }
+
+  return getWorkspaceBranding(project.workspace_id);
+}
+
+/**
+ * Create or update a workspace's branding
+ * Only workspace admins can change it (RLS)
+ */
+export async function saveWorkspaceBranding(workspaceId: string, input: WorkspaceBrandingInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { error: validationError, record } = await buildBrandingRecord(input);
+  if (validationError || !record) {
+    return { error: validationError, data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("workspace_branding")
+    .upsert({ ...record, workspace_id: workspaceId, updated_by: user.id }, { onConflict: "workspace_id" })
+    .select(BRANDING_COLUMNS)
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: "Only workspace admins can change branding", data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/settings");
+  revalidatePath("/dashboard/reports", "layout");
+  return { error: null, data: data as WorkspaceBranding };
+}
@@ -0,0 +1,173 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+
+export type BudgetOnExceed = "degrade" | "skip";
+
+export type AIBudget = {
+  id: string;
+  workspace_id: string;
+  project_id: string | null; // null = workspace-wide budget
+  monthly_limit: number;
+  warning_threshold: number; // 0-1
+  on_exceed: BudgetOnExceed;
+};
+
+export type AIBudgetInput = {
+  monthly_limit: number;
+  warning_threshold: number;
+  on_exceed: BudgetOnExceed;
+};
+
+export type AISpendRow = {
+  project_id: string;
+  platform: string;
+  source: "tracking" | "brand_analysis" | "sentiment" | "other";
+  spend_date: string;
+  calls_count: number;
+  tokens_used: number;
+  cost: number;
+};
+
+/**
+ * Get the workspace budget and every per-project budget of a workspace
+ */
+export async function getAIBudgets(workspaceId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("ai_budgets")
+    .select("id, workspace_id, project_id, monthly_limit, warning_threshold, on_exceed")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const budgets = (data || []).map((b) => ({
+    ...b,
+    monthly_limit: Number(b.monthly_limit),
+    warning_threshold: Number(b.warning_threshold),
+  })) as AIBudget[];
+
+  return { error: null, data: budgets };
+}
+
+/**
+ * Get daily AI spend rows for a workspace since a date (YYYY-MM-DD)
+ */
+export async function getAISpend(workspaceId: string, fromDate: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("ai_spend_ledger")
+    .select("project_id, platform, source, spend_date, calls_count, tokens_used, cost")
+    .eq("workspace_id", workspaceId)
+    .gte("spend_date", fromDate)
+    .order("spend_date", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const rows = (data || []).map((r) => ({
+    ...r,
+    tokens_used: Number(r.tokens_used),
+    cost: Number(r.cost),
+  })) as AISpendRow[];
+
+  return { error: null, data: rows };
+}
+
+/**
+ * Create or update a monthly budget
+ * projectId = null saves the workspace budget, otherwise a per-project budget
+ */
+export async function saveAIBudget(
+  workspaceId: string,
+  projectId: string | null,
+  data: AIBudgetInput
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  if (!Number.isFinite(data.monthly_limit) || data.monthly_limit < 0) {
+    return { error: "Monthly limit must be a positive amount", data: null };
+  }
+
+  if (data.warning_threshold <= 0 || data.warning_threshold > 1) {
+    return { error: "Warning threshold must be between 1% and 100%", data: null };
+  }
+
+  const values = {
+    monthly_limit: data.monthly_limit,
+    warning_threshold: data.warning_threshold,
+    on_exceed: data.on_exceed,
+  };
+
+  // Partial unique indexes (workspace / per project) can't be used as upsert targets
+  let existingQuery = supabase
+    .from("ai_budgets")
+    .select("id")
+    .eq("workspace_id", workspaceId);
+  existingQuery = projectId
+    ? existingQuery.eq("project_id", projectId)
+    : existingQuery.is("project_id", null);
+
+  const { data: existing } = await existingQuery.maybeSingle();
+
+  const { data: budget, error } = existing
+    ? await supabase
+        .from("ai_budgets")
+        .update(values)
+        .eq("id", existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from("ai_budgets")
+        .insert({
+          workspace_id: workspaceId,
+          project_id: projectId,
+          ...values,
+        })
+        .select()
+        .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, data: budget };
+}
+
+export async function deleteAIBudget(budgetId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const { error } = await supabase
+    .from("ai_budgets")
+    .delete()
+    .eq("id", budgetId);
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, success: true };
+}
@@ -2,7 +2,7 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import { generateRandomColor } from "@/lib/utils";
+import { generateRandomColor, normalizeAliases } from "@/lib/utils";
 
 export interface Competitor {
   id: string;
@@ -12,6 +12,7 @@ export interface Competitor {
   region: string;
   favicon?: string;
   color?: string;
+  aliases: string[]; // Other names matched as this competitor (variants, sub-brands, products, domains)
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -112,6 +113,7 @@ export async function updateCompetitor(
     region?: string;
     favicon?: string;
     color?: string;
+    aliases?: string[];
     is_active?: boolean;
   }
 ) {
@@ -166,6 +168,10 @@ export async function toggleCompetitorActive(competitorId: string, isActive: boo
   return updateCompetitor(competitorId, { is_active: isActive });
 }
 
+export async function updateCompetitorAliases(competitorId: string, aliases: string[]) {
+  return updateCompetitor(competitorId, { aliases: normalizeAliases(aliases) });
+}
+
 /**
  * Batch create competitors for a project
  */
@@ -0,0 +1,181 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+
+export type DeadLetterStatus = "open" | "queued" | "replayed" | "resolved" | "ignored";
+
+export type DeadLetter = {
+  id: string;
+  project_id: string;
+  function_id: string;
+  event_name: string;
+  step_name: string;
+  error_class: string;
+  error_message: string | null;
+  provider: string | null;
+  attempt_count: number;
+  failure_count: number;
+  status: DeadLetterStatus;
+  replay_count: number;
+  prompt_tracking_id: string | null;
+  ai_response_id: string | null;
+  last_failed_at: string;
+  last_replayed_at: string | null;
+  prompt?: string; // Prompt text, when the failure is tied to a prompt
+};
+
+const ACTIVE_STATUSES: DeadLetterStatus[] = ["open", "queued", "replayed"];
+
+function getBackendUrl() {
+  let backendUrl = process.env.BACKEND_ORCHESTRATOR_URL || process.env.NEXT_PUBLIC_BACKEND_ORCHESTRATOR_URL || "https://mvp-geo-saas-production.up.railway.app";
+
+  // Ensure URL has protocol
+  if (backendUrl && !backendUrl.startsWith("http://") && !backendUrl.startsWith("https://")) {
+    backendUrl = `https://${backendUrl}`;
+  }
+  return backendUrl;
+}
+
+/**
+ * Get dead letters for a project (active only by default)
+ */
+export async function getDeadLetters(projectId: string, includeClosed = false) {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from("dead_letters")
+    .select(`
+      id,
+      project_id,
+      function_id,
+      event_name,
+      step_name,
+      error_class,
+      error_message,
+      provider,
+      attempt_count,
+      failure_count,
+      status,
+      replay_count,
+      prompt_tracking_id,
+      ai_response_id,
+      last_failed_at,
+      last_replayed_at,
+      prompt_tracking (
+        prompt
+      )
+    `)
+    .eq("project_id", projectId)
+    .order("last_failed_at", { ascending: false })
+    .limit(500);
+
+  if (!includeClosed) {
+    query = query.in("status", ACTIVE_STATUSES);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const rows = (data || []) as unknown as Array<
+    Omit<DeadLetter, "prompt"> & { prompt_tracking: { prompt: string } | null }
+  >;
+
+  return {
+    error: null,
+    data: rows.map(({ prompt_tracking, ...row }) => ({
+      ...row,
+      prompt: prompt_tracking?.prompt,
+    })) as DeadLetter[],
+  };
+}
+
+/**
+ * Queue dead letters for replay and ask the orchestrator to re-drive them
+ * Only admins can update dead letters (RLS); the orchestrator skips units that are healthy again
+ */
+export async function replayDeadLetters(deadLetterIds: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  if (deadLetterIds.length === 0) {
+    return { error: "No failures selected", data: null };
+  }
+
+  const { data: queued, error } = await supabase
+    .from("dead_letters")
+    .update({ status: "queued" })
+    .in("id", deadLetterIds)
+    .in("status", ["open", "replayed"])
+    .select("id");
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const queuedIds = (queued || []).map((row) => row.id);
+  if (queuedIds.length === 0) {
+    return { error: "Nothing to replay (only admins can replay failed runs)", data: null };
+  }
+
+  try {
+    const response = await fetch(`${getBackendUrl()}/replay-dead-letters`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ dead_letter_ids: queuedIds }),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Orchestrator responded with ${response.status}`);
+    }
+  } catch (err) {
+    // Put the rows back so they can be replayed again
+    await supabase
+      .from("dead_letters")
+      .update({ status: "open" })
+      .in("id", queuedIds);
+
+    return { error: err instanceof Error ? err.message : "Failed to reach the orchestrator", data: null };
+  }
+
+  revalidatePath("/dashboard/failures");
+  return { error: null, data: { queued: queuedIds.length } };
+}
+
+/**
+ * Dismiss dead letters without replaying them
+ */
+export async function ignoreDeadLetters(deadLetterIds: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const { error } = await supabase
+    .from("dead_letters")
+    .update({ status: "ignored" })
+    .in("id", deadLetterIds);
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/failures");
+  return { error: null, success: true };
+}
@@ -0,0 +1,165 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { parseDomainRatingsCsv } from "@/lib/utils/domain-authority";
+
+// Rows per upsert request
+const IMPORT_BATCH_SIZE = 500;
+
+export type DomainAuthoritySummary = {
+  scored: number; // Domains with an internal score
+  imported: number; // Domains with an imported rating
+  lastComputedAt: string | null;
+  lastImportedAt: string | null;
+};
+
+/**
+ * Get how many cited domains have an authority score and when it was last refreshed
+ */
+export async function getDomainAuthoritySummary(projectId: string) {
+  const supabase = await createClient();
+
+  const [scoredResult, importedResult, computedResult, importedAtResult] = await Promise.all([
+    supabase
+      .from("domain_authority")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", projectId)
+      .gt("internal_score", 0),
+    supabase
+      .from("domain_authority")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", projectId)
+      .not("imported_rating", "is", null),
+    supabase
+      .from("domain_authority")
+      .select("computed_at")
+      .eq("project_id", projectId)
+      .not("computed_at", "is", null)
+      .order("computed_at", { ascending: false })
+      .limit(1),
+    supabase
+      .from("domain_authority")
+      .select("imported_at")
+      .eq("project_id", projectId)
+      .not("imported_at", "is", null)
+      .order("imported_at", { ascending: false })
+      .limit(1),
+  ]);
+
+  const error = scoredResult.error || importedResult.error || computedResult.error || importedAtResult.error;
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return {
+    error: null,
+    data: {
+      scored: scoredResult.count || 0,
+      imported: importedResult.count || 0,
+      lastComputedAt: computedResult.data?.[0]?.computed_at || null,
+      lastImportedAt: importedAtResult.data?.[0]?.imported_at || null,
+    } as DomainAuthoritySummary,
+  };
+}
+
+/**
+ * Import third-party domain ratings (e.g. an Ahrefs DR export) from CSV text
+ * Each line is domain,rating[,source]; imported ratings take precedence over
+ * the internal citation graph score until they are cleared
+ */
+export async function importDomainRatings(projectId: string, csvText: string, source?: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { rows, skipped } = parseDomainRatingsCsv(csvText, source?.trim() || null);
+
+  if (rows.length === 0) {
+    return { error: "No valid rows found. Expected domain,rating per line with ratings from 0 to 100", data: null };
+  }
+
+  const importedAt = new Date().toISOString();
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + IMPORT_BATCH_SIZE).map((row) => ({
+      project_id: projectId,
+      domain: row.domain,
+      imported_rating: row.rating,
+      imported_source: row.source,
+      imported_at: importedAt,
+    }));
+
+    const { error } = await supabase
+      .from("domain_authority")
+      .upsert(batch, { onConflict: "project_id,domain" });
+
+    if (error) {
+      return { error: error.message, data: null };
+    }
+  }
+
+  revalidatePath("/dashboard/citations");
+  revalidatePath("/dashboard/opportunities");
+  return { error: null, data: { imported: rows.length, skipped } };
+}
+
+/**
+ * Remove every imported rating of a project so the internal score is used again
+ */
+export async function clearImportedDomainRatings(projectId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const { error } = await supabase
+    .from("domain_authority")
+    .update({ imported_rating: null, imported_source: null, imported_at: null })
+    .eq("project_id", projectId)
+    .not("imported_rating", "is", null);
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/citations");
+  revalidatePath("/dashboard/opportunities");
+  return { error: null, success: true };
+}
+
+/**
+ * Recompute the internal authority score now instead of waiting for the daily
+ * aggregation (e.g. right after the first citations come in)
+ */
+export async function recomputeDomainAuthority(projectId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data, error } = await supabase.rpc("compute_domain_authority", {
+    p_project_id: projectId,
+  });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/citations");
+  revalidatePath("/dashboard/opportunities");
+  return { error: null, data: { scored: (data as number) || 0 } };
+}
@@ -1,7 +1,19 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
-import type { ReportSectionData, NewCompetitor } from "@/lib/queries/detailed-report";
+import type { ReportPeriod } from "@/components/reports/period-selector";
+import type { ReportInsights } from "@/components/reports/report-document";
+import type { DetailedReportData, ReportSectionData, NewCompetitor } from "@/lib/queries/detailed-report";
+
+function getBackendUrl() {
+  let backendUrl = process.env.BACKEND_ORCHESTRATOR_URL || process.env.NEXT_PUBLIC_BACKEND_ORCHESTRATOR_URL || "https://mvp-geo-saas-production.up.railway.app";
+
+  // Ensure URL has protocol
+  if (backendUrl && !backendUrl.startsWith("http://") && !backendUrl.startsWith("https://")) {
+    backendUrl = `https://${backendUrl}`;
+  }
+  return backendUrl;
+}
 
 /**
  * Generate AI-powered insights for a report section
@@ -64,3 +76,101 @@ export async function generateNewCompetitorsInsight(
   }
 }
 
+/**
+ * Insights of a detailed report, written by the orchestrator
+ * (POST /reports/insights) as for scheduled reports: model-written narrative
+ * and recommended actions citing the report's facts, or templates when no
+ * model key is configured, the project is over its AI budget or the text isn't
+ * grounded. `now` is the moment the report's period is counted back from.
+ */
+export async function generateReportInsights(
+  projectId: string,
+  period: ReportPeriod,
+  data: DetailedReportData,
+  now: string = new Date().toISOString()
+): Promise<{ error: string | null; data: ReportInsights | null }> {
+  const supabase = await createClient();
+
+  // The orchestrator reads with the service role, so check access here (RLS)
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    return { error: projectError?.message || "Project not found", data: null };
+  }
+
+  try {
+    const response = await fetch(`${getBackendUrl()}/reports/insights`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ project_id: projectId, period, report_data: data, now }),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      console.error("Error generating report insights:", result.error || response.status);
+      return { error: "Unable to generate insights at this time", data: null };
+    }
+
+    return { error: null, data: result.insights as ReportInsights };
+  } catch (error) {
+    console.error("Error generating report insights:", error);
+    return { error: "Unable to generate insights at this time", data: null };
+  }
+}
+
+/**
+ * Generate a saved report's insights again (e.g. after changing the project's
+ * language) and cache them in reports.insights
+ */
+export async function regenerateReportInsights(
+  reportId: string
+): Promise<{ error: string | null; data: ReportInsights | null }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data: report, error: reportError } = await supabase
+    .from("reports")
+    .select("project_id, period, report_data, created_at")
+    .eq("id", reportId)
+    .single();
+
+  if (reportError || !report) {
+    return { error: reportError?.message || "Report not found", data: null };
+  }
+
+  const result = await generateReportInsights(
+    report.project_id,
+    report.period as ReportPeriod,
+    report.report_data as DetailedReportData,
+    report.created_at
+  );
+  if (result.error || !result.data) {
+    return result;
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("reports")
+    .update({ insights: result.data })
+    .eq("id", reportId)
+    .select("id");
+
+  if (updateError) {
+    return { error: updateError.message, data: null };
+  }
+
+  if (!updated || updated.length === 0) {
+    return { error: "You don't have access to this report", data: null };
+  }
+
+  return { error: null, data: result.data };
+}
@@ -0,0 +1,130 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { PLATFORM_IDS, PLATFORMS } from "@/lib/constants/platforms";
+
+export type ProjectPlatform = {
+  platform: string;
+  is_enabled: boolean;
+  model: string | null;
+  is_default: boolean; // true when no project_platforms row exists yet
+};
+
+/**
+ * Get the AI engines tracked for a project
+ * Engines without a project_platforms row use their registry default
+ */
+export async function getProjectPlatforms(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("project_platforms")
+    .select("platform, is_enabled, model")
+    .eq("project_id", projectId);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const rows = new Map((data || []).map((row) => [row.platform as string, row]));
+
+  const platforms: ProjectPlatform[] = PLATFORM_IDS.map((id) => {
+    const row = rows.get(id);
+    return {
+      platform: id,
+      is_enabled: row ? row.is_enabled : PLATFORMS[id].enabledByDefault,
+      model: row?.model ?? null,
+      is_default: !row,
+    };
+  });
+
+  return { error: null, data: platforms };
+}
+
+export async function updateProjectPlatform(
+  projectId: string,
+  platform: string,
+  data: {
+    is_enabled: boolean;
+    model?: string | null;
+  }
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data: row, error } = await supabase
+    .from("project_platforms")
+    .upsert(
+      {
+        project_id: projectId,
+        platform,
+        is_enabled: data.is_enabled,
+        model: data.model ?? null,
+      },
+      { onConflict: "project_id,platform" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/configuration");
+  return { error: null, data: row };
+}
+
+/**
+ * Get how many answers each engine gives per prompt and day
+ */
+export async function getSamplesPerPrompt(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("projects")
+    .select("samples_per_prompt")
+    .eq("id", projectId)
+    .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data?.samples_per_prompt as number | null) ?? 1 };
+}
+
+export async function updateSamplesPerPrompt(projectId: string, samplesPerPrompt: number) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  if (!Number.isInteger(samplesPerPrompt) || samplesPerPrompt < 1 || samplesPerPrompt > 10) {
+    return { error: "Samples per prompt must be between 1 and 10", data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("projects")
+    .update({ samples_per_prompt: samplesPerPrompt })
+    .eq("id", projectId)
+    .select("samples_per_prompt")
+    .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/configuration");
+  return { error: null, data: data.samples_per_prompt as number };
+}
@@ -0,0 +1,315 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { normalizeAliases } from "@/lib/utils";
+
+export type PotentialCompetitorStatus = "pending" | "promoted" | "dismissed";
+
+export type PotentialCompetitor = {
+  id: string;
+  brand_name: string;
+  aliases: string[]; // Variant names merged into this brand
+  status: PotentialCompetitorStatus;
+  context: string | null;
+  mention_count: number;
+  recent_mentions: number; // Detections in the last 7 days
+  previous_mentions: number; // Detections in the 7 days before that
+  first_detected_at: string | null;
+  last_detected_at: string | null;
+  promoted_competitor_id: string | null;
+  reviewed_at: string | null;
+};
+
+export type DomainSuggestion = {
+  domain: string;
+  count: number; // Citations of this domain in responses that detected the brand
+};
+
+function getBackendUrl() {
+  let backendUrl = process.env.BACKEND_ORCHESTRATOR_URL || process.env.NEXT_PUBLIC_BACKEND_ORCHESTRATOR_URL || "https://mvp-geo-saas-production.up.railway.app";
+
+  // Ensure URL has protocol
+  if (backendUrl && !backendUrl.startsWith("http://") && !backendUrl.startsWith("https://")) {
+    backendUrl = `https://${backendUrl}`;
+  }
+  return backendUrl;
+}
+
+// "Acme Corp." -> "acmecorp", used to match brand names against domains
+function compactName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Get the discovered brands of a project with their recent detection counts
+ */
+export async function getPotentialCompetitors(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc("get_potential_competitor_queue", {
+    p_project_id: projectId,
+  });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as PotentialCompetitor[] };
+}
+
+/**
+ * Merge duplicates and name variants into one brand; their names become its aliases
+ */
+export async function mergePotentialCompetitors(targetId: string, sourceIds: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const ids = sourceIds.filter((id) => id !== targetId);
+  if (ids.length === 0) {
+    return { error: "Select at least two brands to merge", data: null };
+  }
+
+  const { data, error } = await supabase.rpc("merge_potential_competitors", {
+    p_target_id: targetId,
+    p_source_ids: ids,
+  });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/competitors");
+  return { error: null, data: { merged: (data as number) || 0 } };
+}
+
+/**
+ * Move brands to the ignore list; future analyses stop tracking them
+ */
+export async function dismissPotentialCompetitors(ids: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const { error } = await supabase
+    .from("potential_competitors")
+    .update({ status: "dismissed", reviewed_at: new Date().toISOString(), reviewed_by: user.id })
+    .in("id", ids)
+    .eq("status", "pending");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/competitors");
+  return { error: null, success: true };
+}
+
+/**
+ * Put a dismissed brand back in the review queue
+ */
+export async function restorePotentialCompetitor(id: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const { error } = await supabase
+    .from("potential_competitors")
+    .update({ status: "pending", reviewed_at: null, reviewed_by: null })
+    .eq("id", id)
+    .eq("status", "dismissed");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/competitors");
+  return { error: null, success: true };
+}
+
+/**
+ * Suggest a domain for a discovered brand from the citations of the responses
+ * that mentioned it, keeping domains that contain the brand name or an alias
+ */
+export async function getPotentialCompetitorDomains(id: string) {
+  const supabase = await createClient();
+
+  const { data: brand, error: brandError } = await supabase
+    .from("potential_competitors")
+    .select("brand_name, aliases")
+    .eq("id", id)
+    .single();
+
+  if (brandError || !brand) {
+    return { error: brandError?.message || "Brand not found", data: null };
+  }
+
+  const { data: detections, error: detectionsError } = await supabase
+    .from("potential_competitor_detections")
+    .select("ai_response_id")
+    .eq("potential_competitor_id", id)
+    .not("ai_response_id", "is", null)
+    .order("detected_at", { ascending: false })
+    .limit(200);
+
+  if (detectionsError) {
+    return { error: detectionsError.message, data: null };
+  }
+
+  const responseIds = Array.from(new Set((detections || []).map((d) => d.ai_response_id as string)));
+  if (responseIds.length === 0) {
+    return { error: null, data: [] as DomainSuggestion[] };
+  }
+
+  const { data: citations, error: citationsError } = await supabase
+    .from("citations")
+    .select("domain")
+    .in("ai_response_id", responseIds)
+    .not("domain", "is", null);
+
+  if (citationsError) {
+    return { error: citationsError.message, data: null };
+  }
+
+  const names = [brand.brand_name, ...((brand.aliases as string[] | null) || [])]
+    .map(compactName)
+    .filter((name) => name.length >= 3);
+
+  const counts = new Map<string, number>();
+  for (const { domain } of citations || []) {
+    const host = String(domain).toLowerCase().replace(/^www\./, "");
+    const compactHost = host.replace(/[^a-z0-9]/g, "");
+    if (names.some((name) => compactHost.includes(name))) {
+      counts.set(host, (counts.get(host) || 0) + 1);
+    }
+  }
+
+  const suggestions: DomainSuggestion[] = Array.from(counts.entries())
+    .map(([domain, count]) => ({ domain, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  return { error: null, data: suggestions };
+}
+
+/**
+ * Promote a discovered brand to a tracked competitor, carrying its aliases over.
+ * With backfill, the orchestrator scans stored responses so the competitor has history.
+ */
+export async function promotePotentialCompetitor(
+  id: string,
+  data: {
+    name: string;
+    domain: string;
+    region: string;
+    color: string;
+    backfill: boolean;
+  }
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data: brand, error: brandError } = await supabase
+    .from("potential_competitors")
+    .select("project_id, brand_name, aliases, status")
+    .eq("id", id)
+    .single();
+
+  if (brandError || !brand) {
+    return { error: brandError?.message || "Brand not found", data: null };
+  }
+
+  if (brand.status === "promoted") {
+    return { error: "This brand is already a competitor", data: null };
+  }
+
+  const name = data.name.trim();
+  const aliases = normalizeAliases([brand.brand_name, ...((brand.aliases as string[] | null) || [])]).filter(
+    (alias) => alias.toLowerCase() !== name.toLowerCase()
+  );
+
+  const { data: competitor, error } = await supabase
+    .from("competitors")
+    .insert({
+      project_id: brand.project_id,
+      name,
+      domain: data.domain.trim(),
+      region: data.region || "GLOBAL",
+      color: data.color || "#3B82F6",
+      aliases,
+      is_active: true,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      return { error: "This competitor already exists for this project", data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  const { error: statusError } = await supabase
+    .from("potential_competitors")
+    .update({
+      status: "promoted",
+      promoted_competitor_id: competitor.id,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: user.id,
+    })
+    .eq("id", id);
+
+  if (statusError) {
+    return { error: statusError.message, data: null };
+  }
+
+  let backfillError: string | null = null;
+  if (data.backfill) {
+    try {
+      const response = await fetch(`${getBackendUrl()}/backfill-competitor-mentions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ project_id: brand.project_id, competitor_id: competitor.id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Orchestrator responded with ${response.status}`);
+      }
+    } catch (err) {
+      // The competitor is created either way; only the history is missing
+      backfillError = err instanceof Error ? err.message : "Failed to reach the orchestrator";
+    }
+  }
+
+  revalidatePath("/dashboard/competitors");
+  return { error: null, data: { competitor, backfillError } };
+}
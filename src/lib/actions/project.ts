@@ -2,6 +2,8 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { normalizeAliases } from "@/lib/utils";
+import { isReportLocale } from "@/lib/constants/report-schedules";
 
 function generateSlug(name: string): string {
   return name
@@ -17,6 +19,7 @@ export async function updateProject(projectId: string, data: {
   client_url?: string;
   description?: string;
   color?: string;
+  language?: string;
 }) {
   const supabase = await createClient();
   const {
@@ -34,6 +37,10 @@ export async function updateProject(projectId: string, data: {
     .eq("id", projectId)
     .single();
 
+  if (data.language !== undefined && !isReportLocale(data.language)) {
+    return { error: "Invalid language", data: null };
+  }
+
   const updateData: any = {};
   
   if (data.name) {
@@ -54,6 +61,10 @@ export async function updateProject(projectId: string, data: {
     updateData.color = data.color;
   }
 
+  if (data.language !== undefined) {
+    updateData.language = data.language;
+  }
+
   const { data: project, error } = await supabase
     .from("projects")
     .update(updateData)
@@ -108,6 +119,34 @@ export async function updateProject(projectId: string, data: {
   return { error: null, data: project };
 }
 
+/**
+ * Update the other names of the project's brand used for mention matching
+ */
+export async function updateBrandAliases(projectId: string, aliases: string[]) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data: project, error } = await supabase
+    .from("projects")
+    .update({ brand_aliases: normalizeAliases(aliases) })
+    .eq("id", projectId)
+    .select("id, brand_name, brand_aliases")
+    .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/competitors");
+  return { error: null, data: project };
+}
+
 export async function deleteProject(projectId: string) {
   const supabase = await createClient();
   const {
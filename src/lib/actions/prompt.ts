@@ -416,3 +416,84 @@ export async function batchCreatePrompts(data: {
   return { error: null, data: createdPrompts };
 }
 
+
+export type PromptVersion = {
+  id: string;
+  prompt_tracking_id: string;
+  version_number: number;
+  prompt: string;
+  restored_from_version_id: string | null;
+  created_at: string;
+  is_current: boolean;
+};
+
+/**
+ * Get every wording of a prompt, newest first
+ * Versions are recorded by a database trigger whenever the prompt text changes
+ */
+export async function getPromptVersions(promptId: string) {
+  const supabase = await createClient();
+
+  const [{ data: prompt }, { data, error }] = await Promise.all([
+    supabase.from("prompt_tracking").select("current_version_id").eq("id", promptId).single(),
+    supabase
+      .from("prompt_versions")
+      .select("id, prompt_tracking_id, version_number, prompt, restored_from_version_id, created_at")
+      .eq("prompt_tracking_id", promptId)
+      .order("version_number", { ascending: false }),
+  ]);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const versions: PromptVersion[] = (data || []).map((version) => ({
+    ...version,
+    is_current: version.id === prompt?.current_version_id,
+  }));
+
+  return { error: null, data: versions };
+}
+
+/**
+ * Go back to an earlier wording
+ * History stays immutable: the restored text becomes a new version that references the old one
+ */
+export async function revertPromptVersion(promptId: string, versionId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data: version } = await supabase
+    .from("prompt_versions")
+    .select("prompt")
+    .eq("id", versionId)
+    .eq("prompt_tracking_id", promptId)
+    .single();
+
+  if (!version) {
+    return { error: "Version not found", data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("prompt_tracking")
+    .update({ prompt: version.prompt })
+    .eq("id", promptId)
+    .select();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: "You don't have permission to edit this prompt", data: null };
+  }
+
+  revalidatePath("/dashboard");
+  return { error: null, data: data[0] };
+}
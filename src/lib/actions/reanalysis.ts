@@ -0,0 +1,242 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+
+export type ReanalysisStatus = "queued" | "running" | "aggregating" | "completed" | "failed";
+
+export type ReanalysisJob = {
+  id: string;
+  project_id: string;
+  start_date: string;
+  end_date: string;
+  include_brand: boolean;
+  competitor_ids: string[];
+  status: ReanalysisStatus;
+  responses_total: number;
+  responses_processed: number;
+  responses_failed: number;
+  estimated_cost: number | null;
+  cost: number;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+};
+
+export type ReanalysisEstimate = {
+  responses: number;
+  costPerResponse: number | null; // null when the project has no brand analysis spend yet
+  estimatedCost: number | null;
+};
+
+function getBackendUrl() {
+  let backendUrl = process.env.BACKEND_ORCHESTRATOR_URL || process.env.NEXT_PUBLIC_BACKEND_ORCHESTRATOR_URL || "https://mvp-geo-saas-production.up.railway.app";
+
+  // Ensure URL has protocol
+  if (backendUrl && !backendUrl.startsWith("http://") && !backendUrl.startsWith("https://")) {
+    backendUrl = `https://${backendUrl}`;
+  }
+  return backendUrl;
+}
+
+// Today's stats are still being built by the daily and incremental aggregations
+function getLatestReanalysisDate() {
+  return new Date(Date.now() - 86400000).toISOString().split("T")[0];
+}
+
+/**
+ * Get the latest re-analysis jobs of a project
+ */
+export async function getReanalysisJobs(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("reanalysis_jobs")
+    .select(`
+      id,
+      project_id,
+      start_date,
+      end_date,
+      include_brand,
+      competitor_ids,
+      status,
+      responses_total,
+      responses_processed,
+      responses_failed,
+      estimated_cost,
+      cost,
+      error_message,
+      started_at,
+      completed_at,
+      created_at
+    `)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(10);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return {
+    error: null,
+    data: (data || []).map((job) => ({
+      ...job,
+      estimated_cost: job.estimated_cost === null ? null : Number(job.estimated_cost),
+      cost: Number(job.cost) || 0,
+    })) as ReanalysisJob[],
+  };
+}
+
+/**
+ * Count the responses a re-analysis would cover and estimate its cost from the
+ * project's average brand analysis cost per call over the last 30 days
+ */
+export async function estimateReanalysis(projectId: string, startDate: string, endDate: string) {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from("ai_responses")
+    .select("id", { count: "exact", head: true })
+    .eq("project_id", projectId)
+    .eq("status", "success")
+    .not("response_text", "is", null)
+    .gte("created_at", `${startDate}T00:00:00Z`)
+    .lte("created_at", `${endDate}T23:59:59.999Z`);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const since = new Date(Date.now() - 30 * 86400000).toISOString().split("T")[0];
+  const { data: spend, error: spendError } = await supabase
+    .from("ai_spend_ledger")
+    .select("calls_count, cost")
+    .eq("project_id", projectId)
+    .eq("source", "brand_analysis")
+    .gte("spend_date", since);
+
+  if (spendError) {
+    return { error: spendError.message, data: null };
+  }
+
+  const calls = (spend || []).reduce((sum, row) => sum + (row.calls_count || 0), 0);
+  const cost = (spend || []).reduce((sum, row) => sum + (Number(row.cost) || 0), 0);
+  const costPerResponse = calls > 0 ? cost / calls : null;
+  const responses = count || 0;
+
+  return {
+    error: null,
+    data: {
+      responses,
+      costPerResponse,
+      estimatedCost: costPerResponse === null ? null : costPerResponse * responses,
+    } as ReanalysisEstimate,
+  };
+}
+
+/**
+ * Create a re-analysis job and ask the orchestrator to run it
+ * Mentions and sentiment of the selected entities are replaced for every stored
+ * response in the range, then daily stats for the range are rebuilt
+ */
+export async function startReanalysis(
+  projectId: string,
+  data: {
+    startDate: string;
+    endDate: string;
+    includeBrand: boolean;
+    competitorIds: string[];
+  }
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  if (!data.includeBrand && data.competitorIds.length === 0) {
+    return { error: "Select your brand or at least one competitor", data: null };
+  }
+
+  if (!data.startDate || !data.endDate || data.startDate > data.endDate) {
+    return { error: "Select a valid date range", data: null };
+  }
+
+  if (data.endDate > getLatestReanalysisDate()) {
+    return { error: "The range can end yesterday at the latest", data: null };
+  }
+
+  const { data: active, error: activeError } = await supabase
+    .from("reanalysis_jobs")
+    .select("id")
+    .eq("project_id", projectId)
+    .in("status", ["queued", "running", "aggregating"])
+    .limit(1);
+
+  if (activeError) {
+    return { error: activeError.message, data: null };
+  }
+
+  if (active && active.length > 0) {
+    return { error: "A re-analysis is already in progress for this project", data: null };
+  }
+
+  const estimate = await estimateReanalysis(projectId, data.startDate, data.endDate);
+  if (estimate.error || !estimate.data) {
+    return { error: estimate.error || "Failed to estimate the re-analysis", data: null };
+  }
+
+  if (estimate.data.responses === 0) {
+    return { error: "No responses in this date range", data: null };
+  }
+
+  const { data: job, error } = await supabase
+    .from("reanalysis_jobs")
+    .insert({
+      project_id: projectId,
+      start_date: data.startDate,
+      end_date: data.endDate,
+      include_brand: data.includeBrand,
+      competitor_ids: data.competitorIds,
+      responses_total: estimate.data.responses,
+      estimated_cost: estimate.data.estimatedCost,
+      created_by: user.id,
+    })
+    .select("id")
+    .single();
+
+  if (error || !job) {
+    return { error: error?.message || "Failed to create the re-analysis", data: null };
+  }
+
+  try {
+    const response = await fetch(`${getBackendUrl()}/reanalyze-history`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ job_id: job.id }),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Orchestrator responded with ${response.status}`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to reach the orchestrator";
+    await supabase
+      .from("reanalysis_jobs")
+      .update({ status: "failed", error_message: message })
+      .eq("id", job.id);
+
+    return { error: message, data: null };
+  }
+
+  revalidatePath("/dashboard/competitors");
+  return { error: null, data: { jobId: job.id } };
+}
@@ -0,0 +1,297 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import type { ReportPeriod } from "@/components/reports/period-selector";
+import {
+  MAX_REPORT_RECIPIENTS,
+  isReportLocale,
+  isReportScheduleFrequency,
+  type ReportLocale,
+  type ReportScheduleFrequency,
+  type ReportScheduleStatus,
+} from "@/lib/constants/report-schedules";
+
+export type ReportSchedule = {
+  id: string;
+  project_id: string;
+  period: ReportPeriod;
+  topic_id: string | null;
+  topic_name: string | null;
+  recipients: string[];
+  frequency: ReportScheduleFrequency;
+  hour_of_day: number;
+  day_of_week: number; // 0 = Sunday
+  day_of_month: number;
+  timezone: string;
+  locale: ReportLocale;
+  last_run_at: string | null;
+  last_status: ReportScheduleStatus | null;
+  last_error: string | null;
+  last_report_id: string | null;
+  created_at: string;
+};
+
+export type ReportScheduleInput = {
+  period: ReportPeriod;
+  topic_id: string | null;
+  recipients: string[];
+  frequency: ReportScheduleFrequency;
+  hour_of_day: number;
+  day_of_week: number;
+  day_of_month: number;
+  timezone: string;
+  locale: ReportLocale;
+};
+
+const SCHEDULE_COLUMNS = `
+  id,
+  project_id,
+  period,
+  topic_id,
+  recipients,
+  frequency,
+  hour_of_day,
+  day_of_week,
+  day_of_month,
+  timezone,
+  locale,
+  last_run_at,
+  last_status,
+  last_error,
+  last_report_id,
+  created_at,
+  topics (
+    name
+  )
+`;
+
+const REPORT_PERIODS: ReportPeriod[] = ["yesterday", "last-week", "last-month", "last-3-months"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ADMIN_ONLY_ERROR = "Only project admins can manage report schedules";
+
+type ScheduleRow = Omit<ReportSchedule, "topic_name"> & { topics: { name: string } | null };
+
+function toReportSchedule({ topics, ...row }: ScheduleRow): ReportSchedule {
+  return { ...row, topic_name: topics?.name || null };
+}
+
+function getBackendUrl() {
+  let backendUrl = process.env.BACKEND_ORCHESTRATOR_URL || process.env.NEXT_PUBLIC_BACKEND_ORCHESTRATOR_URL || "https://mvp-geo-saas-production.up.railway.app";
+
+  // Ensure URL has protocol
+  if (backendUrl && !backendUrl.startsWith("http://") && !backendUrl.startsWith("https://")) {
+    backendUrl = `https://${backendUrl}`;
+  }
+  return backendUrl;
+}
+
+/**
+ * Validate a schedule before saving it
+ */
+function buildScheduleRecord(input: ReportScheduleInput): { error: string | null; record: Record<string, unknown> | null } {
+  if (!REPORT_PERIODS.includes(input.period)) {
+    return { error: "Invalid report period", record: null };
+  }
+
+  if (!isReportScheduleFrequency(input.frequency)) {
+    return { error: "Invalid frequency", record: null };
+  }
+
+  if (!isReportLocale(input.locale)) {
+    return { error: "Invalid language", record: null };
+  }
+
+  if (
+    input.hour_of_day < 0 ||
+    input.hour_of_day > 23 ||
+    input.day_of_week < 0 ||
+    input.day_of_week > 6 ||
+    input.day_of_month < 1 ||
+    input.day_of_month > 28
+  ) {
+    return { error: "Invalid schedule time", record: null };
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: input.timezone });
+  } catch {
+    return { error: `Unknown timezone: ${input.timezone}`, record: null };
+  }
+
+  const recipients = Array.from(
+    new Set(input.recipients.map((email) => email.trim().toLowerCase()).filter(Boolean))
+  );
+  if (recipients.length === 0) {
+    return { error: "Add at least one recipient", record: null };
+  }
+  if (recipients.length > MAX_REPORT_RECIPIENTS) {
+    return { error: `A schedule can have at most ${MAX_REPORT_RECIPIENTS} recipients`, record: null };
+  }
+  const invalidEmail = recipients.find((email) => !EMAIL_PATTERN.test(email));
+  if (invalidEmail) {
+    return { error: `Invalid email address: ${invalidEmail}`, record: null };
+  }
+
+  return {
+    error: null,
+    record: {
+      period: input.period,
+      topic_id: input.topic_id || null,
+      recipients,
+      frequency: input.frequency,
+      hour_of_day: input.hour_of_day,
+      day_of_week: input.day_of_week,
+      day_of_month: input.day_of_month,
+      timezone: input.timezone,
+      locale: input.locale,
+    },
+  };
+}
+
+/**
+ * Get the project's report schedules
+ */
+export async function getReportSchedules(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("report_schedules")
+    .select(SCHEDULE_COLUMNS)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: ((data || []) as unknown as ScheduleRow[]).map(toReportSchedule) };
+}
+
+/**
+ * Create (scheduleId = null) or update a report schedule
+ * Only project admins can manage schedules (RLS), since they email people
+ */
+export async function saveReportSchedule(projectId: string, scheduleId: string | null, input: ReportScheduleInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { error: validationError, record } = buildScheduleRecord(input);
+  if (validationError || !record) {
+    return { error: validationError, data: null };
+  }
+
+  if (scheduleId) {
+    const { data, error } = await supabase
+      .from("report_schedules")
+      .update(record)
+      .eq("id", scheduleId)
+      .select(SCHEDULE_COLUMNS);
+
+    if (error) {
+      return { error: error.message, data: null };
+    }
+
+    if (!data || data.length === 0) {
+      return { error: ADMIN_ONLY_ERROR, data: null };
+    }
+
+    revalidatePath("/dashboard/reports/detailed");
+    return { error: null, data: toReportSchedule(data[0] as unknown as ScheduleRow) };
+  }
+
+  const { data, error } = await supabase
+    .from("report_schedules")
+    .insert({ ...record, project_id: projectId, created_by: user.id })
+    .select(SCHEDULE_COLUMNS)
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: ADMIN_ONLY_ERROR, data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/reports/detailed");
+  return { error: null, data: toReportSchedule(data as unknown as ScheduleRow) };
+}
+
+/**
+ * Delete a report schedule; reports it generated are kept
+ */
+export async function deleteReportSchedule(scheduleId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("report_schedules")
+    .delete()
+    .eq("id", scheduleId)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: ADMIN_ONLY_ERROR, success: false };
+  }
+
+  revalidatePath("/dashboard/reports/detailed");
+  return { error: null, success: true };
+}
+
+/**
+ * Build and email a schedule's report right away, whatever its frequency
+ * The orchestrator generates it in the background; the result shows up as the last run
+ */
+export async function sendReportScheduleNow(scheduleId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  // Members can read schedules but only admins may trigger emails
+  const { data: schedule } = await supabase
+    .from("report_schedules")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", scheduleId)
+    .select("id")
+    .maybeSingle();
+
+  if (!schedule) {
+    return { error: ADMIN_ONLY_ERROR, success: false };
+  }
+
+  try {
+    const response = await fetch(`${getBackendUrl()}/reports/send-scheduled`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ schedule_id: scheduleId }),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      return { error: result.error || `Orchestrator responded with ${response.status}`, success: false };
+    }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Failed to reach the orchestrator", success: false };
+  }
+
+  return { error: null, success: true };
+}
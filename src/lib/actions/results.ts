@@ -2,6 +2,8 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { getShareOfVoice } from "@/lib/queries/share-of-voice";
+import { getProjectPlatforms } from "@/lib/actions/platforms";
+import { PLATFORM_IDS } from "@/lib/constants/platforms";
 
 /**
  * Check if results are ready for a project
@@ -108,7 +110,11 @@ export async function checkPromptsProcessed(projectId: string): Promise<{
     console.log(`[checkPromptsProcessed] Found ${prompts.length} prompts for project ${projectId}`);
 
     const promptIds = prompts.map(p => p.id);
-    const platforms = ['openai', 'gemini'];
+    // Platforms enabled for this project (project_platforms or defaults)
+    const { data: projectPlatforms } = await getProjectPlatforms(projectId);
+    const platforms = (projectPlatforms || [])
+      .filter(p => p.is_enabled)
+      .map(p => p.platform);
 
     // 2. Get all ai_responses for these prompts
     const { data: aiResponses, error: responsesError } = await supabase
@@ -228,7 +234,7 @@ export async function getBrandRankingFromDirectQueries(projectId: string): Promi
       .from("ai_responses")
       .select("id")
       .in("prompt_tracking_id", promptIds)
-      .in("platform", ['openai', 'gemini']);
+      .in("platform", PLATFORM_IDS);
 
     if (!aiResponses || aiResponses.length === 0) {
       return { error: "No AI responses found", data: null };
@@ -241,6 +247,7 @@ export async function getBrandRankingFromDirectQueries(projectId: string): Promi
       .from("brand_mentions")
       .select("id, ai_response_id")
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "client")
       .in("ai_response_id", aiResponseIds);
 
@@ -251,6 +258,7 @@ export async function getBrandRankingFromDirectQueries(projectId: string): Promi
       .from("brand_mentions")
       .select("id, competitor_id, ai_response_id")
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "competitor")
       .in("ai_response_id", aiResponseIds);
 
@@ -0,0 +1,181 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+
+export type ScheduleFrequency = "hourly" | "daily" | "weekly" | "paused";
+
+export type AnalysisSchedule = {
+  id: string | null; // null = project has no schedule row yet (scheduler default)
+  project_id: string;
+  prompt_tracking_id: string | null;
+  frequency: ScheduleFrequency;
+  hour_of_day: number;
+  day_of_week: number; // 0 = Sunday
+  timezone: string;
+  platforms: string[] | null; // null = every enabled engine
+  last_scheduled_at: string | null;
+  prompt?: string; // Prompt text for per-prompt overrides
+};
+
+export type AnalysisScheduleInput = {
+  frequency: ScheduleFrequency;
+  hour_of_day: number;
+  day_of_week: number;
+  timezone: string;
+  platforms: string[] | null;
+};
+
+/**
+ * Get the project default schedule and its per-prompt overrides
+ * Projects without a row run daily at 01:00 UTC (orchestrator default)
+ */
+export async function getAnalysisSchedules(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("analysis_schedules")
+    .select(`
+      id,
+      project_id,
+      prompt_tracking_id,
+      frequency,
+      hour_of_day,
+      day_of_week,
+      timezone,
+      platforms,
+      last_scheduled_at,
+      prompt_tracking (
+        prompt
+      )
+    `)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  const rows = (data || []) as unknown as Array<
+    Omit<AnalysisSchedule, "prompt"> & { prompt_tracking: { prompt: string } | null }
+  >;
+  const schedules: AnalysisSchedule[] = rows.map(({ prompt_tracking, ...row }) => ({
+    ...row,
+    prompt: prompt_tracking?.prompt,
+  }));
+
+  const projectSchedule = schedules.find((s) => !s.prompt_tracking_id) || {
+    id: null,
+    project_id: projectId,
+    prompt_tracking_id: null,
+    frequency: "daily" as const,
+    hour_of_day: 1,
+    day_of_week: 1,
+    timezone: "UTC",
+    platforms: null,
+    last_scheduled_at: null,
+  };
+
+  return {
+    error: null,
+    data: {
+      project: projectSchedule,
+      overrides: schedules.filter((s) => s.prompt_tracking_id),
+    },
+  };
+}
+
+/**
+ * Create or update a schedule
+ * promptTrackingId = null saves the project default, otherwise a per-prompt override
+ */
+export async function saveAnalysisSchedule(
+  projectId: string,
+  promptTrackingId: string | null,
+  data: AnalysisScheduleInput
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  if (data.hour_of_day < 0 || data.hour_of_day > 23 || data.day_of_week < 0 || data.day_of_week > 6) {
+    return { error: "Invalid schedule time", data: null };
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: data.timezone });
+  } catch {
+    return { error: `Unknown timezone: ${data.timezone}`, data: null };
+  }
+
+  const values = {
+    frequency: data.frequency,
+    hour_of_day: data.hour_of_day,
+    day_of_week: data.day_of_week,
+    timezone: data.timezone,
+    platforms: data.platforms && data.platforms.length > 0 ? data.platforms : null,
+  };
+
+  // Partial unique indexes (project default / per prompt) can't be used as upsert targets
+  let existingQuery = supabase
+    .from("analysis_schedules")
+    .select("id")
+    .eq("project_id", projectId);
+  existingQuery = promptTrackingId
+    ? existingQuery.eq("prompt_tracking_id", promptTrackingId)
+    : existingQuery.is("prompt_tracking_id", null);
+
+  const { data: existing } = await existingQuery.maybeSingle();
+
+  const { data: schedule, error } = existing
+    ? await supabase
+        .from("analysis_schedules")
+        .update(values)
+        .eq("id", existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from("analysis_schedules")
+        .insert({
+          project_id: projectId,
+          prompt_tracking_id: promptTrackingId,
+          ...values,
+        })
+        .select()
+        .single();
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/configuration");
+  return { error: null, data: schedule };
+}
+
+export async function deleteAnalysisSchedule(scheduleId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const { error } = await supabase
+    .from("analysis_schedules")
+    .delete()
+    .eq("id", scheduleId);
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  revalidatePath("/dashboard/configuration");
+  return { error: null, success: true };
+}
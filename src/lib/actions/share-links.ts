@@ -0,0 +1,267 @@
+"use server";
+
+import { cookies, headers } from "next/headers";
+import { createClient } from "@/lib/supabase/server";
+import { generateShareToken, getShareAccessCookie, hashSharePassword, verifySharePassword } from "@/lib/share/tokens";
+import { claimShareUnlockAttempt, getPublicShareLink, releaseShareUnlockAttempt } from "@/lib/share/public";
+import {
+  isShareView,
+  MAX_SHARE_LINK_EXPIRY_DAYS,
+  MIN_SHARE_LINK_PASSWORD_LENGTH,
+  type ShareView,
+  type ShareViewFilters,
+} from "@/lib/constants/share-links";
+import { isPlatformId } from "@/lib/constants/platforms";
+
+export type ShareLink = {
+  id: string;
+  project_id: string;
+  name: string;
+  resource_type: "report" | "dashboard_view";
+  report_id: string | null;
+  view: ShareView | null;
+  filters: ShareViewFilters | Record<string, never>;
+  token_prefix: string;
+  has_password: boolean;
+  expires_at: string;
+  revoked_at: string | null;
+  access_count: number;
+  last_accessed_at: string | null;
+  created_at: string;
+};
+
+export type ShareLinkTarget =
+  | { resource_type: "report"; report_id: string }
+  | { resource_type: "dashboard_view"; view: ShareView; filters: ShareViewFilters };
+
+export type ShareLinkInput = {
+  name: string;
+  expires_in_days: number;
+  password?: string | null;
+};
+
+export type ShareLinkAccess = {
+  id: string;
+  outcome: "viewed" | "password_failed";
+  ip_hash: string | null;
+  user_agent: string | null;
+  referrer: string | null;
+  accessed_at: string;
+};
+
+const SHARE_LINK_COLUMNS =
+  "id, project_id, name, resource_type, report_id, view, filters, token_prefix, password_hash, expires_at, revoked_at, access_count, last_accessed_at, created_at";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type ShareLinkRow = Omit<ShareLink, "has_password"> & { password_hash: string | null };
+
+// Password hashes never leave the server
+function toShareLink({ password_hash, ...row }: ShareLinkRow): ShareLink {
+  return { ...row, has_password: password_hash !== null };
+}
+
+function validateViewFilters(filters: ShareViewFilters): string | null {
+  if (!DATE_PATTERN.test(filters.from) || !DATE_PATTERN.test(filters.to)) {
+    return "The view needs a date range";
+  }
+  if (filters.from > filters.to) {
+    return "The date range is invalid";
+  }
+  if (filters.platform && !isPlatformId(filters.platform)) {
+    return `Unknown platform: ${filters.platform}`;
+  }
+  return null;
+}
+
+/**
+ * Get the share links of a report or of a dashboard view, newest first
+ */
+export async function getShareLinks(
+  projectId: string,
+  target: { report_id: string } | { view: ShareView }
+) {
+  const supabase = await createClient();
+
+  let query = supabase.from("share_links").select(SHARE_LINK_COLUMNS).eq("project_id", projectId);
+  query = "report_id" in target ? query.eq("report_id", target.report_id) : query.eq("view", target.view);
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: ((data || []) as ShareLinkRow[]).map(toShareLink) };
+}
+
+/**
+ * Create a share link; the token is only returned here, the database keeps its hash
+ */
+export async function createShareLink(projectId: string, target: ShareLinkTarget, input: ShareLinkInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const name = input.name.trim();
+  if (!name) {
+    return { error: "Name is required", data: null };
+  }
+  if (name.length > 120) {
+    return { error: "Name can be at most 120 characters", data: null };
+  }
+
+  if (
+    !Number.isInteger(input.expires_in_days) ||
+    input.expires_in_days < 1 ||
+    input.expires_in_days > MAX_SHARE_LINK_EXPIRY_DAYS
+  ) {
+    return { error: `Links can last between 1 and ${MAX_SHARE_LINK_EXPIRY_DAYS} days`, data: null };
+  }
+
+  const password = input.password || null;
+  if (password && password.length < MIN_SHARE_LINK_PASSWORD_LENGTH) {
+    return { error: `Password must be at least ${MIN_SHARE_LINK_PASSWORD_LENGTH} characters`, data: null };
+  }
+
+  if (target.resource_type === "dashboard_view") {
+    if (!isShareView(target.view)) {
+      return { error: `Unknown view: ${target.view}`, data: null };
+    }
+    const filtersError = validateViewFilters(target.filters);
+    if (filtersError) {
+      return { error: filtersError, data: null };
+    }
+  } else {
+    // Only reports of this project can be shared from it
+    const { data: report } = await supabase
+      .from("reports")
+      .select("id")
+      .eq("id", target.report_id)
+      .eq("project_id", projectId)
+      .maybeSingle();
+
+    if (!report) {
+      return { error: "Report not found", data: null };
+    }
+  }
+
+  const { token, tokenPrefix, tokenHash } = generateShareToken();
+  const expiresAt = new Date(Date.now() + input.expires_in_days * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({
+      project_id: projectId,
+      name,
+      resource_type: target.resource_type,
+      report_id: target.resource_type === "report" ? target.report_id : null,
+      view: target.resource_type === "dashboard_view" ? target.view : null,
+      filters: target.resource_type === "dashboard_view" ? target.filters : {},
+      token_prefix: tokenPrefix,
+      token_hash: tokenHash,
+      password_hash: password ? hashSharePassword(password) : null,
+      expires_at: expiresAt.toISOString(),
+      created_by: user.id,
+    })
+    .select(SHARE_LINK_COLUMNS)
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: "You don't have access to this project", data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: { shareLink: toShareLink(data as ShareLinkRow), token } };
+}
+
+/**
+ * Revoke a share link; it stops opening immediately
+ * Only its creator and admins can revoke it (RLS)
+ */
+export async function revokeShareLink(linkId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId)
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: "Only the link's creator and admins can revoke it", success: false };
+  }
+
+  return { error: null, success: true };
+}
+
+/**
+ * Latest opens and failed password attempts of a share link
+ */
+export async function getShareLinkAccesses(linkId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("share_link_accesses")
+    .select("id, outcome, ip_hash, user_agent, referrer, accessed_at")
+    .eq("share_link_id", linkId)
+    .order("accessed_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as ShareLinkAccess[] };
+}
+
+/**
+ * Unlock a password-protected link for this browser (public, no session needed)
+ * Refused without checking the password once the link has too many wrong attempts
+ */
+export async function unlockShareLink(token: string, password: string) {
+  const link = await getPublicShareLink(token);
+  if (!link || !link.password_hash) {
+    return { error: "This link is no longer available", success: false };
+  }
+
+  const requestHeaders = await headers();
+  const attemptId = await claimShareUnlockAttempt(link.id, {
+    ip: requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || null,
+    userAgent: requestHeaders.get("user-agent"),
+    referrer: requestHeaders.get("referer"),
+  });
+  if (!attemptId) {
+    return { error: "Too many wrong passwords. Try again in 15 minutes", success: false };
+  }
+
+  // The attempt stays logged as failed unless the password is right
+  if (!verifySharePassword(password, link.password_hash)) {
+    return { error: "Wrong password", success: false };
+  }
+  await releaseShareUnlockAttempt(attemptId);
+
+  const cookie = getShareAccessCookie(link.id, token, link.password_hash);
+  (await cookies()).set(cookie.name, cookie.value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/share",
+    expires: new Date(link.expires_at),
+  });
+
+  return { error: null, success: true };
+}
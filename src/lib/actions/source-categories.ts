@@ -0,0 +1,138 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { normalizeDomain } from "@/lib/utils/domain-authority";
+import { isSourceCategory, type SourceCategory } from "@/lib/constants/source-categories";
+
+export type DomainCategoryOverride = {
+  id: string;
+  domain: string;
+  category: SourceCategory;
+  created_at: string;
+};
+
+/**
+ * Get the project's source category overrides
+ */
+export async function getDomainCategoryOverrides(projectId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("domain_category_overrides")
+    .select("id, domain, category, created_at")
+    .eq("project_id", projectId)
+    .order("domain", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as DomainCategoryOverride[] };
+}
+
+/**
+ * Override the source category of a domain for this project
+ * Only project admins can manage overrides (RLS); the project's existing
+ * citations of the domain are re-stamped right away
+ */
+export async function setDomainCategoryOverride(
+  projectId: string,
+  domain: string,
+  category: SourceCategory
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const normalized = normalizeDomain(domain);
+  if (!normalized) {
+    return { error: "Invalid domain", data: null };
+  }
+
+  if (!isSourceCategory(category)) {
+    return { error: "Invalid source category", data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("domain_category_overrides")
+    .upsert(
+      {
+        project_id: projectId,
+        domain: normalized,
+        category,
+        created_by: user.id,
+      },
+      { onConflict: "project_id,domain" }
+    )
+    .select("id, domain, category, created_at")
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: "Only project admins can change source categories", data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  const { error: applyError } = await supabase.rpc("apply_domain_categories", {
+    p_domains: [normalized],
+    p_project_id: projectId,
+  });
+
+  if (applyError) {
+    console.error("Error applying domain category override:", applyError);
+  }
+
+  revalidatePath("/dashboard/citations");
+  return { error: null, data: data as DomainCategoryOverride };
+}
+
+/**
+ * Remove a source category override; citations fall back to the shared category
+ */
+export async function removeDomainCategoryOverride(projectId: string, domain: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", success: false };
+  }
+
+  const normalized = normalizeDomain(domain);
+
+  const { data: deleted, error } = await supabase
+    .from("domain_category_overrides")
+    .delete()
+    .eq("project_id", projectId)
+    .eq("domain", normalized)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!deleted || deleted.length === 0) {
+    return { error: "Nothing to remove (only project admins can change source categories)", success: false };
+  }
+
+  const { error: applyError } = await supabase.rpc("apply_domain_categories", {
+    p_domains: [normalized],
+    p_project_id: projectId,
+  });
+
+  if (applyError) {
+    console.error("Error applying domain category override:", applyError);
+  }
+
+  revalidatePath("/dashboard/citations");
+  return { error: null, success: true };
+}
@@ -0,0 +1,325 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { randomBytes } from "crypto";
+import {
+  isWebhookEventType,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from "@/lib/constants/webhooks";
+import { getUnsafeUrlReason } from "@/lib/outbound-urls";
+
+export type WebhookEndpoint = {
+  id: string;
+  workspace_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_at: string;
+};
+
+export type WebhookEndpointInput = {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+  is_active?: boolean;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+};
+
+const ENDPOINT_COLUMNS = "id, workspace_id, url, description, secret, events, is_active, created_at";
+
+const ADMIN_ONLY_ERROR = "Only workspace admins can manage webhooks";
+
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+function getBackendUrl() {
+  let backendUrl = process.env.BACKEND_ORCHESTRATOR_URL || process.env.NEXT_PUBLIC_BACKEND_ORCHESTRATOR_URL || "https://mvp-geo-saas-production.up.railway.app";
+
+  // Ensure URL has protocol
+  if (backendUrl && !backendUrl.startsWith("http://") && !backendUrl.startsWith("https://")) {
+    backendUrl = `https://${backendUrl}`;
+  }
+  return backendUrl;
+}
+
+/**
+ * Validate an endpoint before saving it
+ */
+async function buildEndpointRecord(
+  input: WebhookEndpointInput
+): Promise<{ error: string | null; record: Record<string, unknown> | null }> {
+  const url = input.url.trim();
+  const unsafeReason = await getUnsafeUrlReason(url);
+  if (unsafeReason) {
+    return { error: unsafeReason, record: null };
+  }
+
+  const events = Array.from(new Set(input.events));
+  if (events.length === 0) {
+    return { error: "Select at least one event", record: null };
+  }
+
+  const invalidEvent = events.find((event) => !isWebhookEventType(event));
+  if (invalidEvent) {
+    return { error: `Unknown event: ${invalidEvent}`, record: null };
+  }
+
+  return {
+    error: null,
+    record: {
+      url,
+      description: input.description?.trim() || null,
+      events,
+      is_active: input.is_active ?? true,
+    },
+  };
+}
+
+/**
+ * Get the workspace's webhook endpoints (admins only, they include the signing secret)
+ */
+export async function getWebhookEndpoints(workspaceId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as WebhookEndpoint[] };
+}
+
+/**
+ * Create a webhook endpoint with a new signing secret
+ */
+export async function createWebhookEndpoint(workspaceId: string, input: WebhookEndpointInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { error: validationError, record } = await buildEndpointRecord(input);
+  if (validationError || !record) {
+    return { error: validationError, data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .insert({
+      ...record,
+      workspace_id: workspaceId,
+      secret: generateWebhookSecret(),
+      created_by: user.id,
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error) {
+    // 42501 = insufficient privilege (RLS)
+    if (error.code === "42501") {
+      return { error: ADMIN_ONLY_ERROR, data: null };
+    }
+    return { error: error.message, data: null };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, data: data as WebhookEndpoint };
+}
+
+/**
+ * Update a webhook endpoint's URL, description, events or status
+ */
+export async function updateWebhookEndpoint(endpointId: string, input: WebhookEndpointInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { error: validationError, record } = await buildEndpointRecord(input);
+  if (validationError || !record) {
+    return { error: validationError, data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .update(record)
+    .eq("id", endpointId)
+    .select(ENDPOINT_COLUMNS);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: ADMIN_ONLY_ERROR, data: null };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, data: data[0] as WebhookEndpoint };
+}
+
+/**
+ * Pause or resume a webhook endpoint; deliveries queued while paused are skipped
+ */
+export async function toggleWebhookEndpoint(endpointId: string, isActive: boolean) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .update({ is_active: isActive })
+    .eq("id", endpointId)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: ADMIN_ONLY_ERROR, success: false };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, success: true };
+}
+
+/**
+ * Replace an endpoint's signing secret; the old one stops working immediately
+ */
+export async function rotateWebhookSecret(endpointId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated", data: null };
+  }
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .update({ secret: generateWebhookSecret() })
+    .eq("id", endpointId)
+    .select(ENDPOINT_COLUMNS);
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: ADMIN_ONLY_ERROR, data: null };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, data: data[0] as WebhookEndpoint };
+}
+
+/**
+ * Delete a webhook endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(endpointId: string) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", endpointId)
+    .select("id");
+
+  if (error) {
+    return { error: error.message, success: false };
+  }
+
+  if (!data || data.length === 0) {
+    return { error: ADMIN_ONLY_ERROR, success: false };
+  }
+
+  revalidatePath("/dashboard/settings");
+  return { error: null, success: true };
+}
+
+/**
+ * Latest deliveries of the workspace, optionally for one endpoint, newest first
+ */
+export async function getWebhookDeliveries(workspaceId: string, endpointId?: string) {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from("webhook_deliveries")
+    .select(
+      "id, endpoint_id, event_id, event_type, payload, status, attempt_count, response_status, response_body, error, last_attempt_at, delivered_at, created_at"
+    )
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (endpointId) {
+    query = query.eq("endpoint_id", endpointId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { error: error.message, data: null };
+  }
+
+  return { error: null, data: (data || []) as WebhookDelivery[] };
+}
+
+/**
+ * Emit report.generated for a saved report
+ * Never fails the caller - the report exists whether or not webhooks were queued
+ */
+export async function notifyReportGenerated(reportId: string) {
+  try {
+    const response = await fetch(`${getBackendUrl()}/webhooks/report-generated`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ report_id: reportId }),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Orchestrator responded with ${response.status}`);
+    }
+  } catch (err) {
+    console.error("Failed to emit report.generated:", err);
+    return { error: err instanceof Error ? err.message : "Failed to reach the orchestrator", success: false };
+  }
+
+  return { error: null, success: true };
+}
@@ -0,0 +1,89 @@
+import type { ApiContext } from "./auth";
+import type { ApiFilters } from "./filters";
+import { ApiError, fromDatabaseError, type Pagination } from "./http";
+
+// =============================================
+// PUBLIC API - AI RESPONSES
+// =============================================
+// Successful AI responses of a project with their brand mentions and citations
+// embedded, filtered like the dashboard's responses page.
+
+const MENTION_COLUMNS =
+  "id, brand_type, competitor_id, entity_name, mentioned_text, start_index, end_index, confidence_score, ranking_position, is_recommended, is_first_mention";
+
+const CITATION_COLUMNS =
+  "id, url, canonical_url, domain, web_search_query, citation_type, source_category, competitor_id, text, start_index, end_index";
+
+function responseColumns(innerJoinPrompt: boolean) {
+  return `
+    id,
+    prompt_tracking_id,
+    prompt_version_id,
+    platform,
+    model_version,
+    prompt_text,
+    response_text,
+    created_at,
+    prompt_tracking${innerJoinPrompt ? "!inner" : ""}(region_id, topic_id),
+    brand_mentions(${MENTION_COLUMNS}),
+    citations(${CITATION_COLUMNS})
+  `;
+}
+
+interface ResponseRow {
+  prompt_tracking: { region_id: string | null; topic_id: string | null } | null;
+  [column: string]: unknown;
+}
+
+function toApiResponse({ prompt_tracking, ...response }: ResponseRow) {
+  return {
+    ...response,
+    region_id: prompt_tracking?.region_id ?? null,
+    topic_id: prompt_tracking?.topic_id ?? null,
+  };
+}
+
+export async function listAIResponses(
+  ctx: ApiContext,
+  projectId: string,
+  filters: ApiFilters,
+  pagination: Pagination
+) {
+  const filterByPrompt = Boolean(filters.regionId || filters.topicId);
+
+  let query = ctx.supabase
+    .from("ai_responses")
+    .select(responseColumns(filterByPrompt), { count: "exact" })
+    .eq("project_id", projectId)
+    .eq("status", "success")
+    .gte("created_at", `${filters.from}T00:00:00.000Z`)
+    .lte("created_at", `${filters.to}T23:59:59.999Z`);
+
+  if (filters.platform) query = query.eq("platform", filters.platform);
+  if (filters.regionId) query = query.eq("prompt_tracking.region_id", filters.regionId);
+  if (filters.topicId) query = query.eq("prompt_tracking.topic_id", filters.topicId);
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range(pagination.from, pagination.to)
+    .returns<ResponseRow[]>();
+
+  if (error) throw fromDatabaseError(error);
+
+  return { data: (data || []).map(toApiResponse), total: count || 0 };
+}
+
+export async function getAIResponse(ctx: ApiContext, projectId: string, responseId: string) {
+  const { data, error } = await ctx.supabase
+    .from("ai_responses")
+    .select(responseColumns(false))
+    .eq("project_id", projectId)
+    .eq("id", responseId)
+    .returns<ResponseRow[]>()
+    .maybeSingle();
+
+  if (error && error.code !== "22P02") throw fromDatabaseError(error);
+  if (!data) throw new ApiError(404, "not_found", "Response not found");
+
+  return toApiResponse(data);
+}
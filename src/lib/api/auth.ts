@@ -0,0 +1,112 @@
+import { createHash, randomBytes } from "crypto";
+import type { NextRequest } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+import { isApiKeyScope, type ApiKeyScope } from "@/lib/constants/api-keys";
+import { ApiError, apiErrorResponse } from "./http";
+
+// =============================================
+// PUBLIC API - API KEY AUTHENTICATION
+// =============================================
+// Clients send "Authorization: Bearer geo_<key>". Keys are looked up by their
+// SHA-256 hash and every request counts against the key's per-minute limit;
+// the X-RateLimit-* headers are sent on every authenticated response.
+
+const API_KEY_PREFIX = "geo_";
+const KEY_PREFIX_LENGTH = 12;
+
+export interface ApiContext {
+  supabase: SupabaseClient;
+  keyId: string;
+  workspaceId: string;
+  scopes: ApiKeyScope[];
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+type ApiHandler<P> = (request: NextRequest, ctx: ApiContext, params: P) => Promise<Response>;
+
+/**
+ * New plain key and what is stored for it (the plain key is never stored)
+ */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+interface ConsumedKey {
+  key_id: string;
+  workspace_id: string;
+  scopes: string[];
+  rate_limit: number;
+  remaining: number;
+  reset_at: string;
+  limited: boolean;
+}
+
+/**
+ * Wrap a route handler: authenticate the key, check the scope, count the
+ * request against the rate limit and turn thrown ApiErrors into responses
+ */
+export function withApiKey<P = Record<string, never>>(scope: ApiKeyScope, handler: ApiHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    const authorization = request.headers.get("authorization") || "";
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+
+    if (!match || !match[1].startsWith(API_KEY_PREFIX)) {
+      return apiErrorResponse(new ApiError(401, "unauthorized", "Missing or malformed API key. Send it as: Authorization: Bearer <key>"));
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("consume_api_key", { p_key_hash: hashApiKey(match[1]) });
+
+    if (error) {
+      return apiErrorResponse(error);
+    }
+
+    const consumed = (data as ConsumedKey[] | null)?.[0];
+    if (!consumed) {
+      return apiErrorResponse(new ApiError(401, "unauthorized", "Invalid, revoked or expired API key"));
+    }
+
+    const resetSeconds = Math.ceil(new Date(consumed.reset_at).getTime() / 1000);
+    const headers: Record<string, string> = {
+      "X-RateLimit-Limit": String(consumed.rate_limit),
+      "X-RateLimit-Remaining": String(consumed.remaining),
+      "X-RateLimit-Reset": String(resetSeconds),
+    };
+
+    if (consumed.limited) {
+      headers["Retry-After"] = String(Math.max(1, resetSeconds - Math.floor(Date.now() / 1000)));
+      return apiErrorResponse(
+        new ApiError(429, "rate_limited", `Rate limit of ${consumed.rate_limit} requests per minute exceeded`),
+        headers
+      );
+    }
+
+    const scopes = consumed.scopes.filter(isApiKeyScope);
+    if (!scopes.includes(scope)) {
+      return apiErrorResponse(new ApiError(403, "forbidden", `This API key is missing the ${scope} scope`), headers);
+    }
+
+    try {
+      const response = await handler(
+        request,
+        { supabase, keyId: consumed.key_id, workspaceId: consumed.workspace_id, scopes },
+        await context.params
+      );
+      Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+      return response;
+    } catch (err) {
+      return apiErrorResponse(err, headers);
+    }
+  };
+}
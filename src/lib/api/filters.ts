@@ -0,0 +1,132 @@
+import { format, subDays, differenceInCalendarDays, parseISO, isValid } from "date-fns";
+import type { ApiContext } from "./auth";
+import { ApiError } from "./http";
+
+// =============================================
+// PUBLIC API - FILTERS
+// =============================================
+// Query parameters shared by the responses and stats endpoints, matching the
+// dashboard's FiltersToolbar:
+//   from, to         YYYY-MM-DD, inclusive (default: the 30 days ending yesterday)
+//   platform         openai | gemini | claude | perplexity (omit or "all" for every platform)
+//   region           region code (omit or "GLOBAL" for every region)
+//   topic_id         topic UUID (omit or "all" for every topic)
+//   sentiment_theme  sentiment theme UUID (sentiment endpoint only)
+
+const MAX_RANGE_DAYS = 366;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Legacy dashboard platform ids
+const PLATFORM_ALIASES: Record<string, string> = {
+  chatgpt: "openai",
+  anthropic: "claude",
+};
+
+export interface ApiFilters {
+  from: string;
+  to: string;
+  platform: string | null;
+  region: string | null;
+  regionId: string | null;
+  topicId: string | null;
+  sentimentThemeId: string | null;
+  excludedPlatforms: string[]; // Engines hidden by workspace branding (share links only)
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = parseISO(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(date)) {
+    throw new ApiError(400, "invalid_request", `${name} must be a date in YYYY-MM-DD format`);
+  }
+  return date;
+}
+
+function parseUuid(value: string | null, name: string): string | null {
+  if (!value || value === "all") return null;
+  if (!UUID_PATTERN.test(value)) {
+    throw new ApiError(400, "invalid_request", `${name} must be a UUID`);
+  }
+  return value;
+}
+
+/**
+ * Validate the filters and resolve region codes and topics of the project
+ */
+export async function parseApiFilters(
+  ctx: ApiContext,
+  projectId: string,
+  searchParams: URLSearchParams
+): Promise<ApiFilters> {
+  const toParam = searchParams.get("to");
+  const fromParam = searchParams.get("from");
+
+  const to = toParam ? parseDate(toParam, "to") : subDays(new Date(), 1);
+  const from = fromParam ? parseDate(fromParam, "from") : subDays(to, 29);
+
+  const rangeDays = differenceInCalendarDays(to, from);
+  if (rangeDays < 0) {
+    throw new ApiError(400, "invalid_request", "from must be on or before to");
+  }
+  if (rangeDays >= MAX_RANGE_DAYS) {
+    throw new ApiError(400, "invalid_request", `The date range can't be longer than ${MAX_RANGE_DAYS} days`);
+  }
+
+  const platformParam = searchParams.get("platform")?.toLowerCase();
+  const platform = !platformParam || platformParam === "all" ? null : PLATFORM_ALIASES[platformParam] || platformParam;
+
+  const regionParam = searchParams.get("region")?.toUpperCase();
+  const region = !regionParam || regionParam === "GLOBAL" ? null : regionParam;
+  let regionId: string | null = null;
+  if (region) {
+    const { data } = await ctx.supabase
+      .from("regions")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("code", region)
+      .maybeSingle();
+
+    if (!data) {
+      throw new ApiError(400, "invalid_request", `Region "${region}" not found in this project`);
+    }
+    regionId = data.id;
+  }
+
+  const topicId = parseUuid(searchParams.get("topic_id"), "topic_id");
+  if (topicId) {
+    const { data } = await ctx.supabase
+      .from("topics")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("id", topicId)
+      .maybeSingle();
+
+    if (!data) {
+      throw new ApiError(400, "invalid_request", `Topic ${topicId} not found in this project`);
+    }
+  }
+
+  return {
+    from: format(from, "yyyy-MM-dd"),
+    to: format(to, "yyyy-MM-dd"),
+    platform,
+    region,
+    regionId,
+    topicId,
+    sentimentThemeId: parseUuid(searchParams.get("sentiment_theme"), "sentiment_theme"),
+    excludedPlatforms: [],
+  };
+}
+
+/**
+ * Echo of the applied filters, returned with every series
+ */
+export function describeFilters(filters: ApiFilters) {
+  return {
+    from: filters.from,
+    to: filters.to,
+    platform: filters.platform ?? "all",
+    region: filters.region ?? "GLOBAL",
+    topic_id: filters.topicId,
+    sentiment_theme: filters.sentimentThemeId,
+  };
+}
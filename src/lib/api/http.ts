@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import type * as z from "zod";
+
+// =============================================
+// PUBLIC API - HTTP HELPERS
+// =============================================
+// Every /api/v1 response is JSON. Errors use one shape:
+//   { "error": { "code": "not_found", "message": "Project not found" } }
+
+export type ApiErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "invalid_request"
+  | "conflict"
+  | "rate_limited"
+  | "internal_error";
+
+/**
+ * Error surfaced to API clients with its HTTP status
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function apiJson(body: unknown, status: number = 200, headers?: HeadersInit) {
+  return NextResponse.json(body, { status, headers });
+}
+
+export function apiErrorResponse(error: unknown, headers?: HeadersInit) {
+  if (error instanceof ApiError) {
+    return apiJson({ error: { code: error.code, message: error.message } }, error.status, headers);
+  }
+
+  console.error("[API] Unexpected error:", error);
+  return apiJson(
+    { error: { code: "internal_error", message: "Something went wrong, please try again" } },
+    500,
+    headers
+  );
+}
+
+/**
+ * Map a Supabase/PostgREST error to an ApiError
+ * 23505 = unique violation, 23503 = foreign key violation, 23514 = check violation
+ */
+export function fromDatabaseError(error: { code?: string; message: string }, conflictMessage?: string): ApiError {
+  if (error.code === "23505") {
+    return new ApiError(409, "conflict", conflictMessage || "A record with these values already exists");
+  }
+  if (error.code === "23503" || error.code === "23514" || error.code === "22P02") {
+    return new ApiError(400, "invalid_request", error.message);
+  }
+  return new ApiError(500, "internal_error", error.message);
+}
+
+/**
+ * Parse and validate a JSON request body
+ */
+export async function readJsonBody<T extends z.ZodType>(request: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, "invalid_request", "Request body must be valid JSON");
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    throw new ApiError(400, "invalid_request", `${path}${issue.message}`);
+  }
+
+  return result.data;
+}
+
+// =============================================
+// PAGINATION
+// =============================================
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Read ?page= and ?page_size= (1-based page)
+ */
+export function parsePagination(searchParams: URLSearchParams): Pagination {
+  const page = parsePositiveInt(searchParams.get("page"), "page") ?? 1;
+  const pageSize = Math.min(parsePositiveInt(searchParams.get("page_size"), "page_size") ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const from = (page - 1) * pageSize;
+  return { page, pageSize, from, to: from + pageSize - 1 };
+}
+
+export function paginated<T>(data: T[], total: number, pagination: Pagination) {
+  return {
+    data,
+    pagination: {
+      page: pagination.page,
+      page_size: pagination.pageSize,
+      total,
+      total_pages: Math.ceil(total / pagination.pageSize),
+    },
+  };
+}
+
+function parsePositiveInt(value: string | null, name: string): number | null {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ApiError(400, "invalid_request", `${name} must be a positive integer`);
+  }
+  return parsed;
+}
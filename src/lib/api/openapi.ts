@@ -0,0 +1,624 @@
+import { API_KEY_SCOPES } from "@/lib/constants/api-keys";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./http";
+
+// =============================================
+// PUBLIC API - OPENAPI DOCUMENT
+// =============================================
+// Served at /api/v1/openapi.json. Keep in sync with the routes in src/app/api/v1.
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const param = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+
+const uuid: Schema = { type: "string", format: "uuid" };
+const nullableUuid: Schema = { type: ["string", "null"], format: "uuid" };
+const timestamp: Schema = { type: "string", format: "date-time" };
+const color: Schema = { type: "string", pattern: "^#[0-9a-fA-F]{6}$", example: "#3B82F6" };
+
+const errorResponses = {
+  "400": { $ref: "#/components/responses/InvalidRequest" },
+  "401": { $ref: "#/components/responses/Unauthorized" },
+  "403": { $ref: "#/components/responses/Forbidden" },
+  "404": { $ref: "#/components/responses/NotFound" },
+  "429": { $ref: "#/components/responses/RateLimited" },
+};
+
+function dataResponse(schema: Schema, description: string = "OK") {
+  return {
+    description,
+    content: {
+      "application/json": { schema: { type: "object", properties: { data: schema }, required: ["data"] } },
+    },
+  };
+}
+
+function listResponse(item: string) {
+  return dataResponse({ type: "array", items: ref(item) });
+}
+
+function jsonBody(schema: Schema) {
+  return { required: true, content: { "application/json": { schema } } };
+}
+
+function seriesResponse(item: string) {
+  return {
+    description: "OK",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: { filters: ref("AppliedFilters"), data: { type: "array", items: ref(item) } },
+          required: ["filters", "data"],
+        },
+      },
+    },
+  };
+}
+
+/**
+ * CRUD paths of a project resource (prompts, competitors, topics, regions)
+ */
+function resourcePaths(path: string, tag: string, item: string, create: string, update: string) {
+  const scope = (s: string) => [{ apiKey: [s] }];
+  return {
+    [`/projects/{projectId}/${path}`]: {
+      parameters: [param("projectId")],
+      get: {
+        tags: [tag],
+        summary: `List ${path}`,
+        security: scope("projects:read"),
+        responses: { "200": listResponse(item), ...errorResponses },
+      },
+      post: {
+        tags: [tag],
+        summary: `Create a ${tag.toLowerCase()}`,
+        security: scope("projects:write"),
+        requestBody: jsonBody(ref(create)),
+        responses: {
+          "201": dataResponse(ref(item), "Created"),
+          "409": { $ref: "#/components/responses/Conflict" },
+          ...errorResponses,
+        },
+      },
+    },
+    [`/projects/{projectId}/${path}/{id}`]: {
+      parameters: [param("projectId"), { name: "id", in: "path", required: true, schema: uuid }],
+      get: {
+        tags: [tag],
+        summary: `Get a ${tag.toLowerCase()}`,
+        security: scope("projects:read"),
+        responses: { "200": dataResponse(ref(item)), ...errorResponses },
+      },
+      patch: {
+        tags: [tag],
+        summary: `Update a ${tag.toLowerCase()}`,
+        security: scope("projects:write"),
+        requestBody: jsonBody(ref(update)),
+        responses: {
+          "200": dataResponse(ref(item)),
+          "409": { $ref: "#/components/responses/Conflict" },
+          ...errorResponses,
+        },
+      },
+      delete: {
+        tags: [tag],
+        summary: `Delete a ${tag.toLowerCase()}`,
+        security: scope("projects:write"),
+        responses: { "204": { description: "Deleted" }, ...errorResponses },
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const scopeDescriptions = Object.fromEntries(
+    Object.values(API_KEY_SCOPES).map((scope) => [scope.id, scope.description])
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "GEO Analytics API",
+      version: "1.0.0",
+      description: [
+        "Programmatic access to the projects, AI responses and metrics of a workspace.",
+        "",
+        "Authenticate with a workspace API key (Settings > API Keys): `Authorization: Bearer geo_...`.",
+        "Each key has scopes and a per-minute rate limit; every response carries `X-RateLimit-Limit`,",
+        "`X-RateLimit-Remaining` and `X-RateLimit-Reset` (unix seconds), and 429 responses a `Retry-After`.",
+        "",
+        "Errors have the shape `{ \"error\": { \"code\": \"not_found\", \"message\": \"...\" } }`.",
+      ].join("\n"),
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    tags: [
+      { name: "Projects" },
+      { name: "Prompts" },
+      { name: "Competitors" },
+      { name: "Topics" },
+      { name: "Regions" },
+      { name: "Responses" },
+      { name: "Stats" },
+    ],
+    paths: {
+      "/projects": {
+        get: {
+          tags: ["Projects"],
+          summary: "List the workspace's projects",
+          security: [{ apiKey: ["projects:read"] }],
+          responses: { "200": listResponse("Project"), ...errorResponses },
+        },
+        post: {
+          tags: ["Projects"],
+          summary: "Create a project",
+          security: [{ apiKey: ["projects:write"] }],
+          requestBody: jsonBody(ref("ProjectCreate")),
+          responses: {
+            "201": dataResponse(ref("Project"), "Created"),
+            "409": { $ref: "#/components/responses/Conflict" },
+            ...errorResponses,
+          },
+        },
+      },
+      "/projects/{projectId}": {
+        parameters: [param("projectId")],
+        get: {
+          tags: ["Projects"],
+          summary: "Get a project",
+          security: [{ apiKey: ["projects:read"] }],
+          responses: { "200": dataResponse(ref("Project")), ...errorResponses },
+        },
+        patch: {
+          tags: ["Projects"],
+          summary: "Update a project",
+          security: [{ apiKey: ["projects:write"] }],
+          requestBody: jsonBody(ref("ProjectUpdate")),
+          responses: { "200": dataResponse(ref("Project")), ...errorResponses },
+        },
+        delete: {
+          tags: ["Projects"],
+          summary: "Delete a project and all its data",
+          security: [{ apiKey: ["projects:write"] }],
+          responses: { "204": { description: "Deleted" }, ...errorResponses },
+        },
+      },
+      ...resourcePaths("prompts", "Prompts", "Prompt", "PromptCreate", "PromptUpdate"),
+      ...resourcePaths("competitors", "Competitors", "Competitor", "CompetitorCreate", "CompetitorUpdate"),
+      ...resourcePaths("topics", "Topics", "Topic", "TopicCreate", "TopicUpdate"),
+      ...resourcePaths("regions", "Regions", "Region", "RegionCreate", "RegionUpdate"),
+      "/projects/{projectId}/responses": {
+        parameters: [param("projectId")],
+        get: {
+          tags: ["Responses"],
+          summary: "List successful AI responses with their mentions and citations, newest first",
+          security: [{ apiKey: ["responses:read"] }],
+          parameters: [
+            param("from"),
+            param("to"),
+            param("platform"),
+            param("region"),
+            param("topicId"),
+            param("page"),
+            param("pageSize"),
+          ],
+          responses: {
+            "200": {
+              description: "OK",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      data: { type: "array", items: ref("AIResponse") },
+                      pagination: ref("Pagination"),
+                    },
+                    required: ["data", "pagination"],
+                  },
+                },
+              },
+            },
+            ...errorResponses,
+          },
+        },
+      },
+      "/projects/{projectId}/responses/{responseId}": {
+        parameters: [param("projectId"), { name: "responseId", in: "path", required: true, schema: uuid }],
+        get: {
+          tags: ["Responses"],
+          summary: "Get an AI response with its mentions and citations",
+          security: [{ apiKey: ["responses:read"] }],
+          responses: { "200": dataResponse(ref("AIResponse")), ...errorResponses },
+        },
+      },
+      "/projects/{projectId}/stats/daily": {
+        parameters: [param("projectId")],
+        get: {
+          tags: ["Stats"],
+          summary: "Daily mentions, citations and ranking metrics per entity",
+          security: [{ apiKey: ["stats:read"] }],
+          parameters: [param("from"), param("to"), param("platform"), param("region"), param("topicId")],
+          responses: { "200": seriesResponse("DailyStatsPoint"), ...errorResponses },
+        },
+      },
+      "/projects/{projectId}/stats/share-of-voice": {
+        parameters: [param("projectId")],
+        get: {
+          tags: ["Stats"],
+          summary: "Daily Share of Voice per entity",
+          security: [{ apiKey: ["stats:read"] }],
+          parameters: [param("from"), param("to"), param("platform"), param("region"), param("topicId")],
+          responses: { "200": seriesResponse("ShareOfVoicePoint"), ...errorResponses },
+        },
+      },
+      "/projects/{projectId}/stats/sentiment": {
+        parameters: [param("projectId")],
+        get: {
+          tags: ["Stats"],
+          summary: "Daily sentiment evaluations per entity",
+          security: [{ apiKey: ["stats:read"] }],
+          parameters: [
+            param("from"),
+            param("to"),
+            param("platform"),
+            param("region"),
+            param("topicId"),
+            param("sentimentTheme"),
+          ],
+          responses: { "200": seriesResponse("SentimentPoint"), ...errorResponses },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: `Workspace API key. Scopes: ${Object.entries(scopeDescriptions)
+            .map(([id, description]) => `\`${id}\` (${description})`)
+            .join(", ")}.`,
+        },
+      },
+      parameters: {
+        projectId: { name: "projectId", in: "path", required: true, schema: uuid },
+        from: {
+          name: "from",
+          in: "query",
+          description: "First day (inclusive). Defaults to 29 days before `to`.",
+          schema: { type: "string", format: "date" },
+        },
+        to: {
+          name: "to",
+          in: "query",
+          description: "Last day (inclusive). Defaults to yesterday. Ranges are limited to 366 days.",
+          schema: { type: "string", format: "date" },
+        },
+        platform: {
+          name: "platform",
+          in: "query",
+          description: "AI platform, or `all`",
+          schema: { type: "string", examples: ["openai", "gemini", "claude", "perplexity"] },
+        },
+        region: {
+          name: "region",
+          in: "query",
+          description: "Region code of the project, or `GLOBAL` for every region",
+          schema: { type: "string", example: "US" },
+        },
+        topicId: { name: "topic_id", in: "query", description: "Topic of the project, or `all`", schema: uuid },
+        sentimentTheme: {
+          name: "sentiment_theme",
+          in: "query",
+          description: "Only evaluations that mention this sentiment theme",
+          schema: uuid,
+        },
+        page: { name: "page", in: "query", schema: { type: "integer", minimum: 1, default: 1 } },
+        pageSize: {
+          name: "page_size",
+          in: "query",
+          schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+        },
+      },
+      responses: {
+        InvalidRequest: { description: "Invalid parameters or body", content: { "application/json": { schema: ref("Error") } } },
+        Unauthorized: { description: "Missing, invalid, revoked or expired API key", content: { "application/json": { schema: ref("Error") } } },
+        Forbidden: { description: "The API key lacks the required scope", content: { "application/json": { schema: ref("Error") } } },
+        NotFound: { description: "Not found in the key's workspace", content: { "application/json": { schema: ref("Error") } } },
+        Conflict: { description: "A record with these values already exists", content: { "application/json": { schema: ref("Error") } } },
+        RateLimited: {
+          description: "Per-key rate limit exceeded",
+          headers: { "Retry-After": { schema: { type: "integer" }, description: "Seconds until the limit resets" } },
+          content: { "application/json": { schema: ref("Error") } },
+        },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: {
+                code: {
+                  type: "string",
+                  enum: ["unauthorized", "forbidden", "not_found", "invalid_request", "conflict", "rate_limited", "internal_error"],
+                },
+                message: { type: "string" },
+              },
+              required: ["code", "message"],
+            },
+          },
+          required: ["error"],
+        },
+        Pagination: {
+          type: "object",
+          properties: {
+            page: { type: "integer" },
+            page_size: { type: "integer" },
+            total: { type: "integer" },
+            total_pages: { type: "integer" },
+          },
+        },
+        AppliedFilters: {
+          type: "object",
+          properties: {
+            from: { type: "string", format: "date" },
+            to: { type: "string", format: "date" },
+            platform: { type: "string" },
+            region: { type: "string" },
+            topic_id: nullableUuid,
+            sentiment_theme: nullableUuid,
+          },
+        },
+        Project: {
+          type: "object",
+          properties: {
+            id: uuid,
+            workspace_id: uuid,
+            name: { type: "string" },
+            slug: { type: "string" },
+            brand_name: { type: ["string", "null"] },
+            client_url: { type: ["string", "null"] },
+            description: { type: ["string", "null"] },
+            color: color,
+            brand_aliases: { type: "array", items: { type: "string" } },
+            created_at: timestamp,
+            updated_at: timestamp,
+          },
+        },
+        ProjectCreate: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            client_url: { type: "string", description: "Brand website" },
+            description: { type: ["string", "null"] },
+            color: color,
+          },
+          required: ["name", "client_url"],
+        },
+        ProjectUpdate: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            client_url: { type: "string" },
+            description: { type: ["string", "null"] },
+            color: color,
+          },
+        },
+        Prompt: {
+          type: "object",
+          properties: {
+            id: uuid,
+            project_id: uuid,
+            prompt: { type: "string" },
+            category: { type: ["string", "null"] },
+            region_id: nullableUuid,
+            topic_id: nullableUuid,
+            is_active: { type: "boolean" },
+            created_at: timestamp,
+            updated_at: timestamp,
+          },
+        },
+        PromptCreate: {
+          type: "object",
+          properties: {
+            prompt: { type: "string" },
+            region: { type: "string", description: "Code of an active region of the project (not GLOBAL)" },
+            topic_id: nullableUuid,
+            category: { type: "string" },
+            is_active: { type: "boolean", default: true },
+          },
+          required: ["prompt", "region"],
+        },
+        PromptUpdate: {
+          type: "object",
+          properties: {
+            prompt: { type: "string" },
+            region: { type: "string" },
+            topic_id: nullableUuid,
+            category: { type: "string" },
+            is_active: { type: "boolean" },
+          },
+        },
+        Competitor: {
+          type: "object",
+          properties: {
+            id: uuid,
+            project_id: uuid,
+            name: { type: "string" },
+            domain: { type: "string" },
+            region: { type: "string" },
+            color: color,
+            aliases: { type: "array", items: { type: "string" } },
+            favicon: { type: ["string", "null"] },
+            is_active: { type: "boolean" },
+            created_at: timestamp,
+            updated_at: timestamp,
+          },
+        },
+        CompetitorCreate: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            domain: { type: "string" },
+            region: { type: "string", default: "GLOBAL" },
+            color: color,
+            aliases: { type: "array", items: { type: "string" } },
+            is_active: { type: "boolean", default: true },
+          },
+          required: ["name", "domain"],
+        },
+        CompetitorUpdate: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            domain: { type: "string" },
+            region: { type: "string" },
+            color: color,
+            aliases: { type: "array", items: { type: "string" } },
+            is_active: { type: "boolean" },
+          },
+        },
+        Topic: {
+          type: "object",
+          properties: {
+            id: uuid,
+            project_id: uuid,
+            name: { type: "string" },
+            slug: { type: ["string", "null"] },
+            color: { type: ["string", "null"] },
+            created_at: timestamp,
+            updated_at: timestamp,
+          },
+        },
+        TopicCreate: {
+          type: "object",
+          properties: { name: { type: "string" }, color: color },
+          required: ["name"],
+        },
+        TopicUpdate: {
+          type: "object",
+          properties: { name: { type: "string" }, color: color },
+        },
+        Region: {
+          type: "object",
+          properties: {
+            id: uuid,
+            project_id: uuid,
+            code: { type: "string", example: "US" },
+            name: { type: "string" },
+            is_active: { type: "boolean" },
+            created_at: timestamp,
+            updated_at: timestamp,
+          },
+        },
+        RegionCreate: {
+          type: "object",
+          properties: {
+            code: { type: "string", minLength: 2, maxLength: 6, description: "Country code; GLOBAL is reserved" },
+            name: { type: "string", description: "Defaults to the country name" },
+            is_active: { type: "boolean", default: true },
+          },
+          required: ["code"],
+        },
+        RegionUpdate: {
+          type: "object",
+          properties: { name: { type: "string" }, is_active: { type: "boolean" } },
+        },
+        Mention: {
+          type: "object",
+          properties: {
+            id: uuid,
+            brand_type: { type: "string", enum: ["client", "competitor"] },
+            competitor_id: nullableUuid,
+            entity_name: { type: "string" },
+            mentioned_text: { type: "string" },
+            start_index: { type: ["integer", "null"] },
+            end_index: { type: ["integer", "null"] },
+            confidence_score: { type: ["number", "null"] },
+            ranking_position: { type: ["integer", "null"] },
+            is_recommended: { type: "boolean" },
+            is_first_mention: { type: "boolean" },
+          },
+        },
+        Citation: {
+          type: "object",
+          properties: {
+            id: uuid,
+            url: { type: ["string", "null"] },
+            canonical_url: { type: ["string", "null"] },
+            domain: { type: ["string", "null"] },
+            web_search_query: { type: ["string", "null"] },
+            citation_type: { type: ["string", "null"] },
+            source_category: { type: ["string", "null"] },
+            competitor_id: nullableUuid,
+            text: { type: ["string", "null"] },
+            start_index: { type: ["integer", "null"] },
+            end_index: { type: ["integer", "null"] },
+          },
+        },
+        AIResponse: {
+          type: "object",
+          properties: {
+            id: uuid,
+            prompt_tracking_id: uuid,
+            prompt_version_id: nullableUuid,
+            platform: { type: "string" },
+            model_version: { type: "string" },
+            prompt_text: { type: "string" },
+            response_text: { type: ["string", "null"] },
+            region_id: nullableUuid,
+            topic_id: nullableUuid,
+            created_at: timestamp,
+            brand_mentions: { type: "array", items: ref("Mention") },
+            citations: { type: "array", items: ref("Citation") },
+          },
+        },
+        DailyStatsPoint: {
+          type: "object",
+          properties: {
+            date: { type: "string", format: "date" },
+            entity_type: { type: "string", enum: ["brand", "competitor"] },
+            competitor_id: nullableUuid,
+            entity_name: { type: "string" },
+            mentions: { type: "integer" },
+            citations: { type: "integer" },
+            responses_analyzed: { type: "integer" },
+            ranked_responses: { type: "integer" },
+            average_position: { type: ["number", "null"] },
+            top3_count: { type: "integer" },
+            first_mention_count: { type: "integer" },
+            recommended_count: { type: "integer" },
+          },
+        },
+        ShareOfVoicePoint: {
+          type: "object",
+          properties: {
+            date: { type: "string", format: "date" },
+            entity_type: { type: "string", enum: ["brand", "competitor"] },
+            competitor_id: nullableUuid,
+            entity_name: { type: "string" },
+            mentions: { type: "integer" },
+            total_mentions: { type: "integer" },
+            share_percentage: { type: "number", description: "0-100" },
+          },
+        },
+        SentimentPoint: {
+          type: "object",
+          properties: {
+            date: { type: "string", format: "date" },
+            entity_type: { type: "string", enum: ["brand", "competitor"] },
+            competitor_id: nullableUuid,
+            entity_name: { type: "string" },
+            evaluations: { type: "integer" },
+            positive: { type: "integer" },
+            neutral: { type: "integer" },
+            negative: { type: "integer" },
+            mixed: { type: "integer" },
+            average_score: { type: ["number", "null"], description: "-1 (negative) to 1 (positive)" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import * as z from "zod";
+import type { ApiContext } from "./auth";
+import { ApiError, fromDatabaseError } from "./http";
+
+// =============================================
+// PUBLIC API - PROJECTS
+// =============================================
+// API keys belong to a workspace; every project lookup is scoped to it so a
+// key can never reach another workspace's data through the service client.
+
+export const PROJECT_COLUMNS =
+  "id, workspace_id, name, slug, brand_name, client_url, description, color, brand_aliases, created_at, updated_at";
+
+export const createProjectSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  client_url: z.string().trim().min(1, "Website URL is required"),
+  description: z.string().trim().max(2000).nullish(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3B82F6").optional(),
+});
+
+export const updateProjectSchema = createProjectSchema.partial();
+
+function generateSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/[\s_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Load a project of the key's workspace or throw 404
+ */
+export async function getWorkspaceProject(ctx: ApiContext, projectId: string) {
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .select(PROJECT_COLUMNS)
+    .eq("id", projectId)
+    .eq("workspace_id", ctx.workspaceId)
+    .maybeSingle();
+
+  if (error && error.code !== "22P02") {
+    throw fromDatabaseError(error);
+  }
+
+  if (!data) {
+    throw new ApiError(404, "not_found", "Project not found");
+  }
+
+  return data;
+}
+
+export async function listProjects(ctx: ApiContext) {
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .select(PROJECT_COLUMNS)
+    .eq("workspace_id", ctx.workspaceId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw fromDatabaseError(error);
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a project; the user who created the key becomes its admin,
+ * as when the project is created from the dashboard
+ */
+export async function createProject(ctx: ApiContext, input: z.infer<typeof createProjectSchema>) {
+  const { data: apiKey } = await ctx.supabase
+    .from("api_keys")
+    .select("created_by")
+    .eq("id", ctx.keyId)
+    .single();
+
+  const { data: project, error } = await ctx.supabase
+    .from("projects")
+    .insert({
+      workspace_id: ctx.workspaceId,
+      name: input.name,
+      slug: generateSlug(input.name),
+      brand_name: input.name,
+      client_url: input.client_url,
+      description: input.description ?? null,
+      color: input.color || "#3B82F6",
+    })
+    .select(PROJECT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw fromDatabaseError(error, "A project with this name already exists in the workspace");
+  }
+
+  if (apiKey?.created_by) {
+    const { error: memberError } = await ctx.supabase.from("project_members").insert({
+      project_id: project.id,
+      user_id: apiKey.created_by,
+      role: "admin",
+    });
+
+    if (memberError) {
+      console.error("[API] Failed to add project admin:", memberError);
+    }
+  }
+
+  return project;
+}
+
+export async function updateProject(ctx: ApiContext, projectId: string, input: z.infer<typeof updateProjectSchema>) {
+  await getWorkspaceProject(ctx, projectId);
+
+  const updates: Record<string, unknown> = {};
+  if (input.name !== undefined) {
+    updates.name = input.name;
+    updates.slug = generateSlug(input.name);
+    updates.brand_name = input.name;
+  }
+  if (input.client_url !== undefined) updates.client_url = input.client_url;
+  if (input.description !== undefined) updates.description = input.description;
+  if (input.color !== undefined) updates.color = input.color;
+
+  if (Object.keys(updates).length === 0) {
+    throw new ApiError(400, "invalid_request", "Nothing to update");
+  }
+
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .update(updates)
+    .eq("id", projectId)
+    .eq("workspace_id", ctx.workspaceId)
+    .select(PROJECT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw fromDatabaseError(error, "A project with this name already exists in the workspace");
+  }
+
+  return data;
+}
+
+export async function deleteProject(ctx: ApiContext, projectId: string) {
+  await getWorkspaceProject(ctx, projectId);
+
+  const { error } = await ctx.supabase
+    .from("projects")
+    .delete()
+    .eq("id", projectId)
+    .eq("workspace_id", ctx.workspaceId);
+
+  if (error) {
+    throw fromDatabaseError(error);
+  }
+}
@@ -0,0 +1,323 @@
+import * as z from "zod";
+import { getCountryByCode } from "@/lib/countries";
+import { normalizeAliases } from "@/lib/utils";
+import { withApiKey, type ApiContext } from "./auth";
+import { ApiError, apiJson, fromDatabaseError, readJsonBody } from "./http";
+import { getWorkspaceProject } from "./projects";
+
+// =============================================
+// PUBLIC API - PROJECT RESOURCES
+// =============================================
+// Prompts, competitors, topics and regions share the same CRUD endpoints:
+//   GET/POST          /api/v1/projects/{projectId}/{resource}
+//   GET/PATCH/DELETE  /api/v1/projects/{projectId}/{resource}/{id}
+// Each resource only describes its table and how input maps to columns;
+// validation mirrors the dashboard server actions.
+
+interface ProjectResource<C extends z.ZodType, U extends z.ZodType> {
+  table: string;
+  label: string;
+  columns: string;
+  orderBy: string;
+  conflictMessage: string;
+  createSchema: C;
+  updateSchema: U;
+  toInsert: (ctx: ApiContext, projectId: string, input: z.infer<C>) => Promise<Record<string, unknown>>;
+  toUpdate: (ctx: ApiContext, projectId: string, input: z.infer<U>) => Promise<Record<string, unknown>>;
+}
+
+type ResourceParams = { projectId: string };
+type ResourceItemParams = { projectId: string; id: string };
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3B82F6");
+
+function generateSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/[\s_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Prompts reference an active region of the project by code (GLOBAL is virtual)
+ */
+async function resolvePromptRegion(ctx: ApiContext, projectId: string, region: string): Promise<string> {
+  const regionCode = region.toUpperCase();
+  if (regionCode === "GLOBAL") {
+    throw new ApiError(400, "invalid_request", "GLOBAL is a virtual region and cannot be used for prompts");
+  }
+
+  const { data } = await ctx.supabase
+    .from("regions")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("code", regionCode)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (!data) {
+    throw new ApiError(400, "invalid_request", `Region "${regionCode}" not found or is inactive`);
+  }
+
+  return data.id;
+}
+
+async function assertProjectTopic(ctx: ApiContext, projectId: string, topicId: string) {
+  const { data } = await ctx.supabase
+    .from("topics")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("id", topicId)
+    .maybeSingle();
+
+  if (!data) {
+    throw new ApiError(400, "invalid_request", `Topic ${topicId} not found in this project`);
+  }
+}
+
+function normalizeRegionCode(code: string): string {
+  const normalized = code.toUpperCase().trim();
+  if (normalized === "GLOBAL") {
+    throw new ApiError(400, "invalid_request", "GLOBAL is a virtual region and cannot be created");
+  }
+  return normalized;
+}
+
+// =============================================
+// RESOURCE DEFINITIONS
+// =============================================
+
+const createPromptSchema = z.object({
+  prompt: z.string().trim().min(1, "Prompt is required").max(2000),
+  region: z.string().trim().min(2, "Region code is required"),
+  topic_id: z.uuid().nullish(),
+  category: z.string().trim().max(100).optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const promptsResource: ProjectResource<typeof createPromptSchema, ReturnType<typeof createPromptSchema.partial>> = {
+  table: "prompt_tracking",
+  label: "Prompt",
+  columns: "id, project_id, prompt, category, region_id, topic_id, is_active, created_at, updated_at",
+  orderBy: "created_at",
+  conflictMessage: "This prompt already exists",
+  createSchema: createPromptSchema,
+  updateSchema: createPromptSchema.partial(),
+  toInsert: async (ctx, projectId, input) => {
+    if (input.topic_id) await assertProjectTopic(ctx, projectId, input.topic_id);
+    return {
+      prompt: input.prompt,
+      region_id: await resolvePromptRegion(ctx, projectId, input.region),
+      topic_id: input.topic_id ?? null,
+      ...(input.category ? { category: input.category } : {}),
+      is_active: input.is_active ?? true,
+    };
+  },
+  toUpdate: async (ctx, projectId, input) => {
+    const updates: Record<string, unknown> = {};
+    if (input.prompt !== undefined) updates.prompt = input.prompt;
+    if (input.region !== undefined) updates.region_id = await resolvePromptRegion(ctx, projectId, input.region);
+    if (input.topic_id !== undefined) {
+      if (input.topic_id) await assertProjectTopic(ctx, projectId, input.topic_id);
+      updates.topic_id = input.topic_id;
+    }
+    if (input.category !== undefined) updates.category = input.category;
+    if (input.is_active !== undefined) updates.is_active = input.is_active;
+    return updates;
+  },
+};
+
+const createCompetitorSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  domain: z.string().trim().min(1, "Domain is required").max(255),
+  region: z.string().trim().min(2).max(6).optional(),
+  color: colorSchema.optional(),
+  aliases: z.array(z.string()).optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const competitorsResource: ProjectResource<
+  typeof createCompetitorSchema,
+  ReturnType<typeof createCompetitorSchema.partial>
+> = {
+  table: "competitors",
+  label: "Competitor",
+  columns: "id, project_id, name, domain, region, color, aliases, favicon, is_active, created_at, updated_at",
+  orderBy: "created_at",
+  conflictMessage: "This competitor already exists for this project",
+  createSchema: createCompetitorSchema,
+  updateSchema: createCompetitorSchema.partial(),
+  toInsert: async (_ctx, _projectId, input) => ({
+    name: input.name,
+    domain: input.domain,
+    region: input.region?.toUpperCase() || "GLOBAL",
+    color: input.color || "#3B82F6",
+    aliases: normalizeAliases(input.aliases || []),
+    is_active: input.is_active ?? true,
+  }),
+  toUpdate: async (_ctx, _projectId, input) => {
+    const updates: Record<string, unknown> = {};
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.domain !== undefined) updates.domain = input.domain;
+    if (input.region !== undefined) updates.region = input.region.toUpperCase();
+    if (input.color !== undefined) updates.color = input.color;
+    if (input.aliases !== undefined) updates.aliases = normalizeAliases(input.aliases);
+    if (input.is_active !== undefined) updates.is_active = input.is_active;
+    return updates;
+  },
+};
+
+const createTopicSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  color: colorSchema.optional(),
+});
+
+export const topicsResource: ProjectResource<typeof createTopicSchema, ReturnType<typeof createTopicSchema.partial>> = {
+  table: "topics",
+  label: "Topic",
+  columns: "id, project_id, name, slug, color, created_at, updated_at",
+  orderBy: "name",
+  conflictMessage: "A topic with this name already exists",
+  createSchema: createTopicSchema,
+  updateSchema: createTopicSchema.partial(),
+  toInsert: async (_ctx, _projectId, input) => ({
+    name: input.name,
+    slug: generateSlug(input.name),
+    color: input.color,
+  }),
+  toUpdate: async (_ctx, _projectId, input) => {
+    const updates: Record<string, unknown> = {};
+    if (input.name !== undefined) {
+      updates.name = input.name;
+      updates.slug = generateSlug(input.name);
+    }
+    if (input.color !== undefined) updates.color = input.color;
+    return updates;
+  },
+};
+
+const createRegionSchema = z.object({
+  code: z.string().trim().min(2, "Region code must be 2-6 characters").max(6, "Region code must be 2-6 characters"),
+  name: z.string().trim().min(1).max(100).optional(),
+  is_active: z.boolean().optional(),
+});
+
+const updateRegionSchema = createRegionSchema.omit({ code: true }).partial();
+
+export const regionsResource: ProjectResource<typeof createRegionSchema, typeof updateRegionSchema> = {
+  table: "regions",
+  label: "Region",
+  columns: "id, project_id, code, name, is_active, created_at, updated_at",
+  orderBy: "code",
+  conflictMessage: "A region with this code already exists",
+  createSchema: createRegionSchema,
+  updateSchema: updateRegionSchema,
+  toInsert: async (_ctx, _projectId, input) => {
+    const code = normalizeRegionCode(input.code);
+    return {
+      code,
+      name: input.name || getCountryByCode(code)?.name || code,
+      is_active: input.is_active ?? true,
+    };
+  },
+  toUpdate: async (_ctx, _projectId, input) => {
+    const updates: Record<string, unknown> = {};
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.is_active !== undefined) updates.is_active = input.is_active;
+    return updates;
+  },
+};
+
+// =============================================
+// ROUTE HANDLERS
+// =============================================
+
+/**
+ * Collection (list/create) and item (get/update/delete) handlers for a resource
+ */
+export function projectResourceRoutes<C extends z.ZodType, U extends z.ZodType>(resource: ProjectResource<C, U>) {
+  const notFound = () => new ApiError(404, "not_found", `${resource.label} not found`);
+
+  const findItem = async (ctx: ApiContext, projectId: string, id: string) => {
+    await getWorkspaceProject(ctx, projectId);
+
+    const { data, error } = await ctx.supabase
+      .from(resource.table)
+      .select(resource.columns)
+      .eq("project_id", projectId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error && error.code !== "22P02") throw fromDatabaseError(error);
+    if (!data) throw notFound();
+    return data;
+  };
+
+  return {
+    list: withApiKey<ResourceParams>("projects:read", async (_request, ctx, { projectId }) => {
+      await getWorkspaceProject(ctx, projectId);
+
+      const { data, error } = await ctx.supabase
+        .from(resource.table)
+        .select(resource.columns)
+        .eq("project_id", projectId)
+        .order(resource.orderBy, { ascending: true });
+
+      if (error) throw fromDatabaseError(error);
+      return apiJson({ data: data || [] });
+    }),
+
+    create: withApiKey<ResourceParams>("projects:write", async (request, ctx, { projectId }) => {
+      await getWorkspaceProject(ctx, projectId);
+      const input = await readJsonBody(request, resource.createSchema);
+
+      const { data, error } = await ctx.supabase
+        .from(resource.table)
+        .insert({ ...(await resource.toInsert(ctx, projectId, input)), project_id: projectId })
+        .select(resource.columns)
+        .single();
+
+      if (error) throw fromDatabaseError(error, resource.conflictMessage);
+      return apiJson({ data }, 201);
+    }),
+
+    get: withApiKey<ResourceItemParams>("projects:read", async (_request, ctx, { projectId, id }) => {
+      return apiJson({ data: await findItem(ctx, projectId, id) });
+    }),
+
+    update: withApiKey<ResourceItemParams>("projects:write", async (request, ctx, { projectId, id }) => {
+      await findItem(ctx, projectId, id);
+      const updates = await resource.toUpdate(ctx, projectId, await readJsonBody(request, resource.updateSchema));
+
+      if (Object.keys(updates).length === 0) {
+        throw new ApiError(400, "invalid_request", "Nothing to update");
+      }
+
+      const { data, error } = await ctx.supabase
+        .from(resource.table)
+        .update(updates)
+        .eq("project_id", projectId)
+        .eq("id", id)
+        .select(resource.columns)
+        .single();
+
+      if (error) throw fromDatabaseError(error, resource.conflictMessage);
+      return apiJson({ data });
+    }),
+
+    remove: withApiKey<ResourceItemParams>("projects:write", async (_request, ctx, { projectId, id }) => {
+      await findItem(ctx, projectId, id);
+
+      const { error } = await ctx.supabase
+        .from(resource.table)
+        .delete()
+        .eq("project_id", projectId)
+        .eq("id", id);
+
+      if (error) throw fromDatabaseError(error);
+      return new Response(null, { status: 204 });
+    }),
+  };
+}
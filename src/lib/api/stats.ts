@@ -0,0 +1,267 @@
+import type { ApiContext } from "./auth";
+import type { ApiFilters } from "./filters";
+import { fromDatabaseError } from "./http";
+
+// =============================================
+// PUBLIC API - STATS TIME SERIES
+// =============================================
+// Daily series per tracked entity (the brand and each competitor):
+// - daily stats and Share of Voice come from daily_brand_stats, summed over the
+//   platform/region/topic dimensions that aren't filtered
+// - sentiment comes from brand_evaluations
+// Public share links (src/lib/share/public.ts) read the same series with their
+// own service-role client.
+
+type StatsContext = Pick<ApiContext, "supabase">;
+
+const PAGE_SIZE = 1000;
+
+// PostgREST caps every response, so long ranges are read page by page
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { code?: string; message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw fromDatabaseError(error);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+interface DailyBrandStatRow {
+  stat_date: string;
+  entity_type: "brand" | "competitor";
+  competitor_id: string | null;
+  entity_name: string;
+  mentions_count: number | null;
+  citations_count: number | null;
+  responses_analyzed: number | null;
+  ranked_responses: number | null;
+  position_sum: number | null;
+  top3_count: number | null;
+  first_mention_count: number | null;
+  recommended_count: number | null;
+  competitors: { is_active: boolean } | null;
+}
+
+export interface DailyStatsPoint {
+  date: string;
+  entity_type: "brand" | "competitor";
+  competitor_id: string | null;
+  entity_name: string;
+  mentions: number;
+  citations: number;
+  responses_analyzed: number;
+  ranked_responses: number;
+  average_position: number | null;
+  top3_count: number;
+  first_mention_count: number;
+  recommended_count: number;
+}
+
+async function getDailyBrandStatRows(ctx: StatsContext, projectId: string, filters: ApiFilters) {
+  const rows = await fetchAllRows<DailyBrandStatRow>((from, to) => {
+    let query = ctx.supabase
+      .from("daily_brand_stats")
+      .select(`
+        stat_date,
+        entity_type,
+        competitor_id,
+        entity_name,
+        mentions_count,
+        citations_count,
+        responses_analyzed,
+        ranked_responses,
+        position_sum,
+        top3_count,
+        first_mention_count,
+        recommended_count,
+        competitors(is_active)
+      `)
+      .eq("project_id", projectId)
+      .gte("stat_date", filters.from)
+      .lte("stat_date", filters.to);
+
+    if (filters.platform) query = query.eq("platform", filters.platform);
+    if (filters.excludedPlatforms.length > 0) {
+      query = query.not("platform", "in", `(${filters.excludedPlatforms.join(",")})`);
+    }
+    if (filters.regionId) query = query.eq("region_id", filters.regionId);
+    if (filters.topicId) query = query.eq("topic_id", filters.topicId);
+
+    return query.order("stat_date", { ascending: true }).range(from, to).returns<DailyBrandStatRow[]>();
+  });
+
+  // Same as the dashboard: deactivated competitors are hidden
+  return rows.filter((row) => row.entity_type === "brand" || row.competitors?.is_active !== false);
+}
+
+function entityKey(row: { entity_type: string; competitor_id: string | null; entity_name: string }) {
+  return row.entity_type === "brand" ? "brand" : row.competitor_id || row.entity_name;
+}
+
+/**
+ * Mentions, citations and ranking metrics per day and entity
+ */
+export async function getDailyStatsSeries(ctx: StatsContext, projectId: string, filters: ApiFilters) {
+  const rows = await getDailyBrandStatRows(ctx, projectId, filters);
+  const points = new Map<string, DailyStatsPoint & { position_sum: number }>();
+
+  rows.forEach((row) => {
+    const key = `${row.stat_date}|${entityKey(row)}`;
+    let point = points.get(key);
+    if (!point) {
+      point = {
+        date: row.stat_date,
+        entity_type: row.entity_type,
+        competitor_id: row.competitor_id,
+        entity_name: row.entity_name,
+        mentions: 0,
+        citations: 0,
+        responses_analyzed: 0,
+        ranked_responses: 0,
+        average_position: null,
+        top3_count: 0,
+        first_mention_count: 0,
+        recommended_count: 0,
+        position_sum: 0,
+      };
+      points.set(key, point);
+    }
+
+    point.mentions += row.mentions_count || 0;
+    point.citations += row.citations_count || 0;
+    point.responses_analyzed += row.responses_analyzed || 0;
+    point.ranked_responses += row.ranked_responses || 0;
+    point.position_sum += row.position_sum || 0;
+    point.top3_count += row.top3_count || 0;
+    point.first_mention_count += row.first_mention_count || 0;
+    point.recommended_count += row.recommended_count || 0;
+  });
+
+  return Array.from(points.values()).map(({ position_sum, ...point }) => ({
+    ...point,
+    average_position: point.ranked_responses > 0 ? Math.round((position_sum / point.ranked_responses) * 100) / 100 : null,
+  }));
+}
+
+/**
+ * Share of mentions per day: each entity's mentions over all tracked mentions that day
+ */
+export async function getShareOfVoiceSeries(ctx: StatsContext, projectId: string, filters: ApiFilters) {
+  const points = await getDailyStatsSeries(ctx, projectId, filters);
+
+  const totalsByDate = new Map<string, number>();
+  points.forEach((point) => {
+    totalsByDate.set(point.date, (totalsByDate.get(point.date) || 0) + point.mentions);
+  });
+
+  return points.map((point) => {
+    const total = totalsByDate.get(point.date) || 0;
+    return {
+      date: point.date,
+      entity_type: point.entity_type,
+      competitor_id: point.competitor_id,
+      entity_name: point.entity_name,
+      mentions: point.mentions,
+      total_mentions: total,
+      share_percentage: total > 0 ? Math.round((point.mentions / total) * 10000) / 100 : 0,
+    };
+  });
+}
+
+interface BrandEvaluationRow {
+  entity_type: "brand" | "competitor";
+  competitor_id: string | null;
+  entity_name: string;
+  sentiment: "positive" | "neutral" | "negative" | "mixed" | null;
+  sentiment_score: number | null;
+  created_at: string;
+}
+
+/**
+ * Sentiment evaluations per day and entity, with the average score (-1..1)
+ */
+export async function getSentimentSeries(ctx: StatsContext, projectId: string, filters: ApiFilters) {
+  // Evaluations store the topic by name
+  let topicName: string | null = null;
+  if (filters.topicId) {
+    const { data: topic } = await ctx.supabase.from("topics").select("name").eq("id", filters.topicId).single();
+    topicName = topic?.name ?? null;
+  }
+
+  const rows = await fetchAllRows<BrandEvaluationRow>((from, to) => {
+    let query = ctx.supabase
+      .from("brand_evaluations")
+      .select("entity_type, competitor_id, entity_name, sentiment, sentiment_score, created_at")
+      .eq("project_id", projectId)
+      .gte("created_at", `${filters.from}T00:00:00.000Z`)
+      .lte("created_at", `${filters.to}T23:59:59.999Z`);
+
+    if (filters.platform) query = query.eq("platform", filters.platform);
+    if (filters.excludedPlatforms.length > 0) {
+      query = query.not("platform", "in", `(${filters.excludedPlatforms.join(",")})`);
+    }
+    if (filters.regionId) query = query.eq("region_id", filters.regionId);
+    if (topicName) query = query.eq("topic", topicName);
+    if (filters.sentimentThemeId) {
+      query = query.or(
+        `positive_theme_ids.cs.{${filters.sentimentThemeId}},negative_theme_ids.cs.{${filters.sentimentThemeId}}`
+      );
+    }
+
+    return query.order("created_at", { ascending: true }).range(from, to).returns<BrandEvaluationRow[]>();
+  });
+
+  const points = new Map<
+    string,
+    {
+      date: string;
+      entity_type: "brand" | "competitor";
+      competitor_id: string | null;
+      entity_name: string;
+      evaluations: number;
+      positive: number;
+      neutral: number;
+      negative: number;
+      mixed: number;
+      scoreSum: number;
+      scored: number;
+    }
+  >();
+
+  rows.forEach((row) => {
+    const date = row.created_at.slice(0, 10);
+    const key = `${date}|${entityKey(row)}`;
+    let point = points.get(key);
+    if (!point) {
+      point = {
+        date,
+        entity_type: row.entity_type,
+        competitor_id: row.competitor_id,
+        entity_name: row.entity_name,
+        evaluations: 0,
+        positive: 0,
+        neutral: 0,
+        negative: 0,
+        mixed: 0,
+        scoreSum: 0,
+        scored: 0,
+      };
+      points.set(key, point);
+    }
+
+    point.evaluations++;
+    if (row.sentiment) point[row.sentiment]++;
+    if (row.sentiment_score !== null) {
+      point.scoreSum += Number(row.sentiment_score);
+      point.scored++;
+    }
+  });
+
+  return Array.from(points.values()).map(({ scoreSum, scored, ...point }) => ({
+    ...point,
+    average_score: scored > 0 ? Math.round((scoreSum / scored) * 1000) / 1000 : null,
+  }));
+}
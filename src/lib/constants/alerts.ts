@@ -0,0 +1,66 @@
+// Alert rule display configuration
+// Keep ids in sync with the orchestrator's evaluator (backend-orchestrator/src/lib/alerts.ts)
+// and the CHECK constraints on alert_rules.
+export const ALERT_RULE_TYPES = {
+  share_below: {
+    id: "share_below",
+    name: "Mention share below",
+    description: "Your share of brand mentions falls under a minimum",
+    thresholdLabel: "Minimum mention share (%)",
+  },
+  metric_drop: {
+    id: "metric_drop",
+    name: "Drop vs 7-day average",
+    description: "A metric drops more than a percentage below its trailing 7-day average",
+    thresholdLabel: "Maximum drop (%)",
+  },
+  competitor_overtake: {
+    id: "competitor_overtake",
+    name: "Competitor overtakes us",
+    description: "A competitor gets more mentions than you on a platform where it had fewer the day before",
+    thresholdLabel: null,
+  },
+  negative_sentiment: {
+    id: "negative_sentiment",
+    name: "Sentiment turns negative",
+    description: "Your average sentiment on a topic falls below a score after being above it",
+    thresholdLabel: "Negative below score (-1 to 1)",
+  },
+  new_competitor: {
+    id: "new_competitor",
+    name: "New competitor detected",
+    description: "A brand you don't track appears in AI answers for the first time",
+    thresholdLabel: null,
+  },
+} as const;
+
+export type AlertRuleType = keyof typeof ALERT_RULE_TYPES;
+
+export const ALERT_RULE_TYPE_IDS = Object.keys(ALERT_RULE_TYPES) as AlertRuleType[];
+
+export function isAlertRuleType(value: string): value is AlertRuleType {
+  return value in ALERT_RULE_TYPES;
+}
+
+// Metrics watched by metric_drop rules
+export const ALERT_METRICS = {
+  mentions: { id: "mentions", name: "Mentions" },
+  mention_share: { id: "mention_share", name: "Mention share" },
+  citations: { id: "citations", name: "Citations" },
+} as const;
+
+export type AlertMetric = keyof typeof ALERT_METRICS;
+
+export const ALERT_METRIC_IDS = Object.keys(ALERT_METRICS) as AlertMetric[];
+
+export function isAlertMetric(value: string): value is AlertMetric {
+  return value in ALERT_METRICS;
+}
+
+export const ALERT_SEVERITIES = {
+  info: { id: "info", name: "Info", badgeClass: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300" },
+  warning: { id: "warning", name: "Warning", badgeClass: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" },
+  critical: { id: "critical", name: "Critical", badgeClass: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+} as const;
+
+export type AlertSeverity = keyof typeof ALERT_SEVERITIES;
@@ -0,0 +1,35 @@
+// Scopes of workspace API keys for the public REST API (/api/v1)
+// Keep ids in sync with the CHECK constraint on api_keys.scopes.
+export const API_KEY_SCOPES = {
+  "projects:read": {
+    id: "projects:read",
+    name: "Read projects",
+    description: "List projects and their prompts, competitors, topics and regions",
+  },
+  "projects:write": {
+    id: "projects:write",
+    name: "Manage projects",
+    description: "Create, update and delete projects, prompts, competitors, topics and regions",
+  },
+  "responses:read": {
+    id: "responses:read",
+    name: "Read responses",
+    description: "AI responses with their brand mentions and citations",
+  },
+  "stats:read": {
+    id: "stats:read",
+    name: "Read stats",
+    description: "Daily stats, Share of Voice and sentiment time series",
+  },
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export const API_KEY_SCOPE_IDS = Object.keys(API_KEY_SCOPES) as ApiKeyScope[];
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return value in API_KEY_SCOPES;
+}
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 10000;
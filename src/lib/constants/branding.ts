@@ -0,0 +1,26 @@
+// White-label branding configuration
+// Keep ids in sync with the orchestrator (backend-orchestrator/src/lib/branding.ts)
+// and the CHECK constraint on workspace_branding.hidden_metrics.
+export const REPORT_METRICS = {
+  visibility: { id: "visibility", name: "Visibility Score" },
+  share_of_voice: { id: "share_of_voice", name: "Share of Voice" },
+  sentiment: { id: "sentiment", name: "Sentiment" },
+  attributes: { id: "attributes", name: "Attributes" },
+  new_competitors: { id: "new_competitors", name: "New Competitors on Radar" },
+} as const;
+
+export type ReportMetric = keyof typeof REPORT_METRICS;
+
+export const REPORT_METRIC_IDS = Object.keys(REPORT_METRICS) as ReportMetric[];
+
+export function isReportMetric(value: string): value is ReportMetric {
+  return value in REPORT_METRICS;
+}
+
+// Colors of unbranded reports
+export const DEFAULT_BRAND_COLORS = {
+  primary: "#3b82f6",
+  secondary: "#64748b",
+} as const;
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
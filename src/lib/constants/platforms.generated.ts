@@ -0,0 +1,41 @@
+// Generated from the orchestrator provider registry by
+// backend-orchestrator/scripts/generate-platforms.ts. Do not edit: register the
+// engine in backend-orchestrator/src/lib/ai-clients.ts and run `bun run generate:platforms`.
+export const PLATFORMS = {
+  openai: {
+    id: "openai",
+    name: "OpenAI",
+    color: "#10b981",
+    rgb: "16, 185, 129",
+    bgColor: "bg-emerald-500",
+    textColor: "text-emerald-600",
+    enabledByDefault: true,
+  },
+  gemini: {
+    id: "gemini",
+    name: "Gemini",
+    color: "#3b82f6",
+    rgb: "59, 130, 246",
+    bgColor: "bg-blue-500",
+    textColor: "text-blue-600",
+    enabledByDefault: true,
+  },
+  claude: {
+    id: "claude",
+    name: "Claude",
+    color: "#f97316",
+    rgb: "249, 115, 22",
+    bgColor: "bg-orange-500",
+    textColor: "text-orange-600",
+    enabledByDefault: true,
+  },
+  perplexity: {
+    id: "perplexity",
+    name: "Perplexity",
+    color: "#a855f7",
+    rgb: "168, 85, 247",
+    bgColor: "bg-purple-500",
+    textColor: "text-purple-600",
+    enabledByDefault: true,
+  },
+} as const;
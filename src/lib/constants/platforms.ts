@@ -1,19 +1,40 @@
 // Platform display configuration
-export const PLATFORMS = {
-  openai: {
-    id: "openai",
-    name: "OpenAI",
-    color: "#10b981", // emerald
-    bgColor: "bg-emerald-500",
-    textColor: "text-emerald-600",
-  },
-  gemini: {
-    id: "gemini",
-    name: "Gemini",
-    color: "#3b82f6", // blue
-    bgColor: "bg-blue-500",
-    textColor: "text-blue-600",
-  },
-} as const;
+// PLATFORMS is generated from the orchestrator's provider registry (display colors and
+// enabledByDefault included): run `bun run generate:platforms` in backend-orchestrator.
+import { PLATFORMS } from "./platforms.generated";
+
+export { PLATFORMS };
 
 export type PlatformId = keyof typeof PLATFORMS;
+
+export const PLATFORM_IDS = Object.keys(PLATFORMS) as PlatformId[];
+
+export function isPlatformId(value: string): value is PlatformId {
+  return value in PLATFORMS;
+}
+
+/**
+ * Display config for any platform id, including engines enabled in the
+ * orchestrator that the dashboard doesn't know about yet
+ */
+export function getPlatformConfig(platform: string) {
+  if (isPlatformId(platform)) {
+    return PLATFORMS[platform];
+  }
+  return {
+    id: platform,
+    name: platform.charAt(0).toUpperCase() + platform.slice(1),
+    color: "#6b7280", // gray
+    rgb: "107, 114, 128", // for rgba() intensity scales
+    bgColor: "bg-gray-500",
+    textColor: "text-gray-600",
+    enabledByDefault: false,
+  };
+}
+
+/**
+ * Build a record keyed by every platform id (e.g. per-platform breakdowns)
+ */
+export function mapPlatforms<T>(fn: (platform: PlatformId) => T): Record<PlatformId, T> {
+  return Object.fromEntries(PLATFORM_IDS.map((id) => [id, fn(id)])) as Record<PlatformId, T>;
+}
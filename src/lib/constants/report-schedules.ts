@@ -0,0 +1,43 @@
+// Scheduled report display configuration
+// Keep ids in sync with the orchestrator (backend-orchestrator/src/lib/report-schedules.ts)
+// and the CHECK constraints on report_schedules.
+export const REPORT_SCHEDULE_FREQUENCIES = {
+  daily: { id: "daily", name: "Daily", description: "Every day at the chosen hour" },
+  weekly: { id: "weekly", name: "Weekly", description: "Once a week on the chosen day" },
+  monthly: { id: "monthly", name: "Monthly", description: "Once a month on the chosen day (1-28)" },
+  paused: { id: "paused", name: "Paused", description: "Not sent until resumed; Send now still works" },
+} as const;
+
+export type ReportScheduleFrequency = keyof typeof REPORT_SCHEDULE_FREQUENCIES;
+
+export const REPORT_SCHEDULE_FREQUENCY_IDS = Object.keys(REPORT_SCHEDULE_FREQUENCIES) as ReportScheduleFrequency[];
+
+export function isReportScheduleFrequency(value: string): value is ReportScheduleFrequency {
+  return value in REPORT_SCHEDULE_FREQUENCIES;
+}
+
+// Languages reports are written in: scheduled PDFs and emails, and the
+// insights of a project's reports (projects.language)
+export const REPORT_LOCALES = {
+  en: { id: "en", name: "English" },
+  es: { id: "es", name: "Español" },
+} as const;
+
+export type ReportLocale = keyof typeof REPORT_LOCALES;
+
+export const REPORT_LOCALE_IDS = Object.keys(REPORT_LOCALES) as ReportLocale[];
+
+export function isReportLocale(value: string): value is ReportLocale {
+  return value in REPORT_LOCALES;
+}
+
+export const REPORT_SCHEDULE_STATUSES = {
+  sent: { id: "sent", name: "Sent", badgeClass: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  skipped: { id: "skipped", name: "Not emailed", badgeClass: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" },
+  failed: { id: "failed", name: "Failed", badgeClass: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+} as const;
+
+export type ReportScheduleStatus = keyof typeof REPORT_SCHEDULE_STATUSES;
+
+// Most recipients a schedule can have (CHECK on report_schedules.recipients)
+export const MAX_REPORT_RECIPIENTS = 20;
@@ -0,0 +1,61 @@
+// Public share link configuration
+// Keep ids in sync with the CHECK constraints on share_links.
+export const SHARE_VIEWS = {
+  visibility: {
+    id: "visibility",
+    name: "Visibility",
+    description: "Mentions and citations of the brand and its competitors",
+  },
+  share_of_voice: {
+    id: "share_of_voice",
+    name: "Share of Voice",
+    description: "Each brand's share of all tracked mentions",
+  },
+  sentiment: {
+    id: "sentiment",
+    name: "Sentiment",
+    description: "Average sentiment towards the brand and its competitors",
+  },
+} as const;
+
+export type ShareView = keyof typeof SHARE_VIEWS;
+
+export const SHARE_VIEW_IDS = Object.keys(SHARE_VIEWS) as ShareView[];
+
+export function isShareView(value: string): value is ShareView {
+  return value in SHARE_VIEWS;
+}
+
+// Dashboard filters frozen in a dashboard view link (share_links.filters)
+export type ShareViewFilters = {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  platform: string | null; // null = all platforms
+  region: string | null; // Region code, null = global
+  topic_id: string | null; // null = all topics
+};
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { days: 1, name: "1 day" },
+  { days: 7, name: "7 days" },
+  { days: 30, name: "30 days" },
+  { days: 90, name: "90 days" },
+  { days: 365, name: "1 year" },
+] as const;
+
+export const DEFAULT_SHARE_LINK_EXPIRY_DAYS = 30;
+export const MAX_SHARE_LINK_EXPIRY_DAYS = 365;
+export const MIN_SHARE_LINK_PASSWORD_LENGTH = 8;
+
+export const SHARE_LINK_STATUSES = {
+  active: { id: "active", name: "Active", badgeClass: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  expired: { id: "expired", name: "Expired", badgeClass: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" },
+  revoked: { id: "revoked", name: "Revoked", badgeClass: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+} as const;
+
+export type ShareLinkStatus = keyof typeof SHARE_LINK_STATUSES;
+
+export function getShareLinkStatus(link: { expires_at: string; revoked_at: string | null }): ShareLinkStatus {
+  if (link.revoked_at) return "revoked";
+  return new Date(link.expires_at) <= new Date() ? "expired" : "active";
+}
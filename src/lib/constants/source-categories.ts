@@ -0,0 +1,88 @@
+// Source category display configuration
+// Keep ids in sync with the orchestrator's classifier (backend-orchestrator/src/lib/source-classification.ts)
+// and the CHECK constraint on citations.source_category.
+export const SOURCE_CATEGORIES = {
+  review_site: {
+    id: "review_site",
+    name: "Review Site",
+    color: "#f59e0b", // amber
+    badgeClass: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  },
+  marketplace: {
+    id: "marketplace",
+    name: "Marketplace",
+    color: "#10b981", // emerald
+    badgeClass: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300",
+  },
+  news: {
+    id: "news",
+    name: "News & Media",
+    color: "#3b82f6", // blue
+    badgeClass: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  },
+  forum: {
+    id: "forum",
+    name: "Forum / UGC",
+    color: "#f97316", // orange
+    badgeClass: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300",
+  },
+  wikipedia: {
+    id: "wikipedia",
+    name: "Wikipedia",
+    color: "#64748b", // slate
+    badgeClass: "bg-slate-100 text-slate-800 dark:bg-slate-800/50 dark:text-slate-300",
+  },
+  social: {
+    id: "social",
+    name: "Social Network",
+    color: "#ec4899", // pink
+    badgeClass: "bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300",
+  },
+  government: {
+    id: "government",
+    name: "Government",
+    color: "#14b8a6", // teal
+    badgeClass: "bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300",
+  },
+  affiliate_blog: {
+    id: "affiliate_blog",
+    name: "Affiliate Blog",
+    color: "#a855f7", // purple
+    badgeClass: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
+  },
+  corporate: {
+    id: "corporate",
+    name: "Brand / Company Site",
+    color: "#6366f1", // indigo
+    badgeClass: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300",
+  },
+  other: {
+    id: "other",
+    name: "Other",
+    color: "#94a3b8", // slate-400
+    badgeClass: "bg-muted text-muted-foreground",
+  },
+} as const;
+
+export type SourceCategory = keyof typeof SOURCE_CATEGORIES;
+
+export const SOURCE_CATEGORY_IDS = Object.keys(SOURCE_CATEGORIES) as SourceCategory[];
+
+// Citations the orchestrator has not classified yet (see classify-citation-sources)
+export const UNCLASSIFIED_SOURCE = {
+  id: "unclassified",
+  name: "Unclassified",
+  color: "#e2e8f0", // slate-200
+  badgeClass: "border border-dashed text-muted-foreground",
+} as const;
+
+export function isSourceCategory(value: string): value is SourceCategory {
+  return value in SOURCE_CATEGORIES;
+}
+
+/**
+ * Display config for a source_category value, falling back to "Unclassified"
+ */
+export function getSourceCategoryConfig(category: string | null | undefined) {
+  return category && isSourceCategory(category) ? SOURCE_CATEGORIES[category] : UNCLASSIFIED_SOURCE;
+}
@@ -0,0 +1,52 @@
+// Outbound webhook events
+// Keep ids in sync with the orchestrator (backend-orchestrator/src/lib/webhooks.ts)
+// and the CHECK constraint on webhook_endpoints.events.
+export const WEBHOOK_EVENTS = {
+  "analysis.batch_completed": {
+    id: "analysis.batch_completed",
+    name: "Analysis batch completed",
+    description: "Every prompt of a scheduled, manual or replayed run has finished",
+  },
+  "response.stored": {
+    id: "response.stored",
+    name: "Response stored",
+    description: "A new AI answer was saved for a prompt and platform",
+  },
+  "mention.detected": {
+    id: "mention.detected",
+    name: "Brand mention detected",
+    description: "Brand analysis found your brand in an AI answer",
+  },
+  "competitor.discovered": {
+    id: "competitor.discovered",
+    name: "New potential competitor",
+    description: "A brand you don't track appeared in an AI answer for the first time",
+  },
+  "report.generated": {
+    id: "report.generated",
+    name: "Report generated",
+    description: "A detailed report was generated and saved",
+  },
+  "alert.fired": {
+    id: "alert.fired",
+    name: "Alert fired",
+    description: "One of the project's alert rules fired",
+  },
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return value in WEBHOOK_EVENTS;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed" | "skipped";
+
+export const WEBHOOK_DELIVERY_STATUSES: Record<WebhookDeliveryStatus, { name: string; badgeClass: string }> = {
+  pending: { name: "Pending", badgeClass: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" },
+  succeeded: { name: "Delivered", badgeClass: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  failed: { name: "Failed", badgeClass: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+  skipped: { name: "Skipped", badgeClass: "bg-muted text-muted-foreground" },
+};
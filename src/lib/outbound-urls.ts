@@ -0,0 +1,93 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+// =============================================
+// OUTBOUND URLS
+// =============================================
+// URLs workspaces configure for us to call (webhook endpoints, branding logos)
+// may only reach the public internet. The orchestrator checks them again before
+// every request (backend-orchestrator/src/lib/outbound-urls.ts, keep in sync);
+// this check lets the settings UI reject them on save.
+
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal"];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".").map(Number);
+  return parts.length === 4 && parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)
+    ? parts
+    : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata (169.254.169.254)
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = address.toLowerCase().replace(/^\[|\]$/g, "");
+
+  // IPv4-mapped (::ffff:10.0.0.1) addresses reach the IPv4 host
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  return (
+    ipv6 === "::" ||
+    ipv6 === "::1" ||
+    ipv6.startsWith("::ffff:") || // mapped, hex form
+    /^f[cd]/.test(ipv6) || // unique local (fc00::/7)
+    /^fe[89ab]/.test(ipv6) || // link-local (fe80::/10)
+    ipv6.startsWith("ff") // multicast
+  );
+}
+
+/**
+ * Why a URL can't be called from our servers, or null when it is a public
+ * https URL
+ */
+export async function getUnsafeUrlReason(rawUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return "Invalid URL";
+  }
+
+  if (url.protocol !== "https:") {
+    return "URL must start with https://";
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || INTERNAL_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return "URL must point to a public host";
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      return `Could not resolve ${host}`;
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return "URL must point to a public host, not a private or reserved address";
+  }
+
+  return null;
+}
@@ -328,13 +328,13 @@ export async function getAIResponseDetail(
   // Find position of first client brand mention
   let brandPosition: number | null = null;
   if (clientMentions.length > 0 && response.response_text) {
-    // Sort all mentions by start_index to find position
+    // Sort all mentions by start_index (mentions without a position last) to find position
     const sortedMentions = [...allMentions].sort(
-      (a: any, b: any) => (a.start_index || 0) - (b.start_index || 0)
-    );
-    const firstClientMentionIndex = sortedMentions.findIndex(
-      (m: any) => m.brand_type === "client"
+      (a: any, b: any) => (a.start_index ?? Infinity) - (b.start_index ?? Infinity)
     );
+    // One row per occurrence: rank entities by their first appearance
+    const entityOrder = Array.from(new Set(sortedMentions.map((m: any) => `${m.brand_type}:${m.entity_name}`)));
+    const firstClientMentionIndex = entityOrder.findIndex((key) => key.startsWith("client:"));
     brandPosition = firstClientMentionIndex >= 0 ? firstClientMentionIndex + 1 : null;
   }
 
@@ -1,6 +1,8 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
+import { getCitationDRBreakdown as getRealCitationDRBreakdown } from "./citations-real";
+import { normalizeDomain } from "@/lib/utils/domain-authority";
 
 // =============================================
 // QUICK LOOK METRICS
@@ -16,29 +18,12 @@ import { createClient } from "@/lib/supabase/server";
 export async function getQuickLookMetrics(projectId: string) {
   const supabase = await createClient();
 
-  // Total Citation Pages - count unique citing sources
-  const { count: totalCitationPages } = await supabase
-    .from("citation_sources")
-    .select("*", { count: "exact", head: true })
-    .eq("project_id", projectId);
-
-  // My Pages Cited - count unique pages from cited_pages linked to this project
-  const { data: myBrandDomain } = await supabase
-    .from("project_domains")
-    .select("domain_id")
-    .eq("project_id", projectId)
-    .eq("relationship_type", "my_brand")
-    .single();
-
-  let myPagesCited = 0;
-  if (myBrandDomain) {
-    const { count } = await supabase
-      .from("cited_pages")
-      .select("*", { count: "exact", head: true })
-      .eq("domain_id", myBrandDomain.domain_id)
-      .gt("citation_count", 0);
-    myPagesCited = count || 0;
-  }
+  // Total Citation Pages / My Pages Cited - distinct canonical pages, so the same
+  // page cited with different tracking params or redirects counts once
+  const [{ data: totalCitationPages }, { data: myPagesCited }] = await Promise.all([
+    supabase.rpc("count_distinct_citation_pages", { p_project_id: projectId }),
+    supabase.rpc("count_distinct_citation_pages", { p_project_id: projectId, p_citation_type: "brand" }),
+  ]);
 
   // Domains Mentioning Me - count unique citing domains
   const { data: citingSources } = await supabase
@@ -49,20 +34,27 @@ export async function getQuickLookMetrics(projectId: string) {
   const uniqueDomains = new Set(citingSources?.map((s) => s.citing_domain_id) || []);
   const domainsMentioningMe = uniqueDomains.size;
 
-  // Your Domain Rating - get from domains table
+  // Your Domain Rating - get from domain_authority using the project's website
   let yourDomainRating = 0;
-  if (myBrandDomain) {
-    const { data: domainData } = await supabase
-      .from("domains")
-      .select("domain_rating")
-      .eq("id", myBrandDomain.domain_id)
-      .single();
-    yourDomainRating = domainData?.domain_rating || 0;
+  const { data: project } = await supabase
+    .from("projects")
+    .select("client_url")
+    .eq("id", projectId)
+    .single();
+
+  if (project?.client_url) {
+    const { data: authority } = await supabase
+      .from("domain_authority")
+      .select("authority_score")
+      .eq("project_id", projectId)
+      .eq("domain", normalizeDomain(project.client_url))
+      .maybeSingle();
+    yourDomainRating = authority?.authority_score || 0;
   }
 
   return {
     totalCitationPages: totalCitationPages || 0,
-    myPagesCited,
+    myPagesCited: myPagesCited || 0,
     domainsMentioningMe,
     yourDomainRating,
   };
@@ -114,48 +106,10 @@ export async function getCitationsOverTime(
 
 /**
  * Get citation breakdown by Domain Rating tiers
+ * Tiers come from domain_authority (see citations-real)
  */
 export async function getCitationDRBreakdown(projectId: string) {
-  const supabase = await createClient();
-
-  // Get all citation sources with domain ratings
-  const { data, error } = await supabase
-    .from("citation_sources")
-    .select(
-      `
-      *,
-      citing_domain:domains!citation_sources_citing_domain_id_fkey(
-        domain_rating,
-        authority_category
-      )
-    `
-    )
-    .eq("project_id", projectId);
-
-  if (error) {
-    console.error("Error fetching DR breakdown:", error);
-    return {
-      high: 0,
-      medium: 0,
-      low: 0,
-      unverified: 0,
-    };
-  }
-
-  const breakdown = {
-    high: 0,
-    medium: 0,
-    low: 0,
-    unverified: 0,
-  };
-
-  data?.forEach((item) => {
-    const category = (item.citing_domain as any)?.authority_category;
-    if (category && breakdown.hasOwnProperty(category)) {
-      breakdown[category as keyof typeof breakdown]++;
-    }
-  });
-
+  const { breakdown } = await getRealCitationDRBreakdown(projectId);
   return breakdown;
 }
 
@@ -278,6 +232,8 @@ export async function getHighValueOpportunities(
 
 /**
  * Get your top-performing pages by citation count
+ * Pages are grouped by canonical URL (tracking params, host spelling and
+ * redirects removed), so each page appears once
  */
 export async function getTopPerformingPages(
   projectId: string,
@@ -285,22 +241,11 @@ export async function getTopPerformingPages(
 ) {
   const supabase = await createClient();
 
-  // Get my brand domain
-  const { data: myBrandDomain } = await supabase
-    .from("project_domains")
-    .select("domain_id")
-    .eq("project_id", projectId)
-    .eq("relationship_type", "my_brand")
-    .single();
-
-  if (!myBrandDomain) return [];
-
-  const { data, error } = await supabase
-    .from("cited_pages")
-    .select("*")
-    .eq("domain_id", myBrandDomain.domain_id)
-    .order("citation_count", { ascending: false })
-    .limit(limit);
+  const { data, error } = await supabase.rpc("get_top_cited_pages", {
+    p_project_id: projectId,
+    p_citation_type: "brand",
+    p_limit: limit,
+  });
 
   if (error) {
     console.error("Error fetching top performing pages:", error);
@@ -308,15 +253,21 @@ export async function getTopPerformingPages(
   }
 
   return (
-    data?.map((item) => ({
-      pageUrl: item.url,
-      pageTitle: item.title || item.url,
-      totalCitations: item.citation_count || 0,
-      uniqueAiAnswers: item.citation_count || 0, // Simplified
-      trend: undefined,
-      platformBreakdown: {},
-    })) || []
-  );
+    (data || []) as {
+      canonical_url: string;
+      title: string | null;
+      citations_count: number;
+      responses_count: number;
+      platform_counts: Record<string, number> | null;
+    }[]
+  ).map((item) => ({
+    pageUrl: item.canonical_url,
+    pageTitle: item.title || item.canonical_url,
+    totalCitations: Number(item.citations_count) || 0,
+    uniqueAiAnswers: Number(item.responses_count) || 0,
+    trend: undefined,
+    platformBreakdown: item.platform_counts || {},
+  }));
 }
 
 // =============================================
@@ -2,6 +2,8 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { getRegionIdByCode } from "@/lib/actions/regions";
+import { normalizeDomain, type AuthorityCategory } from "@/lib/utils/domain-authority";
+import { isSourceCategory, type SourceCategory } from "@/lib/constants/source-categories";
 
 type CitationFilterOptions = {
   fromDate?: Date;
@@ -69,6 +71,123 @@ function getYesterday(): Date {
   return yesterday;
 }
 
+type DomainAuthority = {
+  score: number; // 0-100, imported rating when present, otherwise the internal score
+  category: AuthorityCategory;
+  source: string | null; // Imported rating source, null for the internal score
+};
+
+/**
+ * Load authority scores (domain_authority) for a set of cited domains
+ * Keys are normalized domains; domains that were never scored are missing
+ */
+async function getDomainAuthorityMap(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  projectId: string,
+  domains: string[]
+): Promise<Map<string, DomainAuthority>> {
+  const authority = new Map<string, DomainAuthority>();
+  const normalized = Array.from(new Set(domains.map(normalizeDomain).filter(Boolean)));
+  if (normalized.length === 0) return authority;
+
+  // Chunked to keep the IN list within URL limits
+  const CHUNK_SIZE = 200;
+  for (let i = 0; i < normalized.length; i += CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("domain_authority")
+      .select("domain, authority_score, authority_category, imported_rating, imported_source")
+      .eq("project_id", projectId)
+      .in("domain", normalized.slice(i, i + CHUNK_SIZE));
+
+    if (error) {
+      console.error("Error fetching domain authority:", error);
+      return authority;
+    }
+
+    (data || []).forEach((row) => {
+      authority.set(row.domain, {
+        score: row.authority_score || 0,
+        category: row.authority_category,
+        source: row.imported_rating !== null ? row.imported_source || "imported" : null,
+      });
+    });
+  }
+
+  return authority;
+}
+
+type DomainSourceCategory = {
+  category: SourceCategory;
+  overridden: boolean; // Set by a project admin (domain_category_overrides)
+};
+
+/**
+ * Load source categories for a set of cited domains
+ * Precedence matches apply_domain_categories: project override, then the global
+ * cache. Brand/competitor sites are never cached, so domains still missing fall
+ * back to the category already stamped on the project's citations.
+ * Keys are normalized domains; unclassified domains are missing
+ */
+async function getDomainCategoryMap(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  projectId: string,
+  domains: string[]
+): Promise<Map<string, DomainSourceCategory>> {
+  const categories = new Map<string, DomainSourceCategory>();
+  const normalized = Array.from(new Set(domains.map(normalizeDomain).filter(Boolean)));
+  if (normalized.length === 0) return categories;
+
+  // Chunked to keep the IN list within URL limits
+  const CHUNK_SIZE = 200;
+  for (let i = 0; i < normalized.length; i += CHUNK_SIZE) {
+    const chunk = normalized.slice(i, i + CHUNK_SIZE);
+    const [overridesResult, cacheResult] = await Promise.all([
+      supabase
+        .from("domain_category_overrides")
+        .select("domain, category")
+        .eq("project_id", projectId)
+        .in("domain", chunk),
+      supabase.from("domain_categories").select("domain, category").in("domain", chunk),
+    ]);
+
+    if (overridesResult.error || cacheResult.error) {
+      console.error("Error fetching domain categories:", overridesResult.error || cacheResult.error);
+      return categories;
+    }
+
+    (cacheResult.data || []).forEach((row) => {
+      if (isSourceCategory(row.category)) {
+        categories.set(row.domain, { category: row.category, overridden: false });
+      }
+    });
+    (overridesResult.data || []).forEach((row) => {
+      if (isSourceCategory(row.category)) {
+        categories.set(row.domain, { category: row.category, overridden: true });
+      }
+    });
+  }
+
+  const missing = normalized.filter((domain) => !categories.has(domain));
+  if (missing.length > 0) {
+    const { data } = await supabase
+      .from("citations")
+      .select("domain, source_category")
+      .eq("project_id", projectId)
+      .in("domain", [...missing, ...missing.map((domain) => `www.${domain}`)])
+      .not("source_category", "is", null)
+      .limit(missing.length * 5);
+
+    (data || []).forEach((row: { domain: string; source_category: string }) => {
+      const domain = normalizeDomain(row.domain);
+      if (!categories.has(domain) && isSourceCategory(row.source_category)) {
+        categories.set(domain, { category: row.source_category, overridden: false });
+      }
+    });
+  }
+
+  return categories;
+}
+
 /**
  * Get real-time citations stats for today (after 4:30 AM cutoff)
  * Used to supplement daily_brand_stats when querying current day
@@ -1229,6 +1348,12 @@ export async function getMostCitedDomains(
       return [];
     }
 
+    const rowDomains = domainsData.map((row: { domain: string }) => row.domain);
+    const [authority, sourceCategories] = await Promise.all([
+      getDomainAuthorityMap(supabase, projectId, rowDomains),
+      getDomainCategoryMap(supabase, projectId, rowDomains),
+    ]);
+
     // Map SQL function results to expected format
     const domains = domainsData.map((row: any) => ({
       domain: row.domain,
@@ -1236,6 +1361,9 @@ export async function getMostCitedDomains(
         type: "Web Source",
       platforms: Array.isArray(row.platforms) ? row.platforms : [],
         changePercent: 0, // TODO: Calculate trend comparing with previous period
+      domainRating: authority.get(normalizeDomain(row.domain))?.score ?? null, // null until scored
+      sourceCategory: sourceCategories.get(normalizeDomain(row.domain))?.category ?? null, // null until classified
+      sourceCategoryOverridden: sourceCategories.get(normalizeDomain(row.domain))?.overridden ?? false,
     }));
 
     console.log("✅ [getMostCitedDomains] Successfully mapped", domains.length, "domains");
@@ -1250,6 +1378,147 @@ export async function getMostCitedDomains(
   }
 }
 
+// =============================================
+// CITATION DR BREAKDOWN (REAL DATA)
+// =============================================
+
+/**
+ * Distribution of citations by source authority tier (domain_authority)
+ * Domains that were never scored count as unverified. Also returns the
+ * authority of the project's own domain when it has been cited or imported.
+ */
+export async function getCitationDRBreakdown(
+  projectId: string,
+  filters: CitationFilterOptions = {}
+) {
+  const supabase = await createClient();
+  const breakdown = { high: 0, medium: 0, low: 0, unverified: 0 };
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("client_url")
+    .eq("id", projectId)
+    .single();
+
+  const ownDomain = project?.client_url ? normalizeDomain(project.client_url) : null;
+
+  let regionId: string | null = null;
+  if (filters?.region && filters.region !== "GLOBAL") {
+    regionId = await getRegionIdByCode(projectId, filters.region);
+    if (!regionId) {
+      return { breakdown, yourDomainRating: null };
+    }
+  }
+
+  // Same default range as getMostCitedDomains (last 30 days ending yesterday)
+  const endDate = filters?.toDate || getYesterday();
+  const startDate = filters?.fromDate || (() => {
+    const date = getYesterday();
+    date.setDate(date.getDate() - 29);
+    date.setHours(0, 0, 0, 0);
+    return date;
+  })();
+
+  // Per-domain citation counts; the long tail past the limit is cited once or twice
+  const { data: domainsData, error } = await supabase.rpc("get_most_cited_domains_aggregated", {
+    p_project_id: projectId,
+    p_from_date: startDate.toISOString(),
+    p_to_date: endDate.toISOString(),
+    p_platform: mapPlatformToDatabase(filters?.platform),
+    p_region_id: regionId,
+    p_topic_id: filters?.topicId && filters.topicId !== "all" ? filters.topicId : null,
+    p_limit: 2000,
+  });
+
+  if (error) {
+    console.error("Error fetching citation DR breakdown:", error);
+    return { breakdown, yourDomainRating: null };
+  }
+
+  const rows = (domainsData || []) as { domain: string; citations_count: number }[];
+  const domains = rows.map((row) => row.domain);
+  const authority = await getDomainAuthorityMap(
+    supabase,
+    projectId,
+    ownDomain ? [...domains, ownDomain] : domains
+  );
+
+  rows.forEach((row) => {
+    const category = authority.get(normalizeDomain(row.domain))?.category || "unverified";
+    breakdown[category] += Number(row.citations_count) || 0;
+  });
+
+  return {
+    breakdown,
+    yourDomainRating: ownDomain ? authority.get(ownDomain)?.score ?? null : null,
+  };
+}
+
+// =============================================
+// CITATION SOURCE CATEGORIES (REAL DATA)
+// =============================================
+
+/**
+ * Distribution of citations and cited domains by source category
+ * (review site, marketplace, news...). Citations the orchestrator has not
+ * classified yet are grouped as "unclassified".
+ */
+export async function getCitationSourceCategories(
+  projectId: string,
+  filters: CitationFilterOptions = {}
+) {
+  const supabase = await createClient();
+
+  let regionId: string | null = null;
+  if (filters?.region && filters.region !== "GLOBAL") {
+    regionId = await getRegionIdByCode(projectId, filters.region);
+    if (!regionId) {
+      return [];
+    }
+  }
+
+  // Same default range as getMostCitedDomains (last 30 days ending yesterday)
+  const endDate = filters?.toDate || getYesterday();
+  const startDate = filters?.fromDate || (() => {
+    const date = getYesterday();
+    date.setDate(date.getDate() - 29);
+    date.setHours(0, 0, 0, 0);
+    return date;
+  })();
+
+  const { data, error } = await supabase.rpc("get_citation_source_categories", {
+    p_project_id: projectId,
+    p_from_date: startDate.toISOString(),
+    p_to_date: endDate.toISOString(),
+    p_platform: mapPlatformToDatabase(filters?.platform),
+    p_region_id: regionId,
+    p_topic_id: filters?.topicId && filters.topicId !== "all" ? filters.topicId : null,
+  });
+
+  if (error) {
+    console.error("Error fetching citation source categories:", error);
+    return [];
+  }
+
+  // Rows with a null platform are the totals across platforms
+  const totals = ((data || []) as { platform: string | null; source_category: string; citations_count: number; domains_count: number }[])
+    .filter((row) => row.platform === null)
+    .map((row) => ({
+      category: row.source_category,
+      citations: Number(row.citations_count) || 0,
+      domains: Number(row.domains_count) || 0,
+    }));
+
+  const totalCitations = totals.reduce((sum, entry) => sum + entry.citations, 0);
+
+  return totals
+    .map((entry) => ({
+      ...entry,
+      percentage: totalCitations > 0 ? Math.round((entry.citations / totalCitations) * 1000) / 10 : 0,
+    }))
+    .sort((a, b) => b.citations - a.citations);
+}
+
 // =============================================
 // HIGH VALUE OPPORTUNITIES (REAL DATA)
 // =============================================
@@ -1449,7 +1718,7 @@ export async function getHighValueOpportunities(
   // Step 5: Filter domains that mention competitors but NOT brand
   console.log(`📈 Processing ${domainData.size} unique domains`);
   
-  const opportunities = Array.from(domainData.values())
+  const candidates = Array.from(domainData.values())
     .filter((domainInfo) => {
       // Must mention at least one competitor
       if (domainInfo.competitorsMentioned.size === 0) {
@@ -1460,16 +1729,20 @@ export async function getHighValueOpportunities(
         return false;
       }
       return true;
-    })
+    });
+
+  const authority = await getDomainAuthorityMap(supabase, projectId, candidates.map((d) => d.domain));
+
+  const opportunities = candidates
     .map((domainInfo) => {
-      // Estimate DR based on citation frequency (simulated)
-      const estimatedDR = Math.min(100, 50 + (domainInfo.citationFrequency * 8));
+      // Authority from domain_authority (imported DR or citation graph score), 0 until scored
+      const domainRating = authority.get(normalizeDomain(domainInfo.domain))?.score ?? 0;
 
       // Calculate opportunity score
       // Higher score = more competitors + higher DR + more citations
       const competitorWeight = domainInfo.competitorsMentioned.size * 15;
       const frequencyWeight = Math.min(30, domainInfo.citationFrequency * 5);
-      const drWeight = estimatedDR * 0.4;
+      const drWeight = domainRating * 0.4;
       const opportunityScore = Math.min(100, competitorWeight + frequencyWeight + drWeight);
 
       // Determine priority
@@ -1484,7 +1757,7 @@ export async function getHighValueOpportunities(
 
       return {
         domain: domainInfo.domain,
-        domainRating: estimatedDR,
+        domainRating,
         competitorsMentioned: Array.from(domainInfo.competitorsMentioned),
         citationFrequency: domainInfo.citationFrequency,
         opportunityScore: Math.round(opportunityScore),
@@ -1688,7 +1961,7 @@ export async function getUnmentionedSources(
   // Step 5: Filter domains that mention NEITHER brand NOR competitors
   console.log(`📈 Processing ${domainData.size} unique domains for unmentioned sources`);
   
-  const unmentionedSources = Array.from(domainData.values())
+  const candidates = Array.from(domainData.values())
     .filter((domainInfo) => {
       // Must NOT mention brand
       if (domainInfo.brandMentioned) {
@@ -1699,16 +1972,20 @@ export async function getUnmentionedSources(
         return false;
       }
       return true;
-    })
+    });
+
+  const authority = await getDomainAuthorityMap(supabase, projectId, candidates.map((d) => d.domain));
+
+  const unmentionedSources = candidates
     .map((domainInfo) => {
-      // Estimate DR based on citation frequency (simulated)
-      const estimatedDR = Math.min(100, 50 + (domainInfo.citationFrequency * 8));
+      // Authority from domain_authority (imported DR or citation graph score), 0 until scored
+      const domainRating = authority.get(normalizeDomain(domainInfo.domain))?.score ?? 0;
 
       // Calculate opportunity score
       // Higher score = higher DR + more citations
       // Since there are no competitor mentions, we focus on frequency and DR
       const frequencyWeight = Math.min(40, domainInfo.citationFrequency * 5);
-      const drWeight = estimatedDR * 0.5;
+      const drWeight = domainRating * 0.5;
       const opportunityScore = Math.min(100, frequencyWeight + drWeight);
 
       // Determine priority
@@ -1723,7 +2000,7 @@ export async function getUnmentionedSources(
 
       return {
         domain: domainInfo.domain,
-        domainRating: estimatedDR,
+        domainRating,
         competitorsMentioned: [], // Empty since no competitors mentioned
         citationFrequency: domainInfo.citationFrequency,
         opportunityScore: Math.round(opportunityScore),
@@ -1828,6 +2105,7 @@ export async function getCitationSources(
     .select(`
       id,
       url,
+      canonical_url,
       domain,
       created_at,
       ai_responses!inner(
@@ -1889,7 +2167,7 @@ export async function getCitationSources(
   // Map citations (removed citationText and sentiment)
   const mappedCitations = citations.map((citation: any) => ({
     id: citation.id,
-    citedUrl: citation.url,
+    citedUrl: citation.canonical_url || citation.url,
     citedDomain: citation.domain,
     platform: citation.ai_responses?.platform || "unknown",
     createdAt: citation.created_at,
@@ -21,6 +21,7 @@ export async function getCitationStats(projectId: string) {
     .from("brand_mentions")
     .select("*", { count: "exact", head: true })
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .eq("brand_type", "client");
 
   // =============================================
@@ -39,6 +40,7 @@ export async function getCitationStats(projectId: string) {
     .from("brand_mentions")
     .select("ai_responses!inner(platform)")
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .eq("brand_type", "client");
 
   // Group by platform
@@ -97,6 +99,7 @@ export async function getCitationStats(projectId: string) {
     .from("brand_mentions")
     .select("*", { count: "exact", head: true })
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .eq("brand_type", "client")
     .gte("created_at", oneWeekAgo.toISOString());
 
@@ -107,6 +110,7 @@ export async function getCitationStats(projectId: string) {
     .from("brand_mentions")
     .select("*", { count: "exact", head: true })
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .eq("brand_type", "client")
     .gte("created_at", twoWeeksAgo.toISOString())
     .lt("created_at", oneWeekAgo.toISOString());
@@ -361,6 +361,7 @@ async function getDailyStatsRealTime(
     .from("brand_mentions")
     .select("created_at, brand_type, competitor_id")
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .gte("created_at", startDate.toISOString())
     .lte("created_at", endDate.toISOString());
 
@@ -467,6 +468,7 @@ async function getTodayRealTimeStats(
     .from("brand_mentions")
     .select("created_at, brand_type, competitor_id, ai_response_id")
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .gte("created_at", cutoffTime.toISOString())
     .lte("created_at", today.toISOString());
 
@@ -651,6 +653,7 @@ export async function getBrandMentionsCount(
     .from("brand_mentions")
     .select("*", { count: "exact", head: true })
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .eq("brand_type", brandType);
 
   if (competitorId) {
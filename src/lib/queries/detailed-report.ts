@@ -68,6 +68,51 @@ function getDateRange(period: ReportPeriod): { from: Date; to: Date; previousFro
   return { from, to, previousFrom, previousTo };
 }
 
+/**
+ * Engines the workspace branding hides from reports
+ */
+async function getHiddenPlatforms(projectId: string): Promise<string[]> {
+  const supabase = await createClient();
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("workspace_id")
+    .eq("id", projectId)
+    .single();
+
+  if (!project) return [];
+
+  const { data: branding } = await supabase
+    .from("workspace_branding")
+    .select("hidden_platforms")
+    .eq("workspace_id", project.workspace_id)
+    .maybeSingle();
+
+  return branding?.hidden_platforms || [];
+}
+
+/**
+ * Select rows that belong to an AI response (citations, sentiment), leaving out
+ * responses of hidden engines
+ */
+function selectResponseRows(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  table: string,
+  columns: string,
+  hiddenPlatforms: string[],
+  options?: { count: "exact"; head: boolean }
+) {
+  if (hiddenPlatforms.length === 0) {
+    return supabase.from(table).select(columns, options);
+  }
+
+  const columnsWithPlatform: string = `${columns}, ai_responses!inner(platform)`;
+  return supabase
+    .from(table)
+    .select(columnsWithPlatform, options)
+    .not("ai_responses.platform", "in", `(${hiddenPlatforms.join(",")})`);
+}
+
 /**
  * Calculate Visibility Score: Total citations/mentions count
  */
@@ -76,39 +121,54 @@ async function getVisibilityScore(
   from: Date,
   to: Date,
   previousFrom: Date,
-  previousTo: Date
+  previousTo: Date,
+  hiddenPlatforms: string[]
 ): Promise<ReportSectionData> {
   const supabase = await createClient();
 
   // Current period: brand citations
-  const { count: brandCurrent } = await supabase
-    .from("citations")
-    .select("*", { count: "exact", head: true })
+  const { count: brandCurrent } = await selectResponseRows(
+    supabase,
+    "citations",
+    "*",
+    hiddenPlatforms,
+    { count: "exact", head: true }
+  )
     .eq("project_id", projectId)
     .gte("created_at", from.toISOString())
     .lte("created_at", to.toISOString());
 
   // Previous period: brand citations
-  const { count: brandPrevious } = await supabase
-    .from("citations")
-    .select("*", { count: "exact", head: true })
+  const { count: brandPrevious } = await selectResponseRows(
+    supabase,
+    "citations",
+    "*",
+    hiddenPlatforms,
+    { count: "exact", head: true }
+  )
     .eq("project_id", projectId)
     .gte("created_at", previousFrom.toISOString())
     .lte("created_at", previousTo.toISOString());
 
   // Current period: competitor citations grouped by competitor
-  const { data: competitorCitations } = await supabase
-    .from("competitor_citations")
-    .select("competitor_id, competitors!inner(name, domain)")
+  const { data: competitorCitations } = await selectResponseRows(
+    supabase,
+    "competitor_citations",
+    "competitor_id, competitors!inner(name, domain)",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .gte("created_at", from.toISOString())
     .lte("created_at", to.toISOString())
     .limit(50000);
 
   // Previous period: competitor citations grouped by competitor
-  const { data: competitorCitationsPrevious } = await supabase
-    .from("competitor_citations")
-    .select("competitor_id, competitors!inner(name, domain)")
+  const { data: competitorCitationsPrevious } = await selectResponseRows(
+    supabase,
+    "competitor_citations",
+    "competitor_id, competitors!inner(name, domain)",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .gte("created_at", previousFrom.toISOString())
     .lte("created_at", previousTo.toISOString())
@@ -174,37 +234,52 @@ async function getShareOfVoiceData(
   from: Date,
   to: Date,
   previousFrom: Date,
-  previousTo: Date
+  previousTo: Date,
+  hiddenPlatforms: string[]
 ): Promise<ReportSectionData> {
   const supabase = await createClient();
 
   // Current period: total citations (brand + competitors)
-  const { count: brandCurrent } = await supabase
-    .from("citations")
-    .select("*", { count: "exact", head: true })
+  const { count: brandCurrent } = await selectResponseRows(
+    supabase,
+    "citations",
+    "*",
+    hiddenPlatforms,
+    { count: "exact", head: true }
+  )
     .eq("project_id", projectId)
     .gte("created_at", from.toISOString())
     .lte("created_at", to.toISOString());
 
-  const { data: competitorCitations } = await supabase
-    .from("competitor_citations")
-    .select("competitor_id, competitors!inner(name, domain)")
+  const { data: competitorCitations } = await selectResponseRows(
+    supabase,
+    "competitor_citations",
+    "competitor_id, competitors!inner(name, domain)",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .gte("created_at", from.toISOString())
     .lte("created_at", to.toISOString())
     .limit(50000);
 
   // Previous period: total citations
-  const { count: brandPrevious } = await supabase
-    .from("citations")
-    .select("*", { count: "exact", head: true })
+  const { count: brandPrevious } = await selectResponseRows(
+    supabase,
+    "citations",
+    "*",
+    hiddenPlatforms,
+    { count: "exact", head: true }
+  )
     .eq("project_id", projectId)
     .gte("created_at", previousFrom.toISOString())
     .lte("created_at", previousTo.toISOString());
 
-  const { data: competitorCitationsPrevious } = await supabase
-    .from("competitor_citations")
-    .select("competitor_id, competitors!inner(name, domain)")
+  const { data: competitorCitationsPrevious } = await selectResponseRows(
+    supabase,
+    "competitor_citations",
+    "competitor_id, competitors!inner(name, domain)",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .gte("created_at", previousFrom.toISOString())
     .lte("created_at", previousTo.toISOString())
@@ -276,34 +351,46 @@ async function getSentimentData(
   from: Date,
   to: Date,
   previousFrom: Date,
-  previousTo: Date
+  previousTo: Date,
+  hiddenPlatforms: string[]
 ): Promise<ReportSectionData> {
   const supabase = await createClient();
 
   // Current period: brand sentiment (using brand_sentiment_attributes)
-  const { data: brandSentimentCurrent } = await supabase
-    .from("brand_sentiment_attributes")
-    .select("sentiment_rating")
+  const { data: brandSentimentCurrent } = await selectResponseRows(
+    supabase,
+    "brand_sentiment_attributes",
+    "sentiment_rating",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .eq("brand_type", "client")
     .gte("created_at", from.toISOString())
     .lte("created_at", to.toISOString())
-    .limit(10000);
+    .limit(10000)
+    .returns<{ sentiment_rating: number }[]>();
 
   // Previous period: brand sentiment
-  const { data: brandSentimentPrevious } = await supabase
-    .from("brand_sentiment_attributes")
-    .select("sentiment_rating")
+  const { data: brandSentimentPrevious } = await selectResponseRows(
+    supabase,
+    "brand_sentiment_attributes",
+    "sentiment_rating",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .eq("brand_type", "client")
     .gte("created_at", previousFrom.toISOString())
     .lte("created_at", previousTo.toISOString())
-    .limit(10000);
+    .limit(10000)
+    .returns<{ sentiment_rating: number }[]>();
 
   // Current period: competitor sentiment
-  const { data: competitorSentimentCurrent } = await supabase
-    .from("brand_sentiment_attributes")
-    .select("sentiment_rating, competitor_id, competitors!inner(name, domain)")
+  const { data: competitorSentimentCurrent } = await selectResponseRows(
+    supabase,
+    "brand_sentiment_attributes",
+    "sentiment_rating, competitor_id, competitors!inner(name, domain)",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .eq("brand_type", "competitor")
     .not("competitor_id", "is", null)
@@ -312,9 +399,12 @@ async function getSentimentData(
     .limit(10000);
 
   // Previous period: competitor sentiment
-  const { data: competitorSentimentPrevious } = await supabase
-    .from("brand_sentiment_attributes")
-    .select("sentiment_rating, competitor_id")
+  const { data: competitorSentimentPrevious } = await selectResponseRows(
+    supabase,
+    "brand_sentiment_attributes",
+    "sentiment_rating, competitor_id",
+    hiddenPlatforms
+  )
     .eq("project_id", projectId)
     .eq("brand_type", "competitor")
     .not("competitor_id", "is", null)
@@ -406,7 +496,8 @@ async function getSentimentData(
 async function getNewCompetitors(
   projectId: string,
   from: Date,
-  to: Date
+  to: Date,
+  hiddenPlatforms: string[]
 ): Promise<NewCompetitor[]> {
   const supabase = await createClient();
 
@@ -422,7 +513,7 @@ async function getNewCompetitors(
   }
 
   // Get competitor citations in the period
-  const { data: citations, error: citationsError } = await supabase
+  let citationsQuery = supabase
     .from("competitor_citations")
     .select(`
       competitor_id,
@@ -431,8 +522,13 @@ async function getNewCompetitors(
     `)
     .eq("project_id", projectId)
     .gte("created_at", from.toISOString())
-    .lte("created_at", to.toISOString())
-    .limit(50000);
+    .lte("created_at", to.toISOString());
+
+  if (hiddenPlatforms.length > 0) {
+    citationsQuery = citationsQuery.not("ai_responses.platform", "in", `(${hiddenPlatforms.join(",")})`);
+  }
+
+  const { data: citations, error: citationsError } = await citationsQuery.limit(50000);
 
   if (citationsError || !citations) {
     return [];
@@ -503,12 +599,13 @@ export async function getDetailedReportData(
 ): Promise<DetailedReportData | null> {
   try {
     const { from, to, previousFrom, previousTo } = getDateRange(period);
+    const hiddenPlatforms = await getHiddenPlatforms(projectId);
 
     const [visibilityScore, shareOfVoice, sentiment, newCompetitors] = await Promise.all([
-      getVisibilityScore(projectId, from, to, previousFrom, previousTo),
-      getShareOfVoiceData(projectId, from, to, previousFrom, previousTo),
-      getSentimentData(projectId, from, to, previousFrom, previousTo),
-      getNewCompetitors(projectId, from, to),
+      getVisibilityScore(projectId, from, to, previousFrom, previousTo, hiddenPlatforms),
+      getShareOfVoiceData(projectId, from, to, previousFrom, previousTo, hiddenPlatforms),
+      getSentimentData(projectId, from, to, previousFrom, previousTo, hiddenPlatforms),
+      getNewCompetitors(projectId, from, to, hiddenPlatforms),
     ]);
 
     return {
@@ -3,6 +3,8 @@
 import { createClient } from "@/lib/supabase/server";
 import { SentimentFilterOptions } from "./sentiment-analysis";
 import { getRegionIdByCode } from "@/lib/actions/regions";
+import { PLATFORMS, PLATFORM_IDS } from "@/lib/constants/platforms";
+import type { RankingMetrics } from "@/lib/utils/ranking-metrics";
 
 // =============================================
 // EXECUTIVE OVERVIEW QUERIES
@@ -28,7 +30,7 @@ export interface WeeklyInsight {
 
 /**
  * Calculate Visibility Score based on:
- * - Total mentions (from brand_mentions or daily_brand_stats)
+ * - Brand mention rate across analyzed samples (falls back to total mentions)
  * - Total citations (from citations or daily_brand_stats)
  * - Share of voice percentage
  * - Platform presence
@@ -111,6 +113,7 @@ export async function getVisibilityScore(
         .from("brand_mentions")
         .select("*", { count: "exact", head: true })
         .eq("project_id", projectId)
+        .eq("is_first_occurrence", true)
         .eq("brand_type", "client");
       totalMentions = count || 0;
     }
@@ -134,7 +137,7 @@ export async function getVisibilityScore(
       .limit(1000); // Limit to avoid fetching too much data
 
     const uniquePlatforms = new Set(platforms?.map((p) => p.platform) || []);
-    const platformPresence = (uniquePlatforms.size / 4) * 100;
+    const platformPresence = (uniquePlatforms.size / PLATFORM_IDS.length) * 100;
 
     // Get distinct domains from citations (optimized: only distinct)
     const { data: citedDomains } = await supabase
@@ -149,7 +152,11 @@ export async function getVisibilityScore(
 
     // Calculate visibility score (weighted average)
     const shareOfVoice = sovData?.brand?.percentage || 0;
-    const mentionsScore = Math.min((totalMentions || 0) / 100, 1) * 25; // Max 25 points
+    // Mention rate (X of N samples) instead of raw counts, which grow with samples_per_prompt
+    const mentionRate = sovData?.brand?.mentionRate?.overall;
+    const mentionsScore = mentionRate && mentionRate.samples > 0
+      ? mentionRate.rate * 25 // Max 25 points
+      : Math.min((totalMentions || 0) / 100, 1) * 25; // Max 25 points
     const citationsScore = Math.min((totalCitations || 0) / 50, 1) * 15; // Max 15 points
     const sovScore = (shareOfVoice / 100) * 40; // Max 40 points
     const platformScore = (platformPresence / 100) * 15; // Max 15 points
@@ -268,6 +275,7 @@ export async function getWeeklyInsights(
       .from("brand_mentions")
       .select("*", { count: "exact", head: true })
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "client")
       .gte("created_at", weekAgo.toISOString());
 
@@ -275,6 +283,7 @@ export async function getWeeklyInsights(
       .from("brand_mentions")
       .select("*", { count: "exact", head: true })
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "client")
       .gte("created_at", new Date(weekAgo.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString())
       .lt("created_at", weekAgo.toISOString());
@@ -415,11 +424,13 @@ export interface CompetitorBattleData {
   color?: string;
   isBrand: boolean;
   mentionsShare: number;
+  weightedShare: number; // Position-weighted share of voice
   citationsShare: number;
   mentions: number;
   citations: number;
   trend: number; // percentage change vs last period
   rank: number;
+  ranking: RankingMetrics; // Average position, top-3 and first mention rates in ranked answers
 }
 
 export interface CompetitiveBattlefieldData {
@@ -560,11 +571,13 @@ export async function getCompetitiveBattlefield(
       color: project?.color || "#3B82F6",
       isBrand: true,
       mentionsShare: currentSov.brand.percentage,
+      weightedShare: currentSov.brand.weightedPercentage,
       citationsShare: currentCitations.brand.percentage,
       mentions: currentSov.brand.mentions,
       citations: currentCitations.brand.citations,
       trend: Number(brandTrend.toFixed(1)),
       rank: 1,
+      ranking: currentSov.brand.ranking,
     };
 
     // Build competitors data
@@ -582,11 +595,13 @@ export async function getCompetitiveBattlefield(
         color: comp.color,
         isBrand: false,
         mentionsShare: comp.percentage,
+        weightedShare: comp.weightedPercentage,
         citationsShare: citationsComp?.percentage || 0,
         mentions: comp.mentions,
         citations: citationsComp?.citations || 0,
         trend: Number(trend.toFixed(1)),
         rank: 0,
+        ranking: comp.ranking,
       };
     });
 
@@ -859,12 +874,7 @@ export async function getPlatformDominance(
     if (!stats) return null;
 
     // Define platforms
-    const platformsList = [
-      { id: "openai", name: "OpenAI", icon: "openai" },
-      { id: "gemini", name: "Gemini", icon: "gemini" },
-      { id: "perplexity", name: "Perplexity", icon: "perplexity" },
-      { id: "claude", name: "Claude", icon: "claude" },
-    ];
+    const platformsList = PLATFORM_IDS.map((id) => ({ id, name: PLATFORMS[id].name, icon: id }));
 
     // Aggregate by platform and entity
     const platformEntityMentions: Record<string, Record<string, number>> = {};
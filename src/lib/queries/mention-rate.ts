@@ -0,0 +1,70 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getRegionIdByCode } from "@/lib/actions/regions";
+import { isPlatformId, type PlatformId } from "@/lib/constants/platforms";
+import { toMentionRate, type MentionRate } from "@/lib/utils/mention-rate";
+
+// =============================================
+// BRAND MENTION RATE
+// =============================================
+// Projects can sample every prompt several times per platform and day, so the
+// brand is reported as "mentioned in X of N samples" instead of a yes/no flag
+
+export interface BrandMentionRate {
+  overall: MentionRate;
+  byPlatform: Partial<Record<PlatformId, MentionRate>>;
+}
+
+/**
+ * Get the share of analyzed samples that mention the client brand
+ * Uses get_brand_mention_rate RPC (ai_responses + brand_mentions)
+ */
+export async function getBrandMentionRate(
+  projectId: string,
+  fromDate: Date,
+  toDate: Date,
+  platform?: string,
+  region?: string,
+  topicId?: string
+): Promise<BrandMentionRate> {
+  const supabase = await createClient();
+
+  let regionId: string | null = null;
+  if (region && region !== "GLOBAL") {
+    regionId = await getRegionIdByCode(projectId, region);
+  }
+
+  const { data, error } = await supabase.rpc("get_brand_mention_rate", {
+    p_project_id: projectId,
+    p_from_date: fromDate.toISOString(),
+    p_to_date: toDate.toISOString(),
+    p_platform: platform && platform !== "all" ? platform : null,
+    p_region_id: regionId,
+    p_topic_id: topicId && topicId !== "all" ? topicId : null,
+  });
+
+  if (error) {
+    console.error("Error fetching brand mention rate:", error);
+    return { overall: toMentionRate(0, 0), byPlatform: {} };
+  }
+
+  let totalMentioned = 0;
+  let totalSamples = 0;
+  const byPlatform: Partial<Record<PlatformId, MentionRate>> = {};
+
+  (data || []).forEach((row: { platform: string; samples_count: number; mentioned_count: number }) => {
+    const mentioned = Number(row.mentioned_count) || 0;
+    const samples = Number(row.samples_count) || 0;
+    totalMentioned += mentioned;
+    totalSamples += samples;
+    if (isPlatformId(row.platform)) {
+      byPlatform[row.platform] = toMentionRate(mentioned, samples);
+    }
+  });
+
+  return {
+    overall: toMentionRate(totalMentioned, totalSamples),
+    byPlatform,
+  };
+}
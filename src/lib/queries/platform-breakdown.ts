@@ -1,7 +1,7 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
-import { PLATFORMS } from "@/lib/constants/platforms";
+import { PLATFORMS, PLATFORM_IDS, isPlatformId, mapPlatforms } from "@/lib/constants/platforms";
 import { getRegionIdByCode } from "@/lib/actions/regions";
 
 /**
@@ -41,6 +41,7 @@ async function getTodayRealTimeStatsByPlatform(
     .from("brand_mentions")
     .select("created_at, brand_type, competitor_id, ai_response_id")
     .eq("project_id", projectId)
+    .eq("is_first_occurrence", true)
     .gte("created_at", cutoffTime.toISOString())
     .lte("created_at", today.toISOString());
 
@@ -150,8 +151,8 @@ async function getTodayRealTimeStatsByPlatform(
     if (!aiResponseData) return; // Skip if filtered out
 
     const mentionPlatform = aiResponseData.platform;
-    // Only include openai and gemini for platform breakdown
-    if (mentionPlatform !== "openai" && mentionPlatform !== "gemini") return;
+    // Only include tracked platforms for platform breakdown
+    if (!isPlatformId(mentionPlatform)) return;
 
     const key = `${mention.brand_type === "client" ? "brand" : mention.competitor_id || "unknown"}-${mentionPlatform}`;
     
@@ -173,8 +174,8 @@ async function getTodayRealTimeStatsByPlatform(
     if (!aiResponseData) return; // Skip if filtered out
 
     const citationPlatform = aiResponseData.platform;
-    // Only include openai and gemini for platform breakdown
-    if (citationPlatform !== "openai" && citationPlatform !== "gemini") return;
+    // Only include tracked platforms for platform breakdown
+    if (!isPlatformId(citationPlatform)) return;
 
     const key = `${citation.citation_type === "brand" ? "brand" : citation.competitor_id || "unknown"}-${citationPlatform}`;
     
@@ -299,7 +300,7 @@ export async function getPlatformBaseData(
       .eq("project_id", projectId)
       .gte("stat_date", start)
       .lte("stat_date", end)
-      .in("platform", ["openai", "gemini"]);
+      .in("platform", PLATFORM_IDS);
 
     if (regionFilter && regionId) {
       query = query.eq("region_id", regionId);
@@ -422,7 +423,7 @@ export async function getPlatformOverview(
         .eq("project_id", projectId)
         .gte("stat_date", start)
         .lte("stat_date", end)
-        .in("platform", ["openai", "gemini"]);
+        .in("platform", PLATFORM_IDS);
 
       if (regionFilter && regionId) {
         query = query.eq("region_id", regionId);
@@ -457,10 +458,10 @@ export async function getPlatformOverview(
   }
 
   // Aggregate by platform - current period
-  const currentByPlatform: Record<string, { mentions: number; citations: number }> = {
-    openai: { mentions: 0, citations: 0 },
-    gemini: { mentions: 0, citations: 0 },
-  };
+  const currentByPlatform: Record<string, { mentions: number; citations: number }> = mapPlatforms(() => ({
+    mentions: 0,
+    citations: 0,
+  }));
 
   currentStats.forEach((stat: any) => {
     if (stat.platform && currentByPlatform[stat.platform]) {
@@ -480,10 +481,10 @@ export async function getPlatformOverview(
   }
 
   // Aggregate by platform - previous period
-  const previousByPlatform: Record<string, { mentions: number; citations: number }> = {
-    openai: { mentions: 0, citations: 0 },
-    gemini: { mentions: 0, citations: 0 },
-  };
+  const previousByPlatform: Record<string, { mentions: number; citations: number }> = mapPlatforms(() => ({
+    mentions: 0,
+    citations: 0,
+  }));
 
   previousStats.forEach((stat: any) => {
     if (stat.platform && previousByPlatform[stat.platform]) {
@@ -588,7 +589,7 @@ export async function getPlatformEvolution(
       .eq("project_id", projectId)
       .gte("stat_date", startDateStr)
       .lte("stat_date", endDateStr)
-      .in("platform", ["openai", "gemini"]);
+      .in("platform", PLATFORM_IDS);
 
     if (regionFilter && regionId) {
       query = query.eq("region_id", regionId);
@@ -613,10 +614,7 @@ export async function getPlatformEvolution(
       const realTimeData = await getTodayRealTimeStatsByPlatform(projectId, undefined, region, topicId);
       const todayStr = format(today, "yyyy-MM-dd");
       
-      const realTimeByPlatform: Record<string, number> = {
-        openai: 0,
-        gemini: 0,
-      };
+      const realTimeByPlatform: Record<string, number> = mapPlatforms(() => 0);
       
       realTimeData.forEach((stat) => {
         if (stat.platform && realTimeByPlatform.hasOwnProperty(stat.platform)) {
@@ -682,20 +680,17 @@ export async function getPlatformEvolution(
     const dayStr = format(day, "yyyy-MM-dd");
     const dayStats = allStats.filter((s: any) => s.stat_date === dayStr);
 
-    const openaiMentions = dayStats
-      .filter((s: any) => s.platform === "openai")
-      .reduce((sum: number, s: any) => sum + (s.mentions_count || 0), 0);
-
-    const geminiMentions = dayStats
-      .filter((s: any) => s.platform === "gemini")
-      .reduce((sum: number, s: any) => sum + (s.mentions_count || 0), 0);
+    const mentionsByPlatform = mapPlatforms((platform) =>
+      dayStats
+        .filter((s: any) => s.platform === platform)
+        .reduce((sum: number, s: any) => sum + (s.mentions_count || 0), 0)
+    );
 
     return {
       date: format(day, "MMM dd"),
       fullDate: dayStr,
-      openai: openaiMentions,
-      gemini: geminiMentions,
-      total: openaiMentions + geminiMentions,
+      ...mentionsByPlatform,
+      total: Object.values(mentionsByPlatform).reduce((sum, count) => sum + count, 0),
     };
   });
 
@@ -764,7 +759,7 @@ export async function getPlatformEntityBreakdown(
       .eq("project_id", projectId)
       .gte("stat_date", startDateStr)
       .lte("stat_date", endDateStr)
-      .in("platform", ["openai", "gemini"]);
+      .in("platform", PLATFORM_IDS);
 
     if (regionFilter && regionId) {
       query = query.eq("region_id", regionId);
@@ -777,10 +772,7 @@ export async function getPlatformEntityBreakdown(
 
     if (error) {
       console.error("Error fetching platform entity breakdown:", error);
-      return {
-        openai: { entities: [], totalMentions: 0 },
-        gemini: { entities: [], totalMentions: 0 },
-      };
+      return mapPlatforms(() => ({ entities: [], totalMentions: 0 }));
     }
 
     // Type assertions to handle Supabase query result types
@@ -815,7 +807,7 @@ export async function getPlatformEntityBreakdown(
           .single();
 
         realTimeData.forEach((stat) => {
-          if (stat.platform === "openai" || stat.platform === "gemini") {
+          if (isPlatformId(stat.platform)) {
             realTimeStats.push({
               platform: stat.platform,
               entity_type: stat.entity_type,
@@ -916,10 +908,7 @@ export async function getPlatformEntityBreakdown(
     return { entities, totalMentions };
   };
 
-  return {
-    openai: processForPlatform("openai"),
-    gemini: processForPlatform("gemini"),
-  };
+  return mapPlatforms(processForPlatform);
 }
 
 // =============================================
@@ -987,7 +976,7 @@ export async function getTopicPerformanceByPlatform(
     .not("topic_id", "is", null)
     .gte("stat_date", startDateStr)
     .lte("stat_date", endDateStr)
-    .in("platform", ["openai", "gemini"]);
+    .in("platform", PLATFORM_IDS);
 
   if (regionFilter && regionId) {
     query = query.eq("region_id", regionId);
@@ -1007,6 +996,7 @@ export async function getTopicPerformanceByPlatform(
       .from("brand_mentions")
       .select("created_at, brand_type, ai_response_id")
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "client")
       .gte("created_at", cutoffTime.toISOString())
       .lte("created_at", today.toISOString());
@@ -1065,7 +1055,7 @@ export async function getTopicPerformanceByPlatform(
         if (!tracking || !tracking.topic_id) return;
 
         const platform = aiResponse.platform;
-        if (platform !== "openai" && platform !== "gemini") return;
+        if (!isPlatformId(platform)) return;
 
         const topicId = tracking.topic_id;
         const key = `${topicId}-${platform}`;
@@ -1122,20 +1112,17 @@ export async function getTopicPerformanceByPlatform(
   const topicPerformance = (topics || []).map((topic: any) => {
     const topicStats = allStats.filter((s: any) => s.topic_id === topic.id);
 
-    const openaiMentions = topicStats
-      .filter((s: any) => s.platform === "openai")
-      .reduce((sum: number, s: any) => sum + (s.mentions_count || 0), 0);
-
-    const geminiMentions = topicStats
-      .filter((s: any) => s.platform === "gemini")
-      .reduce((sum: number, s: any) => sum + (s.mentions_count || 0), 0);
+    const mentionsByPlatform = mapPlatforms((platform) =>
+      topicStats
+        .filter((s: any) => s.platform === platform)
+        .reduce((sum: number, s: any) => sum + (s.mentions_count || 0), 0)
+    );
 
     return {
       id: topic.id,
       name: topic.name,
-      openai: openaiMentions,
-      gemini: geminiMentions,
-      total: openaiMentions + geminiMentions,
+      ...mentionsByPlatform,
+      total: Object.values(mentionsByPlatform).reduce((sum, count) => sum + count, 0),
     };
   });
 
@@ -1150,7 +1137,9 @@ export async function getTopicPerformanceByPlatform(
 // =============================================
 
 /**
- * Get top cited domains per platform
+ * Get top cited domains per platform, with the platform's mix of source
+ * categories (review site, marketplace, news...). Citations the orchestrator has
+ * not classified yet count as "unclassified".
  */
 export async function getPlatformCitationSources(
   projectId: string,
@@ -1179,7 +1168,7 @@ export async function getPlatformCitationSources(
   // Get citations with platform info
   let query = supabase
     .from("citations")
-    .select("domain, ai_responses!inner(platform, prompt_tracking!inner(project_id, region_id, topic_id, regions:region_id(code)))")
+    .select("domain, source_category, ai_responses!inner(platform, prompt_tracking!inner(project_id, region_id, topic_id, regions:region_id(code)))")
     .eq("ai_responses.prompt_tracking.project_id", projectId)
     .gte("created_at", startDate.toISOString())
     .lte("created_at", endDate.toISOString())
@@ -1189,7 +1178,7 @@ export async function getPlatformCitationSources(
 
   if (error) {
     console.error("Error fetching platform citation sources:", error);
-    return { openai: [], gemini: [] };
+    return mapPlatforms(() => ({ domains: [], categories: [] }));
   }
 
   // Filter and aggregate by platform
@@ -1216,23 +1205,31 @@ export async function getPlatformCitationSources(
       return matchesPlatform && matchesRegion && matchesTopic;
     }) || [];
 
-    const domainCounts = new Map<string, number>();
+    const domainCounts = new Map<string, { count: number; category: string | null }>();
+    const categoryCounts = new Map<string, number>();
     platformCitations.forEach((c: any) => {
       if (c.domain) {
-        domainCounts.set(c.domain, (domainCounts.get(c.domain) || 0) + 1);
+        const entry = domainCounts.get(c.domain) || { count: 0, category: null };
+        entry.count += 1;
+        entry.category = entry.category || c.source_category || null;
+        domainCounts.set(c.domain, entry);
       }
+      const category = c.source_category || "unclassified";
+      categoryCounts.set(category, (categoryCounts.get(category) || 0) + 1);
     });
 
-    return Array.from(domainCounts.entries())
-      .map(([domain, count]) => ({ domain, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, limit);
+    return {
+      domains: Array.from(domainCounts.entries())
+        .map(([domain, { count, category }]) => ({ domain, count, category }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit),
+      categories: Array.from(categoryCounts.entries())
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count),
+    };
   };
 
-  return {
-    openai: aggregateByPlatform("openai"),
-    gemini: aggregateByPlatform("gemini"),
-  };
+  return mapPlatforms(aggregateByPlatform);
 }
 
 // =============================================
@@ -1290,7 +1287,7 @@ export async function getPlatformMomentum(
 
         const realTimeStats: any[] = [];
         baseData.realTimeStats.forEach((stat) => {
-          if (stat.platform === "openai" || stat.platform === "gemini") {
+          if (isPlatformId(stat.platform)) {
             realTimeStats.push({
               platform: stat.platform,
               entity_type: stat.entity_type,
@@ -1367,7 +1364,7 @@ export async function getPlatformMomentum(
         .eq("project_id", projectId)
         .gte("stat_date", start)
         .lte("stat_date", end)
-        .in("platform", ["openai", "gemini"]);
+        .in("platform", PLATFORM_IDS);
 
       if (regionFilter && regionId) {
         query = query.eq("region_id", regionId);
@@ -1386,7 +1383,7 @@ export async function getPlatformMomentum(
 
     if (currentResult.error) {
       console.error("Error fetching platform momentum:", currentResult.error);
-      return { openai: [], gemini: [] };
+      return mapPlatforms(() => []);
     }
 
     // Type assertions to handle Supabase query result types
@@ -1416,7 +1413,7 @@ export async function getPlatformMomentum(
 
         const realTimeStats: any[] = [];
         realTimeData.forEach((stat) => {
-          if (stat.platform === "openai" || stat.platform === "gemini") {
+          if (isPlatformId(stat.platform)) {
             realTimeStats.push({
               platform: stat.platform,
               entity_type: stat.entity_type,
@@ -1532,8 +1529,5 @@ export async function getPlatformMomentum(
     return entities;
   };
 
-  return {
-    openai: processForPlatform("openai"),
-    gemini: processForPlatform("gemini"),
-  };
+  return mapPlatforms(processForPlatform);
 }
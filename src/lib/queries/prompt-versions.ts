@@ -0,0 +1,61 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { format, subDays } from "date-fns";
+
+// =============================================
+// PROMPT VERSION TRENDS
+// =============================================
+// Brand mention rate of one prompt per day, kept per prompt version so charts
+// can split answers to different wordings or merge them.
+
+export interface PromptVersionTrendPoint {
+  date: string;
+  version_id: string | null; // null for responses that predate versioning and couldn't be matched
+  responses: number;
+  mentioned: number;
+}
+
+/**
+ * Successful responses and responses mentioning the brand, per day and version
+ */
+export async function getPromptVersionTrend(
+  promptId: string,
+  days: number = 90
+): Promise<PromptVersionTrendPoint[]> {
+  const supabase = await createClient();
+  const since = subDays(new Date(), days);
+
+  const { data, error } = await supabase
+    .from("ai_responses")
+    .select("created_at, prompt_version_id, brand_mentions(brand_type)")
+    .eq("prompt_tracking_id", promptId)
+    .eq("status", "success")
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching prompt version trend:", error);
+    return [];
+  }
+
+  const points = new Map<string, PromptVersionTrendPoint>();
+
+  (data || []).forEach((response) => {
+    const date = format(new Date(response.created_at), "yyyy-MM-dd");
+    const key = `${date}|${response.prompt_version_id}`;
+    let point = points.get(key);
+    if (!point) {
+      point = { date, version_id: response.prompt_version_id, responses: 0, mentioned: 0 };
+      points.set(key, point);
+    }
+
+    point.responses++;
+    const mentions = (response.brand_mentions || []) as Array<{ brand_type: string }>;
+    if (mentions.some((mention) => mention.brand_type === "client")) {
+      point.mentioned++;
+    }
+  });
+
+  return Array.from(points.values());
+}
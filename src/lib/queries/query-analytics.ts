@@ -2,6 +2,7 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { startOfWeek } from "date-fns";
+import { getPlatformConfig, isPlatformId, mapPlatforms } from "@/lib/constants/platforms";
 
 /**
  * Get yesterday's date
@@ -72,7 +73,7 @@ export async function getQueryOverview(
   return {
     totalQueries: result?.total_queries || 0,
     uniqueQueries: result?.unique_queries || 0,
-    topPlatform: topPlatformValue === "openai" ? "OpenAI" : topPlatformValue === "gemini" ? "Gemini" : topPlatformValue,
+    topPlatform: topPlatformValue === "N/A" ? topPlatformValue : getPlatformConfig(topPlatformValue).name,
     avgQueryLength: result?.avg_query_length || 0,
   };
 }
@@ -145,23 +146,20 @@ export async function getQueryPlatformDistribution(
 
   if (error) {
     console.error("Error fetching platform distribution:", error);
-    return { openai: [], gemini: [] };
+    return mapPlatforms(() => [] as Array<{ query: string; count: number }>);
   }
 
   // Group results by platform
-  const openai: Array<{ query: string; count: number }> = [];
-  const gemini: Array<{ query: string; count: number }> = [];
+  const distribution = mapPlatforms(() => [] as Array<{ query: string; count: number }>);
 
   (data || []).forEach((item: any) => {
-    const entry = { query: item.query, count: Number(item.count) };
-    if (item.platform === "openai") {
-      openai.push(entry);
-    } else if (item.platform === "gemini") {
-      gemini.push(entry);
+    const platform: string = item.platform;
+    if (isPlatformId(platform)) {
+      distribution[platform].push({ query: item.query, count: Number(item.count) });
     }
   });
 
-  return { openai, gemini };
+  return distribution;
 }
 
 // =============================================
@@ -3,6 +3,13 @@
 import { createClient } from "@/lib/supabase/server";
 import { format, subDays, eachDayOfInterval } from "date-fns";
 import { getRegionIdByCode } from "@/lib/actions/regions";
+import { getBrandMentionRate } from "./mention-rate";
+import {
+  addRankingStats,
+  emptyRankingTotals,
+  toRankingMetrics,
+  type RankingTotals,
+} from "@/lib/utils/ranking-metrics";
 
 /**
  * Get yesterday's date (end of day is yesterday, not today, since today's data won't be available until tomorrow)
@@ -37,7 +44,9 @@ function mapPlatformToDatabase(platform: string | undefined): string | null {
 
 /**
  * Calculate Share of Voice for brand vs competitors
- * Returns percentage of mentions across all tracked entities
+ * Returns percentage of mentions across all tracked entities, plus a
+ * position-weighted share (a #1 spot in a ranked answer outweighs #9) and
+ * ranking metrics per entity
  * Uses daily_brand_stats table for optimized performance
  */
 export async function getShareOfVoice(
@@ -101,6 +110,13 @@ export async function getShareOfVoice(
       competitor_id,
       entity_name,
       mentions_count,
+      responses_analyzed,
+      ranked_responses,
+      position_sum,
+      top3_count,
+      first_mention_count,
+      recommended_count,
+      weighted_mentions,
       competitors(id, name, domain, is_active, color)
     `)
     .eq("project_id", projectId)
@@ -138,6 +154,14 @@ export async function getShareOfVoice(
 
   let brandMentions = brandStats.reduce((sum, stat) => sum + (stat.mentions_count || 0), 0);
 
+  // Ranking metrics come from aggregated stats only (today's real-time supplement has raw counts)
+  const brandRanking = brandStats.reduce(addRankingStats, emptyRankingTotals());
+  const competitorRankings = new Map<string, RankingTotals>();
+  competitorStats.forEach((stat) => {
+    const totals = competitorRankings.get(stat.competitor_id!) || emptyRankingTotals();
+    competitorRankings.set(stat.competitor_id!, addRankingStats(totals, stat));
+  });
+
   // =============================================
   // SUPPLEMENT WITH REAL-TIME DATA FOR TODAY (if querying today)
   // =============================================
@@ -198,6 +222,14 @@ export async function getShareOfVoice(
                   competitor_id: compId,
                 entity_name: compInfo.name,
                   mentions_count: count,
+                  // No ranking stats until the day is aggregated
+                  responses_analyzed: 0,
+                  ranked_responses: 0,
+                  position_sum: 0,
+                  top3_count: 0,
+                  first_mention_count: 0,
+                  recommended_count: 0,
+                  weighted_mentions: 0,
                 competitors: compInfo,
               });
             }
@@ -259,18 +291,31 @@ export async function getShareOfVoice(
   );
   const totalMentions = brandMentions + competitorMentionsTotal;
 
+  // Position-weighted totals (each response counts 1/position for the entity)
+  const totalWeightedMentions = Array.from(competitorMentionsMap.keys()).reduce(
+    (sum, id) => sum + (competitorRankings.get(id)?.weightedMentions || 0),
+    brandRanking.weightedMentions
+  );
+  const weightedPercentage = (weighted: number) =>
+    totalWeightedMentions > 0 ? Number(((weighted / totalWeightedMentions) * 100).toFixed(1)) : 0;
+
   // Calculate percentages
   const brandPercentage = totalMentions > 0 ? (brandMentions / totalMentions) * 100 : 0;
 
   const competitors = Array.from(competitorMentionsMap.values())
-    .map((comp) => ({
+    .map((comp) => {
+    const ranking = toRankingMetrics(competitorRankings.get(comp.id) || emptyRankingTotals());
+    return {
     id: comp.id,
     name: comp.name,
     domain: comp.domain || comp.name,
     color: comp.color,
     mentions: comp.mentions,
     percentage: totalMentions > 0 ? Number(((comp.mentions / totalMentions) * 100).toFixed(1)) : 0,
-  }));
+    weightedPercentage: weightedPercentage(ranking.weightedMentions),
+    ranking,
+    };
+  });
 
   // Sort competitors by percentage descending
   competitors.sort((a, b) => b.percentage - a.percentage);
@@ -283,6 +328,16 @@ export async function getShareOfVoice(
 
   const marketPosition = allEntities.findIndex((e) => e.name === (project?.name || "Your Brand")) + 1;
 
+  // Share of analyzed samples mentioning the brand (X of N samples, with confidence interval)
+  const mentionRate = await getBrandMentionRate(
+    projectId,
+    startDate,
+    endDate,
+    mappedPlatform ?? undefined,
+    region,
+    topicId
+  );
+
   return {
     brand: {
       name: project?.name || "Your Brand",
@@ -290,9 +345,13 @@ export async function getShareOfVoice(
       color: project?.color || "#3B82F6",
       mentions: brandMentions,
       percentage: Number(brandPercentage.toFixed(1)),
+      weightedPercentage: weightedPercentage(brandRanking.weightedMentions),
+      ranking: toRankingMetrics(brandRanking),
+      mentionRate,
     },
     competitors,
     totalMentions,
+    totalWeightedMentions: Number(totalWeightedMentions.toFixed(2)),
     marketPosition,
   };
 }
@@ -758,6 +817,7 @@ export async function getShareOfVoiceOverTime(
       .from("brand_mentions")
       .select("created_at, brand_type, competitor_id, ai_response_id")
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "client")
       .gte("created_at", cutoffTime.toISOString())
       .lte("created_at", today.toISOString());
@@ -769,6 +829,7 @@ export async function getShareOfVoiceOverTime(
       .from("brand_mentions")
       .select("created_at, brand_type, competitor_id, ai_response_id")
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .eq("brand_type", "competitor")
       .not("competitor_id", "is", null)
       .gte("created_at", cutoffTime.toISOString())
@@ -945,6 +1006,7 @@ export async function getShareEvolution(
       .from("brand_mentions")
       .select("created_at, brand_type, competitor_id, ai_response_id")
       .eq("project_id", projectId)
+      .eq("is_first_occurrence", true)
       .gte("created_at", cutoffTime.toISOString())
       .lte("created_at", today.toISOString());
 
@@ -33,7 +33,8 @@ export async function getUserWorkspacesWithProjects() {
           slug,
           client_url,
           brand_name,
-          color
+          color,
+          language
         `)
         .eq("workspace_id", workspace.id);
 
@@ -0,0 +1,24 @@
+import { format } from "date-fns";
+import type { DateRangeValue } from "@/components/ui/date-range-picker";
+import type { ShareViewFilters } from "@/lib/constants/share-links";
+
+/**
+ * Freeze the filters of a dashboard page for a share link
+ * Returns null until the date range is complete
+ */
+export function toShareViewFilters(filters: {
+  dateRange: DateRangeValue;
+  platform: string;
+  region: string;
+  topicId?: string;
+}): ShareViewFilters | null {
+  if (!filters.dateRange.from || !filters.dateRange.to) return null;
+
+  return {
+    from: format(filters.dateRange.from, "yyyy-MM-dd"),
+    to: format(filters.dateRange.to, "yyyy-MM-dd"),
+    platform: filters.platform === "all" ? null : filters.platform,
+    region: filters.region === "GLOBAL" ? null : filters.region,
+    topic_id: !filters.topicId || filters.topicId === "all" ? null : filters.topicId,
+  };
+}
@@ -0,0 +1,323 @@
+import { createHash } from "crypto";
+import { format } from "date-fns";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+import { getDailyStatsSeries, getShareOfVoiceSeries, getSentimentSeries } from "@/lib/api/stats";
+import type { ApiFilters } from "@/lib/api/filters";
+import type { WorkspaceBranding } from "@/lib/actions/branding";
+import type { DetailedReportData } from "@/lib/queries/detailed-report";
+import type { ReportInsights } from "@/components/reports/report-document";
+import { isShareView, type ShareView, type ShareViewFilters } from "@/lib/constants/share-links";
+import { hashShareToken, isShareToken } from "./tokens";
+
+// =============================================
+// SHARE LINKS - PUBLIC ACCESS
+// =============================================
+// The /share/<token> page runs without a user session, so it reads through the
+// service-role client. Everything here is scoped to the link's project and
+// resource: a token never reaches anything else.
+
+export type PublicShareLink = {
+  id: string;
+  project_id: string;
+  name: string;
+  resource_type: "report" | "dashboard_view";
+  report_id: string | null;
+  view: ShareView | null;
+  filters: ShareViewFilters;
+  password_hash: string | null;
+  expires_at: string;
+};
+
+export type ShareAccessOutcome = "viewed" | "password_failed";
+
+// Wrong passwords allowed per link, from any visitor, before unlocking is refused
+const MAX_PASSWORD_FAILURES = 5;
+const PASSWORD_FAILURE_WINDOW_SECONDS = 15 * 60;
+
+export type ShareVisitor = {
+  ip: string | null;
+  userAgent: string | null;
+  referrer: string | null;
+};
+
+export type SharedProject = {
+  brandName: string;
+  brandDomain: string | null;
+  branding: WorkspaceBranding | null;
+};
+
+export type SharedReport = SharedProject & {
+  period: string;
+  topicName: string | null;
+  createdAt: string;
+  data: DetailedReportData;
+  insights: ReportInsights | null;
+};
+
+export type SharedViewEntity = {
+  id: string; // "brand" or the competitor id
+  name: string;
+  isBrand: boolean;
+  value: number | null; // Over the whole range; null without data
+};
+
+export type SharedDashboardView = SharedProject & {
+  view: ShareView;
+  filters: ShareViewFilters;
+  topicName: string | null;
+  entities: SharedViewEntity[]; // Brand first, then competitors by value
+  series: Array<Record<string, string | number | null>>; // { date, [entity id]: value }
+};
+
+/**
+ * Active link for a token: unknown, revoked and expired links return null
+ */
+export async function getPublicShareLink(token: string): Promise<PublicShareLink | null> {
+  if (!isShareToken(token)) return null;
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("share_links")
+    .select("id, project_id, name, resource_type, report_id, view, filters, password_hash, expires_at")
+    .eq("token_hash", hashShareToken(token))
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching share link:", error);
+    return null;
+  }
+
+  return data as PublicShareLink | null;
+}
+
+function hashVisitorIp(ip: string | null): string | null {
+  return ip ? createHash("sha256").update(ip).digest("hex") : null;
+}
+
+/**
+ * Log an open or a failed password attempt (never blocks the page)
+ */
+export async function recordShareLinkAccess(linkId: string, outcome: ShareAccessOutcome, visitor: ShareVisitor) {
+  const supabase = createServiceClient();
+  const { error } = await supabase.rpc("record_share_link_access", {
+    p_share_link_id: linkId,
+    p_outcome: outcome,
+    p_ip_hash: hashVisitorIp(visitor.ip),
+    p_user_agent: visitor.userAgent,
+    p_referrer: visitor.referrer,
+  });
+
+  if (error) {
+    console.error("Error recording share link access:", error);
+  }
+}
+
+/**
+ * Claim a password attempt on a link, logged as failed until released
+ * Returns null once the link has 5 wrong passwords over the last 15 minutes, from any IP
+ * (the visitor's IP comes from a header they can set, so it can't scope the limit)
+ */
+export async function claimShareUnlockAttempt(linkId: string, visitor: ShareVisitor): Promise<string | null> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc("claim_share_link_unlock_attempt", {
+    p_share_link_id: linkId,
+    p_ip_hash: hashVisitorIp(visitor.ip),
+    p_user_agent: visitor.userAgent,
+    p_referrer: visitor.referrer,
+    p_max_failures: MAX_PASSWORD_FAILURES,
+    p_window_seconds: PASSWORD_FAILURE_WINDOW_SECONDS,
+  });
+
+  if (error) {
+    console.error("Error claiming share link unlock attempt:", error);
+    return null; // Fail closed: a guess must not go unthrottled
+  }
+
+  return (data as string | null) || null;
+}
+
+/**
+ * Drop a claimed attempt whose password was right, so it isn't counted as failed
+ */
+export async function releaseShareUnlockAttempt(attemptId: string) {
+  const supabase = createServiceClient();
+  const { error } = await supabase.from("share_link_accesses").delete().eq("id", attemptId);
+
+  if (error) {
+    console.error("Error releasing share link unlock attempt:", error);
+  }
+}
+
+async function getSharedProject(supabase: SupabaseClient, projectId: string): Promise<SharedProject | null> {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("workspace_id, brand_name, name, client_url")
+    .eq("id", projectId)
+    .single();
+
+  if (!project) return null;
+
+  const { data: branding } = await supabase
+    .from("workspace_branding")
+    .select(
+      "workspace_id, logo_url, primary_color, secondary_color, cover_title, cover_subtitle, footer_text, sender_name, hidden_platforms, hidden_metrics, updated_at"
+    )
+    .eq("workspace_id", project.workspace_id)
+    .maybeSingle();
+
+  return {
+    brandName: project.brand_name || project.name || "Your Brand",
+    brandDomain: project.client_url || null,
+    branding: (branding as WorkspaceBranding | null) || null,
+  };
+}
+
+/**
+ * Saved report of a report link
+ */
+export async function getSharedReport(link: PublicShareLink): Promise<SharedReport | null> {
+  if (link.resource_type !== "report" || !link.report_id) return null;
+
+  const supabase = createServiceClient();
+  const { data: report } = await supabase
+    .from("reports")
+    .select("period, topic_name, report_data, insights, created_at")
+    .eq("id", link.report_id)
+    .eq("project_id", link.project_id)
+    .maybeSingle();
+
+  if (!report) return null;
+
+  const project = await getSharedProject(supabase, link.project_id);
+  if (!project) return null;
+
+  return {
+    ...project,
+    period: report.period,
+    topicName: report.topic_name,
+    createdAt: report.created_at,
+    data: report.report_data as DetailedReportData,
+    insights: report.insights as ReportInsights | null,
+  };
+}
+
+/**
+ * Live data of a dashboard view link, with the filters frozen in the link
+ */
+export async function getSharedDashboardView(link: PublicShareLink): Promise<SharedDashboardView | null> {
+  if (link.resource_type !== "dashboard_view" || !link.view || !isShareView(link.view)) return null;
+
+  const supabase = createServiceClient();
+  const project = await getSharedProject(supabase, link.project_id);
+  if (!project) return null;
+
+  const hiddenPlatforms = project.branding?.hidden_platforms || [];
+  const frozen = link.filters;
+
+  // A view frozen on an engine hidden since then shows nothing
+  if (frozen.platform && hiddenPlatforms.includes(frozen.platform)) {
+    return { ...project, view: link.view, filters: frozen, topicName: null, entities: [], series: [] };
+  }
+
+  let regionId: string | null = null;
+  if (frozen.region) {
+    const { data: region } = await supabase
+      .from("regions")
+      .select("id")
+      .eq("project_id", link.project_id)
+      .eq("code", frozen.region)
+      .maybeSingle();
+    if (!region) return null;
+    regionId = region.id;
+  }
+
+  let topicName: string | null = null;
+  if (frozen.topic_id) {
+    const { data: topic } = await supabase
+      .from("topics")
+      .select("name")
+      .eq("project_id", link.project_id)
+      .eq("id", frozen.topic_id)
+      .maybeSingle();
+    if (!topic) return null;
+    topicName = topic.name;
+  }
+
+  const filters: ApiFilters = {
+    from: frozen.from,
+    to: frozen.to,
+    platform: frozen.platform,
+    region: frozen.region,
+    regionId,
+    topicId: frozen.topic_id,
+    sentimentThemeId: null,
+    excludedPlatforms: hiddenPlatforms,
+  };
+
+  const ctx = { supabase };
+  const totals = new Map<string, { name: string; isBrand: boolean; amount: number; weight: number }>();
+  const byDate = new Map<string, Record<string, string | number | null>>();
+
+  // Collects each entity's daily value for the chart and its amount/weight over the range
+  const add = (
+    date: string,
+    entity: { entity_type: "brand" | "competitor"; competitor_id: string | null; entity_name: string },
+    dailyValue: number | null,
+    amount: number,
+    weight: number
+  ) => {
+    const id = entity.entity_type === "brand" ? "brand" : entity.competitor_id || entity.entity_name;
+    const total = totals.get(id) || {
+      name: entity.entity_type === "brand" ? project.brandName : entity.entity_name,
+      isBrand: entity.entity_type === "brand",
+      amount: 0,
+      weight: 0,
+    };
+    total.amount += amount;
+    total.weight += weight;
+    totals.set(id, total);
+
+    const row = byDate.get(date) || { date: format(new Date(`${date}T00:00:00`), "MMM dd") };
+    row[id] = dailyValue;
+    byDate.set(date, row);
+  };
+
+  let rangeValue: (total: { amount: number; weight: number }) => number | null;
+
+  if (link.view === "visibility") {
+    (await getDailyStatsSeries(ctx, link.project_id, filters)).forEach((point) =>
+      add(point.date, point, point.mentions, point.mentions, 1)
+    );
+    rangeValue = (total) => total.amount;
+  } else if (link.view === "share_of_voice") {
+    (await getShareOfVoiceSeries(ctx, link.project_id, filters)).forEach((point) =>
+      add(point.date, point, point.share_percentage, point.mentions, 1)
+    );
+    // Share over the whole range: mentions over all tracked mentions
+    const allMentions = Array.from(totals.values()).reduce((sum, total) => sum + total.amount, 0);
+    rangeValue = (total) => (allMentions > 0 ? (total.amount / allMentions) * 100 : null);
+  } else {
+    // Scores are -1..1; shown 0-100 like reports
+    (await getSentimentSeries(ctx, link.project_id, filters)).forEach((point) => {
+      const score = point.average_score === null ? null : Math.round(((point.average_score + 1) / 2) * 1000) / 10;
+      add(point.date, point, score, score === null ? 0 : score * point.evaluations, score === null ? 0 : point.evaluations);
+    });
+    rangeValue = (total) => (total.weight > 0 ? total.amount / total.weight : null);
+  }
+
+  const entities: SharedViewEntity[] = Array.from(totals.entries())
+    .map(([id, total]) => {
+      const value = rangeValue(total);
+      return { id, name: total.name, isBrand: total.isBrand, value: value === null ? null : Math.round(value * 10) / 10 };
+    })
+    .sort((a, b) => Number(b.isBrand) - Number(a.isBrand) || (b.value ?? -1) - (a.value ?? -1));
+
+  const series = Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, row]) => row);
+
+  return { ...project, view: link.view, filters: frozen, topicName, entities, series };
+}
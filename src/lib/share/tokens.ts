@@ -0,0 +1,64 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+// =============================================
+// SHARE LINKS - TOKENS AND PASSWORDS
+// =============================================
+// Links look like /share/shr_<token>. Tokens are looked up by their SHA-256
+// hash, like API keys. Passwords are stored as scrypt hashes; once a visitor
+// enters the right one, a cookie bound to the link's token and password hash
+// keeps it unlocked until the link expires.
+
+const SHARE_TOKEN_PREFIX = "shr_";
+const TOKEN_PREFIX_LENGTH = 12;
+const SCRYPT_KEY_LENGTH = 32;
+
+/**
+ * New token and what is stored for it (the token itself is never stored)
+ */
+export function generateShareToken() {
+  const token = `${SHARE_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    token,
+    tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+    tokenHash: hashShareToken(token),
+  };
+}
+
+export function hashShareToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isShareToken(value: string): boolean {
+  return /^shr_[A-Za-z0-9_-]{32}$/.test(value);
+}
+
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifySharePassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Cookie that unlocks a password-protected link; it stops matching when the
+ * password changes or for any other link
+ */
+export function getShareAccessCookie(linkId: string, token: string, passwordHash: string) {
+  return {
+    name: `share_access_${linkId}`,
+    value: createHmac("sha256", passwordHash).update(token).digest("hex"),
+  };
+}
+
+export function hasShareAccess(cookieValue: string | undefined, expected: string): boolean {
+  if (!cookieValue || cookieValue.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(cookieValue), Buffer.from(expected));
+}
@@ -54,6 +54,10 @@ export async function updateSession(request: NextRequest) {
       !request.nextUrl.pathname.startsWith('/login') &&
       !request.nextUrl.pathname.startsWith('/register') &&
       !request.nextUrl.pathname.startsWith('/auth') &&
+      // Public REST API authenticates with workspace API keys
+      !request.nextUrl.pathname.startsWith('/api/v1') &&
+      // Public share links are read-only and checked against share_links
+      !request.nextUrl.pathname.startsWith('/share/') &&
       request.nextUrl.pathname !== '/'
     ) {
       // no user, potentially respond by redirecting the user to the login page
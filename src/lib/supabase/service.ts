@@ -0,0 +1,19 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for server code that runs without a user session
+ * (public API requests authenticated with workspace API keys).
+ * It bypasses RLS: every query must be scoped to the caller's workspace.
+ */
+export function createServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
@@ -48,3 +48,20 @@ export function generateRandomColor(usedColors: Set<string> = new Set()): string
   // Return a random color from available ones
   return availableColors[Math.floor(Math.random() * availableColors.length)];
 }
+
+/**
+ * Clean up an alias list: trims entries, drops empty ones and case-insensitive duplicates
+ * @param aliases Aliases as entered by the user
+ * @returns Aliases in their original order
+ */
+export function normalizeAliases(aliases: string[]): string[] {
+  const seen = new Set<string>();
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,67 @@
+export type AuthorityCategory = "high" | "medium" | "low" | "unverified";
+
+export interface DomainRatingRow {
+  domain: string;
+  rating: number; // 0-100
+  source: string | null; // e.g. "ahrefs", "moz"
+}
+
+export interface DomainRatingParseResult {
+  rows: DomainRatingRow[];
+  skipped: number; // Lines without a valid domain or rating
+}
+
+/**
+ * Normalize a domain or URL the way domain_authority stores it
+ * "https://www.Forbes.com/sites/x" -> "forbes.com"
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#:]/)[0];
+}
+
+/**
+ * Same tiers as the authority_category column of domain_authority
+ */
+export function getAuthorityCategory(score: number): AuthorityCategory {
+  if (score >= 80) return "high";
+  if (score >= 60) return "medium";
+  if (score >= 40) return "low";
+  return "unverified";
+}
+
+/**
+ * Parse a third-party DR export: domain,rating[,source] per line
+ * A header row, quoted cells and ";" or tab separators are accepted; ratings are
+ * rounded and must fall within 0-100. The last row wins for duplicate domains.
+ */
+export function parseDomainRatingsCsv(csvText: string, defaultSource: string | null = null): DomainRatingParseResult {
+  const byDomain = new Map<string, DomainRatingRow>();
+  let skipped = 0;
+
+  const lines = csvText.split(/\r?\n/).filter((line) => line.trim() !== "");
+
+  lines.forEach((line, index) => {
+    const cells = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+    const domain = normalizeDomain(cells[0] || "");
+    const rating = Number(cells[1]);
+
+    if (!domain.includes(".") || cells[1] === undefined || cells[1] === "" || !Number.isFinite(rating) || rating < 0 || rating > 100) {
+      // A header like "domain,dr" isn't counted as a bad line
+      if (index > 0) skipped++;
+      return;
+    }
+
+    byDomain.set(domain, {
+      domain,
+      rating: Math.round(rating),
+      source: cells[2] || defaultSource,
+    });
+  });
+
+  return { rows: Array.from(byDomain.values()), skipped };
+}
@@ -0,0 +1,41 @@
+export interface MentionRate {
+  mentioned: number; // Samples mentioning the brand
+  samples: number; // Analyzed samples
+  rate: number; // 0-1
+  lower: number; // 95% confidence interval, 0-1
+  upper: number;
+}
+
+/**
+ * Build a mention rate with a 95% Wilson score interval
+ * Wilson stays inside [0, 1] and behaves with small sample counts (e.g. 7/10)
+ */
+export function toMentionRate(mentioned: number, samples: number): MentionRate {
+  if (samples <= 0) {
+    return { mentioned: 0, samples: 0, rate: 0, lower: 0, upper: 0 };
+  }
+
+  const z = 1.96;
+  const p = mentioned / samples;
+  const denominator = 1 + (z * z) / samples;
+  const center = (p + (z * z) / (2 * samples)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / samples + (z * z) / (4 * samples * samples))) / denominator;
+
+  return {
+    mentioned,
+    samples,
+    rate: p,
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Format a mention rate as "7/10 samples (95% CI 40–89%)"
+ */
+export function formatMentionRate(mentionRate: MentionRate): string {
+  if (mentionRate.samples === 0) return "No analyzed samples";
+  const lower = Math.round(mentionRate.lower * 100);
+  const upper = Math.round(mentionRate.upper * 100);
+  return `${mentionRate.mentioned}/${mentionRate.samples} samples (95% CI ${lower}–${upper}%)`;
+}
@@ -0,0 +1,69 @@
+// Position sums kept per row in daily_brand_stats (additive across days and dimensions)
+export interface RankingStatsRow {
+  responses_analyzed?: number | null;
+  ranked_responses?: number | null;
+  position_sum?: number | null;
+  top3_count?: number | null;
+  first_mention_count?: number | null;
+  recommended_count?: number | null;
+  weighted_mentions?: number | string | null; // NUMERIC comes back as a string
+}
+
+export interface RankingTotals {
+  responses: number; // Responses mentioning the entity
+  rankedResponses: number;
+  positionSum: number;
+  top3: number;
+  firstMentions: number;
+  recommended: number;
+  weightedMentions: number;
+}
+
+export interface RankingMetrics {
+  averagePosition: number | null; // null when never ranked
+  top3Rate: number; // 0-1, share of responses mentioning the entity
+  firstMentionRate: number; // 0-1
+  recommendationRate: number; // 0-1
+  rankedResponses: number;
+  responses: number;
+  weightedMentions: number;
+}
+
+export function emptyRankingTotals(): RankingTotals {
+  return { responses: 0, rankedResponses: 0, positionSum: 0, top3: 0, firstMentions: 0, recommended: 0, weightedMentions: 0 };
+}
+
+/**
+ * Add one daily_brand_stats row to running totals
+ */
+export function addRankingStats(totals: RankingTotals, row: RankingStatsRow): RankingTotals {
+  totals.responses += row.responses_analyzed || 0;
+  totals.rankedResponses += row.ranked_responses || 0;
+  totals.positionSum += row.position_sum || 0;
+  totals.top3 += row.top3_count || 0;
+  totals.firstMentions += row.first_mention_count || 0;
+  totals.recommended += row.recommended_count || 0;
+  totals.weightedMentions += Number(row.weighted_mentions) || 0;
+  return totals;
+}
+
+export function toRankingMetrics(totals: RankingTotals): RankingMetrics {
+  const rate = (count: number) => (totals.responses > 0 ? count / totals.responses : 0);
+
+  return {
+    averagePosition: totals.rankedResponses > 0 ? totals.positionSum / totals.rankedResponses : null,
+    top3Rate: rate(totals.top3),
+    firstMentionRate: rate(totals.firstMentions),
+    recommendationRate: rate(totals.recommended),
+    rankedResponses: totals.rankedResponses,
+    responses: totals.responses,
+    weightedMentions: totals.weightedMentions,
+  };
+}
+
+/**
+ * Format an average position as "#2.4", or "Not ranked"
+ */
+export function formatAveragePosition(averagePosition: number | null): string {
+  return averagePosition === null ? "Not ranked" : `#${averagePosition.toFixed(1)}`;
+}
@@ -26,6 +26,7 @@ export interface Project {
   client_url?: string;
   description?: string;
   color?: string;
+  language?: 'en' | 'es'; // Report insights language
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,82 @@
+-- =============================================
+-- MIGRATION: Create project_platforms table
+-- Description: Per-project enablement of AI engines used for prompt tracking
+-- Projects without rows use the engines registered with enabledByDefault in the orchestrator's provider registry
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.project_platforms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    model TEXT, -- Optional model override (NULL = provider default)
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(project_id, platform)
+);
+
+-- Enable RLS
+ALTER TABLE public.project_platforms ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_project_platforms_project_id ON public.project_platforms(project_id);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible project platforms"
+    ON public.project_platforms
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = project_platforms.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = project_platforms.project_id
+        )
+    );
+
+CREATE POLICY "Users can manage project platforms"
+    ON public.project_platforms
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = project_platforms.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = project_platforms.project_id
+            AND role = 'admin'
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_project_platforms_updated_at
+    BEFORE UPDATE ON public.project_platforms
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.project_platforms IS 'AI engines enabled per project. Missing rows fall back to the provider registry defaults in the orchestrator.';
+COMMENT ON COLUMN public.project_platforms.platform IS 'Provider id registered in the orchestrator (openai, gemini, claude, perplexity, ...)';
+COMMENT ON COLUMN public.project_platforms.model IS 'Optional model override; NULL uses the provider default model';
@@ -0,0 +1,75 @@
+-- =============================================
+-- MIGRATION: Enable Claude and Perplexity platforms
+-- Description: Allow claude and perplexity rows in daily_brand_stats and include them
+-- in the per-platform query analytics
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- daily_brand_stats.platform CHECK constraint
+-- =============================================
+
+-- Inline CHECK added in 20251219000003 gets the default Postgres name
+ALTER TABLE daily_brand_stats
+DROP CONSTRAINT IF EXISTS daily_brand_stats_platform_check;
+
+ALTER TABLE daily_brand_stats
+ADD CONSTRAINT daily_brand_stats_platform_check
+CHECK (platform IN ('openai', 'gemini', 'claude', 'perplexity') OR platform IS NULL);
+
+COMMENT ON COLUMN daily_brand_stats.platform IS 'AI platform: openai, gemini, claude or perplexity (NULL for legacy/aggregated data)';
+
+-- =============================================
+-- FUNCTION: get_query_platform_distribution
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_query_platform_distribution(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_region TEXT DEFAULT NULL,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  platform TEXT,
+  query TEXT,
+  count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked_queries AS (
+    SELECT 
+      ar.platform,
+      c.web_search_query AS query,
+      COUNT(*)::BIGINT AS cnt,
+      ROW_NUMBER() OVER (PARTITION BY ar.platform ORDER BY COUNT(*) DESC) AS rn
+    FROM citations c
+    INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+    INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+    LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id
+    WHERE c.project_id = p_project_id
+      AND c.web_search_query IS NOT NULL
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND ar.platform IN ('openai', 'gemini', 'claude', 'perplexity')
+      AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+      AND (
+        p_entity_id IS NULL OR
+        (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+        (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+      )
+    GROUP BY ar.platform, c.web_search_query
+  )
+  SELECT 
+    rq.platform::TEXT,
+    rq.query::TEXT,
+    rq.cnt AS count
+  FROM ranked_queries rq
+  WHERE rq.rn <= 10
+  ORDER BY rq.platform, rq.cnt DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_query_platform_distribution IS 'Returns top 10 queries per tracked platform (OpenAI, Gemini, Claude, Perplexity), with optional entity filter (NULL = All brands)';
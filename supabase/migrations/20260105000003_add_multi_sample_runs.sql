@@ -0,0 +1,81 @@
+-- =============================================
+-- MIGRATION: Add multi-sample runs per prompt
+-- Description: Projects can ask each AI engine the same prompt several times per day.
+-- Every answer is stored as its own ai_responses row, linked through sample_group_id,
+-- so brand mention rate can be reported as a probability (e.g. 7/10 OpenAI samples)
+-- Date: 2026-01-05
+-- =============================================
+
+-- Samples per prompt, platform and day (1 = previous single-answer behaviour)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS samples_per_prompt INTEGER NOT NULL DEFAULT 1
+  CHECK (samples_per_prompt BETWEEN 1 AND 10);
+
+-- Sample position and group for each response
+ALTER TABLE ai_responses
+ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS sample_group_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_ai_responses_sample_group_id
+  ON ai_responses(sample_group_id)
+  WHERE sample_group_id IS NOT NULL;
+
+-- =============================================
+-- FUNCTION: get_brand_mention_rate
+-- Returns, per platform, how many analyzed samples exist and in how many
+-- of them the client brand was mentioned
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_brand_mention_rate(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region_id UUID DEFAULT NULL,
+  p_topic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  platform TEXT,
+  samples_count BIGINT,
+  mentioned_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ar.platform,
+    COUNT(*)::BIGINT as samples_count,
+    COUNT(*) FILTER (
+      WHERE EXISTS (
+        SELECT 1 FROM brand_mentions bm
+        WHERE bm.ai_response_id = ar.id
+          AND bm.brand_type = 'client'
+      )
+    )::BIGINT as mentioned_count
+  FROM ai_responses ar
+  INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  WHERE ar.project_id = p_project_id
+    AND ar.status = 'success'
+    AND ar.brand_analysis_status = 'success'
+    AND ar.created_at >= p_from_date
+    AND ar.created_at <= p_to_date
+    AND (p_platform IS NULL OR ar.platform = p_platform)
+    AND (p_region_id IS NULL OR pt.region_id = p_region_id)
+    AND (p_topic_id IS NULL OR pt.topic_id = p_topic_id)
+  GROUP BY ar.platform;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- PERMISSIONS
+-- =============================================
+
+GRANT EXECUTE ON FUNCTION get_brand_mention_rate TO authenticated;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN projects.samples_per_prompt IS 'Number of answers requested per prompt, platform and day (1-10). Each sample is stored as a separate ai_responses row.';
+COMMENT ON COLUMN ai_responses.sample_index IS '1-based position of this answer within its sample group';
+COMMENT ON COLUMN ai_responses.sample_group_id IS 'Shared by all samples of the same prompt, platform and day';
+COMMENT ON FUNCTION get_brand_mention_rate IS 'Per-platform count of analyzed samples and samples mentioning the client brand. Used to report mention rate with confidence intervals.';
@@ -0,0 +1,95 @@
+-- =============================================
+-- MIGRATION: Create analysis_schedules table
+-- Description: Per-project (and optional per-prompt) analysis schedules.
+-- The orchestrator scheduler runs hourly and only fans out prompts that are due.
+-- Projects without a schedule keep the previous behaviour (daily at 01:00 UTC, all enabled platforms)
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.analysis_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    prompt_tracking_id UUID REFERENCES public.prompt_tracking(id) ON DELETE CASCADE, -- NULL = project default
+    frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('hourly', 'daily', 'weekly', 'paused')),
+    hour_of_day SMALLINT NOT NULL DEFAULT 1 CHECK (hour_of_day BETWEEN 0 AND 23),
+    day_of_week SMALLINT NOT NULL DEFAULT 1 CHECK (day_of_week BETWEEN 0 AND 6), -- 0 = Sunday (weekly only)
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    platforms TEXT[], -- NULL = every platform enabled for the project
+    last_scheduled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.analysis_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Indexes (one project default and at most one override per prompt)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_schedules_project_default
+    ON public.analysis_schedules(project_id)
+    WHERE prompt_tracking_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_schedules_prompt
+    ON public.analysis_schedules(prompt_tracking_id)
+    WHERE prompt_tracking_id IS NOT NULL;
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible analysis schedules"
+    ON public.analysis_schedules
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = analysis_schedules.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = analysis_schedules.project_id
+        )
+    );
+
+CREATE POLICY "Users can manage analysis schedules"
+    ON public.analysis_schedules
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = analysis_schedules.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = analysis_schedules.project_id
+            AND role = 'admin'
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_analysis_schedules_updated_at
+    BEFORE UPDATE ON public.analysis_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.analysis_schedules IS 'When prompts are sent to AI engines. A row with prompt_tracking_id NULL is the project default; rows with a prompt override it. Missing rows mean daily at 01:00 UTC.';
+COMMENT ON COLUMN public.analysis_schedules.frequency IS 'hourly, daily, weekly or paused';
+COMMENT ON COLUMN public.analysis_schedules.hour_of_day IS 'Local hour (0-23, in timezone) for daily and weekly runs';
+COMMENT ON COLUMN public.analysis_schedules.day_of_week IS 'Local weekday for weekly runs (0 = Sunday)';
+COMMENT ON COLUMN public.analysis_schedules.timezone IS 'IANA timezone used to evaluate hour_of_day and day_of_week';
+COMMENT ON COLUMN public.analysis_schedules.platforms IS 'Platforms to run; NULL runs every platform enabled in project_platforms';
+COMMENT ON COLUMN public.analysis_schedules.last_scheduled_at IS 'Last time the scheduler fanned out prompts for this schedule';
@@ -0,0 +1,170 @@
+-- =============================================
+-- MIGRATION: Create AI spend ledger and budgets
+-- Description: Daily spend per workspace/project/platform/source for every AI call
+-- (tracking prompts, brand analysis, sentiment evaluations) and monthly budgets
+-- with a soft warning threshold and a hard stop (skip or degrade scheduled runs)
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: ai_spend_ledger
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.ai_spend_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL, -- Provider id (openai, gemini, claude, perplexity, groq, ...)
+    source TEXT NOT NULL CHECK (source IN ('tracking', 'brand_analysis', 'sentiment', 'other')),
+    spend_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    calls_count INTEGER NOT NULL DEFAULT 0,
+    tokens_used BIGINT NOT NULL DEFAULT 0,
+    cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(project_id, platform, source, spend_date)
+);
+
+ALTER TABLE public.ai_spend_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ai_spend_ledger_workspace_date ON public.ai_spend_ledger(workspace_id, spend_date);
+CREATE INDEX IF NOT EXISTS idx_ai_spend_ledger_project_date ON public.ai_spend_ledger(project_id, spend_date);
+
+-- Rows are written by the orchestrator (service role) through record_ai_spend
+CREATE POLICY "Users can read accessible AI spend"
+    ON public.ai_spend_ledger
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = ai_spend_ledger.workspace_id
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = ai_spend_ledger.project_id
+        )
+    );
+
+CREATE TRIGGER update_ai_spend_ledger_updated_at
+    BEFORE UPDATE ON public.ai_spend_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- TABLE: ai_budgets
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.ai_budgets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE, -- NULL = whole workspace
+    monthly_limit DECIMAL(10, 2) NOT NULL CHECK (monthly_limit >= 0), -- USD per calendar month
+    warning_threshold DECIMAL(3, 2) NOT NULL DEFAULT 0.80 CHECK (warning_threshold > 0 AND warning_threshold <= 1),
+    on_exceed TEXT NOT NULL DEFAULT 'degrade' CHECK (on_exceed IN ('degrade', 'skip')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_workspace
+    ON public.ai_budgets(workspace_id)
+    WHERE project_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_project
+    ON public.ai_budgets(project_id)
+    WHERE project_id IS NOT NULL;
+
+CREATE POLICY "Users can read accessible AI budgets"
+    ON public.ai_budgets
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = ai_budgets.workspace_id
+        )
+    );
+
+CREATE POLICY "Workspace admins can manage AI budgets"
+    ON public.ai_budgets
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = ai_budgets.workspace_id
+            AND role IN ('owner', 'admin')
+        )
+    );
+
+CREATE TRIGGER update_ai_budgets_updated_at
+    BEFORE UPDATE ON public.ai_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTION: record_ai_spend
+-- Atomically adds one call to the ledger row of the day
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_ai_spend(
+  p_project_id UUID,
+  p_platform TEXT,
+  p_source TEXT,
+  p_tokens BIGINT,
+  p_cost DECIMAL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_workspace_id UUID;
+BEGIN
+  SELECT workspace_id INTO v_workspace_id
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_workspace_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ai_spend_ledger (workspace_id, project_id, platform, source, spend_date, calls_count, tokens_used, cost)
+  VALUES (v_workspace_id, p_project_id, p_platform, p_source, CURRENT_DATE, 1, COALESCE(p_tokens, 0), COALESCE(p_cost, 0))
+  ON CONFLICT (project_id, platform, source, spend_date) DO UPDATE SET
+    calls_count = ai_spend_ledger.calls_count + 1,
+    tokens_used = ai_spend_ledger.tokens_used + EXCLUDED.tokens_used,
+    cost = ai_spend_ledger.cost + EXCLUDED.cost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_ai_spend FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_ai_spend TO service_role;
+
+-- =============================================
+-- BACKFILL: tracking spend already stored in ai_responses.cost
+-- =============================================
+
+INSERT INTO ai_spend_ledger (workspace_id, project_id, platform, source, spend_date, calls_count, tokens_used, cost)
+SELECT
+  p.workspace_id,
+  ar.project_id,
+  ar.platform,
+  'tracking',
+  ar.created_at::date,
+  COUNT(*),
+  COALESCE(SUM(ar.tokens_used), 0),
+  COALESCE(SUM(ar.cost), 0)
+FROM ai_responses ar
+INNER JOIN projects p ON p.id = ar.project_id
+WHERE ar.status = 'success'
+GROUP BY p.workspace_id, ar.project_id, ar.platform, ar.created_at::date
+ON CONFLICT (project_id, platform, source, spend_date) DO NOTHING;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.ai_spend_ledger IS 'Daily AI spend per project, platform and source. Written by the orchestrator via record_ai_spend().';
+COMMENT ON COLUMN public.ai_spend_ledger.source IS 'tracking (prompt answers), brand_analysis, sentiment or other';
+COMMENT ON COLUMN public.ai_spend_ledger.cost IS 'Estimated USD cost (provider registry costPer1K)';
+COMMENT ON TABLE public.ai_budgets IS 'Monthly AI budgets per workspace (project_id NULL) or project';
+COMMENT ON COLUMN public.ai_budgets.warning_threshold IS 'Fraction of monthly_limit that triggers a soft warning';
+COMMENT ON COLUMN public.ai_budgets.on_exceed IS 'degrade: cheapest platform, one sample, no web search, brand-only sentiment. skip: no scheduled runs until next month';
+COMMENT ON FUNCTION record_ai_spend IS 'Adds one AI call (tokens and cost) to today''s ledger row for the project, platform and source';
@@ -0,0 +1,133 @@
+-- =============================================
+-- MIGRATION: Create rate_limit_buckets table
+-- Description: Token buckets per AI provider/model shared by every orchestrator
+-- replica. Each bucket limits requests per minute (RPM) and tokens per minute (TPM).
+-- Callers reserve an estimate up front and reconcile it with the real tokens_used.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    rpm_capacity INTEGER NOT NULL CHECK (rpm_capacity > 0),
+    tpm_capacity INTEGER CHECK (tpm_capacity > 0), -- NULL = provider has no TPM limit
+    request_tokens DOUBLE PRECISION NOT NULL, -- Requests currently available
+    token_tokens DOUBLE PRECISION, -- LLM tokens currently available (may go negative after reconciliation)
+    refilled_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (provider, model)
+);
+
+-- Only the orchestrator (service role) touches buckets; no policies for dashboard users
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_rate_limit_buckets_updated_at
+    BEFORE UPDATE ON public.rate_limit_buckets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTION: acquire_rate_limit
+-- Refills the bucket, then takes one request and p_tokens LLM tokens if both are available.
+-- Returns 0 when acquired, otherwise the milliseconds to wait before trying again
+-- (nothing is taken in that case). Capacities are synced from the provider registry on every call.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION acquire_rate_limit(
+  p_provider TEXT,
+  p_model TEXT,
+  p_rpm INTEGER,
+  p_tpm INTEGER,
+  p_tokens INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_bucket rate_limit_buckets%ROWTYPE;
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_elapsed DOUBLE PRECISION;
+  v_requests DOUBLE PRECISION;
+  v_tokens DOUBLE PRECISION;
+  v_needed_tokens DOUBLE PRECISION;
+  v_wait_ms DOUBLE PRECISION := 0;
+BEGIN
+  INSERT INTO rate_limit_buckets (provider, model, rpm_capacity, tpm_capacity, request_tokens, token_tokens, refilled_at)
+  VALUES (p_provider, p_model, p_rpm, p_tpm, p_rpm, p_tpm, v_now)
+  ON CONFLICT (provider, model) DO NOTHING;
+
+  SELECT * INTO v_bucket
+  FROM rate_limit_buckets
+  WHERE provider = p_provider AND model = p_model
+  FOR UPDATE;
+
+  -- Refill (capacity per minute), capped at the current capacity
+  v_elapsed := GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_bucket.refilled_at)));
+  v_requests := LEAST(p_rpm, v_bucket.request_tokens + v_elapsed * p_rpm / 60.0);
+  IF p_tpm IS NOT NULL THEN
+    v_tokens := LEAST(p_tpm, COALESCE(v_bucket.token_tokens, p_tpm) + v_elapsed * p_tpm / 60.0);
+    -- A single call can never need more than a full bucket
+    v_needed_tokens := LEAST(GREATEST(p_tokens, 0), p_tpm);
+  END IF;
+
+  IF v_requests < 1 THEN
+    v_wait_ms := (1 - v_requests) * 60000.0 / p_rpm;
+  END IF;
+  IF p_tpm IS NOT NULL AND v_tokens < v_needed_tokens THEN
+    v_wait_ms := GREATEST(v_wait_ms, (v_needed_tokens - v_tokens) * 60000.0 / p_tpm);
+  END IF;
+
+  IF v_wait_ms = 0 THEN
+    v_requests := v_requests - 1;
+    IF p_tpm IS NOT NULL THEN
+      v_tokens := v_tokens - v_needed_tokens;
+    END IF;
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET rpm_capacity = p_rpm,
+      tpm_capacity = p_tpm,
+      request_tokens = v_requests,
+      token_tokens = v_tokens,
+      refilled_at = v_now
+  WHERE provider = p_provider AND model = p_model;
+
+  RETURN CEIL(v_wait_ms)::INTEGER;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- FUNCTION: reconcile_rate_limit
+-- Gives back (or takes) the difference between the reserved estimate and the
+-- tokens the call actually used
+-- =============================================
+
+CREATE OR REPLACE FUNCTION reconcile_rate_limit(
+  p_provider TEXT,
+  p_model TEXT,
+  p_reserved INTEGER,
+  p_actual INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE rate_limit_buckets
+  SET token_tokens = LEAST(tpm_capacity, token_tokens + (p_reserved - p_actual))
+  WHERE provider = p_provider
+    AND model = p_model
+    AND tpm_capacity IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION acquire_rate_limit FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_rate_limit FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION acquire_rate_limit TO service_role;
+GRANT EXECUTE ON FUNCTION reconcile_rate_limit TO service_role;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.rate_limit_buckets IS 'Shared RPM/TPM token buckets per AI provider and model, used by every orchestrator replica';
+COMMENT ON COLUMN public.rate_limit_buckets.request_tokens IS 'Requests available at refilled_at (refills at rpm_capacity per minute)';
+COMMENT ON COLUMN public.rate_limit_buckets.token_tokens IS 'LLM tokens available at refilled_at (refills at tpm_capacity per minute)';
+COMMENT ON FUNCTION acquire_rate_limit IS 'Take one request and p_tokens from a bucket. Returns 0 if acquired, otherwise milliseconds to wait';
+COMMENT ON FUNCTION reconcile_rate_limit IS 'Adjust a bucket by the difference between reserved and actual tokens';
@@ -0,0 +1,105 @@
+-- =============================================
+-- MIGRATION: Create dead_letters table
+-- Description: Persistent dead-letter queue for orchestrator runs that exhausted
+-- their retries (prompt samples in process-single-prompt, brand analysis in
+-- analyze-single-response). Admins re-drive them from the Failed Runs page.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.dead_letters (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    function_id TEXT NOT NULL, -- Inngest function (process-single-prompt, analyze-single-response)
+    event_name TEXT NOT NULL, -- Event re-sent on replay (analysis/process-prompt, brand/analyze-response)
+    event_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    step_name TEXT NOT NULL DEFAULT 'unknown',
+    error_class TEXT NOT NULL DEFAULT 'unknown' CHECK (error_class IN (
+        'rate_limit', 'timeout', 'auth', 'provider_error', 'invalid_response', 'database', 'unknown'
+    )),
+    error_message TEXT,
+    provider TEXT, -- AI platform involved, if any
+    attempt_count INTEGER NOT NULL DEFAULT 1, -- Attempts made across every failure of this key
+    failure_count INTEGER NOT NULL DEFAULT 1,
+    dedupe_key TEXT NOT NULL, -- One active row per failing unit (e.g. prompt + platform, AI response)
+    prompt_tracking_id UUID REFERENCES public.prompt_tracking(id) ON DELETE CASCADE,
+    ai_response_id UUID REFERENCES public.ai_responses(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'queued', 'replayed', 'resolved', 'ignored')),
+    replay_count INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_replayed_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.dead_letters ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_dead_letters_project_status ON public.dead_letters(project_id, status);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_last_failed ON public.dead_letters(last_failed_at DESC);
+-- Repeated failures of the same unit update the active row instead of piling up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dead_letters_active_key
+    ON public.dead_letters(dedupe_key)
+    WHERE status IN ('open', 'queued', 'replayed');
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible dead letters"
+    ON public.dead_letters
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = dead_letters.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = dead_letters.project_id
+        )
+    );
+
+-- Replays and dismissals are admin-only; rows are inserted by the orchestrator (service role)
+CREATE POLICY "Admins can update dead letters"
+    ON public.dead_letters
+    FOR UPDATE
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = dead_letters.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = dead_letters.project_id
+            AND role = 'admin'
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_dead_letters_updated_at
+    BEFORE UPDATE ON public.dead_letters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.dead_letters IS 'Orchestrator runs that exhausted their retries, with the event payload needed to re-drive them';
+COMMENT ON COLUMN public.dead_letters.error_class IS 'rate_limit, timeout, auth, provider_error, invalid_response, database or unknown';
+COMMENT ON COLUMN public.dead_letters.dedupe_key IS 'prompt:<prompt_tracking_id>:<platform> or brand:<ai_response_id>; at most one open/queued/replayed row per key';
+COMMENT ON COLUMN public.dead_letters.status IS 'open, queued (replay requested), replayed (event re-sent), resolved (a later run succeeded) or ignored';
@@ -0,0 +1,164 @@
+-- =============================================
+-- MIGRATION: Create analysis_runs table
+-- Description: One row per project and batch (scheduled tick, manual trigger,
+-- dead-letter replay or single prompt run). Jobs and responses carry run_id so the
+-- Runs page can show progress per platform, duration, tokens and cost.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.analysis_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    batch_id UUID NOT NULL, -- Shared by every project fanned out in the same batch
+    trigger TEXT NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual', 'replay')),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'completed_with_errors', 'failed')),
+    prompts_queued INTEGER NOT NULL DEFAULT 0,
+    prompts_completed INTEGER NOT NULL DEFAULT 0,
+    prompts_failed INTEGER NOT NULL DEFAULT 0,
+    platform_counts JSONB NOT NULL DEFAULT '{}'::jsonb, -- Prompts queued per platform, e.g. {"openai": 12}
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(batch_id, project_id)
+);
+
+ALTER TABLE public.analysis_jobs
+    ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES public.analysis_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_responses
+    ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES public.analysis_runs(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.analysis_runs ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_project_started ON public.analysis_runs(project_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_status ON public.analysis_runs(status) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_run ON public.analysis_jobs(run_id);
+CREATE INDEX IF NOT EXISTS idx_ai_responses_run ON public.ai_responses(run_id);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+-- Runs are written by the orchestrator (service role); members can read them
+CREATE POLICY "Users can read accessible analysis runs"
+    ON public.analysis_runs
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = analysis_runs.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = analysis_runs.project_id
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_analysis_runs_updated_at
+    BEFORE UPDATE ON public.analysis_runs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTION: finish_analysis_run_prompt
+-- Counts one prompt of a run as completed or failed, and closes the run once
+-- every queued prompt has finished. Runs in one statement so concurrent
+-- process-prompt executions can't lose updates.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION finish_analysis_run_prompt(
+  p_run_id UUID,
+  p_failed BOOLEAN
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE analysis_runs
+  SET prompts_completed = prompts_completed + CASE WHEN p_failed THEN 0 ELSE 1 END,
+      prompts_failed = prompts_failed + CASE WHEN p_failed THEN 1 ELSE 0 END,
+      status = CASE
+        WHEN prompts_completed + prompts_failed + 1 < prompts_queued THEN status
+        WHEN prompts_completed + CASE WHEN p_failed THEN 0 ELSE 1 END = 0 THEN 'failed'
+        WHEN prompts_failed + CASE WHEN p_failed THEN 1 ELSE 0 END > 0 THEN 'completed_with_errors'
+        ELSE 'completed'
+      END,
+      completed_at = CASE
+        WHEN prompts_completed + prompts_failed + 1 >= prompts_queued THEN NOW()
+        ELSE completed_at
+      END
+  WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION finish_analysis_run_prompt FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION finish_analysis_run_prompt TO service_role;
+
+-- =============================================
+-- FUNCTION: get_analysis_run_platform_stats
+-- Returns: per run and platform, prompts answered/failed, samples still
+-- processing, tokens and cost (invoker rights, so ai_responses RLS applies)
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_analysis_run_platform_stats(
+  p_run_ids UUID[]
+)
+RETURNS TABLE(
+  run_id UUID,
+  platform TEXT,
+  prompts_succeeded BIGINT,
+  prompts_failed BIGINT,
+  responses_processing BIGINT,
+  tokens_used BIGINT,
+  cost NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH per_prompt AS (
+    SELECT
+      ar.run_id,
+      ar.platform,
+      ar.prompt_tracking_id,
+      BOOL_OR(ar.status = 'success') AS succeeded,
+      BOOL_OR(ar.status = 'error') AS errored,
+      COUNT(*) FILTER (WHERE ar.status NOT IN ('success', 'error')) AS processing,
+      COALESCE(SUM(ar.tokens_used), 0) AS tokens,
+      COALESCE(SUM(ar.cost), 0) AS prompt_cost
+    FROM ai_responses ar
+    WHERE ar.run_id = ANY(p_run_ids)
+    GROUP BY ar.run_id, ar.platform, ar.prompt_tracking_id
+  )
+  SELECT
+    pp.run_id,
+    pp.platform,
+    COUNT(*) FILTER (WHERE pp.succeeded)::BIGINT AS prompts_succeeded,
+    COUNT(*) FILTER (WHERE pp.errored AND NOT pp.succeeded)::BIGINT AS prompts_failed,
+    SUM(pp.processing)::BIGINT AS responses_processing,
+    SUM(pp.tokens)::BIGINT AS tokens_used,
+    SUM(pp.prompt_cost)::NUMERIC AS cost
+  FROM per_prompt pp
+  GROUP BY pp.run_id, pp.platform;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.analysis_runs IS 'Analysis batches per project (scheduled, manual or replay) with prompt progress';
+COMMENT ON COLUMN public.analysis_runs.batch_id IS 'Batch generated by the scheduler/trigger; one run per project in the batch';
+COMMENT ON COLUMN public.analysis_runs.status IS 'running, completed, completed_with_errors (some prompts failed) or failed (every prompt failed)';
+COMMENT ON COLUMN public.analysis_runs.platform_counts IS 'Prompts queued per platform when the run was created';
+COMMENT ON COLUMN public.analysis_jobs.run_id IS 'Run this job belongs to (NULL for jobs created before analysis_runs)';
+COMMENT ON COLUMN public.ai_responses.run_id IS 'Run this response was produced by (NULL for responses created before analysis_runs)';
+COMMENT ON FUNCTION finish_analysis_run_prompt IS 'Count one prompt of a run as completed or failed and close the run when all prompts finished';
+COMMENT ON FUNCTION get_analysis_run_platform_stats IS 'Returns prompts succeeded/failed, samples processing, tokens and cost per run and platform';
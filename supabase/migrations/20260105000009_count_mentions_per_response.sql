@@ -0,0 +1,886 @@
+-- =============================================
+-- MIGRATION: Count mentions per response
+-- Description: brand_mentions stores a row per occurrence (see the mention
+-- locator in the orchestrator), so functions that join or count it directly
+-- would count a response once per occurrence. Each entity's first row in a
+-- response is flagged with is_first_occurrence; the aggregation functions
+-- count distinct responses and the other functions keep only first rows, so
+-- mentions still mean responses mentioning the entity.
+-- Date: 2026-01-05
+-- =============================================
+
+ALTER TABLE public.brand_mentions
+    ADD COLUMN IF NOT EXISTS is_first_occurrence BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.brand_mentions.is_first_occurrence IS 'First row of the entity in the answer; filter on it to count responses mentioning the entity rather than occurrences. Rows stored before occurrence tracking are one per entity and default to true';
+
+-- =============================================
+-- FUNCTION: aggregate_brand_stats_only
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_brand_stats_only(
+  p_project_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region TEXT,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_brand_name TEXT;
+  v_start_ts TIMESTAMP;
+  v_end_ts TIMESTAMP;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_region_id UUID;
+BEGIN
+  -- Calculate timestamp range (allows index usage)
+  v_start_ts := p_stat_date::timestamp;
+  v_end_ts := (p_stat_date + INTERVAL '1 day')::timestamp;
+
+  -- Get project brand name
+  SELECT brand_name INTO v_brand_name
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_brand_name IS NULL THEN
+    v_brand_name := 'Brand';
+  END IF;
+
+  -- Get region_id from regions table if region code is provided
+  IF p_region IS NOT NULL AND p_region != 'GLOBAL' THEN
+    SELECT id INTO v_region_id
+    FROM regions
+    WHERE code = p_region
+      AND project_id = p_project_id
+      AND is_active = true;
+  ELSE
+    v_region_id := NULL;
+  END IF;
+
+  -- Query 1: Count brand mentions with dimension filters
+  -- (brand_mentions has a row per occurrence; a mention is a response mentioning the brand)
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count
+  FROM brand_mentions bm
+  JOIN ai_responses ar ON ar.id = bm.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'client'
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Query 2: Count citations with dimension filters
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  JOIN ai_responses ar ON ar.id = c.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'brand'
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Upsert brand stats with dimensions (using region_id instead of region)
+  -- Use SUM in ON CONFLICT to allow incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'brand',
+    NULL,
+    v_brand_name,
+    p_platform,
+    v_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0)
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: aggregate_competitor_stats_only
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_competitor_stats_only(
+  p_project_id UUID,
+  p_competitor_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region TEXT,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_competitor_name TEXT;
+  v_start_ts TIMESTAMP;
+  v_end_ts TIMESTAMP;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_region_id UUID;
+BEGIN
+  -- Calculate timestamp range (allows index usage)
+  v_start_ts := p_stat_date::timestamp;
+  v_end_ts := (p_stat_date + INTERVAL '1 day')::timestamp;
+
+  -- Get competitor name
+  SELECT name INTO v_competitor_name
+  FROM competitors
+  WHERE id = p_competitor_id AND project_id = p_project_id;
+
+  IF v_competitor_name IS NULL THEN
+    RETURN 0; -- Competitor not found
+  END IF;
+
+  -- Get region_id from regions table if region code is provided
+  IF p_region IS NOT NULL AND p_region != 'GLOBAL' THEN
+    SELECT id INTO v_region_id
+    FROM regions
+    WHERE code = p_region
+      AND project_id = p_project_id
+      AND is_active = true;
+  ELSE
+    v_region_id := NULL;
+  END IF;
+
+  -- Query 1: Count competitor mentions with dimension filters
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count
+  FROM brand_mentions bm
+  JOIN ai_responses ar ON ar.id = bm.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'competitor'
+    AND bm.competitor_id = p_competitor_id
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Query 2: Count citations with dimension filters
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  JOIN ai_responses ar ON ar.id = c.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'competitor'
+    AND c.competitor_id = p_competitor_id
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Upsert competitor stats with dimensions (using region_id instead of region)
+  -- Use SUM in ON CONFLICT to allow incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'competitor',
+    p_competitor_id,
+    v_competitor_name,
+    p_platform,
+    v_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0)
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: aggregate_brand_stats_incremental
+-- Incremental aggregation for a single ai_response_id
+-- Only counts brand_mentions and citations for the specified ai_response
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_brand_stats_incremental(
+  p_project_id UUID,
+  p_ai_response_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region_id UUID,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_brand_name TEXT;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_region_code TEXT;
+BEGIN
+  -- Get project brand name
+  SELECT brand_name INTO v_brand_name
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_brand_name IS NULL THEN
+    v_brand_name := 'Brand';
+  END IF;
+
+  -- Get region code from region_id if provided
+  IF p_region_id IS NOT NULL THEN
+    SELECT code INTO v_region_code
+    FROM regions
+    WHERE id = p_region_id
+      AND project_id = p_project_id
+      AND is_active = true;
+  END IF;
+
+  -- Count brand mentions for this specific ai_response_id
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count
+  FROM brand_mentions bm
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'client'
+    AND bm.ai_response_id = p_ai_response_id;
+
+  -- Count citations for this specific ai_response_id
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'brand'
+    AND c.ai_response_id = p_ai_response_id;
+
+  -- Skip if no mentions or citations
+  IF (v_mentions_count = 0 AND v_citations_count = 0) THEN
+    RETURN 0;
+  END IF;
+
+  -- Upsert brand stats with dimensions using SUM for incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'brand',
+    NULL,
+    v_brand_name,
+    p_platform,
+    p_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0)
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: aggregate_competitor_stats_incremental
+-- Incremental aggregation for a single ai_response_id and competitor
+-- Only counts brand_mentions and citations for the specified ai_response and competitor
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_competitor_stats_incremental(
+  p_project_id UUID,
+  p_competitor_id UUID,
+  p_ai_response_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region_id UUID,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_competitor_name TEXT;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+BEGIN
+  -- Get competitor name
+  SELECT name INTO v_competitor_name
+  FROM competitors
+  WHERE id = p_competitor_id AND project_id = p_project_id;
+
+  IF v_competitor_name IS NULL THEN
+    RETURN 0; -- Competitor not found
+  END IF;
+
+  -- Count competitor mentions for this specific ai_response_id
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count
+  FROM brand_mentions bm
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'competitor'
+    AND bm.competitor_id = p_competitor_id
+    AND bm.ai_response_id = p_ai_response_id;
+
+  -- Count citations for this specific ai_response_id
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'competitor'
+    AND c.competitor_id = p_competitor_id
+    AND c.ai_response_id = p_ai_response_id;
+
+  -- Skip if no mentions or citations
+  IF (v_mentions_count = 0 AND v_citations_count = 0) THEN
+    RETURN 0;
+  END IF;
+
+  -- Upsert competitor stats with dimensions using SUM for incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'competitor',
+    p_competitor_id,
+    v_competitor_name,
+    p_platform,
+    p_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0)
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: get_today_mentions_aggregated
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_today_mentions_aggregated(
+  p_project_id UUID,
+  p_cutoff_time TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region_id UUID DEFAULT NULL,
+  p_topic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  brand_mentions BIGINT,
+  competitor_mentions JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH entity_counts AS (
+    SELECT
+      bm.brand_type,
+      bm.competitor_id,
+      COUNT(*)::BIGINT AS mentions
+    FROM brand_mentions bm
+    INNER JOIN ai_responses ar ON ar.id = bm.ai_response_id
+    LEFT JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    WHERE bm.project_id = p_project_id
+      AND bm.is_first_occurrence
+      AND bm.created_at >= p_cutoff_time
+      AND (p_platform IS NULL OR ar.platform = p_platform)
+      AND (p_region_id IS NULL OR pt.region_id = p_region_id)
+      AND (p_topic_id IS NULL OR pt.topic_id = p_topic_id)
+    GROUP BY bm.brand_type, bm.competitor_id
+  )
+  SELECT
+    COALESCE(SUM(ec.mentions) FILTER (WHERE ec.brand_type = 'client'), 0)::BIGINT AS brand_mentions,
+    COALESCE(
+      jsonb_object_agg(ec.competitor_id::TEXT, ec.mentions)
+        FILTER (WHERE ec.brand_type = 'competitor' AND ec.competitor_id IS NOT NULL),
+      '{}'::jsonb
+    ) AS competitor_mentions
+  FROM entity_counts ec;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_today_mentions_aggregated TO authenticated;
+
+-- =============================================
+-- FUNCTION 1: get_query_overview
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_query_overview(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  total_queries BIGINT,
+  unique_queries BIGINT,
+  top_platform TEXT,
+  avg_query_length INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH filtered_citations AS (
+    SELECT 
+      c.web_search_query,
+      ar.platform
+    FROM citations c
+    INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+    INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+    LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+    WHERE c.project_id = p_project_id
+      AND c.web_search_query IS NOT NULL
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND (p_platform IS NULL OR ar.platform = p_platform)
+      AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+      AND (
+        p_entity_id IS NULL OR
+        (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+        (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+      )
+  ),
+  platform_counts AS (
+    SELECT platform, COUNT(*) as cnt
+    FROM filtered_citations
+    WHERE platform IS NOT NULL
+    GROUP BY platform
+    ORDER BY cnt DESC
+    LIMIT 1
+  )
+  SELECT 
+    COUNT(*)::BIGINT as total_queries,
+    COUNT(DISTINCT fc.web_search_query)::BIGINT as unique_queries,
+    COALESCE(
+      (SELECT platform FROM platform_counts),
+      'N/A'
+    )::TEXT as top_platform,
+    COALESCE(
+      ROUND(AVG(LENGTH(fc.web_search_query)))::INTEGER,
+      0
+    ) as avg_query_length
+  FROM filtered_citations fc;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- FUNCTION 2: get_query_word_cloud
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_query_word_cloud(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(text TEXT, value BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    c.web_search_query AS text,
+    COUNT(*)::BIGINT AS value
+  FROM citations c
+  INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+  INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+  LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+  WHERE c.project_id = p_project_id
+    AND c.web_search_query IS NOT NULL
+    AND c.created_at >= p_from_date
+    AND c.created_at <= p_to_date
+    AND (p_platform IS NULL OR ar.platform = p_platform)
+    AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+    AND (
+      p_entity_id IS NULL OR
+      (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+      (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+    )
+  GROUP BY c.web_search_query
+  ORDER BY value DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- FUNCTION 3: get_query_platform_distribution
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_query_platform_distribution(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_region TEXT DEFAULT NULL,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  platform TEXT,
+  query TEXT,
+  count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked_queries AS (
+    SELECT 
+      ar.platform,
+      c.web_search_query AS query,
+      COUNT(*)::BIGINT AS cnt,
+      ROW_NUMBER() OVER (PARTITION BY ar.platform ORDER BY COUNT(*) DESC) AS rn
+    FROM citations c
+    INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+    INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+    LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+    WHERE c.project_id = p_project_id
+      AND c.web_search_query IS NOT NULL
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND ar.platform IN ('openai', 'gemini', 'claude', 'perplexity')
+      AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+      AND (
+        p_entity_id IS NULL OR
+        (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+        (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+      )
+    GROUP BY ar.platform, c.web_search_query
+  )
+  SELECT 
+    rq.platform::TEXT,
+    rq.query::TEXT,
+    rq.cnt AS count
+  FROM ranked_queries rq
+  WHERE rq.rn <= 10
+  ORDER BY rq.platform, rq.cnt DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- FUNCTION 4: get_query_intent_breakdown
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_query_intent_breakdown(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  intent TEXT,
+  count BIGINT,
+  color TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH categorized AS (
+    SELECT 
+      c.web_search_query,
+      CASE 
+        WHEN LOWER(c.web_search_query) ~ '^what (is|are)' THEN 'Definition'
+        WHEN LOWER(c.web_search_query) ~ '^how (to|do|can)' THEN 'How-to'
+        WHEN LOWER(c.web_search_query) ~ 'best|top|recommended' THEN 'Best/Top'
+        WHEN LOWER(c.web_search_query) ~ 'compare|vs|versus|difference' THEN 'Comparison'
+        WHEN LOWER(c.web_search_query) ~ 'why|reason' THEN 'Explanation'
+        WHEN LOWER(c.web_search_query) ~ 'review|rating' THEN 'Reviews'
+        WHEN LOWER(c.web_search_query) ~ 'price|cost|pricing' THEN 'Pricing'
+        WHEN LOWER(c.web_search_query) ~ 'alternative|instead' THEN 'Alternatives'
+        ELSE 'Other'
+      END AS intent_category
+    FROM citations c
+    INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+    INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+    LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+    WHERE c.project_id = p_project_id
+      AND c.web_search_query IS NOT NULL
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND (p_platform IS NULL OR ar.platform = p_platform)
+      AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+      AND (
+        p_entity_id IS NULL OR
+        (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+        (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+      )
+  )
+  SELECT 
+    cat.intent_category::TEXT AS intent,
+    COUNT(*)::BIGINT AS count,
+    CASE cat.intent_category
+      WHEN 'Definition' THEN '#3b82f6'
+      WHEN 'How-to' THEN '#10b981'
+      WHEN 'Best/Top' THEN '#f59e0b'
+      WHEN 'Comparison' THEN '#8b5cf6'
+      WHEN 'Explanation' THEN '#ec4899'
+      WHEN 'Reviews' THEN '#14b8a6'
+      WHEN 'Pricing' THEN '#f97316'
+      WHEN 'Alternatives' THEN '#6366f1'
+      ELSE '#64748b'
+    END::TEXT AS color
+  FROM categorized cat
+  GROUP BY cat.intent_category
+  ORDER BY count DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- FUNCTION 5: get_top_queries
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_top_queries(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  query TEXT,
+  count BIGINT,
+  platforms TEXT[],
+  domains TEXT[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    c.web_search_query::TEXT AS query,
+    COUNT(*)::BIGINT AS count,
+    ARRAY_AGG(DISTINCT ar.platform)::TEXT[] AS platforms,
+    (ARRAY_AGG(DISTINCT c.domain) FILTER (WHERE c.domain IS NOT NULL))[1:3]::TEXT[] AS domains
+  FROM citations c
+  INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+  INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+  LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+  WHERE c.project_id = p_project_id
+    AND c.web_search_query IS NOT NULL
+    AND c.created_at >= p_from_date
+    AND c.created_at <= p_to_date
+    AND (p_platform IS NULL OR ar.platform = p_platform)
+    AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+    AND (
+      p_entity_id IS NULL OR
+      (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+      (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+    )
+  GROUP BY c.web_search_query
+  ORDER BY count DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- FUNCTION 6: get_query_domain_correlation
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_query_domain_correlation(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_query_limit INTEGER DEFAULT 10,
+  p_domain_limit INTEGER DEFAULT 10,
+  p_entity_id UUID DEFAULT NULL,
+  p_entity_type TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  query TEXT,
+  domain TEXT,
+  count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH top_queries AS (
+    SELECT c.web_search_query, COUNT(*) AS cnt
+    FROM citations c
+    INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+    INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+    LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+    WHERE c.project_id = p_project_id
+      AND c.web_search_query IS NOT NULL
+      AND c.domain IS NOT NULL
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND (p_platform IS NULL OR ar.platform = p_platform)
+      AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+      AND (
+        p_entity_id IS NULL OR
+        (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+        (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+      )
+    GROUP BY c.web_search_query
+    ORDER BY cnt DESC
+    LIMIT p_query_limit
+  ),
+  top_domains AS (
+    SELECT c.domain, COUNT(*) AS cnt
+    FROM citations c
+    INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+    INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+    LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+    WHERE c.project_id = p_project_id
+      AND c.web_search_query IS NOT NULL
+      AND c.domain IS NOT NULL
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND (p_platform IS NULL OR ar.platform = p_platform)
+      AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+      AND (
+        p_entity_id IS NULL OR
+        (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+        (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+      )
+    GROUP BY c.domain
+    ORDER BY cnt DESC
+    LIMIT p_domain_limit
+  )
+  SELECT 
+    c.web_search_query::TEXT AS query,
+    c.domain::TEXT AS domain,
+    COUNT(*)::BIGINT AS count
+  FROM citations c
+  INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+  INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id AND r.project_id = p_project_id
+  LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.is_first_occurrence
+  WHERE c.project_id = p_project_id
+    AND c.web_search_query IN (SELECT tq.web_search_query FROM top_queries tq)
+    AND c.domain IN (SELECT td.domain FROM top_domains td)
+    AND c.created_at >= p_from_date
+    AND c.created_at <= p_to_date
+    AND (p_platform IS NULL OR ar.platform = p_platform)
+    AND (p_region IS NULL OR p_region = 'GLOBAL' OR r.code = p_region)
+    AND (
+      p_entity_id IS NULL OR
+      (p_entity_type = 'brand' AND bm.brand_type = 'client') OR
+      (p_entity_type = 'competitor' AND bm.brand_type = 'competitor' AND bm.competitor_id = p_entity_id)
+    )
+  GROUP BY c.web_search_query, c.domain
+  ORDER BY c.web_search_query, count DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
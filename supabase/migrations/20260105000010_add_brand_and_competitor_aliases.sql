@@ -0,0 +1,21 @@
+-- =============================================
+-- MIGRATION: Add brand and competitor aliases
+-- Description: Alternative names used for entity matching: spelling variants,
+-- misspellings, sub-brands, product names and domains. The mention locator and
+-- the brand analysis prompt use them, and LLM output is resolved to the right
+-- competitor_id through them.
+-- Date: 2026-01-05
+-- =============================================
+
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS brand_aliases TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.competitors
+    ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN public.projects.brand_aliases IS 'Other names of the client brand (e.g. "Coke", "cocacola.com", "Zero Azúcar") matched as the brand';
+COMMENT ON COLUMN public.competitors.aliases IS 'Other names of the competitor (spelling variants, sub-brands, product names, domains) matched as this competitor';
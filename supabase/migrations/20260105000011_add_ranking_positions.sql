@@ -0,0 +1,631 @@
+-- =============================================
+-- MIGRATION: Add ranking positions to brand mentions and daily stats
+-- Description: Most category answers are ranked lists ("Top 5 CRMs for
+-- startups"). Brand analysis now extracts each entity's ordinal position and
+-- whether it was the explicit recommendation; the mention locator flags the
+-- entity mentioned first. daily_brand_stats keeps additive position sums so
+-- incremental aggregation can keep summing on conflict, and the dashboard
+-- derives average position, top-3 rate, first mention rate and
+-- position-weighted Share of Voice from them.
+-- Date: 2026-01-05
+-- =============================================
+
+ALTER TABLE public.brand_mentions
+    ADD COLUMN IF NOT EXISTS ranking_position INTEGER CHECK (ranking_position IS NULL OR ranking_position > 0),
+    ADD COLUMN IF NOT EXISTS is_recommended BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS is_first_mention BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.daily_brand_stats
+    ADD COLUMN IF NOT EXISTS ranked_responses INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS position_sum INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS top3_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS first_mention_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS recommended_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS weighted_mentions NUMERIC(12,4) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_brand_mentions_response_position
+    ON public.brand_mentions(ai_response_id, ranking_position)
+    WHERE ranking_position IS NOT NULL;
+
+-- =============================================
+-- FUNCTION: get_entity_position_stats
+-- Ranking position stats for one entity over a set of responses. Each
+-- response counts once, whatever the number of occurrences. The position
+-- weight is 1/position in a ranked answer; an entity left out of the ranked
+-- list ranks just after it, and answers without a list weigh 1.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_entity_position_stats(
+  p_ai_response_ids UUID[],
+  p_brand_type TEXT,
+  p_competitor_id UUID
+)
+RETURNS TABLE (
+  ranked_responses INTEGER,
+  position_sum INTEGER,
+  top3_count INTEGER,
+  first_mention_count INTEGER,
+  recommended_count INTEGER,
+  weighted_mentions NUMERIC
+) AS $$
+  WITH entity_responses AS (
+    SELECT
+      bm.ai_response_id,
+      MIN(bm.ranking_position) AS ranking_position,
+      bool_or(bm.is_recommended) AS is_recommended,
+      bool_or(bm.is_first_mention) AS is_first_mention
+    FROM brand_mentions bm
+    WHERE bm.ai_response_id = ANY(p_ai_response_ids)
+      AND bm.brand_type = p_brand_type
+      AND (p_competitor_id IS NULL OR bm.competitor_id = p_competitor_id)
+    GROUP BY bm.ai_response_id
+  ),
+  response_lists AS (
+    SELECT bm.ai_response_id, MAX(bm.ranking_position) AS list_length
+    FROM brand_mentions bm
+    WHERE bm.ai_response_id = ANY(p_ai_response_ids)
+    GROUP BY bm.ai_response_id
+  )
+  SELECT
+    COUNT(er.ranking_position)::INTEGER,
+    COALESCE(SUM(er.ranking_position), 0)::INTEGER,
+    COUNT(*) FILTER (WHERE er.ranking_position <= 3)::INTEGER,
+    COUNT(*) FILTER (WHERE er.is_first_mention)::INTEGER,
+    COUNT(*) FILTER (WHERE er.is_recommended)::INTEGER,
+    COALESCE(SUM(
+      CASE
+        WHEN er.ranking_position IS NOT NULL THEN 1.0 / er.ranking_position
+        WHEN rl.list_length IS NULL THEN 1.0
+        ELSE 1.0 / (rl.list_length + 1)
+      END
+    ), 0)::NUMERIC
+  FROM entity_responses er
+  JOIN response_lists rl ON rl.ai_response_id = er.ai_response_id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_entity_position_stats(UUID[], TEXT, UUID) IS 'Ranking position stats (ranked responses, position sum, top-3, first mention, recommended, position-weighted mentions) for the client brand or one competitor over a set of ai_response ids.';
+
+-- =============================================
+-- FUNCTION: aggregate_brand_stats_only
+-- Adds ranking position stats to the brand row
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_brand_stats_only(
+  p_project_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region TEXT,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_brand_name TEXT;
+  v_start_ts TIMESTAMP;
+  v_end_ts TIMESTAMP;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_response_ids UUID[];
+  v_position RECORD;
+  v_region_id UUID;
+BEGIN
+  -- Calculate timestamp range (allows index usage)
+  v_start_ts := p_stat_date::timestamp;
+  v_end_ts := (p_stat_date + INTERVAL '1 day')::timestamp;
+
+  -- Get project brand name
+  SELECT brand_name INTO v_brand_name
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_brand_name IS NULL THEN
+    v_brand_name := 'Brand';
+  END IF;
+
+  -- Get region_id from regions table if region code is provided
+  IF p_region IS NOT NULL AND p_region != 'GLOBAL' THEN
+    SELECT id INTO v_region_id
+    FROM regions
+    WHERE code = p_region
+      AND project_id = p_project_id
+      AND is_active = true;
+  ELSE
+    v_region_id := NULL;
+  END IF;
+
+  -- Query 1: Count brand mentions with dimension filters
+  -- (brand_mentions has a row per occurrence; a mention is a response mentioning the brand)
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id), ARRAY_AGG(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count, v_response_ids
+  FROM brand_mentions bm
+  JOIN ai_responses ar ON ar.id = bm.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'client'
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Query 2: Count citations with dimension filters
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  JOIN ai_responses ar ON ar.id = c.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'brand'
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Query 3: Ranking position stats over the responses that mention the entity
+  SELECT * INTO v_position
+  FROM get_entity_position_stats(v_response_ids, 'client', NULL);
+
+  -- Upsert brand stats with dimensions (using region_id instead of region)
+  -- Use SUM in ON CONFLICT to allow incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed,
+    ranked_responses, position_sum, top3_count,
+    first_mention_count, recommended_count, weighted_mentions
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'brand',
+    NULL,
+    v_brand_name,
+    p_platform,
+    v_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0),
+    v_position.ranked_responses,
+    v_position.position_sum,
+    v_position.top3_count,
+    v_position.first_mention_count,
+    v_position.recommended_count,
+    v_position.weighted_mentions
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    ranked_responses = daily_brand_stats.ranked_responses + EXCLUDED.ranked_responses,
+    position_sum = daily_brand_stats.position_sum + EXCLUDED.position_sum,
+    top3_count = daily_brand_stats.top3_count + EXCLUDED.top3_count,
+    first_mention_count = daily_brand_stats.first_mention_count + EXCLUDED.first_mention_count,
+    recommended_count = daily_brand_stats.recommended_count + EXCLUDED.recommended_count,
+    weighted_mentions = daily_brand_stats.weighted_mentions + EXCLUDED.weighted_mentions,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: aggregate_competitor_stats_only
+-- Adds ranking position stats to the competitor row
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_competitor_stats_only(
+  p_project_id UUID,
+  p_competitor_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region TEXT,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_competitor_name TEXT;
+  v_start_ts TIMESTAMP;
+  v_end_ts TIMESTAMP;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_response_ids UUID[];
+  v_position RECORD;
+  v_region_id UUID;
+BEGIN
+  -- Calculate timestamp range (allows index usage)
+  v_start_ts := p_stat_date::timestamp;
+  v_end_ts := (p_stat_date + INTERVAL '1 day')::timestamp;
+
+  -- Get competitor name
+  SELECT name INTO v_competitor_name
+  FROM competitors
+  WHERE id = p_competitor_id AND project_id = p_project_id;
+
+  IF v_competitor_name IS NULL THEN
+    RETURN 0; -- Competitor not found
+  END IF;
+
+  -- Get region_id from regions table if region code is provided
+  IF p_region IS NOT NULL AND p_region != 'GLOBAL' THEN
+    SELECT id INTO v_region_id
+    FROM regions
+    WHERE code = p_region
+      AND project_id = p_project_id
+      AND is_active = true;
+  ELSE
+    v_region_id := NULL;
+  END IF;
+
+  -- Query 1: Count competitor mentions with dimension filters
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id), ARRAY_AGG(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count, v_response_ids
+  FROM brand_mentions bm
+  JOIN ai_responses ar ON ar.id = bm.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'competitor'
+    AND bm.competitor_id = p_competitor_id
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Query 2: Count citations with dimension filters
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  JOIN ai_responses ar ON ar.id = c.ai_response_id
+  JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  LEFT JOIN regions r ON r.id = pt.region_id
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'competitor'
+    AND c.competitor_id = p_competitor_id
+    AND ar.platform = p_platform
+    AND (
+      p_region = 'GLOBAL' OR
+      (p_region IS NOT NULL AND r.code = p_region AND r.project_id = p_project_id)
+    )
+    AND (
+      (p_topic_id IS NULL AND pt.topic_id IS NULL) OR 
+      pt.topic_id = p_topic_id
+    )
+    AND ar.created_at >= v_start_ts
+    AND ar.created_at < v_end_ts;
+
+  -- Query 3: Ranking position stats over the responses that mention the entity
+  SELECT * INTO v_position
+  FROM get_entity_position_stats(v_response_ids, 'competitor', p_competitor_id);
+
+  -- Upsert competitor stats with dimensions (using region_id instead of region)
+  -- Use SUM in ON CONFLICT to allow incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed,
+    ranked_responses, position_sum, top3_count,
+    first_mention_count, recommended_count, weighted_mentions
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'competitor',
+    p_competitor_id,
+    v_competitor_name,
+    p_platform,
+    v_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0),
+    v_position.ranked_responses,
+    v_position.position_sum,
+    v_position.top3_count,
+    v_position.first_mention_count,
+    v_position.recommended_count,
+    v_position.weighted_mentions
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    ranked_responses = daily_brand_stats.ranked_responses + EXCLUDED.ranked_responses,
+    position_sum = daily_brand_stats.position_sum + EXCLUDED.position_sum,
+    top3_count = daily_brand_stats.top3_count + EXCLUDED.top3_count,
+    first_mention_count = daily_brand_stats.first_mention_count + EXCLUDED.first_mention_count,
+    recommended_count = daily_brand_stats.recommended_count + EXCLUDED.recommended_count,
+    weighted_mentions = daily_brand_stats.weighted_mentions + EXCLUDED.weighted_mentions,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: aggregate_brand_stats_incremental
+-- Adds ranking position stats for a single ai_response_id
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_brand_stats_incremental(
+  p_project_id UUID,
+  p_ai_response_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region_id UUID,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_brand_name TEXT;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_response_ids UUID[];
+  v_position RECORD;
+  v_region_code TEXT;
+BEGIN
+  -- Get project brand name
+  SELECT brand_name INTO v_brand_name
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_brand_name IS NULL THEN
+    v_brand_name := 'Brand';
+  END IF;
+
+  -- Get region code from region_id if provided
+  IF p_region_id IS NOT NULL THEN
+    SELECT code INTO v_region_code
+    FROM regions
+    WHERE id = p_region_id
+      AND project_id = p_project_id
+      AND is_active = true;
+  END IF;
+
+  -- Count brand mentions for this specific ai_response_id
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id), ARRAY_AGG(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count, v_response_ids
+  FROM brand_mentions bm
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'client'
+    AND bm.ai_response_id = p_ai_response_id;
+
+  -- Count citations for this specific ai_response_id
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'brand'
+    AND c.ai_response_id = p_ai_response_id;
+
+  -- Skip if no mentions or citations
+  IF (v_mentions_count = 0 AND v_citations_count = 0) THEN
+    RETURN 0;
+  END IF;
+
+  -- Query 3: Ranking position stats over the responses that mention the entity
+  SELECT * INTO v_position
+  FROM get_entity_position_stats(v_response_ids, 'client', NULL);
+
+  -- Upsert brand stats with dimensions using SUM for incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed,
+    ranked_responses, position_sum, top3_count,
+    first_mention_count, recommended_count, weighted_mentions
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'brand',
+    NULL,
+    v_brand_name,
+    p_platform,
+    p_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0),
+    v_position.ranked_responses,
+    v_position.position_sum,
+    v_position.top3_count,
+    v_position.first_mention_count,
+    v_position.recommended_count,
+    v_position.weighted_mentions
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    ranked_responses = daily_brand_stats.ranked_responses + EXCLUDED.ranked_responses,
+    position_sum = daily_brand_stats.position_sum + EXCLUDED.position_sum,
+    top3_count = daily_brand_stats.top3_count + EXCLUDED.top3_count,
+    first_mention_count = daily_brand_stats.first_mention_count + EXCLUDED.first_mention_count,
+    recommended_count = daily_brand_stats.recommended_count + EXCLUDED.recommended_count,
+    weighted_mentions = daily_brand_stats.weighted_mentions + EXCLUDED.weighted_mentions,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- FUNCTION: aggregate_competitor_stats_incremental
+-- Adds ranking position stats for a single ai_response_id and competitor
+-- =============================================
+
+CREATE OR REPLACE FUNCTION aggregate_competitor_stats_incremental(
+  p_project_id UUID,
+  p_competitor_id UUID,
+  p_ai_response_id UUID,
+  p_stat_date DATE,
+  p_platform TEXT,
+  p_region_id UUID,
+  p_topic_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_competitor_name TEXT;
+  v_mentions_count INTEGER;
+  v_citations_count INTEGER;
+  v_responses_count INTEGER;
+  v_response_ids UUID[];
+  v_position RECORD;
+BEGIN
+  -- Get competitor name
+  SELECT name INTO v_competitor_name
+  FROM competitors
+  WHERE id = p_competitor_id AND project_id = p_project_id;
+
+  IF v_competitor_name IS NULL THEN
+    RETURN 0; -- Competitor not found
+  END IF;
+
+  -- Count competitor mentions for this specific ai_response_id
+  SELECT COUNT(DISTINCT bm.ai_response_id), COUNT(DISTINCT bm.ai_response_id), ARRAY_AGG(DISTINCT bm.ai_response_id)
+  INTO v_mentions_count, v_responses_count, v_response_ids
+  FROM brand_mentions bm
+  WHERE bm.project_id = p_project_id
+    AND bm.brand_type = 'competitor'
+    AND bm.competitor_id = p_competitor_id
+    AND bm.ai_response_id = p_ai_response_id;
+
+  -- Count citations for this specific ai_response_id
+  SELECT COUNT(*)
+  INTO v_citations_count
+  FROM citations c
+  WHERE c.project_id = p_project_id
+    AND c.citation_type = 'competitor'
+    AND c.competitor_id = p_competitor_id
+    AND c.ai_response_id = p_ai_response_id;
+
+  -- Skip if no mentions or citations
+  IF (v_mentions_count = 0 AND v_citations_count = 0) THEN
+    RETURN 0;
+  END IF;
+
+  -- Query 3: Ranking position stats over the responses that mention the entity
+  SELECT * INTO v_position
+  FROM get_entity_position_stats(v_response_ids, 'competitor', p_competitor_id);
+
+  -- Upsert competitor stats with dimensions using SUM for incremental aggregation
+  INSERT INTO daily_brand_stats (
+    project_id, stat_date, entity_type, competitor_id, entity_name,
+    platform, region_id, topic_id,
+    mentions_count, citations_count,
+    responses_analyzed,
+    ranked_responses, position_sum, top3_count,
+    first_mention_count, recommended_count, weighted_mentions
+  )
+  VALUES (
+    p_project_id,
+    p_stat_date,
+    'competitor',
+    p_competitor_id,
+    v_competitor_name,
+    p_platform,
+    p_region_id,
+    p_topic_id,
+    COALESCE(v_mentions_count, 0),
+    COALESCE(v_citations_count, 0),
+    COALESCE(v_responses_count, 0),
+    v_position.ranked_responses,
+    v_position.position_sum,
+    v_position.top3_count,
+    v_position.first_mention_count,
+    v_position.recommended_count,
+    v_position.weighted_mentions
+  )
+  ON CONFLICT (
+    project_id, 
+    stat_date, 
+    COALESCE(competitor_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(platform, 'ALL'),
+    COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(topic_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  DO UPDATE SET
+    entity_name = EXCLUDED.entity_name,
+    mentions_count = daily_brand_stats.mentions_count + EXCLUDED.mentions_count,
+    citations_count = daily_brand_stats.citations_count + EXCLUDED.citations_count,
+    responses_analyzed = daily_brand_stats.responses_analyzed + EXCLUDED.responses_analyzed,
+    ranked_responses = daily_brand_stats.ranked_responses + EXCLUDED.ranked_responses,
+    position_sum = daily_brand_stats.position_sum + EXCLUDED.position_sum,
+    top3_count = daily_brand_stats.top3_count + EXCLUDED.top3_count,
+    first_mention_count = daily_brand_stats.first_mention_count + EXCLUDED.first_mention_count,
+    recommended_count = daily_brand_stats.recommended_count + EXCLUDED.recommended_count,
+    weighted_mentions = daily_brand_stats.weighted_mentions + EXCLUDED.weighted_mentions,
+    updated_at = now();
+
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN public.brand_mentions.ranking_position IS 'Ordinal position of the entity in a ranked answer (1 = first), repeated on every occurrence row of the entity; NULL when the answer has no ranked list or the entity is not in it';
+COMMENT ON COLUMN public.brand_mentions.is_recommended IS 'The answer explicitly recommends this entity (e.g. "our top pick"), repeated on every occurrence row of the entity';
+COMMENT ON COLUMN public.brand_mentions.is_first_mention IS 'This occurrence is the first tracked brand or competitor in the answer';
+COMMENT ON COLUMN public.daily_brand_stats.ranked_responses IS 'Responses where the entity had a ranking position';
+COMMENT ON COLUMN public.daily_brand_stats.position_sum IS 'Sum of ranking positions; average position = position_sum / ranked_responses';
+COMMENT ON COLUMN public.daily_brand_stats.top3_count IS 'Responses where the entity ranked in the top 3';
+COMMENT ON COLUMN public.daily_brand_stats.first_mention_count IS 'Responses where the entity was the first tracked brand mentioned';
+COMMENT ON COLUMN public.daily_brand_stats.recommended_count IS 'Responses where the entity was the explicit recommendation';
+COMMENT ON COLUMN public.daily_brand_stats.weighted_mentions IS 'Responses mentioning the entity weighted by position (1/position), used for position-weighted Share of Voice';
@@ -0,0 +1,224 @@
+-- =============================================
+-- MIGRATION: Potential competitor review workflow
+-- Description: Discovered brands get a review status (pending, promoted,
+-- dismissed), variant names merged into them, and one detection row per
+-- response so the review queue can sort by growth and infer a domain from the
+-- citations of those responses. Dismissed and promoted brands are skipped by
+-- future analyses.
+-- Date: 2026-01-05
+-- =============================================
+
+ALTER TABLE public.potential_competitors
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'promoted', 'dismissed')),
+    ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS promoted_competitor_id UUID REFERENCES public.competitors(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.potential_competitor_detections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    potential_competitor_id UUID NOT NULL REFERENCES public.potential_competitors(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    ai_response_id UUID REFERENCES public.ai_responses(id) ON DELETE CASCADE,
+    detected_name TEXT NOT NULL, -- Name as the analysis reported it
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.potential_competitor_detections ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_potential_competitors_project_status ON public.potential_competitors(project_id, status);
+CREATE INDEX IF NOT EXISTS idx_potential_competitor_detections_competitor
+    ON public.potential_competitor_detections(potential_competitor_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_potential_competitor_detections_response
+    ON public.potential_competitor_detections(ai_response_id);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can delete accessible potential competitors"
+    ON public.potential_competitors
+    FOR DELETE
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = potential_competitors.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = potential_competitors.project_id
+        )
+    );
+
+CREATE POLICY "Users can read accessible potential competitor detections"
+    ON public.potential_competitor_detections
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = potential_competitor_detections.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = potential_competitor_detections.project_id
+        )
+    );
+
+-- Merging moves detections to the surviving brand; rows are inserted by the orchestrator (service role)
+CREATE POLICY "Users can update accessible potential competitor detections"
+    ON public.potential_competitor_detections
+    FOR UPDATE
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = potential_competitor_detections.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = potential_competitor_detections.project_id
+        )
+    );
+
+-- =============================================
+-- FUNCTION: get_potential_competitor_queue
+-- Discovered brands with detections in the last 7 days and the 7 days before,
+-- so the review queue can sort by frequency or growth
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_potential_competitor_queue(p_project_id UUID)
+RETURNS TABLE (
+    id UUID,
+    brand_name TEXT,
+    aliases TEXT[],
+    status TEXT,
+    context TEXT,
+    mention_count INTEGER,
+    recent_mentions INTEGER,
+    previous_mentions INTEGER,
+    first_detected_at TIMESTAMPTZ,
+    last_detected_at TIMESTAMPTZ,
+    promoted_competitor_id UUID,
+    reviewed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        pc.id,
+        pc.brand_name,
+        pc.aliases,
+        pc.status,
+        pc.context,
+        COALESCE(pc.mention_count, 0),
+        COUNT(d.id) FILTER (WHERE d.detected_at >= NOW() - INTERVAL '7 days')::INTEGER,
+        COUNT(d.id) FILTER (
+            WHERE d.detected_at >= NOW() - INTERVAL '14 days'
+              AND d.detected_at < NOW() - INTERVAL '7 days'
+        )::INTEGER,
+        pc.first_detected_at,
+        pc.last_detected_at,
+        pc.promoted_competitor_id,
+        pc.reviewed_at
+    FROM public.potential_competitors pc
+    LEFT JOIN public.potential_competitor_detections d ON d.potential_competitor_id = pc.id
+    WHERE pc.project_id = p_project_id
+    GROUP BY pc.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_potential_competitor_queue(UUID) TO authenticated;
+
+-- =============================================
+-- FUNCTION: merge_potential_competitors
+-- Folds duplicates and variant names into one brand: names become aliases,
+-- counts and detection dates are combined and detections move over
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.merge_potential_competitors(
+    p_target_id UUID,
+    p_source_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_project_id UUID;
+    v_brand_name TEXT;
+    v_merged INTEGER;
+BEGIN
+    SELECT project_id, brand_name INTO v_project_id, v_brand_name
+    FROM public.potential_competitors
+    WHERE id = p_target_id;
+
+    IF v_project_id IS NULL THEN
+        RAISE EXCEPTION 'Potential competitor % not found', p_target_id;
+    END IF;
+
+    UPDATE public.potential_competitors target
+    SET
+        aliases = ARRAY(
+            SELECT DISTINCT name
+            FROM (
+                SELECT unnest(target.aliases) AS name
+                UNION
+                SELECT unnest(ARRAY[s.brand_name] || s.aliases)
+                FROM public.potential_competitors s
+                WHERE s.id = ANY(p_source_ids) AND s.project_id = v_project_id AND s.id <> p_target_id
+            ) names
+            WHERE lower(name) <> lower(v_brand_name)
+        ),
+        mention_count = COALESCE(target.mention_count, 0) + COALESCE(sources.mention_count, 0),
+        first_detected_at = LEAST(target.first_detected_at, sources.first_detected_at),
+        last_detected_at = GREATEST(target.last_detected_at, sources.last_detected_at)
+    FROM (
+        SELECT
+            SUM(COALESCE(mention_count, 0))::INTEGER AS mention_count,
+            MIN(first_detected_at) AS first_detected_at,
+            MAX(last_detected_at) AS last_detected_at
+        FROM public.potential_competitors
+        WHERE id = ANY(p_source_ids) AND project_id = v_project_id AND id <> p_target_id
+    ) sources
+    WHERE target.id = p_target_id;
+
+    UPDATE public.potential_competitor_detections
+    SET potential_competitor_id = p_target_id
+    WHERE potential_competitor_id = ANY(p_source_ids)
+      AND project_id = v_project_id
+      AND potential_competitor_id <> p_target_id;
+
+    DELETE FROM public.potential_competitors
+    WHERE id = ANY(p_source_ids)
+      AND project_id = v_project_id
+      AND id <> p_target_id;
+
+    GET DIAGNOSTICS v_merged = ROW_COUNT;
+    RETURN v_merged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_potential_competitors(UUID, UUID[]) TO authenticated;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN public.potential_competitors.status IS 'pending (in the review queue), promoted (added to competitors) or dismissed (ignored by future analyses)';
+COMMENT ON COLUMN public.potential_competitors.aliases IS 'Variant names merged into this brand; detections under any of them count here';
+COMMENT ON COLUMN public.potential_competitors.promoted_competitor_id IS 'Competitor created when this brand was promoted';
+COMMENT ON TABLE public.potential_competitor_detections IS 'One row per response in which a potential competitor was detected';
+COMMENT ON FUNCTION public.get_potential_competitor_queue(UUID) IS 'Discovered brands of a project with detections in the last 7 days and the previous 7 days';
+COMMENT ON FUNCTION public.merge_potential_competitors(UUID, UUID[]) IS 'Merges duplicate or variant potential competitors into p_target_id and returns how many rows were merged';
@@ -0,0 +1,170 @@
+-- =============================================
+-- MIGRATION: Create reanalysis_jobs table
+-- Description: Historical re-analysis of stored responses for a chosen date range
+-- and set of entities (the brand and/or specific competitors), e.g. after adding
+-- a competitor or changing aliases. The dashboard creates the job with its cost
+-- estimate; the orchestrator replaces the entities' brand_mentions and
+-- brand_sentiment_attributes rows, reports progress here and then rebuilds
+-- daily_brand_stats for the range.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.reanalysis_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    include_brand BOOLEAN NOT NULL DEFAULT false, -- Re-analyze the project's own brand
+    competitor_ids UUID[] NOT NULL DEFAULT '{}', -- Competitors to re-analyze
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'aggregating', 'completed', 'failed')),
+    responses_total INTEGER NOT NULL DEFAULT 0,
+    responses_processed INTEGER NOT NULL DEFAULT 0,
+    responses_failed INTEGER NOT NULL DEFAULT 0,
+    estimated_cost DECIMAL(12, 6), -- USD, from the project's recent brand analysis spend
+    cost DECIMAL(12, 6) NOT NULL DEFAULT 0, -- USD actually spent
+    error_message TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_date >= start_date),
+    CHECK (include_brand OR cardinality(competitor_ids) > 0)
+);
+
+-- Enable RLS
+ALTER TABLE public.reanalysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_reanalysis_jobs_project_created ON public.reanalysis_jobs(project_id, created_at DESC);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible reanalysis jobs"
+    ON public.reanalysis_jobs
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = reanalysis_jobs.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = reanalysis_jobs.project_id
+        )
+    );
+
+-- Jobs are created from the dashboard; progress is written by the orchestrator (service role)
+CREATE POLICY "Users can create accessible reanalysis jobs"
+    ON public.reanalysis_jobs
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = reanalysis_jobs.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = reanalysis_jobs.project_id
+        )
+    );
+
+-- Lets the dashboard mark a job failed when the orchestrator can't be reached
+CREATE POLICY "Users can update accessible reanalysis jobs"
+    ON public.reanalysis_jobs
+    FOR UPDATE
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = reanalysis_jobs.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = reanalysis_jobs.project_id
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_reanalysis_jobs_updated_at
+    BEFORE UPDATE ON public.reanalysis_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTION: replace_brand_analysis
+-- Replaces the selected entities' brand_mentions and brand_sentiment_attributes
+-- rows of one response with the re-analysis rows (JSON arrays of row objects),
+-- in one transaction: if any insert fails the previous rows are kept.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION replace_brand_analysis(
+  p_ai_response_id UUID,
+  p_include_brand BOOLEAN,
+  p_competitor_ids UUID[],
+  p_mentions JSONB,
+  p_attributes JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_mentions_saved INTEGER;
+  v_sentiment_saved INTEGER;
+BEGIN
+  DELETE FROM brand_mentions
+  WHERE ai_response_id = p_ai_response_id
+    AND ((p_include_brand AND brand_type = 'client') OR competitor_id = ANY(p_competitor_ids));
+
+  DELETE FROM brand_sentiment_attributes
+  WHERE ai_response_id = p_ai_response_id
+    AND ((p_include_brand AND brand_type = 'client') OR competitor_id = ANY(p_competitor_ids));
+
+  INSERT INTO brand_mentions (
+    ai_response_id, project_id, brand_type, competitor_id, entity_name, mentioned_text,
+    start_index, end_index, confidence_score, ranking_position, is_recommended, is_first_mention, is_first_occurrence, metadata
+  )
+  SELECT
+    ai_response_id, project_id, brand_type, competitor_id, entity_name, mentioned_text,
+    start_index, end_index, confidence_score, ranking_position, is_recommended, is_first_mention, is_first_occurrence, metadata
+  FROM jsonb_populate_recordset(NULL::brand_mentions, COALESCE(p_mentions, '[]'::jsonb));
+  GET DIAGNOSTICS v_mentions_saved = ROW_COUNT;
+
+  INSERT INTO brand_sentiment_attributes (
+    ai_response_id, project_id, brand_type, competitor_id, entity_name, sentiment, sentiment_rating,
+    sentiment_ratio, positive_attributes, negative_attributes, analyzed_text, metadata
+  )
+  SELECT
+    ai_response_id, project_id, brand_type, competitor_id, entity_name, sentiment, sentiment_rating,
+    sentiment_ratio, positive_attributes, negative_attributes, analyzed_text, metadata
+  FROM jsonb_populate_recordset(NULL::brand_sentiment_attributes, COALESCE(p_attributes, '[]'::jsonb));
+  GET DIAGNOSTICS v_sentiment_saved = ROW_COUNT;
+
+  RETURN jsonb_build_object('mentions_saved', v_mentions_saved, 'sentiment_saved', v_sentiment_saved);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION replace_brand_analysis FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_brand_analysis TO service_role;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.reanalysis_jobs IS 'Historical re-analysis of stored responses for selected entities over a date range';
+COMMENT ON COLUMN public.reanalysis_jobs.status IS 'queued, running (analyzing responses), aggregating (rebuilding daily_brand_stats), completed or failed';
+COMMENT ON COLUMN public.reanalysis_jobs.estimated_cost IS 'Estimate shown before starting: responses in range x average brand analysis cost per call';
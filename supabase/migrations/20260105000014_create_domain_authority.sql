@@ -0,0 +1,254 @@
+-- =============================================
+-- MIGRATION: Create domain_authority table
+-- Description: Authority score per cited domain and project. The internal score
+-- comes from the project's own citation graph (how many platforms, prompts,
+-- regions and days cite the domain, and how many tracked brands it cites); an
+-- imported third-party rating (CSV upload) takes precedence when present.
+-- Replaces the domain_rating reads from the never-created domains table.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.domain_authority (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    domain TEXT NOT NULL, -- Lowercase, without www.
+
+    -- Citation graph signals over the scoring window
+    citations_count INTEGER NOT NULL DEFAULT 0,
+    platforms_count INTEGER NOT NULL DEFAULT 0,
+    prompts_count INTEGER NOT NULL DEFAULT 0,
+    regions_count INTEGER NOT NULL DEFAULT 0,
+    days_count INTEGER NOT NULL DEFAULT 0,
+    brands_cited_count INTEGER NOT NULL DEFAULT 0, -- Tracked brands (yours + competitors) this domain cites
+
+    internal_score SMALLINT NOT NULL DEFAULT 0 CHECK (internal_score BETWEEN 0 AND 100),
+    imported_rating SMALLINT CHECK (imported_rating BETWEEN 0 AND 100), -- Third-party DR from a CSV import
+    imported_source TEXT, -- e.g. "ahrefs", "moz"
+    imported_at TIMESTAMPTZ,
+
+    authority_score SMALLINT GENERATED ALWAYS AS (COALESCE(imported_rating, internal_score)) STORED,
+    authority_category TEXT GENERATED ALWAYS AS (
+        CASE
+            WHEN COALESCE(imported_rating, internal_score) >= 80 THEN 'high'
+            WHEN COALESCE(imported_rating, internal_score) >= 60 THEN 'medium'
+            WHEN COALESCE(imported_rating, internal_score) >= 40 THEN 'low'
+            ELSE 'unverified'
+        END
+    ) STORED,
+
+    computed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(project_id, domain)
+);
+
+-- Enable RLS
+ALTER TABLE public.domain_authority ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_domain_authority_project_score ON public.domain_authority(project_id, authority_score DESC);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible domain authority"
+    ON public.domain_authority
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = domain_authority.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = domain_authority.project_id
+        )
+    );
+
+-- CSV imports and recomputes from the dashboard write rows directly
+CREATE POLICY "Users can create accessible domain authority"
+    ON public.domain_authority
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = domain_authority.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = domain_authority.project_id
+        )
+    );
+
+CREATE POLICY "Users can update accessible domain authority"
+    ON public.domain_authority
+    FOR UPDATE
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = domain_authority.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = domain_authority.project_id
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_domain_authority_updated_at
+    BEFORE UPDATE ON public.domain_authority
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTION: compute_domain_authority
+-- Scores every domain cited in the project over the last p_days days:
+--   25% share of platforms citing it
+--   25% sqrt(share of prompts citing it)
+--   15% share of regions citing it
+--   20% sqrt(share of days it was cited)
+--   15% share of tracked brands it cites
+-- Shares are relative to the project totals in the window, so the best-spread
+-- domain scores close to 100. Domains no longer cited keep their imported
+-- rating and drop to an internal score of 0.
+-- Runs as the caller: the orchestrator (service role) after the daily
+-- aggregation, or a project member from the dashboard.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.compute_domain_authority(
+    p_project_id UUID,
+    p_days INTEGER DEFAULT 90
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_now TIMESTAMPTZ := NOW();
+    v_scored INTEGER;
+BEGIN
+    WITH cited AS (
+        SELECT
+            lower(regexp_replace(c.domain, '^www\.', '')) AS domain,
+            ar.platform,
+            ar.prompt_tracking_id,
+            pt.region_id,
+            (c.created_at AT TIME ZONE 'UTC')::date AS cited_on,
+            CASE
+                WHEN c.citation_type = 'brand' THEN 'brand'
+                WHEN c.citation_type = 'competitor' AND c.competitor_id IS NOT NULL THEN c.competitor_id::TEXT
+            END AS entity_key
+        FROM public.citations c
+        JOIN public.ai_responses ar ON ar.id = c.ai_response_id
+        LEFT JOIN public.prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+        WHERE ar.project_id = p_project_id
+          AND c.domain IS NOT NULL
+          AND c.domain <> ''
+          AND c.created_at >= v_now - make_interval(days => p_days)
+    ),
+    totals AS (
+        SELECT
+            GREATEST(COUNT(DISTINCT platform), 1) AS platforms,
+            GREATEST(COUNT(DISTINCT prompt_tracking_id), 1) AS prompts,
+            GREATEST(COUNT(DISTINCT region_id), 1) AS regions,
+            GREATEST(COUNT(DISTINCT cited_on), 1) AS days,
+            1 + (
+                SELECT COUNT(*) FROM public.competitors
+                WHERE project_id = p_project_id AND is_active = true
+            ) AS brands
+        FROM cited
+    ),
+    per_domain AS (
+        SELECT
+            domain,
+            COUNT(*)::INTEGER AS citations_count,
+            COUNT(DISTINCT platform)::INTEGER AS platforms_count,
+            COUNT(DISTINCT prompt_tracking_id)::INTEGER AS prompts_count,
+            COUNT(DISTINCT region_id)::INTEGER AS regions_count,
+            COUNT(DISTINCT cited_on)::INTEGER AS days_count,
+            COUNT(DISTINCT entity_key)::INTEGER AS brands_cited_count
+        FROM cited
+        GROUP BY domain
+    )
+    INSERT INTO public.domain_authority (
+        project_id, domain,
+        citations_count, platforms_count, prompts_count, regions_count, days_count, brands_cited_count,
+        internal_score, computed_at
+    )
+    SELECT
+        p_project_id,
+        d.domain,
+        d.citations_count,
+        d.platforms_count,
+        d.prompts_count,
+        d.regions_count,
+        d.days_count,
+        d.brands_cited_count,
+        LEAST(100, ROUND(100 * (
+            0.25 * d.platforms_count::NUMERIC / t.platforms
+            + 0.25 * sqrt(d.prompts_count::NUMERIC / t.prompts)
+            + 0.15 * LEAST(1, d.regions_count::NUMERIC / t.regions)
+            + 0.20 * sqrt(d.days_count::NUMERIC / t.days)
+            + 0.15 * LEAST(1, d.brands_cited_count::NUMERIC / t.brands)
+        )))::SMALLINT,
+        v_now
+    FROM per_domain d
+    CROSS JOIN totals t
+    ON CONFLICT (project_id, domain)
+    DO UPDATE SET
+        citations_count = EXCLUDED.citations_count,
+        platforms_count = EXCLUDED.platforms_count,
+        prompts_count = EXCLUDED.prompts_count,
+        regions_count = EXCLUDED.regions_count,
+        days_count = EXCLUDED.days_count,
+        brands_cited_count = EXCLUDED.brands_cited_count,
+        internal_score = EXCLUDED.internal_score,
+        computed_at = EXCLUDED.computed_at;
+
+    GET DIAGNOSTICS v_scored = ROW_COUNT;
+
+    -- Domains that dropped out of the window
+    UPDATE public.domain_authority
+    SET
+        citations_count = 0,
+        platforms_count = 0,
+        prompts_count = 0,
+        regions_count = 0,
+        days_count = 0,
+        brands_cited_count = 0,
+        internal_score = 0,
+        computed_at = v_now
+    WHERE project_id = p_project_id
+      AND (computed_at IS NULL OR computed_at < v_now)
+      AND internal_score > 0;
+
+    RETURN v_scored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.compute_domain_authority(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.compute_domain_authority(UUID, INTEGER) TO service_role;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.domain_authority IS 'Authority score (0-100) per cited domain and project, internal or imported';
+COMMENT ON COLUMN public.domain_authority.authority_score IS 'Imported third-party rating when present, otherwise the internal citation graph score';
+COMMENT ON COLUMN public.domain_authority.authority_category IS 'high (80+), medium (60-79), low (40-59) or unverified (<40), matching the DR breakdown tiers';
+COMMENT ON FUNCTION public.compute_domain_authority(UUID, INTEGER) IS 'Recomputes the internal authority score of every domain cited in a project over the last p_days days';
@@ -0,0 +1,280 @@
+-- =============================================
+-- MIGRATION: Add citation source categories
+-- Description: Classifies cited domains by source type (review site, marketplace,
+-- news, forum/UGC, Wikipedia, social, government, affiliate blog, company site)
+-- for outreach planning. citation_type keeps saying whose site it is (brand,
+-- competitor, other); source_category says what kind of site it is.
+--   * domain_categories: global cache filled by the orchestrator from built-in
+--     rules and, for unknown domains, LLM classification
+--   * domain_category_overrides: per-project corrections by project admins
+--   * citations.source_category: the resolved category, NULL until classified
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- PHASE 1: Citations column
+-- =============================================
+
+ALTER TABLE public.citations ADD COLUMN IF NOT EXISTS source_category TEXT
+    CHECK (source_category IN (
+        'review_site', 'marketplace', 'news', 'forum', 'wikipedia',
+        'social', 'government', 'affiliate_blog', 'corporate', 'other'
+    ));
+
+CREATE INDEX IF NOT EXISTS idx_citations_project_source_category ON public.citations(project_id, source_category);
+
+-- The classification job looks up citations that are still unclassified
+CREATE INDEX IF NOT EXISTS idx_citations_unclassified ON public.citations(project_id, domain) WHERE source_category IS NULL;
+
+-- =============================================
+-- PHASE 2: Global domain category cache
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.domain_categories (
+    domain TEXT PRIMARY KEY, -- Lowercase, without www.
+    category TEXT NOT NULL CHECK (category IN (
+        'review_site', 'marketplace', 'news', 'forum', 'wikipedia',
+        'social', 'government', 'affiliate_blog', 'corporate', 'other'
+    )),
+    origin TEXT NOT NULL CHECK (origin IN ('rule', 'llm')),
+    model TEXT, -- LLM used for origin = 'llm'
+    classified_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.domain_categories ENABLE ROW LEVEL SECURITY;
+
+-- Shared across projects; only the orchestrator (service role) writes it
+CREATE POLICY "Authenticated users can read domain categories"
+    ON public.domain_categories
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER update_domain_categories_updated_at
+    BEFORE UPDATE ON public.domain_categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- PHASE 3: Per-project overrides
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.domain_category_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    domain TEXT NOT NULL, -- Lowercase, without www.
+    category TEXT NOT NULL CHECK (category IN (
+        'review_site', 'marketplace', 'news', 'forum', 'wikipedia',
+        'social', 'government', 'affiliate_blog', 'corporate', 'other'
+    )),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(project_id, domain)
+);
+
+-- Enable RLS
+ALTER TABLE public.domain_category_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read accessible domain category overrides"
+    ON public.domain_category_overrides
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = domain_category_overrides.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = domain_category_overrides.project_id
+        )
+    );
+
+-- Overrides are admin-only
+CREATE POLICY "Admins can manage domain category overrides"
+    ON public.domain_category_overrides
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = domain_category_overrides.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = domain_category_overrides.project_id
+            AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = domain_category_overrides.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = domain_category_overrides.project_id
+            AND role = 'admin'
+        )
+    );
+
+CREATE TRIGGER update_domain_category_overrides_updated_at
+    BEFORE UPDATE ON public.domain_category_overrides
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTION: apply_domain_categories
+-- Re-stamps citations.source_category for the given (normalized) domains.
+-- Precedence: project override, then 'corporate' for brand/competitor sites,
+-- then the global cache; NULL when none applies (picked up by the job).
+-- With p_project_id, every citation of that project is re-stamped (after an
+-- override changes); without it only unclassified citations are filled in.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.apply_domain_categories(
+    p_domains TEXT[],
+    p_project_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    UPDATE public.citations c
+    SET source_category = COALESCE(
+        (
+            SELECT o.category FROM public.domain_category_overrides o
+            WHERE o.project_id = c.project_id
+              AND o.domain = normalize_domain(c.domain)
+        ),
+        CASE WHEN c.citation_type IN ('brand', 'competitor') THEN 'corporate' END,
+        (
+            SELECT dc.category FROM public.domain_categories dc
+            WHERE dc.domain = normalize_domain(c.domain)
+        )
+    )
+    WHERE c.domain IS NOT NULL
+      AND normalize_domain(c.domain) = ANY(p_domains)
+      AND (
+          (p_project_id IS NOT NULL AND c.project_id = p_project_id)
+          OR (p_project_id IS NULL AND c.source_category IS NULL)
+      );
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_domain_categories(TEXT[], UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_domain_categories(TEXT[], UUID) TO service_role;
+
+-- =============================================
+-- FUNCTION: get_unclassified_citation_domains
+-- Domains with unclassified citations, most cited first, with a sample URL and
+-- cited text to give the classifier some context
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_unclassified_citation_domains(
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+    project_id UUID,
+    domain TEXT,
+    citations_count BIGINT,
+    sample_url TEXT,
+    sample_text TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.project_id,
+        normalize_domain(c.domain) AS domain,
+        COUNT(*)::BIGINT AS citations_count,
+        (ARRAY_AGG(COALESCE(c.url, c.uri)) FILTER (WHERE COALESCE(c.url, c.uri) IS NOT NULL))[1] AS sample_url,
+        (ARRAY_AGG(LEFT(c.text, 200)) FILTER (WHERE c.text IS NOT NULL))[1] AS sample_text
+    FROM public.citations c
+    WHERE c.source_category IS NULL
+      AND c.domain IS NOT NULL
+      AND c.domain <> ''
+      AND c.project_id IS NOT NULL
+    GROUP BY c.project_id, normalize_domain(c.domain)
+    ORDER BY COUNT(*) DESC
+    LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_unclassified_citation_domains(INTEGER) TO service_role;
+
+-- =============================================
+-- FUNCTION: get_citation_source_categories
+-- Citations and distinct domains per platform and source category, with the
+-- same filters as get_most_cited_domains_aggregated. Rows with a NULL platform
+-- are the totals across platforms (distinct domains can't be summed).
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_citation_source_categories(
+    p_project_id UUID,
+    p_from_date TIMESTAMPTZ,
+    p_to_date TIMESTAMPTZ,
+    p_platform TEXT DEFAULT NULL,
+    p_region_id UUID DEFAULT NULL,
+    p_topic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    platform TEXT,
+    source_category TEXT,
+    citations_count BIGINT,
+    domains_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        ar.platform,
+        COALESCE(c.source_category, 'unclassified') AS source_category,
+        COUNT(*)::BIGINT AS citations_count,
+        COUNT(DISTINCT normalize_domain(c.domain))::BIGINT AS domains_count
+    FROM public.citations c
+    INNER JOIN public.ai_responses ar ON ar.id = c.ai_response_id
+    LEFT JOIN public.prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+    WHERE ar.project_id = p_project_id
+      AND c.created_at >= p_from_date
+      AND c.created_at <= p_to_date
+      AND c.domain IS NOT NULL
+      AND (p_platform IS NULL OR ar.platform = p_platform)
+      AND (p_region_id IS NULL OR pt.region_id = p_region_id)
+      AND (p_topic_id IS NULL OR pt.topic_id = p_topic_id)
+    GROUP BY GROUPING SETS (
+        (ar.platform, COALESCE(c.source_category, 'unclassified')),
+        (COALESCE(c.source_category, 'unclassified'))
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_citation_source_categories(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID, UUID) TO authenticated;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN public.citations.source_category IS 'Source type of the cited domain (override > brand/competitor site > domain_categories), NULL until classified';
+COMMENT ON TABLE public.domain_categories IS 'Global source type per domain, from built-in rules or LLM classification';
+COMMENT ON TABLE public.domain_category_overrides IS 'Per-project source type corrections set by project admins';
+COMMENT ON FUNCTION public.apply_domain_categories(TEXT[], UUID) IS 'Re-stamps citations.source_category for the given normalized domains';
@@ -0,0 +1,210 @@
+-- =============================================
+-- MIGRATION: Add canonical citation URLs
+-- Description: The same page was counted several times because URLs arrive with
+-- tracking params (utm_source=openai), different host spellings (www., :443),
+-- trailing slashes or fragments. citations.canonical_url holds one form per page:
+--   * set by the orchestrator after following redirects such as Gemini's
+--     vertexaisearch grounding links (src/lib/url-canonicalization.ts)
+--   * filled from url by canonicalize_url() for existing rows and any insert
+--     that doesn't provide it
+-- Page-level queries (count_distinct_citation_pages, get_top_cited_pages) group
+-- by canonical_url.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- FUNCTION: canonicalize_url
+-- Same rules as canonicalizeUrl() in the orchestrator: https, lowercase host
+-- without www. or default port, no fragment, no tracking params, query params
+-- sorted, no trailing slash. Returns NULL for empty or non-http(s) URLs.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.canonicalize_url(p_url TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_parts TEXT[];
+    v_host TEXT;
+    v_path TEXT;
+    v_query TEXT;
+BEGIN
+    IF p_url IS NULL OR btrim(p_url) = '' THEN
+        RETURN NULL;
+    END IF;
+
+    -- scheme, host[:port], path, query; the fragment is dropped first
+    v_parts := regexp_match(
+        split_part(btrim(p_url), '#', 1),
+        '^(?:([a-z][a-z0-9+.-]*)://)?([^/?]+)([^?]*)(?:\?(.*))?$',
+        'i'
+    );
+
+    IF v_parts IS NULL OR (v_parts[1] IS NOT NULL AND lower(v_parts[1]) NOT IN ('http', 'https')) THEN
+        RETURN NULL;
+    END IF;
+
+    v_host := regexp_replace(lower(v_parts[2]), '^www\.', '');
+    v_host := regexp_replace(v_host, ':(80|443)$', '');
+    v_path := regexp_replace(COALESCE(v_parts[3], ''), '/+$', '');
+
+    SELECT string_agg(param, '&' ORDER BY param COLLATE "C")
+    INTO v_query
+    FROM unnest(string_to_array(v_parts[4], '&')) AS param
+    WHERE split_part(param, '=', 1) <> ''
+      AND split_part(param, '=', 1) !~* '^(utm_.+|gclid|gclsrc|dclid|gbraid|wbraid|fbclid|msclkid|yclid|twclid|ttclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|__hstc|__hssc|__hsfp|hsctatracking|ref|ref_src|ref_url|referrer|srsltid|spm|scid|si|trk|trkcampaign|sr_share|oly_anon_id|oly_enc_id|vero_id|wickedid|s_kwcid|ef_id|mkt_tok)$';
+
+    RETURN 'https://' || v_host || v_path || COALESCE('?' || v_query, '');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.canonicalize_url(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.canonicalize_url(TEXT) TO service_role;
+
+-- =============================================
+-- PHASE 1: Citations column
+-- =============================================
+
+ALTER TABLE public.citations ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_citations_project_canonical_url ON public.citations(project_id, canonical_url);
+
+-- Backfill from url (redirects of existing rows can't be resolved here)
+UPDATE public.citations
+SET canonical_url = public.canonicalize_url(url)
+WHERE canonical_url IS NULL
+  AND url IS NOT NULL;
+
+-- Inserts without a canonical_url get the canonical form of url
+CREATE OR REPLACE FUNCTION public.set_citation_canonical_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.canonical_url IS NULL THEN
+        NEW.canonical_url := public.canonicalize_url(NEW.url);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_citations_canonical_url ON public.citations;
+CREATE TRIGGER set_citations_canonical_url
+    BEFORE INSERT ON public.citations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_citation_canonical_url();
+
+-- =============================================
+-- FUNCTION: count_distinct_citation_pages
+-- Now counts distinct canonical pages (it used to count AI responses with at
+-- least one cited URL). p_citation_type narrows to 'brand', 'competitor' or
+-- 'other' pages.
+-- =============================================
+
+DROP FUNCTION IF EXISTS count_distinct_citation_pages(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION count_distinct_citation_pages(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ DEFAULT NULL,
+  p_to_date TIMESTAMPTZ DEFAULT NULL,
+  p_platform TEXT DEFAULT NULL,
+  p_region TEXT DEFAULT NULL,
+  p_topic_id UUID DEFAULT NULL,
+  p_citation_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(DISTINCT c.canonical_url)
+  INTO v_count
+  FROM citations c
+  INNER JOIN ai_responses ar ON ar.id = c.ai_response_id
+  INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  WHERE c.project_id = p_project_id
+    AND c.canonical_url IS NOT NULL
+    AND (p_from_date IS NULL OR c.created_at >= p_from_date)
+    AND (p_to_date IS NULL OR c.created_at <= p_to_date)
+    AND (p_platform IS NULL OR p_platform = 'all' OR ar.platform = p_platform)
+    AND (p_region IS NULL OR p_region = 'GLOBAL' OR pt.region = p_region)
+    AND (p_topic_id IS NULL OR pt.topic_id = p_topic_id)
+    AND (p_citation_type IS NULL OR c.citation_type = p_citation_type);
+
+  RETURN COALESCE(v_count, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION count_distinct_citation_pages(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, UUID, TEXT) TO authenticated;
+
+-- =============================================
+-- FUNCTION: get_top_cited_pages
+-- Most cited canonical pages, with the number of AI answers citing them and a
+-- per-platform breakdown. p_citation_type = 'brand' gives your own pages.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_top_cited_pages(
+    p_project_id UUID,
+    p_from_date TIMESTAMPTZ DEFAULT NULL,
+    p_to_date TIMESTAMPTZ DEFAULT NULL,
+    p_platform TEXT DEFAULT NULL,
+    p_citation_type TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+    canonical_url TEXT,
+    domain TEXT,
+    title TEXT,
+    citations_count BIGINT,
+    responses_count BIGINT,
+    platform_counts JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH filtered AS (
+        SELECT c.canonical_url, c.domain, c.metadata, c.ai_response_id, ar.platform
+        FROM public.citations c
+        INNER JOIN public.ai_responses ar ON ar.id = c.ai_response_id
+        WHERE c.project_id = p_project_id
+          AND c.canonical_url IS NOT NULL
+          AND (p_from_date IS NULL OR c.created_at >= p_from_date)
+          AND (p_to_date IS NULL OR c.created_at <= p_to_date)
+          AND (p_platform IS NULL OR ar.platform = p_platform)
+          AND (p_citation_type IS NULL OR c.citation_type = p_citation_type)
+    ),
+    per_platform AS (
+        SELECT f.canonical_url, f.platform, COUNT(*) AS citations_count
+        FROM filtered f
+        GROUP BY f.canonical_url, f.platform
+    )
+    SELECT
+        f.canonical_url,
+        (ARRAY_AGG(normalize_domain(f.domain)) FILTER (WHERE f.domain IS NOT NULL))[1] AS domain,
+        (ARRAY_AGG(f.metadata->>'title') FILTER (WHERE f.metadata->>'title' IS NOT NULL))[1] AS title,
+        COUNT(*)::BIGINT AS citations_count,
+        COUNT(DISTINCT f.ai_response_id)::BIGINT AS responses_count,
+        (
+            SELECT jsonb_object_agg(pp.platform, pp.citations_count)
+            FROM per_platform pp
+            WHERE pp.canonical_url = f.canonical_url
+        ) AS platform_counts
+    FROM filtered f
+    GROUP BY f.canonical_url
+    ORDER BY COUNT(*) DESC
+    LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_top_cited_pages(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN public.citations.canonical_url IS 'url after redirect resolution and canonicalization (tracking params, host, trailing slash); page-level queries group by it';
+COMMENT ON FUNCTION public.canonicalize_url(TEXT) IS 'Canonical form of a URL, mirrors canonicalizeUrl() in the orchestrator';
+COMMENT ON FUNCTION count_distinct_citation_pages IS 'Counts distinct canonical cited pages, with optional filtering by date range, platform, region, topic and citation type';
+COMMENT ON FUNCTION public.get_top_cited_pages(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, INTEGER) IS 'Most cited canonical pages with AI answer counts and per-platform breakdown';
@@ -0,0 +1,215 @@
+-- =============================================
+-- MIGRATION: Create alert rules and alerts
+-- Description: Project-level alert rules evaluated by the orchestrator after the
+-- daily stats aggregation (src/lib/alerts.ts):
+--   * share_below: brand mention share under threshold %
+--   * metric_drop: mentions, mention share or citations down more than
+--     threshold % vs the trailing 7-day mean
+--   * competitor_overtake: a competitor gets more mentions than the brand on a
+--     platform where it had fewer the previous day
+--   * negative_sentiment: brand sentiment on an evaluation topic turns negative
+--   * new_competitor: a brand is detected for the first time
+-- Fired alerts are kept as history, shown in-app and optionally sent by email;
+-- members acknowledge or snooze them.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- PHASE 1: Rules
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.alert_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    rule_type TEXT NOT NULL CHECK (rule_type IN (
+        'share_below', 'metric_drop', 'competitor_overtake', 'negative_sentiment', 'new_competitor'
+    )),
+    metric TEXT NOT NULL DEFAULT 'mentions' CHECK (metric IN ('mentions', 'mention_share', 'citations')), -- metric_drop only
+    threshold NUMERIC, -- % for share_below and metric_drop, sentiment score for negative_sentiment
+    -- Scope (NULL = all)
+    platform TEXT,
+    topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE,
+    competitor_id UUID REFERENCES public.competitors(id) ON DELETE CASCADE, -- competitor_overtake only
+    sentiment_topic TEXT, -- negative_sentiment only, one of projects.extracted_topics
+    -- Delivery (alerts are always shown in-app)
+    email_recipients TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT alert_rules_threshold_check CHECK (
+        rule_type NOT IN ('share_below', 'metric_drop') OR (threshold IS NOT NULL AND threshold > 0 AND threshold <= 100)
+    )
+);
+
+-- Enable RLS
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_project_active ON public.alert_rules(project_id) WHERE is_active;
+
+CREATE POLICY "Users can read accessible alert rules"
+    ON public.alert_rules
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = alert_rules.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = alert_rules.project_id
+        )
+    );
+
+-- Rules send email, so only admins manage them
+CREATE POLICY "Admins can manage alert rules"
+    ON public.alert_rules
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = alert_rules.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = alert_rules.project_id
+            AND role = 'admin'
+        )
+    );
+
+CREATE TRIGGER update_alert_rules_updated_at
+    BEFORE UPDATE ON public.alert_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- PHASE 2: Alert history
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    rule_id UUID REFERENCES public.alert_rules(id) ON DELETE SET NULL, -- History outlives the rule
+    rule_type TEXT NOT NULL,
+    stat_date DATE NOT NULL,
+    subject_key TEXT NOT NULL, -- What fired within the rule, e.g. 'platform:openai' or 'topic:pricing'
+    severity TEXT NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb, -- Observed values behind the alert
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged')),
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    snoozed_until TIMESTAMPTZ, -- The rule doesn't fire again for this subject until then
+    delivery JSONB NOT NULL DEFAULT '{}'::jsonb, -- { email: 'sent' | 'failed' | 'skipped' }
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Re-running the aggregation for a day doesn't fire the same alert twice
+    UNIQUE (rule_id, stat_date, subject_key)
+);
+
+-- Enable RLS
+ALTER TABLE public.alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_project_created ON public.alerts(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_project_open ON public.alerts(project_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_alerts_rule_subject_snoozed ON public.alerts(rule_id, subject_key, snoozed_until)
+    WHERE snoozed_until IS NOT NULL;
+
+CREATE POLICY "Users can read accessible alerts"
+    ON public.alerts
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = alerts.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = alerts.project_id
+        )
+    );
+
+-- Any member can acknowledge or snooze; alerts are inserted by the orchestrator (service role)
+CREATE POLICY "Users can update accessible alerts"
+    ON public.alerts
+    FOR UPDATE
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = alerts.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = alerts.project_id
+        )
+    );
+
+-- =============================================
+-- FUNCTION: get_alert_stat_totals
+-- Daily mentions and citations per platform and entity, summed over regions and
+-- topics (or for one topic), for the rule evaluator
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_alert_stat_totals(
+    p_project_id UUID,
+    p_from_date DATE,
+    p_to_date DATE,
+    p_topic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    stat_date DATE,
+    platform TEXT,
+    entity_type TEXT,
+    competitor_id UUID,
+    entity_name TEXT,
+    mentions BIGINT,
+    citations BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        s.stat_date,
+        s.platform,
+        s.entity_type,
+        s.competitor_id,
+        MAX(s.entity_name) AS entity_name,
+        SUM(s.mentions_count)::BIGINT AS mentions,
+        SUM(s.citations_count)::BIGINT AS citations
+    FROM public.daily_brand_stats s
+    WHERE s.project_id = p_project_id
+      AND s.stat_date BETWEEN p_from_date AND p_to_date
+      AND (p_topic_id IS NULL OR s.topic_id = p_topic_id)
+    GROUP BY s.stat_date, s.platform, s.entity_type, s.competitor_id
+    ORDER BY s.stat_date, s.platform, s.entity_type, s.competitor_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_alert_stat_totals(UUID, DATE, DATE, UUID) TO service_role;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.alert_rules IS 'Project alert rules evaluated after the daily stats aggregation';
+COMMENT ON COLUMN public.alert_rules.threshold IS 'share_below: minimum mention share %; metric_drop: maximum drop % vs the trailing 7-day mean; negative_sentiment: score below which sentiment is negative (default 0)';
+COMMENT ON TABLE public.alerts IS 'Fired alerts with acknowledge/snooze state and delivery results';
+COMMENT ON COLUMN public.alerts.snoozed_until IS 'While in the future, the rule does not fire again for the same subject_key';
+COMMENT ON FUNCTION public.get_alert_stat_totals(UUID, DATE, DATE, UUID) IS 'Daily mentions and citations per platform and entity for alert evaluation';
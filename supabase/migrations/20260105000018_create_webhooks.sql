@@ -0,0 +1,137 @@
+-- =============================================
+-- MIGRATION: Create outbound webhooks
+-- Description: Workspace webhook endpoints subscribed to pipeline and metric
+-- events (batch completed, response stored, mention detected, competitor
+-- discovered, report generated, alert fired), signed with a per-endpoint secret,
+-- and a delivery log with the attempts and last response of every delivery.
+-- finish_analysis_run_prompt now reports when it closed the run, so the
+-- orchestrator emits analysis.batch_completed exactly once.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: webhook_endpoints
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    url TEXT NOT NULL CHECK (url ~* '^https://'),
+    description TEXT,
+    secret TEXT NOT NULL, -- HMAC-SHA256 signing key (whsec_...)
+    events TEXT[] NOT NULL CHECK (
+        cardinality(events) > 0
+        AND events <@ ARRAY[
+            'analysis.batch_completed',
+            'response.stored',
+            'mention.detected',
+            'competitor.discovered',
+            'report.generated',
+            'alert.fired'
+        ]::TEXT[]
+    ),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_workspace ON public.webhook_endpoints(workspace_id) WHERE is_active;
+
+-- Endpoints hold the signing secret, so only workspace admins can see them
+CREATE POLICY "Workspace admins can manage webhook endpoints"
+    ON public.webhook_endpoints
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = webhook_endpoints.workspace_id
+            AND role IN ('owner', 'admin')
+        )
+    );
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+    BEFORE UPDATE ON public.webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- TABLE: webhook_deliveries
+-- One row per event and endpoint; retries update the same row
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+    event_id UUID NOT NULL, -- Shared by the deliveries of one event to several endpoints
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'skipped')),
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT, -- Truncated
+    error TEXT,
+    last_attempt_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_workspace ON public.webhook_deliveries(workspace_id, created_at DESC);
+
+-- Rows are written by the orchestrator (service role)
+CREATE POLICY "Workspace admins can read webhook deliveries"
+    ON public.webhook_deliveries
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = webhook_deliveries.workspace_id
+            AND role IN ('owner', 'admin')
+        )
+    );
+
+-- =============================================
+-- FUNCTION: finish_analysis_run_prompt
+-- Same bookkeeping as before; returns true for the call that closed the run
+-- =============================================
+
+DROP FUNCTION IF EXISTS finish_analysis_run_prompt(UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION finish_analysis_run_prompt(
+  p_run_id UUID,
+  p_failed BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_closed BOOLEAN;
+BEGIN
+  UPDATE analysis_runs
+  SET prompts_completed = prompts_completed + CASE WHEN p_failed THEN 0 ELSE 1 END,
+      prompts_failed = prompts_failed + CASE WHEN p_failed THEN 1 ELSE 0 END,
+      status = CASE
+        WHEN prompts_completed + prompts_failed + 1 < prompts_queued THEN status
+        WHEN prompts_completed + CASE WHEN p_failed THEN 0 ELSE 1 END = 0 THEN 'failed'
+        WHEN prompts_failed + CASE WHEN p_failed THEN 1 ELSE 0 END > 0 THEN 'completed_with_errors'
+        ELSE 'completed'
+      END,
+      completed_at = CASE
+        WHEN prompts_completed + prompts_failed + 1 >= prompts_queued THEN NOW()
+        ELSE completed_at
+      END
+  WHERE id = p_run_id
+  RETURNING prompts_completed + prompts_failed = prompts_queued INTO v_closed;
+
+  RETURN COALESCE(v_closed, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+REVOKE EXECUTE ON FUNCTION finish_analysis_run_prompt FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION finish_analysis_run_prompt TO service_role;
+
+COMMENT ON FUNCTION finish_analysis_run_prompt IS 'Count one prompt of a run as completed or failed, close the run when all prompts finished and return whether this call closed it';
@@ -0,0 +1,116 @@
+-- =============================================
+-- MIGRATION: Create workspace API keys
+-- Description: Keys for the public REST API (/api/v1). Only the SHA-256 hash of
+-- a key is stored; the plain key is shown once when it is created. Each key is
+-- scoped, revocable, can expire and has its own per-minute rate limit, counted
+-- in a fixed one-minute window by consume_api_key.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: api_keys
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL, -- First characters of the key, to recognise it in the list
+    key_hash TEXT NOT NULL UNIQUE, -- Hex SHA-256 of the full key
+    scopes TEXT[] NOT NULL CHECK (
+        cardinality(scopes) > 0
+        AND scopes <@ ARRAY[
+            'projects:read',
+            'projects:write',
+            'responses:read',
+            'stats:read'
+        ]::TEXT[]
+    ),
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute BETWEEN 1 AND 10000),
+    rate_window_started_at TIMESTAMPTZ,
+    rate_window_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_workspace ON public.api_keys(workspace_id, created_at DESC);
+
+-- Keys grant access to every project of the workspace, so only admins manage them.
+-- API requests are authenticated with the service role through consume_api_key.
+CREATE POLICY "Workspace admins can manage API keys"
+    ON public.api_keys
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = api_keys.workspace_id
+            AND role IN ('owner', 'admin')
+        )
+    );
+
+-- =============================================
+-- FUNCTION: consume_api_key
+-- Looks up an active key by hash and counts one request in its current window.
+-- Returns no row for unknown, revoked or expired keys. When the window is full
+-- the request is not counted and remaining is 0 (callers answer 429 until reset_at).
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.consume_api_key(p_key_hash TEXT)
+RETURNS TABLE (
+    key_id UUID,
+    workspace_id UUID,
+    scopes TEXT[],
+    rate_limit INTEGER,
+    remaining INTEGER,
+    reset_at TIMESTAMPTZ,
+    limited BOOLEAN
+) AS $$
+DECLARE
+    v_key api_keys%ROWTYPE;
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_window_start TIMESTAMPTZ;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_key
+    FROM api_keys k
+    WHERE k.key_hash = p_key_hash
+      AND k.revoked_at IS NULL
+      AND (k.expires_at IS NULL OR k.expires_at > v_now)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF v_key.rate_window_started_at IS NULL OR v_key.rate_window_started_at <= v_now - INTERVAL '1 minute' THEN
+        v_window_start := v_now;
+        v_count := 0;
+    ELSE
+        v_window_start := v_key.rate_window_started_at;
+        v_count := v_key.rate_window_count;
+    END IF;
+
+    IF v_count >= v_key.rate_limit_per_minute THEN
+        RETURN QUERY SELECT v_key.id, v_key.workspace_id, v_key.scopes, v_key.rate_limit_per_minute,
+            0, v_window_start + INTERVAL '1 minute', true;
+        RETURN;
+    END IF;
+
+    UPDATE api_keys
+    SET rate_window_started_at = v_window_start,
+        rate_window_count = v_count + 1,
+        last_used_at = v_now
+    WHERE id = v_key.id;
+
+    RETURN QUERY SELECT v_key.id, v_key.workspace_id, v_key.scopes, v_key.rate_limit_per_minute,
+        v_key.rate_limit_per_minute - v_count - 1, v_window_start + INTERVAL '1 minute', false;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.consume_api_key(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.consume_api_key(TEXT) TO service_role;
@@ -0,0 +1,183 @@
+-- =============================================
+-- MIGRATION: Create prompt versions
+-- Description: Immutable versions of each prompt's wording. A trigger on
+-- prompt_tracking records a new version whenever the text changes (from the
+-- dashboard, the API or SQL), and every ai_responses row is linked to the
+-- version it ran, so trends can be split by wording. Existing prompts get their
+-- versions rebuilt from the distinct texts their responses ran with.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: prompt_versions
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.prompt_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_tracking_id UUID NOT NULL REFERENCES public.prompt_tracking(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL CHECK (version_number > 0),
+    prompt TEXT NOT NULL,
+    -- Set when the wording went back to an earlier version's text
+    restored_from_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (prompt_tracking_id, version_number)
+);
+
+ALTER TABLE public.prompt_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the trigger below only
+CREATE POLICY "Users can read accessible prompt versions"
+    ON public.prompt_versions
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = prompt_versions.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = prompt_versions.project_id
+        )
+    );
+
+ALTER TABLE public.prompt_tracking
+    ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_responses
+    ADD COLUMN IF NOT EXISTS prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_responses_prompt_version ON public.ai_responses(prompt_version_id);
+
+-- =============================================
+-- BACKFILL
+-- One version per distinct text the prompt's responses ran with, in order of
+-- first use, plus the current text when it was never run
+-- =============================================
+
+INSERT INTO public.prompt_versions (prompt_tracking_id, project_id, version_number, prompt, created_at)
+SELECT
+    history.prompt_tracking_id,
+    pt.project_id,
+    ROW_NUMBER() OVER (PARTITION BY history.prompt_tracking_id ORDER BY history.first_used_at),
+    history.prompt_text,
+    history.first_used_at
+FROM (
+    SELECT prompt_tracking_id, prompt_text, MIN(created_at) AS first_used_at
+    FROM public.ai_responses
+    GROUP BY prompt_tracking_id, prompt_text
+) history
+JOIN public.prompt_tracking pt ON pt.id = history.prompt_tracking_id;
+
+INSERT INTO public.prompt_versions (prompt_tracking_id, project_id, version_number, prompt, restored_from_version_id, created_at)
+SELECT
+    pt.id,
+    pt.project_id,
+    COALESCE(latest.version_number, 0) + 1,
+    pt.prompt,
+    (
+        SELECT v.id FROM public.prompt_versions v
+        WHERE v.prompt_tracking_id = pt.id AND v.prompt = pt.prompt
+        ORDER BY v.version_number DESC
+        LIMIT 1
+    ),
+    CASE WHEN latest.version_number IS NULL THEN COALESCE(pt.created_at, NOW()) ELSE COALESCE(pt.updated_at, NOW()) END
+FROM public.prompt_tracking pt
+LEFT JOIN LATERAL (
+    SELECT version_number, prompt FROM public.prompt_versions
+    WHERE prompt_tracking_id = pt.id
+    ORDER BY version_number DESC
+    LIMIT 1
+) latest ON true
+WHERE latest.prompt IS DISTINCT FROM pt.prompt;
+
+UPDATE public.prompt_tracking pt
+SET current_version_id = (
+    SELECT v.id FROM public.prompt_versions v
+    WHERE v.prompt_tracking_id = pt.id
+    ORDER BY v.version_number DESC
+    LIMIT 1
+);
+
+-- A response belongs to the latest version with its text that existed when it ran
+UPDATE public.ai_responses ai
+SET prompt_version_id = (
+    SELECT v.id FROM public.prompt_versions v
+    WHERE v.prompt_tracking_id = ai.prompt_tracking_id
+      AND v.prompt = ai.prompt_text
+    ORDER BY (v.created_at <= ai.created_at) DESC, v.version_number DESC
+    LIMIT 1
+)
+WHERE ai.prompt_version_id IS NULL;
+
+-- =============================================
+-- FUNCTION: record_prompt_version
+-- Adds a version when a prompt is created or its text changes and points
+-- prompt_tracking.current_version_id at it. Going back to an earlier wording
+-- (revert) creates a new version that references the restored one.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.record_prompt_version()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_version_id UUID;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.prompt IS NOT DISTINCT FROM OLD.prompt THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO prompt_versions (prompt_tracking_id, project_id, version_number, prompt, restored_from_version_id, created_by)
+    SELECT
+        NEW.id,
+        NEW.project_id,
+        COALESCE((SELECT MAX(version_number) FROM prompt_versions WHERE prompt_tracking_id = NEW.id), 0) + 1,
+        NEW.prompt,
+        (
+            SELECT id FROM prompt_versions
+            WHERE prompt_tracking_id = NEW.id AND prompt = NEW.prompt
+            ORDER BY version_number DESC
+            LIMIT 1
+        ),
+        auth.uid()
+    RETURNING id INTO v_version_id;
+
+    -- Doesn't touch the prompt column, so this trigger doesn't fire again
+    UPDATE prompt_tracking SET current_version_id = v_version_id WHERE id = NEW.id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_prompt_tracking_version
+    AFTER INSERT OR UPDATE OF prompt ON public.prompt_tracking
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_prompt_version();
+
+-- =============================================
+-- FUNCTION: set_ai_response_prompt_version
+-- Responses inserted without a version run the prompt's current one. The
+-- orchestrator passes the version it read with the text, so a prompt edited
+-- mid-run still links responses to the wording they actually ran.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.set_ai_response_prompt_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.prompt_version_id IS NULL THEN
+        SELECT current_version_id INTO NEW.prompt_version_id
+        FROM prompt_tracking
+        WHERE id = NEW.prompt_tracking_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_ai_responses_prompt_version
+    BEFORE INSERT ON public.ai_responses
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_ai_response_prompt_version();
@@ -0,0 +1,104 @@
+-- =============================================
+-- MIGRATION: Create report_schedules table
+-- Description: Recurring detailed reports per project. The orchestrator ticks
+-- hourly, builds the report server-side for every due schedule, stores it in
+-- reports and emails the rendered PDF to the schedule's recipients.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.report_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    period TEXT NOT NULL DEFAULT 'last-week' CHECK (period IN ('yesterday', 'last-week', 'last-month', 'last-3-months')),
+    topic_id UUID REFERENCES public.topics(id) ON DELETE SET NULL, -- NULL = all topics
+    recipients TEXT[] NOT NULL CHECK (cardinality(recipients) BETWEEN 1 AND 20),
+    frequency TEXT NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('daily', 'weekly', 'monthly', 'paused')),
+    hour_of_day SMALLINT NOT NULL DEFAULT 8 CHECK (hour_of_day BETWEEN 0 AND 23),
+    day_of_week SMALLINT NOT NULL DEFAULT 1 CHECK (day_of_week BETWEEN 0 AND 6), -- 0 = Sunday (weekly only)
+    day_of_month SMALLINT NOT NULL DEFAULT 1 CHECK (day_of_month BETWEEN 1 AND 28), -- monthly only
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'es')),
+    last_run_at TIMESTAMPTZ,
+    last_status TEXT CHECK (last_status IN ('sent', 'skipped', 'failed')),
+    last_error TEXT,
+    last_report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+    created_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.report_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_report_schedules_project ON public.report_schedules(project_id);
+
+-- Reports built by a schedule (NULL = created from the dashboard)
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.report_schedules(id) ON DELETE SET NULL;
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible report schedules"
+    ON public.report_schedules
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = report_schedules.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = report_schedules.project_id
+        )
+    );
+
+CREATE POLICY "Users can manage report schedules"
+    ON public.report_schedules
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = report_schedules.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = report_schedules.project_id
+            AND role = 'admin'
+        )
+    );
+
+-- =============================================
+-- Trigger for updated_at
+-- =============================================
+
+CREATE TRIGGER update_report_schedules_updated_at
+    BEFORE UPDATE ON public.report_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.report_schedules IS 'Recurring detailed reports. Due schedules are built by the orchestrator, saved in reports and emailed as PDF.';
+COMMENT ON COLUMN public.report_schedules.period IS 'Report period, same values as reports.period';
+COMMENT ON COLUMN public.report_schedules.frequency IS 'daily, weekly, monthly or paused';
+COMMENT ON COLUMN public.report_schedules.hour_of_day IS 'Local hour (0-23, in timezone) the report is sent';
+COMMENT ON COLUMN public.report_schedules.day_of_week IS 'Local weekday for weekly schedules (0 = Sunday)';
+COMMENT ON COLUMN public.report_schedules.day_of_month IS 'Local day of month for monthly schedules (1-28, valid in every month)';
+COMMENT ON COLUMN public.report_schedules.timezone IS 'IANA timezone used to evaluate the send time';
+COMMENT ON COLUMN public.report_schedules.locale IS 'Language of the PDF and the email (en, es)';
+COMMENT ON COLUMN public.report_schedules.last_status IS 'sent, skipped (email not configured) or failed';
+COMMENT ON COLUMN public.reports.schedule_id IS 'Schedule that generated the report; NULL for reports created in the dashboard';
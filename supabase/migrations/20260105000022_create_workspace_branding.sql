@@ -0,0 +1,78 @@
+-- =============================================
+-- MIGRATION: Create workspace_branding table
+-- Description: White-label branding per workspace for agencies reporting to
+-- their clients. Applied to generated reports (dashboard and PDF), shared
+-- links and outbound emails: logo, colors, report cover, footer/disclaimer and
+-- sender name. Engines and metrics listed as hidden are left out of them.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.workspace_branding (
+    workspace_id UUID PRIMARY KEY REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    logo_url TEXT CHECK (logo_url ~* '^https://'), -- PNG or JPEG, embedded in PDFs
+    primary_color TEXT CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'), -- NULL = product default
+    secondary_color TEXT CHECK (secondary_color ~ '^#[0-9a-fA-F]{6}$'),
+    cover_title TEXT CHECK (char_length(cover_title) <= 120), -- NULL = no cover page
+    cover_subtitle TEXT CHECK (char_length(cover_subtitle) <= 240),
+    footer_text TEXT CHECK (char_length(footer_text) <= 1000), -- Footer / disclaimer
+    sender_name TEXT CHECK (char_length(sender_name) <= 80), -- Display name of outbound emails
+    hidden_platforms TEXT[] NOT NULL DEFAULT '{}',
+    hidden_metrics TEXT[] NOT NULL DEFAULT '{}' CHECK (
+        hidden_metrics <@ ARRAY['visibility', 'share_of_voice', 'sentiment', 'attributes', 'new_competitors']::TEXT[]
+    ),
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.workspace_branding ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+-- Everyone who can open a report of the workspace sees it branded
+CREATE POLICY "Users can read accessible workspace branding"
+    ON public.workspace_branding
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = workspace_branding.workspace_id
+        )
+        OR
+        auth.uid() IN (
+            SELECT pm.user_id FROM public.project_members pm
+            JOIN public.projects p ON p.id = pm.project_id
+            WHERE p.workspace_id = workspace_branding.workspace_id
+        )
+    );
+
+CREATE POLICY "Workspace admins can manage workspace branding"
+    ON public.workspace_branding
+    FOR ALL
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = workspace_branding.workspace_id
+            AND role IN ('owner', 'admin')
+        )
+    );
+
+-- =============================================
+-- Triggers
+-- =============================================
+
+CREATE TRIGGER update_workspace_branding_updated_at
+    BEFORE UPDATE ON public.workspace_branding
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.workspace_branding IS 'White-label branding applied to reports, shared links and emails of a workspace';
+COMMENT ON COLUMN public.workspace_branding.hidden_platforms IS 'AI engines left out of branded reports (their responses are not counted and their names are not shown)';
+COMMENT ON COLUMN public.workspace_branding.hidden_metrics IS 'Report sections left out of branded reports';
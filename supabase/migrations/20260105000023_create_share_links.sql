@@ -0,0 +1,172 @@
+-- =============================================
+-- MIGRATION: Create share links
+-- Description: Read-only public links to a saved report or to a dashboard view
+-- with its filters frozen, opened at /share/<token> without signing in. Only
+-- the SHA-256 hash of a token is stored; the link is shown once when it is
+-- created. Links expire, can be revoked and can require a password (scrypt
+-- hash). Every open is logged in share_link_accesses so account managers know
+-- when a client actually viewed it.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: share_links
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.share_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 120),
+    resource_type TEXT NOT NULL CHECK (resource_type IN ('report', 'dashboard_view')),
+    report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE,
+    view TEXT CHECK (view IN ('visibility', 'share_of_voice', 'sentiment')),
+    filters JSONB NOT NULL DEFAULT '{}', -- Frozen {from, to, platform, region, topic_id} of a dashboard view
+    token_prefix TEXT NOT NULL, -- First characters of the token, to recognise it in the list
+    token_hash TEXT NOT NULL UNIQUE, -- Hex SHA-256 of the full token
+    password_hash TEXT, -- scrypt$<salt>$<hash>; NULL = no password
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    access_count INTEGER NOT NULL DEFAULT 0,
+    last_accessed_at TIMESTAMPTZ,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT share_links_resource CHECK (
+        (resource_type = 'report' AND report_id IS NOT NULL AND view IS NULL)
+        OR (resource_type = 'dashboard_view' AND view IS NOT NULL AND report_id IS NULL)
+    )
+);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project ON public.share_links(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_share_links_report ON public.share_links(report_id) WHERE report_id IS NOT NULL;
+
+-- =============================================
+-- TABLE: share_link_accesses
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.share_link_accesses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    share_link_id UUID NOT NULL REFERENCES public.share_links(id) ON DELETE CASCADE,
+    outcome TEXT NOT NULL CHECK (outcome IN ('viewed', 'password_failed')),
+    ip_hash TEXT, -- Hex SHA-256 of the visitor's IP, to tell visitors apart without storing it
+    user_agent TEXT,
+    referrer TEXT,
+    accessed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.share_link_accesses ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_share_link_accesses_link ON public.share_link_accesses(share_link_id, accessed_at DESC);
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can read accessible share links"
+    ON public.share_links
+    FOR SELECT
+    USING (
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = share_links.project_id
+            )
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = share_links.project_id
+        )
+    );
+
+-- Any member can share what they can see; revoking is limited to the creator and admins
+CREATE POLICY "Users can create share links"
+    ON public.share_links
+    FOR INSERT
+    WITH CHECK (
+        created_by = auth.uid()
+        AND (
+            auth.uid() IN (
+                SELECT user_id FROM public.workspace_members
+                WHERE workspace_id = (
+                    SELECT workspace_id FROM public.projects
+                    WHERE id = share_links.project_id
+                )
+            )
+            OR
+            auth.uid() IN (
+                SELECT user_id FROM public.project_members
+                WHERE project_id = share_links.project_id
+            )
+        )
+    );
+
+CREATE POLICY "Creators and admins can update share links"
+    ON public.share_links
+    FOR UPDATE
+    USING (
+        created_by = auth.uid()
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.workspace_members
+            WHERE workspace_id = (
+                SELECT workspace_id FROM public.projects
+                WHERE id = share_links.project_id
+            )
+            AND role IN ('owner', 'admin')
+        )
+        OR
+        auth.uid() IN (
+            SELECT user_id FROM public.project_members
+            WHERE project_id = share_links.project_id
+            AND role = 'admin'
+        )
+    );
+
+-- Accesses are written by the public share page with the service role
+CREATE POLICY "Users can read accesses of accessible share links"
+    ON public.share_link_accesses
+    FOR SELECT
+    USING (
+        share_link_id IN (SELECT id FROM public.share_links)
+    );
+
+-- =============================================
+-- FUNCTION: record_share_link_access
+-- Logs one open (or failed password attempt) of a link and, for opens, bumps
+-- its counters in the same statement so concurrent opens aren't lost.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.record_share_link_access(
+    p_share_link_id UUID,
+    p_outcome TEXT,
+    p_ip_hash TEXT,
+    p_user_agent TEXT,
+    p_referrer TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO share_link_accesses (share_link_id, outcome, ip_hash, user_agent, referrer)
+    VALUES (p_share_link_id, p_outcome, p_ip_hash, left(p_user_agent, 500), left(p_referrer, 500));
+
+    IF p_outcome = 'viewed' THEN
+        UPDATE share_links
+        SET access_count = access_count + 1,
+            last_accessed_at = NOW()
+        WHERE id = p_share_link_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.record_share_link_access(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_share_link_access(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON TABLE public.share_links IS 'Expiring, revocable read-only public links to a report or a dashboard view';
+COMMENT ON COLUMN public.share_links.filters IS 'Dashboard view filters frozen when the link was created';
+COMMENT ON TABLE public.share_link_accesses IS 'Opens and failed password attempts of share links';
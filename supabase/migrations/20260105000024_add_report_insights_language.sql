@@ -0,0 +1,41 @@
+-- =============================================
+-- MIGRATION: Report insights language and regeneration
+-- Description: Projects get the language their report insights are written
+-- in. Insights are generated by a model from numbered facts of the report
+-- data (falling back to templates without a model key) and cached in
+-- reports.insights; members of the project can regenerate them, so reports
+-- become updatable by them.
+-- Date: 2026-01-05
+-- =============================================
+
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'es'));
+
+-- =============================================
+-- RLS Policies
+-- =============================================
+
+CREATE POLICY "Users can update reports for accessible projects"
+  ON public.reports
+  FOR UPDATE
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.workspace_members
+      WHERE workspace_id = (
+        SELECT workspace_id FROM public.projects
+        WHERE id = reports.project_id
+      )
+    )
+    OR
+    auth.uid() IN (
+      SELECT user_id FROM public.project_members
+      WHERE project_id = reports.project_id
+    )
+  );
+
+-- =============================================
+-- COMMENTS
+-- =============================================
+
+COMMENT ON COLUMN public.projects.language IS 'Language report insights are written in (en, es)';
+COMMENT ON COLUMN public.reports.insights IS 'Narrative per section (visibility, shareOfVoice, sentiment), recommendations, the numbered facts the text cites as [F1], source (llm or template), language and generatedAt';
@@ -0,0 +1,63 @@
+-- =============================================
+-- MIGRATION: Check project membership in get_brand_mention_rate
+-- Description: get_brand_mention_rate runs as SECURITY DEFINER and is granted
+-- to authenticated, so it bypassed RLS for any project id it was given. It now
+-- raises unless the caller belongs to the project's workspace or the project.
+-- Date: 2026-01-05
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_brand_mention_rate(
+  p_project_id UUID,
+  p_from_date TIMESTAMPTZ,
+  p_to_date TIMESTAMPTZ,
+  p_platform TEXT DEFAULT NULL,
+  p_region_id UUID DEFAULT NULL,
+  p_topic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  platform TEXT,
+  samples_count BIGINT,
+  mentioned_count BIGINT
+) AS $$
+BEGIN
+  -- SECURITY DEFINER skips RLS: only members of the project's workspace or of
+  -- the project itself may read its mention rate
+  IF NOT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id = p_project_id
+      AND (
+        auth.uid() IN (SELECT wm.user_id FROM workspace_members wm WHERE wm.workspace_id = p.workspace_id)
+        OR auth.uid() IN (SELECT pm.user_id FROM project_members pm WHERE pm.project_id = p.id)
+      )
+  ) THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ar.platform,
+    COUNT(*)::BIGINT as samples_count,
+    COUNT(*) FILTER (
+      WHERE EXISTS (
+        SELECT 1 FROM brand_mentions bm
+        WHERE bm.ai_response_id = ar.id
+          AND bm.brand_type = 'client'
+      )
+    )::BIGINT as mentioned_count
+  FROM ai_responses ar
+  INNER JOIN prompt_tracking pt ON pt.id = ar.prompt_tracking_id
+  WHERE ar.project_id = p_project_id
+    AND ar.status = 'success'
+    AND ar.brand_analysis_status = 'success'
+    AND ar.created_at >= p_from_date
+    AND ar.created_at <= p_to_date
+    AND (p_platform IS NULL OR ar.platform = p_platform)
+    AND (p_region_id IS NULL OR pt.region_id = p_region_id)
+    AND (p_topic_id IS NULL OR pt.topic_id = p_topic_id)
+  GROUP BY ar.platform;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION get_brand_mention_rate FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_brand_mention_rate TO authenticated;
@@ -0,0 +1,75 @@
+-- =============================================
+-- MIGRATION: Idempotent AI spend recording
+-- Description: Spend is recorded inside Inngest steps, and a retried step
+-- recorded its calls again. record_ai_spend takes an optional idempotency key
+-- (Inngest run id, step and call) and ignores a key it already counted.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: ai_spend_keys
+-- Keys already counted; only needed while a run can still be retried
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.ai_spend_keys (
+    idempotency_key TEXT PRIMARY KEY,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Written by record_ai_spend only, never read by the dashboard
+ALTER TABLE public.ai_spend_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ai_spend_keys_created_at ON public.ai_spend_keys(created_at);
+
+-- =============================================
+-- FUNCTION: record_ai_spend
+-- Atomically adds one call to the ledger row of the day, once per key
+-- =============================================
+
+DROP FUNCTION IF EXISTS record_ai_spend(UUID, TEXT, TEXT, BIGINT, DECIMAL);
+
+CREATE OR REPLACE FUNCTION record_ai_spend(
+  p_project_id UUID,
+  p_platform TEXT,
+  p_source TEXT,
+  p_tokens BIGINT,
+  p_cost DECIMAL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_workspace_id UUID;
+BEGIN
+  SELECT workspace_id INTO v_workspace_id
+  FROM projects
+  WHERE id = p_project_id;
+
+  IF v_workspace_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO ai_spend_keys (idempotency_key)
+    VALUES (p_idempotency_key)
+    ON CONFLICT (idempotency_key) DO NOTHING;
+
+    -- Already counted by an earlier attempt of the same step
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    -- Inngest gives up on a run long before this
+    DELETE FROM ai_spend_keys WHERE created_at < NOW() - INTERVAL '30 days';
+  END IF;
+
+  INSERT INTO ai_spend_ledger (workspace_id, project_id, platform, source, spend_date, calls_count, tokens_used, cost)
+  VALUES (v_workspace_id, p_project_id, p_platform, p_source, CURRENT_DATE, 1, COALESCE(p_tokens, 0), COALESCE(p_cost, 0))
+  ON CONFLICT (project_id, platform, source, spend_date) DO UPDATE SET
+    calls_count = ai_spend_ledger.calls_count + 1,
+    tokens_used = ai_spend_ledger.tokens_used + EXCLUDED.tokens_used,
+    cost = ai_spend_ledger.cost + EXCLUDED.cost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_ai_spend FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_ai_spend TO service_role;
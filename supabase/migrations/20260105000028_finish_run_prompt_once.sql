@@ -0,0 +1,72 @@
+-- =============================================
+-- MIGRATION: Finish each prompt of a run once
+-- Description: process-prompt counts its prompt in the run when it ends, and
+-- its onFailure handler counts it as failed when a later step exhausts its
+-- retries, so a prompt could be counted twice. finish_analysis_run_prompt now
+-- records the finished prompts of a run and ignores a prompt it already counted.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- TABLE: analysis_run_prompts
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS public.analysis_run_prompts (
+    run_id UUID NOT NULL REFERENCES public.analysis_runs(id) ON DELETE CASCADE,
+    prompt_tracking_id UUID NOT NULL REFERENCES public.prompt_tracking(id) ON DELETE CASCADE,
+    failed BOOLEAN NOT NULL,
+    finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (run_id, prompt_tracking_id)
+);
+
+-- Written by finish_analysis_run_prompt only
+ALTER TABLE public.analysis_run_prompts ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- FUNCTION: finish_analysis_run_prompt
+-- =============================================
+
+DROP FUNCTION IF EXISTS finish_analysis_run_prompt(UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION finish_analysis_run_prompt(
+  p_run_id UUID,
+  p_prompt_tracking_id UUID,
+  p_failed BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_closed BOOLEAN;
+BEGIN
+  INSERT INTO analysis_run_prompts (run_id, prompt_tracking_id, failed)
+  VALUES (p_run_id, p_prompt_tracking_id, p_failed)
+  ON CONFLICT (run_id, prompt_tracking_id) DO NOTHING;
+
+  -- Already counted (e.g. onFailure after the prompt finished)
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE analysis_runs
+  SET prompts_completed = prompts_completed + CASE WHEN p_failed THEN 0 ELSE 1 END,
+      prompts_failed = prompts_failed + CASE WHEN p_failed THEN 1 ELSE 0 END,
+      status = CASE
+        WHEN prompts_completed + prompts_failed + 1 < prompts_queued THEN status
+        WHEN prompts_completed + CASE WHEN p_failed THEN 0 ELSE 1 END = 0 THEN 'failed'
+        WHEN prompts_failed + CASE WHEN p_failed THEN 1 ELSE 0 END > 0 THEN 'completed_with_errors'
+        ELSE 'completed'
+      END,
+      completed_at = CASE
+        WHEN prompts_completed + prompts_failed + 1 >= prompts_queued THEN NOW()
+        ELSE completed_at
+      END
+  WHERE id = p_run_id
+  RETURNING prompts_completed + prompts_failed = prompts_queued INTO v_closed;
+
+  RETURN COALESCE(v_closed, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION finish_analysis_run_prompt FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION finish_analysis_run_prompt TO service_role;
+
+COMMENT ON FUNCTION finish_analysis_run_prompt IS 'Count one prompt of a run as completed or failed (once per prompt), close the run when all prompts finished and return whether this call closed it';
@@ -0,0 +1,58 @@
+-- =============================================
+-- MIGRATION: Throttle share link unlocks atomically
+-- Description: Wrong passwords were counted per link and visitor IP, taken from
+-- a header the visitor sets, and the count was read before the failure was
+-- logged, so parallel guesses all passed the check. claim_share_link_unlock_attempt
+-- counts a link's recent failures whatever the IP and logs the attempt in one
+-- transaction, under a lock on the link row.
+-- Date: 2026-01-05
+-- =============================================
+
+-- =============================================
+-- FUNCTION: claim_share_link_unlock_attempt
+-- Logs a password attempt as failed up front and returns its id, or NULL once
+-- the link has p_max_failures failures in the window. The caller deletes the
+-- row when the password turns out to be right.
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.claim_share_link_unlock_attempt(
+    p_share_link_id UUID,
+    p_ip_hash TEXT,
+    p_user_agent TEXT,
+    p_referrer TEXT,
+    p_max_failures INTEGER,
+    p_window_seconds INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+    v_failures INTEGER;
+    v_attempt_id UUID;
+BEGIN
+    -- Serializes attempts on the same link so the count below can't go stale
+    PERFORM 1 FROM share_links WHERE id = p_share_link_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COUNT(*) INTO v_failures
+    FROM share_link_accesses
+    WHERE share_link_id = p_share_link_id
+      AND outcome = 'password_failed'
+      AND accessed_at >= NOW() - make_interval(secs => p_window_seconds);
+
+    IF v_failures >= p_max_failures THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO share_link_accesses (share_link_id, outcome, ip_hash, user_agent, referrer)
+    VALUES (p_share_link_id, 'password_failed', p_ip_hash, left(p_user_agent, 500), left(p_referrer, 500))
+    RETURNING id INTO v_attempt_id;
+
+    RETURN v_attempt_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.claim_share_link_unlock_attempt(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_share_link_unlock_attempt(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.claim_share_link_unlock_attempt IS 'Log a share link password attempt as failed and return its id, or NULL when the link has too many recent failures';